@@ -0,0 +1,219 @@
+import {
+  buildAttendanceSessions,
+  defaultAttendanceSettings,
+  detectAttendanceExceptions,
+  findShiftForClockIn,
+  getAttendanceExceptionKey,
+  resolveAttendanceSettings,
+  summarizeAttendanceExceptions,
+  type AttendanceEntry,
+  type AttendanceShift,
+} from "@/lib/attendance";
+
+const shift = (overrides: Partial<AttendanceShift> = {}): AttendanceShift => ({
+  id: "shift-1",
+  user_id: "user-1",
+  start_time: "2024-03-04T09:00:00.000Z",
+  end_time: "2024-03-04T17:00:00.000Z",
+  break_minutes: 30,
+  status: "scheduled",
+  ...overrides,
+});
+
+let entryId = 0;
+const entry = (entryType: string, timestamp: string, userId = "user-1"): AttendanceEntry => ({
+  id: `entry-${++entryId}`,
+  user_id: userId,
+  entry_type: entryType,
+  timestamp,
+  shift_id: null,
+});
+
+const range = {
+  start: new Date("2024-03-04T00:00:00Z"),
+  end: new Date("2024-03-05T00:00:00Z"),
+};
+const evening = new Date("2024-03-04T20:00:00Z");
+
+const detect = (shifts: AttendanceShift[], entries: AttendanceEntry[], now = evening) =>
+  detectAttendanceExceptions({ shifts, entries, settings: defaultAttendanceSettings, range, now });
+
+describe("resolveAttendanceSettings", () => {
+  it("should fill in defaults for missing grace periods", () => {
+    expect(resolveAttendanceSettings({ attendance: { lateGraceMinutes: 10 } })).toEqual({
+      ...defaultAttendanceSettings,
+      lateGraceMinutes: 10,
+    });
+    expect(resolveAttendanceSettings(null)).toEqual(defaultAttendanceSettings);
+  });
+});
+
+describe("buildAttendanceSessions", () => {
+  it("should pair punches into sessions and total breaks", () => {
+    const sessions = buildAttendanceSessions([
+      entry("clock_out", "2024-03-04T17:00:00Z"),
+      entry("break_start", "2024-03-04T12:00:00Z"),
+      entry("clock_in", "2024-03-04T09:00:00Z"),
+      entry("break_end", "2024-03-04T12:20:00Z"),
+    ]);
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].clockIn.timestamp).toBe("2024-03-04T09:00:00Z");
+    expect(sessions[0].clockOut?.timestamp).toBe("2024-03-04T17:00:00Z");
+    expect(sessions[0].breakMinutes).toBe(20);
+    expect(sessions[0].entries).toHaveLength(4);
+  });
+
+  it("should end a break still open at clock-out", () => {
+    const [session] = buildAttendanceSessions([
+      entry("clock_in", "2024-03-04T09:00:00Z"),
+      entry("break_start", "2024-03-04T16:45:00Z"),
+      entry("clock_out", "2024-03-04T17:00:00Z"),
+    ]);
+
+    expect(session.breakMinutes).toBe(15);
+  });
+});
+
+describe("findShiftForClockIn", () => {
+  const settings = defaultAttendanceSettings;
+
+  it("should match a clock-in within the early window or during the shift", () => {
+    const shifts = [shift()];
+
+    expect(findShiftForClockIn(shifts, "user-1", new Date("2024-03-04T08:15:00Z"), settings)?.id).toBe("shift-1");
+    expect(findShiftForClockIn(shifts, "user-1", new Date("2024-03-04T11:00:00Z"), settings)?.id).toBe("shift-1");
+    expect(findShiftForClockIn(shifts, "user-1", new Date("2024-03-04T07:30:00Z"), settings)).toBeNull();
+    expect(findShiftForClockIn(shifts, "user-1", new Date("2024-03-04T17:00:00Z"), settings)).toBeNull();
+  });
+
+  it("should prefer the shift starting closest to the clock-in", () => {
+    const shifts = [
+      shift(),
+      shift({ id: "shift-2", start_time: "2024-03-04T13:00:00.000Z", end_time: "2024-03-04T21:00:00.000Z" }),
+    ];
+
+    expect(findShiftForClockIn(shifts, "user-1", new Date("2024-03-04T12:45:00Z"), settings)?.id).toBe("shift-2");
+  });
+
+  it("should ignore cancelled shifts and other employees' shifts", () => {
+    const clockIn = new Date("2024-03-04T09:00:00Z");
+
+    expect(findShiftForClockIn([shift({ status: "cancelled" })], "user-1", clockIn, settings)).toBeNull();
+    expect(findShiftForClockIn([shift({ user_id: "user-2" })], "user-1", clockIn, settings)).toBeNull();
+  });
+});
+
+describe("detectAttendanceExceptions", () => {
+  it("should not flag punches within the grace periods", () => {
+    const { exceptions, links } = detect(
+      [shift()],
+      [
+        entry("clock_in", "2024-03-04T09:04:00Z"),
+        entry("break_start", "2024-03-04T12:00:00Z"),
+        entry("break_end", "2024-03-04T12:27:00Z"),
+        entry("clock_out", "2024-03-04T16:57:00Z"),
+      ]
+    );
+
+    expect(exceptions).toEqual([]);
+    expect(links).toHaveLength(4);
+    expect(links.every((link) => link.shiftId === "shift-1")).toBe(true);
+  });
+
+  it("should flag a late clock-in, early clock-out and missed break", () => {
+    const clockIn = entry("clock_in", "2024-03-04T09:20:00Z");
+    const clockOut = entry("clock_out", "2024-03-04T16:00:00Z");
+    const { exceptions } = detect([shift()], [clockIn, clockOut]);
+
+    expect(exceptions).toEqual([
+      expect.objectContaining({ type: "late_clock_in", minutes: 20, shift_id: "shift-1", time_entry_id: clockIn.id }),
+      expect.objectContaining({ type: "early_clock_out", minutes: 60, time_entry_id: clockOut.id }),
+      expect.objectContaining({ type: "missed_break", minutes: 30 }),
+    ]);
+    expect(exceptions[0].occurred_at).toBe("2024-03-04T09:00:00.000Z");
+  });
+
+  it("should only flag a no-show once the grace period has passed", () => {
+    expect(detect([shift()], [], new Date("2024-03-04T09:20:00Z")).exceptions).toEqual([]);
+    expect(detect([shift()], [], new Date("2024-03-04T09:30:00Z")).exceptions).toEqual([
+      expect.objectContaining({ type: "no_show", shift_id: "shift-1", time_entry_id: null }),
+    ]);
+  });
+
+  it("should flag work outside any shift as unscheduled", () => {
+    const clockIn = entry("clock_in", "2024-03-04T18:00:00Z");
+    const { exceptions, links } = detect(
+      [shift()],
+      [
+        entry("clock_in", "2024-03-04T09:00:00Z"),
+        entry("clock_out", "2024-03-04T17:00:00Z"),
+        clockIn,
+        entry("clock_out", "2024-03-04T19:30:00Z"),
+      ]
+    );
+
+    expect(exceptions).toEqual([
+      expect.objectContaining({
+        type: "unscheduled_work",
+        shift_id: null,
+        time_entry_id: clockIn.id,
+        minutes: 90,
+      }),
+      expect.objectContaining({ type: "missed_break" }),
+    ]);
+    expect(links.filter((link) => link.shiftId === null)).toHaveLength(2);
+  });
+
+  it("should continue a shift clocked back into after a clock-out", () => {
+    const { exceptions, links } = detect(
+      [shift()],
+      [
+        entry("clock_in", "2024-03-04T09:00:00Z"),
+        entry("clock_out", "2024-03-04T12:00:00Z"),
+        entry("clock_in", "2024-03-04T12:30:00Z"),
+        entry("clock_out", "2024-03-04T17:00:00Z"),
+      ]
+    );
+
+    expect(exceptions).toEqual([]);
+    expect(links.every((link) => link.shiftId === "shift-1")).toBe(true);
+  });
+
+  it("should leave shifts outside the range alone", () => {
+    const { exceptions, links } = detect(
+      [shift({ start_time: "2024-03-03T09:00:00.000Z", end_time: "2024-03-03T17:00:00.000Z" })],
+      [entry("clock_in", "2024-03-03T09:30:00Z")]
+    );
+
+    expect(exceptions).toEqual([]);
+    expect(links).toEqual([]);
+  });
+});
+
+describe("getAttendanceExceptionKey", () => {
+  it("should key shift exceptions by shift and unscheduled work by clock-in", () => {
+    expect(getAttendanceExceptionKey({ type: "no_show", shift_id: "s", time_entry_id: null })).toBe("no_show:s");
+    expect(
+      getAttendanceExceptionKey({ type: "unscheduled_work", shift_id: null, time_entry_id: "e" })
+    ).toBe("unscheduled_work:e");
+  });
+});
+
+describe("summarizeAttendanceExceptions", () => {
+  it("should count exceptions per employee", () => {
+    const summary = summarizeAttendanceExceptions([
+      { user_id: "user-1", type: "late_clock_in", status: "open", minutes: 12 },
+      { user_id: "user-1", type: "late_clock_in", status: "resolved", minutes: 8 },
+      { user_id: "user-1", type: "no_show", status: "excused", minutes: null },
+      { user_id: "user-2", type: "missed_break", status: "open", minutes: 30 },
+    ]);
+
+    expect(summary.get("user-1")).toEqual({
+      counts: { late_clock_in: 2, early_clock_out: 0, missed_break: 0, no_show: 1, unscheduled_work: 0 },
+      lateMinutes: 20,
+      open: 1,
+    });
+    expect(summary.get("user-2")?.counts.missed_break).toBe(1);
+  });
+});
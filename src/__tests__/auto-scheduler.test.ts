@@ -0,0 +1,146 @@
+import {
+  buildStaffingSlots,
+  proposeSchedule,
+  type AutoScheduleEmployee,
+  type StaffingRequirement,
+} from "@/lib/auto-scheduler";
+import { defaultShiftValidationRules } from "@/lib/shift-validation";
+
+const requirement = (overrides: Partial<StaffingRequirement> = {}): StaffingRequirement => ({
+  id: "req-1",
+  organization_id: "org-1",
+  location_id: "cafe",
+  position_id: "barista",
+  days_of_week: [1, 2, 3, 4, 5],
+  start_time: "07:00:00",
+  end_time: "11:00:00",
+  break_minutes: 0,
+  headcount: 2,
+  notes: null,
+  is_active: true,
+  created_by: null,
+  created_at: null,
+  updated_at: null,
+  ...overrides,
+});
+
+const employee = (id: string, positions = ["barista"]): AutoScheduleEmployee => ({
+  id,
+  first_name: id,
+  last_name: "Test",
+  user_positions: positions.map((position_id) => ({ position_id })),
+  user_locations: [{ location_id: "cafe" }],
+});
+
+// Monday 2024-01-15 through Sunday 2024-01-21
+const week = ["15", "16", "17", "18", "19", "20", "21"].map((day) => `2024-01-${day}`);
+const period = { from: "2024-01-15T00:00:00.000Z", to: "2024-01-22T00:00:00.000Z" };
+const options = { timeZone: "UTC", weekStartsOn: 1 as const };
+
+describe("buildStaffingSlots", () => {
+  it("should create one slot per seat on matching days in the location's time zone", () => {
+    const slots = buildStaffingSlots([requirement()], week, () => "America/New_York");
+    expect(slots).toHaveLength(10);
+    expect(slots[0]).toMatchObject({
+      date: "2024-01-15",
+      start_time: "2024-01-15T12:00:00.000Z",
+      end_time: "2024-01-15T16:00:00.000Z",
+    });
+  });
+
+  it("should run blocks that end before they start into the next day", () => {
+    const slots = buildStaffingSlots(
+      [requirement({ days_of_week: [6], start_time: "22:00", end_time: "06:00", headcount: 1 })],
+      week,
+      () => "UTC"
+    );
+    expect(slots).toHaveLength(1);
+    expect(slots[0].end_time).toBe("2024-01-21T06:00:00.000Z");
+  });
+});
+
+describe("proposeSchedule", () => {
+  const rules = { ...defaultShiftValidationRules, minDaysOffPerWeek: 0 };
+
+  it("should only assign qualified employees and spread hours evenly", () => {
+    const slots = buildStaffingSlots([requirement()], week, () => "UTC");
+    const result = proposeSchedule({
+      slots,
+      employees: [employee("a"), employee("b"), employee("c"), employee("cook", ["cook"])],
+      existingShifts: [],
+      ptoRequests: [],
+      period,
+      rules,
+      options,
+    });
+
+    expect(result.unfilled).toEqual([]);
+    const counts = result.assignments.reduce<Record<string, number>>((acc, a) => {
+      acc[a.userId] = (acc[a.userId] || 0) + 1;
+      return acc;
+    }, {});
+    expect(counts.cook).toBeUndefined();
+    expect(Object.values(counts).sort()).toEqual([3, 3, 4]);
+
+    // Nobody is put in both seats of the same block
+    const seatsByDay = new Set(result.assignments.map((a) => `${a.slot.date}:${a.userId}`));
+    expect(seatsByDay.size).toBe(result.assignments.length);
+  });
+
+  it("should skip covered slots and leave slots unfilled when nobody can work", () => {
+    const slots = buildStaffingSlots(
+      [requirement({ days_of_week: [1], headcount: 2 })],
+      week,
+      () => "UTC"
+    );
+    const result = proposeSchedule({
+      slots,
+      employees: [employee("a"), employee("b")],
+      existingShifts: [
+        {
+          id: "existing",
+          user_id: "a",
+          location_id: "cafe",
+          position_id: "barista",
+          start_time: "2024-01-15T06:00:00.000Z",
+          end_time: "2024-01-15T12:00:00.000Z",
+        },
+      ],
+      ptoRequests: [{ user_id: "b", start_date: "2024-01-15", end_date: "2024-01-15", status: "approved" }],
+      period,
+      rules,
+      options,
+    });
+
+    expect(result.covered).toHaveLength(1);
+    expect(result.assignments).toEqual([]);
+    expect(result.unfilled).toHaveLength(1);
+  });
+
+  it("should respect unavailability and weekly hour limits", () => {
+    const slots = buildStaffingSlots([requirement({ headcount: 1 })], week, () => "UTC");
+    const result = proposeSchedule({
+      slots,
+      employees: [employee("a"), employee("b")],
+      existingShifts: [],
+      ptoRequests: [],
+      unavailability: [
+        {
+          user_id: "b",
+          start_date: "2024-01-15",
+          end_date: "2024-01-19",
+          start_time: null,
+          end_time: null,
+          status: "approved",
+        },
+      ],
+      period,
+      rules: { ...rules, maxHoursPerWeek: 12 },
+      options,
+    });
+
+    expect(result.assignments.every((a) => a.userId === "a")).toBe(true);
+    expect(result.assignments).toHaveLength(3);
+    expect(result.unfilled).toHaveLength(2);
+  });
+});
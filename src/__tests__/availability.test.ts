@@ -0,0 +1,140 @@
+import {
+  describeDayAvailability,
+  getAvailabilityConflicts,
+  parseWeeklyAvailability,
+  type UnavailabilityEntry,
+} from "@/lib/availability";
+import { defaultShiftValidationRules, validateShifts } from "@/lib/shift-validation";
+
+// Monday to Friday, 9am to 5pm
+const weekdays = [1, 2, 3, 4, 5].map((day_of_week) => ({
+  day_of_week,
+  start_time: "09:00",
+  end_time: "17:00",
+}));
+
+const entry = (overrides: Partial<UnavailabilityEntry> = {}): UnavailabilityEntry => ({
+  user_id: "user-1",
+  start_date: "2024-01-16",
+  end_date: "2024-01-16",
+  start_time: null,
+  end_time: null,
+  status: "approved",
+  ...overrides,
+});
+
+const shift = (start: string, end: string) => ({
+  start_time: `${start}Z`,
+  end_time: `${end}Z`,
+});
+
+const options = { timeZone: "UTC" };
+
+describe("parseWeeklyAvailability", () => {
+  it("should treat missing availability as unrestricted and drop invalid windows", () => {
+    expect(parseWeeklyAvailability(null)).toBeNull();
+    expect(
+      parseWeeklyAvailability([
+        { day_of_week: 2, start_time: "13:00:00", end_time: "24:00" },
+        { day_of_week: 1, start_time: "09:00", end_time: "17:00" },
+        { day_of_week: 7, start_time: "09:00", end_time: "17:00" },
+        { day_of_week: 3, start_time: "17:00", end_time: "09:00" },
+      ])
+    ).toEqual([
+      { day_of_week: 1, start_time: "09:00", end_time: "17:00" },
+      { day_of_week: 2, start_time: "13:00", end_time: "24:00" },
+    ]);
+  });
+});
+
+describe("getAvailabilityConflicts", () => {
+  it("should require shifts to fit inside a window on their day", () => {
+    // Monday 2024-01-15
+    expect(
+      getAvailabilityConflicts(shift("2024-01-15T09:00:00", "2024-01-15T17:00:00"), weekdays, [], options)
+    ).toEqual([]);
+    expect(
+      getAvailabilityConflicts(shift("2024-01-15T08:00:00", "2024-01-15T12:00:00"), weekdays, [], options)
+        .map((c) => c.type)
+    ).toEqual(["outside_availability"]);
+    // Saturday has no window
+    expect(
+      getAvailabilityConflicts(shift("2024-01-20T10:00:00", "2024-01-20T14:00:00"), weekdays, [], options)[0]
+        .message
+    ).toBe("Not available on Sats");
+  });
+
+  it("should compare overnight shifts against the start day up to midnight", () => {
+    const evenings = [{ day_of_week: 1, start_time: "18:00", end_time: "24:00" }];
+    expect(
+      getAvailabilityConflicts(shift("2024-01-15T20:00:00", "2024-01-16T02:00:00"), evenings, [], options)
+    ).toEqual([]);
+  });
+
+  it("should report one-off unavailability that overlaps the shift", () => {
+    const partial = entry({ start_time: "12:00", end_time: "14:00", status: "pending" });
+
+    expect(
+      getAvailabilityConflicts(shift("2024-01-16T09:00:00", "2024-01-16T17:00:00"), null, [entry()], options)
+        .map((c) => c.type)
+    ).toEqual(["unavailable"]);
+    expect(
+      getAvailabilityConflicts(shift("2024-01-16T09:00:00", "2024-01-16T13:00:00"), null, [partial], options)
+        .map((c) => c.type)
+    ).toEqual(["pending_unavailable"]);
+    expect(
+      getAvailabilityConflicts(shift("2024-01-16T14:00:00", "2024-01-16T18:00:00"), null, [partial], options)
+    ).toEqual([]);
+    expect(
+      getAvailabilityConflicts(
+        shift("2024-01-16T09:00:00", "2024-01-16T17:00:00"),
+        null,
+        [entry({ status: "rejected" })],
+        options
+      )
+    ).toEqual([]);
+  });
+});
+
+describe("describeDayAvailability", () => {
+  it("should prefer one-off entries over the weekly pattern", () => {
+    expect(describeDayAvailability("2024-01-16", weekdays, [entry()])).toMatchObject({
+      label: "Unavailable",
+      unavailable: true,
+    });
+    expect(describeDayAvailability("2024-01-15", weekdays, [])).toMatchObject({
+      label: "Available 9:00 AM - 5:00 PM",
+      unavailable: false,
+    });
+    expect(describeDayAvailability("2024-01-20", weekdays, [])?.unavailable).toBe(true);
+    expect(describeDayAvailability("2024-01-20", null, [])).toBeNull();
+  });
+});
+
+describe("validateShifts with availability", () => {
+  it("should warn about availability and preferred weekly hours", () => {
+    const candidates = [
+      { key: "mon", user_id: "user-1", ...shift("2024-01-15T09:00:00", "2024-01-15T17:00:00") },
+      { key: "tue", user_id: "user-1", ...shift("2024-01-16T09:00:00", "2024-01-16T17:00:00") },
+    ];
+
+    const result = validateShifts(
+      candidates,
+      {
+        existingShifts: [],
+        ptoRequests: [],
+        userPositions: {},
+        availability: { "user-1": { weekly: weekdays, preferredMaxHours: 12 } },
+        unavailability: [entry()],
+      },
+      defaultShiftValidationRules,
+      { ...options, weekStartsOn: 1 }
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.warnings.map((w) => [w.shiftKey, w.code])).toEqual([
+      ["tue", "availability"],
+      ["mon", "preferred_hours"],
+    ]);
+  });
+});
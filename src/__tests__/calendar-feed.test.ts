@@ -0,0 +1,140 @@
+import {
+  buildCalendar,
+  escapeICalText,
+  foldICalLine,
+  generateFeedToken,
+  ptoToEvent,
+  shiftToEvent,
+  type FeedPTORequest,
+  type FeedShift,
+} from "@/lib/calendar-feed";
+
+const shift = (overrides: Partial<FeedShift> = {}): FeedShift => ({
+  id: "shift-1",
+  user_id: "user-1",
+  start_time: "2024-03-04T09:00:00+00:00",
+  end_time: "2024-03-04T17:00:00+00:00",
+  break_minutes: 30,
+  notes: null,
+  status: "scheduled",
+  created_at: "2024-02-20T10:00:00+00:00",
+  updated_at: "2024-02-21T10:00:00+00:00",
+  locations: { name: "Downtown", address: "1 Main St, Springfield" },
+  positions: { name: "Barista" },
+  ...overrides,
+});
+
+const ptoRequest = (overrides: Partial<FeedPTORequest> = {}): FeedPTORequest => ({
+  id: "pto-1",
+  user_id: "user-1",
+  pto_type: "vacation",
+  start_date: "2024-03-11",
+  end_date: "2024-03-12",
+  duration_type: "full_day",
+  half_day_period: null,
+  reason: "Family trip",
+  status: "approved",
+  created_at: "2024-02-20T10:00:00+00:00",
+  updated_at: null,
+  ...overrides,
+});
+
+describe("escapeICalText", () => {
+  it("should escape separators and newlines", () => {
+    expect(escapeICalText("a,b;c\\d\nnext")).toBe("a\\,b\\;c\\\\d\\nnext");
+  });
+});
+
+describe("foldICalLine", () => {
+  it("should fold lines longer than 75 octets", () => {
+    const folded = foldICalLine(`SUMMARY:${"x".repeat(100)}`);
+    const lines = folded.split("\r\n");
+
+    expect(lines[0]).toHaveLength(75);
+    expect(lines[1].startsWith(" ")).toBe(true);
+    expect(lines.map((line, index) => (index === 0 ? line : line.slice(1))).join("")).toBe(
+      `SUMMARY:${"x".repeat(100)}`
+    );
+  });
+
+  it("should not split multi-byte characters", () => {
+    const folded = foldICalLine(`SUMMARY:${"é".repeat(60)}`);
+
+    for (const line of folded.split("\r\n")) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    }
+    expect(folded.replace(/\r\n /g, "")).toBe(`SUMMARY:${"é".repeat(60)}`);
+  });
+});
+
+describe("shiftToEvent", () => {
+  it("should use a stable UID with the position, location and address", () => {
+    const event = shiftToEvent(shift());
+
+    expect(event).toMatchObject({
+      uid: "shift-shift-1@shift-management",
+      summary: "Barista shift",
+      location: "Downtown, 1 Main St, Springfield",
+      description: "Break: 30 min",
+      status: "CONFIRMED",
+    });
+    expect(shiftToEvent(shift({ start_time: "2024-03-05T09:00:00+00:00" })).uid).toBe(event.uid);
+  });
+
+  it("should name the employee in team feeds and mark cancellations", () => {
+    expect(shiftToEvent(shift({ status: "cancelled" }), "Alex").status).toBe("CANCELLED");
+    expect(shiftToEvent(shift(), "Alex").summary).toBe("Alex: Barista shift");
+    expect(shiftToEvent(shift({ user_id: null, positions: null }), null).summary).toBe("Open shift: Shift");
+  });
+});
+
+describe("ptoToEvent", () => {
+  it("should be an all-day event ending the day after the last day off", () => {
+    expect(ptoToEvent(ptoRequest())).toMatchObject({
+      uid: "pto-pto-1@shift-management",
+      start: { date: "2024-03-11" },
+      end: { date: "2024-03-13" },
+      summary: "Vacation",
+      description: "Family trip",
+    });
+  });
+
+  it("should keep the reason out of team feeds", () => {
+    const event = ptoToEvent(ptoRequest({ duration_type: "half_day", half_day_period: "pm" }), "Alex");
+
+    expect(event.summary).toBe("Alex: Vacation (afternoon)");
+    expect(event.description).toBeNull();
+  });
+});
+
+describe("buildCalendar", () => {
+  it("should render events with CRLF line endings", () => {
+    const calendar = buildCalendar({
+      name: "Acme Schedule",
+      events: [shiftToEvent(shift()), ptoToEvent(ptoRequest())],
+      now: new Date("2024-03-01T12:00:00Z"),
+    });
+    const lines = calendar.split("\r\n");
+
+    expect(lines[0]).toBe("BEGIN:VCALENDAR");
+    expect(lines).toContain("X-WR-CALNAME:Acme Schedule");
+    expect(lines).toContain("DTSTAMP:20240301T120000Z");
+    expect(lines).toContain("DTSTART:20240304T090000Z");
+    expect(lines).toContain("DTEND:20240304T170000Z");
+    expect(lines).toContain("LOCATION:Downtown\\, 1 Main St\\, Springfield");
+    expect(lines).toContain("LAST-MODIFIED:20240221T100000Z");
+    expect(lines).toContain("DTSTART;VALUE=DATE:20240311");
+    expect(lines).toContain("DTEND;VALUE=DATE:20240313");
+    expect(lines.filter((line) => line === "BEGIN:VEVENT")).toHaveLength(2);
+    expect(calendar.endsWith("END:VCALENDAR\r\n")).toBe(true);
+  });
+});
+
+describe("generateFeedToken", () => {
+  it("should generate distinct 64-character hex tokens", () => {
+    const token = generateFeedToken();
+
+    expect(token).toMatch(/^[0-9a-f]{64}$/);
+    expect(generateFeedToken()).not.toBe(token);
+  });
+});
@@ -0,0 +1,73 @@
+import {
+  buildChatAttachmentPath,
+  formatFileSize,
+  getThumbnailDimensions,
+  resolveChatAttachmentSettings,
+  validateChatAttachment,
+} from "@/lib/chat-attachments";
+
+const MB = 1024 * 1024;
+
+describe("resolveChatAttachmentSettings", () => {
+  it("should fall back to defaults and clamp the size limit", () => {
+    expect(resolveChatAttachmentSettings(null)).toEqual({
+      enabled: true,
+      maxFileSizeMb: 10,
+      allowedCategories: ["image", "document"],
+    });
+    expect(
+      resolveChatAttachmentSettings({
+        chatAttachments: { maxFileSizeMb: 100, allowedCategories: ["video", "exe"] },
+      })
+    ).toEqual({ enabled: true, maxFileSizeMb: 25, allowedCategories: ["video"] });
+  });
+});
+
+describe("validateChatAttachment", () => {
+  const settings = resolveChatAttachmentSettings({ chatAttachments: { maxFileSizeMb: 5 } });
+
+  it("should accept allowed files within the size limit", () => {
+    expect(validateChatAttachment({ name: "menu.pdf", size: 2 * MB, type: "application/pdf" }, settings)).toBeNull();
+    expect(validateChatAttachment({ name: "spill.jpg", size: 5 * MB, type: "image/jpeg" }, settings)).toBeNull();
+  });
+
+  it("should reject disallowed types, oversized and empty files", () => {
+    expect(validateChatAttachment({ name: "clip.mp4", size: MB, type: "video/mp4" }, settings)).toBe(
+      "This file type is not allowed. You can send: Images, Documents"
+    );
+    expect(validateChatAttachment({ name: "spill.jpg", size: 5 * MB + 1, type: "image/jpeg" }, settings)).toBe(
+      "Files can be at most 5 MB"
+    );
+    expect(validateChatAttachment({ name: "empty.txt", size: 0, type: "text/plain" }, settings)).toBe(
+      "The file is empty"
+    );
+    expect(
+      validateChatAttachment({ name: "menu.pdf", size: MB, type: "application/pdf" }, { ...settings, enabled: false })
+    ).toBe("Attachments are turned off for your organization");
+  });
+});
+
+describe("buildChatAttachmentPath", () => {
+  it("should keep the room id first and sanitize the file name", () => {
+    expect(buildChatAttachmentPath("room-1", "upload-1", "../Week 3 schedule (final).pdf")).toBe(
+      "room-1/upload-1/Week_3_schedule_final_.pdf"
+    );
+    expect(buildChatAttachmentPath("room-1", "upload-1", "???")).toBe("room-1/upload-1/file");
+  });
+});
+
+describe("getThumbnailDimensions", () => {
+  it("should scale large images down and leave small ones alone", () => {
+    expect(getThumbnailDimensions(4000, 3000)).toEqual({ width: 320, height: 240 });
+    expect(getThumbnailDimensions(1000, 4000, 200)).toEqual({ width: 50, height: 200 });
+    expect(getThumbnailDimensions(100, 80)).toEqual({ width: 100, height: 80 });
+  });
+});
+
+describe("formatFileSize", () => {
+  it("should use the largest sensible unit", () => {
+    expect(formatFileSize(512)).toBe("512 B");
+    expect(formatFileSize(2048)).toBe("2 KB");
+    expect(formatFileSize(3.5 * MB)).toBe("3.5 MB");
+  });
+});
@@ -0,0 +1,166 @@
+import {
+  getChecklistCompletion,
+  getChecklistItems,
+  getChecklistProgress,
+  parseChecklistAssignInput,
+  parseChecklistInput,
+  planPositionChecklistAssignments,
+  setChecklistItemDone,
+  summarizeChecklistCompletion,
+} from "@/lib/checklists";
+
+const items = [
+  { id: "lights", label: "Turn on the lights" },
+  { id: "till", label: "Count the till" },
+];
+
+describe("parseChecklistInput", () => {
+  it("should trim the name and item labels", () => {
+    const result = parseChecklistInput({
+      name: "  Opening ",
+      items: [{ id: "lights", label: " Turn on the lights " }],
+      position_ids: ["barista", "barista"],
+    });
+
+    expect(result.data).toEqual({
+      name: "Opening",
+      description: null,
+      items: [{ id: "lights", label: "Turn on the lights" }],
+      position_ids: ["barista"],
+    });
+  });
+
+  it("should reject missing names, empty or malformed items", () => {
+    expect(parseChecklistInput({ name: " ", items }).error).toBe("name is required");
+    expect(parseChecklistInput({ name: "Opening", items: [] }).error).toBe("items must be a non-empty array");
+    expect(parseChecklistInput({ name: "Opening", items: [{ id: "a", label: " " }] }).error).toBe(
+      "Every item needs an id and a label"
+    );
+    expect(
+      parseChecklistInput({ name: "Opening", items: [items[0], { id: "lights", label: "Again" }] }).error
+    ).toBe("Duplicate item id: lights");
+  });
+});
+
+describe("parseChecklistAssignInput", () => {
+  it("should accept shifts without a date", () => {
+    expect(parseChecklistAssignInput({ shift_ids: ["s1"] }).data).toEqual({
+      shift_ids: ["s1"],
+      user_ids: [],
+      group_ids: [],
+      due_date: null,
+      location_id: null,
+    });
+  });
+
+  it("should require a date for employees and groups, and someone to assign to", () => {
+    expect(parseChecklistAssignInput({ group_ids: ["openers"] }).error).toBe(
+      "due_date is required when assigning to employees or groups"
+    );
+    expect(parseChecklistAssignInput({ user_ids: ["alice"], due_date: "15/01/2024" }).error).toBe(
+      "due_date must be a date (yyyy-MM-dd)"
+    );
+    expect(parseChecklistAssignInput({}).error).toBe("Choose at least one shift, employee or group");
+  });
+});
+
+describe("getChecklistItems and getChecklistProgress", () => {
+  it("should skip malformed entries", () => {
+    expect(getChecklistItems([items[0], { id: 3 }, "x"])).toEqual([items[0]]);
+    expect(getChecklistItems(null)).toEqual([]);
+    expect(
+      getChecklistProgress({
+        lights: { completed_by: "alice", completed_at: "2024-01-15T08:00:00.000Z" },
+        till: true,
+      })
+    ).toEqual({ lights: { completed_by: "alice", completed_at: "2024-01-15T08:00:00.000Z" } });
+  });
+});
+
+describe("setChecklistItemDone", () => {
+  it("should record who ticked an item off and keep the first tick", () => {
+    const first = setChecklistItemDone({}, "lights", true, "alice", new Date("2024-01-15T08:00:00Z"));
+    const again = setChecklistItemDone(first, "lights", true, "bob", new Date("2024-01-15T09:00:00Z"));
+
+    expect(again).toEqual({ lights: { completed_by: "alice", completed_at: "2024-01-15T08:00:00.000Z" } });
+    expect(setChecklistItemDone(again, "lights", false, "bob")).toEqual({});
+  });
+});
+
+describe("getChecklistCompletion", () => {
+  it("should only count items still on the checklist", () => {
+    const done = { completed_by: "alice", completed_at: "2024-01-15T08:00:00.000Z" };
+
+    expect(getChecklistCompletion(items, { lights: done, removed: done })).toEqual({
+      done: 1,
+      total: 2,
+      complete: false,
+    });
+    expect(getChecklistCompletion(items, { lights: done, till: done }).complete).toBe(true);
+    expect(getChecklistCompletion([], {}).complete).toBe(false);
+  });
+});
+
+describe("summarizeChecklistCompletion", () => {
+  it("should group assignments by day and location, newest day first", () => {
+    const done = { completed_by: "alice", completed_at: "2024-01-15T08:00:00.000Z" };
+    const rows = summarizeChecklistCompletion(
+      [
+        { checklist_id: "opening", due_date: "2024-01-15", location_id: "downtown", progress: { lights: done, till: done } },
+        { checklist_id: "opening", due_date: "2024-01-15", location_id: "downtown", progress: { lights: done } },
+        { checklist_id: "opening", due_date: "2024-01-16", location_id: null, progress: {} },
+      ],
+      new Map([["opening", items]])
+    );
+
+    expect(rows).toEqual([
+      { date: "2024-01-16", locationId: null, assigned: 1, completed: 0, itemsDone: 0, itemsTotal: 2 },
+      { date: "2024-01-15", locationId: "downtown", assigned: 2, completed: 1, itemsDone: 3, itemsTotal: 4 },
+    ]);
+  });
+});
+
+describe("planPositionChecklistAssignments", () => {
+  const shift = (id: string, userId: string | null, positionId: string | null) => ({
+    id,
+    user_id: userId,
+    position_id: positionId,
+    location_id: "downtown",
+    start_time: "2024-01-16T02:00:00Z",
+  });
+
+  it("should assign position checklists on the shift's local day", () => {
+    const { toCreate, toReassign } = planPositionChecklistAssignments({
+      rules: [{ checklist_id: "closing", position_id: "closer" }],
+      shifts: [shift("s1", "alice", "closer"), shift("s2", "bob", "barista"), shift("s3", null, "closer")],
+      existing: [],
+      timeZone: "America/New_York",
+    });
+
+    expect(toCreate).toEqual([
+      { checklist_id: "closing", shift_id: "s1", user_id: "alice", due_date: "2024-01-15", location_id: "downtown" },
+    ]);
+    expect(toReassign).toEqual([]);
+  });
+
+  it("should move untouched assignments to the shift's new employee only", () => {
+    const { toCreate, toReassign } = planPositionChecklistAssignments({
+      rules: [{ checklist_id: "closing", position_id: "closer" }],
+      shifts: [shift("s1", "carol", "closer"), shift("s2", "carol", "closer")],
+      existing: [
+        { id: "a1", checklist_id: "closing", shift_id: "s1", user_id: "alice", progress: {} },
+        {
+          id: "a2",
+          checklist_id: "closing",
+          shift_id: "s2",
+          user_id: "bob",
+          progress: { lights: { completed_by: "bob", completed_at: "2024-01-16T02:10:00.000Z" } },
+        },
+      ],
+      timeZone: "UTC",
+    });
+
+    expect(toCreate).toEqual([]);
+    expect(toReassign).toEqual([{ id: "a1", user_id: "carol" }]);
+  });
+});
@@ -0,0 +1,76 @@
+import {
+  MAX_GROUP_NAME_LENGTH,
+  getGroupMemberIds,
+  getUserGroupIds,
+  isUserInScope,
+  parseGroupInput,
+} from "@/lib/groups";
+
+const memberships = [
+  { group_id: "openers", user_id: "alice" },
+  { group_id: "openers", user_id: "bob" },
+  { group_id: "keyholders", user_id: "alice" },
+  { group_id: "closers", user_id: "carol" },
+];
+
+describe("parseGroupInput", () => {
+  it("should trim the name and description", () => {
+    const result = parseGroupInput({ name: "  Opening crew ", description: "  ", color: "green" });
+
+    expect(result.data).toEqual({
+      name: "Opening crew",
+      description: null,
+      color: "green",
+      lead_id: null,
+      member_ids: [],
+      manager_ids: [],
+    });
+  });
+
+  it("should add the lead to the members and drop duplicate ids", () => {
+    const result = parseGroupInput({
+      name: "Keyholders",
+      lead_id: "carol",
+      member_ids: ["alice", "bob", "alice"],
+      manager_ids: ["dave"],
+    });
+
+    expect(result.data?.member_ids).toEqual(["alice", "bob", "carol"]);
+    expect(result.data?.manager_ids).toEqual(["dave"]);
+  });
+
+  it("should reject a missing or overlong name and bad id lists", () => {
+    expect(parseGroupInput({ name: " " }).error).toBe("name is required");
+    expect(parseGroupInput({ name: "x".repeat(MAX_GROUP_NAME_LENGTH + 1) }).error).toMatch(/at most/);
+    expect(parseGroupInput({ name: "Openers", member_ids: "alice" }).error).toBe(
+      "member_ids must be an array of ids"
+    );
+    expect(parseGroupInput({ name: "Openers", lead_id: 3 }).error).toBe("lead_id must be a string or null");
+    expect(parseGroupInput(null).error).toBe("Group must be an object");
+  });
+});
+
+describe("getUserGroupIds", () => {
+  it("should list every group a user belongs to", () => {
+    expect(getUserGroupIds(memberships, "alice")).toEqual(["openers", "keyholders"]);
+    expect(getUserGroupIds(memberships, "dave")).toEqual([]);
+  });
+});
+
+describe("getGroupMemberIds", () => {
+  it("should collect members across groups", () => {
+    expect(getGroupMemberIds(memberships, ["openers", "closers"])).toEqual(new Set(["alice", "bob", "carol"]));
+    expect(getGroupMemberIds(memberships, [])).toEqual(new Set());
+  });
+});
+
+describe("isUserInScope", () => {
+  it("should allow everyone when unrestricted and open shifts always", () => {
+    const managed = new Set(["alice"]);
+
+    expect(isUserInScope(null, "bob")).toBe(true);
+    expect(isUserInScope(managed, "alice")).toBe(true);
+    expect(isUserInScope(managed, "bob")).toBe(false);
+    expect(isUserInScope(managed, null)).toBe(true);
+  });
+});
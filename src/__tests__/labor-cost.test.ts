@@ -0,0 +1,196 @@
+import {
+  UNASSIGNED_KEY,
+  buildLaborRates,
+  calculateActualLaborCost,
+  createLaborRateLookup,
+  findBudgetOverages,
+  getEffectivePayRate,
+  projectLaborCost,
+  resolveLaborCostSettings,
+  type LaborCostShift,
+} from "@/lib/labor-cost";
+import { defaultOvertimeRules } from "@/lib/overtime";
+
+const shift = (
+  id: string,
+  date: string,
+  hours: number,
+  overrides: Partial<LaborCostShift> = {}
+): LaborCostShift => ({
+  id,
+  user_id: "user-1",
+  start_time: `${date}T08:00:00Z`,
+  end_time: new Date(Date.parse(`${date}T08:00:00Z`) + hours * 3600000).toISOString(),
+  break_minutes: 0,
+  location_id: "loc-1",
+  department_id: "dept-1",
+  ...overrides,
+});
+
+const options = { rules: defaultOvertimeRules, timeZone: "UTC" };
+
+describe("projectLaborCost", () => {
+  it("should exclude breaks and group cost by day, location and department", () => {
+    const projection = projectLaborCost(
+      [
+        shift("a", "2024-01-15", 8.5, { break_minutes: 30 }),
+        shift("b", "2024-01-16", 4, { location_id: "loc-2", department_id: null }),
+        shift("c", "2024-01-16", 4, { user_id: null }),
+      ],
+      { "user-1": 20 },
+      options
+    );
+
+    expect(projection.total).toEqual({ hours: 12, overtimeHours: 0, cost: 240 });
+    expect(projection.byDay["2024-01-15"].cost).toBe(160);
+    expect(projection.byLocation).toEqual({
+      "loc-1": { hours: 8, overtimeHours: 0, cost: 160 },
+      "loc-2": { hours: 4, overtimeHours: 0, cost: 80 },
+    });
+    expect(projection.byDepartment[UNASSIGNED_KEY].cost).toBe(80);
+    expect(projection.openShiftHours).toBe(4);
+  });
+
+  it("should price projected weekly overtime at the overtime multiplier", () => {
+    // Five 10 hour days in one week: 40 regular + 10 at 1.5x
+    const shifts = ["2024-01-15", "2024-01-16", "2024-01-17", "2024-01-18", "2024-01-19"].map(
+      (date, index) => shift(`s${index}`, date, 10)
+    );
+    const projection = projectLaborCost(shifts, { "user-1": 10 }, options);
+
+    expect(projection.total).toEqual({ hours: 50, overtimeHours: 10, cost: 550 });
+    expect(projection.byDay["2024-01-19"]).toEqual({ hours: 10, overtimeHours: 10, cost: 150 });
+  });
+
+  it("should list employees without a rate and leave their cost out", () => {
+    const projection = projectLaborCost(
+      [shift("a", "2024-01-15", 8, { user_id: "user-2" })],
+      { "user-1": 20 },
+      options
+    );
+
+    expect(projection.total).toEqual({ hours: 8, overtimeHours: 0, cost: 0 });
+    expect(projection.missingRates).toEqual(["user-2"]);
+  });
+
+  it("should resolve each shift's rate by date and position and add the burden", () => {
+    const getRate = createLaborRateLookup(
+      buildLaborRates({
+        settings: { defaultHourlyRate: null, burdenPercent: 0 },
+        payRates: [
+          { user_id: "user-1", hourly_rate: 20, effective_from: "2024-01-01" },
+          { user_id: "user-1", hourly_rate: 25, effective_from: "2024-01-16" },
+        ],
+      })
+    );
+    const projection = projectLaborCost(
+      [shift("a", "2024-01-15", 4), shift("b", "2024-01-16", 4)],
+      getRate,
+      { ...options, burdenPercent: 10 }
+    );
+
+    expect(projection.byDay["2024-01-15"].cost).toBeCloseTo(88);
+    expect(projection.byDay["2024-01-16"].cost).toBeCloseTo(110);
+  });
+});
+
+describe("findBudgetOverages", () => {
+  it("should flag locations whose weekly cost exceeds the budget", () => {
+    const projection = projectLaborCost(
+      [
+        shift("a", "2024-01-15", 8),
+        shift("b", "2024-01-16", 8, { location_id: "loc-2" }),
+      ],
+      { "user-1": 20 },
+      options
+    );
+
+    expect(findBudgetOverages(projection, { "loc-1": 100, "loc-2": 500 })).toEqual([
+      { locationId: "loc-1", weekStart: "2024-01-14", budget: 100, cost: 160 },
+    ]);
+  });
+});
+
+describe("calculateActualLaborCost", () => {
+  it("should cost clocked time less breaks by day and location", () => {
+    const entry = (entry_type: string, timestamp: string) => ({
+      user_id: "user-1",
+      entry_type,
+      timestamp,
+      locations: { name: "Main Office", timezone: "UTC" },
+    });
+
+    const actual = calculateActualLaborCost(
+      [
+        entry("clock_in", "2024-01-15T08:00:00Z"),
+        entry("break_start", "2024-01-15T12:00:00Z"),
+        entry("break_end", "2024-01-15T12:30:00Z"),
+        entry("clock_out", "2024-01-15T16:30:00Z"),
+      ],
+      { "user-1": 20 },
+      { rules: defaultOvertimeRules, defaultTimeZone: "UTC" }
+    );
+
+    expect(actual.total).toEqual({ hours: 8, overtimeHours: 0, cost: 160 });
+    expect(actual.byDay["2024-01-15"].cost).toBe(160);
+    expect(actual.byLocation["Main Office"].hours).toBe(8);
+  });
+});
+
+describe("resolveLaborCostSettings", () => {
+  it("should fill in defaults for missing settings", () => {
+    expect(resolveLaborCostSettings(null)).toEqual({ defaultHourlyRate: null, burdenPercent: 0 });
+    expect(resolveLaborCostSettings({ laborCost: { burdenPercent: 12 } })).toEqual({
+      defaultHourlyRate: null,
+      burdenPercent: 12,
+    });
+  });
+});
+
+describe("getEffectivePayRate", () => {
+  const history = [
+    { effective_from: "2024-01-01", hourly_rate: 18 },
+    { effective_from: "2024-03-01", hourly_rate: 20 },
+  ];
+
+  it("should pick the latest rate starting on or before the date", () => {
+    expect(getEffectivePayRate(history, "2024-02-29")?.hourly_rate).toBe(18);
+    expect(getEffectivePayRate(history, "2024-03-01")?.hourly_rate).toBe(20);
+    expect(getEffectivePayRate(history, "2023-12-31")).toBeNull();
+  });
+});
+
+describe("createLaborRateLookup", () => {
+  const getRate = createLaborRateLookup(
+    buildLaborRates({
+      settings: { defaultHourlyRate: 15, burdenPercent: 0 },
+      positions: [
+        { id: "cashier", default_hourly_rate: 17 },
+        { id: "cook", default_hourly_rate: null },
+      ],
+      userPositions: [{ user_id: "alice", position_id: "cook", wage_rate: 24 }],
+      payRates: [
+        { user_id: "alice", hourly_rate: 21, effective_from: "2024-02-01" },
+        { user_id: "alice", hourly_rate: 19, effective_from: "2024-01-01" },
+      ],
+    })
+  );
+
+  it("should prefer the employee's dated rate, then their position wage", () => {
+    expect(getRate("alice", "2024-01-15", "cashier")).toBe(19);
+    expect(getRate("alice", "2024-02-15")).toBe(21);
+    expect(getRate("alice", "2023-12-31", "cook")).toBe(24);
+  });
+
+  it("should apply a raise to shifts in a position with an employee wage", () => {
+    expect(getRate("alice", "2024-01-31", "cook")).toBe(19);
+    expect(getRate("alice", "2024-02-01", "cook")).toBe(21);
+  });
+
+  it("should fall back to the position default, then the organization default", () => {
+    expect(getRate("alice", "2023-12-31", "cashier")).toBe(17);
+    expect(getRate("bob", "2024-01-15", "cashier")).toBe(17);
+    expect(getRate("bob", "2024-01-15", "cook")).toBe(15);
+    expect(getRate("bob", "2024-01-15")).toBe(15);
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  buildDigestEmail,
+  getNotificationPath,
+  planNotificationDispatch,
+  type NotificationDelivery,
+} from "@/lib/notification-delivery";
+import { planNotificationDelivery, resolveNotificationPreferences } from "@/lib/notification-preferences";
+
+const delivery = (overrides: Partial<NotificationDelivery>): NotificationDelivery => ({
+  id: "d1",
+  organization_id: "org",
+  user_id: "alice",
+  notification_id: null,
+  channel: "email",
+  type: "schedule_published",
+  title: "Schedule Published",
+  body: "Your schedule has been published.",
+  data: { week_start: "2024-01-15" },
+  send_after: "2024-01-16T12:00:00.000Z",
+  is_digest: false,
+  status: "sending",
+  claimed_at: "2024-01-16T12:00:00.000Z",
+  sent_at: null,
+  error: null,
+  created_at: "2024-01-16T04:30:00.000Z",
+  ...overrides,
+});
+
+describe("planNotificationDispatch", () => {
+  it("should hold deliveries queued during quiet hours until they end", () => {
+    const preferences = resolveNotificationPreferences({
+      quietHours: { enabled: true, start: "22:00", end: "07:00" },
+    });
+    // 23:30 in New York
+    const queuedAt = new Date("2024-01-16T04:30:00Z");
+    const [push] = planNotificationDelivery(preferences, "schedule_published", queuedAt, "America/New_York").deliveries;
+    const queued = delivery({ channel: "push", send_after: push.sendAfter.toISOString() });
+
+    expect(planNotificationDispatch([queued], new Date("2024-01-16T11:55:00Z")).push).toEqual([]);
+    expect(planNotificationDispatch([queued], new Date("2024-01-16T12:00:00Z")).push).toEqual([queued]);
+  });
+
+  it("should batch due digest deliveries into one email per user", () => {
+    const a1 = delivery({ id: "a1", is_digest: true, created_at: "2024-01-15T18:00:00.000Z" });
+    const a2 = delivery({ id: "a2", is_digest: true, created_at: "2024-01-15T09:00:00.000Z" });
+    const b1 = delivery({ id: "b1", user_id: "bob", is_digest: true });
+    const later = delivery({ id: "a3", is_digest: true, send_after: "2024-01-17T12:00:00.000Z" });
+    const sent = delivery({ id: "a4", is_digest: true, status: "sent" });
+    const direct = delivery({ id: "a5" });
+
+    const plan = planNotificationDispatch([a1, a2, b1, later, sent, direct], new Date("2024-01-16T12:00:00Z"));
+
+    expect(plan.digests).toEqual([
+      { userId: "alice", deliveries: [a2, a1] },
+      { userId: "bob", deliveries: [b1] },
+    ]);
+    expect(plan.email).toEqual([direct]);
+    expect(plan.push).toEqual([]);
+  });
+});
+
+describe("buildDigestEmail", () => {
+  it("should list every notification with a link", () => {
+    const email = buildDigestEmail(
+      [
+        delivery({ id: "a1" }),
+        delivery({ id: "a2", type: "timesheet_rejected", title: "Timesheet <Rejected>", body: null, data: null }),
+      ],
+      "https://app.example.com"
+    );
+
+    expect(email.subject).toBe("Your daily summary: 2 notifications");
+    expect(email.text).toBe(
+      "Schedule Published\nYour schedule has been published.\nhttps://app.example.com/schedule?date=2024-01-15\n\n" +
+        "Timesheet <Rejected>\n\nhttps://app.example.com/timesheets"
+    );
+    expect(email.html).toContain("<strong>Timesheet &lt;Rejected&gt;</strong>");
+  });
+});
+
+describe("getNotificationPath", () => {
+  it("should open the page the notification is about", () => {
+    expect(getNotificationPath("timesheet_approved", { timesheet_id: "t1" })).toBe("/timesheets/t1");
+    expect(getNotificationPath("shift_swap_requested", null)).toBe("/shift-swaps");
+    expect(getNotificationPath("something_new", null)).toBe("/dashboard");
+  });
+});
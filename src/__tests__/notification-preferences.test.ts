@@ -0,0 +1,112 @@
+import {
+  getNotificationChannels,
+  getQuietHoursEnd,
+  planNotificationDelivery,
+  resolveNotificationPreferences,
+} from "@/lib/notification-preferences";
+
+const timeZone = "America/New_York";
+
+describe("resolveNotificationPreferences", () => {
+  it("should fall back to defaults for missing or malformed settings", () => {
+    expect(resolveNotificationPreferences(null)).toEqual({
+      events: {},
+      quietHours: { enabled: false, start: "22:00", end: "07:00" },
+      digest: { enabled: false, time: "08:00" },
+    });
+    expect(
+      resolveNotificationPreferences({ quietHours: { enabled: true, start: "25:00" }, digest: { time: "9am" } })
+    ).toEqual({
+      events: {},
+      quietHours: { enabled: true, start: "22:00", end: "07:00" },
+      digest: { enabled: false, time: "08:00" },
+    });
+  });
+});
+
+describe("getNotificationChannels", () => {
+  it("should apply the user's choices over the event defaults", () => {
+    const preferences = resolveNotificationPreferences({
+      events: { swap_updates: { in_app: true, push: false, email: true } },
+    });
+
+    expect(getNotificationChannels(preferences, "shift_swap_approved")).toEqual({
+      in_app: true,
+      push: false,
+      email: true,
+    });
+    expect(getNotificationChannels(preferences, "timesheet_rejected")).toEqual({
+      in_app: true,
+      push: true,
+      email: true,
+    });
+    expect(getNotificationChannels(preferences, "something_new")).toEqual({
+      in_app: true,
+      push: false,
+      email: false,
+    });
+  });
+});
+
+describe("getQuietHoursEnd", () => {
+  const quietHours = { enabled: true, start: "22:00", end: "07:00" };
+
+  it("should return when overnight quiet hours end", () => {
+    // 23:30 and 02:00 local time
+    expect(getQuietHoursEnd(quietHours, new Date("2024-01-16T04:30:00Z"), timeZone)).toEqual(
+      new Date("2024-01-16T12:00:00Z")
+    );
+    expect(getQuietHoursEnd(quietHours, new Date("2024-01-16T07:00:00Z"), timeZone)).toEqual(
+      new Date("2024-01-16T12:00:00Z")
+    );
+  });
+
+  it("should return null outside quiet hours or when they are off", () => {
+    // 12:00 local time
+    expect(getQuietHoursEnd(quietHours, new Date("2024-01-16T17:00:00Z"), timeZone)).toBeNull();
+    expect(
+      getQuietHoursEnd({ ...quietHours, enabled: false }, new Date("2024-01-16T04:30:00Z"), timeZone)
+    ).toBeNull();
+  });
+});
+
+describe("planNotificationDelivery", () => {
+  it("should send right away outside quiet hours", () => {
+    const now = new Date("2024-01-16T17:00:00Z");
+    expect(planNotificationDelivery(resolveNotificationPreferences(null), "timesheet_rejected", now, timeZone)).toEqual({
+      inApp: true,
+      deliveries: [
+        { channel: "push", sendAfter: now, isDigest: false },
+        { channel: "email", sendAfter: now, isDigest: false },
+      ],
+    });
+  });
+
+  it("should hold push during quiet hours and save email for the digest", () => {
+    const preferences = resolveNotificationPreferences({
+      quietHours: { enabled: true, start: "22:00", end: "07:00" },
+      digest: { enabled: true, time: "06:00" },
+    });
+
+    // 23:30 local time; the 06:00 digest falls in quiet hours too
+    expect(
+      planNotificationDelivery(preferences, "schedule_published", new Date("2024-01-16T04:30:00Z"), timeZone)
+    ).toEqual({
+      inApp: true,
+      deliveries: [
+        { channel: "push", sendAfter: new Date("2024-01-16T12:00:00Z"), isDigest: false },
+        { channel: "email", sendAfter: new Date("2024-01-16T12:00:00Z"), isDigest: true },
+      ],
+    });
+  });
+
+  it("should skip channels the user turned off", () => {
+    const preferences = resolveNotificationPreferences({
+      events: { open_shifts: { in_app: false, push: false, email: false } },
+    });
+
+    expect(
+      planNotificationDelivery(preferences, "open_shift_posted", new Date("2024-01-16T17:00:00Z"), timeZone)
+    ).toEqual({ inApp: false, deliveries: [] });
+  });
+});
@@ -0,0 +1,33 @@
+import { isEligibleForOpenShift, resolveOpenShiftSettings } from "@/lib/open-shifts";
+
+describe("isEligibleForOpenShift", () => {
+  const member = {
+    id: "user-1",
+    user_positions: [{ position_id: "cashier" }],
+    user_locations: [{ location_id: "downtown" }],
+  };
+
+  it("should require both the shift's position and location", () => {
+    expect(isEligibleForOpenShift({ position_id: "cashier", location_id: "downtown" }, member)).toBe(true);
+    expect(isEligibleForOpenShift({ position_id: "cook", location_id: "downtown" }, member)).toBe(false);
+    expect(isEligibleForOpenShift({ position_id: "cashier", location_id: "uptown" }, member)).toBe(false);
+  });
+
+  it("should not restrict on a missing position or location", () => {
+    expect(isEligibleForOpenShift({ position_id: null, location_id: null }, { id: "user-2" })).toBe(true);
+    expect(isEligibleForOpenShift({ position_id: null, location_id: "downtown" }, member)).toBe(true);
+  });
+});
+
+describe("resolveOpenShiftSettings", () => {
+  it("should merge saved settings over the defaults", () => {
+    expect(resolveOpenShiftSettings(null)).toEqual({
+      enabled: true,
+      requireApproval: true,
+      notifyEligibleEmployees: true,
+    });
+    expect(
+      resolveOpenShiftSettings({ openShiftSettings: { requireApproval: false } }).requireApproval
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,104 @@
+import {
+  calculateOvertime,
+  defaultOvertimeRules,
+  resolveOvertimeRules,
+  type OvertimeRules,
+} from "@/lib/overtime";
+
+const californiaRules: OvertimeRules = {
+  daily: {
+    enabled: true,
+    tiers: [
+      { threshold: 8, multiplier: 1.5 },
+      { threshold: 12, multiplier: 2 },
+    ],
+  },
+  weekly: { enabled: true, threshold: 40, multiplier: 1.5 },
+  consecutiveDay: {
+    enabled: true,
+    day: 7,
+    tiers: [
+      { threshold: 0, multiplier: 1.5 },
+      { threshold: 8, multiplier: 2 },
+    ],
+  },
+  weekStartsOn: 0,
+};
+
+describe("calculateOvertime", () => {
+  it("should count weekly overtime over 40 hours by default", () => {
+    // Sun 2024-01-07 .. Fri 2024-01-12, 9 hours each
+    const days = ["07", "08", "09", "10", "11"].map((d) => ({
+      date: `2024-01-${d}`,
+      hours: 9,
+    }));
+    const result = calculateOvertime(days);
+    expect(result.totalHours).toBe(45);
+    expect(result.regularHours).toBe(40);
+    expect(result.overtimeHours).toBe(5);
+    expect(result.buckets).toEqual({ "1": 40, "1.5": 5 });
+  });
+
+  it("should reset weekly totals at the start of each workweek", () => {
+    const result = calculateOvertime([
+      { date: "2024-01-13", hours: 30 }, // Saturday
+      { date: "2024-01-14", hours: 30 }, // Sunday, new week
+    ]);
+    expect(result.overtimeHours).toBe(0);
+  });
+
+  it("should apply daily tiers including double time", () => {
+    const result = calculateOvertime([{ date: "2024-01-08", hours: 14 }], californiaRules);
+    expect(result.buckets).toEqual({ "1": 8, "1.5": 4, "2": 2 });
+    expect(result.weightedHours).toBe(8 + 6 + 4);
+  });
+
+  it("should not count daily overtime hours toward the weekly threshold", () => {
+    // Five 10-hour days: 40 regular + 10 daily overtime, no weekly overtime
+    const days = ["08", "09", "10", "11", "12"].map((d) => ({
+      date: `2024-01-${d}`,
+      hours: 10,
+    }));
+    const result = calculateOvertime(days, californiaRules);
+    expect(result.buckets).toEqual({ "1": 40, "1.5": 10 });
+  });
+
+  it("should apply the consecutive day rule on the 7th day", () => {
+    const days = ["07", "08", "09", "10", "11", "12", "13"].map((d) => ({
+      date: `2024-01-${d}`,
+      hours: d === "13" ? 10 : 4,
+    }));
+    const result = calculateOvertime(days, californiaRules);
+    const seventh = result.days[6];
+    expect(seventh.regularHours).toBe(0);
+    expect(seventh.buckets).toEqual({ "1.5": 8, "2": 2 });
+  });
+
+  it("should merge entries for the same date", () => {
+    const result = calculateOvertime(
+      [
+        { date: "2024-01-08", hours: 5 },
+        { date: "2024-01-08", hours: 5 },
+      ],
+      californiaRules
+    );
+    expect(result.days).toHaveLength(1);
+    expect(result.overtimeHours).toBe(2);
+  });
+});
+
+describe("resolveOvertimeRules", () => {
+  it("should return defaults when nothing is configured", () => {
+    expect(resolveOvertimeRules(null)).toEqual(defaultOvertimeRules);
+    expect(resolveOvertimeRules({ shiftSwapSettings: {} })).toEqual(defaultOvertimeRules);
+  });
+
+  it("should merge saved rules with defaults", () => {
+    const rules = resolveOvertimeRules({
+      overtimeRules: { daily: { enabled: true }, weekStartsOn: 1 },
+    });
+    expect(rules.daily.enabled).toBe(true);
+    expect(rules.daily.tiers).toEqual(defaultOvertimeRules.daily.tiers);
+    expect(rules.weekStartsOn).toBe(1);
+  });
+});
@@ -0,0 +1,58 @@
+import { getPayPeriodForDate, resolvePayPeriodSettings } from "@/lib/pay-periods";
+
+describe("getPayPeriodForDate", () => {
+  it("should count weekly periods from the anchor, including dates before it", () => {
+    const settings = { frequency: "weekly" as const, anchorDate: "2024-01-07" };
+    expect(getPayPeriodForDate("2024-01-10", settings)).toEqual({
+      start: "2024-01-07",
+      end: "2024-01-13",
+    });
+    expect(getPayPeriodForDate("2024-01-06", settings)).toEqual({
+      start: "2023-12-31",
+      end: "2024-01-06",
+    });
+  });
+
+  it("should count biweekly periods from the anchor", () => {
+    const settings = { frequency: "biweekly" as const, anchorDate: "2024-01-01" };
+    expect(getPayPeriodForDate("2024-01-15", settings)).toEqual({
+      start: "2024-01-15",
+      end: "2024-01-28",
+    });
+    expect(getPayPeriodForDate("2024-01-14", settings)).toEqual({
+      start: "2024-01-01",
+      end: "2024-01-14",
+    });
+  });
+
+  it("should split semi-monthly periods on the 15th", () => {
+    const settings = { frequency: "semi_monthly" as const, anchorDate: "2024-01-01" };
+    expect(getPayPeriodForDate("2024-02-15", settings)).toEqual({
+      start: "2024-02-01",
+      end: "2024-02-15",
+    });
+    expect(getPayPeriodForDate("2024-02-20", settings)).toEqual({
+      start: "2024-02-16",
+      end: "2024-02-29",
+    });
+  });
+
+  it("should start monthly periods on the anchor day, clamped to short months", () => {
+    const settings = { frequency: "monthly" as const, anchorDate: "2024-01-31" };
+    expect(getPayPeriodForDate("2024-02-10", settings)).toEqual({
+      start: "2024-01-31",
+      end: "2024-02-28",
+    });
+    expect(getPayPeriodForDate("2024-02-29", settings)).toEqual({
+      start: "2024-02-29",
+      end: "2024-03-30",
+    });
+  });
+
+  it("should fall back to defaults for missing or invalid settings", () => {
+    expect(resolvePayPeriodSettings(null).frequency).toBe("weekly");
+    expect(resolvePayPeriodSettings({ payPeriod: { anchorDate: "soon" } }).anchorDate).toBe(
+      "2024-01-07"
+    );
+  });
+});
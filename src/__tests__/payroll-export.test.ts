@@ -0,0 +1,118 @@
+import {
+  buildPayrollRows,
+  getPayrollExportProfile,
+  getPTOHoursInPeriod,
+} from "@/lib/payroll-export";
+
+const period = { start: "2024-01-01", end: "2024-01-14" };
+
+const jordan = {
+  first_name: "Jordan",
+  last_name: "Lee",
+  email: "jordan@example.com",
+  employee_code: "E-100",
+  hourly_rate: 22.5,
+};
+
+const sam = {
+  first_name: "Sam",
+  last_name: "Rivera, Jr.",
+  email: "sam@example.com",
+  employee_code: null,
+  hourly_rate: null,
+};
+
+const timesheets = [
+  { user_id: "u1", total_hours: 44, overtime_hours: 4, profiles: jordan },
+  { user_id: "u1", total_hours: 38, overtime_hours: 0, profiles: jordan },
+];
+
+describe("buildPayrollRows", () => {
+  it("should sum timesheets per employee and split regular and overtime hours", () => {
+    const rows = buildPayrollRows(timesheets, [], period);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      employeeCode: "E-100",
+      regularHours: 78,
+      overtimeHours: 4,
+      ptoHours: 0,
+      hourlyRate: 22.5,
+    });
+  });
+
+  it("should include employees who were on PTO for the whole period", () => {
+    const pto = [
+      { user_id: "u2", start_date: "2024-01-01", end_date: "2024-01-05", total_days: 5, profiles: sam },
+    ];
+    const rows = buildPayrollRows(timesheets, pto, period);
+    expect(rows.map((r) => r.userId)).toEqual(["u1", "u2"]);
+    expect(rows[1].ptoHours).toBe(40);
+  });
+
+  it("should prorate PTO that spans the period boundary over working days", () => {
+    // Friday to Wednesday: the weekend is skipped and Monday is a holiday
+    const request = { user_id: "u1", start_date: "2024-01-12", end_date: "2024-01-17", total_days: 3 };
+    const calendar = {
+      settings: { workWeek: [1, 2, 3, 4, 5], hoursPerDay: 7.5 },
+      holidays: [{ date: "2024-01-15", name: "MLK Day", location_id: null }],
+    };
+    expect(getPTOHoursInPeriod(request, period, calendar)).toBe(7.5);
+    expect(getPTOHoursInPeriod(request, { start: "2024-01-15", end: "2024-01-28" }, calendar)).toBe(15);
+    expect(getPTOHoursInPeriod({ ...request, start_date: "2024-01-15" }, period, calendar)).toBe(0);
+  });
+
+  it("should pay the approved days when holidays are added later", () => {
+    const request = { user_id: "u1", start_date: "2024-01-08", end_date: "2024-01-09", total_days: 2 };
+    const settings = { workWeek: [1, 2, 3, 4, 5], hoursPerDay: 8 };
+    const holiday = (date: string) => ({ date, name: "Closed", location_id: null });
+    expect(getPTOHoursInPeriod(request, period, { settings, holidays: [holiday("2024-01-09")] })).toBe(16);
+    expect(
+      getPTOHoursInPeriod(request, period, { settings, holidays: [holiday("2024-01-08"), holiday("2024-01-09")] })
+    ).toBe(16);
+  });
+
+  it("should credit half days and the stored hours of hourly requests", () => {
+    const calendar = { settings: { workWeek: [1, 2, 3, 4, 5], hoursPerDay: 7.5 }, holidays: [] };
+    const request = { user_id: "u1", start_date: "2024-01-09", end_date: "2024-01-09", total_days: 0.5 };
+    expect(getPTOHoursInPeriod({ ...request, duration_type: "half_day" }, period, calendar)).toBe(3.75);
+    expect(getPTOHoursInPeriod({ ...request, duration_type: "hours", hours: 3 }, period, calendar)).toBe(3);
+  });
+});
+
+describe("payroll export profiles", () => {
+  const pto = [
+    { user_id: "u2", start_date: "2024-01-08", end_date: "2024-01-08", total_days: 1, profiles: sam },
+  ];
+  const rows = buildPayrollRows(timesheets, pto, period);
+
+  it("should render Gusto CSV with escaped names", () => {
+    const csv = getPayrollExportProfile("gusto")!.render(rows, period, {});
+    const lines = csv.trim().split("\n");
+    expect(lines[0]).toBe("last_name,first_name,employee_id,regular_hours,overtime_hours,pto_hours,hourly_rate");
+    expect(lines[1]).toBe("Lee,Jordan,E-100,78.00,4.00,0.00,22.50");
+    expect(lines[2]).toBe('"Rivera, Jr.",Sam,,0.00,0.00,8.00,');
+  });
+
+  it("should render ADP rows with the company code", () => {
+    const csv = getPayrollExportProfile("adp")!.render(rows, period, { companyCode: "XYZ" });
+    expect(csv.trim().split("\n")[1]).toBe("XYZ,011424,E-100,22.50,78.00,4.00,,");
+  });
+
+  it("should render one QuickBooks line per payroll item", () => {
+    const csv = getPayrollExportProfile("quickbooks")!.render(rows, period, {});
+    expect(csv.trim().split("\n")).toHaveLength(4);
+  });
+
+  it("should render fixed-width lines of equal length", () => {
+    const text = getPayrollExportProfile("fixed_width")!.render(rows, period, {});
+    const lines = text.split("\r\n").filter(Boolean);
+    expect(lines).toHaveLength(2);
+    expect(lines[0].length).toBe(94);
+    expect(lines[1].length).toBe(94);
+    expect(lines[0].startsWith("E-100     Lee")).toBe(true);
+  });
+
+  it("should return null for unknown profiles", () => {
+    expect(getPayrollExportProfile("paychex")).toBeNull();
+  });
+});
@@ -0,0 +1,80 @@
+import {
+  calculateAccrualCredits,
+  calculateAnnualGrant,
+  calculateCarryover,
+  getAccrualPeriods,
+} from "@/lib/pto-accrual";
+import type { PayPeriodSettings } from "@/lib/pay-periods";
+
+const biweekly: PayPeriodSettings = { frequency: "biweekly", anchorDate: "2024-01-07" };
+
+describe("getAccrualPeriods", () => {
+  it("should list calendar months that have ended", () => {
+    const periods = getAccrualPeriods(2024, "2024-03-31", { frequency: "monthly" }, biweekly);
+
+    expect(periods.map((p) => p.key)).toEqual(["2024-01", "2024-02", "2024-03"]);
+    expect(periods[1]).toEqual({ key: "2024-02", start: "2024-02-01", end: "2024-02-29" });
+  });
+
+  it("should attribute a pay period to the year it ends in", () => {
+    const periods = getAccrualPeriods(2024, "2024-02-03", { frequency: "pay_period" }, biweekly);
+
+    expect(periods).toEqual([
+      { key: "2023-12-24/2024-01-06", start: "2023-12-24", end: "2024-01-06" },
+      { key: "2024-01-07/2024-01-20", start: "2024-01-07", end: "2024-01-20" },
+      { key: "2024-01-21/2024-02-03", start: "2024-01-21", end: "2024-02-03" },
+    ]);
+  });
+});
+
+describe("calculateAccrualCredits", () => {
+  const periods = getAccrualPeriods(2024, "2024-12-31", { frequency: "monthly" }, biweekly);
+
+  it("should pro-rate the month an employee is hired in", () => {
+    const credits = calculateAccrualCredits(
+      { accrual_rate: 1.5, annual_allowance: null },
+      periods.slice(0, 3),
+      { hireDate: "2024-02-16", periodsPerYear: 12 }
+    );
+
+    // Employed for 14 of February's 29 days
+    expect(credits.map((c) => [c.key, c.days])).toEqual([
+      ["2024-02", 0.72],
+      ["2024-03", 1.5],
+    ]);
+  });
+
+  it("should stop at the annual allowance", () => {
+    const credits = calculateAccrualCredits(
+      { accrual_rate: 2, annual_allowance: 20 },
+      periods.slice(9),
+      { periodsPerYear: 12, accruedDays: 17 }
+    );
+
+    expect(credits.map((c) => c.days)).toEqual([2, 1]);
+  });
+});
+
+describe("calculateAnnualGrant", () => {
+  it("should pro-rate the allowance from the hire date", () => {
+    expect(calculateAnnualGrant({ annual_allowance: 10 }, 2023, null)).toBe(10);
+    expect(calculateAnnualGrant({ annual_allowance: 10 }, 2023, "2023-07-02")).toBe(5.01);
+    expect(calculateAnnualGrant({ annual_allowance: 10 }, 2023, "2024-01-01")).toBe(0);
+  });
+});
+
+describe("calculateCarryover", () => {
+  it("should carry unused days up to the cap and forfeit the rest", () => {
+    const balance = {
+      entitled_days: 15,
+      carryover_days: 2,
+      adjustment_days: 1,
+      used_days: 8,
+      pending_days: 1,
+    };
+
+    expect(calculateCarryover(balance, 5)).toEqual({ days: 5, remaining: 9, forfeited: 4 });
+    expect(calculateCarryover(balance, null)).toEqual({ days: 0, remaining: 9, forfeited: 9 });
+    expect(calculateCarryover({ ...balance, used_days: 20 }, 5).days).toBe(0);
+  });
+});
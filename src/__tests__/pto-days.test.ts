@@ -0,0 +1,69 @@
+import {
+  calculatePTODeduction,
+  getApplicableHolidays,
+  resolvePTOCalendarSettings,
+  type Holiday,
+} from "@/lib/pto-days";
+
+const holidays: Holiday[] = [
+  { date: "2024-01-15", name: "MLK Day", location_id: null },
+  { date: "2024-01-17", name: "Founders Day", location_id: "loc-1" },
+];
+
+describe("calculatePTODeduction", () => {
+  it("should only deduct working days", () => {
+    // Friday to Monday
+    const deduction = calculatePTODeduction({ start_date: "2024-01-05", end_date: "2024-01-08" }, []);
+
+    expect(deduction.days).toBe(2);
+    expect(deduction.hours).toBe(16);
+    expect(deduction.workDays).toEqual(["2024-01-05", "2024-01-08"]);
+    expect(deduction.excluded.map((day) => day.reason)).toEqual(["weekend", "weekend"]);
+  });
+
+  it("should skip holidays and follow the configured work week", () => {
+    const settings = resolvePTOCalendarSettings({ ptoCalendar: { workWeek: [2, 3, 4, 5, 6] } });
+    const deduction = calculatePTODeduction(
+      { start_date: "2024-01-13", end_date: "2024-01-19" },
+      getApplicableHolidays(holidays, "loc-2"),
+      settings
+    );
+
+    // Sat, Tue, Wed, Thu, Fri; Sun and Mon (also MLK Day) are off
+    expect(deduction.days).toBe(5);
+    expect(deduction.excluded).toEqual([
+      { date: "2024-01-14", reason: "weekend" },
+      { date: "2024-01-15", reason: "weekend" },
+    ]);
+    expect(
+      calculatePTODeduction({ start_date: "2024-01-16", end_date: "2024-01-17" }, holidays).days
+    ).toBe(1);
+  });
+
+  it("should support half-day and hourly requests on a single working day", () => {
+    expect(
+      calculatePTODeduction(
+        { start_date: "2024-01-09", end_date: "2024-01-09", duration_type: "half_day" },
+        []
+      )
+    ).toMatchObject({ days: 0.5, hours: 4, error: null });
+    expect(
+      calculatePTODeduction(
+        { start_date: "2024-01-09", end_date: "2024-01-09", duration_type: "hours", hours: 2 },
+        []
+      )
+    ).toMatchObject({ days: 0.25, hours: 2, error: null });
+    expect(
+      calculatePTODeduction(
+        { start_date: "2024-01-09", end_date: "2024-01-10", duration_type: "half_day" },
+        []
+      ).error
+    ).toBe("Half day requests must be for a single day");
+    expect(
+      calculatePTODeduction(
+        { start_date: "2024-01-13", end_date: "2024-01-13", duration_type: "hours", hours: 2 },
+        []
+      ).error
+    ).toBe("The selected dates contain no working days");
+  });
+});
@@ -0,0 +1,63 @@
+import {
+  derivePTOBalance,
+  findPTOBalanceDrift,
+  getAvailableDaysChange,
+  getOutstandingPendingDays,
+  type PTOTransactionType,
+} from "@/lib/pto-ledger";
+
+const tx = (transaction_type: PTOTransactionType, days: number) => ({ transaction_type, days });
+
+describe("derivePTOBalance", () => {
+  it("should rebuild every counter from the ledger", () => {
+    const derived = derivePTOBalance([
+      tx("accrual", 1.25),
+      tx("accrual", 1.25),
+      tx("carryover", 3),
+      tx("adjustment", -0.5),
+      tx("request_pending", 2),
+      tx("approval", 2),
+      tx("request_pending", 1),
+      tx("request_pending", 0.5), // request edited to 1.5 days
+      tx("request_pending", 1),
+      tx("rejection", 1),
+    ]);
+
+    expect(derived).toEqual({
+      entitled_days: 2.5,
+      used_days: 2,
+      pending_days: 1.5,
+      carryover_days: 3,
+      adjustment_days: -0.5,
+    });
+  });
+});
+
+describe("findPTOBalanceDrift", () => {
+  it("should report counters that disagree with the ledger", () => {
+    const derived = derivePTOBalance([tx("accrual", 10), tx("request_pending", 2), tx("cancellation", 2)]);
+
+    expect(
+      findPTOBalanceDrift(
+        { entitled_days: 10, used_days: 0, pending_days: 2, carryover_days: null, adjustment_days: 0 },
+        derived
+      )
+    ).toEqual([{ field: "pending_days", recorded: 2, derived: 0 }]);
+  });
+});
+
+describe("getOutstandingPendingDays", () => {
+  it("should net pending days against settled ones", () => {
+    expect(getOutstandingPendingDays([tx("request_pending", 3), tx("request_pending", -1)])).toBe(2);
+    expect(getOutstandingPendingDays([tx("request_pending", 3), tx("approval", 3)])).toBe(0);
+  });
+});
+
+describe("getAvailableDaysChange", () => {
+  it("should show how each transaction moves the days left", () => {
+    expect(getAvailableDaysChange(tx("accrual", 1.5))).toBe(1.5);
+    expect(getAvailableDaysChange(tx("request_pending", 2))).toBe(-2);
+    expect(getAvailableDaysChange(tx("approval", 2))).toBe(0);
+    expect(getAvailableDaysChange(tx("rejection", 2))).toBe(2);
+  });
+});
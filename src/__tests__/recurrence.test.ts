@@ -0,0 +1,103 @@
+import {
+  describeRecurrence,
+  expandRecurrence,
+  formatRRule,
+  parseRRule,
+} from "@/lib/recurrence";
+import { endRecurrence, getRecurrenceDates, resolveShiftRecurrence } from "@/lib/shift-series";
+
+describe("parseRRule", () => {
+  it("should round-trip the supported parts", () => {
+    const rule = parseRRule("RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=2TU,-1FR;UNTIL=20241231T235959Z");
+
+    expect(rule).toEqual({
+      freq: "MONTHLY",
+      interval: 2,
+      byDay: [
+        { day: 2, nth: 2 },
+        { day: 5, nth: -1 },
+      ],
+      until: "2024-12-31",
+    });
+    expect(formatRRule(rule)).toBe("FREQ=MONTHLY;INTERVAL=2;BYDAY=2TU,-1FR;UNTIL=20241231");
+  });
+
+  it("should reject rules it can't expand", () => {
+    expect(() => parseRRule("FREQ=YEARLY")).toThrow("unsupported frequency");
+    expect(() => parseRRule("FREQ=WEEKLY;BYHOUR=9")).toThrow("unsupported part");
+    expect(() => parseRRule("FREQ=DAILY;COUNT=3;UNTIL=20240301")).toThrow("cannot both be set");
+  });
+});
+
+describe("expandRecurrence", () => {
+  it("should repeat on the chosen weekdays every other week", () => {
+    // Wednesday, Mar 6 2024
+    const dates = expandRecurrence(parseRRule("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE,FR;UNTIL=20240325"), "2024-03-06");
+
+    expect(dates).toEqual(["2024-03-06", "2024-03-08", "2024-03-18", "2024-03-20", "2024-03-22"]);
+  });
+
+  it("should find nth and last weekdays of the month", () => {
+    expect(expandRecurrence(parseRRule("FREQ=MONTHLY;BYDAY=2TU;COUNT=3"), "2024-01-09")).toEqual([
+      "2024-01-09",
+      "2024-02-13",
+      "2024-03-12",
+    ]);
+    expect(expandRecurrence(parseRRule("FREQ=MONTHLY;BYDAY=-1FR;COUNT=2"), "2024-02-23")).toEqual([
+      "2024-02-23",
+      "2024-03-29",
+    ]);
+  });
+
+  it("should skip months without the day of the month", () => {
+    expect(expandRecurrence(parseRRule("FREQ=MONTHLY;COUNT=3"), "2024-01-31")).toEqual([
+      "2024-01-31",
+      "2024-03-31",
+      "2024-05-31",
+    ]);
+    expect(expandRecurrence(parseRRule("FREQ=MONTHLY;BYMONTHDAY=-1;UNTIL=20240430"), "2024-01-31")).toEqual([
+      "2024-01-31",
+      "2024-02-29",
+      "2024-03-31",
+      "2024-04-30",
+    ]);
+  });
+
+  it("should count exception dates before removing them", () => {
+    const dates = expandRecurrence(parseRRule("FREQ=DAILY;COUNT=4"), "2024-03-01", {
+      exdates: ["2024-03-02"],
+    });
+
+    expect(dates).toEqual(["2024-03-01", "2024-03-03", "2024-03-04"]);
+  });
+});
+
+describe("describeRecurrence", () => {
+  it("should summarise the rule", () => {
+    expect(describeRecurrence(parseRRule("FREQ=WEEKLY;INTERVAL=2;BYDAY=WE,MO;UNTIL=20240331"))).toBe(
+      "Every 2 weeks on Mon, Wed until Mar 31, 2024"
+    );
+    expect(describeRecurrence(parseRRule("FREQ=MONTHLY;BYDAY=-1FR;COUNT=6"))).toBe(
+      "Monthly on the last Friday, 6 times"
+    );
+  });
+});
+
+describe("shift series rules", () => {
+  it("should end a series before the split and drop later exceptions", () => {
+    const recurrence = resolveShiftRecurrence({
+      rrule: "FREQ=WEEKLY;BYDAY=MO;COUNT=10",
+      dtstart: "2024-03-04",
+      exdates: ["2024-03-11", "2024-03-25"],
+    });
+
+    const ended = endRecurrence(recurrence!, "2024-03-24");
+    expect(ended).toEqual({
+      rrule: "FREQ=WEEKLY;BYDAY=MO;UNTIL=20240324",
+      dtstart: "2024-03-04",
+      exdates: ["2024-03-11"],
+    });
+    expect(getRecurrenceDates(ended)).toEqual(["2024-03-04", "2024-03-18"]);
+    expect(resolveShiftRecurrence({ rrule: "FREQ=HOURLY", dtstart: "2024-03-04" })).toBeNull();
+  });
+});
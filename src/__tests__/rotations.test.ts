@@ -0,0 +1,109 @@
+import {
+  buildRotationShifts,
+  fillRotationPreset,
+  getRotationDay,
+  parseRotationPattern,
+  rotationPresets,
+  type RotationTemplate,
+} from "@/lib/rotations";
+
+const template = (overrides: Partial<RotationTemplate> = {}): RotationTemplate => ({
+  id: "day",
+  start_time: "07:00:00",
+  end_time: "19:00:00",
+  break_minutes: 30,
+  location_id: "loc-1",
+  position_id: "pos-1",
+  color: null,
+  ...overrides,
+});
+
+const panama = rotationPresets.find((preset) => preset.id === "panama")!;
+
+describe("parseRotationPattern", () => {
+  it("should treat anything but a template id as a day off", () => {
+    expect(parseRotationPattern(["day", null, "", 3, "night"])).toEqual(["day", null, null, null, "night"]);
+    expect(parseRotationPattern(null)).toEqual([]);
+  });
+});
+
+describe("getRotationDay", () => {
+  it("should wrap around the cycle and apply the offset", () => {
+    const pattern = fillRotationPreset(panama.days, "day");
+
+    expect(getRotationDay(pattern, "2024-03-04", "2024-03-04", 0)).toBe(0);
+    expect(getRotationDay(pattern, "2024-03-04", "2024-03-18", 0)).toBe(0);
+    expect(getRotationDay(pattern, "2024-03-04", "2024-03-05", 7)).toBe(8);
+  });
+});
+
+describe("buildRotationShifts", () => {
+  it("should follow a Panama 2-2-3 with two staggered crews covering every day", () => {
+    const shifts = buildRotationShifts({
+      pattern: fillRotationPreset(panama.days, "day"),
+      templates: { day: template() },
+      assignments: [
+        { userId: "crew-a", offset: 0 },
+        { userId: "crew-b", offset: 7 },
+      ],
+      startDate: "2024-03-04",
+      endDate: "2024-03-17",
+      timeZone: "UTC",
+    });
+
+    const days = (userId: string) =>
+      shifts.filter((shift) => shift.user_id === userId).map((shift) => shift.start_time.slice(0, 10));
+
+    expect(days("crew-a")).toEqual([
+      "2024-03-04",
+      "2024-03-05",
+      "2024-03-08",
+      "2024-03-09",
+      "2024-03-10",
+      "2024-03-13",
+      "2024-03-14",
+    ]);
+    // Together the crews work each of the 14 days exactly once
+    expect(shifts.map((shift) => shift.start_time.slice(0, 10)).sort()).toEqual(
+      Array.from({ length: 14 }, (_, day) => `2024-03-${String(day + 4).padStart(2, "0")}`)
+    );
+  });
+
+  it("should use the template's position and location and create drafts", () => {
+    const [shift] = buildRotationShifts({
+      pattern: ["day"],
+      templates: { day: template() },
+      assignments: [{ userId: "user-1", offset: 0 }],
+      startDate: "2024-03-04",
+      endDate: "2024-03-04",
+      timeZone: "UTC",
+    });
+
+    expect(shift).toEqual({
+      user_id: "user-1",
+      start_time: "2024-03-04T07:00:00.000Z",
+      end_time: "2024-03-04T19:00:00.000Z",
+      break_minutes: 30,
+      location_id: "loc-1",
+      department_id: null,
+      position_id: "pos-1",
+      notes: null,
+      color: null,
+      is_published: false,
+    });
+  });
+
+  it("should end overnight templates the next day in the organization's time zone", () => {
+    const [shift] = buildRotationShifts({
+      pattern: ["night"],
+      templates: { night: template({ id: "night", start_time: "19:00", end_time: "07:00" }) },
+      assignments: [{ userId: "user-1", offset: 0 }],
+      startDate: "2024-03-04",
+      endDate: "2024-03-04",
+      timeZone: "America/New_York",
+    });
+
+    expect(shift.start_time).toBe("2024-03-05T00:00:00.000Z");
+    expect(shift.end_time).toBe("2024-03-05T12:00:00.000Z");
+  });
+});
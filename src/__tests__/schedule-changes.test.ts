@@ -0,0 +1,97 @@
+import { diffEmployeeSchedules, getScheduleChanges, getScheduleWeekStart, type ScheduledShift } from "@/lib/schedule-changes";
+
+const shift = (overrides: Partial<ScheduledShift> = {}): ScheduledShift => ({
+  id: "shift-1",
+  user_id: "user-1",
+  // Monday, Mar 4 2024
+  start_time: "2024-03-04T09:00:00.000Z",
+  end_time: "2024-03-04T17:00:00.000Z",
+  break_minutes: 30,
+  location_id: null,
+  position_id: null,
+  is_published: true,
+  ...overrides,
+});
+
+const summarize = (changes: ReturnType<typeof diffEmployeeSchedules>) =>
+  changes.map(({ userId, weekStart, added, changed, removed }) => ({
+    userId,
+    weekStart,
+    added: added.map(({ id }) => id),
+    changed: changed.map(({ id }) => id),
+    removed: removed.map(({ id }) => id),
+  }));
+
+describe("getScheduleWeekStart", () => {
+  it("should use the configured first day of the week in the given time zone", () => {
+    // Sunday night in New York, Monday morning in UTC
+    const startTime = "2024-03-11T02:00:00.000Z";
+
+    expect(getScheduleWeekStart(startTime, { weekStartsOn: 1, timeZone: "UTC" })).toBe("2024-03-11");
+    expect(getScheduleWeekStart(startTime, { weekStartsOn: 1, timeZone: "America/New_York" })).toBe("2024-03-04");
+    expect(getScheduleWeekStart(startTime, { weekStartsOn: 0, timeZone: "America/New_York" })).toBe("2024-03-10");
+  });
+});
+
+describe("diffEmployeeSchedules", () => {
+  const options = { weekStartsOn: 1 as const, timeZone: "UTC" };
+
+  it("should give each employee one summary per week", () => {
+    const changes = diffEmployeeSchedules(
+      [
+        { before: null, after: shift() },
+        { before: null, after: shift({ id: "shift-2", start_time: "2024-03-05T09:00:00.000Z" }) },
+        { before: shift({ id: "shift-3" }), after: shift({ id: "shift-3", end_time: "2024-03-04T18:00:00.000Z" }) },
+        { before: shift({ id: "shift-4" }), after: null },
+        { before: null, after: shift({ id: "shift-5", start_time: "2024-03-12T09:00:00.000Z" }) },
+      ],
+      options
+    );
+
+    expect(summarize(changes)).toEqual([
+      { userId: "user-1", weekStart: "2024-03-04", added: ["shift-1", "shift-2"], changed: ["shift-3"], removed: ["shift-4"] },
+      { userId: "user-1", weekStart: "2024-03-11", added: ["shift-5"], changed: [], removed: [] },
+    ]);
+  });
+
+  it("should ignore drafts, open shifts and edits employees don't see", () => {
+    const changes = diffEmployeeSchedules(
+      [
+        { before: null, after: shift({ is_published: false }) },
+        { before: null, after: shift({ id: "shift-2", user_id: null }) },
+        { before: shift({ id: "shift-3" }), after: shift({ id: "shift-3" }) },
+      ],
+      options
+    );
+
+    expect(changes).toEqual([]);
+  });
+
+  it("should move reassigned shifts between employees and unpublished ones off the schedule", () => {
+    const changes = diffEmployeeSchedules(
+      [
+        { before: shift(), after: shift({ user_id: "user-2" }) },
+        { before: shift({ id: "shift-2" }), after: shift({ id: "shift-2", is_published: false }) },
+      ],
+      options
+    );
+
+    expect(summarize(changes)).toEqual([
+      { userId: "user-1", weekStart: "2024-03-04", added: [], changed: [], removed: ["shift-1", "shift-2"] },
+      { userId: "user-2", weekStart: "2024-03-04", added: ["shift-1"], changed: [], removed: [] },
+    ]);
+  });
+
+  it("should compare a republished week with the previous publish", () => {
+    const previous = [shift(), shift({ id: "shift-2" }), shift({ id: "shift-3" })];
+    const current = [
+      shift(),
+      shift({ id: "shift-2", location_id: "loc-2" }),
+      shift({ id: "shift-4", start_time: "2024-03-06T09:00:00.000Z" }),
+    ];
+
+    expect(summarize(diffEmployeeSchedules(getScheduleChanges(previous, current), options))).toEqual([
+      { userId: "user-1", weekStart: "2024-03-04", added: ["shift-4"], changed: ["shift-2"], removed: ["shift-3"] },
+    ]);
+  });
+});
@@ -0,0 +1,71 @@
+import { diffScheduleVersions, getVersionScopes, type VersionShift } from "@/lib/schedule-versions";
+
+const shift = (overrides: Partial<VersionShift> = {}): VersionShift => ({
+  id: "shift-1",
+  user_id: "user-1",
+  // Monday, Mar 4 2024
+  start_time: "2024-03-04T09:00:00.000Z",
+  end_time: "2024-03-04T17:00:00.000Z",
+  break_minutes: 30,
+  location_id: "loc-1",
+  department_id: "dept-1",
+  position_id: null,
+  notes: null,
+  color: null,
+  is_published: false,
+  ...overrides,
+});
+
+describe("getVersionScopes", () => {
+  const options = { weekStartsOn: 1 as const, timeZone: "UTC" };
+
+  it("should give one scope per week", () => {
+    const scopes = getVersionScopes(
+      [
+        shift({ start_time: "2024-03-05T09:00:00.000Z" }),
+        shift({ start_time: "2024-03-12T09:00:00.000Z" }),
+        shift({ start_time: "2024-03-04T09:00:00.000Z" }),
+      ],
+      options
+    );
+
+    expect(scopes.map((scope) => scope.weekStart)).toEqual(["2024-03-04", "2024-03-11"]);
+  });
+
+  it("should only narrow to a location or department every shift shares", () => {
+    const scopes = getVersionScopes(
+      [shift(), shift({ location_id: "loc-2", start_time: "2024-03-06T09:00:00.000Z" })],
+      options
+    );
+
+    expect(scopes).toEqual([{ weekStart: "2024-03-04", locationId: null, departmentId: "dept-1" }]);
+  });
+});
+
+describe("diffScheduleVersions", () => {
+  it("should report added, removed and changed shifts", () => {
+    const diff = diffScheduleVersions(
+      [shift(), shift({ id: "shift-2" }), shift({ id: "shift-3" })],
+      [
+        shift({ end_time: "2024-03-04T18:00:00.000Z", user_id: "user-2" }),
+        shift({ id: "shift-3" }),
+        shift({ id: "shift-4" }),
+      ]
+    );
+
+    expect(diff.added.map(({ id }) => id)).toEqual(["shift-4"]);
+    expect(diff.removed.map(({ id }) => id)).toEqual(["shift-2"]);
+    expect(diff.changed.map(({ after, fields }) => ({ id: after.id, fields }))).toEqual([
+      { id: "shift-1", fields: ["user_id", "end_time"] },
+    ]);
+  });
+
+  it("should compare times as instants", () => {
+    const diff = diffScheduleVersions(
+      [shift()],
+      [shift({ start_time: "2024-03-04T09:00:00+00:00", end_time: "2024-03-04T17:00:00+00:00" })]
+    );
+
+    expect(diff.changed).toEqual([]);
+  });
+});
@@ -0,0 +1,93 @@
+import {
+  getChangedShiftFields,
+  getPostedOpenShifts,
+  getShiftTimesOnDate,
+  parseShiftInput,
+} from "@/lib/shift-api";
+import type { Database } from "@/types/database.types";
+
+type Shift = Database["public"]["Tables"]["shifts"]["Row"];
+
+const shift = (overrides: Partial<Shift> = {}): Shift =>
+  ({
+    id: "shift-1",
+    user_id: "user-1",
+    start_time: "2024-03-04T09:00:00.000Z",
+    end_time: "2024-03-04T17:00:00.000Z",
+    break_minutes: 30,
+    location_id: null,
+    department_id: null,
+    position_id: null,
+    notes: null,
+    color: null,
+    is_published: true,
+    ...overrides,
+  }) as Shift;
+
+describe("parseShiftInput", () => {
+  it("should require times and reject shifts that end before they start", () => {
+    expect(parseShiftInput({ end_time: "2024-03-04T17:00:00Z" }).error).toBe(
+      "start_time is required (ISO 8601 date-time)"
+    );
+    expect(
+      parseShiftInput({ start_time: "2024-03-04T17:00:00Z", end_time: "2024-03-04T09:00:00Z" }).error
+    ).toBe("end_time must be after start_time");
+    expect(
+      parseShiftInput({ start_time: "2024-03-04T09:00:00Z", end_time: "2024-03-04T17:00:00Z", break_minutes: -5 }).error
+    ).toBe("break_minutes must be a non-negative integer");
+  });
+
+  it("should keep the existing values of fields left out of an update", () => {
+    const existing = shift({ location_id: "loc-1", notes: "Opening" });
+    const { data } = parseShiftInput({ user_id: null, end_time: "2024-03-04T18:00:00+00:00" }, existing);
+
+    expect(data).toMatchObject({
+      user_id: null,
+      start_time: "2024-03-04T09:00:00.000Z",
+      end_time: "2024-03-04T18:00:00.000Z",
+      break_minutes: 30,
+      location_id: "loc-1",
+      notes: "Opening",
+      is_published: true,
+    });
+  });
+});
+
+describe("getChangedShiftFields", () => {
+  it("should compare times as instants", () => {
+    const existing = shift({
+      start_time: "2024-03-04T09:00:00+00:00",
+      end_time: "2024-03-04T17:00:00+00:00",
+    });
+    const input = parseShiftInput({ start_time: "2024-03-04T09:00:00Z", end_time: "2024-03-04T18:00:00Z" }, existing);
+    expect(getChangedShiftFields(input.data!, existing)).toEqual(["end_time"]);
+  });
+});
+
+describe("getPostedOpenShifts", () => {
+  it("should only include shifts that became published open shifts", () => {
+    const openShifts = getPostedOpenShifts([
+      { before: shift(), after: shift({ user_id: null }) },
+      { before: null, after: shift({ id: "shift-2", user_id: null, is_published: false }) },
+      { before: shift({ id: "shift-3", user_id: null }), after: shift({ id: "shift-3", user_id: null, notes: "Keys" }) },
+    ]);
+
+    expect(openShifts.map(({ id }) => id)).toEqual(["shift-1"]);
+  });
+});
+
+describe("getShiftTimesOnDate", () => {
+  it("should keep the local start time and length across a DST change", () => {
+    // 9:00-17:00 in New York on Friday Mar 8 2024 (EST); DST starts Mar 10
+    const times = getShiftTimesOnDate(
+      { start_time: "2024-03-08T14:00:00.000Z", end_time: "2024-03-08T22:00:00.000Z" },
+      "2024-03-11",
+      "America/New_York"
+    );
+
+    expect(times).toEqual({
+      start_time: "2024-03-11T13:00:00.000Z",
+      end_time: "2024-03-11T21:00:00.000Z",
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { validateShifts, type ShiftValidationContext } from "@/lib/shift-validation";
+
+const emptyContext: ShiftValidationContext = {
+  existingShifts: [],
+  ptoRequests: [],
+  userPositions: {},
+};
+
+const shift = (id: string, start: string, end: string, extra = {}) => ({
+  id,
+  user_id: "user-1",
+  start_time: `${start}Z`,
+  end_time: `${end}Z`,
+  ...extra,
+});
+
+const options = { timeZone: "UTC", weekStartsOn: 0 as const };
+
+describe("validateShifts", () => {
+  it("should flag overlapping shifts as errors, excluding the shift being edited", () => {
+    const context = {
+      ...emptyContext,
+      existingShifts: [
+        shift("a", "2024-01-15T09:00:00", "2024-01-15T17:00:00"),
+        shift("b", "2024-01-16T09:00:00", "2024-01-16T17:00:00"),
+      ],
+    };
+
+    const moved = validateShifts(
+      [shift("a", "2024-01-16T12:00:00", "2024-01-16T20:00:00")],
+      context,
+      undefined,
+      options
+    );
+    expect(moved.errors.map((e) => e.code)).toEqual(["overlap"]);
+
+    const edited = validateShifts(
+      [shift("a", "2024-01-15T10:00:00", "2024-01-15T18:00:00")],
+      context,
+      undefined,
+      options
+    );
+    expect(edited.errors).toEqual([]);
+  });
+
+  it("should report overlaps between candidates once", () => {
+    const result = validateShifts(
+      [
+        { key: "new-0", ...shift("", "2024-01-15T09:00:00", "2024-01-15T17:00:00"), id: null },
+        { key: "new-1", ...shift("", "2024-01-15T12:00:00", "2024-01-15T20:00:00"), id: null },
+      ],
+      emptyContext,
+      undefined,
+      options
+    );
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].shiftKey).toBe("new-1");
+  });
+
+  it("should block approved time off and warn on pending time off", () => {
+    const context = {
+      ...emptyContext,
+      ptoRequests: [
+        { user_id: "user-1", start_date: "2024-01-15", end_date: "2024-01-16", status: "approved" },
+        { user_id: "user-1", start_date: "2024-01-18", end_date: "2024-01-18", status: "pending" },
+      ],
+    };
+    const result = validateShifts(
+      [
+        shift("a", "2024-01-16T09:00:00", "2024-01-16T17:00:00"),
+        shift("b", "2024-01-18T09:00:00", "2024-01-18T17:00:00"),
+      ],
+      context,
+      undefined,
+      options
+    );
+    expect(result.errors.map((e) => [e.shiftKey, e.code])).toEqual([["a", "pto_conflict"]]);
+    expect(result.warnings.map((w) => [w.shiftKey, w.code])).toEqual([["b", "pto_conflict"]]);
+  });
+
+  it("should warn when rest between shifts is too short", () => {
+    const context = {
+      ...emptyContext,
+      existingShifts: [shift("a", "2024-01-15T14:00:00", "2024-01-15T23:00:00")],
+    };
+    const result = validateShifts(
+      [shift("b", "2024-01-16T06:00:00", "2024-01-16T14:00:00")],
+      context,
+      undefined,
+      options
+    );
+    expect(result.warnings.map((w) => w.code)).toEqual(["min_rest"]);
+    expect(result.warnings[0].message).toContain("7h rest");
+  });
+
+  it("should warn on weekly hours, days off and missing positions", () => {
+    // Sunday through Friday, 8 hours each with a 30 minute break
+    const existing = [14, 15, 16, 17, 18, 19].map((day) =>
+      shift(`d${day}`, `2024-01-${day}T09:00:00`, `2024-01-${day}T17:00:00`, { break_minutes: 30 })
+    );
+    const result = validateShifts(
+      [shift("sat", "2024-01-20T09:00:00", "2024-01-20T17:00:00", { position_id: "cook" })],
+      { ...emptyContext, existingShifts: existing, userPositions: { "user-1": ["cashier"] } },
+      undefined,
+      options
+    );
+    expect(result.errors).toEqual([]);
+    expect(result.warnings.map((w) => w.code).sort()).toEqual([
+      "days_off",
+      "max_weekly_hours",
+      "qualification",
+    ]);
+  });
+
+  it("should skip employee checks for open shifts and reject inverted times", () => {
+    const result = validateShifts(
+      [
+        { ...shift("a", "2024-01-15T09:00:00", "2024-01-15T17:00:00"), user_id: null },
+        shift("b", "2024-01-15T17:00:00", "2024-01-15T09:00:00"),
+      ],
+      { ...emptyContext, existingShifts: [shift("c", "2024-01-15T09:00:00", "2024-01-15T17:00:00")] },
+      undefined,
+      options
+    );
+    expect(result.errors.map((e) => [e.shiftKey, e.code])).toEqual([["b", "invalid_time"]]);
+    expect(result.warnings).toEqual([]);
+  });
+});
@@ -0,0 +1,53 @@
+import { PDFDocument } from "pdf-lib";
+import { renderTimesheetPDF, type TimesheetPDFData } from "@/lib/timesheet-pdf";
+
+const baseData: TimesheetPDFData = {
+  organization: { name: "Acme Coffee" },
+  employeeName: "Jordan Lee",
+  employeeCode: "E-100",
+  periodStart: "2024-01-08",
+  periodEnd: "2024-01-14",
+  status: "approved",
+  approverName: "Sam Rivera",
+  reviewedAt: "2024-01-15T10:00:00.000Z",
+  reviewComment: "Looks good",
+  workDays: [
+    {
+      date: "2024-01-08",
+      timeZone: "America/Los_Angeles",
+      clockIn: new Date("2024-01-08T17:00:00.000Z"),
+      clockOut: new Date("2024-01-09T01:30:00.000Z"),
+      workMinutes: 480,
+      breakMinutes: 30,
+      breaks: 1,
+      location: "Downtown",
+    },
+  ],
+  totals: { totalHours: 8, breakHours: 0.5, overtimeHours: 0 },
+};
+
+describe("renderTimesheetPDF", () => {
+  it("should produce a valid PDF document", async () => {
+    const bytes = await renderTimesheetPDF(baseData);
+    expect(String.fromCharCode(...Array.from(bytes.slice(0, 5)))).toBe("%PDF-");
+
+    const doc = await PDFDocument.load(bytes);
+    expect(doc.getPageCount()).toBe(1);
+    expect(doc.getTitle()).toContain("Jordan Lee");
+  });
+
+  it("should paginate long periods", async () => {
+    const workDays = Array.from({ length: 62 }, (_, i) => ({
+      ...baseData.workDays[0],
+      date: `2024-0${i < 31 ? 1 : 3}-${String((i % 31) + 1).padStart(2, "0")}`,
+    }));
+    const bytes = await renderTimesheetPDF({ ...baseData, workDays });
+    const doc = await PDFDocument.load(bytes);
+    expect(doc.getPageCount()).toBeGreaterThan(1);
+  });
+
+  it("should not fail on characters outside the standard font", async () => {
+    const bytes = await renderTimesheetPDF({ ...baseData, employeeName: "山田 太郎" });
+    expect(bytes.length).toBeGreaterThan(0);
+  });
+});
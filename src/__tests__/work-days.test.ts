@@ -0,0 +1,85 @@
+import { buildWorkDays, filterWorkDaysToPeriod, getEntryFetchRange } from "@/lib/work-days";
+import { getDateKeyInTimeZone, resolveTimeZone, startOfDayInTimeZone } from "@/lib/timezone";
+
+const pacific = { name: "Portland", timezone: "America/Los_Angeles" };
+
+// 10pm-6am Pacific on Jan 8-9 2024 (UTC-8), with a 30 minute break at 2am
+const nightShift = [
+  { entry_type: "clock_in", timestamp: "2024-01-09T06:00:00.000Z", locations: pacific },
+  { entry_type: "break_start", timestamp: "2024-01-09T10:00:00.000Z", locations: pacific },
+  { entry_type: "break_end", timestamp: "2024-01-09T10:30:00.000Z", locations: pacific },
+  { entry_type: "clock_out", timestamp: "2024-01-09T14:00:00.000Z", locations: pacific },
+];
+
+describe("timezone helpers", () => {
+  it("should compute local calendar dates", () => {
+    const instant = new Date("2024-01-09T06:00:00.000Z");
+    expect(getDateKeyInTimeZone(instant, "UTC")).toBe("2024-01-09");
+    expect(getDateKeyInTimeZone(instant, "America/Los_Angeles")).toBe("2024-01-08");
+  });
+
+  it("should find local midnight, including on DST change days", () => {
+    expect(startOfDayInTimeZone("2024-01-09", "America/Los_Angeles").toISOString()).toBe(
+      "2024-01-09T08:00:00.000Z"
+    );
+    expect(startOfDayInTimeZone("2024-03-10", "America/Los_Angeles").toISOString()).toBe(
+      "2024-03-10T08:00:00.000Z"
+    );
+    expect(startOfDayInTimeZone("2024-03-11", "America/Los_Angeles").toISOString()).toBe(
+      "2024-03-11T07:00:00.000Z"
+    );
+  });
+
+  it("should fall back through invalid time zones to UTC", () => {
+    expect(resolveTimeZone(null, "Not/AZone", "Asia/Tokyo")).toBe("Asia/Tokyo");
+    expect(resolveTimeZone(undefined, "")).toBe("UTC");
+  });
+});
+
+describe("buildWorkDays", () => {
+  it("should attribute an overnight shift to the local start day", () => {
+    const days = buildWorkDays(nightShift);
+    expect(days).toHaveLength(1);
+    expect(days[0].date).toBe("2024-01-08");
+    expect(days[0].timeZone).toBe("America/Los_Angeles");
+    expect(days[0].workMinutes).toBe(450);
+    expect(days[0].breakMinutes).toBe(30);
+    expect(days[0].breaks).toBe(1);
+  });
+
+  it("should split an overnight shift at local midnight", () => {
+    const days = buildWorkDays(nightShift, { midnightRule: "split" });
+    expect(days.map((d) => d.date)).toEqual(["2024-01-08", "2024-01-09"]);
+    expect(days[0].workMinutes).toBe(120);
+    expect(days[1].workMinutes).toBe(330);
+    expect(days[1].breakMinutes).toBe(30);
+  });
+
+  it("should use the organization time zone when the location has none", () => {
+    const entries = nightShift.map((entry) => ({ ...entry, locations: null }));
+    expect(buildWorkDays(entries)[0].date).toBe("2024-01-09");
+    expect(buildWorkDays(entries, { defaultTimeZone: "America/New_York" })[0].date).toBe(
+      "2024-01-09"
+    );
+    expect(buildWorkDays(entries, { defaultTimeZone: "America/Denver" })[0].date).toBe(
+      "2024-01-08"
+    );
+  });
+
+  it("should ignore sessions without a clock out", () => {
+    expect(buildWorkDays([nightShift[0]])).toEqual([]);
+  });
+});
+
+describe("period helpers", () => {
+  it("should pad the fetch range and filter days back to the period", () => {
+    expect(getEntryFetchRange("2024-01-08", "2024-01-14")).toEqual({
+      from: "2024-01-07T00:00:00.000Z",
+      to: "2024-01-15T23:59:59.999Z",
+    });
+    const days = buildWorkDays(nightShift, { midnightRule: "split" });
+    expect(filterWorkDaysToPeriod(days, "2024-01-09", "2024-01-15").map((d) => d.date)).toEqual([
+      "2024-01-09",
+    ]);
+  });
+});
@@ -0,0 +1,50 @@
+import { redirect } from "next/navigation";
+import { subDays } from "date-fns";
+import { DashboardHeader } from "@/components/dashboard/header";
+import { AttendanceExceptionsQueue } from "@/components/attendance/exceptions-queue";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { resolveTimeZone } from "@/lib/timezone";
+
+// How far back the queue lists exceptions
+const QUEUE_DAYS = 30;
+
+export default async function AttendancePage() {
+  const authData = await getAuthData();
+
+  if (!authData) {
+    redirect("/login");
+  }
+
+  const { profile } = authData;
+  const isAdmin = profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+
+  if (!isAdmin) {
+    redirect("/dashboard");
+  }
+
+  const supabase = await getCachedSupabase();
+
+  const { data: exceptions } = await supabase
+    .from("attendance_exceptions")
+    .select(`
+      *,
+      profiles!attendance_exceptions_user_id_fkey (id, first_name, last_name, display_name, avatar_url),
+      shifts (id, start_time, end_time, break_minutes, locations (name))
+    `)
+    .eq("organization_id", profile.organization_id)
+    .gte("occurred_at", subDays(new Date(), QUEUE_DAYS).toISOString())
+    .order("occurred_at", { ascending: false });
+
+  return (
+    <>
+      <DashboardHeader title="Attendance" profile={profile} />
+      <div className="container mx-auto p-6">
+        <AttendanceExceptionsQueue
+          organizationId={profile.organization_id}
+          exceptions={exceptions || []}
+          timeZone={resolveTimeZone(profile.organizations?.timezone)}
+        />
+      </div>
+    </>
+  );
+}
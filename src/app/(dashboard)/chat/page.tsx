@@ -2,6 +2,7 @@ import { redirect } from "next/navigation";
 import { DashboardHeader } from "@/components/dashboard/header";
 import { ChatDashboard } from "@/components/chat/dashboard";
 import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { resolveChatAttachmentSettings } from "@/lib/chat-attachments";
 
 export default async function ChatPage() {
   const authData = await getAuthData();
@@ -144,6 +145,7 @@ export default async function ChatPage() {
           roomParticipants={roomParticipants}
           latestMessages={latestMessages}
           teamMembers={teamMembersResult.data || []}
+          attachmentSettings={resolveChatAttachmentSettings(profile.organizations?.settings)}
         />
       </div>
     </>
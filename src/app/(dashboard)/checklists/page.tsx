@@ -0,0 +1,149 @@
+import { redirect } from "next/navigation";
+import { addDays, subDays } from "date-fns";
+import { DashboardHeader } from "@/components/dashboard/header";
+import { ChecklistsDashboard } from "@/components/checklists/dashboard";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { CHECKLIST_SYNC_DAYS } from "@/lib/checklists";
+import { getDateKeyInTimeZone, resolveTimeZone } from "@/lib/timezone";
+
+// Days of history shown in the completion report
+const REPORT_DAYS = 30;
+
+export default async function ChecklistsPage() {
+  const authData = await getAuthData();
+
+  if (!authData) {
+    redirect("/login");
+  }
+
+  const { user, profile } = authData;
+  const isAdmin = profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+
+  const supabase = await getCachedSupabase();
+
+  const timeZone = resolveTimeZone(profile.organizations?.timezone);
+  const now = new Date();
+  const today = getDateKeyInTimeZone(now, timeZone);
+  // Unfinished checklists from the past week stay on the employee's list
+  const myFrom = getDateKeyInTimeZone(subDays(now, 7), timeZone);
+  const myTo = getDateKeyInTimeZone(addDays(now, 7), timeZone);
+  const reportFrom = getDateKeyInTimeZone(subDays(now, REPORT_DAYS), timeZone);
+
+  // Parallel fetch all data
+  const [
+    checklistsResult,
+    myAssignmentsResult,
+    positionsResult,
+    locationsResult,
+    teamMembersResult,
+    groupsResult,
+    shiftsResult,
+    reportAssignmentsResult,
+  ] = await Promise.all([
+    // Get active checklists with the positions they are assigned to
+    supabase
+      .from("checklists")
+      .select("*, checklist_positions (position_id)")
+      .eq("organization_id", profile.organization_id)
+      .eq("is_active", true)
+      .order("name"),
+    // Get the user's checklists around today
+    supabase
+      .from("checklist_assignments")
+      .select(`
+        *,
+        checklists (id, name, description, items),
+        shifts (id, start_time, end_time),
+        locations (id, name)
+      `)
+      .eq("user_id", user.id)
+      .gte("due_date", myFrom)
+      .lte("due_date", myTo)
+      .order("due_date"),
+    // Get positions (admins only)
+    isAdmin
+      ? supabase
+          .from("positions")
+          .select("id, name, color")
+          .eq("organization_id", profile.organization_id)
+          .eq("is_active", true)
+          .order("sort_order")
+      : Promise.resolve({ data: [] }),
+    // Get locations (admins only)
+    isAdmin
+      ? supabase
+          .from("locations")
+          .select("id, name")
+          .eq("organization_id", profile.organization_id)
+          .eq("is_active", true)
+          .order("name")
+      : Promise.resolve({ data: [] }),
+    // Get team members (admins only)
+    isAdmin
+      ? supabase
+          .from("profiles")
+          .select("id, first_name, last_name, display_name, avatar_url")
+          .eq("organization_id", profile.organization_id)
+          .eq("status", "active")
+          .order("first_name")
+      : Promise.resolve({ data: [] }),
+    // Get employee groups (admins only)
+    isAdmin
+      ? supabase
+          .from("employee_groups")
+          .select("id, name, color, employee_group_members (user_id)")
+          .eq("organization_id", profile.organization_id)
+          .order("name")
+      : Promise.resolve({ data: [] }),
+    // Get upcoming shifts to assign checklists to (admins only)
+    isAdmin
+      ? supabase
+          .from("shifts")
+          .select(`
+            id, user_id, start_time, end_time,
+            profiles!shifts_user_id_fkey (id, first_name, last_name, display_name),
+            positions (id, name),
+            locations (id, name)
+          `)
+          .eq("organization_id", profile.organization_id)
+          .not("user_id", "is", null)
+          .gte("start_time", now.toISOString())
+          .lte("start_time", addDays(now, CHECKLIST_SYNC_DAYS).toISOString())
+          .order("start_time")
+      : Promise.resolve({ data: [] }),
+    // Get assignments for the completion report (admins only)
+    isAdmin
+      ? supabase
+          .from("checklist_assignments")
+          .select(`
+            *,
+            checklists (id, name, items),
+            profiles!checklist_assignments_user_id_fkey (id, first_name, last_name, display_name, avatar_url)
+          `)
+          .eq("organization_id", profile.organization_id)
+          .gte("due_date", reportFrom)
+          .lte("due_date", today)
+          .order("due_date", { ascending: false })
+      : Promise.resolve({ data: [] }),
+  ]);
+
+  return (
+    <>
+      <DashboardHeader title="Checklists" />
+      <div className="container mx-auto p-6">
+        <ChecklistsDashboard
+          isAdmin={isAdmin}
+          today={today}
+          checklists={checklistsResult.data || []}
+          myAssignments={myAssignmentsResult.data || []}
+          positions={positionsResult.data || []}
+          locations={locationsResult.data || []}
+          teamMembers={teamMembersResult.data || []}
+          groups={groupsResult.data || []}
+          shifts={shiftsResult.data || []}
+          reportAssignments={reportAssignmentsResult.data || []}
+        />
+      </div>
+    </>
+  );
+}
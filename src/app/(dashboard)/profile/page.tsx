@@ -1,4 +1,5 @@
 import { redirect } from "next/navigation";
+import { format } from "date-fns";
 import { DashboardHeader } from "@/components/dashboard/header";
 import { ProfileSettings } from "@/components/profile/settings";
 import { getAuthData } from "@/lib/auth";
@@ -35,6 +36,34 @@ export default async function ProfilePage() {
     `)
     .eq("user_id", user.id);
 
+  // Fetch availability change awaiting approval and upcoming unavailability
+  const [
+    { data: pendingAvailabilityRequest },
+    { data: unavailability },
+    { data: calendarFeed },
+  ] = await Promise.all([
+    supabase
+      .from("availability_change_requests")
+      .select("*")
+      .eq("user_id", user.id)
+      .eq("status", "pending")
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from("employee_unavailability")
+      .select("*")
+      .eq("user_id", user.id)
+      .in("status", ["pending", "approved", "rejected"])
+      .gte("end_date", format(new Date(), "yyyy-MM-dd"))
+      .order("start_date"),
+    supabase
+      .from("calendar_feeds")
+      .select("id, token, include_team, last_accessed_at")
+      .eq("user_id", user.id)
+      .maybeSingle(),
+  ]);
+
   return (
     <>
       <DashboardHeader title="My Profile" />
@@ -44,6 +73,9 @@ export default async function ProfilePage() {
           profile={profile}
           department={department}
           userLocations={userLocations || []}
+          pendingAvailabilityRequest={pendingAvailabilityRequest}
+          unavailability={unavailability || []}
+          calendarFeed={calendarFeed}
         />
       </div>
     </>
@@ -1,7 +1,9 @@
 import { redirect } from "next/navigation";
 import { DashboardHeader } from "@/components/dashboard/header";
 import { PTOContainer } from "@/components/pto/pto-container";
+import { format, endOfYear, addYears } from "date-fns";
 import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { fetchPTOCalendar } from "@/lib/pto-days";
 
 export default async function PTOPage() {
   const authData = await getAuthData();
@@ -39,7 +41,7 @@ export default async function PTOPage() {
   }
 
   // Parallel fetch all data
-  const [requestsResult, balancesResult, policiesResult, employeesResult] = await Promise.all([
+  const [requestsResult, balancesResult, policiesResult, employeesResult, ptoCalendar] = await Promise.all([
     // Get PTO requests
     requestsQuery.then((result) => {
       if (result.error) {
@@ -102,6 +104,11 @@ export default async function PTOPage() {
             };
           })
       : Promise.resolve({ data: [], error: null }),
+    // Get the work week and holidays used to preview request deductions
+    fetchPTOCalendar(supabase, profile.organization_id, user.id, {
+      start: format(new Date(), "yyyy-MM-dd"),
+      end: format(endOfYear(addYears(new Date(), 1)), "yyyy-MM-dd"),
+    }),
   ]);
 
   return (
@@ -115,6 +122,8 @@ export default async function PTOPage() {
           policies={policiesResult.data || []}
           employees={employeesResult.data || []}
           isAdmin={isAdmin}
+          holidays={ptoCalendar.holidays}
+          ptoCalendar={ptoCalendar.settings}
         />
       </div>
     </>
@@ -3,6 +3,9 @@ import { startOfMonth, endOfMonth, subMonths, format, startOfWeek, endOfWeek } f
 import { DashboardHeader } from "@/components/dashboard/header";
 import { ReportsDashboard } from "@/components/reports/dashboard";
 import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { loadLaborRates, resolveLaborCostSettings } from "@/lib/labor-cost";
+import { resolveOvertimeRules } from "@/lib/overtime";
+import { resolveTimeZone } from "@/lib/timezone";
 
 export default async function ReportsPage() {
   const authData = await getAuthData();
@@ -44,6 +47,8 @@ export default async function ReportsPage() {
     shiftsThisWeekResult,
     allTimeEntriesResult,
     allShiftsResult,
+    laborRates,
+    attendanceExceptionsResult,
   ] = await Promise.all([
     // Get team member count
     supabase
@@ -104,7 +109,7 @@ export default async function ReportsPage() {
       .select(`
         id, user_id, entry_type, timestamp,
         profiles!time_entries_user_id_fkey (id, first_name, last_name, display_name, avatar_url),
-        locations (id, name)
+        locations (id, name, timezone)
       `)
       .eq("organization_id", profile.organization_id)
       .gte("timestamp", extendedStart.toISOString())
@@ -113,13 +118,25 @@ export default async function ReportsPage() {
     supabase
       .from("shifts")
       .select(`
-        id, user_id, start_time, end_time, status,
+        id, user_id, start_time, end_time, status, break_minutes, location_id, position_id,
         profiles!shifts_user_id_fkey (id, first_name, last_name, display_name, avatar_url),
         locations (id, name)
       `)
       .eq("organization_id", profile.organization_id)
       .gte("start_time", extendedStart.toISOString())
       .order("start_time"),
+    // Get hourly rates for labor cost report
+    loadLaborRates(supabase, profile.organization_id, profile.organizations?.settings),
+    // Get attendance exceptions for the work hours report (last 3 months)
+    supabase
+      .from("attendance_exceptions")
+      .select(`
+        id, user_id, type, status, minutes, occurred_at,
+        profiles!attendance_exceptions_user_id_fkey (id, first_name, last_name, display_name, avatar_url)
+      `)
+      .eq("organization_id", profile.organization_id)
+      .gte("occurred_at", extendedStart.toISOString())
+      .order("occurred_at"),
   ]);
 
   const shiftsThisMonth = shiftsThisMonthResult.data;
@@ -218,7 +235,12 @@ export default async function ReportsPage() {
           ptoBreakdown={ptoBreakdown}
           timeEntries={allTimeEntriesResult.data || []}
           shifts={allShiftsResult.data || []}
+          attendanceExceptions={attendanceExceptionsResult.data || []}
           organizationId={profile.organization_id}
+          overtimeRules={resolveOvertimeRules(profile.organizations?.settings)}
+          laborRates={laborRates}
+          burdenPercent={resolveLaborCostSettings(profile.organizations?.settings).burdenPercent}
+          timeZone={resolveTimeZone(profile.organizations?.timezone)}
         />
       </div>
     </>
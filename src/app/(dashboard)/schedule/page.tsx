@@ -1,12 +1,24 @@
 import { redirect } from "next/navigation";
 import { ScheduleHeader } from "@/components/schedule/schedule-header";
 import { ScheduleCalendar } from "@/components/schedule/calendar";
-import { startOfWeek, endOfWeek, startOfMonth, endOfMonth, parseISO } from "date-fns";
+import { AvailabilityReview } from "@/components/schedule/availability-review";
+import { startOfWeek, endOfWeek, startOfMonth, endOfMonth, parseISO, format } from "date-fns";
 import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { resolveOvertimeRules } from "@/lib/overtime";
+import { resolveScheduleWeekStart } from "@/lib/shift-validation";
+import { resolveTimeZone } from "@/lib/timezone";
+import {
+  createLaborRateLookup,
+  findBudgetOverages,
+  loadLaborRates,
+  projectLaborCost,
+  resolveLaborCostSettings,
+} from "@/lib/labor-cost";
 
 interface SearchParams {
   view?: string;
   date?: string;
+  tab?: string;
 }
 
 export default async function SchedulePage({
@@ -49,8 +61,55 @@ export default async function SchedulePage({
 
   const supabase = await getCachedSupabase();
 
+  // Availability changes and unavailability awaiting review (employees see their own)
+  if (params.tab === "unavailability") {
+    const requestsQuery = supabase
+      .from("availability_change_requests")
+      .select(`
+        *,
+        profiles!availability_change_requests_user_id_fkey (id, first_name, last_name, display_name, avatar_url, weekly_availability, preferred_max_hours_per_week)
+      `)
+      .eq("organization_id", profile.organization_id)
+      .order("created_at", { ascending: false });
+    const unavailabilityQuery = supabase
+      .from("employee_unavailability")
+      .select(`
+        *,
+        profiles!employee_unavailability_user_id_fkey (id, first_name, last_name, display_name, avatar_url)
+      `)
+      .eq("organization_id", profile.organization_id)
+      .gte("end_date", format(new Date(), "yyyy-MM-dd"))
+      .order("start_date", { ascending: true });
+
+    if (isAdmin) {
+      requestsQuery.eq("status", "pending");
+      unavailabilityQuery.in("status", ["pending", "approved"]);
+    } else {
+      requestsQuery.eq("user_id", user.id).neq("status", "cancelled").limit(10);
+      unavailabilityQuery.eq("user_id", user.id).neq("status", "cancelled");
+    }
+
+    const [requestsResult, unavailabilityResult] = await Promise.all([
+      requestsQuery,
+      unavailabilityQuery,
+    ]);
+
+    return (
+      <>
+        <ScheduleHeader isAdmin={isAdmin} />
+        <div className="flex-1 overflow-hidden">
+          <AvailabilityReview
+            isAdmin={isAdmin}
+            changeRequests={requestsResult.data || []}
+            unavailability={unavailabilityResult.data || []}
+          />
+        </div>
+      </>
+    );
+  }
+
   // Parallel fetch all data
-  const [shiftsResult, teamMembersResult, locationsResult, departmentsResult, positionsResult, ptoRequestsResult, organizationResult] = await Promise.all([
+  const [shiftsResult, teamMembersResult, locationsResult, departmentsResult, positionsResult, ptoRequestsResult, organizationResult, openShiftClaimsResult, unavailabilityResult, ratesResult, groupsResult] = await Promise.all([
     // Get shifts for the date range
     (async () => {
       const query = supabase
@@ -78,6 +137,7 @@ export default async function SchedulePage({
       .from("profiles")
       .select(`
         id, first_name, last_name, display_name, avatar_url, role,
+        weekly_availability, preferred_max_hours_per_week,
         user_positions (
           position_id
         ),
@@ -91,7 +151,7 @@ export default async function SchedulePage({
     // Get locations
     supabase
       .from("locations")
-      .select("id, name")
+      .select("id, name, weekly_labor_budget")
       .eq("organization_id", profile.organization_id)
       .eq("is_active", true),
     // Get departments
@@ -122,28 +182,99 @@ export default async function SchedulePage({
     // Get organization settings
     supabase
       .from("organizations")
-      .select("settings")
+      .select("settings, timezone")
       .eq("id", profile.organization_id)
       .single(),
+    // Get claims on open shifts in the date range (employees only see their own)
+    supabase
+      .from("open_shift_claims")
+      .select(`
+        id, shift_id, user_id, status, note, created_at,
+        profiles!open_shift_claims_user_id_fkey (id, first_name, last_name, display_name, avatar_url),
+        shifts!inner (start_time)
+      `)
+      .eq("organization_id", profile.organization_id)
+      .neq("status", "cancelled")
+      .gte("shifts.start_time", startDate.toISOString())
+      .lte("shifts.start_time", endDate.toISOString())
+      .order("created_at", { ascending: true }),
+    // Get one-off unavailability for the date range (approved and pending only)
+    supabase
+      .from("employee_unavailability")
+      .select("id, user_id, start_date, end_date, start_time, end_time, status, reason")
+      .eq("organization_id", profile.organization_id)
+      .in("status", ["approved", "pending"])
+      .gte("end_date", startDate.toISOString().split("T")[0])
+      .lte("start_date", endDate.toISOString().split("T")[0]),
+    // Get hourly rates for labor cost projection (admins only)
+    isAdmin
+      ? loadLaborRates(supabase, profile.organization_id, profile.organizations?.settings)
+      : Promise.resolve(null),
+    // Get employee groups for the group filter
+    supabase
+      .from("employee_groups")
+      .select("id, name, color, employee_group_members (user_id)")
+      .eq("organization_id", profile.organization_id)
+      .order("name"),
   ]);
 
+  const locations = locationsResult.data || [];
+  const departments = departmentsResult.data || [];
+  let laborCost = null;
+
+  if (isAdmin && ratesResult) {
+    const projection = projectLaborCost(shiftsResult.data || [], createLaborRateLookup(ratesResult), {
+      rules: resolveOvertimeRules(organizationResult.data?.settings),
+      timeZone: resolveTimeZone(organizationResult.data?.timezone),
+      burdenPercent: resolveLaborCostSettings(organizationResult.data?.settings).burdenPercent,
+    });
+    laborCost = {
+      projection,
+      overages: findBudgetOverages(
+        projection,
+        Object.fromEntries(locations.map((location) => [location.id, location.weekly_labor_budget]))
+      ),
+      locations,
+      departments,
+    };
+  }
+
+  const teamMembers = teamMembersResult.data || [];
+  const history = isAdmin
+    ? {
+        organizationId: profile.organization_id,
+        currentUserId: user.id,
+        weekStartsOn: resolveScheduleWeekStart(organizationResult.data?.settings),
+        locations,
+        departments,
+        members: teamMembers.map((member) => ({
+          id: member.id,
+          name: member.display_name || `${member.first_name} ${member.last_name}`,
+        })),
+      }
+    : null;
+
   return (
     <>
-      <ScheduleHeader isAdmin={isAdmin} />
+      <ScheduleHeader isAdmin={isAdmin} laborCost={laborCost} history={history} />
       <div className="flex-1 overflow-hidden">
         <ScheduleCalendar
           shifts={shiftsResult.data || []}
-          teamMembers={teamMembersResult.data || []}
-          locations={locationsResult.data || []}
-          departments={departmentsResult.data || []}
+          teamMembers={teamMembers}
+          locations={locations}
+          departments={departments}
           positions={positionsResult.data || []}
+          groups={groupsResult.data || []}
           ptoRequests={ptoRequestsResult.data || []}
+          openShiftClaims={openShiftClaimsResult.data || []}
+          unavailability={unavailabilityResult.data || []}
           currentDate={currentDate}
           view={view}
           isAdmin={isAdmin}
           currentUserId={user.id}
           organizationId={profile.organization_id}
           scheduleSettings={organizationResult.data?.settings}
+          laborCostByDay={laborCost?.projection.byDay}
         />
       </div>
     </>
@@ -1,9 +1,19 @@
 import { redirect } from "next/navigation";
+import { format } from "date-fns";
 import { DashboardHeader } from "@/components/dashboard/header";
 import { PushNotificationSettings } from "@/components/settings/push-notifications";
+import { NotificationPreferencesComponent } from "@/components/settings/notification-preferences";
 import { TeamNotificationSettingsComponent } from "@/components/settings/team-notification-settings";
 import { TeamSettingsComponent } from "@/components/settings/team-settings";
 import { ShiftSwapSettingsComponent } from "@/components/settings/shift-swap-settings";
+import { OpenShiftSettingsComponent } from "@/components/settings/open-shift-settings";
+import { ShiftRulesSettingsComponent } from "@/components/settings/shift-rules-settings";
+import { OvertimeSettingsComponent } from "@/components/settings/overtime-settings";
+import { TimekeepingSettingsComponent } from "@/components/settings/timekeeping-settings";
+import { ChatAttachmentSettingsComponent } from "@/components/settings/chat-attachment-settings";
+import { PayPeriodSettingsComponent } from "@/components/settings/pay-period-settings";
+import { PTOAccrualSettingsComponent } from "@/components/settings/pto-accrual-settings";
+import { PTOCalendarSettingsComponent } from "@/components/settings/pto-calendar-settings";
 import { PTOPolicyManager } from "@/components/pto/policy-manager";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { getAuthData } from "@/lib/auth";
@@ -20,11 +30,11 @@ export default async function SettingsPage() {
   const supabase = await createClient();
   const isAdmin = profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
 
-  // Fetch organization settings and PTO policies in parallel
-  const [organizationResult, ptoPoliciesResult] = await Promise.all([
+  // Fetch organization settings, PTO policies and holidays in parallel
+  const [organizationResult, ptoPoliciesResult, holidaysResult, locationsResult] = await Promise.all([
     supabase
       .from("organizations")
-      .select("id, settings")
+      .select("id, settings, timezone")
       .eq("id", profile.organization_id)
       .single(),
     isAdmin
@@ -34,6 +44,22 @@ export default async function SettingsPage() {
           .eq("organization_id", profile.organization_id)
           .order("name")
       : Promise.resolve({ data: null }),
+    isAdmin
+      ? supabase
+          .from("holidays")
+          .select("*")
+          .eq("organization_id", profile.organization_id)
+          .gte("date", format(new Date(), "yyyy-MM-dd"))
+          .order("date")
+      : Promise.resolve({ data: null }),
+    isAdmin
+      ? supabase
+          .from("locations")
+          .select("id, name")
+          .eq("organization_id", profile.organization_id)
+          .eq("is_active", true)
+          .order("name")
+      : Promise.resolve({ data: null }),
   ]);
 
   const organization = organizationResult.data;
@@ -48,12 +74,20 @@ export default async function SettingsPage() {
             <TabsTrigger value="notifications">Notifications</TabsTrigger>
             <TabsTrigger value="schedule">Schedule</TabsTrigger>
             <TabsTrigger value="shift-swap">Shift Swap</TabsTrigger>
+            {isAdmin && <TabsTrigger value="open-shifts">Open Shifts</TabsTrigger>}
+            {isAdmin && <TabsTrigger value="timekeeping">Timekeeping</TabsTrigger>}
             {isAdmin && <TabsTrigger value="pto-policies">PTO Policies</TabsTrigger>}
+            {isAdmin && <TabsTrigger value="chat">Chat</TabsTrigger>}
             <TabsTrigger value="preferences">Preferences</TabsTrigger>
           </TabsList>
 
           <TabsContent value="notifications" className="space-y-6">
             <PushNotificationSettings userId={user.id} />
+            <NotificationPreferencesComponent
+              userId={user.id}
+              organizationTimezone={organization?.timezone ?? null}
+              initialSettings={profile.notification_settings}
+            />
             {organization && (
               <TeamNotificationSettingsComponent
                 organizationId={organization.id}
@@ -69,6 +103,12 @@ export default async function SettingsPage() {
                 initialSettings={organization.settings}
               />
             )}
+            {isAdmin && organization && (
+              <ShiftRulesSettingsComponent
+                organizationId={organization.id}
+                initialSettings={organization.settings}
+              />
+            )}
           </TabsContent>
 
           <TabsContent value="shift-swap" className="space-y-6">
@@ -80,6 +120,42 @@ export default async function SettingsPage() {
             )}
           </TabsContent>
 
+          {isAdmin && (
+            <TabsContent value="open-shifts" className="space-y-6">
+              {organization && (
+                <OpenShiftSettingsComponent
+                  organizationId={organization.id}
+                  initialSettings={organization.settings}
+                />
+              )}
+            </TabsContent>
+          )}
+
+          {isAdmin && (
+            <TabsContent value="timekeeping" className="space-y-6">
+              {organization && (
+                <TimekeepingSettingsComponent
+                  organizationId={organization.id}
+                  organizationTimezone={organization.timezone}
+                  initialSettings={organization.settings}
+                />
+              )}
+              {organization && (
+                <OvertimeSettingsComponent
+                  organizationId={organization.id}
+                  initialSettings={organization.settings}
+                />
+              )}
+              {organization && (
+                <PayPeriodSettingsComponent
+                  organizationId={organization.id}
+                  organizationTimezone={organization.timezone}
+                  initialSettings={organization.settings}
+                />
+              )}
+            </TabsContent>
+          )}
+
           {isAdmin && (
             <TabsContent value="pto-policies" className="space-y-6">
               {organization && (
@@ -88,6 +164,31 @@ export default async function SettingsPage() {
                   organizationId={organization.id}
                 />
               )}
+              {organization && (
+                <PTOAccrualSettingsComponent
+                  organizationId={organization.id}
+                  initialSettings={organization.settings}
+                />
+              )}
+              {organization && (
+                <PTOCalendarSettingsComponent
+                  organizationId={organization.id}
+                  initialSettings={organization.settings}
+                  holidays={holidaysResult.data || []}
+                  locations={locationsResult.data || []}
+                />
+              )}
+            </TabsContent>
+          )}
+
+          {isAdmin && (
+            <TabsContent value="chat" className="space-y-6">
+              {organization && (
+                <ChatAttachmentSettingsComponent
+                  organizationId={organization.id}
+                  initialSettings={organization.settings}
+                />
+              )}
             </TabsContent>
           )}
 
@@ -20,7 +20,7 @@ export default async function TasksPage() {
   // #endregion
   // Parallel fetch all data
   const queryStartTime = Date.now();
-  const [tasksResult, teamMembersResult] = await Promise.all([
+  const [tasksResult, teamMembersResult, groupsResult] = await Promise.all([
     // Get tasks with assignments
     supabase
       .from("tasks")
@@ -44,7 +44,8 @@ export default async function TasksPage() {
           first_name,
           last_name,
           display_name
-        )
+        ),
+        employee_groups (id, name, color)
       `)
       .eq("organization_id", profile.organization_id)
       .order("created_at", { ascending: false }),
@@ -55,6 +56,12 @@ export default async function TasksPage() {
       .eq("organization_id", profile.organization_id)
       .eq("status", "active")
       .order("first_name"),
+    // Get groups for group assignment
+    supabase
+      .from("employee_groups")
+      .select("id, name, color, employee_group_members (user_id)")
+      .eq("organization_id", profile.organization_id)
+      .order("name"),
   ]);
   // #region agent log
   const queryDuration = Date.now() - queryStartTime;
@@ -69,6 +76,7 @@ export default async function TasksPage() {
           profile={profile}
           tasks={tasksResult.data || []}
           teamMembers={teamMembersResult.data || []}
+          groups={groupsResult.data || []}
           isAdmin={isAdmin}
         />
       </div>
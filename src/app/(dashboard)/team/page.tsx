@@ -3,6 +3,7 @@ import { DashboardHeader } from "@/components/dashboard/header";
 import { TeamDashboard } from "@/components/team/dashboard";
 import { getAuthData, getCachedSupabase } from "@/lib/auth";
 import { createAdminClient } from "@/lib/supabase/admin";
+import { resolveOvertimeRules } from "@/lib/overtime";
 
 export default async function TeamPage() {
   const authData = await getAuthData();
@@ -18,7 +19,7 @@ export default async function TeamPage() {
   const adminSupabase = createAdminClient();
 
   // Parallel fetch all data - using admin client to bypass RLS for team members
-  const [teamMembersResult, invitationsResult, departmentsResult, positionsResult, locationsResult] = await Promise.all([
+  const [teamMembersResult, invitationsResult, departmentsResult, positionsResult, locationsResult, groupsResult, payRatesResult] = await Promise.all([
     // Get team members with their positions and locations (using admin client to bypass RLS)
     adminSupabase
       .from("profiles")
@@ -75,6 +76,24 @@ export default async function TeamPage() {
       .select("*")
       .eq("organization_id", profile.organization_id)
       .order("name"),
+    // Get groups with their members and scoped managers
+    supabase
+      .from("employee_groups")
+      .select(`
+        *,
+        employee_group_members (user_id),
+        manager_group_scopes (manager_id)
+      `)
+      .eq("organization_id", profile.organization_id)
+      .order("name"),
+    // Get pay rate history for the labor cost tab (only fetch if admin)
+    isAdmin
+      ? supabase
+          .from("employee_pay_rates")
+          .select("*")
+          .eq("organization_id", profile.organization_id)
+          .order("effective_from", { ascending: false })
+      : Promise.resolve({ data: null }),
   ]);
 
   return (
@@ -88,6 +107,10 @@ export default async function TeamPage() {
           departments={departmentsResult.data || []}
           positions={positionsResult.data || []}
           locations={locationsResult.data || []}
+          groups={groupsResult.data || []}
+          payRates={payRatesResult.data || []}
+          organizationSettings={profile.organizations?.settings ?? null}
+          overtimeRules={resolveOvertimeRules(profile.organizations?.settings)}
           isAdmin={isAdmin}
         />
       </div>
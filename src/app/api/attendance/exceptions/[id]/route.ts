@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { recordAuditLog } from "@/lib/audit";
+import { createAdminClient } from "@/lib/supabase/admin";
+import type { AttendanceExceptionStatus } from "@/lib/attendance";
+
+const STATUS_ACTIONS: Record<AttendanceExceptionStatus, string> = {
+  open: "attendance_exception_reopened",
+  resolved: "attendance_exception_resolved",
+  excused: "attendance_exception_excused",
+};
+
+/**
+ * PATCH /api/attendance/exceptions/[id]
+ * Resolve, excuse or reopen an attendance exception, with an optional note
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+    const isAdmin =
+      profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+
+    if (!isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const status = body.status as AttendanceExceptionStatus;
+
+    if (!(status in STATUS_ACTIONS)) {
+      return NextResponse.json(
+        { error: "status must be open, resolved or excused" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await getCachedSupabase();
+
+    const { data: existing, error: fetchError } = await supabase
+      .from("attendance_exceptions")
+      .select("*")
+      .eq("id", id)
+      .eq("organization_id", profile.organization_id)
+      .single();
+
+    if (fetchError || !existing) {
+      return NextResponse.json({ error: "Exception not found" }, { status: 404 });
+    }
+
+    const { data: exception, error: updateError } = await supabase
+      .from("attendance_exceptions")
+      .update({
+        status,
+        note: typeof body.note === "string" ? body.note.trim() || null : existing.note,
+        resolved_by: status === "open" ? null : user.id,
+        resolved_at: status === "open" ? null : new Date().toISOString(),
+      })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (updateError || !exception) {
+      console.error("Error updating attendance exception:", updateError);
+      return NextResponse.json({ error: "Failed to update exception" }, { status: 500 });
+    }
+
+    await recordAuditLog(
+      createAdminClient(),
+      {
+        organizationId: profile.organization_id,
+        userId: user.id,
+        action: STATUS_ACTIONS[status],
+        entityType: "attendance_exception",
+        entityId: id,
+        oldValues: { status: existing.status, note: existing.note },
+        newValues: { status: exception.status, note: exception.note },
+        metadata: { type: exception.type, employee_id: exception.user_id },
+      },
+      request
+    );
+
+    return NextResponse.json({ success: true, data: exception });
+  } catch (error) {
+    console.error("Error in PATCH /api/attendance/exceptions/[id]:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
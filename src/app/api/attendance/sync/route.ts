@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { addDays, subDays } from "date-fns";
+import { getAuthData } from "@/lib/auth";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { notifyNoShows, syncAttendance } from "@/lib/attendance";
+
+// How far back a manager's refresh of the exceptions queue reaches
+const MANAGER_SYNC_DAYS = 7;
+
+/**
+ * POST /api/attendance/sync
+ * Match recent punches to shifts and update attendance exceptions. The time
+ * clock calls this after every punch for the current user's last day;
+ * managers can pass `{ scope: "organization" }` to refresh everyone's last
+ * week.
+ */
+export async function POST(request: Request) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+    const organization = profile.organizations;
+    if (!organization) {
+      return NextResponse.json({ error: "Organization not found" }, { status: 404 });
+    }
+
+    const isManager =
+      profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+    const body = await request.json().catch(() => ({}));
+    const wholeOrganization = body?.scope === "organization";
+
+    if (wholeOrganization && !isManager) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const now = new Date();
+    // Exception rows are written with the service role; the scope is fixed here
+    const supabase = createAdminClient();
+    const result = await syncAttendance(
+      supabase,
+      organization,
+      wholeOrganization
+        ? { start: subDays(now, MANAGER_SYNC_DAYS), end: addDays(now, 1), now }
+        : { start: subDays(now, 1), end: addDays(now, 1), userId: user.id, now }
+    );
+
+    await notifyNoShows(supabase, organization, result.created);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        created: result.created.length,
+        updated: result.updated,
+        removed: result.removed,
+        linked: result.linked,
+      },
+    });
+  } catch (error) {
+    console.error("Error in POST /api/attendance/sync:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
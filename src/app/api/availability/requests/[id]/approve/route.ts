@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { createAvailabilityNotification } from "@/lib/notifications";
+
+/**
+ * PUT /api/availability/requests/[id]/approve
+ * Approve an availability change and apply it to the employee's profile
+ * (admin/manager only)
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const reviewComment = body.review_comment || null;
+
+    const isAdmin = profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+    if (!isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = await getCachedSupabase();
+
+    const { data: changeRequest, error: fetchError } = await supabase
+      .from("availability_change_requests")
+      .select("*")
+      .eq("id", id)
+      .eq("organization_id", profile.organization_id)
+      .single();
+
+    if (fetchError || !changeRequest) {
+      return NextResponse.json({ error: "Availability request not found" }, { status: 404 });
+    }
+
+    if (changeRequest.status !== "pending") {
+      return NextResponse.json(
+        { error: "Can only approve pending requests" },
+        { status: 400 }
+      );
+    }
+
+    const { error: profileError } = await supabase
+      .from("profiles")
+      .update({
+        weekly_availability: changeRequest.weekly_availability,
+        preferred_max_hours_per_week: changeRequest.preferred_max_hours_per_week,
+      })
+      .eq("id", changeRequest.user_id);
+
+    if (profileError) {
+      console.error("Error applying availability:", profileError);
+      return NextResponse.json({ error: "Failed to update availability" }, { status: 500 });
+    }
+
+    const { data: approvedRequest, error: updateError } = await supabase
+      .from("availability_change_requests")
+      .update({
+        status: "approved",
+        reviewed_by: user.id,
+        reviewed_at: new Date().toISOString(),
+        review_comment: reviewComment,
+      })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (updateError) {
+      console.error("Error approving availability request:", updateError);
+      return NextResponse.json({ error: "Failed to approve request" }, { status: 500 });
+    }
+
+    await createAvailabilityNotification(supabase, {
+      userId: changeRequest.user_id,
+      organizationId: profile.organization_id,
+      type: "availability_approved",
+      requestId: id,
+      reviewComment,
+    });
+
+    return NextResponse.json({ success: true, data: approvedRequest });
+  } catch (error) {
+    console.error("Error in PUT /api/availability/requests/[id]/approve:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
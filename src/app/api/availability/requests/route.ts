@@ -0,0 +1,94 @@
+import { NextResponse } from "next/server";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { parseWeeklyAvailability } from "@/lib/availability";
+import { createAvailabilityNotification } from "@/lib/notifications";
+
+const MANAGER_ROLES = ["admin", "owner", "manager"];
+
+/**
+ * POST /api/availability/requests
+ * Submit a change to your weekly availability and preferred hours for
+ * manager approval. Replaces any change you still have pending.
+ */
+export async function POST(request: Request) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+    const body = await request.json();
+
+    // null clears restrictions; otherwise every window must be valid
+    const weeklyAvailability =
+      body.weekly_availability == null ? null : parseWeeklyAvailability(body.weekly_availability);
+    if (
+      body.weekly_availability != null &&
+      (!Array.isArray(body.weekly_availability) ||
+        weeklyAvailability?.length !== body.weekly_availability.length)
+    ) {
+      return NextResponse.json({ error: "Invalid availability windows" }, { status: 400 });
+    }
+
+    const preferredMaxHours =
+      body.preferred_max_hours_per_week == null || body.preferred_max_hours_per_week === ""
+        ? null
+        : Number(body.preferred_max_hours_per_week);
+    if (
+      preferredMaxHours !== null &&
+      (!Number.isFinite(preferredMaxHours) || preferredMaxHours < 0 || preferredMaxHours > 168)
+    ) {
+      return NextResponse.json({ error: "Invalid preferred hours" }, { status: 400 });
+    }
+
+    const supabase = await getCachedSupabase();
+
+    await supabase
+      .from("availability_change_requests")
+      .update({ status: "cancelled" })
+      .eq("user_id", user.id)
+      .eq("status", "pending");
+
+    const { data: changeRequest, error: insertError } = await supabase
+      .from("availability_change_requests")
+      .insert({
+        organization_id: profile.organization_id,
+        user_id: user.id,
+        weekly_availability: weeklyAvailability,
+        preferred_max_hours_per_week: preferredMaxHours,
+        note: body.note || null,
+      })
+      .select()
+      .single();
+
+    if (insertError || !changeRequest) {
+      console.error("Error creating availability change request:", insertError);
+      return NextResponse.json({ error: "Failed to submit availability" }, { status: 500 });
+    }
+
+    const { data: managers } = await supabase
+      .from("profiles")
+      .select("id")
+      .eq("organization_id", profile.organization_id)
+      .eq("status", "active")
+      .in("role", MANAGER_ROLES);
+
+    const employeeName = `${profile.first_name} ${profile.last_name}`.trim();
+    for (const manager of managers || []) {
+      if (manager.id === user.id) continue;
+      await createAvailabilityNotification(supabase, {
+        userId: manager.id,
+        organizationId: profile.organization_id,
+        type: "availability_submitted",
+        requestId: changeRequest.id,
+        employeeName,
+      });
+    }
+
+    return NextResponse.json({ success: true, data: changeRequest }, { status: 201 });
+  } catch (error) {
+    console.error("Error in POST /api/availability/requests:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { createAvailabilityNotification } from "@/lib/notifications";
+
+/**
+ * PUT /api/availability/unavailability/[id]/reject
+ * Decline an employee's unavailability (admin/manager only)
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const reviewComment = body.review_comment || null;
+
+    const isAdmin = profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+    if (!isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = await getCachedSupabase();
+
+    const { data: entry, error: fetchError } = await supabase
+      .from("employee_unavailability")
+      .select("*")
+      .eq("id", id)
+      .eq("organization_id", profile.organization_id)
+      .single();
+
+    if (fetchError || !entry) {
+      return NextResponse.json({ error: "Unavailability not found" }, { status: 404 });
+    }
+
+    if (entry.status !== "pending") {
+      return NextResponse.json(
+        { error: "Can only reject pending entries" },
+        { status: 400 }
+      );
+    }
+
+    const { data: updatedEntry, error: updateError } = await supabase
+      .from("employee_unavailability")
+      .update({
+        status: "rejected",
+        reviewed_by: user.id,
+        reviewed_at: new Date().toISOString(),
+        review_comment: reviewComment,
+      })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (updateError) {
+      console.error("Error rejecting unavailability:", updateError);
+      return NextResponse.json({ error: "Failed to reject unavailability" }, { status: 500 });
+    }
+
+    await createAvailabilityNotification(supabase, {
+      userId: entry.user_id,
+      organizationId: profile.organization_id,
+      type: "unavailability_rejected",
+      requestId: id,
+      startDate: entry.start_date,
+      endDate: entry.end_date,
+      reviewComment,
+    });
+
+    return NextResponse.json({ success: true, data: updatedEntry });
+  } catch (error) {
+    console.error("Error in PUT /api/availability/unavailability/[id]/reject:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { createAvailabilityNotification } from "@/lib/notifications";
+
+const MANAGER_ROLES = ["admin", "owner", "manager"];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * POST /api/availability/unavailability
+ * Mark yourself unavailable for a date range, optionally for part of each
+ * day. Entries stay pending until a manager approves them.
+ */
+export async function POST(request: Request) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+    const body = await request.json();
+    const { start_date, end_date, reason } = body;
+    const startTime = body.start_time || null;
+    const endTime = body.end_time || null;
+
+    if (!DATE_PATTERN.test(start_date || "") || !DATE_PATTERN.test(end_date || "")) {
+      return NextResponse.json(
+        { error: "start_date and end_date are required (yyyy-MM-dd)" },
+        { status: 400 }
+      );
+    }
+
+    if (end_date < start_date) {
+      return NextResponse.json({ error: "End date must be on or after start date" }, { status: 400 });
+    }
+
+    if (!!startTime !== !!endTime) {
+      return NextResponse.json(
+        { error: "Provide both start and end time, or neither for whole days" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      startTime &&
+      (!TIME_PATTERN.test(startTime) || !TIME_PATTERN.test(endTime) || endTime <= startTime)
+    ) {
+      return NextResponse.json({ error: "Invalid time range" }, { status: 400 });
+    }
+
+    const supabase = await getCachedSupabase();
+
+    const { data: entry, error: insertError } = await supabase
+      .from("employee_unavailability")
+      .insert({
+        organization_id: profile.organization_id,
+        user_id: user.id,
+        start_date,
+        end_date,
+        start_time: startTime,
+        end_time: endTime,
+        reason: reason || null,
+      })
+      .select()
+      .single();
+
+    if (insertError || !entry) {
+      console.error("Error creating unavailability:", insertError);
+      return NextResponse.json({ error: "Failed to save unavailability" }, { status: 500 });
+    }
+
+    const { data: managers } = await supabase
+      .from("profiles")
+      .select("id")
+      .eq("organization_id", profile.organization_id)
+      .eq("status", "active")
+      .in("role", MANAGER_ROLES);
+
+    const employeeName = `${profile.first_name} ${profile.last_name}`.trim();
+    for (const manager of managers || []) {
+      if (manager.id === user.id) continue;
+      await createAvailabilityNotification(supabase, {
+        userId: manager.id,
+        organizationId: profile.organization_id,
+        type: "unavailability_submitted",
+        requestId: entry.id,
+        employeeName,
+        startDate: start_date,
+        endDate: end_date,
+      });
+    }
+
+    return NextResponse.json({ success: true, data: entry }, { status: 201 });
+  } catch (error) {
+    console.error("Error in POST /api/availability/unavailability:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
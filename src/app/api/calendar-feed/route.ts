@@ -0,0 +1,125 @@
+import { NextResponse } from "next/server";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { generateFeedToken } from "@/lib/calendar-feed";
+
+const FEED_SELECT = "id, token, include_team, last_accessed_at, created_at, updated_at";
+
+/**
+ * POST /api/calendar-feed
+ * Create the current user's calendar feed, or give it a new token. Any
+ * calendar subscribed with the old URL stops updating.
+ */
+export async function POST() {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+    const supabase = await getCachedSupabase();
+
+    const { data: feed, error } = await supabase
+      .from("calendar_feeds")
+      .upsert(
+        {
+          organization_id: profile.organization_id,
+          user_id: user.id,
+          token: generateFeedToken(),
+        },
+        { onConflict: "user_id" }
+      )
+      .select(FEED_SELECT)
+      .single();
+
+    if (error) {
+      console.error("Error saving calendar feed:", error);
+      return NextResponse.json({ error: "Failed to create calendar feed" }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, data: feed });
+  } catch (error) {
+    console.error("Error in POST /api/calendar-feed:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/calendar-feed
+ * Update feed options. include_team (managers only) adds everyone's
+ * published shifts and approved time off.
+ */
+export async function PATCH(request: Request) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+    const body = await request.json().catch(() => ({}));
+    const { include_team } = body;
+
+    if (typeof include_team !== "boolean") {
+      return NextResponse.json({ error: "include_team must be a boolean" }, { status: 400 });
+    }
+
+    const isAdmin = profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+    if (include_team && !isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = await getCachedSupabase();
+
+    const { data: feed, error } = await supabase
+      .from("calendar_feeds")
+      .update({ include_team })
+      .eq("user_id", user.id)
+      .select(FEED_SELECT)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error updating calendar feed:", error);
+      return NextResponse.json({ error: "Failed to update calendar feed" }, { status: 500 });
+    }
+
+    if (!feed) {
+      return NextResponse.json({ error: "Calendar feed not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: feed });
+  } catch (error) {
+    console.error("Error in PATCH /api/calendar-feed:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/calendar-feed
+ * Turn off the current user's calendar feed
+ */
+export async function DELETE() {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const supabase = await getCachedSupabase();
+
+    const { error } = await supabase
+      .from("calendar_feeds")
+      .delete()
+      .eq("user_id", authData.user.id);
+
+    if (error) {
+      console.error("Error deleting calendar feed:", error);
+      return NextResponse.json({ error: "Failed to turn off calendar feed" }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error in DELETE /api/calendar-feed:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,124 @@
+import { NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import {
+  CHAT_ATTACHMENTS_BUCKET,
+  MAX_CHAT_THUMBNAIL_BYTES,
+  buildChatAttachmentPath,
+  isImageAttachment,
+  resolveChatAttachmentSettings,
+  validateChatAttachment,
+} from "@/lib/chat-attachments";
+import { createAdminClient } from "@/lib/supabase/admin";
+
+/**
+ * POST /api/chat/attachments
+ * Send a file to a chat room. Expects multipart form data with room_id,
+ * file, an optional caption (content) and, for images, an optional
+ * thumbnail generated by the browser.
+ */
+export async function POST(request: Request) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+
+    const formData = await request.formData().catch(() => null);
+    const roomId = formData?.get("room_id");
+    const file = formData?.get("file");
+    const thumbnail = formData?.get("thumbnail");
+    const caption = formData?.get("content");
+
+    if (typeof roomId !== "string" || !roomId) {
+      return NextResponse.json({ error: "room_id is required" }, { status: 400 });
+    }
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "file is required" }, { status: 400 });
+    }
+
+    const settings = resolveChatAttachmentSettings(profile.organizations?.settings);
+    const validationError = validateChatAttachment(file, settings);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const isImage = isImageAttachment(file.type);
+    const hasThumbnail =
+      isImage &&
+      thumbnail instanceof File &&
+      isImageAttachment(thumbnail.type) &&
+      thumbnail.size > 0 &&
+      thumbnail.size <= MAX_CHAT_THUMBNAIL_BYTES;
+
+    const supabase = await getCachedSupabase();
+
+    // Only participants can send files to a room
+    const { data: participant } = await supabase
+      .from("chat_participants")
+      .select("id")
+      .eq("room_id", roomId)
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (!participant) {
+      return NextResponse.json({ error: "Chat room not found" }, { status: 404 });
+    }
+
+    const uploadId = randomUUID();
+    const filePath = buildChatAttachmentPath(roomId, uploadId, file.name);
+    const thumbnailPath = hasThumbnail ? buildChatAttachmentPath(roomId, uploadId, "thumbnail.webp") : null;
+    // Files are stored and attached with the service role once the
+    // organization's limits have been checked above
+    const adminClient = createAdminClient();
+    const storage = adminClient.storage.from(CHAT_ATTACHMENTS_BUCKET);
+
+    const { error: uploadError } = await storage.upload(filePath, file, { contentType: file.type });
+    if (uploadError) {
+      console.error("Error uploading chat attachment:", uploadError);
+      return NextResponse.json({ error: "Failed to upload file" }, { status: 500 });
+    }
+
+    if (thumbnailPath) {
+      const { error: thumbnailError } = await storage.upload(thumbnailPath, thumbnail as File, {
+        contentType: (thumbnail as File).type,
+      });
+      if (thumbnailError) {
+        await storage.remove([filePath]);
+        console.error("Error uploading chat attachment thumbnail:", thumbnailError);
+        return NextResponse.json({ error: "Failed to upload file" }, { status: 500 });
+      }
+    }
+
+    const content = typeof caption === "string" && caption.trim() ? caption.trim() : file.name;
+
+    const { data: messageId, error } = await adminClient.rpc("send_chat_attachment_message", {
+      p_room_id: roomId,
+      p_sender_id: user.id,
+      p_content: content,
+      p_type: isImage ? "image" : "file",
+      p_attachments: [
+        {
+          file_name: file.name,
+          file_type: file.type,
+          file_size: file.size,
+          file_url: filePath,
+          thumbnail_url: thumbnailPath,
+        },
+      ],
+    });
+
+    if (error) {
+      await storage.remove(thumbnailPath ? [filePath, thumbnailPath] : [filePath]);
+      console.error("Error sending chat attachment:", error);
+      return NextResponse.json({ error: "Failed to send file" }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, data: { message_id: messageId } }, { status: 201 });
+  } catch (error) {
+    console.error("Error in POST /api/chat/attachments:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
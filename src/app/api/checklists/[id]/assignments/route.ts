@@ -0,0 +1,197 @@
+import { NextResponse } from "next/server";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { recordAuditLog } from "@/lib/audit";
+import { buildShiftChecklistAssignment, parseChecklistAssignInput } from "@/lib/checklists";
+import { checkManagerScope, getGroupMemberIds } from "@/lib/groups";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { resolveTimeZone } from "@/lib/timezone";
+
+/**
+ * POST /api/checklists/[id]/assignments
+ * Assign a checklist to shifts, employees or groups (admin/manager only).
+ * Shift assignments go to the shift's employee for the shift's day and
+ * location. Employees and groups get it for due_date; anyone who already
+ * has it that day is skipped.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+    const { id } = await params;
+
+    const isAdmin = profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+    if (!isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = parseChecklistAssignInput(body);
+    if (parsed.error !== undefined) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const input = parsed.data;
+
+    const supabase = await getCachedSupabase();
+
+    const { data: checklist, error: checklistError } = await supabase
+      .from("checklists")
+      .select("id, name")
+      .eq("id", id)
+      .eq("organization_id", profile.organization_id)
+      .eq("is_active", true)
+      .single();
+
+    if (checklistError || !checklist) {
+      return NextResponse.json({ error: "Checklist not found" }, { status: 404 });
+    }
+
+    const [shiftsResult, membersResult, usersResult, locationResult] = await Promise.all([
+      input.shift_ids.length > 0
+        ? supabase
+            .from("shifts")
+            .select("id, user_id, position_id, location_id, start_time")
+            .eq("organization_id", profile.organization_id)
+            .in("id", input.shift_ids)
+        : Promise.resolve({ data: [], error: null }),
+      input.group_ids.length > 0
+        ? supabase
+            .from("employee_group_members")
+            .select("group_id, user_id")
+            .eq("organization_id", profile.organization_id)
+            .in("group_id", input.group_ids)
+        : Promise.resolve({ data: [], error: null }),
+      input.user_ids.length > 0
+        ? supabase
+            .from("profiles")
+            .select("id")
+            .eq("organization_id", profile.organization_id)
+            .in("id", input.user_ids)
+        : Promise.resolve({ data: [], error: null }),
+      input.location_id
+        ? supabase
+            .from("locations")
+            .select("id")
+            .eq("id", input.location_id)
+            .eq("organization_id", profile.organization_id)
+            .maybeSingle()
+        : Promise.resolve({ data: null, error: null }),
+    ]);
+
+    const fetchError = shiftsResult.error || membersResult.error || usersResult.error || locationResult.error;
+    if (fetchError) {
+      console.error("Error loading checklist assignees:", fetchError);
+      return NextResponse.json({ error: "Failed to assign checklist" }, { status: 500 });
+    }
+
+    const shifts = shiftsResult.data || [];
+    if (shifts.length !== input.shift_ids.length) {
+      return NextResponse.json({ error: "Shift not found" }, { status: 404 });
+    }
+    if (shifts.some((shift) => !shift.user_id)) {
+      return NextResponse.json({ error: "Open shifts cannot be given a checklist" }, { status: 400 });
+    }
+    if ((usersResult.data || []).length !== input.user_ids.length) {
+      return NextResponse.json({ error: "Employee not found" }, { status: 404 });
+    }
+    if (input.location_id && !locationResult.data) {
+      return NextResponse.json({ error: "Location not found" }, { status: 404 });
+    }
+
+    const userIds = Array.from(
+      new Set([...input.user_ids, ...getGroupMemberIds(membersResult.data || [], input.group_ids)])
+    );
+
+    const scopeError = await checkManagerScope(supabase, profile, [
+      ...userIds,
+      ...shifts.map((shift) => shift.user_id),
+    ]);
+    if (scopeError) {
+      return NextResponse.json({ error: scopeError }, { status: 403 });
+    }
+
+    let created = 0;
+
+    if (shifts.length > 0) {
+      const timeZone = resolveTimeZone(profile.organizations?.timezone);
+      const { data, error } = await supabase
+        .from("checklist_assignments")
+        .upsert(
+          shifts.map((shift) => ({
+            ...buildShiftChecklistAssignment(id, shift, timeZone),
+            organization_id: profile.organization_id,
+            assigned_by: user.id,
+          })),
+          { onConflict: "checklist_id,shift_id", ignoreDuplicates: true }
+        )
+        .select("id");
+
+      if (error) {
+        console.error("Error assigning checklist to shifts:", error);
+        return NextResponse.json({ error: "Failed to assign checklist" }, { status: 500 });
+      }
+      created += (data || []).length;
+    }
+
+    if (userIds.length > 0 && input.due_date) {
+      const { data: existing, error: existingError } = await supabase
+        .from("checklist_assignments")
+        .select("user_id")
+        .eq("checklist_id", id)
+        .eq("due_date", input.due_date)
+        .is("shift_id", null)
+        .in("user_id", userIds);
+
+      if (existingError) {
+        console.error("Error fetching checklist assignments:", existingError);
+        return NextResponse.json({ error: "Failed to assign checklist" }, { status: 500 });
+      }
+
+      const alreadyAssigned = new Set((existing || []).map((row) => row.user_id));
+      const newUserIds = userIds.filter((userId) => !alreadyAssigned.has(userId));
+
+      if (newUserIds.length > 0) {
+        const { error } = await supabase.from("checklist_assignments").insert(
+          newUserIds.map((userId) => ({
+            organization_id: profile.organization_id,
+            checklist_id: id,
+            user_id: userId,
+            due_date: input.due_date as string,
+            location_id: input.location_id,
+            assigned_by: user.id,
+          }))
+        );
+
+        if (error) {
+          console.error("Error assigning checklist:", error);
+          return NextResponse.json({ error: "Failed to assign checklist" }, { status: 500 });
+        }
+        created += newUserIds.length;
+      }
+    }
+
+    await recordAuditLog(
+      createAdminClient(),
+      {
+        organizationId: profile.organization_id,
+        userId: user.id,
+        action: "checklist_assigned",
+        entityType: "checklist",
+        entityId: id,
+        newValues: { ...input, created },
+      },
+      request
+    );
+
+    return NextResponse.json({ success: true, created }, { status: 201 });
+  } catch (error) {
+    console.error("Error in POST /api/checklists/[id]/assignments:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,196 @@
+import { NextResponse } from "next/server";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { recordAuditLog } from "@/lib/audit";
+import {
+  checkChecklistPositions,
+  parseChecklistInput,
+  replaceChecklistPositions,
+  syncPositionChecklistAssignments,
+} from "@/lib/checklists";
+import { createAdminClient } from "@/lib/supabase/admin";
+
+/**
+ * PUT /api/checklists/[id]
+ * Update a checklist's items and positions (admin/manager only). Ticks on
+ * items that are kept carry over; assignments already made stay in place.
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+    const { id } = await params;
+
+    const isAdmin = profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+    if (!isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = parseChecklistInput(body);
+    if (parsed.error !== undefined) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const supabase = await getCachedSupabase();
+
+    const { data: existing, error: fetchError } = await supabase
+      .from("checklists")
+      .select("*")
+      .eq("id", id)
+      .eq("organization_id", profile.organization_id)
+      .eq("is_active", true)
+      .single();
+
+    if (fetchError || !existing) {
+      return NextResponse.json({ error: "Checklist not found" }, { status: 404 });
+    }
+
+    const positionError = await checkChecklistPositions(supabase, profile.organization_id, parsed.data.position_ids);
+    if (positionError) {
+      return NextResponse.json({ error: positionError }, { status: 400 });
+    }
+
+    const { data: checklist, error } = await supabase
+      .from("checklists")
+      .update({
+        name: parsed.data.name,
+        description: parsed.data.description,
+        items: parsed.data.items.map((item) => ({ ...item })),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error updating checklist:", error);
+      return NextResponse.json({ error: "Failed to update checklist" }, { status: 500 });
+    }
+
+    const positions = await replaceChecklistPositions(supabase, checklist, parsed.data.position_ids);
+
+    if (positions.added.length > 0) {
+      try {
+        await syncPositionChecklistAssignments(supabase, {
+          id: profile.organization_id,
+          timezone: profile.organizations?.timezone ?? null,
+        });
+      } catch (syncError) {
+        // The cron job picks the shifts up on its next run
+        console.error("Error assigning checklist to shifts:", syncError);
+      }
+    }
+
+    await recordAuditLog(
+      createAdminClient(),
+      {
+        organizationId: profile.organization_id,
+        userId: user.id,
+        action: "checklist_updated",
+        entityType: "checklist",
+        entityId: id,
+        oldValues: { name: existing.name, items: existing.items },
+        newValues: {
+          name: parsed.data.name,
+          items: parsed.data.items.map((item) => ({ ...item })),
+          positions_added: positions.added,
+          positions_removed: positions.removed,
+        },
+      },
+      request
+    );
+
+    return NextResponse.json({ success: true, data: checklist });
+  } catch (error) {
+    console.error("Error in PUT /api/checklists/[id]:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/checklists/[id]
+ * Archive a checklist (admin/manager only). It stops being assigned and its
+ * unfinished assignments from today on are removed; past assignments stay
+ * in the completion report.
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+    const { id } = await params;
+
+    const isAdmin = profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+    if (!isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = await getCachedSupabase();
+
+    const { data: existing, error: fetchError } = await supabase
+      .from("checklists")
+      .select("id, name, organization_id")
+      .eq("id", id)
+      .eq("organization_id", profile.organization_id)
+      .eq("is_active", true)
+      .single();
+
+    if (fetchError || !existing) {
+      return NextResponse.json({ error: "Checklist not found" }, { status: 404 });
+    }
+
+    const { error } = await supabase
+      .from("checklists")
+      .update({ is_active: false, updated_at: new Date().toISOString() })
+      .eq("id", id);
+
+    if (error) {
+      console.error("Error archiving checklist:", error);
+      return NextResponse.json({ error: "Failed to delete checklist" }, { status: 500 });
+    }
+
+    await replaceChecklistPositions(supabase, existing, []);
+
+    const { error: assignmentsError } = await supabase
+      .from("checklist_assignments")
+      .delete()
+      .eq("checklist_id", id)
+      .is("completed_at", null)
+      .gte("due_date", new Date().toISOString().split("T")[0]);
+
+    if (assignmentsError) {
+      console.error("Error removing checklist assignments:", assignmentsError);
+    }
+
+    await recordAuditLog(
+      createAdminClient(),
+      {
+        organizationId: profile.organization_id,
+        userId: user.id,
+        action: "checklist_deleted",
+        entityType: "checklist",
+        entityId: id,
+        oldValues: { name: existing.name },
+      },
+      request
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error in DELETE /api/checklists/[id]:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,162 @@
+import { NextResponse } from "next/server";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { recordAuditLog } from "@/lib/audit";
+import {
+  getChecklistCompletion,
+  getChecklistItems,
+  getChecklistProgress,
+  setChecklistItemDone,
+} from "@/lib/checklists";
+import { checkManagerScope } from "@/lib/groups";
+import { createAdminClient } from "@/lib/supabase/admin";
+
+/**
+ * PATCH /api/checklists/assignments/[id]
+ * Tick an item off (done: true) or clear it. The assignee and managers can
+ * do this; the assignment is complete once every item is done.
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+    const { id } = await params;
+
+    const body = await request.json().catch(() => ({}));
+    const { item_id, done } = body || {};
+
+    if (typeof item_id !== "string" || !item_id) {
+      return NextResponse.json({ error: "item_id is required" }, { status: 400 });
+    }
+    if (typeof done !== "boolean") {
+      return NextResponse.json({ error: "done must be a boolean" }, { status: 400 });
+    }
+
+    const supabase = await getCachedSupabase();
+
+    const { data: assignment, error: fetchError } = await supabase
+      .from("checklist_assignments")
+      .select("*, checklists (items)")
+      .eq("id", id)
+      .eq("organization_id", profile.organization_id)
+      .single();
+
+    if (fetchError || !assignment) {
+      return NextResponse.json({ error: "Checklist not found" }, { status: 404 });
+    }
+
+    if (assignment.user_id !== user.id) {
+      const isAdmin = profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+      if (!isAdmin) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+
+      const scopeError = await checkManagerScope(supabase, profile, [assignment.user_id]);
+      if (scopeError) {
+        return NextResponse.json({ error: scopeError }, { status: 403 });
+      }
+    }
+
+    const items = getChecklistItems(assignment.checklists?.items);
+    if (!items.some((item) => item.id === item_id)) {
+      return NextResponse.json({ error: "Item not found" }, { status: 404 });
+    }
+
+    const progress = setChecklistItemDone(getChecklistProgress(assignment.progress), item_id, done, user.id);
+    const { complete } = getChecklistCompletion(items, progress);
+
+    const { data: updated, error } = await supabase
+      .from("checklist_assignments")
+      .update({
+        progress,
+        completed_at: complete ? assignment.completed_at || new Date().toISOString() : null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error updating checklist progress:", error);
+      return NextResponse.json({ error: "Failed to update checklist" }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, data: updated });
+  } catch (error) {
+    console.error("Error in PATCH /api/checklists/assignments/[id]:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/checklists/assignments/[id]
+ * Take a checklist back from an employee (admin/manager only)
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+    const { id } = await params;
+
+    const isAdmin = profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+    if (!isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = await getCachedSupabase();
+
+    const { data: assignment, error: fetchError } = await supabase
+      .from("checklist_assignments")
+      .select("id, checklist_id, user_id, shift_id, due_date")
+      .eq("id", id)
+      .eq("organization_id", profile.organization_id)
+      .single();
+
+    if (fetchError || !assignment) {
+      return NextResponse.json({ error: "Checklist not found" }, { status: 404 });
+    }
+
+    const scopeError = await checkManagerScope(supabase, profile, [assignment.user_id]);
+    if (scopeError) {
+      return NextResponse.json({ error: scopeError }, { status: 403 });
+    }
+
+    const { error } = await supabase.from("checklist_assignments").delete().eq("id", id);
+
+    if (error) {
+      console.error("Error deleting checklist assignment:", error);
+      return NextResponse.json({ error: "Failed to remove checklist" }, { status: 500 });
+    }
+
+    await recordAuditLog(
+      createAdminClient(),
+      {
+        organizationId: profile.organization_id,
+        userId: user.id,
+        action: "checklist_unassigned",
+        entityType: "checklist",
+        entityId: assignment.checklist_id,
+        oldValues: { ...assignment },
+      },
+      request
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error in DELETE /api/checklists/assignments/[id]:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
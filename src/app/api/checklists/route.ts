@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { recordAuditLog } from "@/lib/audit";
+import {
+  checkChecklistPositions,
+  parseChecklistInput,
+  replaceChecklistPositions,
+  syncPositionChecklistAssignments,
+} from "@/lib/checklists";
+import { createAdminClient } from "@/lib/supabase/admin";
+
+/**
+ * POST /api/checklists
+ * Create a checklist (admin/manager only). Upcoming published shifts for
+ * its positions are given the checklist straight away.
+ */
+export async function POST(request: Request) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+
+    const isAdmin = profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+    if (!isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = parseChecklistInput(body);
+    if (parsed.error !== undefined) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const supabase = await getCachedSupabase();
+
+    const positionError = await checkChecklistPositions(supabase, profile.organization_id, parsed.data.position_ids);
+    if (positionError) {
+      return NextResponse.json({ error: positionError }, { status: 400 });
+    }
+
+    const { data: checklist, error } = await supabase
+      .from("checklists")
+      .insert({
+        organization_id: profile.organization_id,
+        name: parsed.data.name,
+        description: parsed.data.description,
+        items: parsed.data.items.map((item) => ({ ...item })),
+        is_active: true,
+        created_by: user.id,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error creating checklist:", error);
+      return NextResponse.json({ error: "Failed to create checklist" }, { status: 500 });
+    }
+
+    await replaceChecklistPositions(supabase, checklist, parsed.data.position_ids);
+
+    try {
+      await syncPositionChecklistAssignments(supabase, {
+        id: profile.organization_id,
+        timezone: profile.organizations?.timezone ?? null,
+      });
+    } catch (syncError) {
+      // The cron job picks the shifts up on its next run
+      console.error("Error assigning checklist to shifts:", syncError);
+    }
+
+    await recordAuditLog(
+      createAdminClient(),
+      {
+        organizationId: profile.organization_id,
+        userId: user.id,
+        action: "checklist_created",
+        entityType: "checklist",
+        entityId: checklist.id,
+        newValues: {
+          name: parsed.data.name,
+          items: parsed.data.items.length,
+          position_ids: parsed.data.position_ids,
+        },
+      },
+      request
+    );
+
+    return NextResponse.json({ success: true, data: checklist }, { status: 201 });
+  } catch (error) {
+    console.error("Error in POST /api/checklists:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
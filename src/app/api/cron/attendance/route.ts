@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { subDays } from "date-fns";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { notifyNoShows, syncAttendance } from "@/lib/attendance";
+
+/**
+ * GET /api/cron/attendance
+ * Scheduled job: compare the last two days of punches with published shifts
+ * in every organization and alert managers to new no-shows. Run it every
+ * few minutes so alerts go out soon after the no-show grace period ends.
+ * Requires `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: Request) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: organizations, error } = await supabase
+      .from("organizations")
+      .select("id, name, settings, timezone");
+
+    if (error) {
+      console.error("Error fetching organizations:", error);
+      return NextResponse.json({ error: "Failed to fetch organizations" }, { status: 500 });
+    }
+
+    const now = new Date();
+    const results = [];
+    for (const organization of organizations || []) {
+      try {
+        const result = await syncAttendance(supabase, organization, {
+          start: subDays(now, 2),
+          end: now,
+          now,
+        });
+        await notifyNoShows(supabase, organization, result.created);
+
+        results.push({
+          organization_id: organization.id,
+          created: result.created.length,
+          updated: result.updated,
+          removed: result.removed,
+          linked: result.linked,
+        });
+      } catch (orgError) {
+        console.error(`Error syncing attendance for organization ${organization.id}:`, orgError);
+        results.push({
+          organization_id: organization.id,
+          error: orgError instanceof Error ? orgError.message : "Unknown error",
+        });
+      }
+    }
+
+    return NextResponse.json({ success: true, organizations: results });
+  } catch (error) {
+    console.error("Error in GET /api/cron/attendance:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
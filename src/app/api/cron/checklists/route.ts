@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { syncPositionChecklistAssignments } from "@/lib/checklists";
+
+/**
+ * GET /api/cron/checklists
+ * Scheduled job: give upcoming published shifts in every organization the
+ * checklists assigned to their position, and follow shifts that were given
+ * to someone else. Run it hourly so newly published shifts pick up their
+ * checklists before they start.
+ * Requires `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: Request) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: organizations, error } = await supabase
+      .from("organizations")
+      .select("id, timezone");
+
+    if (error) {
+      console.error("Error fetching organizations:", error);
+      return NextResponse.json({ error: "Failed to fetch organizations" }, { status: 500 });
+    }
+
+    const results = [];
+    for (const organization of organizations || []) {
+      try {
+        const result = await syncPositionChecklistAssignments(supabase, organization);
+        results.push({ organization_id: organization.id, ...result });
+      } catch (orgError) {
+        console.error(`Error assigning checklists for organization ${organization.id}:`, orgError);
+        results.push({
+          organization_id: organization.id,
+          error: orgError instanceof Error ? orgError.message : "Unknown error",
+        });
+      }
+    }
+
+    return NextResponse.json({ success: true, organizations: results });
+  } catch (error) {
+    console.error("Error in GET /api/cron/checklists:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
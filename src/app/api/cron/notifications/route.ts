@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { dispatchNotificationDeliveries } from "@/lib/notification-delivery";
+
+/**
+ * GET /api/cron/notifications
+ * Scheduled job: send push and email notifications that are due, once a
+ * recipient's quiet hours are over, and each user's daily digest email. Run
+ * it every few minutes so notifications and digests go out on time.
+ * Requires `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: Request) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const supabase = createAdminClient();
+
+    const result = await dispatchNotificationDeliveries(supabase, {
+      appUrl: new URL(request.url).origin,
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Error in GET /api/cron/notifications:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
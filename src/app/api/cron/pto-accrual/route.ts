@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { runPTOAccrual } from "@/lib/pto-accrual";
+import { getDateKeyInTimeZone, resolveTimeZone } from "@/lib/timezone";
+
+/**
+ * GET /api/cron/pto-accrual
+ * Scheduled job: credit PTO accruals and carry balances into the new year in
+ * every organization. Safe to run daily; periods already credited are
+ * skipped. Requires `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: Request) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: organizations, error } = await supabase
+      .from("organizations")
+      .select("id, name, settings, timezone");
+
+    if (error) {
+      console.error("Error fetching organizations:", error);
+      return NextResponse.json({ error: "Failed to fetch organizations" }, { status: 500 });
+    }
+
+    const results = [];
+    for (const organization of organizations || []) {
+      const asOf = getDateKeyInTimeZone(new Date(), resolveTimeZone(organization.timezone));
+
+      try {
+        const summary = await runPTOAccrual(supabase, organization, asOf);
+        results.push({ organization_id: organization.id, ...summary });
+      } catch (orgError) {
+        console.error(`Error running PTO accrual for organization ${organization.id}:`, orgError);
+        results.push({
+          organization_id: organization.id,
+          asOf,
+          error: orgError instanceof Error ? orgError.message : "Unknown error",
+        });
+      }
+    }
+
+    return NextResponse.json({ success: true, organizations: results });
+  } catch (error) {
+    console.error("Error in GET /api/cron/pto-accrual:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
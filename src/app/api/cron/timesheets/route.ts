@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getPayPeriodForDate, resolvePayPeriodSettings } from "@/lib/pay-periods";
+import { generateTimesheetsForPeriod } from "@/lib/timesheet-generation";
+import { getDateKeyInTimeZone, resolveTimeZone } from "@/lib/timezone";
+
+/**
+ * GET /api/cron/timesheets
+ * Scheduled job: generate draft timesheets for the current pay period in
+ * every organization. Requires `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: Request) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: organizations, error } = await supabase
+      .from("organizations")
+      .select("id, name, settings, timezone");
+
+    if (error) {
+      console.error("Error fetching organizations:", error);
+      return NextResponse.json({ error: "Failed to fetch organizations" }, { status: 500 });
+    }
+
+    const results = [];
+    for (const organization of organizations || []) {
+      // Each organization's "current" period depends on its own time zone
+      const period = getPayPeriodForDate(
+        getDateKeyInTimeZone(new Date(), resolveTimeZone(organization.timezone)),
+        resolvePayPeriodSettings(organization.settings)
+      );
+
+      try {
+        const summary = await generateTimesheetsForPeriod(supabase, organization, period);
+        results.push({ organization_id: organization.id, ...summary });
+      } catch (orgError) {
+        console.error(`Error generating timesheets for organization ${organization.id}:`, orgError);
+        results.push({
+          organization_id: organization.id,
+          period,
+          error: orgError instanceof Error ? orgError.message : "Unknown error",
+        });
+      }
+    }
+
+    return NextResponse.json({ success: true, organizations: results });
+  } catch (error) {
+    console.error("Error in GET /api/cron/timesheets:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,195 @@
+import { NextResponse } from "next/server";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { recordAuditLog } from "@/lib/audit";
+import {
+  GROUP_SELECT,
+  checkGroupReferences,
+  getManagedUserIds,
+  parseGroupInput,
+  replaceGroupMembers,
+  replaceManagerScopes,
+} from "@/lib/groups";
+import { createAdminClient } from "@/lib/supabase/admin";
+
+/**
+ * PUT /api/groups/[id]
+ * Update a group's details and members (admin/manager only). manager_ids is
+ * left unchanged when omitted and can only be set by admins and owners.
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+    const { id } = await params;
+
+    const isAdmin = profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+    if (!isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = parseGroupInput(body);
+    if (parsed.error !== undefined) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const updateScopes = body.manager_ids !== undefined;
+
+    const supabase = await getCachedSupabase();
+
+    if (profile.role === "manager") {
+      if (updateScopes || (await getManagedUserIds(supabase, profile))) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from("employee_groups")
+      .select(GROUP_SELECT)
+      .eq("id", id)
+      .eq("organization_id", profile.organization_id)
+      .single();
+
+    if (fetchError || !existing) {
+      return NextResponse.json({ error: "Group not found" }, { status: 404 });
+    }
+
+    const referenceError = await checkGroupReferences(supabase, profile.organization_id, parsed.data);
+    if (referenceError) {
+      return NextResponse.json({ error: referenceError }, { status: 400 });
+    }
+
+    const { data: group, error } = await supabase
+      .from("employee_groups")
+      .update({
+        name: parsed.data.name,
+        description: parsed.data.description,
+        color: parsed.data.color,
+        lead_id: parsed.data.lead_id,
+      })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === "23505") {
+        return NextResponse.json({ error: "A group with this name already exists" }, { status: 409 });
+      }
+      console.error("Error updating group:", error);
+      return NextResponse.json({ error: "Failed to update group" }, { status: 500 });
+    }
+
+    const adminClient = createAdminClient();
+    const members = await replaceGroupMembers(adminClient, group, parsed.data.member_ids);
+    const scopes = updateScopes
+      ? await replaceManagerScopes(adminClient, group, parsed.data.manager_ids)
+      : null;
+
+    await recordAuditLog(
+      adminClient,
+      {
+        organizationId: profile.organization_id,
+        userId: user.id,
+        action: "group_updated",
+        entityType: "employee_group",
+        entityId: id,
+        oldValues: {
+          name: existing.name,
+          description: existing.description,
+          color: existing.color,
+          lead_id: existing.lead_id,
+        },
+        newValues: { ...parsed.data },
+        metadata: {
+          members_added: members.added,
+          members_removed: members.removed,
+          managers_added: scopes?.added,
+          managers_removed: scopes?.removed,
+        },
+      },
+      request
+    );
+
+    return NextResponse.json({ success: true, data: group });
+  } catch (error) {
+    console.error("Error in PUT /api/groups/[id]:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/groups/[id]
+ * Delete a group (admin/manager only). Tasks assigned to the group keep
+ * their individual assignees; managers limited to it lose that scope.
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+    const { id } = await params;
+
+    const isAdmin = profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+    if (!isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = await getCachedSupabase();
+
+    if (profile.role === "manager" && (await getManagedUserIds(supabase, profile))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from("employee_groups")
+      .select(GROUP_SELECT)
+      .eq("id", id)
+      .eq("organization_id", profile.organization_id)
+      .single();
+
+    if (fetchError || !existing) {
+      return NextResponse.json({ error: "Group not found" }, { status: 404 });
+    }
+
+    const { error } = await supabase.from("employee_groups").delete().eq("id", id);
+
+    if (error) {
+      console.error("Error deleting group:", error);
+      return NextResponse.json({ error: "Failed to delete group" }, { status: 500 });
+    }
+
+    await recordAuditLog(
+      createAdminClient(),
+      {
+        organizationId: profile.organization_id,
+        userId: user.id,
+        action: "group_deleted",
+        entityType: "employee_group",
+        entityId: id,
+        oldValues: {
+          name: existing.name,
+          member_ids: existing.employee_group_members.map((member) => member.user_id),
+          manager_ids: existing.manager_group_scopes.map((scope) => scope.manager_id),
+        },
+      },
+      request
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error in DELETE /api/groups/[id]:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
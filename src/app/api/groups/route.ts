@@ -0,0 +1,127 @@
+import { NextResponse } from "next/server";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { recordAuditLog } from "@/lib/audit";
+import {
+  GROUP_SELECT,
+  checkGroupReferences,
+  getManagedUserIds,
+  parseGroupInput,
+  replaceGroupMembers,
+  replaceManagerScopes,
+} from "@/lib/groups";
+import { createAdminClient } from "@/lib/supabase/admin";
+
+/**
+ * GET /api/groups
+ * List the organization's employee groups with their members
+ */
+export async function GET() {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { profile } = authData;
+    const supabase = await getCachedSupabase();
+
+    const { data: groups, error } = await supabase
+      .from("employee_groups")
+      .select(GROUP_SELECT)
+      .eq("organization_id", profile.organization_id)
+      .order("name");
+
+    if (error) {
+      console.error("Error fetching groups:", error);
+      return NextResponse.json({ error: "Failed to fetch groups" }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, data: groups });
+  } catch (error) {
+    console.error("Error in GET /api/groups:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/groups
+ * Create a group (admin/manager only). Managers limited to groups cannot
+ * create groups, and only admins and owners can set manager_ids.
+ */
+export async function POST(request: Request) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+
+    const isAdmin = profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+    if (!isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = parseGroupInput(body);
+    if (parsed.error !== undefined) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const supabase = await getCachedSupabase();
+
+    if (profile.role === "manager") {
+      if (parsed.data.manager_ids.length > 0 || (await getManagedUserIds(supabase, profile))) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+    }
+
+    const referenceError = await checkGroupReferences(supabase, profile.organization_id, parsed.data);
+    if (referenceError) {
+      return NextResponse.json({ error: referenceError }, { status: 400 });
+    }
+
+    const { data: group, error } = await supabase
+      .from("employee_groups")
+      .insert({
+        organization_id: profile.organization_id,
+        name: parsed.data.name,
+        description: parsed.data.description,
+        color: parsed.data.color,
+        lead_id: parsed.data.lead_id,
+        created_by: user.id,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === "23505") {
+        return NextResponse.json({ error: "A group with this name already exists" }, { status: 409 });
+      }
+      console.error("Error creating group:", error);
+      return NextResponse.json({ error: "Failed to create group" }, { status: 500 });
+    }
+
+    const adminClient = createAdminClient();
+    await replaceGroupMembers(adminClient, group, parsed.data.member_ids);
+    await replaceManagerScopes(adminClient, group, parsed.data.manager_ids);
+
+    await recordAuditLog(
+      adminClient,
+      {
+        organizationId: profile.organization_id,
+        userId: user.id,
+        action: "group_created",
+        entityType: "employee_group",
+        entityId: group.id,
+        newValues: { ...parsed.data },
+      },
+      request
+    );
+
+    return NextResponse.json({ success: true, data: group }, { status: 201 });
+  } catch (error) {
+    console.error("Error in POST /api/groups:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { buildCalendar, getCalendarFeedEvents } from "@/lib/calendar-feed";
+import { createAdminClient } from "@/lib/supabase/admin";
+
+/**
+ * GET /api/ical/[token]
+ * iCalendar feed for calendar apps to subscribe to. The secret token in the
+ * URL is the only credential (calendar clients can't sign in), so an unknown
+ * token gets a 404. A trailing ".ics" is accepted.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const secret = token.replace(/\.ics$/, "");
+
+    if (!/^[0-9a-f]{64}$/.test(secret)) {
+      return NextResponse.json({ error: "Calendar feed not found" }, { status: 404 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: feed, error: feedError } = await supabase
+      .from("calendar_feeds")
+      .select(`
+        id, user_id, include_team,
+        profiles!calendar_feeds_user_id_fkey (
+          organization_id, first_name, last_name, display_name, role, status,
+          organizations!profiles_organization_id_fkey (name)
+        )
+      `)
+      .eq("token", secret)
+      .maybeSingle();
+
+    if (feedError) {
+      console.error("Error fetching calendar feed:", feedError);
+      return NextResponse.json({ error: "Failed to fetch calendar feed" }, { status: 500 });
+    }
+
+    if (!feed || !feed.profiles || feed.profiles.status !== "active") {
+      return NextResponse.json({ error: "Calendar feed not found" }, { status: 404 });
+    }
+
+    // Team events follow the user's current role, not the role they had
+    // when they turned them on
+    const role = feed.profiles.role;
+    const isManager = role === "admin" || role === "owner" || role === "manager";
+
+    // Scope everything to the owner's organization rather than the feed row's
+    const events = await getCalendarFeedEvents(supabase, {
+      organizationId: feed.profiles.organization_id,
+      userId: feed.user_id,
+      includeTeam: feed.include_team && isManager,
+    });
+
+    await supabase
+      .from("calendar_feeds")
+      .update({ last_accessed_at: new Date().toISOString() })
+      .eq("id", feed.id);
+
+    const calendar = buildCalendar({
+      name: `${feed.profiles.organizations?.name || "Work"} Schedule`,
+      events,
+    });
+
+    return new NextResponse(calendar, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="schedule.ics"',
+        "Cache-Control": "private, max-age=900",
+      },
+    });
+  } catch (error) {
+    console.error("Error in GET /api/ical/[token]:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
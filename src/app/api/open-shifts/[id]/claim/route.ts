@@ -0,0 +1,223 @@
+import { NextResponse } from "next/server";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { createOpenShiftNotification } from "@/lib/notifications";
+import {
+  assignOpenShift,
+  fetchEligibilityMember,
+  isEligibleForOpenShift,
+  resolveOpenShiftSettings,
+} from "@/lib/open-shifts";
+import { createAdminClient } from "@/lib/supabase/admin";
+
+const MANAGER_ROLES = ["admin", "owner", "manager"];
+
+/**
+ * POST /api/open-shifts/[id]/claim
+ * Claim an open shift. Depending on organization settings the claim is
+ * either assigned immediately or left pending for manager approval.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+    const { id: shiftId } = await params;
+    const body = await request.json().catch(() => ({}));
+
+    const settings = resolveOpenShiftSettings(profile.organizations?.settings);
+    if (!settings.enabled) {
+      return NextResponse.json({ error: "Open shifts are disabled" }, { status: 403 });
+    }
+
+    const supabase = await getCachedSupabase();
+
+    const { data: shift, error: shiftError } = await supabase
+      .from("shifts")
+      .select("id, user_id, start_time, position_id, location_id, is_published")
+      .eq("id", shiftId)
+      .eq("organization_id", profile.organization_id)
+      .single();
+
+    if (shiftError || !shift) {
+      return NextResponse.json({ error: "Shift not found" }, { status: 404 });
+    }
+
+    if (shift.user_id || !shift.is_published) {
+      return NextResponse.json({ error: "Shift is not open" }, { status: 400 });
+    }
+
+    if (new Date(shift.start_time) <= new Date()) {
+      return NextResponse.json({ error: "Shift has already started" }, { status: 400 });
+    }
+
+    const member = await fetchEligibilityMember(supabase, user.id);
+    if (!member || !isEligibleForOpenShift(shift, member)) {
+      return NextResponse.json(
+        { error: "You are not eligible for this shift's position or location" },
+        { status: 403 }
+      );
+    }
+
+    // One claim per employee per shift; a cancelled claim can be reopened
+    const { data: existingClaim } = await supabase
+      .from("open_shift_claims")
+      .select("id, status")
+      .eq("shift_id", shiftId)
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (existingClaim && existingClaim.status !== "cancelled") {
+      return NextResponse.json(
+        { error: "You have already claimed this shift" },
+        { status: 409 }
+      );
+    }
+
+    // Employees can only update pending claims, so reopening runs as the
+    // service role now that eligibility has been checked
+    const claimQuery = existingClaim
+      ? createAdminClient()
+          .from("open_shift_claims")
+          .update({ status: "pending", note: body.note || null })
+          .eq("id", existingClaim.id)
+          .eq("user_id", user.id)
+          .eq("status", "cancelled")
+      : supabase.from("open_shift_claims").insert({
+          organization_id: profile.organization_id,
+          shift_id: shiftId,
+          user_id: user.id,
+          note: body.note || null,
+        });
+
+    const { data: claim, error: claimError } = await claimQuery.select().single();
+
+    if (claimError || !claim) {
+      console.error("Error creating open shift claim:", claimError);
+      return NextResponse.json({ error: "Failed to claim shift" }, { status: 500 });
+    }
+
+    const claimantName = `${profile.first_name} ${profile.last_name}`.trim();
+
+    if (!settings.requireApproval) {
+      // Employees cannot update shifts directly, so assignment runs as the service role
+      const adminClient = createAdminClient();
+      const assigned = await assignOpenShift(adminClient, shiftId, user.id);
+      const reviewedAt = new Date().toISOString();
+
+      if (!assigned) {
+        await adminClient
+          .from("open_shift_claims")
+          .update({ status: "rejected", reviewed_at: reviewedAt })
+          .eq("id", claim.id);
+        return NextResponse.json(
+          { error: "This shift has already been taken" },
+          { status: 409 }
+        );
+      }
+
+      const { data: approvedClaim } = await adminClient
+        .from("open_shift_claims")
+        .update({ status: "approved", reviewed_at: reviewedAt })
+        .eq("id", claim.id)
+        .select()
+        .single();
+
+      // Close out anyone else still waiting on this shift
+      const { data: otherClaims } = await adminClient
+        .from("open_shift_claims")
+        .update({ status: "rejected", reviewed_at: reviewedAt })
+        .eq("shift_id", shiftId)
+        .eq("status", "pending")
+        .select("id, user_id");
+
+      for (const other of otherClaims || []) {
+        await createOpenShiftNotification(adminClient, {
+          userId: other.user_id,
+          organizationId: profile.organization_id,
+          type: "claim_rejected",
+          shiftId,
+          shiftDate: shift.start_time,
+          claimId: other.id,
+        });
+      }
+
+      return NextResponse.json({ success: true, data: approvedClaim || claim, assigned: true });
+    }
+
+    // Let managers know a claim is waiting for them
+    const { data: managers } = await supabase
+      .from("profiles")
+      .select("id")
+      .eq("organization_id", profile.organization_id)
+      .eq("status", "active")
+      .in("role", MANAGER_ROLES);
+
+    for (const manager of managers || []) {
+      if (manager.id === user.id) continue;
+      await createOpenShiftNotification(supabase, {
+        userId: manager.id,
+        organizationId: profile.organization_id,
+        type: "claim_pending",
+        shiftId,
+        shiftDate: shift.start_time,
+        claimId: claim.id,
+        claimantName,
+      });
+    }
+
+    return NextResponse.json({ success: true, data: claim, assigned: false }, { status: 201 });
+  } catch (error) {
+    console.error("Error in POST /api/open-shifts/[id]/claim:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/open-shifts/[id]/claim
+ * Withdraw your own pending claim on an open shift
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+    const { id: shiftId } = await params;
+    const supabase = await getCachedSupabase();
+
+    const { data: claim, error } = await supabase
+      .from("open_shift_claims")
+      .update({ status: "cancelled" })
+      .eq("shift_id", shiftId)
+      .eq("user_id", user.id)
+      .eq("organization_id", profile.organization_id)
+      .eq("status", "pending")
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error cancelling open shift claim:", error);
+      return NextResponse.json({ error: "Failed to cancel claim" }, { status: 500 });
+    }
+
+    if (!claim) {
+      return NextResponse.json({ error: "No pending claim found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: claim });
+  } catch (error) {
+    console.error("Error in DELETE /api/open-shifts/[id]/claim:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
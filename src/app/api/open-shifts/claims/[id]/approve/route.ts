@@ -0,0 +1,120 @@
+import { NextResponse } from "next/server";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { checkManagerScope } from "@/lib/groups";
+import { createOpenShiftNotification } from "@/lib/notifications";
+import { assignOpenShift, fetchEligibilityMember, isEligibleForOpenShift } from "@/lib/open-shifts";
+
+/**
+ * PUT /api/open-shifts/claims/[id]/approve
+ * Approve a claim and assign the open shift to the claimant (admin/manager only).
+ * The claimant must still be eligible for the shift's position and location.
+ * Other pending claims on the same shift are declined.
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+    const { id } = await params;
+
+    const isAdmin = profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+    if (!isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = await getCachedSupabase();
+
+    const { data: claim, error: fetchError } = await supabase
+      .from("open_shift_claims")
+      .select("*, shifts (id, start_time, position_id, location_id)")
+      .eq("id", id)
+      .eq("organization_id", profile.organization_id)
+      .single();
+
+    if (fetchError || !claim || !claim.shifts) {
+      return NextResponse.json({ error: "Claim not found" }, { status: 404 });
+    }
+
+    const scopeError = await checkManagerScope(supabase, profile, [claim.user_id]);
+    if (scopeError) {
+      return NextResponse.json({ error: scopeError }, { status: 403 });
+    }
+
+    if (claim.status !== "pending") {
+      return NextResponse.json(
+        { error: "Can only approve pending claims" },
+        { status: 400 }
+      );
+    }
+
+    // Positions and locations may have changed since the claim was made
+    const member = await fetchEligibilityMember(supabase, claim.user_id);
+    if (!member || !isEligibleForOpenShift(claim.shifts, member)) {
+      return NextResponse.json(
+        { error: "The employee is no longer eligible for this shift's position or location" },
+        { status: 403 }
+      );
+    }
+
+    const assigned = await assignOpenShift(supabase, claim.shift_id, claim.user_id);
+    if (!assigned) {
+      return NextResponse.json(
+        { error: "This shift has already been assigned" },
+        { status: 409 }
+      );
+    }
+
+    const reviewedAt = new Date().toISOString();
+    const shiftDate = claim.shifts?.start_time || reviewedAt;
+
+    const { data: approvedClaim, error: updateError } = await supabase
+      .from("open_shift_claims")
+      .update({ status: "approved", reviewed_by: user.id, reviewed_at: reviewedAt })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (updateError) {
+      console.error("Error approving open shift claim:", updateError);
+      return NextResponse.json({ error: "Failed to approve claim" }, { status: 500 });
+    }
+
+    await createOpenShiftNotification(supabase, {
+      userId: claim.user_id,
+      organizationId: profile.organization_id,
+      type: "claim_approved",
+      shiftId: claim.shift_id,
+      shiftDate,
+      claimId: id,
+    });
+
+    const { data: otherClaims } = await supabase
+      .from("open_shift_claims")
+      .update({ status: "rejected", reviewed_by: user.id, reviewed_at: reviewedAt })
+      .eq("shift_id", claim.shift_id)
+      .eq("status", "pending")
+      .select("id, user_id");
+
+    for (const other of otherClaims || []) {
+      await createOpenShiftNotification(supabase, {
+        userId: other.user_id,
+        organizationId: profile.organization_id,
+        type: "claim_rejected",
+        shiftId: claim.shift_id,
+        shiftDate,
+        claimId: other.id,
+      });
+    }
+
+    return NextResponse.json({ success: true, data: approvedClaim });
+  } catch (error) {
+    console.error("Error in PUT /api/open-shifts/claims/[id]/approve:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { createOpenShiftNotification } from "@/lib/notifications";
+
+/**
+ * PUT /api/open-shifts/claims/[id]/reject
+ * Decline a claim on an open shift (admin/manager only)
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+    const { id } = await params;
+
+    const isAdmin = profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+    if (!isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = await getCachedSupabase();
+
+    const { data: claim, error: fetchError } = await supabase
+      .from("open_shift_claims")
+      .select("*, shifts (id, start_time)")
+      .eq("id", id)
+      .eq("organization_id", profile.organization_id)
+      .single();
+
+    if (fetchError || !claim) {
+      return NextResponse.json({ error: "Claim not found" }, { status: 404 });
+    }
+
+    if (claim.status !== "pending") {
+      return NextResponse.json(
+        { error: "Can only reject pending claims" },
+        { status: 400 }
+      );
+    }
+
+    const { data: rejectedClaim, error: updateError } = await supabase
+      .from("open_shift_claims")
+      .update({
+        status: "rejected",
+        reviewed_by: user.id,
+        reviewed_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (updateError) {
+      console.error("Error rejecting open shift claim:", updateError);
+      return NextResponse.json({ error: "Failed to reject claim" }, { status: 500 });
+    }
+
+    await createOpenShiftNotification(supabase, {
+      userId: claim.user_id,
+      organizationId: profile.organization_id,
+      type: "claim_rejected",
+      shiftId: claim.shift_id,
+      shiftDate: claim.shifts?.start_time || claim.created_at || new Date().toISOString(),
+      claimId: id,
+    });
+
+    return NextResponse.json({ success: true, data: rejectedClaim });
+  } catch (error) {
+    console.error("Error in PUT /api/open-shifts/claims/[id]/reject:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
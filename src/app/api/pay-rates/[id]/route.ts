@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server";
+import { getAuthData } from "@/lib/auth";
+import { recordAuditLog } from "@/lib/audit";
+import { checkManagerScope } from "@/lib/groups";
+import { syncCurrentHourlyRate } from "@/lib/labor-cost";
+import { createAdminClient } from "@/lib/supabase/admin";
+
+/**
+ * DELETE /api/pay-rates/[id]
+ * Remove a rate from an employee's history (admin/manager only). The
+ * previous rate then applies until the next one starts.
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+    const { id } = await params;
+
+    const isAdmin = profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+    if (!isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const organization = profile.organizations;
+    if (!organization) {
+      return NextResponse.json({ error: "Organization not found" }, { status: 404 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: existing, error: fetchError } = await supabase
+      .from("employee_pay_rates")
+      .select("*")
+      .eq("id", id)
+      .eq("organization_id", profile.organization_id)
+      .single();
+
+    if (fetchError || !existing) {
+      return NextResponse.json({ error: "Pay rate not found" }, { status: 404 });
+    }
+
+    const scopeError = await checkManagerScope(supabase, profile, [existing.user_id]);
+    if (scopeError) {
+      return NextResponse.json({ error: scopeError }, { status: 403 });
+    }
+
+    const { error } = await supabase.from("employee_pay_rates").delete().eq("id", id);
+
+    if (error) {
+      console.error("Error deleting pay rate:", error);
+      return NextResponse.json({ error: "Failed to delete pay rate" }, { status: 500 });
+    }
+
+    const currentRate = await syncCurrentHourlyRate(supabase, organization, existing.user_id);
+
+    await recordAuditLog(
+      supabase,
+      {
+        organizationId: profile.organization_id,
+        userId: user.id,
+        action: "pay_rate_deleted",
+        entityType: "pay_rate",
+        entityId: id,
+        oldValues: {
+          user_id: existing.user_id,
+          hourly_rate: existing.hourly_rate,
+          effective_from: existing.effective_from,
+        },
+      },
+      request
+    );
+
+    return NextResponse.json({ success: true, current_rate: currentRate });
+  } catch (error) {
+    console.error("Error in DELETE /api/pay-rates/[id]:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,111 @@
+import { NextResponse } from "next/server";
+import { getAuthData } from "@/lib/auth";
+import { recordAuditLog } from "@/lib/audit";
+import { checkManagerScope } from "@/lib/groups";
+import { syncCurrentHourlyRate } from "@/lib/labor-cost";
+import { createAdminClient } from "@/lib/supabase/admin";
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * POST /api/pay-rates
+ * Give an employee a new hourly rate from effective_from (admin/manager
+ * only). A rate already starting that day is replaced. Shifts before
+ * effective_from keep the rate they had.
+ */
+export async function POST(request: Request) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+
+    const isAdmin = profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+    if (!isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const organization = profile.organizations;
+    if (!organization) {
+      return NextResponse.json({ error: "Organization not found" }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { user_id, hourly_rate, effective_from, note } = body || {};
+
+    if (typeof user_id !== "string" || !user_id) {
+      return NextResponse.json({ error: "user_id is required" }, { status: 400 });
+    }
+    if (typeof hourly_rate !== "number" || !Number.isFinite(hourly_rate) || hourly_rate < 0) {
+      return NextResponse.json({ error: "hourly_rate must be a non-negative number" }, { status: 400 });
+    }
+    if (typeof effective_from !== "string" || !DATE_KEY.test(effective_from)) {
+      return NextResponse.json({ error: "effective_from must be a date (yyyy-MM-dd)" }, { status: 400 });
+    }
+    if (note !== undefined && note !== null && typeof note !== "string") {
+      return NextResponse.json({ error: "note must be a string or null" }, { status: 400 });
+    }
+
+    // Rates are written with the service role; access is checked here
+    const supabase = createAdminClient();
+
+    const { data: employee } = await supabase
+      .from("profiles")
+      .select("id")
+      .eq("id", user_id)
+      .eq("organization_id", profile.organization_id)
+      .single();
+
+    if (!employee) {
+      return NextResponse.json({ error: "Employee not found" }, { status: 404 });
+    }
+
+    const scopeError = await checkManagerScope(supabase, profile, [user_id]);
+    if (scopeError) {
+      return NextResponse.json({ error: scopeError }, { status: 403 });
+    }
+
+    const { data: payRate, error } = await supabase
+      .from("employee_pay_rates")
+      .upsert(
+        {
+          organization_id: profile.organization_id,
+          user_id,
+          hourly_rate: Math.round(hourly_rate * 100) / 100,
+          effective_from,
+          note: note?.trim() || null,
+          created_by: user.id,
+        },
+        { onConflict: "user_id,effective_from" }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error saving pay rate:", error);
+      return NextResponse.json({ error: "Failed to save pay rate" }, { status: 500 });
+    }
+
+    const currentRate = await syncCurrentHourlyRate(supabase, organization, user_id);
+
+    await recordAuditLog(
+      supabase,
+      {
+        organizationId: profile.organization_id,
+        userId: user.id,
+        action: "pay_rate_set",
+        entityType: "pay_rate",
+        entityId: payRate.id,
+        newValues: { user_id, hourly_rate: payRate.hourly_rate, effective_from },
+      },
+      request
+    );
+
+    return NextResponse.json({ success: true, data: payRate, current_rate: currentRate }, { status: 201 });
+  } catch (error) {
+    console.error("Error in POST /api/pay-rates:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { runPTOAccrual } from "@/lib/pto-accrual";
+import { getDateKeyInTimeZone, resolveTimeZone } from "@/lib/timezone";
+
+/**
+ * POST /api/pto/accrual/run
+ * Credit PTO accruals and year-end carryover up to a date (admin only).
+ * Defaults to today in the organization's time zone.
+ */
+export async function POST(request: Request) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { profile } = authData;
+
+    // Balances can only be written by admins and owners
+    const isAdmin = profile.role === "admin" || profile.role === "owner";
+    if (!isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const organization = profile.organizations;
+    if (!organization) {
+      return NextResponse.json({ error: "Organization not found" }, { status: 404 });
+    }
+
+    const today = getDateKeyInTimeZone(new Date(), resolveTimeZone(organization.timezone));
+    const body = await request.json().catch(() => ({}));
+    const asOf: string = body.as_of || today;
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+      return NextResponse.json({ error: "as_of must be a date (yyyy-MM-dd)" }, { status: 400 });
+    }
+    if (asOf > today) {
+      return NextResponse.json({ error: "as_of cannot be in the future" }, { status: 400 });
+    }
+
+    const supabase = await getCachedSupabase();
+    const summary = await runPTOAccrual(supabase, organization, asOf);
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error("Error in POST /api/pto/accrual/run:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { recordPTOTransactions } from "@/lib/pto-ledger";
+
+/**
+ * POST /api/pto/balance/[id]/adjust
+ * Add a manual adjustment to a PTO balance (admin only). Positive days add
+ * to the balance, negative days take from it; a reason is required.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+    const { id } = await params;
+
+    // Check if user is admin or owner
+    const isAdmin = profile.role === "admin" || profile.role === "owner";
+    if (!isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const days = Number(body.days);
+    const reason = typeof body.reason === "string" ? body.reason.trim() : "";
+
+    if (!Number.isFinite(days) || days === 0) {
+      return NextResponse.json({ error: "days must be a non-zero number" }, { status: 400 });
+    }
+    if (!reason) {
+      return NextResponse.json({ error: "A reason is required" }, { status: 400 });
+    }
+
+    const supabase = await getCachedSupabase();
+
+    const { data: balance, error: fetchError } = await supabase
+      .from("pto_balances")
+      .select("*")
+      .eq("id", id)
+      .eq("organization_id", profile.organization_id)
+      .single();
+
+    if (fetchError || !balance) {
+      return NextResponse.json({ error: "PTO balance not found" }, { status: 404 });
+    }
+
+    const updated = await recordPTOTransactions(supabase, balance, [
+      { transaction_type: "adjustment", days, reason, actor_id: user.id },
+    ]);
+
+    return NextResponse.json({ success: true, data: updated });
+  } catch (error) {
+    console.error("Error in POST /api/pto/balance/[id]/adjust:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
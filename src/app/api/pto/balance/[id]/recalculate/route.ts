@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { recalculatePTOBalance } from "@/lib/pto-ledger";
+
+/**
+ * POST /api/pto/balance/[id]/recalculate
+ * Rebuild a PTO balance from its ledger (admin only). Returns the corrected
+ * balance and any counters that had drifted.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { profile } = authData;
+    const { id } = await params;
+
+    // Check if user is admin or owner
+    const isAdmin = profile.role === "admin" || profile.role === "owner";
+    if (!isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const supabase = await getCachedSupabase();
+
+    const { data: balance, error: fetchError } = await supabase
+      .from("pto_balances")
+      .select("*")
+      .eq("id", id)
+      .eq("organization_id", profile.organization_id)
+      .single();
+
+    if (fetchError || !balance) {
+      return NextResponse.json({ error: "PTO balance not found" }, { status: 404 });
+    }
+
+    const result = await recalculatePTOBalance(supabase, balance);
+
+    return NextResponse.json({ success: true, data: result.balance, drift: result.drift });
+  } catch (error) {
+    console.error("Error in POST /api/pto/balance/[id]/recalculate:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -1,7 +1,9 @@
 import { NextResponse } from "next/server";
 import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { recordPTOTransactions } from "@/lib/pto-ledger";
 import type { Database } from "@/types/database.types";
 
+type PTOBalance = Database["public"]["Tables"]["pto_balances"]["Row"];
 type PTOBalanceInsert = Database["public"]["Tables"]["pto_balances"]["Insert"];
 
 interface InitializeRequest {
@@ -34,7 +36,7 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const { profile } = authData;
+    const { user, profile } = authData;
 
     // Check if user is admin or owner
     const isAdmin = profile.role === "admin" || profile.role === "owner";
@@ -145,7 +147,7 @@ export async function POST(request: Request) {
 
     const { data: existingBalances, error: existingBalancesError } = await supabase
       .from("pto_balances")
-      .select("user_id, policy_id, pto_type, id, entitled_days")
+      .select("*")
       .eq("organization_id", profile.organization_id)
       .eq("year", year)
       .in("user_id", userIds)
@@ -161,19 +163,16 @@ export async function POST(request: Request) {
 
     // Create a map of existing balances for quick lookup
     // Key: user_id:pto_type:policy_id (policy_id can be null)
-    const existingBalancesMap = new Map<string, { id: string; entitled_days: number | null }>();
+    const existingBalancesMap = new Map<string, PTOBalance>();
     (existingBalances || []).forEach((balance) => {
       const policyId = balance.policy_id || "null";
       const key = `${balance.user_id}:${balance.pto_type}:${policyId}`;
-      existingBalancesMap.set(key, {
-        id: balance.id,
-        entitled_days: balance.entitled_days,
-      });
+      existingBalancesMap.set(key, balance);
     });
 
     // Prepare balances to create/update
     const balancesToInsert: PTOBalanceInsert[] = [];
-    const balancesToUpdate: Array<{ id: string; entitled_days: number }> = [];
+    const balancesToUpdate: Array<{ balance: PTOBalance; entitled_days: number }> = [];
     const response: InitializeResponse = {
       created: 0,
       skipped: 0,
@@ -184,15 +183,18 @@ export async function POST(request: Request) {
     // Generate balance records for each user + policy combination
     for (const user of users) {
       for (const policy of policies) {
+        // Accruing policies are credited period by period by the accrual job
+        const accrues = Number(policy.accrual_rate || 0) > 0;
+
         // Check if balance exists for this user + pto_type + policy combination
         const key = `${user.id}:${policy.pto_type}:${policy.id}`;
         const existing = existingBalancesMap.get(key);
 
         if (existing) {
-          if (overwrite_existing) {
+          if (overwrite_existing && !accrues) {
             // Update existing balance with new entitled_days from policy
             balancesToUpdate.push({
-              id: existing.id,
+              balance: existing,
               entitled_days: policy.annual_allowance || 0,
             });
           } else {
@@ -207,7 +209,7 @@ export async function POST(request: Request) {
             policy_id: policy.id,
             pto_type: policy.pto_type,
             year: year,
-            entitled_days: policy.annual_allowance || 0,
+            entitled_days: accrues ? 0 : policy.annual_allowance || 0,
             used_days: 0,
             pending_days: 0,
             carryover_days: 0,
@@ -221,9 +223,10 @@ export async function POST(request: Request) {
     const BATCH_SIZE = 1000;
     for (let i = 0; i < balancesToInsert.length; i += BATCH_SIZE) {
       const batch = balancesToInsert.slice(i, i + BATCH_SIZE);
-      const { error: insertError } = await supabase
+      const { data: inserted, error: insertError } = await supabase
         .from("pto_balances")
-        .insert(batch);
+        .insert(batch)
+        .select();
 
       if (insertError) {
         console.error("Error inserting balances:", insertError);
@@ -237,30 +240,61 @@ export async function POST(request: Request) {
         });
       } else {
         response.created += batch.length;
+
+        // Record the starting entitlement in the balance ledger
+        const grants = (inserted || [])
+          .filter((balance) => Number(balance.entitled_days || 0) > 0)
+          .map((balance) => ({
+            organization_id: balance.organization_id,
+            balance_id: balance.id,
+            user_id: balance.user_id,
+            pto_type: balance.pto_type,
+            year: balance.year,
+            transaction_type: "accrual",
+            days: Number(balance.entitled_days),
+            period_key: String(balance.year),
+            reason: `Annual allowance for ${balance.year}`,
+            actor_id: user.id,
+          }));
+
+        if (grants.length > 0) {
+          const { error: ledgerError } = await supabase
+            .from("pto_balance_transactions")
+            .insert(grants);
+
+          if (ledgerError) {
+            console.error("Error recording balance transactions:", ledgerError);
+          }
+        }
       }
     }
 
     // Update existing balances if overwrite is enabled
     if (overwrite_existing && balancesToUpdate.length > 0) {
-      for (const balanceUpdate of balancesToUpdate) {
-        const { error: updateError } = await supabase
-          .from("pto_balances")
-          .update({ entitled_days: balanceUpdate.entitled_days })
-          .eq("id", balanceUpdate.id);
+      for (const { balance, entitled_days } of balancesToUpdate) {
+        const difference = entitled_days - Number(balance.entitled_days || 0);
+        if (difference === 0) {
+          response.skipped++;
+          continue;
+        }
 
-        if (updateError) {
+        try {
+          await recordPTOTransactions(supabase, balance, [
+            {
+              transaction_type: "accrual",
+              days: difference,
+              reason: "Entitlement reset to policy allowance",
+              actor_id: user.id,
+            },
+          ]);
+          response.updated++;
+        } catch (updateError) {
           console.error("Error updating balance:", updateError);
-          // Find the user_id and policy_id for this balance
-          const existingBalance = existingBalances?.find(
-            (b) => b.id === balanceUpdate.id
-          );
           response.errors.push({
-            user_id: existingBalance?.user_id || "",
-            policy_id: existingBalance?.policy_id || "",
-            error: updateError.message,
+            user_id: balance.user_id,
+            policy_id: balance.policy_id || "",
+            error: updateError instanceof Error ? updateError.message : "Unknown error",
           });
-        } else {
-          response.updated++;
         }
       }
     }
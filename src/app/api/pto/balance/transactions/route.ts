@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+
+/**
+ * GET /api/pto/balance/transactions
+ * Balance ledger for the current user or a specific user (admin only),
+ * newest first
+ */
+export async function GET(request: Request) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get("user_id");
+    const year = searchParams.get("year") || new Date().getFullYear().toString();
+    const balanceId = searchParams.get("balance_id");
+
+    // If requesting another user's history, check if admin
+    if (userId && userId !== user.id) {
+      const isAdmin = profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+      if (!isAdmin) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+    }
+
+    const targetUserId = userId || user.id;
+    const supabase = await getCachedSupabase();
+
+    let query = supabase
+      .from("pto_balance_transactions")
+      .select(`
+        *,
+        actor:profiles!pto_balance_transactions_actor_id_fkey (id, first_name, last_name, display_name)
+      `)
+      .eq("user_id", targetUserId)
+      .eq("organization_id", profile.organization_id)
+      .eq("year", parseInt(year))
+      .order("created_at", { ascending: false });
+
+    if (balanceId) {
+      query = query.eq("balance_id", balanceId);
+    }
+
+    const { data: transactions, error } = await query;
+
+    if (error) {
+      console.error("Error fetching PTO balance transactions:", error);
+      return NextResponse.json({ error: "Failed to fetch balance history" }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, data: transactions || [] });
+  } catch (error) {
+    console.error("Error in GET /api/pto/balance/transactions:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -1,5 +1,8 @@
 import { NextResponse } from "next/server";
 import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { checkManagerScope } from "@/lib/groups";
+import { findPTORequestBalance, formatPTORequestDates, settlePTORequest } from "@/lib/pto-ledger";
+import { createAdminClient } from "@/lib/supabase/admin";
 
 /**
  * PUT /api/pto/requests/[id]/approve
@@ -40,6 +43,11 @@ export async function PUT(
       return NextResponse.json({ error: "PTO request not found" }, { status: 404 });
     }
 
+    const scopeError = await checkManagerScope(supabase, profile, [existingRequest.user_id]);
+    if (scopeError) {
+      return NextResponse.json({ error: scopeError }, { status: 403 });
+    }
+
     if (existingRequest.status !== "pending") {
       return NextResponse.json(
         { error: "Can only approve pending requests" },
@@ -69,37 +77,38 @@ export async function PUT(
       return NextResponse.json({ error: "Failed to approve PTO request" }, { status: 500 });
     }
 
-    // Update PTO balance
-    const currentYear = new Date().getFullYear();
-    const { data: balance } = await supabase
-      .from("pto_balances")
-      .select("*")
-      .eq("user_id", existingRequest.user_id)
-      .eq("organization_id", profile.organization_id)
-      .eq("pto_type", existingRequest.pto_type)
-      .eq("year", currentYear)
-      .single();
+    // Update PTO balance - move from pending to used. Balances are written as
+    // the service role because managers cannot update them directly.
+    try {
+      const adminClient = createAdminClient();
+      let balance = await findPTORequestBalance(adminClient, existingRequest);
+
+      if (!balance) {
+        // Create balance record if it doesn't exist
+        const { data: created, error: createError } = await adminClient
+          .from("pto_balances")
+          .insert({
+            organization_id: profile.organization_id,
+            user_id: existingRequest.user_id,
+            pto_type: existingRequest.pto_type,
+            year: new Date().getFullYear(),
+            used_days: 0,
+            pending_days: 0,
+            entitled_days: 0,
+          })
+          .select()
+          .single();
+
+        if (createError) throw createError;
+        balance = created;
+      }
 
-    if (balance) {
-      // Move from pending to used
-      await supabase
-        .from("pto_balances")
-        .update({
-          used_days: (balance.used_days || 0) + existingRequest.total_days,
-          pending_days: Math.max(0, (balance.pending_days || 0) - existingRequest.total_days),
-        })
-        .eq("id", balance.id);
-    } else {
-      // Create balance record if it doesn't exist
-      await supabase.from("pto_balances").insert({
-        organization_id: profile.organization_id,
-        user_id: existingRequest.user_id,
-        pto_type: existingRequest.pto_type,
-        year: currentYear,
-        used_days: existingRequest.total_days,
-        pending_days: 0,
-        entitled_days: 0,
+      await settlePTORequest(adminClient, balance, existingRequest, "approval", {
+        actorId: user.id,
+        reason: `Approved ${formatPTORequestDates(existingRequest)}${reviewComment ? `: ${reviewComment}` : ""}`,
       });
+    } catch (ledgerError) {
+      console.error("Error recording approved PTO days:", ledgerError);
     }
 
     // TODO: Create notification for the user
@@ -1,5 +1,8 @@
 import { NextResponse } from "next/server";
 import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { checkManagerScope } from "@/lib/groups";
+import { findPTORequestBalance, formatPTORequestDates, settlePTORequest } from "@/lib/pto-ledger";
+import { createAdminClient } from "@/lib/supabase/admin";
 
 /**
  * PUT /api/pto/requests/[id]/reject
@@ -40,6 +43,11 @@ export async function PUT(
       return NextResponse.json({ error: "PTO request not found" }, { status: 404 });
     }
 
+    const scopeError = await checkManagerScope(supabase, profile, [existingRequest.user_id]);
+    if (scopeError) {
+      return NextResponse.json({ error: scopeError }, { status: 403 });
+    }
+
     if (existingRequest.status !== "pending") {
       return NextResponse.json(
         { error: "Can only reject pending requests" },
@@ -69,24 +77,20 @@ export async function PUT(
       return NextResponse.json({ error: "Failed to reject PTO request" }, { status: 500 });
     }
 
-    // Update PTO balance - remove from pending
-    const currentYear = new Date().getFullYear();
-    const { data: balance } = await supabase
-      .from("pto_balances")
-      .select("*")
-      .eq("user_id", existingRequest.user_id)
-      .eq("organization_id", profile.organization_id)
-      .eq("pto_type", existingRequest.pto_type)
-      .eq("year", currentYear)
-      .single();
+    // Update PTO balance - release the pending days. Balances are written as
+    // the service role because managers cannot update them directly.
+    try {
+      const adminClient = createAdminClient();
+      const balance = await findPTORequestBalance(adminClient, existingRequest);
 
-    if (balance) {
-      await supabase
-        .from("pto_balances")
-        .update({
-          pending_days: Math.max(0, (balance.pending_days || 0) - existingRequest.total_days),
-        })
-        .eq("id", balance.id);
+      if (balance) {
+        await settlePTORequest(adminClient, balance, existingRequest, "rejection", {
+          actorId: user.id,
+          reason: `Rejected ${formatPTORequestDates(existingRequest)}${reviewComment ? `: ${reviewComment}` : ""}`,
+        });
+      }
+    } catch (ledgerError) {
+      console.error("Error releasing pending PTO days:", ledgerError);
     }
 
     // TODO: Create notification for the user
@@ -1,6 +1,14 @@
 import { NextResponse } from "next/server";
 import { getAuthData, getCachedSupabase } from "@/lib/auth";
 import type { Database } from "@/types/database.types";
+import { calculatePTODeduction, fetchPTOCalendar, type PTODurationType } from "@/lib/pto-days";
+import {
+  findPTORequestBalance,
+  formatPTORequestDates,
+  recordPTOTransactions,
+  settlePTORequest,
+} from "@/lib/pto-ledger";
+import { createAdminClient } from "@/lib/supabase/admin";
 
 type PTORequestUpdate = Database["public"]["Tables"]["pto_requests"]["Update"];
 
@@ -99,13 +107,35 @@ export async function PUT(
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
-    // Calculate new total days if dates changed
+    // Recalculate the deduction if the dates or duration changed
     let totalDays = existingRequest.total_days;
-    if (body.start_date || body.end_date) {
-      const start = new Date(body.start_date || existingRequest.start_date);
-      const end = new Date(body.end_date || existingRequest.end_date);
-      const diffTime = Math.abs(end.getTime() - start.getTime());
-      totalDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)) + 1;
+    const start_date = body.start_date || existingRequest.start_date;
+    const end_date = body.end_date || existingRequest.end_date;
+    const duration_type: PTODurationType = body.duration_type || existingRequest.duration_type;
+    const half_day_period =
+      duration_type === "half_day"
+        ? body.half_day_period || existingRequest.half_day_period || "am"
+        : null;
+    const hours =
+      duration_type === "hours" ? Number(body.hours ?? existingRequest.hours) : null;
+
+    if (body.start_date || body.end_date || body.duration_type || body.hours !== undefined) {
+      const { settings, holidays } = await fetchPTOCalendar(
+        supabase,
+        profile.organization_id,
+        user.id,
+        { start: start_date, end: end_date }
+      );
+      const deduction = calculatePTODeduction(
+        { start_date, end_date, duration_type, hours },
+        holidays,
+        settings
+      );
+
+      if (deduction.error) {
+        return NextResponse.json({ error: deduction.error }, { status: 400 });
+      }
+      totalDays = deduction.days;
     }
 
     // Update the request
@@ -114,6 +144,9 @@ export async function PUT(
       end_date: body.end_date || undefined,
       pto_type: body.pto_type || undefined,
       total_days: totalDays,
+      duration_type,
+      half_day_period,
+      hours,
       reason: body.reason !== undefined ? body.reason : undefined,
       attachment_urls: body.attachment_urls !== undefined ? body.attachment_urls : undefined,
     };
@@ -133,24 +166,25 @@ export async function PUT(
       return NextResponse.json({ error: "Failed to update PTO request" }, { status: 500 });
     }
 
-    // Update pending days in balance if total days changed
+    // Record the change in pending days if total days changed
     if (totalDays !== existingRequest.total_days) {
-      const currentYear = new Date().getFullYear();
-      const { data: balance } = await supabase
-        .from("pto_balances")
-        .select("*")
-        .eq("user_id", user.id)
-        .eq("organization_id", profile.organization_id)
-        .eq("pto_type", updatedRequest.pto_type)
-        .eq("year", currentYear)
-        .single();
-
-      if (balance) {
-        const daysDiff = totalDays - existingRequest.total_days;
-        await supabase
-          .from("pto_balances")
-          .update({ pending_days: (balance.pending_days || 0) + daysDiff })
-          .eq("id", balance.id);
+      try {
+        const adminClient = createAdminClient();
+        const balance = await findPTORequestBalance(adminClient, existingRequest);
+
+        if (balance) {
+          await recordPTOTransactions(adminClient, balance, [
+            {
+              transaction_type: "request_pending",
+              days: totalDays - existingRequest.total_days,
+              reason: `Request changed to ${formatPTORequestDates(updatedRequest)}`,
+              actor_id: user.id,
+              request_id: id,
+            },
+          ]);
+        }
+      } catch (ledgerError) {
+        console.error("Error recording pending PTO days:", ledgerError);
       }
     }
 
@@ -204,6 +238,21 @@ export async function DELETE(
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
+    // Release the pending days while the ledger can still link them to the request
+    try {
+      const adminClient = createAdminClient();
+      const balance = await findPTORequestBalance(adminClient, existingRequest);
+
+      if (balance) {
+        await settlePTORequest(adminClient, balance, existingRequest, "cancellation", {
+          actorId: user.id,
+          reason: `Cancelled ${formatPTORequestDates(existingRequest)}`,
+        });
+      }
+    } catch (ledgerError) {
+      console.error("Error releasing pending PTO days:", ledgerError);
+    }
+
     // Delete the request
     const { error } = await supabase.from("pto_requests").delete().eq("id", id);
 
@@ -212,24 +261,6 @@ export async function DELETE(
       return NextResponse.json({ error: "Failed to delete PTO request" }, { status: 500 });
     }
 
-    // Update pending days in balance
-    const currentYear = new Date().getFullYear();
-    const { data: balance } = await supabase
-      .from("pto_balances")
-      .select("*")
-      .eq("user_id", user.id)
-      .eq("organization_id", profile.organization_id)
-      .eq("pto_type", existingRequest.pto_type)
-      .eq("year", currentYear)
-      .single();
-
-    if (balance) {
-      await supabase
-        .from("pto_balances")
-        .update({ pending_days: Math.max(0, (balance.pending_days || 0) - existingRequest.total_days) })
-        .eq("id", balance.id);
-    }
-
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error in DELETE /api/pto/requests/[id]:", error);
@@ -1,6 +1,9 @@
 import { NextResponse } from "next/server";
 import { getAuthData, getCachedSupabase } from "@/lib/auth";
 import type { Database } from "@/types/database.types";
+import { calculatePTODeduction, fetchPTOCalendar, type PTODurationType } from "@/lib/pto-days";
+import { formatPTORequestDates, getAvailablePTODays, recordPTOTransactions } from "@/lib/pto-ledger";
+import { createAdminClient } from "@/lib/supabase/admin";
 
 type PTORequestInsert = Database["public"]["Tables"]["pto_requests"]["Insert"];
 
@@ -74,6 +77,9 @@ export async function POST(request: Request) {
     const body = await request.json();
 
     const { start_date, end_date, pto_type, reason, attachment_urls } = body;
+    const duration_type: PTODurationType = body.duration_type || "full_day";
+    const half_day_period = duration_type === "half_day" ? body.half_day_period || "am" : null;
+    const hours = duration_type === "hours" ? Number(body.hours) : null;
 
     // Validate required fields
     if (!start_date || !end_date || !pto_type) {
@@ -83,23 +89,55 @@ export async function POST(request: Request) {
       );
     }
 
-    // Calculate total days
-    const start = new Date(start_date);
-    const end = new Date(end_date);
-    const diffTime = Math.abs(end.getTime() - start.getTime());
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)) + 1; // +1 to include both start and end days
+    if (!["full_day", "half_day", "hours"].includes(duration_type)) {
+      return NextResponse.json({ error: "Invalid duration type" }, { status: 400 });
+    }
+
+    if (half_day_period && !["am", "pm"].includes(half_day_period)) {
+      return NextResponse.json({ error: "Invalid half day period" }, { status: 400 });
+    }
 
-    // Check for date conflicts with existing approved/pending requests
     const supabase = await getCachedSupabase();
 
-    const { data: conflictingRequests } = await supabase
+    // Deduct working days only, skipping weekends and holidays
+    const { settings, holidays } = await fetchPTOCalendar(
+      supabase,
+      profile.organization_id,
+      user.id,
+      { start: start_date, end: end_date }
+    );
+    const deduction = calculatePTODeduction(
+      { start_date, end_date, duration_type, hours },
+      holidays,
+      settings
+    );
+
+    if (deduction.error) {
+      return NextResponse.json({ error: deduction.error }, { status: 400 });
+    }
+
+    const totalDays = deduction.days;
+
+    // Check for date conflicts with existing approved/pending requests.
+    // Morning and afternoon half days on the same date don't conflict.
+    const { data: overlappingRequests } = await supabase
       .from("pto_requests")
-      .select("id, status")
+      .select("id, status, duration_type, half_day_period")
       .eq("user_id", user.id)
       .in("status", ["pending", "approved"])
-      .or(`start_date.lte.${end_date},end_date.gte.${start_date}`);
-
-    if (conflictingRequests && conflictingRequests.length > 0) {
+      .lte("start_date", end_date)
+      .gte("end_date", start_date);
+
+    const conflictingRequests = (overlappingRequests || []).filter(
+      (existing) =>
+        !(
+          duration_type === "half_day" &&
+          existing.duration_type === "half_day" &&
+          existing.half_day_period !== half_day_period
+        )
+    );
+
+    if (conflictingRequests.length > 0) {
       return NextResponse.json(
         { error: "Date range conflicts with existing PTO request" },
         { status: 400 }
@@ -118,10 +156,10 @@ export async function POST(request: Request) {
       .single();
 
     if (balance) {
-      const availableDays = (balance.entitled_days || 0) - (balance.used_days || 0) - (balance.pending_days || 0);
-      if (diffDays > availableDays) {
+      const availableDays = getAvailablePTODays(balance);
+      if (totalDays > availableDays) {
         return NextResponse.json(
-          { error: `Insufficient PTO balance. Available: ${availableDays} days, Requested: ${diffDays} days` },
+          { error: `Insufficient PTO balance. Available: ${availableDays} days, Requested: ${totalDays} days` },
           { status: 400 }
         );
       }
@@ -134,7 +172,10 @@ export async function POST(request: Request) {
       start_date,
       end_date,
       pto_type,
-      total_days: diffDays,
+      total_days: totalDays,
+      duration_type,
+      half_day_period,
+      hours,
       reason: reason || null,
       attachment_urls: attachment_urls || null,
       status: "pending",
@@ -154,12 +195,22 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Failed to create PTO request" }, { status: 500 });
     }
 
-    // Update pending days in balance
+    // Hold the days as pending. Employees cannot write balances, so the
+    // ledger entry is recorded as the service role.
     if (balance) {
-      await supabase
-        .from("pto_balances")
-        .update({ pending_days: (balance.pending_days || 0) + diffDays })
-        .eq("id", balance.id);
+      try {
+        await recordPTOTransactions(createAdminClient(), balance, [
+          {
+            transaction_type: "request_pending",
+            days: totalDays,
+            reason: `Requested ${formatPTORequestDates(newRequest)}`,
+            actor_id: user.id,
+            request_id: newRequest.id,
+          },
+        ]);
+      } catch (ledgerError) {
+        console.error("Error recording pending PTO days:", ledgerError);
+      }
     }
 
     return NextResponse.json({ success: true, data: newRequest }, { status: 201 });
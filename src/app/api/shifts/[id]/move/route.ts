@@ -0,0 +1,155 @@
+import { NextResponse } from "next/server";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { recordAuditLog } from "@/lib/audit";
+import { checkManagerScope } from "@/lib/groups";
+import {
+  SHIFT_SELECT,
+  checkShiftReferences,
+  getShiftTimesOnDate,
+  isBlockedByValidation,
+  notifyShiftChanges,
+  parseShiftInput,
+  toShiftRow,
+  toValidationShift,
+  validateShiftWrites,
+} from "@/lib/shift-api";
+import { detachShiftFromSeries, getShiftDate } from "@/lib/shift-series";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { resolveTimeZone } from "@/lib/timezone";
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * POST /api/shifts/[id]/move
+ * Move a shift to another date and/or employee (admin/manager only).
+ * The shift keeps its wall-clock times; user_id null makes it an open shift.
+ * A shift in a repeating series that changes date leaves the series.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+    const { id } = await params;
+
+    const isAdmin = profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+    if (!isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const organization = profile.organizations;
+    if (!organization) {
+      return NextResponse.json({ error: "Organization not found" }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { date, acknowledge_warnings } = body;
+
+    if (date === undefined && body.user_id === undefined) {
+      return NextResponse.json({ error: "Provide a date or user_id to move to" }, { status: 400 });
+    }
+
+    if (date !== undefined && !DATE_KEY.test(date)) {
+      return NextResponse.json({ error: "date must be a date (yyyy-MM-dd)" }, { status: 400 });
+    }
+
+    const supabase = await getCachedSupabase();
+
+    const { data: existing, error: fetchError } = await supabase
+      .from("shifts")
+      .select("*")
+      .eq("id", id)
+      .eq("organization_id", profile.organization_id)
+      .single();
+
+    if (fetchError || !existing) {
+      return NextResponse.json({ error: "Shift not found" }, { status: 404 });
+    }
+
+    const timeZone = resolveTimeZone(organization.timezone);
+    const parsed = parseShiftInput(
+      {
+        ...(date !== undefined ? getShiftTimesOnDate(existing, date, timeZone) : {}),
+        ...(body.user_id !== undefined ? { user_id: body.user_id } : {}),
+      },
+      existing
+    );
+    if (parsed.error !== undefined) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const referenceError = await checkShiftReferences(supabase, profile.organization_id, [parsed.data]);
+    if (referenceError) {
+      return NextResponse.json({ error: referenceError }, { status: 400 });
+    }
+
+    const scopeError = await checkManagerScope(supabase, profile, [existing.user_id, parsed.data.user_id]);
+    if (scopeError) {
+      return NextResponse.json({ error: scopeError }, { status: 403 });
+    }
+
+    const validation = await validateShiftWrites(supabase, organization, [
+      toValidationShift({ ...parsed.data, id }),
+    ]);
+    if (isBlockedByValidation(validation, acknowledge_warnings === true)) {
+      return NextResponse.json(
+        { error: "Shift failed validation", validation },
+        { status: 422 }
+      );
+    }
+
+    const fromDate = getShiftDate(existing, timeZone);
+    if (date !== undefined && date !== fromDate) {
+      await detachShiftFromSeries(supabase, existing, timeZone);
+    }
+
+    const { data: shift, error } = await supabase
+      .from("shifts")
+      .update(toShiftRow(parsed.data, { organizationId: profile.organization_id, actorId: user.id, existing }))
+      .eq("id", id)
+      .select(SHIFT_SELECT)
+      .single();
+
+    if (error) {
+      console.error("Error moving shift:", error);
+      return NextResponse.json({ error: "Failed to move shift" }, { status: 500 });
+    }
+
+    const assignee = shift.profiles;
+    const targetUser = assignee
+      ? assignee.display_name || `${assignee.first_name} ${assignee.last_name}`
+      : "Open shift";
+
+    await notifyShiftChanges(supabase, organization, [{ before: existing, after: shift }]);
+    await recordAuditLog(
+      createAdminClient(),
+      {
+        organizationId: profile.organization_id,
+        userId: user.id,
+        action: "shift_moved",
+        entityType: "shift",
+        entityId: id,
+        oldValues: { start_time: existing.start_time, end_time: existing.end_time, user_id: existing.user_id },
+        newValues: { start_time: shift.start_time, end_time: shift.end_time, user_id: shift.user_id },
+        metadata: {
+          source: "api",
+          from_date: fromDate,
+          to_date: getShiftDate(shift, timeZone),
+          target_user: targetUser,
+        },
+      },
+      request
+    );
+
+    return NextResponse.json({ success: true, data: shift, validation });
+  } catch (error) {
+    console.error("Error in POST /api/shifts/[id]/move:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,257 @@
+import { NextResponse } from "next/server";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { recordAuditLog } from "@/lib/audit";
+import { checkManagerScope } from "@/lib/groups";
+import {
+  SHIFT_SELECT,
+  checkShiftReferences,
+  getChangedShiftFields,
+  isBlockedByValidation,
+  notifyShiftChanges,
+  parseShiftInput,
+  toShiftRow,
+  toValidationShift,
+  validateShiftWrites,
+} from "@/lib/shift-api";
+import { deleteShiftSeries, detachShiftFromSeries, getShiftDate, type SeriesScope } from "@/lib/shift-series";
+import { resolveScheduleWeekStart } from "@/lib/shift-validation";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { resolveTimeZone } from "@/lib/timezone";
+
+const seriesScopes: SeriesScope[] = ["this", "following", "all"];
+
+/**
+ * GET /api/shifts/[id]
+ * Get a shift. Employees can only see their own shifts and published ones.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+    const { id } = await params;
+
+    const supabase = await getCachedSupabase();
+
+    const { data: shift, error } = await supabase
+      .from("shifts")
+      .select(SHIFT_SELECT)
+      .eq("id", id)
+      .eq("organization_id", profile.organization_id)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return NextResponse.json({ error: "Shift not found" }, { status: 404 });
+      }
+      console.error("Error fetching shift:", error);
+      return NextResponse.json({ error: "Failed to fetch shift" }, { status: 500 });
+    }
+
+    const isAdmin = profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+    if (!isAdmin && shift.user_id !== user.id && !shift.is_published) {
+      return NextResponse.json({ error: "Shift not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: shift });
+  } catch (error) {
+    console.error("Error in GET /api/shifts/[id]:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/shifts/[id]
+ * Update a shift (admin/manager only). Fields left out of the body are kept.
+ * A shift in a repeating series that is moved to another date leaves the series.
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+    const { id } = await params;
+
+    const isAdmin = profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+    if (!isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const organization = profile.organizations;
+    if (!organization) {
+      return NextResponse.json({ error: "Organization not found" }, { status: 404 });
+    }
+
+    const supabase = await getCachedSupabase();
+
+    const { data: existing, error: fetchError } = await supabase
+      .from("shifts")
+      .select("*")
+      .eq("id", id)
+      .eq("organization_id", profile.organization_id)
+      .single();
+
+    if (fetchError || !existing) {
+      return NextResponse.json({ error: "Shift not found" }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = parseShiftInput(body, existing);
+    if (parsed.error !== undefined) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const referenceError = await checkShiftReferences(supabase, profile.organization_id, [parsed.data]);
+    if (referenceError) {
+      return NextResponse.json({ error: referenceError }, { status: 400 });
+    }
+
+    const scopeError = await checkManagerScope(supabase, profile, [existing.user_id, parsed.data.user_id]);
+    if (scopeError) {
+      return NextResponse.json({ error: scopeError }, { status: 403 });
+    }
+
+    const validation = await validateShiftWrites(supabase, organization, [
+      toValidationShift({ ...parsed.data, id }),
+    ]);
+    if (isBlockedByValidation(validation, body.acknowledge_warnings === true)) {
+      return NextResponse.json(
+        { error: "Shift failed validation", validation },
+        { status: 422 }
+      );
+    }
+
+    const timeZone = resolveTimeZone(organization.timezone);
+    if (getShiftDate(existing, timeZone) !== getShiftDate(parsed.data, timeZone)) {
+      await detachShiftFromSeries(supabase, existing, timeZone);
+    }
+
+    const { data: shift, error } = await supabase
+      .from("shifts")
+      .update(toShiftRow(parsed.data, { organizationId: profile.organization_id, actorId: user.id, existing }))
+      .eq("id", id)
+      .select(SHIFT_SELECT)
+      .single();
+
+    if (error) {
+      console.error("Error updating shift:", error);
+      return NextResponse.json({ error: "Failed to update shift" }, { status: 500 });
+    }
+
+    const changedFields = getChangedShiftFields(parsed.data, existing);
+
+    await notifyShiftChanges(supabase, organization, [{ before: existing, after: shift }]);
+    await recordAuditLog(
+      createAdminClient(),
+      {
+        organizationId: profile.organization_id,
+        userId: user.id,
+        action: "shift_updated",
+        entityType: "shift",
+        entityId: id,
+        metadata: { source: "api", changed_fields: changedFields },
+      },
+      request
+    );
+
+    return NextResponse.json({ success: true, data: shift, validation });
+  } catch (error) {
+    console.error("Error in PUT /api/shifts/[id]:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/shifts/[id]?scope=this|following|all
+ * Delete a shift (admin/manager only). For a shift in a repeating series,
+ * scope "following" or "all" deletes the rest of the series too; shifts that
+ * have already started are kept. Employees get a summary of the published
+ * shifts removed from their schedule.
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const scope = (searchParams.get("scope") || "this") as SeriesScope;
+
+    const isAdmin = profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+    if (!isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const organization = profile.organizations;
+    if (!organization) {
+      return NextResponse.json({ error: "Organization not found" }, { status: 404 });
+    }
+
+    if (!seriesScopes.includes(scope)) {
+      return NextResponse.json(
+        { error: "scope must be one of: this, following, all" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await getCachedSupabase();
+
+    const { data: existing, error: fetchError } = await supabase
+      .from("shifts")
+      .select("*")
+      .eq("id", id)
+      .eq("organization_id", profile.organization_id)
+      .single();
+
+    if (fetchError || !existing) {
+      return NextResponse.json({ error: "Shift not found" }, { status: 404 });
+    }
+
+    const scopeError = await checkManagerScope(supabase, profile, [existing.user_id]);
+    if (scopeError) {
+      return NextResponse.json({ error: scopeError }, { status: 403 });
+    }
+
+    const summary = await deleteShiftSeries(supabase, existing, scope, {
+      weekStartsOn: resolveScheduleWeekStart(organization.settings),
+      timeZone: resolveTimeZone(organization.timezone),
+    });
+
+    await recordAuditLog(
+      createAdminClient(),
+      {
+        organizationId: profile.organization_id,
+        userId: user.id,
+        action: "shift_deleted",
+        entityType: "shift",
+        entityId: id,
+        oldValues: existing,
+        metadata: { source: "api", scope, deleted: summary.deleted, kept: summary.kept },
+      },
+      request
+    );
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error("Error in DELETE /api/shifts/[id]:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,266 @@
+import { NextResponse } from "next/server";
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { recordAuditLog } from "@/lib/audit";
+import { checkManagerScope } from "@/lib/groups";
+import {
+  MAX_ROTATION_APPLY_DAYS,
+  buildRotationShifts,
+  getRotationTemplateIds,
+  parseRotationPattern,
+  type RotationAssignment,
+  type RotationTemplate,
+} from "@/lib/rotations";
+import { snapshotSchedule } from "@/lib/schedule-versions";
+import {
+  MAX_SHIFTS_PER_REQUEST,
+  SHIFT_SELECT,
+  checkShiftReferences,
+  isBlockedByValidation,
+  notifyShiftChanges,
+  toShiftRow,
+  toValidationShift,
+  validateShiftWrites,
+} from "@/lib/shift-api";
+import { resolveScheduleWeekStart } from "@/lib/shift-validation";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { dateTimeInTimeZone, nextDateKey, resolveTimeZone } from "@/lib/timezone";
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * POST /api/shifts/apply-rotation
+ * Apply a rotation pattern to employees from start_date to end_date
+ * (inclusive), creating draft shifts (admin/manager only). Each assignment
+ * gives the cycle day the employee starts on. The shifts go through the
+ * same validation as any other write, and shifts the employee already has
+ * at the same times are skipped. The affected weeks are saved as schedule
+ * versions first.
+ */
+export async function POST(request: Request) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+
+    const isAdmin = profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+    if (!isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const organization = profile.organizations;
+    if (!organization) {
+      return NextResponse.json({ error: "Organization not found" }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { rotation_id, start_date, end_date, assignments, acknowledge_warnings } = body;
+
+    if (typeof rotation_id !== "string" || !rotation_id) {
+      return NextResponse.json({ error: "rotation_id is required" }, { status: 400 });
+    }
+
+    if (!DATE_KEY.test(start_date || "") || !DATE_KEY.test(end_date || "")) {
+      return NextResponse.json(
+        { error: "start_date and end_date must be dates (yyyy-MM-dd)" },
+        { status: 400 }
+      );
+    }
+
+    const days = differenceInCalendarDays(parseISO(end_date), parseISO(start_date)) + 1;
+    if (days < 1) {
+      return NextResponse.json({ error: "end_date must be on or after start_date" }, { status: 400 });
+    }
+    if (days > MAX_ROTATION_APPLY_DAYS) {
+      return NextResponse.json(
+        { error: `A rotation can be applied to at most ${MAX_ROTATION_APPLY_DAYS} days at a time` },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(assignments) || assignments.length === 0) {
+      return NextResponse.json({ error: "assignments must be a non-empty array" }, { status: 400 });
+    }
+
+    const parsedAssignments: RotationAssignment[] = [];
+    for (const [index, assignment] of assignments.entries()) {
+      const offset = assignment?.offset ?? 0;
+      if (typeof assignment?.user_id !== "string" || !Number.isInteger(offset) || offset < 0) {
+        return NextResponse.json(
+          { error: `assignments[${index}] needs a user_id and a non-negative integer offset` },
+          { status: 400 }
+        );
+      }
+      parsedAssignments.push({ userId: assignment.user_id, offset });
+    }
+
+    const supabase = await getCachedSupabase();
+
+    const { data: rotation, error: rotationError } = await supabase
+      .from("shift_rotations")
+      .select("*")
+      .eq("id", rotation_id)
+      .eq("organization_id", profile.organization_id)
+      .maybeSingle();
+
+    if (rotationError) {
+      console.error("Error fetching rotation:", rotationError);
+      return NextResponse.json({ error: "Failed to fetch rotation" }, { status: 500 });
+    }
+
+    if (!rotation) {
+      return NextResponse.json({ error: "Rotation not found" }, { status: 404 });
+    }
+
+    const pattern = parseRotationPattern(rotation.pattern);
+    const templateIds = getRotationTemplateIds(pattern);
+    if (templateIds.length === 0) {
+      return NextResponse.json({ error: "Rotation has no working days" }, { status: 400 });
+    }
+
+    const { data: templates, error: templatesError } = await supabase
+      .from("shift_templates")
+      .select("id, start_time, end_time, break_minutes, location_id, position_id, color")
+      .eq("organization_id", profile.organization_id)
+      .eq("is_active", true)
+      .in("id", templateIds);
+
+    if (templatesError) {
+      console.error("Error fetching shift templates:", templatesError);
+      return NextResponse.json({ error: "Failed to fetch shift templates" }, { status: 500 });
+    }
+
+    if ((templates || []).length < templateIds.length) {
+      return NextResponse.json(
+        { error: "Rotation uses a template that no longer exists" },
+        { status: 400 }
+      );
+    }
+
+    const timeZone = resolveTimeZone(organization.timezone);
+    const generated = buildRotationShifts({
+      pattern,
+      templates: Object.fromEntries(
+        (templates || []).map((template: RotationTemplate) => [template.id, template])
+      ),
+      assignments: parsedAssignments,
+      startDate: start_date,
+      endDate: end_date,
+      timeZone,
+    });
+
+    const referenceError = await checkShiftReferences(supabase, profile.organization_id, generated);
+    if (referenceError) {
+      return NextResponse.json({ error: referenceError }, { status: 400 });
+    }
+
+    const scopeError = await checkManagerScope(supabase, profile, generated.map((shift) => shift.user_id));
+    if (scopeError) {
+      return NextResponse.json({ error: scopeError }, { status: 403 });
+    }
+
+    // Shifts the employees already have at the same times are left alone
+    const { data: existing, error: existingError } = await supabase
+      .from("shifts")
+      .select("user_id, start_time, end_time")
+      .eq("organization_id", profile.organization_id)
+      .in(
+        "user_id",
+        parsedAssignments.map((assignment) => assignment.userId)
+      )
+      .gte("start_time", dateTimeInTimeZone(start_date, "00:00", timeZone).toISOString())
+      .lt("start_time", dateTimeInTimeZone(nextDateKey(end_date), "00:00", timeZone).toISOString());
+
+    if (existingError) {
+      console.error("Error fetching existing shifts:", existingError);
+      return NextResponse.json({ error: "Failed to fetch shifts" }, { status: 500 });
+    }
+
+    const shiftKey = (shift: { user_id: string | null; start_time: string; end_time: string }) =>
+      `${shift.user_id}|${new Date(shift.start_time).getTime()}|${new Date(shift.end_time).getTime()}`;
+    const existingKeys = new Set((existing || []).map(shiftKey));
+    const inputs = generated.filter((shift) => !existingKeys.has(shiftKey(shift)));
+    const skipped = generated.length - inputs.length;
+
+    if (inputs.length === 0) {
+      return NextResponse.json({ success: true, data: [], created: 0, skipped });
+    }
+
+    if (inputs.length > MAX_SHIFTS_PER_REQUEST) {
+      return NextResponse.json(
+        {
+          error: `This would create ${inputs.length} shifts; at most ${MAX_SHIFTS_PER_REQUEST} can be created at a time. Apply a shorter range or fewer employees.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const validation = await validateShiftWrites(
+      supabase,
+      organization,
+      inputs.map((input, index) => toValidationShift(input, `new-${index}`))
+    );
+    if (isBlockedByValidation(validation, acknowledge_warnings === true)) {
+      return NextResponse.json(
+        { error: "Rotation shifts failed validation", validation, shifts: inputs },
+        { status: 422 }
+      );
+    }
+
+    await snapshotSchedule(supabase, profile.organization_id, inputs, "apply_template", user.id, {
+      weekStartsOn: resolveScheduleWeekStart(organization.settings),
+      timeZone,
+    });
+
+    const { data: created, error } = await supabase
+      .from("shifts")
+      .insert(
+        inputs.map((input) =>
+          toShiftRow(input, { organizationId: profile.organization_id, actorId: user.id })
+        )
+      )
+      .select(SHIFT_SELECT);
+
+    if (error) {
+      console.error("Error creating rotation shifts:", error);
+      return NextResponse.json({ error: "Failed to create shifts" }, { status: 500 });
+    }
+
+    await notifyShiftChanges(
+      supabase,
+      organization,
+      (created || []).map((shift) => ({ before: null, after: shift }))
+    );
+    await recordAuditLog(
+      createAdminClient(),
+      {
+        organizationId: profile.organization_id,
+        userId: user.id,
+        action: "rotation_applied",
+        entityType: "shift_rotation",
+        entityId: rotation.id,
+        metadata: {
+          source: "api",
+          rotation_name: rotation.name,
+          start_date,
+          end_date,
+          user_ids: parsedAssignments.map((assignment) => assignment.userId),
+          count: created?.length || 0,
+          skipped,
+        },
+      },
+      request
+    );
+
+    return NextResponse.json(
+      { success: true, data: created || [], created: created?.length || 0, skipped, validation },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error in POST /api/shifts/apply-rotation:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { generateAutoSchedule } from "@/lib/auto-scheduler";
+import { resolveOpenShiftSettings } from "@/lib/open-shifts";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_PERIOD_DAYS = 31;
+
+/**
+ * POST /api/shifts/auto-schedule
+ * Fill the organization's staffing requirements for a date range with
+ * unpublished draft shifts (admin/manager only).
+ */
+export async function POST(request: Request) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+
+    const isAdmin = profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+    if (!isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const organization = profile.organizations;
+    if (!organization) {
+      return NextResponse.json({ error: "Organization not found" }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { period_start, period_end, create_open_shifts } = body;
+
+    if (!DATE_PATTERN.test(period_start || "") || !DATE_PATTERN.test(period_end || "")) {
+      return NextResponse.json(
+        { error: "period_start and period_end are required (yyyy-MM-dd)" },
+        { status: 400 }
+      );
+    }
+
+    if (period_start > period_end) {
+      return NextResponse.json(
+        { error: "period_end must be on or after period_start" },
+        { status: 400 }
+      );
+    }
+
+    const days =
+      (Date.parse(`${period_end}T00:00:00Z`) - Date.parse(`${period_start}T00:00:00Z`)) / 86400000 + 1;
+    if (days > MAX_PERIOD_DAYS) {
+      return NextResponse.json(
+        { error: `Auto-scheduling is limited to ${MAX_PERIOD_DAYS} days at a time` },
+        { status: 400 }
+      );
+    }
+
+    // Unfilled slots can only be posted when open shifts are enabled
+    const createOpenShifts =
+      create_open_shifts !== false && resolveOpenShiftSettings(organization.settings).enabled;
+
+    const supabase = await getCachedSupabase();
+    const summary = await generateAutoSchedule(
+      supabase,
+      organization,
+      { start: period_start, end: period_end },
+      { createOpenShifts, createdBy: user.id }
+    );
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error("Error in POST /api/shifts/auto-schedule:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,139 @@
+import { NextResponse } from "next/server";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { recordAuditLog } from "@/lib/audit";
+import { checkManagerScope } from "@/lib/groups";
+import { snapshotSchedule } from "@/lib/schedule-versions";
+import {
+  MAX_SHIFTS_PER_REQUEST,
+  SHIFT_SELECT,
+  checkShiftReferences,
+  isBlockedByValidation,
+  notifyShiftChanges,
+  parseShiftInput,
+  toShiftRow,
+  toValidationShift,
+  validateShiftWrites,
+  type ShiftWriteInput,
+} from "@/lib/shift-api";
+import { resolveScheduleWeekStart } from "@/lib/shift-validation";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { resolveTimeZone } from "@/lib/timezone";
+
+/**
+ * POST /api/shifts/bulk
+ * Create several shifts at once (admin/manager only). Nothing is created if
+ * any shift is invalid. Validation issues are keyed by the shift's index,
+ * e.g. "new-3". The affected weeks are saved as schedule versions first.
+ */
+export async function POST(request: Request) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+
+    const isAdmin = profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+    if (!isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const organization = profile.organizations;
+    if (!organization) {
+      return NextResponse.json({ error: "Organization not found" }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { shifts, acknowledge_warnings } = body;
+
+    if (!Array.isArray(shifts) || shifts.length === 0) {
+      return NextResponse.json({ error: "shifts must be a non-empty array" }, { status: 400 });
+    }
+
+    if (shifts.length > MAX_SHIFTS_PER_REQUEST) {
+      return NextResponse.json(
+        { error: `At most ${MAX_SHIFTS_PER_REQUEST} shifts can be created at a time` },
+        { status: 400 }
+      );
+    }
+
+    const inputs: ShiftWriteInput[] = [];
+    for (const [index, shift] of shifts.entries()) {
+      const parsed = parseShiftInput(shift);
+      if (parsed.error !== undefined) {
+        return NextResponse.json({ error: `shifts[${index}]: ${parsed.error}` }, { status: 400 });
+      }
+      inputs.push(parsed.data);
+    }
+
+    const supabase = await getCachedSupabase();
+
+    const referenceError = await checkShiftReferences(supabase, profile.organization_id, inputs);
+    if (referenceError) {
+      return NextResponse.json({ error: referenceError }, { status: 400 });
+    }
+
+    const scopeError = await checkManagerScope(supabase, profile, inputs.map((input) => input.user_id));
+    if (scopeError) {
+      return NextResponse.json({ error: scopeError }, { status: 403 });
+    }
+
+    const validation = await validateShiftWrites(
+      supabase,
+      organization,
+      inputs.map((input, index) => toValidationShift(input, `new-${index}`))
+    );
+    if (isBlockedByValidation(validation, acknowledge_warnings === true)) {
+      return NextResponse.json(
+        { error: "Shifts failed validation", validation },
+        { status: 422 }
+      );
+    }
+
+    await snapshotSchedule(supabase, profile.organization_id, inputs, "bulk_create", user.id, {
+      weekStartsOn: resolveScheduleWeekStart(organization.settings),
+      timeZone: resolveTimeZone(organization.timezone),
+    });
+
+    const { data: created, error } = await supabase
+      .from("shifts")
+      .insert(
+        inputs.map((input) =>
+          toShiftRow(input, { organizationId: profile.organization_id, actorId: user.id })
+        )
+      )
+      .select(SHIFT_SELECT);
+
+    if (error) {
+      console.error("Error creating shifts:", error);
+      return NextResponse.json({ error: "Failed to create shifts" }, { status: 500 });
+    }
+
+    await notifyShiftChanges(
+      supabase,
+      organization,
+      (created || []).map((shift) => ({ before: null, after: shift }))
+    );
+    await recordAuditLog(
+      createAdminClient(),
+      {
+        organizationId: profile.organization_id,
+        userId: user.id,
+        action: "shifts_bulk_created",
+        entityType: "shift",
+        metadata: {
+          source: "api",
+          count: created?.length || 0,
+          shift_ids: (created || []).map((shift) => shift.id),
+        },
+      },
+      request
+    );
+
+    return NextResponse.json({ success: true, data: created || [], validation }, { status: 201 });
+  } catch (error) {
+    console.error("Error in POST /api/shifts/bulk:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
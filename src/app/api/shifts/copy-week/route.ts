@@ -0,0 +1,233 @@
+import { NextResponse } from "next/server";
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { recordAuditLog } from "@/lib/audit";
+import { getManagedUserIds, isUserInScope } from "@/lib/groups";
+import { snapshotSchedule } from "@/lib/schedule-versions";
+import {
+  MAX_SHIFTS_PER_REQUEST,
+  SHIFT_SELECT,
+  getShiftDateOffset,
+  getShiftTimesOnDate,
+  isBlockedByValidation,
+  notifyShiftChanges,
+  toShiftRow,
+  toValidationShift,
+  validateShiftWrites,
+  type ShiftWriteInput,
+} from "@/lib/shift-api";
+import { resolveScheduleWeekStart } from "@/lib/shift-validation";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { resolveTimeZone, startOfDayInTimeZone } from "@/lib/timezone";
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * POST /api/shifts/copy-week
+ * Copy a week's shifts to another week (admin/manager only), keeping each
+ * shift's weekday and wall-clock times in the organization's time zone.
+ * Copies are drafts unless publish is true, don't repeat, and shifts the
+ * target week already has (same employee and times) are skipped. The target
+ * week is saved as a schedule version first so the copy can be rolled back.
+ */
+export async function POST(request: Request) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+
+    const isAdmin = profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+    if (!isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const organization = profile.organizations;
+    if (!organization) {
+      return NextResponse.json({ error: "Organization not found" }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const {
+      source_week_start,
+      target_week_start,
+      user_ids,
+      location_id,
+      publish,
+      acknowledge_warnings,
+    } = body;
+
+    if (!DATE_KEY.test(source_week_start || "") || !DATE_KEY.test(target_week_start || "")) {
+      return NextResponse.json(
+        { error: "source_week_start and target_week_start must be dates (yyyy-MM-dd)" },
+        { status: 400 }
+      );
+    }
+
+    if (user_ids !== undefined && !Array.isArray(user_ids)) {
+      return NextResponse.json({ error: "user_ids must be an array" }, { status: 400 });
+    }
+
+    const offsetDays = differenceInCalendarDays(parseISO(target_week_start), parseISO(source_week_start));
+    if (offsetDays === 0) {
+      return NextResponse.json(
+        { error: "Target week must differ from the source week" },
+        { status: 400 }
+      );
+    }
+
+    const timeZone = resolveTimeZone(organization.timezone);
+    const weekRange = (weekStart: string) => ({
+      start: startOfDayInTimeZone(weekStart, timeZone).toISOString(),
+      end: startOfDayInTimeZone(format(addDays(parseISO(weekStart), 7), "yyyy-MM-dd"), timeZone).toISOString(),
+    });
+    const source = weekRange(source_week_start);
+    const target = weekRange(target_week_start);
+
+    const supabase = await getCachedSupabase();
+
+    let query = supabase
+      .from("shifts")
+      .select("*")
+      .eq("organization_id", profile.organization_id)
+      .gte("start_time", source.start)
+      .lt("start_time", source.end)
+      .order("start_time", { ascending: true });
+
+    if (user_ids && user_ids.length > 0) {
+      query = query.in("user_id", user_ids);
+    }
+
+    if (location_id) {
+      query = query.eq("location_id", location_id);
+    }
+
+    const [{ data: sourceShifts, error: sourceError }, { data: targetShifts, error: targetError }] =
+      await Promise.all([
+        query,
+        supabase
+          .from("shifts")
+          .select("user_id, start_time, end_time")
+          .eq("organization_id", profile.organization_id)
+          .gte("start_time", target.start)
+          .lt("start_time", target.end),
+      ]);
+
+    if (sourceError || targetError) {
+      console.error("Error fetching shifts to copy:", sourceError || targetError);
+      return NextResponse.json({ error: "Failed to fetch shifts" }, { status: 500 });
+    }
+
+    const existingKeys = new Set(
+      (targetShifts || []).map(
+        (shift) =>
+          `${shift.user_id ?? "open"}|${new Date(shift.start_time).getTime()}|${new Date(shift.end_time).getTime()}`
+      )
+    );
+
+    // Managers limited to groups only copy their own people's shifts
+    const managedUserIds = await getManagedUserIds(supabase, profile);
+
+    const inputs: ShiftWriteInput[] = [];
+    let skipped = 0;
+    for (const shift of sourceShifts || []) {
+      if (!isUserInScope(managedUserIds, shift.user_id)) continue;
+
+      const times = getShiftTimesOnDate(shift, getShiftDateOffset(shift, offsetDays, timeZone), timeZone);
+      const key = `${shift.user_id ?? "open"}|${new Date(times.start_time).getTime()}|${new Date(times.end_time).getTime()}`;
+      if (existingKeys.has(key)) {
+        skipped++;
+        continue;
+      }
+      existingKeys.add(key);
+
+      inputs.push({
+        user_id: shift.user_id,
+        ...times,
+        break_minutes: shift.break_minutes ?? 0,
+        location_id: shift.location_id,
+        department_id: shift.department_id,
+        position_id: shift.position_id,
+        notes: shift.notes,
+        color: shift.color,
+        is_published: publish === true,
+      });
+    }
+
+    if (inputs.length === 0) {
+      return NextResponse.json({ success: true, data: [], copied: 0, skipped });
+    }
+
+    if (inputs.length > MAX_SHIFTS_PER_REQUEST) {
+      return NextResponse.json(
+        { error: `At most ${MAX_SHIFTS_PER_REQUEST} shifts can be copied at a time` },
+        { status: 400 }
+      );
+    }
+
+    const validation = await validateShiftWrites(
+      supabase,
+      organization,
+      inputs.map((input, index) => toValidationShift(input, `new-${index}`))
+    );
+    if (isBlockedByValidation(validation, acknowledge_warnings === true)) {
+      return NextResponse.json(
+        { error: "Copied shifts failed validation", validation },
+        { status: 422 }
+      );
+    }
+
+    await snapshotSchedule(supabase, profile.organization_id, inputs, "copy_week", user.id, {
+      weekStartsOn: resolveScheduleWeekStart(organization.settings),
+      timeZone,
+    });
+
+    const { data: created, error } = await supabase
+      .from("shifts")
+      .insert(
+        inputs.map((input) =>
+          toShiftRow(input, { organizationId: profile.organization_id, actorId: user.id })
+        )
+      )
+      .select(SHIFT_SELECT);
+
+    if (error) {
+      console.error("Error copying shifts:", error);
+      return NextResponse.json({ error: "Failed to copy shifts" }, { status: 500 });
+    }
+
+    await notifyShiftChanges(
+      supabase,
+      organization,
+      (created || []).map((shift) => ({ before: null, after: shift }))
+    );
+    await recordAuditLog(
+      createAdminClient(),
+      {
+        organizationId: profile.organization_id,
+        userId: user.id,
+        action: "shifts_copied",
+        entityType: "shift",
+        metadata: {
+          source: "api",
+          source_week_start,
+          target_week_start,
+          count: created?.length || 0,
+          skipped,
+          shift_ids: (created || []).map((shift) => shift.id),
+        },
+      },
+      request
+    );
+
+    return NextResponse.json(
+      { success: true, data: created || [], copied: created?.length || 0, skipped, validation },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error in POST /api/shifts/copy-week:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,170 @@
+import { NextResponse } from "next/server";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { recordAuditLog } from "@/lib/audit";
+import {
+  MAX_SHIFTS_PER_REQUEST,
+  isBlockedByValidation,
+  notifyOpenShiftsPosted,
+  toValidationShift,
+  validateShiftWrites,
+} from "@/lib/shift-api";
+import { recordSchedulePublication } from "@/lib/schedule-changes";
+import { snapshotSchedule } from "@/lib/schedule-versions";
+import { resolveScheduleWeekStart } from "@/lib/shift-validation";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { resolveTimeZone } from "@/lib/timezone";
+
+/**
+ * POST /api/shifts/publish
+ * Publish draft shifts (admin/manager only), either by id or every draft
+ * starting in a date range (optionally at one location). Each employee gets
+ * one summary per week of what was published, or of what changed since the
+ * week was last published.
+ */
+export async function POST(request: Request) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+
+    const isAdmin = profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+    if (!isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const organization = profile.organizations;
+    if (!organization) {
+      return NextResponse.json({ error: "Organization not found" }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { shift_ids, start, end, location_id, acknowledge_warnings } = body;
+
+    const byIds = Array.isArray(shift_ids) && shift_ids.length > 0;
+    const byRange = typeof start === "string" && typeof end === "string";
+    if (!byIds && !byRange) {
+      return NextResponse.json(
+        { error: "Provide shift_ids or a start and end date" },
+        { status: 400 }
+      );
+    }
+
+    if (byRange && (Number.isNaN(Date.parse(start)) || Number.isNaN(Date.parse(end)))) {
+      return NextResponse.json({ error: "start and end must be dates" }, { status: 400 });
+    }
+
+    const supabase = await getCachedSupabase();
+
+    let query = supabase
+      .from("shifts")
+      .select("*")
+      .eq("organization_id", profile.organization_id)
+      .eq("is_published", false);
+
+    if (byIds) {
+      query = query.in("id", shift_ids);
+    } else {
+      query = query
+        .gte("start_time", new Date(start).toISOString())
+        .lte("start_time", new Date(end).toISOString());
+    }
+
+    if (location_id) {
+      query = query.eq("location_id", location_id);
+    }
+
+    const { data: drafts, error: fetchError } = await query;
+
+    if (fetchError) {
+      console.error("Error fetching draft shifts:", fetchError);
+      return NextResponse.json({ error: "Failed to fetch shifts" }, { status: 500 });
+    }
+
+    if (!drafts || drafts.length === 0) {
+      return NextResponse.json({ success: true, data: [], published: 0 });
+    }
+
+    if (drafts.length > MAX_SHIFTS_PER_REQUEST) {
+      return NextResponse.json(
+        { error: `At most ${MAX_SHIFTS_PER_REQUEST} shifts can be published at a time` },
+        { status: 400 }
+      );
+    }
+
+    const validation = await validateShiftWrites(
+      supabase,
+      organization,
+      drafts.map((shift) => toValidationShift(shift))
+    );
+    if (isBlockedByValidation(validation, acknowledge_warnings === true)) {
+      return NextResponse.json(
+        { error: "Shifts failed validation", validation },
+        { status: 422 }
+      );
+    }
+
+    const { data: published, error } = await supabase
+      .from("shifts")
+      .update({
+        is_published: true,
+        status: "published",
+        published_at: new Date().toISOString(),
+        updated_by: user.id,
+      })
+      .in(
+        "id",
+        drafts.map((shift) => shift.id)
+      )
+      .select("*");
+
+    if (error) {
+      console.error("Error publishing shifts:", error);
+      return NextResponse.json({ error: "Failed to publish shifts" }, { status: 500 });
+    }
+
+    try {
+      await recordSchedulePublication(supabase, organization, published || [], user.id);
+      await snapshotSchedule(supabase, profile.organization_id, published || [], "publish", user.id, {
+        weekStartsOn: resolveScheduleWeekStart(organization.settings),
+        timeZone: resolveTimeZone(organization.timezone),
+      });
+    } catch (publicationError) {
+      // The shifts are published; only the summaries and history are missing
+      console.error("Error recording schedule publication:", publicationError);
+    }
+    await notifyOpenShiftsPosted(
+      supabase,
+      organization,
+      (published || []).filter((shift) => !shift.user_id)
+    );
+    await recordAuditLog(
+      createAdminClient(),
+      {
+        organizationId: profile.organization_id,
+        userId: user.id,
+        action: "shifts_published",
+        entityType: "shift",
+        metadata: {
+          source: "api",
+          count: published?.length || 0,
+          shift_ids: (published || []).map((shift) => shift.id),
+          ...(byRange ? { start, end } : {}),
+        },
+      },
+      request
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: published || [],
+      published: published?.length || 0,
+      validation,
+    });
+  } catch (error) {
+    console.error("Error in POST /api/shifts/publish:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,190 @@
+import { NextResponse } from "next/server";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { recordAuditLog } from "@/lib/audit";
+import { checkManagerScope } from "@/lib/groups";
+import {
+  SHIFT_SELECT,
+  checkShiftReferences,
+  isBlockedByValidation,
+  notifyShiftChanges,
+  parseShiftInput,
+  toShiftRow,
+  toValidationShift,
+  validateShiftWrites,
+} from "@/lib/shift-api";
+import { createAdminClient } from "@/lib/supabase/admin";
+
+/**
+ * GET /api/shifts
+ * List shifts in a date range. Employees see their own shifts and published
+ * ones; managers see every shift.
+ */
+export async function GET(request: Request) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+    const { searchParams } = new URL(request.url);
+    const start = searchParams.get("start");
+    const end = searchParams.get("end");
+    const userId = searchParams.get("user_id");
+    const locationId = searchParams.get("location_id");
+    const positionId = searchParams.get("position_id");
+    const published = searchParams.get("published");
+    const limitParam = searchParams.get("limit") || "500";
+    const offsetParam = searchParams.get("offset") || "0";
+
+    if (!/^\d+$/.test(limitParam) || Number(limitParam) < 1 || !/^\d+$/.test(offsetParam)) {
+      return NextResponse.json(
+        { error: "limit must be a positive integer and offset a non-negative integer" },
+        { status: 400 }
+      );
+    }
+
+    const limit = Math.min(Number(limitParam), 1000);
+    const offset = Number(offsetParam);
+
+    if ((start && Number.isNaN(Date.parse(start))) || (end && Number.isNaN(Date.parse(end)))) {
+      return NextResponse.json({ error: "start and end must be dates" }, { status: 400 });
+    }
+
+    const isAdmin = profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+
+    const supabase = await getCachedSupabase();
+
+    let query = supabase
+      .from("shifts")
+      .select(SHIFT_SELECT)
+      .eq("organization_id", profile.organization_id)
+      .order("start_time", { ascending: true })
+      .range(offset, offset + limit - 1);
+
+    if (!isAdmin) {
+      query = query.or(`user_id.eq.${user.id},is_published.eq.true`);
+    }
+
+    if (start) {
+      query = query.gte("start_time", new Date(start).toISOString());
+    }
+
+    if (end) {
+      query = query.lte("start_time", new Date(end).toISOString());
+    }
+
+    if (userId) {
+      query = userId === "open" ? query.is("user_id", null) : query.eq("user_id", userId);
+    }
+
+    if (locationId) {
+      query = query.eq("location_id", locationId);
+    }
+
+    if (positionId) {
+      query = query.eq("position_id", positionId);
+    }
+
+    if (published === "true" || published === "false") {
+      query = query.eq("is_published", published === "true");
+    }
+
+    const { data: shifts, error } = await query;
+
+    if (error) {
+      console.error("Error fetching shifts:", error);
+      return NextResponse.json({ error: "Failed to fetch shifts" }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, data: shifts || [] });
+  } catch (error) {
+    console.error("Error in GET /api/shifts:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/shifts
+ * Create a shift (admin/manager only). The shift is checked against the
+ * scheduling rules: errors reject it, warnings do too unless
+ * acknowledge_warnings is true.
+ */
+export async function POST(request: Request) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { user, profile } = authData;
+
+    const isAdmin = profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+    if (!isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const organization = profile.organizations;
+    if (!organization) {
+      return NextResponse.json({ error: "Organization not found" }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = parseShiftInput(body);
+    if (parsed.error !== undefined) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const supabase = await getCachedSupabase();
+
+    const referenceError = await checkShiftReferences(supabase, profile.organization_id, [parsed.data]);
+    if (referenceError) {
+      return NextResponse.json({ error: referenceError }, { status: 400 });
+    }
+
+    const scopeError = await checkManagerScope(supabase, profile, [parsed.data.user_id]);
+    if (scopeError) {
+      return NextResponse.json({ error: scopeError }, { status: 403 });
+    }
+
+    const validation = await validateShiftWrites(supabase, organization, [
+      toValidationShift(parsed.data, "new"),
+    ]);
+    if (isBlockedByValidation(validation, body.acknowledge_warnings === true)) {
+      return NextResponse.json(
+        { error: "Shift failed validation", validation },
+        { status: 422 }
+      );
+    }
+
+    const { data: shift, error } = await supabase
+      .from("shifts")
+      .insert(toShiftRow(parsed.data, { organizationId: profile.organization_id, actorId: user.id }))
+      .select(SHIFT_SELECT)
+      .single();
+
+    if (error) {
+      console.error("Error creating shift:", error);
+      return NextResponse.json({ error: "Failed to create shift" }, { status: 500 });
+    }
+
+    await notifyShiftChanges(supabase, organization, [{ before: null, after: shift }]);
+    await recordAuditLog(
+      createAdminClient(),
+      {
+        organizationId: profile.organization_id,
+        userId: user.id,
+        action: "shift_created",
+        entityType: "shift",
+        entityId: shift.id,
+        metadata: { source: "api" },
+      },
+      request
+    );
+
+    return NextResponse.json({ success: true, data: shift, validation }, { status: 201 });
+  } catch (error) {
+    console.error("Error in POST /api/shifts:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
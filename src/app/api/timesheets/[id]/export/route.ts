@@ -1,6 +1,16 @@
 import { NextResponse } from "next/server";
 import { getAuthData, getCachedSupabase } from "@/lib/auth";
 import { format, parseISO } from "date-fns";
+import { formatInTimeZone } from "@/lib/timezone";
+import {
+  calculateTimesheetTotals,
+  fetchOrganizationLogo,
+  fetchTimesheetWorkDays,
+  formatHours,
+  type TimesheetTotals,
+} from "@/lib/timesheet-export";
+import { createTimesheetPDF } from "@/lib/timesheet-pdf";
+import type { WorkDay } from "@/lib/work-days";
 
 /**
  * GET /api/timesheets/[id]/export
@@ -28,7 +38,8 @@ export async function GET(
       .from("timesheets")
       .select(`
         *,
-        profiles!timesheets_user_id_fkey (id, first_name, last_name, display_name, avatar_url)
+        profiles!timesheets_user_id_fkey (id, first_name, last_name, display_name, avatar_url, employee_code),
+        reviewer:profiles!timesheets_reviewed_by_fkey (id, first_name, last_name, display_name)
       `)
       .eq("id", id)
       .eq("organization_id", profile.organization_id)
@@ -44,44 +55,33 @@ export async function GET(
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
-    // Get time entries for this period
-    const periodStart = new Date(timesheet.period_start);
-    const periodEnd = new Date(timesheet.period_end);
-    periodEnd.setHours(23, 59, 59, 999);
+    const organization = profile.organizations;
+    if (!organization) {
+      return NextResponse.json({ error: "Organization not found" }, { status: 404 });
+    }
 
-    const { data: timeEntries } = await supabase
-      .from("time_entries")
-      .select(`
-        *,
-        locations (id, name)
-      `)
-      .eq("user_id", timesheet.user_id)
-      .eq("organization_id", profile.organization_id)
-      .gte("timestamp", periodStart.toISOString())
-      .lte("timestamp", periodEnd.toISOString())
-      .order("timestamp", { ascending: true });
+    const filename = `timesheet-${format(parseISO(timesheet.period_start), "yyyy-MM-dd")}`;
 
     if (formatType === "pdf") {
-      // Generate PDF HTML
-      const html = generatePDFHTML(timesheet, timeEntries || []);
-      
-      // For now, return HTML that can be printed to PDF
-      // In production, you might want to use a library like puppeteer or pdfkit
-      return new NextResponse(html, {
+      const logo = await fetchOrganizationLogo(organization.logo_url);
+      const pdf = await createTimesheetPDF(supabase, timesheet, organization, logo);
+
+      return new NextResponse(Buffer.from(pdf), {
         headers: {
-          "Content-Type": "text/html",
-          "Content-Disposition": `inline; filename="timesheet-${format(parseISO(timesheet.period_start), "yyyy-MM-dd")}.html"`,
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `attachment; filename="${filename}.pdf"`,
         },
       });
     }
 
     // CSV export
     if (formatType === "csv") {
-      const csv = generateCSV(timesheet, timeEntries || []);
+      const workDays = await fetchTimesheetWorkDays(supabase, timesheet, organization);
+      const csv = generateCSV(timesheet, workDays, calculateTimesheetTotals(workDays, organization));
       return new NextResponse(csv, {
         headers: {
           "Content-Type": "text/csv",
-          "Content-Disposition": `attachment; filename="timesheet-${format(parseISO(timesheet.period_start), "yyyy-MM-dd")}.csv"`,
+          "Content-Disposition": `attachment; filename="${filename}.csv"`,
         },
       });
     }
@@ -93,108 +93,10 @@ export async function GET(
   }
 }
 
-function generateCSV(timesheet: any, timeEntries: any[]): string {
-  const formatHours = (hours: number) => {
-    const h = Math.floor(hours);
-    const m = Math.round((hours - h) * 60);
-    return m > 0 ? `${h}h ${m}m` : `${h}h`;
-  };
-
-  const formatTime = (date: Date | string | null) => {
+function generateCSV(timesheet: any, workDays: WorkDay[], calculatedTotals: TimesheetTotals): string {
+  const formatTime = (date: Date | null, timeZone: string) => {
     if (!date) return "N/A";
-    return format(typeof date === "string" ? parseISO(date) : date, "h:mm a");
-  };
-
-  // Calculate daily breakdown
-  const dailyBreakdown: Array<{
-    date: Date;
-    clockIn: Date | null;
-    clockOut: Date | null;
-    totalWorkMinutes: number;
-    totalBreakMinutes: number;
-    location: string | null;
-    breaks: number;
-  }> = [];
-
-  let currentClockIn: Date | null = null;
-  let currentBreakStart: Date | null = null;
-  const dayData: Record<string, any> = {};
-  const dayBreaks: Record<string, Array<{ start: Date; end: Date }>> = {};
-
-  timeEntries.forEach((entry) => {
-    const entryTime = parseISO(entry.timestamp);
-    const dateKey = format(entryTime, "yyyy-MM-dd");
-
-    if (!dayData[dateKey]) {
-      dayData[dateKey] = {
-        date: entryTime,
-        clockIn: null,
-        clockOut: null,
-        totalWorkMinutes: 0,
-        totalBreakMinutes: 0,
-        location: entry.locations?.name || null,
-      };
-      dayBreaks[dateKey] = [];
-    }
-
-    switch (entry.entry_type) {
-      case "clock_in":
-        currentClockIn = entryTime;
-        dayData[dateKey].clockIn = entryTime;
-        dayData[dateKey].location = entry.locations?.name || dayData[dateKey].location;
-        break;
-      case "clock_out":
-        if (currentClockIn) {
-          dayData[dateKey].clockOut = entryTime;
-          const workMinutes = entryTime.getTime() - currentClockIn.getTime();
-          const breakMinutes = dayBreaks[dateKey].reduce(
-            (sum, b) => sum + (b.end.getTime() - b.start.getTime()),
-            0
-          ) / (1000 * 60);
-          dayData[dateKey].totalWorkMinutes = (workMinutes / (1000 * 60)) - breakMinutes;
-          dayData[dateKey].totalBreakMinutes = breakMinutes;
-          currentClockIn = null;
-        }
-        break;
-      case "break_start":
-        currentBreakStart = entryTime;
-        break;
-      case "break_end":
-        if (currentBreakStart) {
-          dayBreaks[dateKey].push({
-            start: currentBreakStart,
-            end: entryTime,
-          });
-          currentBreakStart = null;
-        }
-        break;
-    }
-  });
-
-  Object.values(dayData).forEach((day) => {
-    dailyBreakdown.push({
-      date: day.date,
-      clockIn: day.clockIn,
-      clockOut: day.clockOut,
-      totalWorkMinutes: day.totalWorkMinutes,
-      totalBreakMinutes: day.totalBreakMinutes,
-      location: day.location,
-      breaks: dayBreaks[format(day.date, "yyyy-MM-dd")]?.length || 0,
-    });
-  });
-
-  dailyBreakdown.sort((a, b) => a.date.getTime() - b.date.getTime());
-
-  // Calculate totals from daily breakdown (not stored values)
-  const totalWorkMinutes = dailyBreakdown.reduce((sum, day) => sum + day.totalWorkMinutes, 0);
-  const totalBreakMinutes = dailyBreakdown.reduce((sum, day) => sum + day.totalBreakMinutes, 0);
-  const regularHoursLimit = 40 * 60; // 40 hours in minutes
-  const overtimeMinutes = Math.max(0, totalWorkMinutes - regularHoursLimit);
-
-  const calculatedTotals = {
-    totalHours: totalWorkMinutes / 60,
-    breakHours: totalBreakMinutes / 60,
-    overtimeHours: overtimeMinutes / 60,
+    return formatInTimeZone(date, timeZone);
   };
 
   const headers = [
@@ -208,14 +110,14 @@ function generateCSV(timesheet: any, timeEntries: any[]): string {
     "Number of Breaks",
   ];
 
-  const rows = dailyBreakdown.map((day) => [
-    format(day.date, "yyyy-MM-dd"),
-    format(day.date, "EEEE"),
+  const rows = workDays.map((day) => [
+    day.date,
+    format(parseISO(day.date), "EEEE"),
     day.location || "N/A",
-    day.clockIn ? formatTime(day.clockIn) : "N/A",
-    day.clockOut ? formatTime(day.clockOut) : "N/A",
-    formatHours(day.totalWorkMinutes / 60),
-    formatHours(day.totalBreakMinutes / 60),
+    formatTime(day.clockIn, day.timeZone),
+    formatTime(day.clockOut, day.timeZone),
+    formatHours(day.workMinutes / 60),
+    formatHours(day.breakMinutes / 60),
     String(day.breaks),
   ]);
 
@@ -236,243 +138,3 @@ function generateCSV(timesheet: any, timeEntries: any[]): string {
 
   return csvContent;
 }
-
-function generatePDFHTML(timesheet: any, timeEntries: any[]): string {
-  const employeeName = timesheet.profiles?.display_name || 
-    `${timesheet.profiles?.first_name} ${timesheet.profiles?.last_name}`;
-  const period = `${format(parseISO(timesheet.period_start), "MMM d")} - ${format(parseISO(timesheet.period_end), "MMM d, yyyy")}`;
-  
-  const formatHours = (hours: number) => {
-    const h = Math.floor(hours);
-    const m = Math.round((hours - h) * 60);
-    return m > 0 ? `${h}h ${m}m` : `${h}h`;
-  };
-
-  const formatTime = (date: Date | string | null) => {
-    if (!date) return "N/A";
-    return format(typeof date === "string" ? parseISO(date) : date, "h:mm a");
-  };
-
-  // Calculate daily breakdown (similar to detail component)
-  const dailyBreakdown: Array<{
-    date: Date;
-    clockIn: Date | null;
-    clockOut: Date | null;
-    totalWorkMinutes: number;
-    totalBreakMinutes: number;
-    location: string | null;
-  }> = [];
-
-  let currentClockIn: Date | null = null;
-  const dayData: Record<string, any> = {};
-  const dayBreaks: Record<string, Array<{ start: Date; end: Date }>> = {};
-
-  timeEntries.forEach((entry) => {
-    const entryTime = parseISO(entry.timestamp);
-    const dateKey = format(entryTime, "yyyy-MM-dd");
-
-    if (!dayData[dateKey]) {
-      dayData[dateKey] = {
-        date: entryTime,
-        clockIn: null,
-        clockOut: null,
-        totalWorkMinutes: 0,
-        totalBreakMinutes: 0,
-        location: entry.locations?.name || null,
-      };
-      dayBreaks[dateKey] = [];
-    }
-
-    switch (entry.entry_type) {
-      case "clock_in":
-        currentClockIn = entryTime;
-        dayData[dateKey].clockIn = entryTime;
-        dayData[dateKey].location = entry.locations?.name || dayData[dateKey].location;
-        break;
-      case "clock_out":
-        if (currentClockIn) {
-          dayData[dateKey].clockOut = entryTime;
-          const workMinutes = (entryTime.getTime() - currentClockIn.getTime()) / (1000 * 60);
-          const breakMinutes = (dayBreaks[dateKey].reduce(
-            (sum, b) => sum + (b.end.getTime() - b.start.getTime()),
-            0
-          ) / (1000 * 60));
-          dayData[dateKey].totalWorkMinutes = workMinutes - breakMinutes;
-          dayData[dateKey].totalBreakMinutes = breakMinutes;
-          currentClockIn = null;
-        }
-        break;
-      case "break_start":
-        // Will be handled by break_end
-        break;
-      case "break_end":
-        const breakStart = timeEntries.find(
-          (e) => e.entry_type === "break_start" && 
-          format(parseISO(e.timestamp), "yyyy-MM-dd") === dateKey &&
-          parseISO(e.timestamp) < entryTime
-        );
-        if (breakStart) {
-          dayBreaks[dateKey].push({
-            start: parseISO(breakStart.timestamp),
-            end: entryTime,
-          });
-        }
-        break;
-    }
-  });
-
-  Object.values(dayData).forEach((day) => {
-    dailyBreakdown.push({
-      date: day.date,
-      clockIn: day.clockIn,
-      clockOut: day.clockOut,
-      totalWorkMinutes: day.totalWorkMinutes,
-      totalBreakMinutes: day.totalBreakMinutes,
-      location: day.location,
-    });
-  });
-
-  dailyBreakdown.sort((a, b) => a.date.getTime() - b.date.getTime());
-
-  // Calculate totals from daily breakdown (not stored values)
-  const totalWorkMinutes = dailyBreakdown.reduce((sum, day) => sum + day.totalWorkMinutes, 0);
-  const totalBreakMinutes = dailyBreakdown.reduce((sum, day) => sum + day.totalBreakMinutes, 0);
-  const regularHoursLimit = 40 * 60; // 40 hours in minutes
-  const overtimeMinutes = Math.max(0, totalWorkMinutes - regularHoursLimit);
-
-  const calculatedTotals = {
-    totalHours: totalWorkMinutes / 60,
-    breakHours: totalBreakMinutes / 60,
-    overtimeHours: overtimeMinutes / 60,
-  };
-
-  const rowsHTML = dailyBreakdown.length > 0
-    ? dailyBreakdown.map((day) => `
-      <tr>
-        <td>${format(day.date, "yyyy-MM-dd")}</td>
-        <td>${format(day.date, "EEEE")}</td>
-        <td>${day.location || "N/A"}</td>
-        <td>${formatTime(day.clockIn)}</td>
-        <td>${formatTime(day.clockOut)}</td>
-        <td>${formatHours(day.totalWorkMinutes / 60)}</td>
-        <td>${formatHours(day.totalBreakMinutes / 60)}</td>
-      </tr>
-    `).join("")
-    : "<tr><td colspan='7'>No time entries</td></tr>";
-
-  return `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="UTF-8">
-  <title>Timesheet - ${period}</title>
-  <style>
-    body {
-      font-family: Arial, sans-serif;
-      padding: 20px;
-      max-width: 800px;
-      margin: 0 auto;
-    }
-    h1 {
-      margin-bottom: 10px;
-    }
-    .header {
-      border-bottom: 2px solid #000;
-      padding-bottom: 10px;
-      margin-bottom: 20px;
-    }
-    table {
-      width: 100%;
-      border-collapse: collapse;
-      margin-bottom: 20px;
-    }
-    th, td {
-      border: 1px solid #ddd;
-      padding: 8px;
-      text-align: left;
-    }
-    th {
-      background-color: #f2f2f2;
-      font-weight: bold;
-    }
-    .summary {
-      margin-top: 20px;
-      padding: 15px;
-      background-color: #f9f9f9;
-      border: 1px solid #ddd;
-    }
-    .summary-row {
-      display: flex;
-      justify-content: space-between;
-      margin-bottom: 5px;
-    }
-    @media print {
-      body {
-        padding: 0;
-      }
-      @page {
-        margin: 1cm;
-      }
-    }
-  </style>
-</head>
-<body>
-  <div class="header">
-    <h1>Timesheet</h1>
-    <p><strong>Employee:</strong> ${employeeName}</p>
-    <p><strong>Period:</strong> ${period}</p>
-    <p><strong>Status:</strong> ${timesheet.status || "N/A"}</p>
-  </div>
-
-  <table>
-    <thead>
-      <tr>
-        <th>Date</th>
-        <th>Day</th>
-        <th>Location</th>
-        <th>Clock In</th>
-        <th>Clock Out</th>
-        <th>Work Hours</th>
-        <th>Break Hours</th>
-      </tr>
-    </thead>
-    <tbody>
-      ${rowsHTML}
-    </tbody>
-  </table>
-
-  <div class="summary">
-    <h2>Summary</h2>
-    <div class="summary-row">
-      <span>Total Hours:</span>
-      <span>${formatHours(calculatedTotals.totalHours)}</span>
-    </div>
-    <div class="summary-row">
-      <span>Break Hours:</span>
-      <span>${formatHours(calculatedTotals.breakHours)}</span>
-    </div>
-    <div class="summary-row">
-      <span>Overtime Hours:</span>
-      <span>${formatHours(calculatedTotals.overtimeHours)}</span>
-    </div>
-    ${timesheet.review_comment ? `
-    <div class="summary-row" style="margin-top: 10px; padding-top: 10px; border-top: 1px solid #ddd;">
-      <span><strong>Review Comment:</strong></span>
-    </div>
-    <div style="margin-top: 5px;">
-      ${timesheet.review_comment}
-    </div>
-    ` : ""}
-  </div>
-
-  <script>
-    window.onload = function() {
-      setTimeout(function() {
-        window.print();
-      }, 250);
-    };
-  </script>
-</body>
-</html>
-  `;
-}
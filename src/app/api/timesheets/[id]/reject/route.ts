@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { checkManagerScope } from "@/lib/groups";
 import { createTimesheetNotification } from "@/lib/notifications";
 
 /**
@@ -41,6 +42,11 @@ export async function PUT(
       return NextResponse.json({ error: "Timesheet not found" }, { status: 404 });
     }
 
+    const scopeError = await checkManagerScope(supabase, profile, [existingTimesheet.user_id]);
+    if (scopeError) {
+      return NextResponse.json({ error: scopeError }, { status: 403 });
+    }
+
     if (existingTimesheet.status !== "submitted") {
       return NextResponse.json(
         { error: "Can only reject submitted timesheets" },
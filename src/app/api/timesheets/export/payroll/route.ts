@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { buildPayrollRows, getPayrollExportProfile } from "@/lib/payroll-export";
+import { getHolidayLocationId, resolvePTOCalendarSettings } from "@/lib/pto-days";
+
+const PRIVILEGED_ROLES = ["admin", "owner", "manager"];
+
+/**
+ * GET /api/timesheets/export/payroll
+ * Download an org-wide payroll file for a pay period in the chosen provider layout
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { profile } = authData;
+    if (!PRIVILEGED_ROLES.includes(profile.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const periodStart = searchParams.get("period_start");
+    const periodEnd = searchParams.get("period_end");
+    const exportProfile = getPayrollExportProfile(searchParams.get("profile"));
+
+    if (!periodStart || !periodEnd) {
+      return NextResponse.json(
+        { error: "period_start and period_end are required" },
+        { status: 400 }
+      );
+    }
+
+    if (!exportProfile) {
+      return NextResponse.json({ error: "Unknown export profile" }, { status: 400 });
+    }
+
+    const supabase = await getCachedSupabase();
+    const employeeColumns = "first_name, last_name, email, employee_code, hourly_rate";
+
+    const { data: timesheets, error } = await supabase
+      .from("timesheets")
+      .select(`
+        user_id,
+        total_hours,
+        overtime_hours,
+        profiles!timesheets_user_id_fkey (${employeeColumns})
+      `)
+      .eq("organization_id", profile.organization_id)
+      .eq("status", "approved")
+      .gte("period_start", periodStart)
+      .lte("period_end", periodEnd);
+
+    if (error) {
+      console.error("Error fetching timesheets:", error);
+      return NextResponse.json({ error: "Failed to fetch timesheets" }, { status: 500 });
+    }
+
+    // Approved PTO overlapping the pay period
+    const { data: ptoRequests, error: ptoError } = await supabase
+      .from("pto_requests")
+      .select(`
+        user_id,
+        start_date,
+        end_date,
+        total_days,
+        duration_type,
+        hours,
+        profiles!pto_requests_user_id_fkey (${employeeColumns})
+      `)
+      .eq("organization_id", profile.organization_id)
+      .eq("status", "approved")
+      .lte("start_date", periodEnd)
+      .gte("end_date", periodStart);
+
+    if (ptoError) {
+      console.error("Error fetching PTO requests:", ptoError);
+      return NextResponse.json({ error: "Failed to fetch PTO requests" }, { status: 500 });
+    }
+
+    // PTO is spread over working days, so load the holidays it spans and
+    // each employee's locations
+    const requests = ptoRequests || [];
+    const ptoUserIds = Array.from(new Set(requests.map((request) => request.user_id)));
+    const earliestStart = requests.reduce((min, request) => (request.start_date < min ? request.start_date : min), periodStart);
+    const latestEnd = requests.reduce((max, request) => (request.end_date > max ? request.end_date : max), periodEnd);
+    const [holidaysResult, locationsResult] = await Promise.all([
+      supabase
+        .from("holidays")
+        .select("date, name, location_id")
+        .eq("organization_id", profile.organization_id)
+        .gte("date", earliestStart)
+        .lte("date", latestEnd),
+      supabase.from("user_locations").select("user_id, location_id, is_primary").in("user_id", ptoUserIds),
+    ]);
+
+    if (holidaysResult.error || locationsResult.error) {
+      console.error("Error fetching PTO calendar:", holidaysResult.error || locationsResult.error);
+      return NextResponse.json({ error: "Failed to fetch PTO calendar" }, { status: 500 });
+    }
+
+    const locationIds = new Map(
+      ptoUserIds.map((userId) => [
+        userId,
+        getHolidayLocationId((locationsResult.data || []).filter((location) => location.user_id === userId)),
+      ])
+    );
+
+    const period = { start: periodStart, end: periodEnd };
+    const rows = buildPayrollRows(timesheets || [], requests, period, {
+      settings: resolvePTOCalendarSettings(profile.organizations?.settings),
+      holidays: holidaysResult.data || [],
+      locationIds,
+    });
+
+    if (rows.length === 0) {
+      return NextResponse.json(
+        { error: "No approved timesheets found for this period" },
+        { status: 404 }
+      );
+    }
+
+    const content = exportProfile.render(rows, period, {
+      companyCode: searchParams.get("company_code") || undefined,
+    });
+    const filename = `payroll_${exportProfile.id}_${periodStart}_${periodEnd}.${exportProfile.fileExtension}`;
+
+    return new NextResponse(content, {
+      headers: {
+        "Content-Type": `${exportProfile.contentType}; charset=utf-8`,
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error in GET /api/timesheets/export/payroll:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import JSZip from "jszip";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { fetchOrganizationLogo } from "@/lib/timesheet-export";
+import { createTimesheetPDF } from "@/lib/timesheet-pdf";
+
+const PRIVILEGED_ROLES = ["admin", "owner", "manager"];
+
+/**
+ * GET /api/timesheets/export/pdf
+ * Download a ZIP of PDFs for every approved timesheet in a period (admin/manager only)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { profile } = authData;
+    if (!PRIVILEGED_ROLES.includes(profile.role || "")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const organization = profile.organizations;
+    if (!organization) {
+      return NextResponse.json({ error: "Organization not found" }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const periodStart = searchParams.get("period_start");
+    const periodEnd = searchParams.get("period_end");
+
+    if (!periodStart || !periodEnd) {
+      return NextResponse.json(
+        { error: "period_start and period_end are required" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await getCachedSupabase();
+
+    // Approved timesheets that fall within the period
+    const { data: timesheets, error } = await supabase
+      .from("timesheets")
+      .select(`
+        *,
+        profiles!timesheets_user_id_fkey (id, first_name, last_name, display_name, avatar_url, employee_code),
+        reviewer:profiles!timesheets_reviewed_by_fkey (id, first_name, last_name, display_name)
+      `)
+      .eq("organization_id", profile.organization_id)
+      .eq("status", "approved")
+      .gte("period_start", periodStart)
+      .lte("period_end", periodEnd)
+      .order("period_start", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching timesheets:", error);
+      return NextResponse.json({ error: "Failed to fetch timesheets" }, { status: 500 });
+    }
+
+    if (!timesheets || timesheets.length === 0) {
+      return NextResponse.json(
+        { error: "No approved timesheets found for this period" },
+        { status: 404 }
+      );
+    }
+
+    const logo = await fetchOrganizationLogo(organization.logo_url);
+    const zip = new JSZip();
+    const usedNames = new Set<string>();
+
+    // Render one at a time to keep memory use flat for large organizations
+    for (const timesheet of timesheets) {
+      const pdf = await createTimesheetPDF(supabase, timesheet, organization, logo);
+      zip.file(getUniqueFilename(timesheet, usedNames), pdf);
+    }
+
+    const archive = await zip.generateAsync({ type: "uint8array" });
+
+    return new NextResponse(Buffer.from(archive), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="timesheets_${periodStart}_${periodEnd}.zip"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error in GET /api/timesheets/export/pdf:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * Build a filesystem-safe, unique PDF filename for a timesheet
+ */
+function getUniqueFilename(
+  timesheet: {
+    period_start: string;
+    profiles: { first_name: string; last_name: string; employee_code: string | null } | null;
+  },
+  usedNames: Set<string>
+): string {
+  const person = timesheet.profiles;
+  const label = [person?.employee_code, person?.last_name, person?.first_name]
+    .filter(Boolean)
+    .join("_")
+    .replace(/[^a-zA-Z0-9_-]+/g, "-") || "employee";
+
+  const base = `${label}_${timesheet.period_start}`;
+  let filename = `${base}.pdf`;
+  let counter = 2;
+  while (usedNames.has(filename)) {
+    filename = `${base}_${counter}.pdf`;
+    counter++;
+  }
+  usedNames.add(filename);
+  return filename;
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { getAuthData, getCachedSupabase } from "@/lib/auth";
+import { getPayPeriodForDate, resolvePayPeriodSettings } from "@/lib/pay-periods";
+import { generateTimesheetsForPeriod } from "@/lib/timesheet-generation";
+import { getDateKeyInTimeZone, resolveTimeZone } from "@/lib/timezone";
+
+/**
+ * POST /api/timesheets/generate/all
+ * Generate draft timesheets for every active employee (admin/manager only).
+ * Defaults to the organization's current pay period.
+ */
+export async function POST(request: Request) {
+  try {
+    const authData = await getAuthData();
+    if (!authData) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { profile } = authData;
+
+    const isAdmin = profile.role === "admin" || profile.role === "owner" || profile.role === "manager";
+    if (!isAdmin) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const organization = profile.organizations;
+    if (!organization) {
+      return NextResponse.json({ error: "Organization not found" }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { period_start, period_end } = body;
+
+    if ((period_start && !period_end) || (!period_start && period_end)) {
+      return NextResponse.json(
+        { error: "period_start and period_end must be provided together" },
+        { status: 400 }
+      );
+    }
+
+    const period = period_start
+      ? { start: period_start, end: period_end }
+      : getPayPeriodForDate(
+          getDateKeyInTimeZone(new Date(), resolveTimeZone(organization.timezone)),
+          resolvePayPeriodSettings(organization.settings)
+        );
+
+    if (period.start > period.end) {
+      return NextResponse.json(
+        { error: "period_end must be on or after period_start" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await getCachedSupabase();
+    const summary = await generateTimesheetsForPeriod(supabase, organization, period);
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error("Error in POST /api/timesheets/generate/all:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -1,8 +1,6 @@
 import { NextResponse } from "next/server";
 import { getAuthData, getCachedSupabase } from "@/lib/auth";
-import type { Database } from "@/types/database.types";
-
-type TimeEntry = Database["public"]["Tables"]["time_entries"]["Row"];
+import { calculateTimesheetForUser } from "@/lib/timesheet-generation";
 
 /**
  * POST /api/timesheets/generate
@@ -55,29 +53,25 @@ export async function POST(request: Request) {
       );
     }
 
-    // Fetch time entries for the period
-    const periodStartDate = new Date(period_start);
-    periodStartDate.setHours(0, 0, 0, 0);
-    const periodEndDate = new Date(period_end);
-    periodEndDate.setHours(23, 59, 59, 999);
-
-    const { data: timeEntries, error: entriesError } = await supabase
-      .from("time_entries")
-      .select("*")
-      .eq("user_id", targetUserId)
-      .eq("organization_id", profile.organization_id)
-      .gte("timestamp", periodStartDate.toISOString())
-      .lte("timestamp", periodEndDate.toISOString())
-      .order("timestamp", { ascending: true });
-
-    if (entriesError) {
-      console.error("Error fetching time entries:", entriesError);
+    // Calculate timesheet data from time entries
+    const organization = profile.organizations;
+    let calculations;
+    try {
+      calculations = await calculateTimesheetForUser(
+        supabase,
+        {
+          id: profile.organization_id,
+          settings: organization?.settings ?? null,
+          timezone: organization?.timezone ?? null,
+        },
+        targetUserId,
+        { start: period_start, end: period_end }
+      );
+    } catch (error) {
+      console.error("Error fetching time entries:", error);
       return NextResponse.json({ error: "Failed to fetch time entries" }, { status: 500 });
     }
 
-    // Calculate timesheet data from time entries
-    const calculations = calculateTimesheetFromEntries(timeEntries || []);
-
     // Create the timesheet
     const { data: newTimesheet, error: createError } = await supabase
       .from("timesheets")
@@ -107,7 +101,7 @@ export async function POST(request: Request) {
         success: true,
         data: newTimesheet,
         calculations: {
-          entries_processed: timeEntries?.length || 0,
+          entries_processed: calculations.entriesProcessed,
           total_hours: calculations.totalHours,
           break_hours: calculations.breakHours,
           overtime_hours: calculations.overtimeHours,
@@ -121,88 +115,3 @@ export async function POST(request: Request) {
   }
 }
 
-/**
- * Calculate timesheet totals from time entries
- */
-function calculateTimesheetFromEntries(entries: TimeEntry[]): {
-  totalHours: number;
-  breakHours: number;
-  overtimeHours: number;
-} {
-  if (!entries || entries.length === 0) {
-    return { totalHours: 0, breakHours: 0, overtimeHours: 0 };
-  }
-
-  // Group entries by day
-  const entriesByDay = new Map<string, TimeEntry[]>();
-  entries.forEach((entry) => {
-    const date = new Date(entry.timestamp).toISOString().split("T")[0];
-    if (!entriesByDay.has(date)) {
-      entriesByDay.set(date, []);
-    }
-    entriesByDay.get(date)!.push(entry);
-  });
-
-  let totalHours = 0;
-  let breakHours = 0;
-  const dailyHours: number[] = [];
-
-  // Process each day
-  entriesByDay.forEach((dayEntries) => {
-    const sortedEntries = dayEntries.sort(
-      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
-
-    let clockIn: Date | null = null;
-    let clockOut: Date | null = null;
-    let breakStart: Date | null = null;
-    let breakEnd: Date | null = null;
-    let dayWorkHours = 0;
-    let dayBreakHours = 0;
-
-    sortedEntries.forEach((entry) => {
-      const entryTime = new Date(entry.timestamp);
-
-      switch (entry.entry_type) {
-        case "clock_in":
-          clockIn = entryTime;
-          break;
-        case "clock_out":
-          clockOut = entryTime;
-          if (clockIn) {
-            const workMs = clockOut.getTime() - clockIn.getTime();
-            dayWorkHours += workMs / (1000 * 60 * 60);
-          }
-          break;
-        case "break_start":
-          breakStart = entryTime;
-          break;
-        case "break_end":
-          breakEnd = entryTime;
-          if (breakStart) {
-            const breakMs = breakEnd.getTime() - breakStart.getTime();
-            dayBreakHours += breakMs / (1000 * 60 * 60);
-          }
-          break;
-      }
-    });
-
-    // Subtract break time from work hours
-    dayWorkHours = Math.max(0, dayWorkHours - dayBreakHours);
-    totalHours += dayWorkHours;
-    breakHours += dayBreakHours;
-    dailyHours.push(dayWorkHours);
-  });
-
-  // Calculate overtime (assuming 8 hours/day is standard, can be configurable)
-  const standardHoursPerDay = 8;
-  const overtimeHours = dailyHours.reduce((sum, hours) => {
-    return sum + Math.max(0, hours - standardHoursPerDay);
-  }, 0);
-
-  return {
-    totalHours: Math.round(totalHours * 100) / 100, // Round to 2 decimal places
-    breakHours: Math.round(breakHours * 100) / 100,
-    overtimeHours: Math.round(overtimeHours * 100) / 100,
-  };
-}
@@ -0,0 +1,457 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { useRouter } from "next/navigation";
+import { createClient } from "@/lib/supabase/client";
+import type { Database } from "@/types/database.types";
+import {
+  attendanceExceptionLabels,
+  type AttendanceExceptionStatus,
+  type AttendanceExceptionType,
+} from "@/lib/attendance";
+import { formatInTimeZone } from "@/lib/timezone";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { toast } from "sonner";
+import { CheckCircle2, Loader2, RefreshCw, UserX } from "lucide-react";
+
+type AttendanceExceptionRow = Database["public"]["Tables"]["attendance_exceptions"]["Row"];
+
+type QueueException = AttendanceExceptionRow & {
+  profiles: {
+    id: string;
+    first_name: string;
+    last_name: string;
+    display_name: string | null;
+    avatar_url: string | null;
+  } | null;
+  shifts: {
+    id: string;
+    start_time: string;
+    end_time: string;
+    break_minutes: number | null;
+    locations: { name: string } | null;
+  } | null;
+};
+
+interface AttendanceExceptionsQueueProps {
+  organizationId: string;
+  exceptions: QueueException[];
+  timeZone: string;
+}
+
+const typeColors: Record<AttendanceExceptionType, string> = {
+  late_clock_in: "bg-yellow-100 text-yellow-800",
+  early_clock_out: "bg-orange-100 text-orange-800",
+  missed_break: "bg-purple-100 text-purple-800",
+  no_show: "bg-red-100 text-red-800",
+  unscheduled_work: "bg-blue-100 text-blue-800",
+};
+
+const ALL = "all";
+
+export function AttendanceExceptionsQueue({
+  organizationId,
+  exceptions,
+  timeZone,
+}: AttendanceExceptionsQueueProps) {
+  const router = useRouter();
+  const supabase = createClient();
+  const [statusFilter, setStatusFilter] = useState<AttendanceExceptionStatus | typeof ALL>("open");
+  const [typeFilter, setTypeFilter] = useState<AttendanceExceptionType | typeof ALL>(ALL);
+  const [syncing, setSyncing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [reviewing, setReviewing] = useState<{
+    exception: QueueException;
+    status: AttendanceExceptionStatus;
+  } | null>(null);
+  const [note, setNote] = useState("");
+
+  // New exceptions appear as they are detected; no-shows also raise a toast
+  useEffect(() => {
+    const channel = supabase
+      .channel(`attendance:${organizationId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "attendance_exceptions",
+          filter: `organization_id=eq.${organizationId}`,
+        },
+        (payload) => {
+          if (payload.eventType === "INSERT" && (payload.new as AttendanceExceptionRow).type === "no_show") {
+            toast.warning("New no-show detected", { duration: 10000 });
+          }
+          router.refresh();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [organizationId, supabase, router]);
+
+  const filtered = useMemo(
+    () =>
+      exceptions.filter(
+        (exception) =>
+          (statusFilter === ALL || exception.status === statusFilter) &&
+          (typeFilter === ALL || exception.type === typeFilter)
+      ),
+    [exceptions, statusFilter, typeFilter]
+  );
+
+  const openCount = exceptions.filter((exception) => exception.status === "open").length;
+
+  const refresh = async () => {
+    setSyncing(true);
+    try {
+      const response = await fetch("/api/attendance/sync", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ scope: "organization" }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to check attendance");
+      }
+
+      toast.success(
+        data.data.created > 0
+          ? `Found ${data.data.created} new exception${data.data.created !== 1 ? "s" : ""}`
+          : "Attendance is up to date"
+      );
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Failed to check attendance");
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const updateStatus = async (
+    exception: QueueException,
+    status: AttendanceExceptionStatus,
+    exceptionNote?: string
+  ) => {
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/attendance/exceptions/${exception.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status, note: exceptionNote }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update exception");
+      }
+
+      toast.success(
+        status === "open" ? "Exception reopened" : status === "excused" ? "Exception excused" : "Exception resolved"
+      );
+      setReviewing(null);
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Failed to update exception");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openReview = (exception: QueueException, status: AttendanceExceptionStatus) => {
+    setNote(exception.note || "");
+    setReviewing({ exception, status });
+  };
+
+  const getName = (exception: QueueException) =>
+    exception.profiles
+      ? exception.profiles.display_name ||
+        `${exception.profiles.first_name} ${exception.profiles.last_name}`
+      : "Unknown";
+
+  const getInitials = (name: string) =>
+    name
+      .split(" ")
+      .map((n) => n[0])
+      .join("")
+      .toUpperCase()
+      .slice(0, 2);
+
+  const formatWhen = (value: string) =>
+    formatInTimeZone(new Date(value), timeZone, {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    });
+
+  const describe = (exception: QueueException) => {
+    const minutes = exception.minutes ?? 0;
+    switch (exception.type as AttendanceExceptionType) {
+      case "late_clock_in":
+        return `${minutes} min late`;
+      case "early_clock_out":
+        return `Left ${minutes} min early`;
+      case "missed_break":
+        return `${minutes} min of break not taken`;
+      case "no_show":
+        return "No clock-in";
+      case "unscheduled_work":
+        return exception.minutes === null
+          ? "Still clocked in"
+          : `${Math.floor(minutes / 60)}h ${minutes % 60}m worked`;
+      default:
+        return "";
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold">Attendance Exceptions</h2>
+          <p className="text-sm text-muted-foreground">
+            Punches compared with published shifts over the last 30 days
+          </p>
+        </div>
+        <Button variant="outline" onClick={refresh} disabled={syncing}>
+          {syncing ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <RefreshCw className="h-4 w-4 mr-2" />
+          )}
+          Check Now
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <Tabs
+          value={statusFilter}
+          onValueChange={(value) => setStatusFilter(value as AttendanceExceptionStatus | typeof ALL)}
+        >
+          <TabsList>
+            <TabsTrigger value="open">
+              Open
+              {openCount > 0 && (
+                <Badge variant="destructive" className="ml-2 h-5 px-1.5">
+                  {openCount}
+                </Badge>
+              )}
+            </TabsTrigger>
+            <TabsTrigger value="resolved">Resolved</TabsTrigger>
+            <TabsTrigger value="excused">Excused</TabsTrigger>
+            <TabsTrigger value={ALL}>All</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <Select
+          value={typeFilter}
+          onValueChange={(value) => setTypeFilter(value as AttendanceExceptionType | typeof ALL)}
+        >
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All types</SelectItem>
+            {Object.entries(attendanceExceptionLabels).map(([type, label]) => (
+              <SelectItem key={type} value={type}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Exceptions</CardTitle>
+          <CardDescription>
+            Resolve an exception once it has been dealt with, or excuse it when it was expected
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {filtered.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Employee</TableHead>
+                  <TableHead>Exception</TableHead>
+                  <TableHead>Shift</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filtered.map((exception) => {
+                  const name = getName(exception);
+                  const type = exception.type as AttendanceExceptionType;
+
+                  return (
+                    <TableRow key={exception.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-3">
+                          <Avatar className="h-8 w-8">
+                            <AvatarImage src={exception.profiles?.avatar_url || undefined} />
+                            <AvatarFallback className="text-xs">{getInitials(name)}</AvatarFallback>
+                          </Avatar>
+                          <span className="font-medium">{name}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={typeColors[type]} variant="secondary">
+                          {attendanceExceptionLabels[type] || exception.type}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {exception.shifts ? (
+                          <div>
+                            <div>
+                              {formatWhen(exception.shifts.start_time)} –{" "}
+                              {formatInTimeZone(new Date(exception.shifts.end_time), timeZone)}
+                            </div>
+                            {exception.shifts.locations && (
+                              <div className="text-muted-foreground">
+                                {exception.shifts.locations.name}
+                              </div>
+                            )}
+                          </div>
+                        ) : (
+                          <span className="text-muted-foreground">
+                            Not scheduled (clocked in {formatWhen(exception.occurred_at)})
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <div>{describe(exception)}</div>
+                        {exception.note && (
+                          <div className="text-muted-foreground">{exception.note}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {exception.status === "open" ? (
+                          <div className="flex justify-end gap-2">
+                            <Button size="sm" onClick={() => openReview(exception, "resolved")}>
+                              Resolve
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => openReview(exception, "excused")}
+                            >
+                              Excuse
+                            </Button>
+                          </div>
+                        ) : (
+                          <div className="flex items-center justify-end gap-2">
+                            <Badge variant="outline" className="capitalize">
+                              {exception.status}
+                            </Badge>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              disabled={saving}
+                              onClick={() => updateStatus(exception, "open")}
+                            >
+                              Reopen
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="flex flex-col items-center justify-center py-10">
+              {statusFilter === "open" ? (
+                <CheckCircle2 className="h-12 w-12 text-green-500 mb-4" />
+              ) : (
+                <UserX className="h-12 w-12 text-muted-foreground mb-4" />
+              )}
+              <p className="text-muted-foreground">
+                {statusFilter === "open" ? "No open exceptions" : "No exceptions"}
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {reviewing?.status === "excused" ? "Excuse Exception" : "Resolve Exception"}
+            </DialogTitle>
+            <DialogDescription>
+              {reviewing &&
+                `${attendanceExceptionLabels[reviewing.exception.type as AttendanceExceptionType]} for ${getName(reviewing.exception)}: ${describe(reviewing.exception)}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="exceptionNote">Note</Label>
+            <Textarea
+              id="exceptionNote"
+              placeholder="Optional note, e.g. called in sick"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewing(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => reviewing && updateStatus(reviewing.exception, reviewing.status, note)}
+              disabled={saving}
+            >
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {reviewing?.status === "excused" ? "Excuse" : "Resolve"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
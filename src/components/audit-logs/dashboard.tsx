@@ -29,6 +29,9 @@ import {
   UserCog,
   Briefcase,
   CheckSquare,
+  UsersRound,
+  DollarSign,
+  ListChecks,
 } from "lucide-react";
 
 import type { Json } from "@/types/database.types";
@@ -61,9 +64,27 @@ const actionLabels: Record<string, { label: string; color: string }> = {
   shift_created: { label: "Shift Created", color: "bg-green-100 text-green-800" },
   shift_updated: { label: "Shift Updated", color: "bg-yellow-100 text-yellow-800" },
   shift_deleted: { label: "Shift Deleted", color: "bg-red-100 text-red-800" },
+  shift_moved: { label: "Shift Moved", color: "bg-yellow-100 text-yellow-800" },
+  shifts_bulk_created: { label: "Shifts Created", color: "bg-green-100 text-green-800" },
+  shifts_copied: { label: "Shifts Copied", color: "bg-green-100 text-green-800" },
+  shifts_published: { label: "Shifts Published", color: "bg-blue-100 text-blue-800" },
+  rotation_applied: { label: "Rotation Applied", color: "bg-green-100 text-green-800" },
   pto_status_changed: { label: "PTO Status Changed", color: "bg-purple-100 text-purple-800" },
+  attendance_exception_resolved: { label: "Attendance Exception Resolved", color: "bg-green-100 text-green-800" },
+  attendance_exception_excused: { label: "Attendance Exception Excused", color: "bg-blue-100 text-blue-800" },
+  attendance_exception_reopened: { label: "Attendance Exception Reopened", color: "bg-yellow-100 text-yellow-800" },
   task_created: { label: "Task Created", color: "bg-green-100 text-green-800" },
   task_updated: { label: "Task Updated", color: "bg-yellow-100 text-yellow-800" },
+  group_created: { label: "Group Created", color: "bg-green-100 text-green-800" },
+  group_updated: { label: "Group Updated", color: "bg-yellow-100 text-yellow-800" },
+  group_deleted: { label: "Group Deleted", color: "bg-red-100 text-red-800" },
+  pay_rate_set: { label: "Pay Rate Set", color: "bg-blue-100 text-blue-800" },
+  pay_rate_deleted: { label: "Pay Rate Deleted", color: "bg-red-100 text-red-800" },
+  checklist_created: { label: "Checklist Created", color: "bg-green-100 text-green-800" },
+  checklist_updated: { label: "Checklist Updated", color: "bg-yellow-100 text-yellow-800" },
+  checklist_deleted: { label: "Checklist Deleted", color: "bg-red-100 text-red-800" },
+  checklist_assigned: { label: "Checklist Assigned", color: "bg-blue-100 text-blue-800" },
+  checklist_unassigned: { label: "Checklist Unassigned", color: "bg-gray-100 text-gray-800" },
   login: { label: "Login", color: "bg-gray-100 text-gray-800" },
   logout: { label: "Logout", color: "bg-gray-100 text-gray-800" },
 };
@@ -74,6 +95,9 @@ const entityIcons: Record<string, React.ElementType> = {
   pto_request: Briefcase,
   task: CheckSquare,
   time_entry: Clock,
+  employee_group: UsersRound,
+  pay_rate: DollarSign,
+  checklist: ListChecks,
 };
 
 export function AuditLogsDashboard({ auditLogs }: AuditLogsDashboardProps) {
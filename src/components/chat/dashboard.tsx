@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import type { Database } from "@/types/database.types";
+import type { ChatAttachmentSettings } from "@/lib/chat-attachments";
 import { ChatSidebar } from "./sidebar";
 import { ChatRoom } from "./room";
 import { NewChatDialog } from "./new-chat-dialog";
@@ -59,6 +60,7 @@ interface ChatDashboardProps {
   roomParticipants: Record<string, RoomParticipant[]>;
   latestMessages: Record<string, LatestMessage>;
   teamMembers: TeamMember[];
+  attachmentSettings: ChatAttachmentSettings;
 }
 
 export function ChatDashboard({
@@ -67,6 +69,7 @@ export function ChatDashboard({
   roomParticipants,
   latestMessages,
   teamMembers,
+  attachmentSettings,
 }: ChatDashboardProps) {
   const [selectedRoomId, setSelectedRoomId] = useState<string | null>(null);
   const [newChatDialogOpen, setNewChatDialogOpen] = useState(false);
@@ -99,6 +102,7 @@ export function ChatDashboard({
             profile={profile}
             room={selectedRoom}
             participants={selectedRoomParticipants}
+            attachmentSettings={attachmentSettings}
           />
         ) : (
           <div className="flex-1 flex items-center justify-center bg-muted/30">
@@ -10,8 +10,17 @@ import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { toast } from "sonner";
-import { Send, Loader2, Users, MoreVertical, Check, CheckCheck } from "lucide-react";
+import { Send, Loader2, Users, MoreVertical, Check, CheckCheck, Paperclip, FileText, Download } from "lucide-react";
 import { cn } from "@/lib/utils";
+import {
+  CHAT_ATTACHMENTS_BUCKET,
+  chatAttachmentCategories,
+  formatFileSize,
+  getThumbnailDimensions,
+  isImageAttachment,
+  validateChatAttachment,
+  type ChatAttachmentSettings,
+} from "@/lib/chat-attachments";
 
 type Profile = Database["public"]["Tables"]["profiles"]["Row"];
 
@@ -40,6 +49,15 @@ type RoomParticipant = {
   } | null;
 };
 
+type Attachment = {
+  id: string;
+  file_name: string;
+  file_type: string;
+  file_size: number;
+  file_url: string;
+  thumbnail_url: string | null;
+};
+
 type Message = {
   id: string;
   room_id: string;
@@ -49,15 +67,39 @@ type Message = {
   created_at: string | null;
   is_edited: boolean | null;
   is_deleted: boolean | null;
+  chat_attachments?: Attachment[];
 };
 
 interface ChatRoomProps {
   profile: Profile;
   room: ChatRoomType;
   participants: RoomParticipant[];
+  attachmentSettings: ChatAttachmentSettings;
 }
 
-export function ChatRoom({ profile, room, participants }: ChatRoomProps) {
+// Signed URLs for attachment previews are valid for an hour
+const SIGNED_URL_SECONDS = 60 * 60;
+
+/**
+ * Draw a small WebP preview of an image so the chat doesn't have to load
+ * full-size photos. Returns null when the browser can't decode the image.
+ */
+async function createThumbnail(file: File): Promise<Blob | null> {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const { width, height } = getThumbnailDimensions(bitmap.width, bitmap.height);
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext("2d")?.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+    return await new Promise((resolve) => canvas.toBlob(resolve, "image/webp", 0.8));
+  } catch {
+    return null;
+  }
+}
+
+export function ChatRoom({ profile, room, participants, attachmentSettings }: ChatRoomProps) {
   const router = useRouter();
   const supabase = createClient();
   const [messages, setMessages] = useState<Message[]>([]);
@@ -65,8 +107,16 @@ export function ChatRoom({ profile, room, participants }: ChatRoomProps) {
   const [sending, setSending] = useState(false);
   const [messageInput, setMessageInput] = useState("");
   const [participantsState, setParticipantsState] = useState<RoomParticipant[]>(participants);
+  const [uploading, setUploading] = useState(false);
+  const [signedUrls, setSignedUrls] = useState<Record<string, string>>({});
   const scrollRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const acceptedTypes = attachmentSettings.allowedCategories
+    .flatMap((category) => chatAttachmentCategories[category].mimeTypes)
+    .join(",");
+  const canAttach = attachmentSettings.enabled && acceptedTypes.length > 0;
 
   // Update participants state when props change
   useEffect(() => {
@@ -136,7 +186,7 @@ export function ChatRoom({ profile, room, participants }: ChatRoomProps) {
       setLoading(true);
       const { data, error } = await supabase
         .from("chat_messages")
-        .select("*")
+        .select("*, chat_attachments (*)")
         .eq("room_id", room.id)
         .eq("is_deleted", false)
         .order("created_at", { ascending: true });
@@ -167,8 +217,16 @@ export function ChatRoom({ profile, room, participants }: ChatRoomProps) {
           table: "chat_messages",
           filter: `room_id=eq.${room.id}`,
         },
-        (payload) => {
+        async (payload) => {
           const newMessage = payload.new as Message;
+          // Attachments are written with the message, so they can be fetched right away
+          if (newMessage.type && newMessage.type !== "text") {
+            const { data } = await supabase
+              .from("chat_attachments")
+              .select("*")
+              .eq("message_id", newMessage.id);
+            newMessage.chat_attachments = data || [];
+          }
           setMessages((prev) => [...prev, newMessage]);
           // Mark as read when receiving new messages while room is open
           if (newMessage.sender_id !== profile.id) {
@@ -187,7 +245,11 @@ export function ChatRoom({ profile, room, participants }: ChatRoomProps) {
         (payload) => {
           const updatedMessage = payload.new as Message;
           setMessages((prev) =>
-            prev.map((m) => (m.id === updatedMessage.id ? updatedMessage : m))
+            prev.map((m) =>
+              m.id === updatedMessage.id
+                ? { ...updatedMessage, chat_attachments: m.chat_attachments }
+                : m
+            )
           );
         }
       )
@@ -228,6 +290,49 @@ export function ChatRoom({ profile, room, participants }: ChatRoomProps) {
     };
   }, [room.id, supabase]);
 
+  // Create signed URLs for image previews; the bucket is private
+  useEffect(() => {
+    const paths = messages
+      .flatMap((m) => m.chat_attachments || [])
+      .filter((a) => isImageAttachment(a.file_type))
+      .map((a) => a.thumbnail_url || a.file_url)
+      .filter((path) => !signedUrls[path]);
+
+    if (paths.length === 0) return;
+
+    supabase.storage
+      .from(CHAT_ATTACHMENTS_BUCKET)
+      .createSignedUrls(paths, SIGNED_URL_SECONDS)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error(error);
+          return;
+        }
+        setSignedUrls((prev) => {
+          const next = { ...prev };
+          (data || []).forEach((item) => {
+            if (item.path && item.signedUrl) next[item.path] = item.signedUrl;
+          });
+          return next;
+        });
+      });
+  }, [messages, supabase]);
+
+  const openAttachment = async (attachment: Attachment, download: boolean) => {
+    const { data, error } = await supabase.storage
+      .from(CHAT_ATTACHMENTS_BUCKET)
+      .createSignedUrl(attachment.file_url, SIGNED_URL_SECONDS, {
+        download: download ? attachment.file_name : false,
+      });
+
+    if (error || !data) {
+      console.error(error);
+      toast.error("Failed to open file");
+      return;
+    }
+    window.open(data.signedUrl, "_blank", "noopener");
+  };
+
   // Check if message has been read by other participants
   const isMessageRead = (message: Message) => {
     if (message.sender_id !== profile.id) return false; // Only show for own messages
@@ -284,6 +389,101 @@ export function ChatRoom({ profile, room, participants }: ChatRoomProps) {
     }
   };
 
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const validationError = validateChatAttachment(file, attachmentSettings);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setUploading(true);
+    const caption = messageInput.trim();
+
+    try {
+      const formData = new FormData();
+      formData.append("room_id", room.id);
+      formData.append("file", file);
+      if (caption) formData.append("content", caption);
+      if (isImageAttachment(file.type)) {
+        const thumbnail = await createThumbnail(file);
+        if (thumbnail) formData.append("thumbnail", thumbnail, "thumbnail.webp");
+      }
+
+      const response = await fetch("/api/chat/attachments", {
+        method: "POST",
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to send file");
+      }
+
+      setMessageInput("");
+      await markAsRead();
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Failed to send file");
+    } finally {
+      setUploading(false);
+      inputRef.current?.focus();
+    }
+  };
+
+  const renderAttachment = (attachment: Attachment, isOwn: boolean) => {
+    const previewPath = attachment.thumbnail_url || attachment.file_url;
+
+    if (isImageAttachment(attachment.file_type)) {
+      return (
+        <button
+          key={attachment.id}
+          type="button"
+          onClick={() => openAttachment(attachment, false)}
+          className="block overflow-hidden rounded-lg bg-muted"
+          title={attachment.file_name}
+        >
+          {signedUrls[previewPath] ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={signedUrls[previewPath]}
+              alt={attachment.file_name}
+              className="max-h-64 max-w-full object-contain"
+            />
+          ) : (
+            <div className="flex h-32 w-48 items-center justify-center">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          )}
+        </button>
+      );
+    }
+
+    return (
+      <button
+        key={attachment.id}
+        type="button"
+        onClick={() => openAttachment(attachment, true)}
+        className={cn(
+          "flex items-center gap-3 rounded-lg border px-3 py-2 text-left",
+          isOwn ? "border-primary-foreground/30" : "bg-background"
+        )}
+      >
+        <FileText className="h-8 w-8 shrink-0" />
+        <div className="min-w-0">
+          <p className="truncate text-sm font-medium">{attachment.file_name}</p>
+          <p className={cn("text-xs", isOwn ? "text-primary-foreground/70" : "text-muted-foreground")}>
+            {formatFileSize(attachment.file_size)}
+          </p>
+        </div>
+        <Download className="h-4 w-4 shrink-0" />
+      </button>
+    );
+  };
+
   const roomInfo = getRoomDisplayInfo();
 
   // Group messages by date
@@ -401,9 +601,23 @@ export function ChatRoom({ profile, room, participants }: ChatRoomProps) {
                                 : "bg-muted"
                             )}
                           >
-                            <p className="text-sm whitespace-pre-wrap break-words">
-                              {message.content}
-                            </p>
+                            {message.chat_attachments && message.chat_attachments.length > 0 ? (
+                              <div className="space-y-2">
+                                {message.chat_attachments.map((attachment) =>
+                                  renderAttachment(attachment, isOwn)
+                                )}
+                                {/* The file name is stored as content when there is no caption */}
+                                {message.content !== message.chat_attachments[0].file_name && (
+                                  <p className="text-sm whitespace-pre-wrap break-words">
+                                    {message.content}
+                                  </p>
+                                )}
+                              </div>
+                            ) : (
+                              <p className="text-sm whitespace-pre-wrap break-words">
+                                {message.content}
+                              </p>
+                            )}
                           </div>
                           <div className="flex items-center gap-1 mt-1 mx-1">
                             <span className="text-xs text-muted-foreground">
@@ -431,12 +645,37 @@ export function ChatRoom({ profile, room, participants }: ChatRoomProps) {
       {/* Input */}
       <form onSubmit={handleSendMessage} className="p-4 border-t bg-background">
         <div className="flex gap-2">
+          {canAttach && (
+            <>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={acceptedTypes}
+                onChange={handleFileSelected}
+                className="hidden"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={sending || uploading}
+                title={`Attach a file (up to ${attachmentSettings.maxFileSizeMb} MB)`}
+              >
+                {uploading ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Paperclip className="h-4 w-4" />
+                )}
+              </Button>
+            </>
+          )}
           <Input
             ref={inputRef}
             placeholder="Type a message..."
             value={messageInput}
             onChange={(e) => setMessageInput(e.target.value)}
-            disabled={sending}
+            disabled={sending || uploading}
             className="flex-1"
           />
           <Button type="submit" disabled={sending || !messageInput.trim()}>
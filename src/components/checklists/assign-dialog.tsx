@@ -0,0 +1,295 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+type Person = {
+  id: string;
+  first_name: string;
+  last_name: string;
+  display_name: string | null;
+};
+
+export type AssignableShift = {
+  id: string;
+  user_id: string | null;
+  start_time: string;
+  end_time: string;
+  profiles: Person | null;
+  positions: { id: string; name: string } | null;
+  locations: { id: string; name: string } | null;
+};
+
+export type ChecklistGroup = {
+  id: string;
+  name: string;
+  color: string | null;
+  employee_group_members: { user_id: string }[];
+};
+
+interface ChecklistAssignDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  checklist: { id: string; name: string } | null;
+  shifts: AssignableShift[];
+  teamMembers: Person[];
+  groups: ChecklistGroup[];
+  locations: { id: string; name: string }[];
+  today: string;
+}
+
+type AssignMode = "shifts" | "people";
+
+const getDisplayName = (person: Person | null) => {
+  if (!person) return "Unknown";
+  if (person.display_name) return person.display_name;
+  return `${person.first_name} ${person.last_name}`;
+};
+
+export function ChecklistAssignDialog({
+  open,
+  onOpenChange,
+  checklist,
+  shifts,
+  teamMembers,
+  groups,
+  locations,
+  today,
+}: ChecklistAssignDialogProps) {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+
+  const [mode, setMode] = useState<AssignMode>("shifts");
+  const [shiftIds, setShiftIds] = useState<string[]>([]);
+  const [userIds, setUserIds] = useState<string[]>([]);
+  const [groupIds, setGroupIds] = useState<string[]>([]);
+  const [dueDate, setDueDate] = useState(today);
+  const [locationId, setLocationId] = useState("none");
+
+  useEffect(() => {
+    if (open) {
+      setMode(shifts.length > 0 ? "shifts" : "people");
+      setShiftIds([]);
+      setUserIds([]);
+      setGroupIds([]);
+      setDueDate(today);
+      setLocationId("none");
+    }
+  }, [open, shifts.length, today]);
+
+  const toggle = (setter: (update: (prev: string[]) => string[]) => void, id: string) => {
+    setter((prev) => (prev.includes(id) ? prev.filter((value) => value !== id) : [...prev, id]));
+  };
+
+  const handleSubmit = async () => {
+    if (!checklist) return;
+
+    const body =
+      mode === "shifts"
+        ? { shift_ids: shiftIds }
+        : {
+            user_ids: userIds,
+            group_ids: groupIds,
+            due_date: dueDate,
+            location_id: locationId === "none" ? null : locationId,
+          };
+
+    if (mode === "shifts" ? shiftIds.length === 0 : userIds.length + groupIds.length === 0) {
+      toast.error(mode === "shifts" ? "Please choose at least one shift" : "Please choose at least one employee or group");
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const response = await fetch(`/api/checklists/${checklist.id}/assignments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to assign checklist");
+      }
+
+      toast.success(
+        data.created > 0
+          ? `Checklist assigned ${data.created} time${data.created !== 1 ? "s" : ""}`
+          : "Everyone already has this checklist"
+      );
+      onOpenChange(false);
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Failed to assign checklist");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Assign Checklist</DialogTitle>
+          <DialogDescription>
+            {checklist ? `Choose who should complete "${checklist.name}".` : null}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={mode} onValueChange={(value) => setMode(value as AssignMode)}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="shifts">Shifts</TabsTrigger>
+            <TabsTrigger value="people">People &amp; Groups</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="shifts" className="mt-4 space-y-2">
+            <Label>Upcoming shifts ({shiftIds.length} selected)</Label>
+            {shifts.length > 0 ? (
+              <div className="border rounded-md max-h-72 overflow-y-auto">
+                {shifts.map((shift) => (
+                  <div
+                    key={shift.id}
+                    className={cn(
+                      "flex items-center gap-3 p-2 cursor-pointer hover:bg-muted",
+                      shiftIds.includes(shift.id) && "bg-muted"
+                    )}
+                    onClick={() => toggle(setShiftIds, shift.id)}
+                  >
+                    <Checkbox checked={shiftIds.includes(shift.id)} className="pointer-events-none" />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium truncate">
+                        {getDisplayName(shift.profiles)}
+                      </div>
+                      <div className="text-xs text-muted-foreground truncate">
+                        {format(parseISO(shift.start_time), "EEE, MMM d · h:mm a")} -{" "}
+                        {format(parseISO(shift.end_time), "h:mm a")}
+                        {shift.positions && ` · ${shift.positions.name}`}
+                        {shift.locations && ` · ${shift.locations.name}`}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="border rounded-lg p-6 text-center text-sm text-muted-foreground">
+                No upcoming shifts with an employee.
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="people" className="mt-4 space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="checklistDueDate">Date</Label>
+                <Input
+                  id="checklistDueDate"
+                  type="date"
+                  value={dueDate}
+                  min={today}
+                  onChange={(e) => setDueDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Location (optional)</Label>
+                <Select value={locationId} onValueChange={setLocationId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No location</SelectItem>
+                    {locations.map((location) => (
+                      <SelectItem key={location.id} value={location.id}>
+                        {location.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {groups.length > 0 && (
+              <div className="space-y-2">
+                <Label>Groups</Label>
+                <div className="grid grid-cols-2 gap-2 rounded-md border p-3">
+                  {groups.map((group) => (
+                    <div key={group.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`checklist-group-${group.id}`}
+                        checked={groupIds.includes(group.id)}
+                        onCheckedChange={() => toggle(setGroupIds, group.id)}
+                      />
+                      <Label htmlFor={`checklist-group-${group.id}`} className="font-normal">
+                        {group.name} ({group.employee_group_members.length})
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Employees ({userIds.length} selected)</Label>
+              <div className="border rounded-md max-h-48 overflow-y-auto">
+                {teamMembers.map((member) => (
+                  <div
+                    key={member.id}
+                    className={cn(
+                      "flex items-center gap-3 p-2 cursor-pointer hover:bg-muted",
+                      userIds.includes(member.id) && "bg-muted"
+                    )}
+                    onClick={() => toggle(setUserIds, member.id)}
+                  >
+                    <Checkbox checked={userIds.includes(member.id)} className="pointer-events-none" />
+                    <span className="text-sm">{getDisplayName(member)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={loading}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={loading}>
+            {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Assign
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import type { Database } from "@/types/database.types";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { toast } from "sonner";
+import { CheckCircle2, Clock, MapPin } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  getChecklistCompletion,
+  getChecklistItems,
+  getChecklistProgress,
+} from "@/lib/checklists";
+
+export type MyChecklistAssignment = Database["public"]["Tables"]["checklist_assignments"]["Row"] & {
+  checklists: {
+    id: string;
+    name: string;
+    description: string | null;
+    items: Database["public"]["Tables"]["checklists"]["Row"]["items"];
+  } | null;
+  shifts: { id: string; start_time: string; end_time: string } | null;
+  locations: { id: string; name: string } | null;
+};
+
+interface ChecklistAssignmentCardProps {
+  assignment: MyChecklistAssignment;
+  today: string;
+}
+
+export function ChecklistAssignmentCard({ assignment: initial, today }: ChecklistAssignmentCardProps) {
+  const [assignment, setAssignment] = useState(initial);
+  const [savingItem, setSavingItem] = useState<string | null>(null);
+
+  const items = getChecklistItems(assignment.checklists?.items);
+  const progress = getChecklistProgress(assignment.progress);
+  const completion = getChecklistCompletion(items, progress);
+  const isOverdue = !completion.complete && assignment.due_date < today;
+
+  const handleToggle = async (itemId: string, done: boolean) => {
+    setSavingItem(itemId);
+
+    try {
+      const response = await fetch(`/api/checklists/assignments/${assignment.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ item_id: itemId, done }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update checklist");
+      }
+
+      setAssignment((prev) => ({ ...prev, ...data.data }));
+      if (data.data.completed_at && !assignment.completed_at) {
+        toast.success(`${assignment.checklists?.name || "Checklist"} complete`);
+      }
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Failed to update checklist");
+    } finally {
+      setSavingItem(null);
+    }
+  };
+
+  return (
+    <Card className={cn(completion.complete && "opacity-75")}>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-lg">
+              {assignment.checklists?.name || "Unknown Checklist"}
+            </CardTitle>
+            <CardDescription className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1">
+              <span className="flex items-center gap-1">
+                <Clock className="h-3 w-3" />
+                {assignment.shifts
+                  ? `${format(parseISO(assignment.shifts.start_time), "EEE, MMM d · h:mm a")} - ${format(
+                      parseISO(assignment.shifts.end_time),
+                      "h:mm a"
+                    )}`
+                  : format(parseISO(assignment.due_date), "EEE, MMM d")}
+              </span>
+              {assignment.locations && (
+                <span className="flex items-center gap-1">
+                  <MapPin className="h-3 w-3" />
+                  {assignment.locations.name}
+                </span>
+              )}
+            </CardDescription>
+          </div>
+          {completion.complete ? (
+            <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
+              <CheckCircle2 className="h-3 w-3 mr-1" />
+              Done
+            </Badge>
+          ) : isOverdue ? (
+            <Badge variant="destructive">Overdue</Badge>
+          ) : null}
+        </div>
+        {assignment.checklists?.description && (
+          <p className="text-sm text-muted-foreground">{assignment.checklists.description}</p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>Progress</span>
+            <span>
+              {completion.done} of {completion.total}
+            </span>
+          </div>
+          <Progress value={completion.total > 0 ? (completion.done / completion.total) * 100 : 0} />
+        </div>
+
+        <div className="space-y-2">
+          {items.map((item) => {
+            const entry = progress[item.id];
+            return (
+              <div key={item.id} className="flex items-start gap-3">
+                <Checkbox
+                  id={`${assignment.id}-${item.id}`}
+                  checked={!!entry}
+                  disabled={savingItem !== null}
+                  onCheckedChange={(checked) => handleToggle(item.id, checked === true)}
+                  className="mt-0.5"
+                />
+                <label
+                  htmlFor={`${assignment.id}-${item.id}`}
+                  className="flex-1 text-sm cursor-pointer"
+                >
+                  <span className={cn(entry && "line-through text-muted-foreground")}>{item.label}</span>
+                  {entry && (
+                    <span className="block text-xs text-muted-foreground">
+                      Done at {format(parseISO(entry.completed_at), "h:mm a")}
+                    </span>
+                  )}
+                </label>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,312 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import type { Database } from "@/types/database.types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Loader2, Plus, Trash2, ChevronUp, ChevronDown } from "lucide-react";
+import { getChecklistItems, type ChecklistItem } from "@/lib/checklists";
+
+export type ChecklistWithPositions = Database["public"]["Tables"]["checklists"]["Row"] & {
+  checklist_positions: { position_id: string }[];
+};
+
+type Position = {
+  id: string;
+  name: string;
+  color: string | null;
+};
+
+interface ChecklistBuilderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  checklist: ChecklistWithPositions | null;
+  positions: Position[];
+}
+
+const generateId = () => Math.random().toString(36).substring(2, 9);
+
+export function ChecklistBuilderDialog({
+  open,
+  onOpenChange,
+  checklist,
+  positions,
+}: ChecklistBuilderDialogProps) {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+
+  const isEditing = !!checklist;
+
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [items, setItems] = useState<ChecklistItem[]>([]);
+  const [positionIds, setPositionIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      if (checklist) {
+        setName(checklist.name);
+        setDescription(checklist.description || "");
+        setItems(getChecklistItems(checklist.items));
+        setPositionIds(checklist.checklist_positions.map((position) => position.position_id));
+      } else {
+        setName("");
+        setDescription("");
+        setItems([{ id: generateId(), label: "" }]);
+        setPositionIds([]);
+      }
+    }
+  }, [open, checklist]);
+
+  const addItem = () => {
+    setItems([...items, { id: generateId(), label: "" }]);
+  };
+
+  const updateItem = (id: string, label: string) => {
+    setItems(items.map((item) => (item.id === id ? { ...item, label } : item)));
+  };
+
+  const removeItem = (id: string) => {
+    setItems(items.filter((item) => item.id !== id));
+  };
+
+  const moveItem = (id: string, direction: "up" | "down") => {
+    const index = items.findIndex((item) => item.id === id);
+    const swapIndex = direction === "up" ? index - 1 : index + 1;
+    if (swapIndex < 0 || swapIndex >= items.length) return;
+
+    const newItems = [...items];
+    [newItems[index], newItems[swapIndex]] = [newItems[swapIndex], newItems[index]];
+    setItems(newItems);
+  };
+
+  const togglePosition = (positionId: string, checked: boolean) => {
+    setPositionIds((prev) =>
+      checked ? [...prev, positionId] : prev.filter((id) => id !== positionId)
+    );
+  };
+
+  const handleSubmit = async () => {
+    if (!name.trim()) {
+      toast.error("Please enter a checklist name");
+      return;
+    }
+
+    const filledItems = items.filter((item) => item.label.trim());
+    if (filledItems.length === 0) {
+      toast.error("Please add at least one item");
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const response = await fetch(isEditing ? `/api/checklists/${checklist.id}` : "/api/checklists", {
+        method: isEditing ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: name.trim(),
+          description: description.trim() || null,
+          items: filledItems.map((item) => ({ id: item.id, label: item.label.trim() })),
+          position_ids: positionIds,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save checklist");
+      }
+
+      toast.success(isEditing ? "Checklist updated" : "Checklist created");
+      onOpenChange(false);
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Failed to save checklist");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!checklist) return;
+    if (!confirm("Delete this checklist? Unfinished assignments from today on are removed; past ones stay in the report.")) {
+      return;
+    }
+
+    setDeleting(true);
+
+    try {
+      const response = await fetch(`/api/checklists/${checklist.id}`, { method: "DELETE" });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to delete checklist");
+      }
+
+      toast.success("Checklist deleted");
+      onOpenChange(false);
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Failed to delete checklist");
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Checklist" : "Create Checklist"}</DialogTitle>
+          <DialogDescription>
+            List the steps to tick off, e.g. for opening or closing a location.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="checklistName">Checklist Name</Label>
+            <Input
+              id="checklistName"
+              placeholder="e.g., Opening Checklist"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="checklistDescription">Description (optional)</Label>
+            <Textarea
+              id="checklistDescription"
+              placeholder="When and where this checklist is used..."
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Items</Label>
+              <Button type="button" variant="outline" size="sm" onClick={addItem}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Item
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              {items.map((item, index) => (
+                <div key={item.id} className="flex items-center gap-2">
+                  <span className="w-6 text-sm text-muted-foreground text-right">{index + 1}.</span>
+                  <Input
+                    placeholder="e.g., Unlock the front door"
+                    value={item.label}
+                    onChange={(e) => updateItem(item.id, e.target.value)}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => moveItem(item.id, "up")}
+                    disabled={index === 0}
+                  >
+                    <ChevronUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => moveItem(item.id, "down")}
+                    disabled={index === items.length - 1}
+                  >
+                    <ChevronDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0 text-destructive"
+                    onClick={() => removeItem(item.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {positions.length > 0 && (
+            <div className="space-y-2">
+              <Label>Assign to positions</Label>
+              <p className="text-xs text-muted-foreground">
+                Everyone on a published shift for these positions gets this checklist for that shift.
+              </p>
+              <div className="grid grid-cols-2 gap-2 rounded-md border p-3">
+                {positions.map((position) => (
+                  <div key={position.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`checklist-position-${position.id}`}
+                      checked={positionIds.includes(position.id)}
+                      onCheckedChange={(checked) => togglePosition(position.id, checked === true)}
+                    />
+                    <Label htmlFor={`checklist-position-${position.id}`} className="font-normal">
+                      {position.name}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          {isEditing && (
+            <Button
+              type="button"
+              variant="destructive"
+              onClick={handleDelete}
+              disabled={loading || deleting}
+            >
+              {deleting ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Trash2 className="h-4 w-4" />
+              )}
+            </Button>
+          )}
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={loading || deleting}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={loading || deleting}>
+            {loading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+            {isEditing ? "Update" : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,345 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import { useRouter } from "next/navigation";
+import { format, parseISO, subDays } from "date-fns";
+import type { Database } from "@/types/database.types";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { AlertTriangle, CheckCircle2, ListChecks, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  getChecklistCompletion,
+  getChecklistItems,
+  getChecklistProgress,
+  summarizeChecklistCompletion,
+} from "@/lib/checklists";
+
+export type ReportChecklistAssignment = Database["public"]["Tables"]["checklist_assignments"]["Row"] & {
+  checklists: {
+    id: string;
+    name: string;
+    items: Database["public"]["Tables"]["checklists"]["Row"]["items"];
+  } | null;
+  profiles: {
+    id: string;
+    first_name: string;
+    last_name: string;
+    display_name: string | null;
+    avatar_url: string | null;
+  } | null;
+};
+
+interface ChecklistCompletionReportProps {
+  assignments: ReportChecklistAssignment[];
+  locations: { id: string; name: string }[];
+  today: string;
+}
+
+type Period = "today" | "7" | "30";
+
+const rowKey = (date: string, locationId: string | null) => `${date}|${locationId || ""}`;
+
+export function ChecklistCompletionReport({
+  assignments,
+  locations,
+  today,
+}: ChecklistCompletionReportProps) {
+  const router = useRouter();
+  const [period, setPeriod] = useState<Period>("7");
+  const [locationFilter, setLocationFilter] = useState("all");
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const locationNames = useMemo(
+    () => new Map(locations.map((location) => [location.id, location.name])),
+    [locations]
+  );
+
+  const report = useMemo(() => {
+    const from =
+      period === "today" ? today : format(subDays(parseISO(today), Number(period) - 1), "yyyy-MM-dd");
+    const filtered = assignments.filter(
+      (assignment) =>
+        assignment.due_date >= from &&
+        (locationFilter === "all" ||
+          (locationFilter === "none" ? !assignment.location_id : assignment.location_id === locationFilter))
+    );
+
+    const itemsByChecklist = new Map(
+      filtered.map((assignment) => [assignment.checklist_id, getChecklistItems(assignment.checklists?.items)])
+    );
+    const rows = summarizeChecklistCompletion(filtered, itemsByChecklist);
+
+    const assigned = rows.reduce((sum, row) => sum + row.assigned, 0);
+    const completed = rows.reduce((sum, row) => sum + row.completed, 0);
+    const overdue = rows
+      .filter((row) => row.date < today)
+      .reduce((sum, row) => sum + row.assigned - row.completed, 0);
+
+    return { filtered, itemsByChecklist, rows, assigned, completed, overdue };
+  }, [assignments, locationFilter, period, today]);
+
+  const selectedAssignments = selectedKey
+    ? report.filtered.filter((assignment) => rowKey(assignment.due_date, assignment.location_id) === selectedKey)
+    : [];
+
+  const getDisplayName = (p: ReportChecklistAssignment["profiles"]) => {
+    if (!p) return "Unknown";
+    if (p.display_name) return p.display_name;
+    return `${p.first_name} ${p.last_name}`;
+  };
+
+  const getLocationName = (locationId: string | null) =>
+    locationId ? locationNames.get(locationId) || "Unknown Location" : "No Location";
+
+  const getRateColor = (rate: number) => {
+    if (rate >= 100) return "text-green-600";
+    if (rate >= 75) return "text-yellow-600";
+    return "text-red-600";
+  };
+
+  const handleRemove = async (assignmentId: string) => {
+    if (!confirm("Remove this checklist from the employee?")) return;
+
+    setRemovingId(assignmentId);
+
+    try {
+      const response = await fetch(`/api/checklists/assignments/${assignmentId}`, { method: "DELETE" });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to remove checklist");
+      }
+
+      toast.success("Checklist removed");
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Failed to remove checklist");
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  const completionRate = report.assigned > 0 ? (report.completed / report.assigned) * 100 : 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold">Completion Report</h2>
+          <p className="text-sm text-muted-foreground">
+            Checklists completed per location and day
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={locationFilter} onValueChange={setLocationFilter}>
+            <SelectTrigger className="w-[170px]">
+              <SelectValue placeholder="All locations" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Locations</SelectItem>
+              {locations.map((location) => (
+                <SelectItem key={location.id} value={location.id}>
+                  {location.name}
+                </SelectItem>
+              ))}
+              <SelectItem value="none">No Location</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={period} onValueChange={(v) => setPeriod(v as Period)}>
+            <SelectTrigger className="w-[150px]">
+              <SelectValue placeholder="Select period" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="today">Today</SelectItem>
+              <SelectItem value="7">Last 7 Days</SelectItem>
+              <SelectItem value="30">Last 30 Days</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Assigned</CardTitle>
+            <ListChecks className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{report.assigned}</div>
+            <p className="text-xs text-muted-foreground">{report.completed} completed</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Completion Rate</CardTitle>
+            <CheckCircle2 className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className={cn("text-2xl font-bold", report.assigned > 0 && getRateColor(completionRate))}>
+              {completionRate.toFixed(0)}%
+            </div>
+            <Progress value={completionRate} className="mt-2" />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Missed</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{report.overdue}</div>
+            <p className="text-xs text-muted-foreground">Unfinished checklists from earlier days</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Completion Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>By Location and Day</CardTitle>
+          <CardDescription>Select a row to see who completed what</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {report.rows.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead className="text-right">Completed</TableHead>
+                  <TableHead className="text-right">Items Done</TableHead>
+                  <TableHead className="w-[180px]">Rate</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.rows.map((row) => {
+                  const key = rowKey(row.date, row.locationId);
+                  const rate = row.assigned > 0 ? (row.completed / row.assigned) * 100 : 0;
+                  return (
+                    <TableRow
+                      key={key}
+                      className={cn("cursor-pointer", selectedKey === key && "bg-muted")}
+                      onClick={() => setSelectedKey(selectedKey === key ? null : key)}
+                    >
+                      <TableCell className="font-medium">
+                        {format(parseISO(row.date), "EEE, MMM d")}
+                      </TableCell>
+                      <TableCell>{getLocationName(row.locationId)}</TableCell>
+                      <TableCell className="text-right">
+                        {row.completed} / {row.assigned}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {row.itemsDone} / {row.itemsTotal}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Progress value={rate} className="h-2" />
+                          <span className={cn("text-sm w-10 text-right", getRateColor(rate))}>
+                            {rate.toFixed(0)}%
+                          </span>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="py-10 text-center text-muted-foreground">
+              No checklists were assigned in this period
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedAssignments.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              {format(parseISO(selectedAssignments[0].due_date), "EEEE, MMM d")} ·{" "}
+              {getLocationName(selectedAssignments[0].location_id)}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Employee</TableHead>
+                  <TableHead>Checklist</TableHead>
+                  <TableHead className="text-right">Items Done</TableHead>
+                  <TableHead>Completed</TableHead>
+                  <TableHead className="w-[60px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {selectedAssignments.map((assignment) => {
+                  const completion = getChecklistCompletion(
+                    report.itemsByChecklist.get(assignment.checklist_id) || [],
+                    getChecklistProgress(assignment.progress)
+                  );
+                  return (
+                    <TableRow key={assignment.id}>
+                      <TableCell>{getDisplayName(assignment.profiles)}</TableCell>
+                      <TableCell>{assignment.checklists?.name || "Unknown Checklist"}</TableCell>
+                      <TableCell className="text-right">
+                        {completion.done} / {completion.total}
+                      </TableCell>
+                      <TableCell>
+                        {assignment.completed_at ? (
+                          format(parseISO(assignment.completed_at), "h:mm a")
+                        ) : (
+                          <span className="text-muted-foreground">Not finished</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {!assignment.completed_at && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-destructive"
+                            onClick={() => handleRemove(assignment.id)}
+                            disabled={removingId !== null}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
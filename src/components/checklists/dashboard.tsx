@@ -0,0 +1,236 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ListChecks, Plus, UserPlus } from "lucide-react";
+import { getChecklistItems } from "@/lib/checklists";
+import { ChecklistBuilderDialog, type ChecklistWithPositions } from "./builder-dialog";
+import { ChecklistAssignDialog, type AssignableShift, type ChecklistGroup } from "./assign-dialog";
+import { ChecklistAssignmentCard, type MyChecklistAssignment } from "./assignment-card";
+import { ChecklistCompletionReport, type ReportChecklistAssignment } from "./completion-report";
+
+type Position = {
+  id: string;
+  name: string;
+  color: string | null;
+};
+
+type TeamMember = {
+  id: string;
+  first_name: string;
+  last_name: string;
+  display_name: string | null;
+  avatar_url: string | null;
+};
+
+interface ChecklistsDashboardProps {
+  isAdmin: boolean;
+  today: string;
+  checklists: ChecklistWithPositions[];
+  myAssignments: MyChecklistAssignment[];
+  positions: Position[];
+  locations: { id: string; name: string }[];
+  teamMembers: TeamMember[];
+  groups: ChecklistGroup[];
+  shifts: AssignableShift[];
+  reportAssignments: ReportChecklistAssignment[];
+}
+
+export function ChecklistsDashboard({
+  isAdmin,
+  today,
+  checklists,
+  myAssignments,
+  positions,
+  locations,
+  teamMembers,
+  groups,
+  shifts,
+  reportAssignments,
+}: ChecklistsDashboardProps) {
+  const [builderOpen, setBuilderOpen] = useState(false);
+  const [assignOpen, setAssignOpen] = useState(false);
+  const [selectedChecklist, setSelectedChecklist] = useState<ChecklistWithPositions | null>(null);
+
+  const positionNames = new Map(positions.map((position) => [position.id, position.name]));
+
+  // Today's and unfinished earlier checklists first, then upcoming days
+  const dueNow = myAssignments.filter(
+    (assignment) => assignment.due_date === today || (assignment.due_date < today && !assignment.completed_at)
+  );
+  const upcoming = myAssignments.filter((assignment) => assignment.due_date > today);
+
+  const handleCreate = () => {
+    setSelectedChecklist(null);
+    setBuilderOpen(true);
+  };
+
+  const handleEdit = (checklist: ChecklistWithPositions) => {
+    setSelectedChecklist(checklist);
+    setBuilderOpen(true);
+  };
+
+  const handleAssign = (checklist: ChecklistWithPositions) => {
+    setSelectedChecklist(checklist);
+    setAssignOpen(true);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Action Buttons */}
+      <div className="flex justify-end gap-2">
+        {isAdmin && (
+          <Button onClick={handleCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            Create Checklist
+          </Button>
+        )}
+      </div>
+
+      <Tabs defaultValue="mine">
+        <TabsList>
+          <TabsTrigger value="mine">
+            My Checklists
+            {dueNow.filter((assignment) => !assignment.completed_at).length > 0 && (
+              <Badge variant="secondary" className="ml-2">
+                {dueNow.filter((assignment) => !assignment.completed_at).length}
+              </Badge>
+            )}
+          </TabsTrigger>
+          {isAdmin && <TabsTrigger value="checklists">Checklists</TabsTrigger>}
+          {isAdmin && <TabsTrigger value="report">Completion Report</TabsTrigger>}
+        </TabsList>
+
+        <TabsContent value="mine" className="mt-4 space-y-6">
+          {dueNow.length > 0 ? (
+            <div className="grid gap-4 md:grid-cols-2">
+              {dueNow.map((assignment) => (
+                <ChecklistAssignmentCard key={assignment.id} assignment={assignment} today={today} />
+              ))}
+            </div>
+          ) : (
+            <Card>
+              <CardContent className="flex flex-col items-center justify-center py-10">
+                <ListChecks className="h-12 w-12 text-muted-foreground mb-4" />
+                <p className="text-muted-foreground">No checklists for today</p>
+              </CardContent>
+            </Card>
+          )}
+
+          {upcoming.length > 0 && (
+            <div className="space-y-3">
+              <h3 className="text-sm font-medium text-muted-foreground">Coming Up</h3>
+              <div className="grid gap-4 md:grid-cols-2">
+                {upcoming.map((assignment) => (
+                  <ChecklistAssignmentCard key={assignment.id} assignment={assignment} today={today} />
+                ))}
+              </div>
+            </div>
+          )}
+        </TabsContent>
+
+        {isAdmin && (
+          <TabsContent value="checklists" className="mt-4">
+            {checklists.length > 0 ? (
+              <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+                {checklists.map((checklist) => {
+                  const items = getChecklistItems(checklist.items);
+                  return (
+                    <Card key={checklist.id} className="hover:shadow-md transition-shadow">
+                      <CardHeader className="pb-3">
+                        <div className="flex items-start justify-between">
+                          <div className="flex items-center gap-2">
+                            <ListChecks className="h-5 w-5 text-primary" />
+                            <CardTitle className="text-lg">{checklist.name}</CardTitle>
+                          </div>
+                          <Button variant="ghost" size="sm" onClick={() => handleEdit(checklist)}>
+                            Edit
+                          </Button>
+                        </div>
+                        {checklist.description && (
+                          <CardDescription className="line-clamp-2">
+                            {checklist.description}
+                          </CardDescription>
+                        )}
+                      </CardHeader>
+                      <CardContent>
+                        <div className="space-y-3">
+                          <div className="text-sm text-muted-foreground">
+                            {items.length} item{items.length !== 1 ? "s" : ""}
+                          </div>
+                          {checklist.checklist_positions.length > 0 && (
+                            <div className="flex flex-wrap gap-1">
+                              {checklist.checklist_positions.map((position) => (
+                                <Badge key={position.position_id} variant="outline">
+                                  {positionNames.get(position.position_id) || "Unknown"}
+                                </Badge>
+                              ))}
+                            </div>
+                          )}
+                          <Button className="w-full" variant="outline" onClick={() => handleAssign(checklist)}>
+                            <UserPlus className="h-4 w-4 mr-2" />
+                            Assign
+                          </Button>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            ) : (
+              <Card>
+                <CardContent className="flex flex-col items-center justify-center py-10">
+                  <ListChecks className="h-12 w-12 text-muted-foreground mb-4" />
+                  <p className="text-muted-foreground">No checklists</p>
+                  <Button variant="link" onClick={handleCreate} className="mt-2">
+                    Create your first checklist
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+        )}
+
+        {isAdmin && (
+          <TabsContent value="report" className="mt-4">
+            <ChecklistCompletionReport
+              assignments={reportAssignments}
+              locations={locations}
+              today={today}
+            />
+          </TabsContent>
+        )}
+      </Tabs>
+
+      {isAdmin && (
+        <>
+          <ChecklistBuilderDialog
+            open={builderOpen}
+            onOpenChange={setBuilderOpen}
+            checklist={selectedChecklist}
+            positions={positions}
+          />
+          <ChecklistAssignDialog
+            open={assignOpen}
+            onOpenChange={setAssignOpen}
+            checklist={selectedChecklist}
+            shifts={shifts}
+            teamMembers={teamMembers}
+            groups={groups}
+            locations={locations}
+            today={today}
+          />
+        </>
+      )}
+    </div>
+  );
+}
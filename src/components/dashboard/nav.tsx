@@ -43,7 +43,9 @@ import {
   Palmtree,
   BarChart3,
   ClipboardPen,
+  ListChecks,
   ArrowRightLeft,
+  UserX,
 } from "lucide-react";
 
 type Profile = Database["public"]["Tables"]["profiles"]["Row"] & {
@@ -102,6 +104,11 @@ const teamNavItems = [
     href: "/tasks",
     icon: ClipboardList,
   },
+  {
+    title: "Checklists",
+    href: "/checklists",
+    icon: ListChecks,
+  },
   {
     title: "Forms",
     href: "/forms",
@@ -110,6 +117,11 @@ const teamNavItems = [
 ];
 
 const adminNavItems = [
+  {
+    title: "Attendance",
+    href: "/attendance",
+    icon: UserX,
+  },
   {
     title: "Reports",
     href: "/reports",
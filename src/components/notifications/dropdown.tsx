@@ -36,6 +36,8 @@ interface NotificationDropdownProps {
 
 const notificationIcons: Record<string, React.ElementType> = {
   shift: Calendar,
+  schedule_published: Calendar,
+  schedule_changed: Calendar,
   time_clock: Clock,
   chat: MessageSquare,
   task: ClipboardList,
@@ -46,6 +48,7 @@ const notificationIcons: Record<string, React.ElementType> = {
   timesheet_approved: CheckCircle2,
   timesheet_rejected: XCircle,
   timesheet_pending_approval: Clock,
+  attendance_no_show: AlertCircle,
 };
 
 export function NotificationDropdown({ profile }: NotificationDropdownProps) {
@@ -143,6 +146,14 @@ export function NotificationDropdown({ profile }: NotificationDropdownProps) {
       case "shift":
         router.push("/schedule");
         break;
+      case "schedule_published":
+      case "schedule_changed":
+        if (data?.week_start) {
+          router.push(`/schedule?date=${data.week_start}`);
+        } else {
+          router.push("/schedule");
+        }
+        break;
       case "pto":
         router.push("/pto");
         break;
@@ -166,6 +177,9 @@ export function NotificationDropdown({ profile }: NotificationDropdownProps) {
           router.push("/timesheets");
         }
         break;
+      case "attendance_no_show":
+        router.push("/attendance");
+        break;
       default:
         break;
     }
@@ -47,6 +47,7 @@ export function LocationDialog({
     geofenceEnabled: true,
     allowClockOutside: false,
     isActive: true,
+    weeklyLaborBudget: "",
   });
 
   useEffect(() => {
@@ -60,6 +61,7 @@ export function LocationDialog({
         geofenceEnabled: location.geofence_enabled ?? true,
         allowClockOutside: location.allow_clock_outside ?? false,
         isActive: location.is_active ?? true,
+        weeklyLaborBudget: location.weekly_labor_budget?.toString() || "",
       });
     } else {
       setFormData({
@@ -71,6 +73,7 @@ export function LocationDialog({
         geofenceEnabled: true,
         allowClockOutside: false,
         isActive: true,
+        weeklyLaborBudget: "",
       });
     }
   }, [location, open]);
@@ -101,6 +104,9 @@ export function LocationDialog({
         geofence_enabled: formData.geofenceEnabled,
         allow_clock_outside: formData.allowClockOutside,
         is_active: formData.isActive,
+        weekly_labor_budget: formData.weeklyLaborBudget
+          ? parseFloat(formData.weeklyLaborBudget)
+          : null,
       };
 
       if (location) {
@@ -244,6 +250,24 @@ export function LocationDialog({
             />
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="weeklyLaborBudget">Weekly Labor Budget (optional)</Label>
+            <Input
+              id="weeklyLaborBudget"
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="5000"
+              value={formData.weeklyLaborBudget}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, weeklyLaborBudget: e.target.value }))
+              }
+            />
+            <p className="text-xs text-muted-foreground">
+              The schedule warns when projected labor cost for a week exceeds this
+            </p>
+          </div>
+
           <div className="space-y-4">
             <div className="flex items-center justify-between">
               <div>
@@ -0,0 +1,504 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { format, parseISO } from "date-fns";
+import { createClient } from "@/lib/supabase/client";
+import type { Database } from "@/types/database.types";
+import {
+  formatAvailabilityWindow,
+  parseWeeklyAvailability,
+  type AvailabilityWindow,
+} from "@/lib/availability";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { toast } from "sonner";
+import { CalendarClock, CalendarX, Loader2, Plus, X } from "lucide-react";
+
+type Profile = Database["public"]["Tables"]["profiles"]["Row"];
+type AvailabilityChangeRequest = Database["public"]["Tables"]["availability_change_requests"]["Row"];
+type Unavailability = Database["public"]["Tables"]["employee_unavailability"]["Row"];
+
+interface AvailabilitySettingsProps {
+  profile: Profile;
+  pendingRequest: AvailabilityChangeRequest | null;
+  unavailability: Unavailability[];
+}
+
+const weekDays = [
+  { value: 1, label: "Monday" },
+  { value: 2, label: "Tuesday" },
+  { value: 3, label: "Wednesday" },
+  { value: 4, label: "Thursday" },
+  { value: 5, label: "Friday" },
+  { value: 6, label: "Saturday" },
+  { value: 0, label: "Sunday" },
+];
+
+type DayForm = { available: boolean; start_time: string; end_time: string };
+
+const toDayForms = (windows: AvailabilityWindow[] | null): Record<number, DayForm> => {
+  const forms: Record<number, DayForm> = {};
+  for (const day of weekDays) {
+    const window = windows?.find((w) => w.day_of_week === day.value);
+    forms[day.value] = window
+      ? { available: true, start_time: window.start_time, end_time: window.end_time }
+      : { available: !windows, start_time: "09:00", end_time: "17:00" };
+  }
+  return forms;
+};
+
+const statusVariant = (status: string) => {
+  switch (status) {
+    case "approved":
+      return "default";
+    case "rejected":
+      return "destructive";
+    default:
+      return "secondary";
+  }
+};
+
+export function AvailabilitySettings({
+  profile,
+  pendingRequest,
+  unavailability,
+}: AvailabilitySettingsProps) {
+  const router = useRouter();
+  const supabase = createClient();
+
+  // Start from the pending change if there is one, otherwise what's approved
+  const source = pendingRequest || profile;
+  const initialWindows = parseWeeklyAvailability(source.weekly_availability);
+
+  const [limited, setLimited] = useState(initialWindows !== null);
+  const [days, setDays] = useState(() => toDayForms(initialWindows));
+  const [preferredHours, setPreferredHours] = useState(
+    source.preferred_max_hours_per_week != null ? String(source.preferred_max_hours_per_week) : ""
+  );
+  const [note, setNote] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [withdrawing, setWithdrawing] = useState(false);
+
+  const [entryForm, setEntryForm] = useState({
+    start_date: "",
+    end_date: "",
+    allDay: true,
+    start_time: "09:00",
+    end_time: "17:00",
+    reason: "",
+  });
+  const [addingEntry, setAddingEntry] = useState(false);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+
+  const approvedWindows = parseWeeklyAvailability(profile.weekly_availability);
+
+  const updateDay = (day: number, changes: Partial<DayForm>) => {
+    setDays((prev) => ({ ...prev, [day]: { ...prev[day], ...changes } }));
+  };
+
+  const handleSubmitAvailability = async () => {
+    const windows: AvailabilityWindow[] | null = limited
+      ? weekDays
+          .filter((day) => days[day.value].available)
+          .map((day) => ({
+            day_of_week: day.value,
+            start_time: days[day.value].start_time,
+            end_time: days[day.value].end_time,
+          }))
+      : null;
+
+    if (windows?.some((window) => window.end_time <= window.start_time)) {
+      toast.error("End time must be after start time on each available day");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const response = await fetch("/api/availability/requests", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          weekly_availability: windows,
+          preferred_max_hours_per_week: preferredHours === "" ? null : Number(preferredHours),
+          note: note.trim() || null,
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to submit availability");
+      }
+
+      toast.success("Availability submitted for approval");
+      setNote("");
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Failed to submit availability");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!pendingRequest) return;
+
+    setWithdrawing(true);
+    try {
+      const { error } = await supabase
+        .from("availability_change_requests")
+        .update({ status: "cancelled" })
+        .eq("id", pendingRequest.id);
+
+      if (error) throw error;
+
+      toast.success("Availability change withdrawn");
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to withdraw change");
+    } finally {
+      setWithdrawing(false);
+    }
+  };
+
+  const handleAddEntry = async () => {
+    if (!entryForm.start_date) {
+      toast.error("Please choose a date");
+      return;
+    }
+
+    setAddingEntry(true);
+    try {
+      const response = await fetch("/api/availability/unavailability", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          start_date: entryForm.start_date,
+          end_date: entryForm.end_date || entryForm.start_date,
+          start_time: entryForm.allDay ? null : entryForm.start_time,
+          end_time: entryForm.allDay ? null : entryForm.end_time,
+          reason: entryForm.reason.trim() || null,
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to save unavailability");
+      }
+
+      toast.success("Unavailability submitted for approval");
+      setEntryForm((prev) => ({ ...prev, start_date: "", end_date: "", reason: "" }));
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Failed to save unavailability");
+    } finally {
+      setAddingEntry(false);
+    }
+  };
+
+  const handleCancelEntry = async (id: string) => {
+    setCancellingId(id);
+    try {
+      const { error } = await supabase
+        .from("employee_unavailability")
+        .update({ status: "cancelled" })
+        .eq("id", id);
+
+      if (error) throw error;
+
+      toast.success("Unavailability removed");
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to remove unavailability");
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  const formatEntryDates = (entry: Unavailability) => {
+    const start = format(parseISO(entry.start_date), "EEE, MMM d");
+    const dates =
+      entry.start_date === entry.end_date
+        ? start
+        : `${start} - ${format(parseISO(entry.end_date), "EEE, MMM d")}`;
+    return entry.start_time && entry.end_time
+      ? `${dates}, ${formatAvailabilityWindow({
+          start_time: entry.start_time.slice(0, 5),
+          end_time: entry.end_time.slice(0, 5),
+        })}`
+      : `${dates} (all day)`;
+  };
+
+  return (
+    <>
+      {/* Weekly Availability Card */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Availability
+          </CardTitle>
+          <CardDescription>
+            When you can work each week. Changes take effect once a manager approves them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="text-sm text-muted-foreground">
+            Current:{" "}
+            {approvedWindows
+              ? approvedWindows.length > 0
+                ? weekDays
+                    .filter((day) => approvedWindows.some((w) => w.day_of_week === day.value))
+                    .map(
+                      (day) =>
+                        `${day.label.slice(0, 3)} ${approvedWindows
+                          .filter((w) => w.day_of_week === day.value)
+                          .map(formatAvailabilityWindow)
+                          .join(", ")}`
+                    )
+                    .join(" · ")
+                : "Not available"
+              : "Any time"}
+            {profile.preferred_max_hours_per_week != null &&
+              ` · Up to ${profile.preferred_max_hours_per_week}h per week`}
+          </div>
+
+          {pendingRequest && (
+            <div className="flex items-center justify-between gap-2 p-3 bg-muted rounded-md">
+              <div className="flex items-center gap-2 text-sm">
+                <Badge variant="secondary">Pending approval</Badge>
+                {pendingRequest.created_at && (
+                  <span className="text-muted-foreground">
+                    Submitted {format(parseISO(pendingRequest.created_at), "MMM d")}
+                  </span>
+                )}
+              </div>
+              <Button variant="ghost" size="sm" onClick={handleWithdraw} disabled={withdrawing}>
+                {withdrawing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Withdraw
+              </Button>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="limitAvailability">Limit my availability</Label>
+              <p className="text-xs text-muted-foreground">
+                Turn off if you can work any day and time
+              </p>
+            </div>
+            <Switch id="limitAvailability" checked={limited} onCheckedChange={setLimited} />
+          </div>
+
+          {limited && (
+            <div className="space-y-2">
+              {weekDays.map((day) => (
+                <div key={day.value} className="flex items-center gap-3">
+                  <Switch
+                    checked={days[day.value].available}
+                    onCheckedChange={(checked) => updateDay(day.value, { available: checked })}
+                  />
+                  <span className="w-24 text-sm">{day.label}</span>
+                  {days[day.value].available ? (
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="time"
+                        className="w-32"
+                        value={days[day.value].start_time}
+                        onChange={(e) => updateDay(day.value, { start_time: e.target.value })}
+                      />
+                      <span className="text-muted-foreground">-</span>
+                      <Input
+                        type="time"
+                        className="w-32"
+                        value={days[day.value].end_time}
+                        onChange={(e) => updateDay(day.value, { end_time: e.target.value })}
+                      />
+                    </div>
+                  ) : (
+                    <span className="text-sm text-muted-foreground">Unavailable</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="preferredHours">Preferred max hours per week</Label>
+              <Input
+                id="preferredHours"
+                type="number"
+                min="0"
+                max="168"
+                step="0.5"
+                value={preferredHours}
+                onChange={(e) => setPreferredHours(e.target.value)}
+                placeholder="No preference"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="availabilityNote">Note for your manager</Label>
+            <Textarea
+              id="availabilityNote"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Optional"
+              rows={2}
+            />
+          </div>
+
+          <div className="pt-2">
+            <Button onClick={handleSubmitAvailability} disabled={submitting}>
+              {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Submit for Approval
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* One-off Unavailability Card */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarX className="h-5 w-5" />
+            Unavailable Dates
+          </CardTitle>
+          <CardDescription>
+            Specific days or hours you can&apos;t work, outside of time off
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="unavailableStart">From</Label>
+              <Input
+                id="unavailableStart"
+                type="date"
+                value={entryForm.start_date}
+                onChange={(e) => setEntryForm((prev) => ({ ...prev, start_date: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="unavailableEnd">To</Label>
+              <Input
+                id="unavailableEnd"
+                type="date"
+                min={entryForm.start_date || undefined}
+                value={entryForm.end_date}
+                onChange={(e) => setEntryForm((prev) => ({ ...prev, end_date: e.target.value }))}
+                placeholder="Same day"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Switch
+              id="unavailableAllDay"
+              checked={entryForm.allDay}
+              onCheckedChange={(checked) => setEntryForm((prev) => ({ ...prev, allDay: checked }))}
+            />
+            <Label htmlFor="unavailableAllDay" className="font-normal">
+              All day
+            </Label>
+            {!entryForm.allDay && (
+              <div className="flex items-center gap-2">
+                <Input
+                  type="time"
+                  className="w-32"
+                  value={entryForm.start_time}
+                  onChange={(e) => setEntryForm((prev) => ({ ...prev, start_time: e.target.value }))}
+                />
+                <span className="text-muted-foreground">-</span>
+                <Input
+                  type="time"
+                  className="w-32"
+                  value={entryForm.end_time}
+                  onChange={(e) => setEntryForm((prev) => ({ ...prev, end_time: e.target.value }))}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="unavailableReason">Reason</Label>
+            <Input
+              id="unavailableReason"
+              value={entryForm.reason}
+              onChange={(e) => setEntryForm((prev) => ({ ...prev, reason: e.target.value }))}
+              placeholder="Optional"
+            />
+          </div>
+
+          <Button variant="outline" onClick={handleAddEntry} disabled={addingEntry}>
+            {addingEntry ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Plus className="h-4 w-4 mr-2" />
+            )}
+            Add Unavailability
+          </Button>
+
+          {unavailability.length > 0 && (
+            <>
+              <Separator />
+              <div className="space-y-2">
+                {unavailability.map((entry) => (
+                  <div
+                    key={entry.id}
+                    className="flex items-center justify-between gap-2 p-2 bg-muted rounded-md"
+                  >
+                    <div className="space-y-0.5">
+                      <div className="text-sm">{formatEntryDates(entry)}</div>
+                      {entry.reason && (
+                        <div className="text-xs text-muted-foreground">{entry.reason}</div>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={statusVariant(entry.status)}>
+                        {entry.status.charAt(0).toUpperCase() + entry.status.slice(1)}
+                      </Badge>
+                      {entry.status !== "rejected" && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => handleCancelEntry(entry.id)}
+                          disabled={cancellingId === entry.id}
+                        >
+                          {cancellingId === entry.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <X className="h-4 w-4" />
+                          )}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
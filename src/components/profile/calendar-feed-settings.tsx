@@ -0,0 +1,214 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { formatDistanceToNow, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import { CalendarSync, Check, Copy, Loader2, RefreshCw } from "lucide-react";
+
+export interface CalendarFeed {
+  id: string;
+  token: string;
+  include_team: boolean;
+  last_accessed_at: string | null;
+}
+
+interface CalendarFeedSettingsProps {
+  feed: CalendarFeed | null;
+  isManager: boolean;
+}
+
+export function CalendarFeedSettings({ feed: initialFeed, isManager }: CalendarFeedSettingsProps) {
+  const [feed, setFeed] = useState(initialFeed);
+  const [origin, setOrigin] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [confirmRegenerate, setConfirmRegenerate] = useState(false);
+
+  useEffect(() => {
+    setOrigin(window.location.origin);
+  }, []);
+
+  const feedUrl = feed ? `${origin}/api/ical/${feed.token}.ics` : "";
+
+  const request = async (method: "POST" | "PATCH" | "DELETE", body?: object) => {
+    const response = await fetch("/api/calendar-feed", {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Request failed");
+    }
+    return data;
+  };
+
+  const handleCreate = async () => {
+    setLoading(true);
+    try {
+      const { data } = await request("POST");
+      setFeed(data);
+      toast.success(feed ? "New calendar link created" : "Calendar feed turned on");
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Failed to create calendar feed");
+    } finally {
+      setLoading(false);
+      setConfirmRegenerate(false);
+    }
+  };
+
+  const handleTurnOff = async () => {
+    setLoading(true);
+    try {
+      await request("DELETE");
+      setFeed(null);
+      toast.success("Calendar feed turned off");
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Failed to turn off calendar feed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleIncludeTeam = async (includeTeam: boolean) => {
+    setLoading(true);
+    try {
+      const { data } = await request("PATCH", { include_team: includeTeam });
+      setFeed(data);
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Failed to update calendar feed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+      toast.success("Link copied to clipboard");
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      toast.error("Failed to copy link");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarSync className="h-5 w-5" />
+          Calendar Subscription
+        </CardTitle>
+        <CardDescription>
+          See your published shifts and approved time off in Google Calendar, Outlook or Apple Calendar
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {feed ? (
+          <>
+            <div className="space-y-2">
+              <Label>Subscription Link</Label>
+              <div className="flex gap-2">
+                <Input value={feedUrl} readOnly className="font-mono text-xs" />
+                <Button variant="outline" size="icon" onClick={handleCopyLink}>
+                  {copied ? (
+                    <Check className="h-4 w-4 text-green-500" />
+                  ) : (
+                    <Copy className="h-4 w-4" />
+                  )}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Add this link in your calendar app as a subscription (&quot;From URL&quot;). Anyone with
+                the link can see your schedule, so keep it private.
+                {feed.last_accessed_at &&
+                  ` Last synced ${formatDistanceToNow(parseISO(feed.last_accessed_at), { addSuffix: true })}.`}
+              </p>
+            </div>
+
+            {isManager && (
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="includeTeam">Include my team</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Add everyone&apos;s published shifts and approved time off
+                  </p>
+                </div>
+                <Switch
+                  id="includeTeam"
+                  checked={feed.include_team}
+                  onCheckedChange={handleIncludeTeam}
+                  disabled={loading}
+                />
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              {origin && (
+                <Button variant="outline" asChild>
+                  <a href={feedUrl.replace(/^https?:/, "webcal:")}>Open in Calendar App</a>
+                </Button>
+              )}
+              <Button variant="outline" onClick={() => setConfirmRegenerate(true)} disabled={loading}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                New Link
+              </Button>
+              <Button variant="ghost" onClick={handleTurnOff} disabled={loading}>
+                Turn Off
+              </Button>
+            </div>
+          </>
+        ) : (
+          <Button onClick={handleCreate} disabled={loading}>
+            {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Create Calendar Link
+          </Button>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirmRegenerate} onOpenChange={setConfirmRegenerate}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Create a new link?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Calendars subscribed with the current link will stop updating. Use this if the link
+              was shared with someone who shouldn&apos;t see your schedule.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={loading}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleCreate} disabled={loading}>
+              {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Create New Link
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -33,8 +33,12 @@ import {
   Calendar,
   Hash,
 } from "lucide-react";
+import { AvailabilitySettings } from "./availability-settings";
+import { CalendarFeedSettings, type CalendarFeed } from "./calendar-feed-settings";
 
 type Profile = Database["public"]["Tables"]["profiles"]["Row"];
+type AvailabilityChangeRequest = Database["public"]["Tables"]["availability_change_requests"]["Row"];
+type Unavailability = Database["public"]["Tables"]["employee_unavailability"]["Row"];
 
 interface UserLocation {
   location_id: string;
@@ -56,6 +60,9 @@ interface ProfileSettingsProps {
     name: string;
   } | null;
   userLocations: UserLocation[];
+  pendingAvailabilityRequest: AvailabilityChangeRequest | null;
+  unavailability: Unavailability[];
+  calendarFeed: CalendarFeed | null;
 }
 
 export function ProfileSettings({
@@ -63,6 +70,9 @@ export function ProfileSettings({
   profile,
   department,
   userLocations,
+  pendingAvailabilityRequest,
+  unavailability,
+  calendarFeed,
 }: ProfileSettingsProps) {
   const router = useRouter();
   const supabase = createClient();
@@ -412,6 +422,17 @@ export function ProfileSettings({
         </CardContent>
       </Card>
 
+      <AvailabilitySettings
+        profile={profile}
+        pendingRequest={pendingAvailabilityRequest}
+        unavailability={unavailability}
+      />
+
+      <CalendarFeedSettings
+        feed={calendarFeed}
+        isManager={profile.role === "admin" || profile.role === "owner" || profile.role === "manager"}
+      />
+
       {/* Account Information Card (Read-only) */}
       <Card>
         <CardHeader>
@@ -0,0 +1,402 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import type { Database } from "@/types/database.types";
+import type { EmployeeOption } from "@/types/pto-table";
+import {
+  getAvailableDaysChange,
+  getAvailablePTODays,
+  ptoTransactionLabels,
+  type PTOTransactionType,
+} from "@/lib/pto-ledger";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { History, Loader2, RefreshCw, SlidersHorizontal } from "lucide-react";
+
+type PTOBalance = Database["public"]["Tables"]["pto_balances"]["Row"];
+type PTOBalanceTransaction = Database["public"]["Tables"]["pto_balance_transactions"]["Row"] & {
+  actor: {
+    id: string;
+    first_name: string | null;
+    last_name: string | null;
+    display_name: string | null;
+  } | null;
+};
+
+interface PTOBalanceHistoryProps {
+  currentUserId: string;
+  // Managers can view other employees' history; admins can also change balances
+  canViewOthers: boolean;
+  canManageBalances: boolean;
+  employees: EmployeeOption[];
+}
+
+const ptoTypeLabels: Record<string, string> = {
+  vacation: "Vacation",
+  sick: "Sick Leave",
+  personal: "Personal",
+  bereavement: "Bereavement",
+  jury_duty: "Jury Duty",
+  other: "Other",
+};
+
+const transactionColors: Record<PTOTransactionType, string> = {
+  accrual: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+  carryover: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300",
+  adjustment: "bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300",
+  request_pending: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300",
+  approval: "bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-300",
+  rejection: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300",
+  cancellation: "bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-300",
+};
+
+const formatDays = (days: number) => `${days > 0 ? "+" : ""}${Number(days.toFixed(2))}`;
+
+export function PTOBalanceHistory({
+  currentUserId,
+  canViewOthers,
+  canManageBalances,
+  employees,
+}: PTOBalanceHistoryProps) {
+  const year = new Date().getFullYear();
+  const [userId, setUserId] = useState(currentUserId);
+  const [balances, setBalances] = useState<PTOBalance[]>([]);
+  const [transactions, setTransactions] = useState<PTOBalanceTransaction[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const [adjustBalance, setAdjustBalance] = useState<PTOBalance | null>(null);
+  const [adjustDays, setAdjustDays] = useState("");
+  const [adjustReason, setAdjustReason] = useState("");
+
+  const fetchHistory = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ user_id: userId, year: String(year) });
+      const [balanceResponse, transactionsResponse] = await Promise.all([
+        fetch(`/api/pto/balance?${params.toString()}`),
+        fetch(`/api/pto/balance/transactions?${params.toString()}`),
+      ]);
+      const [balanceResult, transactionsResult] = await Promise.all([
+        balanceResponse.json(),
+        transactionsResponse.json(),
+      ]);
+
+      if (!balanceResponse.ok || !transactionsResponse.ok) {
+        throw new Error(balanceResult.error || transactionsResult.error || "Failed to load balance history");
+      }
+
+      setBalances(balanceResult.data || []);
+      setTransactions(transactionsResult.data || []);
+    } catch (error) {
+      console.error("Error fetching balance history:", error);
+      toast.error("Failed to load balance history");
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, year]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const handleRecalculate = async (balance: PTOBalance) => {
+    setProcessingId(balance.id);
+    try {
+      const response = await fetch(`/api/pto/balance/${balance.id}/recalculate`, { method: "POST" });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to recalculate balance");
+      }
+
+      if (result.drift.length === 0) {
+        toast.success("Balance already matches its history");
+      } else {
+        toast.success(
+          `Corrected ${result.drift
+            .map((d: { field: string; recorded: number; derived: number }) =>
+              `${d.field.replace("_days", "")} ${d.recorded} → ${d.derived}`
+            )
+            .join(", ")}`
+        );
+      }
+      fetchHistory();
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Failed to recalculate balance");
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleAdjust = async () => {
+    if (!adjustBalance) return;
+
+    const days = Number(adjustDays);
+    if (!Number.isFinite(days) || days === 0) {
+      toast.error("Enter a non-zero number of days");
+      return;
+    }
+    if (!adjustReason.trim()) {
+      toast.error("A reason is required");
+      return;
+    }
+
+    setProcessingId(adjustBalance.id);
+    try {
+      const response = await fetch(`/api/pto/balance/${adjustBalance.id}/adjust`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ days, reason: adjustReason.trim() }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to adjust balance");
+      }
+
+      toast.success("Balance adjusted");
+      setAdjustBalance(null);
+      setAdjustDays("");
+      setAdjustReason("");
+      fetchHistory();
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Failed to adjust balance");
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const balanceTypes = Object.fromEntries(balances.map((b) => [b.id, b.pto_type]));
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-base font-medium">
+              <History className="h-4 w-4" />
+              Balance History {year}
+            </CardTitle>
+            <CardDescription>Every change to the balance and why it was made</CardDescription>
+          </div>
+          {canViewOthers && (
+            <Select value={userId} onValueChange={setUserId}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={currentUserId}>My balance</SelectItem>
+                {employees
+                  .filter((employee) => employee.id !== currentUserId)
+                  .map((employee) => (
+                    <SelectItem key={employee.id} value={employee.id}>
+                      {employee.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading && balances.length === 0 ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : balances.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No PTO balances for {year}
+          </p>
+        ) : (
+          <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-3">
+            {balances.map((balance) => (
+              <div key={balance.id} className="rounded-lg border p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">
+                    {ptoTypeLabels[balance.pto_type] || balance.pto_type}
+                  </span>
+                  <span className="text-lg font-semibold tabular-nums">
+                    {getAvailablePTODays(balance)}
+                    <span className="text-xs font-normal text-muted-foreground"> days left</span>
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {Number(balance.entitled_days || 0)} entitled · {Number(balance.carryover_days || 0)}{" "}
+                  carried over · {Number(balance.adjustment_days || 0)} adjusted ·{" "}
+                  {Number(balance.used_days || 0)} used · {Number(balance.pending_days || 0)} pending
+                </p>
+                {canManageBalances && (
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setAdjustBalance(balance)}
+                      disabled={processingId === balance.id}
+                    >
+                      <SlidersHorizontal className="h-3 w-3 mr-1" />
+                      Adjust
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRecalculate(balance)}
+                      disabled={processingId === balance.id}
+                    >
+                      {processingId === balance.id ? (
+                        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                      ) : (
+                        <RefreshCw className="h-3 w-3 mr-1" />
+                      )}
+                      Recalculate
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {transactions.length > 0 && (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Balance</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>By</TableHead>
+                  <TableHead className="text-right">Days</TableHead>
+                  <TableHead className="text-right">Available</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {transactions.map((transaction) => {
+                  const change = getAvailableDaysChange(transaction);
+                  const actor = transaction.actor;
+                  return (
+                    <TableRow key={transaction.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {transaction.created_at
+                          ? format(parseISO(transaction.created_at), "MMM d, yyyy")
+                          : "-"}
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          className={
+                            transactionColors[transaction.transaction_type as PTOTransactionType]
+                          }
+                        >
+                          {ptoTransactionLabels[transaction.transaction_type as PTOTransactionType] ||
+                            transaction.transaction_type}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {ptoTypeLabels[balanceTypes[transaction.balance_id] || transaction.pto_type] ||
+                          transaction.pto_type}
+                      </TableCell>
+                      <TableCell className="max-w-[280px] truncate">{transaction.reason || "-"}</TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {actor
+                          ? actor.display_name || `${actor.first_name || ""} ${actor.last_name || ""}`.trim()
+                          : "System"}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {Number(transaction.days)}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right tabular-nums ${
+                          change > 0 ? "text-green-600" : change < 0 ? "text-red-600" : "text-muted-foreground"
+                        }`}
+                      >
+                        {change === 0 ? "-" : formatDays(change)}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      {/* Adjust Dialog */}
+      <Dialog open={!!adjustBalance} onOpenChange={(open) => !open && setAdjustBalance(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Adjust Balance</DialogTitle>
+            <DialogDescription>
+              Add or remove days from the{" "}
+              {adjustBalance ? ptoTypeLabels[adjustBalance.pto_type] || adjustBalance.pto_type : ""}{" "}
+              balance. The adjustment and its reason are kept in the balance history.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="adjust-days">Days</Label>
+              <Input
+                id="adjust-days"
+                type="number"
+                step={0.5}
+                placeholder="e.g. 2 or -1.5"
+                value={adjustDays}
+                onChange={(e) => setAdjustDays(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="adjust-reason">Reason</Label>
+              <Textarea
+                id="adjust-reason"
+                placeholder="Why is this balance being adjusted?"
+                value={adjustReason}
+                onChange={(e) => setAdjustReason(e.target.value)}
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAdjustBalance(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleAdjust} disabled={processingId === adjustBalance?.id}>
+              {processingId === adjustBalance?.id && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Adjustment
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
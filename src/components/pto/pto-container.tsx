@@ -28,7 +28,9 @@ import { toast } from "sonner";
 import { Loader2 } from "lucide-react";
 import { PTOTable } from "./pto-table";
 import { PTORequestDialog } from "./request-dialog";
+import { PTOBalanceHistory } from "./balance-history";
 import type { Database } from "@/types/database.types";
+import { formatPTODuration, type Holiday, type PTOCalendarSettings } from "@/lib/pto-days";
 import type {
   PTOTableRow,
   PTOSort,
@@ -56,6 +58,9 @@ interface PTORequest {
   start_date: string;
   end_date: string;
   total_days: number;
+  duration_type?: string | null;
+  half_day_period?: string | null;
+  hours?: number | null;
   reason: string | null;
   status: string | null;
   review_comment: string | null;
@@ -79,6 +84,8 @@ interface PTOContainerProps {
   policies: PTOPolicy[];
   employees: EmployeeOption[];
   isAdmin: boolean;
+  holidays: Holiday[];
+  ptoCalendar: PTOCalendarSettings;
 }
 
 export function PTOContainer({
@@ -88,6 +95,8 @@ export function PTOContainer({
   policies,
   employees,
   isAdmin,
+  holidays,
+  ptoCalendar,
 }: PTOContainerProps) {
   const router = useRouter();
 
@@ -139,6 +148,10 @@ export function PTOContainer({
         startDate: request.start_date,
         endDate: request.end_date,
         totalDays: Number(request.total_days),
+        durationLabel:
+          request.duration_type && request.duration_type !== "full_day"
+            ? formatPTODuration(request)
+            : null,
         reason: request.reason,
         status: (request.status || "pending") as PTOStatus,
         reviewComment: request.review_comment,
@@ -395,6 +408,14 @@ export function PTOContainer({
 
   return (
     <div className="space-y-6">
+      {/* Balances and their ledger */}
+      <PTOBalanceHistory
+        currentUserId={profile.id}
+        canViewOthers={isAdmin}
+        canManageBalances={profile.role === "admin" || profile.role === "owner"}
+        employees={employees}
+      />
+
       {/* Filters Card */}
       <Card>
         <CardHeader className="pb-3">
@@ -559,6 +580,8 @@ export function PTOContainer({
         profile={profile}
         balances={balances}
         policies={policies}
+        holidays={holidays}
+        ptoCalendar={ptoCalendar}
       />
 
       {/* Review Dialog */}
@@ -427,6 +427,9 @@ export function PTOTable({
                   </TableCell>
                   <TableCell className="text-center">
                     {entry.totalDays.toFixed(1)}
+                    {entry.durationLabel && (
+                      <div className="text-xs text-muted-foreground">{entry.durationLabel}</div>
+                    )}
                   </TableCell>
                   <TableCell>
                     <span className="truncate block max-w-[200px]" title={entry.reason || undefined}>
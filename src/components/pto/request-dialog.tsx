@@ -4,6 +4,14 @@ import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { format, parseISO, differenceInCalendarDays, addDays, isAfter, isBefore } from "date-fns";
 import type { Database } from "@/types/database.types";
+import {
+  calculatePTODeduction,
+  defaultPTOCalendarSettings,
+  ptoDurationLabels,
+  type Holiday,
+  type PTOCalendarSettings,
+  type PTODurationType,
+} from "@/lib/pto-days";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -43,6 +51,9 @@ interface PTORequestDialogProps {
   profile: Profile;
   balances: PTOBalance[];
   policies: PTOPolicy[];
+  // Holidays that apply to this employee
+  holidays?: Holiday[];
+  ptoCalendar?: PTOCalendarSettings;
 }
 
 const ptoTypeLabels: Record<string, string> = {
@@ -60,6 +71,8 @@ export function PTORequestDialog({
   profile,
   balances,
   policies,
+  holidays = [],
+  ptoCalendar = defaultPTOCalendarSettings,
 }: PTORequestDialogProps) {
   const router = useRouter();
   const [loading, setLoading] = useState(false);
@@ -70,24 +83,24 @@ export function PTORequestDialog({
     ptoType: "",
     startDate: format(new Date(), "yyyy-MM-dd"),
     endDate: format(new Date(), "yyyy-MM-dd"),
+    durationType: "full_day" as PTODurationType,
+    halfDayPeriod: "am",
+    hours: "4",
     reason: "",
   });
 
-  // Calculate total days (calendar days, matching API calculation)
-  const calculateDays = () => {
-    try {
-      const start = parseISO(formData.startDate);
-      const end = parseISO(formData.endDate);
-      if (isBefore(end, start)) return 0;
-      // Count calendar days (inclusive of both start and end)
-      const days = differenceInCalendarDays(end, start) + 1;
-      return days > 0 ? days : 1;
-    } catch {
-      return 1;
-    }
-  };
-
-  const totalDays = calculateDays();
+  // Working days deducted from the balance (same calculation as the API)
+  const deduction = calculatePTODeduction(
+    {
+      start_date: formData.startDate,
+      end_date: formData.durationType === "full_day" ? formData.endDate : formData.startDate,
+      duration_type: formData.durationType,
+      hours: Number(formData.hours),
+    },
+    holidays,
+    ptoCalendar
+  );
+  const totalDays = deduction.days;
 
   // Get selected policy
   const selectedPolicy = policies.find((p) => p.pto_type === formData.ptoType && p.is_active);
@@ -141,13 +154,20 @@ export function PTORequestDialog({
       const data = await response.json();
 
       if (data.success && data.data) {
+        const endDate = formData.durationType === "full_day" ? formData.endDate : formData.startDate;
         const conflicts = data.data.filter(
           (req: any) =>
             req.user_id === profile.id &&
             req.status !== "rejected" &&
             req.status !== "cancelled" &&
-            ((req.start_date <= formData.endDate && req.end_date >= formData.startDate) ||
-              (formData.startDate <= req.end_date && formData.endDate >= req.start_date))
+            req.start_date <= endDate &&
+            req.end_date >= formData.startDate &&
+            // Morning and afternoon half days on the same date can coexist
+            !(
+              formData.durationType === "half_day" &&
+              req.duration_type === "half_day" &&
+              req.half_day_period !== formData.halfDayPeriod
+            )
         );
         return conflicts.length > 0;
       }
@@ -186,6 +206,10 @@ export function PTORequestDialog({
         errors.push("End date must be after start date");
       }
 
+      if (deduction.error) {
+        errors.push(deduction.error);
+      }
+
       if (!minNoticeValid && selectedPolicy?.min_notice_days) {
         errors.push(
           `This PTO type requires at least ${selectedPolicy.min_notice_days} days notice. You have ${daysUntilStart} day(s).`
@@ -210,6 +234,9 @@ export function PTORequestDialog({
         ptoType: "",
         startDate: format(new Date(), "yyyy-MM-dd"),
         endDate: format(new Date(), "yyyy-MM-dd"),
+        durationType: "full_day",
+        halfDayPeriod: "am",
+        hours: "4",
         reason: "",
       });
       setValidationErrors([]);
@@ -243,8 +270,11 @@ export function PTORequestDialog({
         },
         body: JSON.stringify({
           start_date: formData.startDate,
-          end_date: formData.endDate,
+          end_date: formData.durationType === "full_day" ? formData.endDate : formData.startDate,
           pto_type: formData.ptoType,
+          duration_type: formData.durationType,
+          half_day_period: formData.durationType === "half_day" ? formData.halfDayPeriod : null,
+          hours: formData.durationType === "hours" ? Number(formData.hours) : null,
           reason: formData.reason || null,
         }),
       });
@@ -314,9 +344,33 @@ export function PTORequestDialog({
             )}
           </div>
 
+          {/* Duration */}
+          <div className="space-y-2">
+            <Label htmlFor="durationType">Duration</Label>
+            <Select
+              value={formData.durationType}
+              onValueChange={(value) =>
+                setFormData((prev) => ({ ...prev, durationType: value as PTODurationType }))
+              }
+            >
+              <SelectTrigger id="durationType">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ptoDurationLabels) as PTODurationType[]).map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {ptoDurationLabels[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           {/* Start Date */}
           <div className="space-y-2">
-            <Label htmlFor="startDate">Start Date</Label>
+            <Label htmlFor="startDate">
+              {formData.durationType === "full_day" ? "Start Date" : "Date"}
+            </Label>
             <Input
               id="startDate"
               type="date"
@@ -335,33 +389,104 @@ export function PTORequestDialog({
           </div>
 
           {/* End Date */}
-          <div className="space-y-2">
-            <Label htmlFor="endDate">End Date</Label>
-            <Input
-              id="endDate"
-              type="date"
-              value={formData.endDate}
-              onChange={(e) =>
-                setFormData((prev) => ({ ...prev, endDate: e.target.value }))
-              }
-              min={formData.startDate}
-              required
-            />
-          </div>
+          {formData.durationType === "full_day" && (
+            <div className="space-y-2">
+              <Label htmlFor="endDate">End Date</Label>
+              <Input
+                id="endDate"
+                type="date"
+                value={formData.endDate}
+                onChange={(e) =>
+                  setFormData((prev) => ({ ...prev, endDate: e.target.value }))
+                }
+                min={formData.startDate}
+                required
+              />
+            </div>
+          )}
 
-          {/* Total Days */}
-          <div className="flex items-center justify-between p-3 bg-muted rounded-lg">
-            <div>
-              <span className="text-sm font-medium">Total Days</span>
-              {daysUntilStart !== null && daysUntilStart >= 0 && (
-                <p className="text-xs text-muted-foreground mt-1">
-                  {daysUntilStart === 0
-                    ? "Starting today"
-                    : `${daysUntilStart} day${daysUntilStart !== 1 ? "s" : ""} from now`}
-                </p>
-              )}
+          {/* Half Day Period */}
+          {formData.durationType === "half_day" && (
+            <div className="space-y-2">
+              <Label htmlFor="halfDayPeriod">Part of Day</Label>
+              <Select
+                value={formData.halfDayPeriod}
+                onValueChange={(value) =>
+                  setFormData((prev) => ({ ...prev, halfDayPeriod: value }))
+                }
+              >
+                <SelectTrigger id="halfDayPeriod">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="am">Morning</SelectItem>
+                  <SelectItem value="pm">Afternoon</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {/* Hours */}
+          {formData.durationType === "hours" && (
+            <div className="space-y-2">
+              <Label htmlFor="hours">Hours</Label>
+              <Input
+                id="hours"
+                type="number"
+                min="0.25"
+                max={ptoCalendar.hoursPerDay}
+                step="0.25"
+                value={formData.hours}
+                onChange={(e) =>
+                  setFormData((prev) => ({ ...prev, hours: e.target.value }))
+                }
+                required
+              />
+              <p className="text-xs text-muted-foreground">
+                A full day is {ptoCalendar.hoursPerDay} hours
+              </p>
             </div>
-            <span className="text-lg font-bold">{totalDays}</span>
+          )}
+
+          {/* Deduction Preview */}
+          <div className="p-3 bg-muted rounded-lg space-y-2">
+            <div className="flex items-center justify-between">
+              <div>
+                <span className="text-sm font-medium">Balance Deduction</span>
+                {daysUntilStart !== null && daysUntilStart >= 0 && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {daysUntilStart === 0
+                      ? "Starting today"
+                      : `${daysUntilStart} day${daysUntilStart !== 1 ? "s" : ""} from now`}
+                  </p>
+                )}
+              </div>
+              <div className="text-right">
+                <span className="text-lg font-bold">
+                  {totalDays} day{totalDays !== 1 ? "s" : ""}
+                </span>
+                <p className="text-xs text-muted-foreground">{deduction.hours}h</p>
+              </div>
+            </div>
+            {deduction.excluded.length > 0 && (
+              <div className="space-y-0.5 border-t pt-2">
+                <p className="text-xs font-medium text-muted-foreground">Not deducted</p>
+                {deduction.excluded.map((day) => (
+                  <div key={day.date} className="flex justify-between text-xs text-muted-foreground">
+                    <span>{format(parseISO(day.date), "EEE, MMM d")}</span>
+                    <span>{day.reason === "holiday" ? day.name : "Non-working day"}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {deduction.error && (
+              <p className="text-xs text-destructive border-t pt-2">{deduction.error}</p>
+            )}
+            {availableBalance !== null && !deduction.error && (
+              <p className="text-xs text-muted-foreground border-t pt-2">
+                Balance after request: {Number((availableBalance - totalDays).toFixed(2))} days
+              </p>
+            )}
           </div>
 
           {/* Validation Errors */}
@@ -432,6 +557,7 @@ export function PTORequestDialog({
                 loading ||
                 checkingConflicts ||
                 hasInsufficientBalance ||
+                !!deduction.error ||
                 !minNoticeValid ||
                 validationErrors.length > 0
               }
@@ -50,9 +50,11 @@ import {
   AlertCircle,
   BarChart3,
   Loader2,
+  DollarSign,
 } from "lucide-react";
 import { WorkHoursReport } from "./work-hours-report";
 import { ShiftCoverageReport } from "./shift-coverage-report";
+import { LaborCostReport } from "./labor-cost-report";
 import {
   BarChart,
   Bar,
@@ -66,6 +68,8 @@ import {
   Cell,
 } from "recharts";
 import { cn } from "@/lib/utils";
+import type { OvertimeRules } from "@/lib/overtime";
+import type { LaborRates } from "@/lib/labor-cost";
 import type { DateRange } from "react-day-picker";
 
 interface TimeEntry {
@@ -83,15 +87,18 @@ interface TimeEntry {
   locations?: {
     id: string;
     name: string;
+    timezone?: string | null;
   } | null;
 }
 
 interface Shift {
   id: string;
-  user_id: string;
+  user_id: string | null;
   start_time: string;
   end_time: string;
   status: string | null;
+  break_minutes?: number | null;
+  location_id?: string | null;
   profiles?: {
     id: string;
     first_name: string;
@@ -105,6 +112,22 @@ interface Shift {
   } | null;
 }
 
+interface AttendanceException {
+  id: string;
+  user_id: string;
+  type: string;
+  status: string;
+  minutes: number | null;
+  occurred_at: string;
+  profiles?: {
+    id: string;
+    first_name: string;
+    last_name: string;
+    display_name: string | null;
+    avatar_url: string | null;
+  } | null;
+}
+
 interface ReportsDashboardProps {
   totalEmployees: number;
   totalShiftsThisMonth: number;
@@ -119,7 +142,12 @@ interface ReportsDashboardProps {
   ptoBreakdown: { type: string; days: number }[];
   timeEntries: TimeEntry[];
   shifts: Shift[];
+  attendanceExceptions: AttendanceException[];
   organizationId: string;
+  overtimeRules: OvertimeRules;
+  laborRates: LaborRates;
+  burdenPercent: number;
+  timeZone: string;
 }
 
 type FilterPreset = "today" | "yesterday" | "this_week" | "last_week" | "this_month" | "last_month" | "this_year" | "custom";
@@ -186,7 +214,12 @@ export function ReportsDashboard({
   ptoBreakdown: initialPTOBreakdown,
   timeEntries,
   shifts,
+  attendanceExceptions,
   organizationId,
+  overtimeRules,
+  laborRates,
+  burdenPercent,
+  timeZone,
 }: ReportsDashboardProps) {
   const supabase = createClient();
   const [filterPreset, setFilterPreset] = useState<FilterPreset>("this_month");
@@ -383,6 +416,10 @@ export function ReportsDashboard({
             <CalendarIcon className="h-4 w-4 mr-2" />
             Shift Coverage
           </TabsTrigger>
+          <TabsTrigger value="labor-cost">
+            <DollarSign className="h-4 w-4 mr-2" />
+            Labor Cost
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="mt-6">
@@ -706,7 +743,9 @@ export function ReportsDashboard({
         <TabsContent value="work-hours" className="mt-6">
           <WorkHoursReport
             timeEntries={timeEntries}
+            attendanceExceptions={attendanceExceptions}
             organizationId={organizationId}
+            overtimeRules={overtimeRules}
           />
         </TabsContent>
 
@@ -716,6 +755,17 @@ export function ReportsDashboard({
             organizationId={organizationId}
           />
         </TabsContent>
+
+        <TabsContent value="labor-cost" className="mt-6">
+          <LaborCostReport
+            timeEntries={timeEntries}
+            shifts={shifts}
+            laborRates={laborRates}
+            burdenPercent={burdenPercent}
+            overtimeRules={overtimeRules}
+            timeZone={timeZone}
+          />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,388 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import {
+  format,
+  startOfWeek,
+  endOfWeek,
+  startOfMonth,
+  endOfMonth,
+  subWeeks,
+  subMonths,
+  eachDayOfInterval,
+} from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DollarSign, Calendar, Clock, TrendingUp } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { OvertimeRules } from "@/lib/overtime";
+import {
+  UNASSIGNED_KEY,
+  calculateActualLaborCost,
+  createLaborRateLookup,
+  formatLaborCost,
+  projectLaborCost,
+  type LaborCostTotals,
+  type LaborRates,
+} from "@/lib/labor-cost";
+
+interface TimeEntry {
+  id: string;
+  user_id: string;
+  entry_type: string;
+  timestamp: string;
+  locations?: {
+    id: string;
+    name: string;
+    timezone?: string | null;
+  } | null;
+}
+
+interface Shift {
+  id: string;
+  user_id: string | null;
+  start_time: string;
+  end_time: string;
+  status: string | null;
+  break_minutes?: number | null;
+  location_id?: string | null;
+  position_id?: string | null;
+  locations?: {
+    id: string;
+    name: string;
+  } | null;
+}
+
+interface LaborCostReportProps {
+  timeEntries: TimeEntry[];
+  shifts: Shift[];
+  laborRates: LaborRates;
+  burdenPercent: number;
+  overtimeRules: OvertimeRules;
+  timeZone: string;
+}
+
+type DateRange = "this_week" | "last_week" | "this_month" | "last_month";
+type ViewMode = "daily" | "location";
+
+interface ComparisonRow {
+  key: string;
+  label: string;
+  sublabel?: string;
+  scheduled: LaborCostTotals;
+  actual: LaborCostTotals;
+}
+
+const emptyTotals: LaborCostTotals = { hours: 0, overtimeHours: 0, cost: 0 };
+
+export function LaborCostReport({
+  timeEntries,
+  shifts,
+  laborRates,
+  burdenPercent,
+  overtimeRules,
+  timeZone,
+}: LaborCostReportProps) {
+  const [dateRange, setDateRange] = useState<DateRange>("this_week");
+  const [viewMode, setViewMode] = useState<ViewMode>("daily");
+
+  // Get date range boundaries
+  const getDateBounds = (range: DateRange) => {
+    const now = new Date();
+    switch (range) {
+      case "this_week":
+        return {
+          start: startOfWeek(now, { weekStartsOn: 0 }),
+          end: endOfWeek(now, { weekStartsOn: 0 }),
+        };
+      case "last_week":
+        return {
+          start: startOfWeek(subWeeks(now, 1), { weekStartsOn: 0 }),
+          end: endOfWeek(subWeeks(now, 1), { weekStartsOn: 0 }),
+        };
+      case "this_month":
+        return {
+          start: startOfMonth(now),
+          end: endOfMonth(now),
+        };
+      case "last_month":
+        return {
+          start: startOfMonth(subMonths(now, 1)),
+          end: endOfMonth(subMonths(now, 1)),
+        };
+    }
+  };
+
+  const comparison = useMemo(() => {
+    const bounds = getDateBounds(dateRange);
+    const inRange = (timestamp: string) => {
+      const date = new Date(timestamp);
+      return date >= bounds.start && date <= bounds.end;
+    };
+
+    const rangeShifts = shifts.filter((shift) => inRange(shift.start_time));
+    const getRate = createLaborRateLookup(laborRates);
+    const scheduled = projectLaborCost(rangeShifts, getRate, {
+      rules: overtimeRules,
+      timeZone,
+      burdenPercent,
+    });
+    const actual = calculateActualLaborCost(
+      timeEntries.filter((entry) => inRange(entry.timestamp)),
+      getRate,
+      { rules: overtimeRules, defaultTimeZone: timeZone, burdenPercent }
+    );
+
+    let rows: ComparisonRow[];
+    if (viewMode === "daily") {
+      rows = eachDayOfInterval({ start: bounds.start, end: bounds.end }).map((date) => {
+        const key = format(date, "yyyy-MM-dd");
+        return {
+          key,
+          label: format(date, "MMM d, yyyy"),
+          sublabel: format(date, "EEEE"),
+          scheduled: scheduled.byDay[key] || emptyTotals,
+          actual: actual.byDay[key] || emptyTotals,
+        };
+      });
+    } else {
+      // Clocked time only records the location name, so match on that
+      const locationNames = new Map<string, string>();
+      rangeShifts.forEach((shift) => {
+        if (shift.locations) locationNames.set(shift.locations.id, shift.locations.name);
+      });
+
+      const byName = new Map<string, ComparisonRow>();
+      const getRow = (name: string) => {
+        if (!byName.has(name)) {
+          byName.set(name, {
+            key: name,
+            label: name === UNASSIGNED_KEY ? "No Location" : name,
+            scheduled: { ...emptyTotals },
+            actual: { ...emptyTotals },
+          });
+        }
+        return byName.get(name)!;
+      };
+
+      Object.entries(scheduled.byLocation).forEach(([locationId, totals]) => {
+        getRow(locationNames.get(locationId) || UNASSIGNED_KEY).scheduled = totals;
+      });
+      Object.entries(actual.byLocation).forEach(([name, totals]) => {
+        getRow(name).actual = totals;
+      });
+
+      rows = Array.from(byName.values()).sort(
+        (a, b) => Math.max(b.scheduled.cost, b.actual.cost) - Math.max(a.scheduled.cost, a.actual.cost)
+      );
+    }
+
+    return {
+      rows,
+      scheduled: scheduled.total,
+      actual: actual.total,
+      missingRates: new Set([...scheduled.missingRates, ...actual.missingRates]).size,
+    };
+  }, [timeEntries, shifts, laborRates, burdenPercent, overtimeRules, timeZone, dateRange, viewMode]);
+
+  const variance = comparison.actual.cost - comparison.scheduled.cost;
+
+  const formatVariance = (value: number) =>
+    `${value > 0 ? "+" : value < 0 ? "-" : ""}${formatLaborCost(Math.abs(value))}`;
+
+  const getVarianceColor = (value: number) => {
+    if (value > 0) return "text-red-500";
+    if (value < 0) return "text-green-500";
+    return "text-muted-foreground";
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold">Labor Cost Report</h2>
+          <p className="text-sm text-muted-foreground">
+            Compare scheduled labor cost with actual clocked time
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={viewMode} onValueChange={(v) => setViewMode(v as ViewMode)}>
+            <SelectTrigger className="w-[130px]">
+              <SelectValue placeholder="View by" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="daily">By Day</SelectItem>
+              <SelectItem value="location">By Location</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select
+            value={dateRange}
+            onValueChange={(v) => setDateRange(v as DateRange)}
+          >
+            <SelectTrigger className="w-[150px]">
+              <SelectValue placeholder="Select period" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="this_week">This Week</SelectItem>
+              <SelectItem value="last_week">Last Week</SelectItem>
+              <SelectItem value="this_month">This Month</SelectItem>
+              <SelectItem value="last_month">Last Month</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Scheduled Cost
+            </CardTitle>
+            <Calendar className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatLaborCost(comparison.scheduled.cost)}</div>
+            <p className="text-xs text-muted-foreground">
+              {comparison.scheduled.hours}h, {comparison.scheduled.overtimeHours}h overtime
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Actual Cost
+            </CardTitle>
+            <Clock className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatLaborCost(comparison.actual.cost)}</div>
+            <p className="text-xs text-muted-foreground">
+              {comparison.actual.hours}h, {comparison.actual.overtimeHours}h overtime
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Variance
+            </CardTitle>
+            <TrendingUp className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className={cn("text-2xl font-bold", getVarianceColor(variance))}>
+              {formatVariance(variance)}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {comparison.scheduled.cost > 0
+                ? `${((variance / comparison.scheduled.cost) * 100).toFixed(1)}% vs. schedule`
+                : "No scheduled cost"}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Missing Rates
+            </CardTitle>
+            <DollarSign className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{comparison.missingRates}</div>
+            <p className="text-xs text-muted-foreground">
+              Employees without an hourly rate are not costed
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Comparison Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {viewMode === "daily" ? "Daily Labor Cost" : "Labor Cost by Location"}
+          </CardTitle>
+          <CardDescription>
+            Scheduled cost includes projected overtime; actual cost uses clocked hours
+            excluding breaks
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{viewMode === "daily" ? "Date" : "Location"}</TableHead>
+                <TableHead className="text-right">Scheduled Hours</TableHead>
+                <TableHead className="text-right">Scheduled Cost</TableHead>
+                <TableHead className="text-right">Actual Hours</TableHead>
+                <TableHead className="text-right">Actual Cost</TableHead>
+                <TableHead className="text-right">Variance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {comparison.rows.map((row) => {
+                const rowVariance = row.actual.cost - row.scheduled.cost;
+                return (
+                  <TableRow key={row.key}>
+                    <TableCell className="font-medium">
+                      {row.label}
+                      {row.sublabel && (
+                        <span className="ml-2 text-xs text-muted-foreground">{row.sublabel}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {row.scheduled.hours}h
+                      {row.scheduled.overtimeHours > 0 && (
+                        <span className="text-xs text-amber-600"> ({row.scheduled.overtimeHours}h OT)</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{formatLaborCost(row.scheduled.cost)}</TableCell>
+                    <TableCell className="text-right">
+                      {row.actual.hours}h
+                      {row.actual.overtimeHours > 0 && (
+                        <span className="text-xs text-amber-600"> ({row.actual.overtimeHours}h OT)</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{formatLaborCost(row.actual.cost)}</TableCell>
+                    <TableCell className={cn("text-right", getVarianceColor(rowVariance))}>
+                      {formatVariance(rowVariance)}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              {comparison.rows.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-10">
+                    <DollarSign className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                    <p className="text-muted-foreground">No labor cost for this period</p>
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -44,7 +44,7 @@ import { toast } from "sonner";
 
 interface Shift {
   id: string;
-  user_id: string;
+  user_id: string | null;
   start_time: string;
   end_time: string;
   status: string | null;
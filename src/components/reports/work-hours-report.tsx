@@ -27,8 +27,10 @@ import {
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Download, Clock, Calendar, Users } from "lucide-react";
+import { Download, Clock, Calendar, Users, UserX } from "lucide-react";
 import { toast } from "sonner";
+import { calculateOvertime, type OvertimeRules } from "@/lib/overtime";
+import { summarizeAttendanceExceptions } from "@/lib/attendance";
 
 interface TimeEntry {
   id: string;
@@ -48,9 +50,27 @@ interface TimeEntry {
   } | null;
 }
 
+interface AttendanceException {
+  id: string;
+  user_id: string;
+  type: string;
+  status: string;
+  minutes: number | null;
+  occurred_at: string;
+  profiles?: {
+    id: string;
+    first_name: string;
+    last_name: string;
+    display_name: string | null;
+    avatar_url: string | null;
+  } | null;
+}
+
 interface WorkHoursReportProps {
   timeEntries: TimeEntry[];
+  attendanceExceptions: AttendanceException[];
   organizationId: string;
+  overtimeRules: OvertimeRules;
 }
 
 type DateRange = "this_week" | "last_week" | "this_month" | "last_month" | "all";
@@ -73,7 +93,9 @@ interface UserWorkData {
 
 export function WorkHoursReport({
   timeEntries,
+  attendanceExceptions,
   organizationId,
+  overtimeRules,
 }: WorkHoursReportProps) {
   const [dateRange, setDateRange] = useState<DateRange>("this_month");
   const [expandedUser, setExpandedUser] = useState<string | null>(null);
@@ -172,11 +194,6 @@ export function WorkHoursReport({
         });
 
         userData.totalMinutes += duration;
-        // Assume 8 hours (480 minutes) per day is regular
-        userData.regularMinutes += Math.min(duration, 480);
-        if (duration > 480) {
-          userData.overtimeMinutes += duration - 480;
-        }
 
         session.clockIn = null;
       }
@@ -199,8 +216,46 @@ export function WorkHoursReport({
       }
     });
 
+    // Split regular and overtime minutes using the organization's rules
+    userMap.forEach((userData) => {
+      const { overtimeHours } = calculateOvertime(
+        userData.sessions.map((session) => ({
+          date: session.date,
+          hours: session.duration / 60,
+        })),
+        overtimeRules
+      );
+      userData.overtimeMinutes = Math.round(overtimeHours * 60);
+      userData.regularMinutes = userData.totalMinutes - userData.overtimeMinutes;
+    });
+
     return Array.from(userMap.values()).sort((a, b) => b.totalMinutes - a.totalMinutes);
-  }, [timeEntries, dateRange]);
+  }, [timeEntries, dateRange, overtimeRules]);
+
+  // Attendance exceptions per employee for the same period
+  const attendanceData = useMemo(() => {
+    const bounds = getDateBounds(dateRange);
+    const filtered = bounds
+      ? attendanceExceptions.filter((exception) => {
+          const occurredAt = new Date(exception.occurred_at);
+          return occurredAt >= bounds.start && occurredAt <= bounds.end;
+        })
+      : attendanceExceptions;
+
+    const profiles = new Map(
+      filtered.filter((exception) => exception.profiles).map((exception) => [exception.user_id, exception.profiles!])
+    );
+
+    return Array.from(summarizeAttendanceExceptions(filtered), ([userId, summary]) => {
+      const profile = profiles.get(userId);
+      return {
+        userId,
+        name: profile ? profile.display_name || `${profile.first_name} ${profile.last_name}` : "Unknown",
+        avatarUrl: profile?.avatar_url || null,
+        ...summary,
+      };
+    }).sort((a, b) => b.counts.no_show - a.counts.no_show || b.counts.late_clock_in - a.counts.late_clock_in);
+  }, [attendanceExceptions, dateRange]);
 
   // Format minutes to hours and minutes
   const formatDuration = (minutes: number) => {
@@ -258,6 +313,33 @@ export function WorkHoursReport({
     rows.push(["Regular Hours", (totals.regularMinutes / 60).toFixed(2)]);
     rows.push(["Overtime Hours", (totals.overtimeMinutes / 60).toFixed(2)]);
 
+    if (attendanceData.length > 0) {
+      rows.push([]);
+      rows.push(["Attendance"]);
+      rows.push([
+        "Employee",
+        "Late Clock-Ins",
+        "Minutes Late",
+        "Early Clock-Outs",
+        "Missed Breaks",
+        "No-Shows",
+        "Unscheduled Work",
+        "Open",
+      ]);
+      attendanceData.forEach((user) => {
+        rows.push([
+          user.name,
+          String(user.counts.late_clock_in),
+          String(user.lateMinutes),
+          String(user.counts.early_clock_out),
+          String(user.counts.missed_break),
+          String(user.counts.no_show),
+          String(user.counts.unscheduled_work),
+          String(user.open),
+        ]);
+      });
+    }
+
     const csvContent = [
       headers.join(","),
       ...rows.map((row) => row.map((cell) => `"${cell}"`).join(",")),
@@ -494,6 +576,89 @@ export function WorkHoursReport({
           )}
         </CardContent>
       </Card>
+
+      {/* Attendance */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Attendance</CardTitle>
+          <CardDescription>
+            Differences between punches and published shifts in this period
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {attendanceData.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Employee</TableHead>
+                  <TableHead className="text-right">Late</TableHead>
+                  <TableHead className="text-right">Early Out</TableHead>
+                  <TableHead className="text-right">Missed Breaks</TableHead>
+                  <TableHead className="text-right">No-Shows</TableHead>
+                  <TableHead className="text-right">Unscheduled</TableHead>
+                  <TableHead className="text-right">Open</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {attendanceData.map((user) => (
+                  <TableRow key={user.userId}>
+                    <TableCell>
+                      <div className="flex items-center gap-3">
+                        <Avatar className="h-8 w-8">
+                          <AvatarImage src={user.avatarUrl || undefined} />
+                          <AvatarFallback className="text-xs">
+                            {getInitials(user.name)}
+                          </AvatarFallback>
+                        </Avatar>
+                        <span className="font-medium">{user.name}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {user.counts.late_clock_in > 0 ? (
+                        <span>
+                          {user.counts.late_clock_in}{" "}
+                          <span className="text-muted-foreground">
+                            ({formatDuration(user.lateMinutes)})
+                          </span>
+                        </span>
+                      ) : (
+                        "-"
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {user.counts.early_clock_out || "-"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {user.counts.missed_break || "-"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {user.counts.no_show > 0 ? (
+                        <span className="text-red-500">{user.counts.no_show}</span>
+                      ) : (
+                        "-"
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {user.counts.unscheduled_work || "-"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {user.open > 0 ? <Badge variant="secondary">{user.open}</Badge> : "-"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="flex flex-col items-center justify-center py-10">
+              <UserX className="h-12 w-12 text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">No attendance exceptions</p>
+              <p className="text-sm text-muted-foreground">
+                Late clock-ins, early clock-outs, missed breaks and no-shows will appear here
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -0,0 +1,276 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { addDays, format } from "date-fns";
+import type { Database } from "@/types/database.types";
+import { MAX_ROTATION_APPLY_DAYS, parseRotationPattern } from "@/lib/rotations";
+import type { ShiftValidationResult, ValidationShift } from "@/lib/shift-validation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2, Plus, X } from "lucide-react";
+import { ShiftValidationDialog } from "./shift-validation-dialog";
+
+type ShiftRotation = Database["public"]["Tables"]["shift_rotations"]["Row"];
+
+type TeamMember = {
+  id: string;
+  first_name: string;
+  last_name: string;
+  display_name: string | null;
+};
+
+interface ApplyRotationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rotation: ShiftRotation | null;
+  teamMembers: TeamMember[];
+  timeFormat: "12h" | "24h";
+}
+
+type AssignmentForm = { userId: string; startDay: number };
+
+export function ApplyRotationDialog({
+  open,
+  onOpenChange,
+  rotation,
+  teamMembers,
+  timeFormat,
+}: ApplyRotationDialogProps) {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [assignments, setAssignments] = useState<AssignmentForm[]>([]);
+  const [validationPrompt, setValidationPrompt] = useState<{
+    result: ShiftValidationResult;
+    shifts: ValidationShift[];
+  } | null>(null);
+
+  const cycleLength = rotation ? parseRotationPattern(rotation.pattern).length : 0;
+
+  useEffect(() => {
+    if (open) {
+      const start = addDays(new Date(), 1);
+      setStartDate(format(start, "yyyy-MM-dd"));
+      setEndDate(format(addDays(start, 27), "yyyy-MM-dd"));
+      setAssignments([{ userId: "", startDay: 1 }]);
+      setValidationPrompt(null);
+    }
+  }, [open, rotation]);
+
+  const updateAssignment = (index: number, changes: Partial<AssignmentForm>) => {
+    setAssignments((prev) => prev.map((a, i) => (i === index ? { ...a, ...changes } : a)));
+  };
+
+  const getMemberName = (member: TeamMember) =>
+    member.display_name || `${member.first_name} ${member.last_name}`;
+
+  const apply = async (acknowledgeWarnings: boolean) => {
+    if (!rotation) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch("/api/shifts/apply-rotation", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          rotation_id: rotation.id,
+          start_date: startDate,
+          end_date: endDate,
+          assignments: assignments.map((a) => ({ user_id: a.userId, offset: a.startDay - 1 })),
+          acknowledge_warnings: acknowledgeWarnings,
+        }),
+      });
+      const data = await response.json();
+
+      if (response.status === 422 && data.validation) {
+        setValidationPrompt({ result: data.validation, shifts: data.shifts || [] });
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to apply rotation");
+      }
+
+      toast.success(
+        `Created ${data.created} draft shift${data.created !== 1 ? "s" : ""}` +
+          (data.skipped > 0 ? ` (${data.skipped} already scheduled)` : "")
+      );
+      onOpenChange(false);
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Failed to apply rotation");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!startDate || !endDate || endDate < startDate) {
+      toast.error("Choose a valid date range");
+      return;
+    }
+
+    if (assignments.length === 0 || assignments.some((a) => !a.userId)) {
+      toast.error("Choose an employee for each row");
+      return;
+    }
+
+    apply(false);
+  };
+
+  const selectedIds = new Set(assignments.map((a) => a.userId));
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Apply {rotation?.name}</DialogTitle>
+            <DialogDescription>
+              Create draft shifts for the selected employees. Stagger crews by starting them on
+              different days of the {cycleLength}-day cycle.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rotationStart">From</Label>
+                <Input
+                  id="rotationStart"
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rotationEnd">To</Label>
+                <Input
+                  id="rotationEnd"
+                  type="date"
+                  value={endDate}
+                  min={startDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Up to {MAX_ROTATION_APPLY_DAYS} days at a time.
+            </p>
+
+            <div className="space-y-2">
+              <Label>Employees</Label>
+              {assignments.map((assignment, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Select
+                    value={assignment.userId}
+                    onValueChange={(value) => updateAssignment(index, { userId: value })}
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Select employee" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {teamMembers
+                        .filter((m) => m.id === assignment.userId || !selectedIds.has(m.id))
+                        .map((member) => (
+                          <SelectItem key={member.id} value={member.id}>
+                            {getMemberName(member)}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={String(assignment.startDay)}
+                    onValueChange={(value) => updateAssignment(index, { startDay: parseInt(value) })}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: cycleLength }, (_, day) => (
+                        <SelectItem key={day} value={String(day + 1)}>
+                          Starts day {day + 1}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setAssignments((prev) => prev.filter((_, i) => i !== index))}
+                    disabled={assignments.length === 1}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setAssignments((prev) => [...prev, { userId: "", startDay: 1 }])}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Employee
+              </Button>
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={loading}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading}>
+                {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Create Draft Shifts
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <ShiftValidationDialog
+        open={!!validationPrompt}
+        onOpenChange={(open) => !open && setValidationPrompt(null)}
+        title="Apply rotation?"
+        result={validationPrompt?.result || null}
+        shifts={validationPrompt?.shifts || []}
+        teamMembers={teamMembers}
+        timeFormat={timeFormat}
+        onConfirm={() => {
+          setValidationPrompt(null);
+          apply(true);
+        }}
+      />
+    </>
+  );
+}
@@ -0,0 +1,326 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { format, parseISO } from "date-fns";
+import type { Database, Json } from "@/types/database.types";
+import {
+  availabilityDayLabels,
+  formatAvailabilityWindow,
+  parseWeeklyAvailability,
+} from "@/lib/availability";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { CalendarClock, CalendarX, CheckCircle2, Loader2, XCircle } from "lucide-react";
+
+type EmployeeProfile = {
+  id: string;
+  first_name: string;
+  last_name: string;
+  display_name: string | null;
+  avatar_url: string | null;
+  weekly_availability?: Json | null;
+  preferred_max_hours_per_week?: number | null;
+} | null;
+
+export type AvailabilityChangeRequestWithProfile =
+  Database["public"]["Tables"]["availability_change_requests"]["Row"] & {
+    profiles: EmployeeProfile;
+  };
+
+export type UnavailabilityWithProfile =
+  Database["public"]["Tables"]["employee_unavailability"]["Row"] & {
+    profiles: EmployeeProfile;
+  };
+
+interface AvailabilityReviewProps {
+  isAdmin: boolean;
+  changeRequests: AvailabilityChangeRequestWithProfile[];
+  unavailability: UnavailabilityWithProfile[];
+}
+
+type ReviewTarget = {
+  kind: "requests" | "unavailability";
+  id: string;
+  action: "approve" | "reject";
+};
+
+const statusColors: Record<string, string> = {
+  pending: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300",
+  approved: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+  rejected: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300",
+  cancelled: "bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-300",
+};
+
+const describeWeekly = (value: Json | null | undefined) => {
+  const windows = parseWeeklyAvailability(value);
+  if (!windows) return "Any time";
+  if (windows.length === 0) return "Not available";
+  return [1, 2, 3, 4, 5, 6, 0]
+    .filter((day) => windows.some((w) => w.day_of_week === day))
+    .map(
+      (day) =>
+        `${availabilityDayLabels[day]} ${windows
+          .filter((w) => w.day_of_week === day)
+          .map(formatAvailabilityWindow)
+          .join(", ")}`
+    )
+    .join(" · ");
+};
+
+const describeHours = (hours: number | null | undefined) =>
+  hours != null ? `up to ${hours}h/week` : "no preferred limit";
+
+export function AvailabilityReview({
+  isAdmin,
+  changeRequests,
+  unavailability,
+}: AvailabilityReviewProps) {
+  const router = useRouter();
+  const [reviewTarget, setReviewTarget] = useState<ReviewTarget | null>(null);
+  const [reviewComment, setReviewComment] = useState("");
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const openReviewDialog = (target: ReviewTarget) => {
+    setReviewTarget(target);
+    setReviewComment("");
+  };
+
+  const handleReviewSubmit = async () => {
+    if (!reviewTarget) return;
+    const { kind, id, action } = reviewTarget;
+
+    setProcessingId(id);
+    setReviewTarget(null);
+
+    try {
+      const response = await fetch(`/api/availability/${kind}/${id}/${action}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ review_comment: reviewComment || null }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to ${action} request`);
+      }
+
+      toast.success(action === "approve" ? "Request approved" : "Request declined");
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : `Failed to ${action} request`);
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const getDisplayName = (p: EmployeeProfile) => {
+    if (!p) return "Unknown";
+    if (p.display_name) return p.display_name;
+    return `${p.first_name} ${p.last_name}`;
+  };
+
+  const getInitials = (p: EmployeeProfile) => {
+    if (!p) return "?";
+    return `${p.first_name[0]}${p.last_name[0]}`.toUpperCase();
+  };
+
+  const formatEntryDates = (entry: UnavailabilityWithProfile) => {
+    const dates =
+      entry.start_date === entry.end_date
+        ? format(parseISO(entry.start_date), "EEE, MMM d")
+        : `${format(parseISO(entry.start_date), "EEE, MMM d")} - ${format(parseISO(entry.end_date), "EEE, MMM d")}`;
+    return entry.start_time && entry.end_time
+      ? `${dates}, ${formatAvailabilityWindow({
+          start_time: entry.start_time.slice(0, 5),
+          end_time: entry.end_time.slice(0, 5),
+        })}`
+      : `${dates} (all day)`;
+  };
+
+  const renderActions = (kind: ReviewTarget["kind"], id: string, status: string) => {
+    if (!isAdmin || status !== "pending") {
+      return (
+        <span
+          className={`text-xs px-2 py-1 rounded-full capitalize ${statusColors[status] || ""}`}
+        >
+          {status}
+        </span>
+      );
+    }
+
+    return (
+      <div className="flex items-center gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => openReviewDialog({ kind, id, action: "reject" })}
+          disabled={processingId === id}
+        >
+          {processingId === id ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <XCircle className="h-4 w-4" />
+          )}
+        </Button>
+        <Button
+          size="sm"
+          onClick={() => openReviewDialog({ kind, id, action: "approve" })}
+          disabled={processingId === id}
+        >
+          {processingId === id ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <CheckCircle2 className="h-4 w-4" />
+          )}
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="h-full overflow-auto p-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Availability changes */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <CalendarClock className="h-5 w-5" />
+              Availability Changes
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {changeRequests.length > 0 ? (
+              changeRequests.map((request) => (
+                <div
+                  key={request.id}
+                  className="flex items-start justify-between gap-4 p-3 border rounded-lg"
+                >
+                  <div className="flex items-start gap-3 min-w-0">
+                    <Avatar>
+                      <AvatarImage src={request.profiles?.avatar_url || undefined} />
+                      <AvatarFallback>{getInitials(request.profiles)}</AvatarFallback>
+                    </Avatar>
+                    <div className="min-w-0 space-y-1">
+                      <div className="font-medium">{getDisplayName(request.profiles)}</div>
+                      <div className="text-sm">
+                        {describeWeekly(request.weekly_availability)},{" "}
+                        {describeHours(request.preferred_max_hours_per_week)}
+                      </div>
+                      {request.status === "pending" && request.profiles && (
+                        <div className="text-sm text-muted-foreground">
+                          Currently: {describeWeekly(request.profiles.weekly_availability)},{" "}
+                          {describeHours(request.profiles.preferred_max_hours_per_week)}
+                        </div>
+                      )}
+                      {request.note && (
+                        <div className="text-sm text-muted-foreground">{request.note}</div>
+                      )}
+                      {request.created_at && (
+                        <div className="text-xs text-muted-foreground">
+                          Submitted {format(parseISO(request.created_at), "MMM d, yyyy")}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                  {renderActions("requests", request.id, request.status)}
+                </div>
+              ))
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                No availability changes to review
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* One-off unavailability */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <CalendarX className="h-5 w-5" />
+              Unavailable Dates
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {unavailability.length > 0 ? (
+              unavailability.map((entry) => (
+                <div
+                  key={entry.id}
+                  className="flex items-start justify-between gap-4 p-3 border rounded-lg"
+                >
+                  <div className="flex items-start gap-3 min-w-0">
+                    <Avatar>
+                      <AvatarImage src={entry.profiles?.avatar_url || undefined} />
+                      <AvatarFallback>{getInitials(entry.profiles)}</AvatarFallback>
+                    </Avatar>
+                    <div className="min-w-0 space-y-1">
+                      <div className="font-medium">{getDisplayName(entry.profiles)}</div>
+                      <div className="text-sm">{formatEntryDates(entry)}</div>
+                      {entry.reason && (
+                        <div className="text-sm text-muted-foreground">{entry.reason}</div>
+                      )}
+                    </div>
+                  </div>
+                  {renderActions("unavailability", entry.id, entry.status)}
+                </div>
+              ))
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                No upcoming unavailability
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Review Dialog */}
+      <Dialog open={!!reviewTarget} onOpenChange={(open) => !open && setReviewTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {reviewTarget?.action === "approve" ? "Approve" : "Decline"}{" "}
+              {reviewTarget?.kind === "requests" ? "Availability Change" : "Unavailability"}
+            </DialogTitle>
+            <DialogDescription>
+              The employee will be notified of your decision.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="availability-review-comment">Comment (optional)</Label>
+            <Textarea
+              id="availability-review-comment"
+              value={reviewComment}
+              onChange={(e) => setReviewComment(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleReviewSubmit}
+              variant={reviewTarget?.action === "reject" ? "destructive" : "default"}
+            >
+              {reviewTarget?.action === "approve" ? "Approve" : "Decline"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -34,7 +34,7 @@ import {
   isWithinInterval,
   differenceInMinutes,
 } from "date-fns";
-import type { Database } from "@/types/database.types";
+import type { Database, Json } from "@/types/database.types";
 import { createClient } from "@/lib/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -50,7 +50,14 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { ChevronLeft, ChevronRight, Plus, ChevronDown, GripVertical } from "lucide-react";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Plus,
+  ChevronDown,
+  GripVertical,
+  AlertTriangle,
+} from "lucide-react";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
 import { ShiftCard } from "./shift-card";
@@ -58,8 +65,33 @@ import { ShiftDialog } from "./shift-dialog";
 import { DraggableShift } from "./draggable-shift";
 import { DroppableDay } from "./droppable-day";
 import { TemplatesManager } from "./templates-manager";
+import { StaffingRequirementsManager } from "./staffing-requirements-manager";
 import { ScheduleFilters } from "./schedule-filters";
 import { CopyShiftsDialog } from "./copy-shifts-dialog";
+import { OpenShiftDialog, type OpenShiftClaim } from "./open-shift-dialog";
+import { ShiftValidationDialog } from "./shift-validation-dialog";
+import {
+  OPEN_SHIFT_LANE_ID,
+  isEligibleForOpenShift,
+  resolveOpenShiftSettings,
+} from "@/lib/open-shifts";
+import {
+  checkShifts,
+  hasValidationIssues,
+  resolveShiftValidationRules,
+  type ShiftValidationResult,
+  type ValidationShift,
+} from "@/lib/shift-validation";
+import {
+  buildMemberAvailability,
+  describeDayAvailability,
+  getAvailabilityConflicts,
+  type UnavailabilityEntry,
+} from "@/lib/availability";
+import { getGroupMemberIds } from "@/lib/groups";
+import { formatLaborCost, type LaborCostTotals } from "@/lib/labor-cost";
+import { notifyScheduleChanges } from "@/lib/schedule-changes";
+import { snapshotSchedule } from "@/lib/schedule-versions";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -97,11 +129,38 @@ type TeamMember = {
   display_name: string | null;
   avatar_url: string | null;
   role: string | null;
+  user_positions?: { position_id: string }[];
+  user_locations?: { location_id: string }[];
+  weekly_availability?: Json | null;
+  preferred_max_hours_per_week?: number | null;
+};
+
+type Unavailability = UnavailabilityEntry & { id: string };
+
+type DayAvailability = ReturnType<typeof describeDayAvailability>;
+
+// Pseudo member rendered as the first row of the week and day views
+const openShiftLane: TeamMember = {
+  id: OPEN_SHIFT_LANE_ID,
+  first_name: "Open Shifts",
+  last_name: "",
+  display_name: "Open Shifts",
+  avatar_url: null,
+  role: null,
 };
 
+const isInLane = (shift: Shift, memberId: string) =>
+  memberId === OPEN_SHIFT_LANE_ID ? !shift.user_id : shift.user_id === memberId;
+
 type Location = { id: string; name: string };
 type Department = { id: string; name: string };
 type Position = Database["public"]["Tables"]["positions"]["Row"];
+type EmployeeGroup = {
+  id: string;
+  name: string;
+  color: string | null;
+  employee_group_members: { user_id: string }[];
+};
 
 type PTORequest = {
   id: string;
@@ -127,13 +186,18 @@ interface ScheduleCalendarProps {
   locations: Location[];
   departments: Department[];
   positions: Position[];
+  groups?: EmployeeGroup[];
   ptoRequests?: PTORequest[];
+  openShiftClaims?: OpenShiftClaim[];
+  unavailability?: Unavailability[];
   currentDate: Date;
   view: "week" | "month" | "day";
   isAdmin: boolean;
   currentUserId: string;
   organizationId: string;
   scheduleSettings?: any;
+  // Projected labor cost keyed by yyyy-MM-dd (admins only)
+  laborCostByDay?: Record<string, LaborCostTotals>;
 }
 
 export function ScheduleCalendar({
@@ -142,13 +206,17 @@ export function ScheduleCalendar({
   locations,
   departments,
   positions,
+  groups = [],
   ptoRequests = [],
+  openShiftClaims = [],
+  unavailability = [],
   currentDate,
   view,
   isAdmin,
   currentUserId,
   organizationId,
   scheduleSettings,
+  laborCostByDay,
 }: ScheduleCalendarProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -160,6 +228,30 @@ export function ScheduleCalendar({
     ...scheduleSettings,
   };
 
+  const openShiftSettings = resolveOpenShiftSettings(scheduleSettings);
+  const validationRules = resolveShiftValidationRules(scheduleSettings);
+  const memberAvailability = buildMemberAvailability(teamMembers);
+
+  const getMemberUnavailability = (memberId: string) =>
+    unavailability.filter((entry) => entry.user_id === memberId);
+
+  // Availability problems for an assigned shift, shown as a warning on the card
+  const getShiftConflicts = (shift: Shift) =>
+    shift.user_id
+      ? getAvailabilityConflicts(
+          shift,
+          memberAvailability[shift.user_id]?.weekly ?? null,
+          getMemberUnavailability(shift.user_id)
+        ).map((conflict) => conflict.message)
+      : [];
+
+  const getDayAvailability = (memberId: string, date: Date) =>
+    describeDayAvailability(
+      format(date, "yyyy-MM-dd"),
+      memberAvailability[memberId]?.weekly ?? null,
+      getMemberUnavailability(memberId)
+    );
+
   // Helper function to format time based on settings
   const formatTime = (date: Date) => {
     if (settings.displayPreferences.timeFormat === "24h") {
@@ -173,21 +265,33 @@ export function ScheduleCalendar({
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [activeShift, setActiveShift] = useState<Shift | null>(null);
   const [selectedTemplate, setSelectedTemplate] = useState<ShiftTemplate | null>(null);
+  const [defaultUserId, setDefaultUserId] = useState<string | null>(null);
+  const [openShiftDialogShift, setOpenShiftDialogShift] = useState<Shift | null>(null);
 
   // Filter states
   const [filterLocations, setFilterLocations] = useState<string[]>([]);
   const [filterPosition, setFilterPosition] = useState<string | null>(null);
   const [filterMember, setFilterMember] = useState<string | null>(null);
+  const [filterGroup, setFilterGroup] = useState<string | null>(null);
   const [filterEvent, setFilterEvent] = useState<string | null>(null);
 
   // Multi-select state
   const [selectedShiftIds, setSelectedShiftIds] = useState<Set<string>>(new Set());
   const [copyDialogOpen, setCopyDialogOpen] = useState(false);
 
+  // Validation results waiting for the scheduler to confirm
+  const [validationPrompt, setValidationPrompt] = useState<{
+    title: string;
+    result: ShiftValidationResult;
+    shifts: ValidationShift[];
+    onConfirm: () => Promise<void>;
+  } | null>(null);
+
   const clearFilters = () => {
     setFilterLocations([]);
     setFilterPosition(null);
     setFilterMember(null);
+    setFilterGroup(null);
     setFilterEvent(null);
   };
 
@@ -207,22 +311,81 @@ export function ScheduleCalendar({
     setSelectedShiftIds(new Set());
   };
 
-  const handlePublishSelected = async () => {
-    if (selectedShiftIds.size === 0) return;
+  // Validate shifts before writing them; commit runs right away when there is nothing to review
+  const runWithValidation = async (
+    title: string,
+    candidates: ValidationShift[],
+    commit: () => Promise<void>
+  ) => {
+    let result: ShiftValidationResult;
     try {
-      const { error } = await supabase
-        .from("shifts")
-        .update({ is_published: true })
-        .in("id", Array.from(selectedShiftIds));
-
-      if (error) throw error;
-      toast.success(`${selectedShiftIds.size} shifts published`);
-      clearSelection();
-      router.refresh();
+      result = await checkShifts(supabase, organizationId, candidates, validationRules, {
+        weekStartsOn: weekStartDay,
+      });
     } catch (error) {
       console.error(error);
-      toast.error("Failed to publish shifts");
+      toast.error("Failed to validate shifts");
+      return;
+    }
+
+    if (!hasValidationIssues(result)) {
+      await commit();
+      return;
     }
+    setValidationPrompt({ title, result, shifts: candidates, onConfirm: commit });
+  };
+
+  const toValidationShift = (shift: Shift): ValidationShift => ({
+    key: shift.id,
+    id: shift.id,
+    user_id: shift.user_id,
+    start_time: shift.start_time,
+    end_time: shift.end_time,
+    break_minutes: shift.break_minutes,
+    position_id: shift.position_id,
+  });
+
+  const handlePublishSelected = async () => {
+    if (selectedShiftIds.size === 0) return;
+
+    // Publishing goes through the API so employees get their schedule summaries
+    const publish = async () => {
+      try {
+        const response = await fetch("/api/shifts/publish", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            shift_ids: Array.from(selectedShiftIds),
+            acknowledge_warnings: true,
+          }),
+        });
+
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to publish shifts");
+        }
+
+        toast.success(
+          data.published > 0
+            ? `${data.published} shift${data.published !== 1 ? "s" : ""} published`
+            : "Selected shifts are already published"
+        );
+        clearSelection();
+        router.refresh();
+      } catch (error) {
+        console.error(error);
+        toast.error(error instanceof Error ? error.message : "Failed to publish shifts");
+      }
+    };
+
+    await runWithValidation(
+      "Publish shifts?",
+      shifts.filter((shift) => selectedShiftIds.has(shift.id)).map(toValidationShift),
+      publish
+    );
   };
 
   const handleCopySelected = () => {
@@ -233,70 +396,120 @@ export function ScheduleCalendar({
   const handleCopyConfirm = async (targetDates: Date[]) => {
     if (selectedShiftIds.size === 0 || targetDates.length === 0) return;
 
-    try {
-      // Get the selected shifts data
-      const selectedShiftsData = shifts.filter((shift) =>
-        selectedShiftIds.has(shift.id)
-      );
-
-      // Create copies for each selected date
-      const newShifts: Database["public"]["Tables"]["shifts"]["Insert"][] = [];
+    // Get the selected shifts data
+    const selectedShiftsData = shifts.filter((shift) =>
+      selectedShiftIds.has(shift.id)
+    );
 
-      for (const targetDate of targetDates) {
-        for (const shift of selectedShiftsData) {
-          const originalStart = parseISO(shift.start_time);
-          const originalEnd = parseISO(shift.end_time);
+    // Create copies for each selected date
+    const newShifts: Database["public"]["Tables"]["shifts"]["Insert"][] = [];
 
-          // Calculate new start and end times preserving the time of day
-          const newStart = setMinutes(
-            setHours(targetDate, originalStart.getHours()),
-            originalStart.getMinutes()
-          );
-          const newEnd = setMinutes(
-            setHours(targetDate, originalEnd.getHours()),
-            originalEnd.getMinutes()
-          );
+    for (const targetDate of targetDates) {
+      for (const shift of selectedShiftsData) {
+        const originalStart = parseISO(shift.start_time);
+        const originalEnd = parseISO(shift.end_time);
 
-          newShifts.push({
-            organization_id: organizationId,
-            user_id: shift.user_id,
-            location_id: shift.location_id,
-            department_id: shift.department_id,
-            start_time: newStart.toISOString(),
-            end_time: newEnd.toISOString(),
-            position_id: shift.position_id,
-            notes: shift.notes,
-            color: shift.color,
-            is_published: false, // Copied shifts are drafts by default
-          });
-        }
+        // Calculate new start and end times preserving the time of day
+        const newStart = setMinutes(
+          setHours(targetDate, originalStart.getHours()),
+          originalStart.getMinutes()
+        );
+        const newEnd = setMinutes(
+          setHours(targetDate, originalEnd.getHours()),
+          originalEnd.getMinutes()
+        );
+
+        newShifts.push({
+          organization_id: organizationId,
+          user_id: shift.user_id,
+          location_id: shift.location_id,
+          department_id: shift.department_id,
+          start_time: newStart.toISOString(),
+          end_time: newEnd.toISOString(),
+          position_id: shift.position_id,
+          notes: shift.notes,
+          color: shift.color,
+          is_published: false, // Copied shifts are drafts by default
+        });
       }
+    }
 
-      const { error } = await supabase.from("shifts").insert(newShifts);
-
-      if (error) throw error;
+    const copy = async () => {
+      try {
+        await snapshotSchedule(
+          supabase,
+          organizationId,
+          newShifts.map((shift) => ({
+            start_time: shift.start_time,
+            location_id: shift.location_id ?? null,
+            department_id: shift.department_id ?? null,
+          })),
+          "copy_shifts",
+          currentUserId,
+          { weekStartsOn: weekStartDay }
+        );
+
+        const { error } = await supabase.from("shifts").insert(newShifts);
+
+        if (error) throw error;
+
+        toast.success(
+          `Copied ${selectedShiftsData.length} shift${selectedShiftsData.length > 1 ? "s" : ""} to ${targetDates.length} date${targetDates.length > 1 ? "s" : ""}`
+        );
+        setCopyDialogOpen(false);
+        clearSelection();
+        router.refresh();
+      } catch (error) {
+        console.error(error);
+        toast.error("Failed to copy shifts");
+      }
+    };
 
-      toast.success(
-        `Copied ${selectedShiftsData.length} shift${selectedShiftsData.length > 1 ? "s" : ""} to ${targetDates.length} date${targetDates.length > 1 ? "s" : ""}`
-      );
-      setCopyDialogOpen(false);
-      clearSelection();
-      router.refresh();
-    } catch (error) {
-      console.error(error);
-      toast.error("Failed to copy shifts");
-    }
+    await runWithValidation(
+      "Copy shifts?",
+      newShifts.map((shift, index) => ({
+        key: `copy-${index}`,
+        user_id: shift.user_id ?? null,
+        start_time: shift.start_time,
+        end_time: shift.end_time,
+        break_minutes: shift.break_minutes,
+        position_id: shift.position_id,
+      })),
+      copy
+    );
   };
-
   const handleDeleteSelected = async () => {
     if (selectedShiftIds.size === 0) return;
     try {
-      const { error } = await supabase
+      await snapshotSchedule(
+        supabase,
+        organizationId,
+        shifts.filter((shift) => selectedShiftIds.has(shift.id)),
+        "bulk_delete",
+        currentUserId,
+        { weekStartsOn: weekStartDay }
+      );
+
+      const { data: deleted, error } = await supabase
         .from("shifts")
         .delete()
-        .in("id", Array.from(selectedShiftIds));
+        .in("id", Array.from(selectedShiftIds))
+        .select("id");
 
       if (error) throw error;
+      // Shifts outside a manager's groups are silently skipped by RLS
+      if ((deleted || []).length < selectedShiftIds.size) {
+        toast.error("You can only manage employees in your groups");
+        router.refresh();
+        return;
+      }
+
+      await notifyScheduleChanges(
+        supabase,
+        organizationId,
+        shifts.filter((shift) => selectedShiftIds.has(shift.id)).map((shift) => ({ before: shift, after: null })),
+        { weekStartsOn: weekStartDay }
+      );
       toast.success(`${selectedShiftIds.size} shifts deleted`);
       clearSelection();
       router.refresh();
@@ -306,11 +519,25 @@ export function ScheduleCalendar({
     }
   };
 
+  // Members of the filtered group; their rows are the only ones shown
+  const groupMemberIds = filterGroup
+    ? getGroupMemberIds(
+        groups.flatMap((group) =>
+          group.employee_group_members.map((member) => ({ group_id: group.id, user_id: member.user_id }))
+        ),
+        [filterGroup]
+      )
+    : null;
+  const visibleMembers = groupMemberIds
+    ? teamMembers.filter((member) => groupMemberIds.has(member.id))
+    : teamMembers;
+
   // Apply filters to shifts
   const filteredShifts = shifts.filter((shift) => {
     if (filterLocations.length > 0 && (!shift.location_id || !filterLocations.includes(shift.location_id))) return false;
     if (filterPosition && shift.position_id !== filterPosition) return false;
     if (filterMember && shift.user_id !== filterMember) return false;
+    if (groupMemberIds && (!shift.user_id || !groupMemberIds.has(shift.user_id))) return false;
     // Event filter can be expanded later for different event types
     return true;
   });
@@ -383,10 +610,11 @@ export function ScheduleCalendar({
     });
   };
 
-  const handleAddShift = (date?: Date) => {
+  const handleAddShift = (date?: Date, memberId?: string) => {
     setSelectedShift(null);
     setSelectedDate(date || null);
     setSelectedTemplate(null);
+    setDefaultUserId(memberId || null);
     setDialogOpen(true);
   };
 
@@ -394,15 +622,29 @@ export function ScheduleCalendar({
     setSelectedShift(null);
     setSelectedDate(new Date());
     setSelectedTemplate(template);
+    setDefaultUserId(null);
     setDialogOpen(true);
   };
 
-  const handleEditShift = (shift: Shift) => {
+  const openShiftEditor = (shift: Shift) => {
     setSelectedShift(shift);
     setSelectedDate(null);
     setDialogOpen(true);
   };
 
+  const handleEditShift = (shift: Shift) => {
+    // Open shifts go through the claim dialog first
+    if (!shift.user_id && openShiftSettings.enabled) {
+      setOpenShiftDialogShift(shift);
+      return;
+    }
+    openShiftEditor(shift);
+  };
+
+  const currentMember = teamMembers.find((member) => member.id === currentUserId);
+  const showOpenShiftLane =
+    openShiftSettings.enabled && (isAdmin || filteredShifts.some((shift) => !shift.user_id));
+
   const handleDragStart = (event: DragStartEvent) => {
     const shift = event.active.data.current?.shift as Shift;
     setActiveShift(shift);
@@ -423,7 +665,8 @@ export function ScheduleCalendar({
     // Check if shift was dropped on a different day or different member
     const originalDate = parseISO(shift.start_time);
     const isSameDayDrop = isSameDay(originalDate, targetDate);
-    const isSameMember = !targetMemberId || shift.user_id === targetMemberId;
+    const targetUserId = targetMemberId === OPEN_SHIFT_LANE_ID ? null : targetMemberId;
+    const isSameMember = targetUserId === undefined || shift.user_id === targetUserId;
 
     if (isSameDayDrop && isSameMember) return;
 
@@ -440,50 +683,75 @@ export function ScheduleCalendar({
       originalEnd.getMinutes()
     );
 
-    try {
-      const updateData: { start_time: string; end_time: string; user_id?: string } = {
-        start_time: newStart.toISOString(),
-        end_time: newEnd.toISOString(),
-      };
-
-      // Update user_id if dropped on a different member (Week view)
-      if (targetMemberId && shift.user_id !== targetMemberId) {
-        updateData.user_id = targetMemberId;
-      }
+    const updateData: { start_time: string; end_time: string; user_id?: string | null } = {
+      start_time: newStart.toISOString(),
+      end_time: newEnd.toISOString(),
+    };
 
-      const { error } = await supabase
-        .from("shifts")
-        .update(updateData)
-        .eq("id", shift.id);
+    // Update user_id if dropped on a different member or the open lane (Week view)
+    if (targetUserId !== undefined && shift.user_id !== targetUserId) {
+      updateData.user_id = targetUserId;
+    }
 
-      if (error) throw error;
+    const move = async () => {
+      try {
+        const { data: movedShift, error } = await supabase
+          .from("shifts")
+          .update(updateData)
+          .eq("id", shift.id)
+          .select()
+          .single();
 
-      toast.success("Shift moved successfully");
-      router.refresh();
-    } catch (error) {
-      console.error(error);
-      toast.error("Failed to move shift");
-    }
+        if (error) throw error;
+
+        await notifyScheduleChanges(supabase, organizationId, [{ before: shift, after: movedShift }], {
+          weekStartsOn: weekStartDay,
+        });
+        toast.success("Shift moved successfully");
+        router.refresh();
+      } catch (error) {
+        console.error(error);
+        toast.error("Failed to move shift");
+      }
+    };
+
+    await runWithValidation("Move shift?", [{ ...toValidationShift(shift), ...updateData }], move);
   };
 
   const handleUpdateShiftTime = async (shiftId: string, newStartTime: Date, newEndTime: Date) => {
-    try {
-      const { error } = await supabase
-        .from("shifts")
-        .update({
-          start_time: newStartTime.toISOString(),
-          end_time: newEndTime.toISOString(),
-        })
-        .eq("id", shiftId);
+    const updateData = {
+      start_time: newStartTime.toISOString(),
+      end_time: newEndTime.toISOString(),
+    };
 
-      if (error) throw error;
+    const update = async () => {
+      try {
+        const { data: updatedShift, error } = await supabase
+          .from("shifts")
+          .update(updateData)
+          .eq("id", shiftId)
+          .select()
+          .single();
 
-      toast.success("Shift time updated successfully");
-      router.refresh();
-    } catch (error) {
-      console.error(error);
-      toast.error("Failed to update shift time");
+        if (error) throw error;
+
+        await notifyScheduleChanges(supabase, organizationId, [{ before: shift ?? null, after: updatedShift }], {
+          weekStartsOn: weekStartDay,
+        });
+        toast.success("Shift time updated successfully");
+        router.refresh();
+      } catch (error) {
+        console.error(error);
+        toast.error("Failed to update shift time");
+      }
+    };
+
+    const shift = shifts.find((s) => s.id === shiftId);
+    if (!shift) {
+      await update();
+      return;
     }
+    await runWithValidation("Change shift time?", [{ ...toValidationShift(shift), ...updateData }], update);
   };
 
   // Get week start day from settings (convert string to number for date-fns)
@@ -605,8 +873,22 @@ export function ScheduleCalendar({
               <>
                 <TemplatesManager
                   organizationId={organizationId}
+                  currentUserId={currentUserId}
+                  locations={locations}
+                  positions={positions}
+                  teamMembers={teamMembers}
+                  timeFormat={settings.displayPreferences.timeFormat}
                   onApplyTemplate={handleApplyTemplate}
                 />
+                <StaffingRequirementsManager
+                  organizationId={organizationId}
+                  locations={locations}
+                  positions={positions}
+                  currentDate={currentDate}
+                  weekStartsOn={weekStartDay}
+                  openShiftsEnabled={openShiftSettings.enabled}
+                  timeFormat={settings.displayPreferences.timeFormat}
+                />
                 <Button onClick={() => handleAddShift()}>
                   <Plus className="h-4 w-4 mr-2" />
                   Add Shift
@@ -621,13 +903,16 @@ export function ScheduleCalendar({
           locations={locations}
           positions={positions}
           teamMembers={teamMembers}
+          groups={groups}
           selectedLocations={filterLocations}
           selectedPosition={filterPosition}
           selectedMember={filterMember}
+          selectedGroup={filterGroup}
           selectedEvent={filterEvent}
           onLocationsChange={setFilterLocations}
           onPositionChange={setFilterPosition}
           onMemberChange={setFilterMember}
+          onGroupChange={setFilterGroup}
           onEventChange={setFilterEvent}
           onClearFilters={clearFilters}
           selectedShiftCount={selectedShiftIds.size}
@@ -651,31 +936,37 @@ export function ScheduleCalendar({
               currentUserId={currentUserId}
               selectedShiftIds={selectedShiftIds}
               onSelectChange={handleShiftSelectChange}
+              getShiftConflicts={getShiftConflicts}
               settings={settings}
             />
           ) : view === "day" ? (
             <DayView
               date={currentDate}
               shifts={filteredShifts.filter((shift) => isSameDay(parseISO(shift.start_time), currentDate))}
-              teamMembers={teamMembers}
+              teamMembers={showOpenShiftLane ? [openShiftLane, ...visibleMembers] : visibleMembers}
               onAddShift={handleAddShift}
               onEditShift={handleEditShift}
               onUpdateShiftTime={handleUpdateShiftTime}
               isAdmin={isAdmin}
               selectedShiftIds={selectedShiftIds}
               onSelectChange={handleShiftSelectChange}
+              getShiftConflicts={getShiftConflicts}
+              getDayAvailability={getDayAvailability}
               settings={settings}
             />
           ) : (
             <WeekView
               days={days}
               shifts={filteredShifts}
-              teamMembers={teamMembers}
+              teamMembers={showOpenShiftLane ? [openShiftLane, ...visibleMembers] : visibleMembers}
               onAddShift={handleAddShift}
               onEditShift={handleEditShift}
               isAdmin={isAdmin}
               selectedShiftIds={selectedShiftIds}
               onSelectChange={handleShiftSelectChange}
+              getShiftConflicts={getShiftConflicts}
+              getDayAvailability={getDayAvailability}
+              laborCostByDay={laborCostByDay}
               settings={settings}
             />
           )}
@@ -705,8 +996,37 @@ export function ScheduleCalendar({
           departments={departments}
           positions={positions}
           organizationId={organizationId}
+          currentUserId={currentUserId}
           isAdmin={isAdmin}
           schedulingPreferences={settings.schedulingPreferences}
+          openShiftSettings={openShiftSettings}
+          defaultUserId={defaultUserId}
+          unavailability={unavailability}
+          validationRules={validationRules}
+          weekStartsOn={weekStartDay}
+          timeFormat={settings.displayPreferences.timeFormat}
+        />
+
+        {/* Open Shift Dialog */}
+        <OpenShiftDialog
+          open={!!openShiftDialogShift}
+          onOpenChange={(open) => !open && setOpenShiftDialogShift(null)}
+          shift={openShiftDialogShift}
+          claims={openShiftClaims.filter((claim) => claim.shift_id === openShiftDialogShift?.id)}
+          currentUserId={currentUserId}
+          isAdmin={isAdmin}
+          isEligible={
+            !!openShiftDialogShift &&
+            !!currentMember &&
+            isEligibleForOpenShift(openShiftDialogShift, currentMember)
+          }
+          requireApproval={openShiftSettings.requireApproval}
+          timeFormat={settings.displayPreferences.timeFormat}
+          onEdit={() => {
+            const shift = openShiftDialogShift;
+            setOpenShiftDialogShift(null);
+            if (shift) openShiftEditor(shift);
+          }}
         />
 
         {/* Copy Shifts Dialog */}
@@ -717,6 +1037,22 @@ export function ScheduleCalendar({
           currentMonth={currentDate}
           onConfirm={handleCopyConfirm}
         />
+
+        {/* Shift Validation Dialog */}
+        <ShiftValidationDialog
+          open={!!validationPrompt}
+          onOpenChange={(open) => !open && setValidationPrompt(null)}
+          title={validationPrompt?.title || ""}
+          result={validationPrompt?.result || null}
+          shifts={validationPrompt?.shifts || []}
+          teamMembers={teamMembers}
+          timeFormat={settings.displayPreferences.timeFormat}
+          onConfirm={() => {
+            const prompt = validationPrompt;
+            setValidationPrompt(null);
+            prompt?.onConfirm();
+          }}
+        />
       </div>
     </DndContext>
   );
@@ -734,6 +1070,7 @@ function MonthView({
   currentUserId,
   selectedShiftIds,
   onSelectChange,
+  getShiftConflicts,
   settings,
 }: {
   days: Date[];
@@ -746,6 +1083,7 @@ function MonthView({
   currentUserId: string;
   selectedShiftIds: Set<string>;
   onSelectChange: (shiftId: string, selected: boolean) => void;
+  getShiftConflicts: (shift: Shift) => string[];
   settings: TeamSettings;
 }) {
   // Generate weekDays array based on weekStartDay
@@ -818,6 +1156,7 @@ function MonthView({
                   onClick={() => onEditShift(shift)}
                   isSelected={selectedShiftIds.has(shift.id)}
                   onSelectChange={onSelectChange}
+                  conflicts={getShiftConflicts(shift)}
                   settings={settings}
                   viewType="month"
                 />
@@ -865,12 +1204,14 @@ function DroppableWeekCell({
   memberId,
   isAdmin,
   onAddShift,
+  unavailable = false,
   children,
 }: {
   date: Date;
   memberId: string;
   isAdmin: boolean;
-  onAddShift: (date: Date) => void;
+  onAddShift: (date: Date, memberId?: string) => void;
+  unavailable?: boolean;
   children: React.ReactNode;
 }) {
   const { isOver, setNodeRef } = useDroppable({
@@ -883,9 +1224,10 @@ function DroppableWeekCell({
       ref={setNodeRef}
       className={cn(
         "flex-1 min-w-[120px] p-1 border-r last:border-r-0 space-y-1 transition-colors",
+        unavailable && "bg-muted/60",
         isOver && "bg-primary/10"
       )}
-      onClick={() => isAdmin && onAddShift(date)}
+      onClick={() => isAdmin && onAddShift(date, memberId)}
     >
       {children}
     </div>
@@ -902,16 +1244,22 @@ function WeekView({
   isAdmin,
   selectedShiftIds,
   onSelectChange,
+  getShiftConflicts,
+  getDayAvailability,
+  laborCostByDay,
   settings,
 }: {
   days: Date[];
   shifts: Shift[];
   teamMembers: TeamMember[];
-  onAddShift: (date: Date) => void;
+  onAddShift: (date: Date, memberId?: string) => void;
   onEditShift: (shift: Shift) => void;
   isAdmin: boolean;
   selectedShiftIds: Set<string>;
   onSelectChange: (shiftId: string, selected: boolean) => void;
+  getShiftConflicts: (shift: Shift) => string[];
+  getDayAvailability: (memberId: string, date: Date) => DayAvailability;
+  laborCostByDay?: Record<string, LaborCostTotals>;
   settings: TeamSettings;
 }) {
   // Generate weekDays array based on weekStartDay
@@ -923,7 +1271,7 @@ function WeekView({
   const getShiftsForMemberAndDay = (memberId: string, date: Date) => {
     return shifts.filter((shift) => {
       const shiftDate = parseISO(shift.start_time);
-      return shift.user_id === memberId && isSameDay(shiftDate, date);
+      return isInLane(shift, memberId) && isSameDay(shiftDate, date);
     });
   };
 
@@ -964,7 +1312,13 @@ function WeekView({
 
         {/* Member rows */}
         {teamMembers.map((member) => (
-          <div key={member.id} className="flex border-b min-h-[80px]">
+          <div
+            key={member.id}
+            className={cn(
+              "flex border-b min-h-[80px]",
+              member.id === OPEN_SHIFT_LANE_ID && "bg-amber-50/50 dark:bg-amber-950/20"
+            )}
+          >
             <div className="w-40 shrink-0 p-2 border-r bg-muted/30">
               <div className="font-medium text-sm truncate">
                 {getDisplayName(member)}
@@ -978,6 +1332,7 @@ function WeekView({
             <div className="flex flex-1">
               {days.map((day) => {
                 const memberDayShifts = getShiftsForMemberAndDay(member.id, day);
+                const availability = getDayAvailability(member.id, day);
                 return (
                   <DroppableWeekCell
                     key={`${member.id}-${day.toISOString()}`}
@@ -985,7 +1340,22 @@ function WeekView({
                     memberId={member.id}
                     isAdmin={isAdmin}
                     onAddShift={onAddShift}
+                    unavailable={availability?.unavailable && !availability.pending}
                   >
+                    {availability && (
+                      <div
+                        className={cn(
+                          "text-[10px] truncate",
+                          availability.unavailable
+                            ? "text-destructive"
+                            : "text-muted-foreground"
+                        )}
+                        title={availability.label}
+                      >
+                        {availability.label}
+                        {availability.pending && " (pending)"}
+                      </div>
+                    )}
                     {memberDayShifts.map((shift) => (
                       <DraggableShift
                         key={shift.id}
@@ -997,6 +1367,7 @@ function WeekView({
                         }}
                         isSelected={selectedShiftIds.has(shift.id)}
                         onSelectChange={onSelectChange}
+                        conflicts={getShiftConflicts(shift)}
                         settings={settings}
                         viewType="week"
                       />
@@ -1007,6 +1378,36 @@ function WeekView({
             </div>
           </div>
         ))}
+
+        {/* Projected labor cost per day */}
+        {laborCostByDay && (
+          <div className="flex border-b sticky bottom-0 bg-background z-10">
+            <div className="w-40 shrink-0 p-2 text-sm font-medium text-muted-foreground border-r">
+              Labor Cost
+            </div>
+            <div className="flex flex-1">
+              {days.map((day) => {
+                const totals = laborCostByDay[format(day, "yyyy-MM-dd")];
+                return (
+                  <div
+                    key={day.toISOString()}
+                    className="flex-1 min-w-[120px] p-2 text-center border-r last:border-r-0"
+                  >
+                    <div className="text-sm font-medium tabular-nums">
+                      {formatLaborCost(totals?.cost || 0)}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {totals?.hours || 0}h
+                      {totals && totals.overtimeHours > 0 && (
+                        <span className="text-amber-600"> · {totals.overtimeHours}h OT</span>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1023,17 +1424,21 @@ function DayView({
   isAdmin,
   selectedShiftIds,
   onSelectChange,
+  getShiftConflicts,
+  getDayAvailability,
   settings,
 }: {
   date: Date;
   shifts: Shift[];
   teamMembers: TeamMember[];
-  onAddShift: (date: Date) => void;
+  onAddShift: (date: Date, memberId?: string) => void;
   onEditShift: (shift: Shift) => void;
   onUpdateShiftTime: (shiftId: string, newStartTime: Date, newEndTime: Date) => void;
   isAdmin: boolean;
   selectedShiftIds: Set<string>;
   onSelectChange: (shiftId: string, selected: boolean) => void;
+  getShiftConflicts: (shift: Shift) => string[];
+  getDayAvailability: (memberId: string, date: Date) => DayAvailability;
   settings: TeamSettings;
 }) {
   // Hours from 6AM to 12AM (midnight) = 6 to 24
@@ -1059,7 +1464,7 @@ function DayView({
   const justFinishedDragging = useRef(false);
 
   const getShiftsForMember = (memberId: string) => {
-    return shifts.filter((shift) => shift.user_id === memberId);
+    return shifts.filter((shift) => isInLane(shift, memberId));
   };
 
   const getDisplayName = (member: TeamMember) => {
@@ -1362,8 +1767,15 @@ function DayView({
         <div className="flex-1 overflow-auto">
           {teamMembers.map((member) => {
             const memberShifts = getShiftsForMember(member.id);
+            const availability = getDayAvailability(member.id, date);
             return (
-              <div key={member.id} className="flex border-b min-h-[60px]">
+              <div
+                key={member.id}
+                className={cn(
+                  "flex border-b min-h-[60px]",
+                  member.id === OPEN_SHIFT_LANE_ID && "bg-amber-50/50 dark:bg-amber-950/20"
+                )}
+              >
                 <div className="w-40 shrink-0 p-2 border-r bg-muted/30">
                   <div className="font-medium text-sm truncate">
                     {getDisplayName(member)}
@@ -1373,6 +1785,18 @@ function DayView({
                       {member.role}
                     </div>
                   )}
+                  {availability && (
+                    <div
+                      className={cn(
+                        "text-xs truncate",
+                        availability.unavailable ? "text-destructive" : "text-muted-foreground"
+                      )}
+                      title={availability.label}
+                    >
+                      {availability.label}
+                      {availability.pending && " (pending)"}
+                    </div>
+                  )}
                 </div>
                 <div
                   ref={(el) => {
@@ -1381,7 +1805,7 @@ function DayView({
                   className="flex-1 relative"
                   onClick={() => {
                     if (justFinishedDragging.current) return;
-                    if (isAdmin) onAddShift(date);
+                    if (isAdmin) onAddShift(date, member.id);
                   }}
                 >
                   {/* Hour grid lines */}
@@ -1474,8 +1898,15 @@ function DayView({
                           {shift.positions && (
                             <div className="opacity-80 truncate">{shift.positions.name}</div>
                           )}
-                          <div className="font-medium truncate">
-                            {shift.profiles?.display_name || `${shift.profiles?.first_name} ${shift.profiles?.last_name}`}
+                          <div className="font-medium truncate flex items-center gap-1">
+                            {getShiftConflicts(shift).length > 0 && (
+                              <span title={getShiftConflicts(shift).join("\n")}>
+                                <AlertTriangle className="h-3 w-3 shrink-0" />
+                              </span>
+                            )}
+                            {!shift.profiles
+                              ? "Open Shift"
+                              : shift.profiles.display_name || `${shift.profiles.first_name} ${shift.profiles.last_name}`}
                           </div>
                         </div>
 
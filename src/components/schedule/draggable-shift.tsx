@@ -7,7 +7,7 @@ import { format, parseISO, differenceInMinutes } from "date-fns";
 import type { Database } from "@/types/database.types";
 import { cn } from "@/lib/utils";
 import { Checkbox } from "@/components/ui/checkbox";
-import { GripVertical } from "lucide-react";
+import { AlertTriangle, GripVertical } from "lucide-react";
 import {
   TeamSettings,
   defaultTeamSettings,
@@ -32,6 +32,8 @@ interface DraggableShiftProps {
   isDraggable?: boolean;
   isSelected?: boolean;
   onSelectChange?: (shiftId: string, selected: boolean) => void;
+  // Availability problems to flag on the card
+  conflicts?: string[];
   settings?: TeamSettings;
   viewType?: "day" | "week" | "month";
 }
@@ -103,6 +105,7 @@ export function DraggableShift({
   isDraggable = true,
   isSelected = false,
   onSelectChange,
+  conflicts = [],
   settings = defaultTeamSettings,
   viewType = "month",
 }: DraggableShiftProps) {
@@ -131,7 +134,7 @@ export function DraggableShift({
   const durationText = formatDuration(durationMinutes);
 
   const getDisplayName = () => {
-    if (!shift.profiles) return "Unassigned";
+    if (!shift.profiles) return "Open Shift";
     if (shift.profiles.display_name) return shift.profiles.display_name;
     return `${shift.profiles.first_name} ${shift.profiles.last_name}`;
   };
@@ -252,6 +255,11 @@ export function DraggableShift({
         <div className="flex-1 min-w-0">
           {renderFields()}
         </div>
+        {conflicts.length > 0 && (
+          <span title={conflicts.join("\n")} className="shrink-0">
+            <AlertTriangle className="h-3.5 w-3.5" />
+          </span>
+        )}
       </div>
     </div>
   );
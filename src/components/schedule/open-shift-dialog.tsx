@@ -0,0 +1,305 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Check, Loader2, Pencil, X } from "lucide-react";
+import type { OpenShiftClaimStatus } from "@/lib/open-shifts";
+
+export type OpenShiftClaim = {
+  id: string;
+  shift_id: string;
+  user_id: string;
+  status: string;
+  note: string | null;
+  created_at: string | null;
+  profiles: {
+    id: string;
+    first_name: string;
+    last_name: string;
+    display_name: string | null;
+    avatar_url: string | null;
+  } | null;
+};
+
+type OpenShift = {
+  id: string;
+  start_time: string;
+  end_time: string;
+  is_published: boolean | null;
+  notes: string | null;
+  locations: { id: string; name: string } | null;
+  positions: { id: string; name: string; color: string } | null;
+};
+
+interface OpenShiftDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  shift: OpenShift | null;
+  claims: OpenShiftClaim[];
+  currentUserId: string;
+  isAdmin: boolean;
+  isEligible: boolean;
+  requireApproval: boolean;
+  timeFormat: "12h" | "24h";
+  onEdit: () => void;
+}
+
+const claimStatusColors: Record<OpenShiftClaimStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+  cancelled: "bg-gray-100 text-gray-800",
+};
+
+export function OpenShiftDialog({
+  open,
+  onOpenChange,
+  shift,
+  claims,
+  currentUserId,
+  isAdmin,
+  isEligible,
+  requireApproval,
+  timeFormat,
+  onEdit,
+}: OpenShiftDialogProps) {
+  const router = useRouter();
+  const [note, setNote] = useState("");
+  const [loading, setLoading] = useState<string | null>(null);
+
+  if (!shift) return null;
+
+  const startTime = parseISO(shift.start_time);
+  const endTime = parseISO(shift.end_time);
+  const formatTime = (date: Date) => format(date, timeFormat === "24h" ? "HH:mm" : "h:mm a");
+  const hasStarted = startTime <= new Date();
+  const myClaim = claims.find((c) => c.user_id === currentUserId && c.status !== "cancelled");
+  const pendingClaims = claims.filter((c) => c.status === "pending");
+
+  const getClaimantName = (claim: OpenShiftClaim) =>
+    claim.profiles?.display_name ||
+    `${claim.profiles?.first_name || ""} ${claim.profiles?.last_name || ""}`.trim() ||
+    "Unknown";
+
+  const request = async (key: string, url: string, method: string, body?: object) => {
+    setLoading(key);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Request failed");
+      }
+      return result;
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const handleClaim = async () => {
+    try {
+      const result = await request("claim", `/api/open-shifts/${shift.id}/claim`, "POST", {
+        note: note.trim() || null,
+      });
+      toast.success(result.assigned ? "Shift added to your schedule" : "Claim submitted for approval");
+      setNote("");
+      onOpenChange(false);
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to claim shift");
+    }
+  };
+
+  const handleWithdraw = async () => {
+    try {
+      await request("withdraw", `/api/open-shifts/${shift.id}/claim`, "DELETE");
+      toast.success("Claim withdrawn");
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to withdraw claim");
+    }
+  };
+
+  const handleReview = async (claim: OpenShiftClaim, action: "approve" | "reject") => {
+    try {
+      await request(`${action}-${claim.id}`, `/api/open-shifts/claims/${claim.id}/${action}`, "PUT");
+      toast.success(
+        action === "approve"
+          ? `Shift assigned to ${getClaimantName(claim)}`
+          : "Claim declined"
+      );
+      if (action === "approve") onOpenChange(false);
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Failed to ${action} claim`);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Open Shift</DialogTitle>
+          <DialogDescription>
+            {format(startTime, "EEEE, MMMM d")} · {formatTime(startTime)} - {formatTime(endTime)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Shift details */}
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div className="space-y-1">
+              <Label className="text-muted-foreground">Position</Label>
+              <p className="font-medium">{shift.positions?.name || "Any"}</p>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-muted-foreground">Location</Label>
+              <p className="font-medium">{shift.locations?.name || "Any"}</p>
+            </div>
+          </div>
+          {shift.notes && (
+            <p className="text-sm text-muted-foreground bg-muted p-3 rounded-md">{shift.notes}</p>
+          )}
+
+          {/* Manager view: claims to review */}
+          {isAdmin && (
+            <div className="space-y-2 border-t pt-4">
+              <Label>Claims</Label>
+              {claims.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No one has claimed this shift yet.</p>
+              ) : (
+                <div className="divide-y rounded-md border">
+                  {claims.map((claim) => (
+                    <div key={claim.id} className="flex items-center justify-between gap-2 px-3 py-2">
+                      <div className="min-w-0">
+                        <div className="text-sm font-medium truncate">{getClaimantName(claim)}</div>
+                        {claim.note && (
+                          <div className="text-xs text-muted-foreground truncate">{claim.note}</div>
+                        )}
+                      </div>
+                      {claim.status === "pending" ? (
+                        <div className="flex items-center gap-1 shrink-0">
+                          <Button
+                            size="icon"
+                            variant="outline"
+                            className="h-8 w-8"
+                            disabled={loading !== null}
+                            onClick={() => handleReview(claim, "approve")}
+                            title="Approve"
+                          >
+                            {loading === `approve-${claim.id}` ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <Check className="h-4 w-4" />
+                            )}
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="outline"
+                            className="h-8 w-8"
+                            disabled={loading !== null}
+                            onClick={() => handleReview(claim, "reject")}
+                            title="Decline"
+                          >
+                            {loading === `reject-${claim.id}` ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <X className="h-4 w-4" />
+                            )}
+                          </Button>
+                        </div>
+                      ) : (
+                        <Badge className={claimStatusColors[claim.status as OpenShiftClaimStatus]}>
+                          {claim.status}
+                        </Badge>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+              {pendingClaims.length > 1 && (
+                <p className="text-xs text-muted-foreground">
+                  Approving one claim declines the others.
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Employee view: claim status */}
+          {!isAdmin && (
+            <div className="space-y-2 border-t pt-4">
+              {myClaim ? (
+                <div className="flex items-center justify-between">
+                  <span className="text-sm">Your claim</span>
+                  <Badge className={claimStatusColors[myClaim.status as OpenShiftClaimStatus]}>
+                    {myClaim.status}
+                  </Badge>
+                </div>
+              ) : hasStarted ? (
+                <p className="text-sm text-muted-foreground">This shift has already started.</p>
+              ) : !isEligible ? (
+                <p className="text-sm text-muted-foreground">
+                  This shift requires a position or location you are not assigned to.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="claimNote">Note (optional)</Label>
+                  <Textarea
+                    id="claimNote"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    placeholder="Anything your manager should know..."
+                    rows={2}
+                  />
+                  {requireApproval && (
+                    <p className="text-xs text-muted-foreground">
+                      A manager will review your claim before the shift is assigned.
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {isAdmin && (
+            <Button variant="outline" onClick={onEdit}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Edit Shift
+            </Button>
+          )}
+          {!isAdmin && myClaim?.status === "pending" && (
+            <Button variant="outline" onClick={handleWithdraw} disabled={loading !== null}>
+              {loading === "withdraw" && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Withdraw Claim
+            </Button>
+          )}
+          {!isAdmin && !myClaim && isEligible && !hasStarted && (
+            <Button onClick={handleClaim} disabled={loading !== null}>
+              {loading === "claim" && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Claim Shift
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
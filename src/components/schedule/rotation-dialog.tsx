@@ -0,0 +1,276 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { createClient } from "@/lib/supabase/client";
+import type { Database, Json } from "@/types/database.types";
+import {
+  MAX_ROTATION_DAYS,
+  fillRotationPreset,
+  parseRotationPattern,
+  rotationPresets,
+  type RotationPattern,
+} from "@/lib/rotations";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+type ShiftRotation = Database["public"]["Tables"]["shift_rotations"]["Row"];
+type ShiftTemplate = Database["public"]["Tables"]["shift_templates"]["Row"];
+
+interface RotationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rotation: ShiftRotation | null;
+  organizationId: string;
+  currentUserId: string;
+  templates: ShiftTemplate[];
+  onSaved?: () => void;
+}
+
+// Select value for a day off
+const OFF = "off";
+
+export function RotationDialog({
+  open,
+  onOpenChange,
+  rotation,
+  organizationId,
+  currentUserId,
+  templates,
+  onSaved,
+}: RotationDialogProps) {
+  const supabase = createClient();
+  const [loading, setLoading] = useState(false);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [pattern, setPattern] = useState<RotationPattern>([]);
+  const [presetTemplateId, setPresetTemplateId] = useState("");
+
+  const isEditing = !!rotation;
+
+  useEffect(() => {
+    if (open) {
+      setName(rotation?.name || "");
+      setDescription(rotation?.description || "");
+      setPattern(rotation ? parseRotationPattern(rotation.pattern) : Array(7).fill(null));
+      setPresetTemplateId(templates[0]?.id || "");
+    }
+  }, [open, rotation, templates]);
+
+  const setCycleLength = (length: number) => {
+    const days = Math.min(Math.max(length, 1), MAX_ROTATION_DAYS);
+    setPattern((prev) => Array.from({ length: days }, (_, index) => prev[index] ?? null));
+  };
+
+  const applyPreset = (presetId: string) => {
+    const preset = rotationPresets.find((p) => p.id === presetId);
+    if (!preset || !presetTemplateId) return;
+    setPattern(fillRotationPreset(preset.days, presetTemplateId));
+  };
+
+  const setDay = (index: number, templateId: string) => {
+    setPattern((prev) => prev.map((day, i) => (i === index ? (templateId === OFF ? null : templateId) : day)));
+  };
+
+  const workingDays = pattern.filter(Boolean).length;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      toast.error("Please enter a rotation name");
+      return;
+    }
+
+    if (workingDays === 0) {
+      toast.error("Choose a template for at least one day");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const rotationData = {
+        name: name.trim(),
+        description: description.trim() || null,
+        pattern: pattern as Json,
+      };
+
+      if (isEditing && rotation) {
+        const { error } = await supabase
+          .from("shift_rotations")
+          .update(rotationData)
+          .eq("id", rotation.id);
+
+        if (error) throw error;
+        toast.success("Rotation updated");
+      } else {
+        const { error } = await supabase.from("shift_rotations").insert({
+          ...rotationData,
+          organization_id: organizationId,
+          created_by: currentUserId,
+        });
+
+        if (error) throw error;
+        toast.success("Rotation created");
+      }
+
+      onOpenChange(false);
+      onSaved?.();
+    } catch (error) {
+      console.error(error);
+      toast.error(isEditing ? "Failed to update rotation" : "Failed to create rotation");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Show the cycle a week per row
+  const weeks = Array.from({ length: Math.ceil(pattern.length / 7) }, (_, week) =>
+    pattern.slice(week * 7, week * 7 + 7).map((day, index) => ({ day, index: week * 7 + index }))
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Rotation" : "Create Rotation"}</DialogTitle>
+          <DialogDescription>
+            Choose the template worked on each day of the cycle. The cycle repeats for as long as
+            the rotation is applied.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="rotationName">Rotation Name</Label>
+            <Input
+              id="rotationName"
+              placeholder="e.g., Night crew 4 on / 4 off"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="rotationDescription">Description</Label>
+            <Textarea
+              id="rotationDescription"
+              placeholder="Optional description..."
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          {templates.length > 0 && (
+            <div className="space-y-2 rounded-md border p-3">
+              <Label>Start from a common rotation</Label>
+              <div className="flex flex-wrap gap-2">
+                <Select value={presetTemplateId} onValueChange={setPresetTemplateId}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder="Template" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map((template) => (
+                      <SelectItem key={template.id} value={template.id}>
+                        {template.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {rotationPresets.map((preset) => (
+                  <Button
+                    key={preset.id}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => applyPreset(preset.id)}
+                  >
+                    {preset.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="cycleLength">Cycle Length (days)</Label>
+              <Input
+                id="cycleLength"
+                type="number"
+                min={1}
+                max={MAX_ROTATION_DAYS}
+                className="w-28"
+                value={pattern.length}
+                onChange={(e) => setCycleLength(parseInt(e.target.value) || 1)}
+              />
+            </div>
+            <p className="text-sm text-muted-foreground pb-2">
+              {workingDays} working day{workingDays !== 1 ? "s" : ""}, {pattern.length - workingDays} off
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            {weeks.map((week, weekIndex) => (
+              <div key={weekIndex} className="grid grid-cols-7 gap-1">
+                {week.map(({ day, index }) => (
+                  <div key={index} className="space-y-1">
+                    <div className="text-xs text-muted-foreground text-center">Day {index + 1}</div>
+                    <Select value={day || OFF} onValueChange={(value) => setDay(index, value)}>
+                      <SelectTrigger className="h-8 px-2 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={OFF}>Off</SelectItem>
+                        {templates.map((template) => (
+                          <SelectItem key={template.id} value={template.id}>
+                            {template.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={loading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {isEditing ? "Update" : "Create"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -21,6 +21,7 @@ import { cn } from "@/lib/utils";
 
 type Location = { id: string; name: string };
 type Position = { id: string; name: string };
+type Group = { id: string; name: string };
 type TeamMember = {
   id: string;
   first_name: string;
@@ -32,13 +33,16 @@ interface ScheduleFiltersProps {
   locations: Location[];
   positions: Position[];
   teamMembers: TeamMember[];
+  groups: Group[];
   selectedLocations: string[];
   selectedPosition: string | null;
   selectedMember: string | null;
+  selectedGroup: string | null;
   selectedEvent: string | null;
   onLocationsChange: (value: string[]) => void;
   onPositionChange: (value: string | null) => void;
   onMemberChange: (value: string | null) => void;
+  onGroupChange: (value: string | null) => void;
   onEventChange: (value: string | null) => void;
   onClearFilters: () => void;
   // Multi-select actions
@@ -59,13 +63,16 @@ export function ScheduleFilters({
   locations,
   positions,
   teamMembers,
+  groups,
   selectedLocations,
   selectedPosition,
   selectedMember,
+  selectedGroup,
   selectedEvent,
   onLocationsChange,
   onPositionChange,
   onMemberChange,
+  onGroupChange,
   onEventChange,
   onClearFilters,
   selectedShiftCount,
@@ -75,7 +82,7 @@ export function ScheduleFilters({
   onClearSelection,
 }: ScheduleFiltersProps) {
   const hasActiveFilters =
-    selectedLocations.length > 0 || selectedPosition || selectedMember || selectedEvent;
+    selectedLocations.length > 0 || selectedPosition || selectedMember || selectedGroup || selectedEvent;
 
   const toggleLocation = (locationId: string) => {
     if (selectedLocations.includes(locationId)) {
@@ -241,6 +248,25 @@ export function ScheduleFilters({
         </SelectContent>
       </Select>
 
+      {groups.length > 0 && (
+        <Select
+          value={selectedGroup || "all"}
+          onValueChange={(value) => onGroupChange(value === "all" ? null : value)}
+        >
+          <SelectTrigger className={cn("w-[160px] h-8 text-sm", selectedGroup && "bg-green-100")}>
+            <SelectValue placeholder="All Groups" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Groups</SelectItem>
+            {groups.map((group) => (
+              <SelectItem key={group.id} value={group.id}>
+                {group.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
       <Select
         value={selectedEvent || "all"}
         onValueChange={(value) => onEventChange(value === "all" ? null : value)}
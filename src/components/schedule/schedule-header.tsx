@@ -1,9 +1,22 @@
 "use client";
 
 import { useRouter, useSearchParams } from "next/navigation";
+import { format, parseISO } from "date-fns";
 import { SidebarTrigger } from "@/components/ui/sidebar";
 import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { AlertTriangle, DollarSign } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  UNASSIGNED_KEY,
+  formatLaborCost,
+  type LaborBudgetOverage,
+  type LaborCostProjection,
+  type LaborCostTotals,
+} from "@/lib/labor-cost";
+import { ScheduleHistory, type ScheduleHistoryProps } from "./schedule-history";
 
 const scheduleTabs = [
   { value: "full", label: "Full Schedule" },
@@ -13,11 +26,20 @@ const scheduleTabs = [
   { value: "unavailability", label: "Unavailability" },
 ];
 
+export interface ScheduleLaborCost {
+  projection: LaborCostProjection;
+  overages: LaborBudgetOverage[];
+  locations: { id: string; name: string; weekly_labor_budget?: number | null }[];
+  departments: { id: string; name: string }[];
+}
+
 interface ScheduleHeaderProps {
   isAdmin?: boolean;
+  laborCost?: ScheduleLaborCost | null;
+  history?: ScheduleHistoryProps | null;
 }
 
-export function ScheduleHeader({ isAdmin = false }: ScheduleHeaderProps) {
+export function ScheduleHeader({ isAdmin = false, laborCost, history }: ScheduleHeaderProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
   const currentTab = searchParams.get("tab") || "full";
@@ -41,6 +63,121 @@ export function ScheduleHeader({ isAdmin = false }: ScheduleHeaderProps) {
           ))}
         </TabsList>
       </Tabs>
+      {isAdmin && (history || laborCost) && (
+        <div className="ml-auto flex items-center gap-2">
+          {history && <ScheduleHistory {...history} />}
+          {laborCost && <LaborCostSummary laborCost={laborCost} />}
+        </div>
+      )}
     </header>
   );
 }
+
+function LaborCostRows({
+  totals,
+  names,
+}: {
+  totals: Record<string, LaborCostTotals>;
+  names: Record<string, string>;
+}) {
+  const rows = Object.entries(totals).sort(([, a], [, b]) => b.cost - a.cost);
+
+  if (rows.length === 0) {
+    return <p className="text-xs text-muted-foreground">No scheduled hours</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {rows.map(([key, row]) => (
+        <div key={key} className="flex items-center justify-between gap-2 text-sm">
+          <span className="truncate">
+            {key === UNASSIGNED_KEY ? "Unassigned" : names[key] || "Unknown"}
+          </span>
+          <span className="shrink-0 tabular-nums">
+            {formatLaborCost(row.cost)}
+            <span className="text-xs text-muted-foreground"> · {row.hours}h</span>
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Projected cost of the shifts in view, with budget warnings per location
+function LaborCostSummary({ laborCost }: { laborCost: ScheduleLaborCost }) {
+  const { projection, overages, locations, departments } = laborCost;
+  const locationNames = Object.fromEntries(locations.map((l) => [l.id, l.name]));
+  const departmentNames = Object.fromEntries(departments.map((d) => [d.id, d.name]));
+  const overBudget = overages.length > 0;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={cn(overBudget && "border-destructive text-destructive hover:text-destructive")}
+        >
+          {overBudget ? (
+            <AlertTriangle className="h-4 w-4 mr-2" />
+          ) : (
+            <DollarSign className="h-4 w-4 mr-2" />
+          )}
+          Labor {formatLaborCost(projection.total.cost)}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-4" align="end">
+        <div>
+          <div className="font-medium">Projected Labor Cost</div>
+          <p className="text-xs text-muted-foreground">
+            {projection.total.hours}h scheduled
+            {projection.total.overtimeHours > 0 &&
+              `, ${projection.total.overtimeHours}h projected overtime`}
+          </p>
+        </div>
+
+        {overages.length > 0 && (
+          <div className="space-y-1 rounded-md border border-destructive/50 bg-destructive/5 p-2">
+            {overages.map((overage) => (
+              <div
+                key={`${overage.locationId}-${overage.weekStart}`}
+                className="flex items-start gap-2 text-xs text-destructive"
+              >
+                <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                <span>
+                  {locationNames[overage.locationId] || "Unknown"} is over budget for the week of{" "}
+                  {format(parseISO(overage.weekStart), "MMM d")}:{" "}
+                  {formatLaborCost(overage.cost)} of {formatLaborCost(overage.budget)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <div className="text-xs font-medium uppercase text-muted-foreground">By Location</div>
+          <LaborCostRows totals={projection.byLocation} names={locationNames} />
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-xs font-medium uppercase text-muted-foreground">By Department</div>
+          <LaborCostRows totals={projection.byDepartment} names={departmentNames} />
+        </div>
+
+        {(projection.openShiftHours > 0 || projection.missingRates.length > 0) && (
+          <div className="space-y-1 text-xs text-muted-foreground">
+            {projection.openShiftHours > 0 && (
+              <p>{projection.openShiftHours}h on open shifts is not included.</p>
+            )}
+            {projection.missingRates.length > 0 && (
+              <p>
+                {projection.missingRates.length} employee
+                {projection.missingRates.length === 1 ? " has" : "s have"} no hourly rate set.
+              </p>
+            )}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,432 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { addDays, format, formatDistanceToNow, parseISO } from "date-fns";
+import { createClient } from "@/lib/supabase/client";
+import type { Database } from "@/types/database.types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import { ChevronLeft, ChevronRight, History, RotateCcw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getScheduleWeekStart } from "@/lib/schedule-changes";
+import {
+  diffScheduleVersions,
+  fetchScopeShifts,
+  getVersionShifts,
+  restoreScheduleVersion,
+  scheduleVersionReasonLabels,
+  versionFieldLabels,
+  type ScheduleVersionDiff,
+  type ScheduleVersionReason,
+  type VersionShift,
+} from "@/lib/schedule-versions";
+
+type ScheduleVersion = Database["public"]["Tables"]["schedule_versions"]["Row"] & {
+  profiles: { first_name: string; last_name: string; display_name: string | null } | null;
+};
+
+export interface ScheduleHistoryProps {
+  organizationId: string;
+  currentUserId: string;
+  weekStartsOn: 0 | 1 | 6;
+  locations: { id: string; name: string }[];
+  departments: { id: string; name: string }[];
+  members: { id: string; name: string }[];
+}
+
+const ALL = "all";
+
+// Compare the selected versions, oldest first; one version is compared with the current schedule
+type Comparison = { fromLabel: string; toLabel: string; diff: ScheduleVersionDiff };
+
+export function ScheduleHistory({
+  organizationId,
+  currentUserId,
+  weekStartsOn,
+  locations,
+  departments,
+  members,
+}: ScheduleHistoryProps) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const supabase = createClient();
+
+  const viewDate = searchParams.get("date") || format(new Date(), "yyyy-MM-dd");
+  const [open, setOpen] = useState(false);
+  const [weekStart, setWeekStart] = useState(() =>
+    getScheduleWeekStart(parseISO(viewDate).toISOString(), { weekStartsOn })
+  );
+  const [locationId, setLocationId] = useState(ALL);
+  const [departmentId, setDepartmentId] = useState(ALL);
+  const [versions, setVersions] = useState<ScheduleVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [restoreTarget, setRestoreTarget] = useState<ScheduleVersion | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  const scope = {
+    weekStart,
+    locationId: locationId === ALL ? null : locationId,
+    departmentId: departmentId === ALL ? null : departmentId,
+  };
+
+  const memberNames = Object.fromEntries(members.map((member) => [member.id, member.name]));
+  const locationNames = Object.fromEntries(locations.map((location) => [location.id, location.name]));
+
+  const fetchVersions = async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from("schedule_versions")
+        .select(`
+          *,
+          profiles!schedule_versions_created_by_fkey (first_name, last_name, display_name)
+        `)
+        .eq("organization_id", organizationId)
+        .eq("week_start", weekStart)
+        .order("created_at", { ascending: false })
+        .limit(50);
+
+      query = scope.locationId ? query.eq("location_id", scope.locationId) : query.is("location_id", null);
+      query = scope.departmentId
+        ? query.eq("department_id", scope.departmentId)
+        : query.is("department_id", null);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setVersions(data || []);
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to load schedule history");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      setSelectedIds([]);
+      setComparison(null);
+      fetchVersions();
+    }
+  }, [open, weekStart, locationId, departmentId]);
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setComparison(null);
+    setSelectedIds((prev) => {
+      if (!checked) return prev.filter((selected) => selected !== id);
+      // Keep the two most recently picked
+      return [...prev, id].slice(-2);
+    });
+  };
+
+  const describeVersion = (version: ScheduleVersion) =>
+    `${scheduleVersionReasonLabels[version.reason as ScheduleVersionReason] || version.reason}, ${format(
+      parseISO(version.created_at),
+      "MMM d, h:mm a"
+    )}`;
+
+  const handleCompare = async () => {
+    const selected = versions
+      .filter((version) => selectedIds.includes(version.id))
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+    if (selected.length === 0) return;
+
+    try {
+      if (selected.length === 1) {
+        const current = await fetchScopeShifts(supabase, organizationId, scope, { weekStartsOn });
+        setComparison({
+          fromLabel: describeVersion(selected[0]),
+          toLabel: "Current schedule",
+          diff: diffScheduleVersions(getVersionShifts(selected[0]), current),
+        });
+      } else {
+        setComparison({
+          fromLabel: describeVersion(selected[0]),
+          toLabel: describeVersion(selected[1]),
+          diff: diffScheduleVersions(getVersionShifts(selected[0]), getVersionShifts(selected[1])),
+        });
+      }
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to compare versions");
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!restoreTarget) return;
+
+    setRestoring(true);
+    try {
+      const summary = await restoreScheduleVersion(supabase, restoreTarget, {
+        createdBy: currentUserId,
+        weekStartsOn,
+      });
+      toast.success(
+        summary.added + summary.removed === 0
+          ? "The schedule already matches this version"
+          : `Version restored: ${summary.added} shift${summary.added !== 1 ? "s" : ""} added as drafts, ${summary.removed} removed`
+      );
+      setRestoreTarget(null);
+      await fetchVersions();
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to restore version");
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const moveWeek = (weeks: number) => {
+    setWeekStart((prev) => format(addDays(parseISO(prev), weeks * 7), "yyyy-MM-dd"));
+  };
+
+  const describeShift = (shift: VersionShift) =>
+    [
+      format(parseISO(shift.start_time), "EEE, MMM d"),
+      `${format(parseISO(shift.start_time), "h:mm a")}–${format(parseISO(shift.end_time), "h:mm a")}`,
+      shift.user_id ? memberNames[shift.user_id] || "Unknown" : "Open shift",
+      shift.location_id ? locationNames[shift.location_id] : null,
+    ]
+      .filter(Boolean)
+      .join(" · ");
+
+  return (
+    <>
+      <Sheet open={open} onOpenChange={setOpen}>
+        <SheetTrigger asChild>
+          <Button variant="outline" size="sm">
+            <History className="h-4 w-4 mr-2" />
+            History
+          </Button>
+        </SheetTrigger>
+        <SheetContent className="w-[400px] sm:w-[540px] overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>Schedule History</SheetTitle>
+            <SheetDescription>
+              A version is saved on every publish and before bulk changes. Compare versions or
+              restore one as drafts.
+            </SheetDescription>
+          </SheetHeader>
+
+          <div className="mt-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <Button variant="ghost" size="icon" onClick={() => moveWeek(-1)}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-sm font-medium">
+                Week of {format(parseISO(weekStart), "MMM d, yyyy")}
+              </span>
+              <Button variant="ghost" size="icon" onClick={() => moveWeek(1)}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <Select value={locationId} onValueChange={setLocationId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Location" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All locations</SelectItem>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {location.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={departmentId} onValueChange={setDepartmentId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Department" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All departments</SelectItem>
+                  {departments.map((department) => (
+                    <SelectItem key={department.id} value={department.id}>
+                      {department.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {loading ? (
+              <div className="space-y-2">
+                {[1, 2, 3].map((i) => (
+                  <div key={i} className="h-14 animate-pulse rounded-md bg-muted" />
+                ))}
+              </div>
+            ) : versions.length > 0 ? (
+              <div className="space-y-2">
+                {versions.map((version) => {
+                  const author = version.profiles
+                    ? version.profiles.display_name || `${version.profiles.first_name} ${version.profiles.last_name}`
+                    : "Unknown";
+                  const isSelected = selectedIds.includes(version.id);
+
+                  return (
+                    <div
+                      key={version.id}
+                      className={cn(
+                        "flex items-center gap-3 rounded-md border p-3",
+                        isSelected && "border-primary bg-primary/5"
+                      )}
+                    >
+                      <Checkbox
+                        checked={isSelected}
+                        onCheckedChange={(checked) => toggleSelected(version.id, checked === true)}
+                      />
+                      <div className="min-w-0 flex-1">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-medium">
+                            {scheduleVersionReasonLabels[version.reason as ScheduleVersionReason] ||
+                              version.reason}
+                          </span>
+                          <Badge variant="secondary" className="text-xs">
+                            {version.shift_count} shift{version.shift_count !== 1 ? "s" : ""}
+                          </Badge>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {author} · {formatDistanceToNow(parseISO(version.created_at), { addSuffix: true })}
+                        </p>
+                      </div>
+                      <Button variant="ghost" size="sm" onClick={() => setRestoreTarget(version)}>
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Restore
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <p className="py-6 text-center text-sm text-muted-foreground">
+                No versions saved for this week
+                {scope.locationId || scope.departmentId ? " in this location and department" : ""}.
+              </p>
+            )}
+
+            {versions.length > 0 && (
+              <Button
+                variant="secondary"
+                className="w-full"
+                disabled={selectedIds.length === 0}
+                onClick={handleCompare}
+              >
+                {selectedIds.length === 2 ? "Compare selected versions" : "Compare with current schedule"}
+              </Button>
+            )}
+
+            {comparison && (
+              <div className="space-y-3 rounded-md border p-3">
+                <p className="text-xs text-muted-foreground">
+                  From <span className="font-medium text-foreground">{comparison.fromLabel}</span> to{" "}
+                  <span className="font-medium text-foreground">{comparison.toLabel}</span>
+                </p>
+
+                {comparison.diff.added.length + comparison.diff.removed.length + comparison.diff.changed.length ===
+                0 ? (
+                  <p className="text-sm text-muted-foreground">No differences</p>
+                ) : (
+                  <>
+                    {comparison.diff.added.length > 0 && (
+                      <div className="space-y-1">
+                        <div className="text-xs font-medium uppercase text-green-700">
+                          Added ({comparison.diff.added.length})
+                        </div>
+                        {comparison.diff.added.map((shift) => (
+                          <p key={shift.id} className="text-sm">
+                            {describeShift(shift)}
+                          </p>
+                        ))}
+                      </div>
+                    )}
+                    {comparison.diff.removed.length > 0 && (
+                      <div className="space-y-1">
+                        <div className="text-xs font-medium uppercase text-destructive">
+                          Removed ({comparison.diff.removed.length})
+                        </div>
+                        {comparison.diff.removed.map((shift) => (
+                          <p key={shift.id} className="text-sm line-through text-muted-foreground">
+                            {describeShift(shift)}
+                          </p>
+                        ))}
+                      </div>
+                    )}
+                    {comparison.diff.changed.length > 0 && (
+                      <div className="space-y-1">
+                        <div className="text-xs font-medium uppercase text-yellow-700">
+                          Changed ({comparison.diff.changed.length})
+                        </div>
+                        {comparison.diff.changed.map(({ before, after, fields }) => (
+                          <div key={after.id} className="text-sm">
+                            <p>{describeShift(after)}</p>
+                            <p className="text-xs text-muted-foreground">
+                              Was {describeShift(before)}
+                              {" · "}
+                              {fields.map((field) => versionFieldLabels[field]).join(", ")} changed
+                            </p>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        </SheetContent>
+      </Sheet>
+
+      <AlertDialog open={!!restoreTarget} onOpenChange={(open) => !open && setRestoreTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore this version?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {restoreTarget && describeVersion(restoreTarget)}. Shifts that don&apos;t match it are
+              removed, and its missing shifts are added back as drafts for you to review and publish.
+              Shifts that have already started are left as they are. The current schedule is saved
+              as a version first.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={restoring}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRestore} disabled={restoring}>
+              {restoring ? "Restoring..." : "Restore"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -2,9 +2,51 @@
 
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
-import { format, parseISO, setHours, setMinutes, addDays, addWeeks, addHours, startOfDay, isBefore, isAfter, isSameDay } from "date-fns";
+import { format, parseISO, setHours, setMinutes, addDays, addWeeks, addHours } from "date-fns";
 import { createClient } from "@/lib/supabase/client";
-import type { Database } from "@/types/database.types";
+import { createOpenShiftNotification } from "@/lib/notifications";
+import { notifyScheduleChanges } from "@/lib/schedule-changes";
+import { snapshotSchedule } from "@/lib/schedule-versions";
+import {
+  OPEN_SHIFT_LANE_ID,
+  defaultOpenShiftSettings,
+  getEligibleMembers,
+  type OpenShiftSettings,
+} from "@/lib/open-shifts";
+import {
+  checkShifts,
+  defaultShiftValidationRules,
+  hasValidationIssues,
+  type ShiftValidationResult,
+  type ShiftValidationRules,
+  type ValidationShift,
+} from "@/lib/shift-validation";
+import {
+  buildMemberAvailability,
+  getAvailabilityConflicts,
+  type AvailabilityConflict,
+  type UnavailabilityEntry,
+} from "@/lib/availability";
+import {
+  describeRecurrence,
+  expandRecurrence,
+  MAX_RECURRENCE_OCCURRENCES,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+} from "@/lib/recurrence";
+import {
+  createShiftSeries,
+  deleteShiftSeries,
+  getSeriesId,
+  resolveShiftRecurrence,
+  seriesScopeLabels,
+  toUntilRule,
+  updateShiftSeries,
+  type SeriesScope,
+  type ShiftRecurrence,
+  type ShiftSeriesFields,
+} from "@/lib/shift-series";
+import type { Database, Json } from "@/types/database.types";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -35,9 +77,11 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { toast } from "sonner";
-import { Loader2, Trash2 } from "lucide-react";
+import { AlertTriangle, Loader2, Trash2 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { ShiftValidationDialog } from "./shift-validation-dialog";
 
 type Shift = Database["public"]["Tables"]["shifts"]["Row"] & {
   profiles: {
@@ -60,6 +104,8 @@ type TeamMember = {
   role: string | null;
   user_positions?: { position_id: string }[];
   user_locations?: { location_id: string }[];
+  weekly_availability?: Json | null;
+  preferred_max_hours_per_week?: number | null;
 };
 
 type Location = { id: string; name: string };
@@ -88,23 +134,30 @@ interface ShiftDialogProps {
   departments: Department[];
   positions: Position[];
   organizationId: string;
+  currentUserId: string;
   isAdmin: boolean;
   schedulingPreferences?: SchedulingPreferences;
+  openShiftSettings?: OpenShiftSettings;
+  defaultUserId?: string | null;
+  unavailability?: UnavailabilityEntry[];
+  validationRules?: ShiftValidationRules;
+  weekStartsOn?: 0 | 1 | 6;
+  timeFormat?: "12h" | "24h";
 }
 
-const repeatOptions = [
+const repeatFrequencyOptions: { value: "none" | RecurrenceFrequency; label: string }[] = [
   { value: "none", label: "No repeat" },
-  { value: "this_week", label: "This week" },
-  { value: "every_week", label: "Every week" },
-  { value: "every_2_weeks", label: "Every 2 weeks" },
-  { value: "every_3_weeks", label: "Every 3 weeks" },
-  { value: "every_4_weeks", label: "Every 4 weeks" },
-  { value: "every_5_weeks", label: "Every 5 weeks" },
-  { value: "every_6_weeks", label: "Every 6 weeks" },
-  { value: "every_7_weeks", label: "Every 7 weeks" },
-  { value: "every_8_weeks", label: "Every 8 weeks" },
+  { value: "DAILY", label: "Daily" },
+  { value: "WEEKLY", label: "Weekly" },
+  { value: "MONTHLY", label: "Monthly" },
 ];
 
+const repeatIntervalUnits: Record<RecurrenceFrequency, string> = {
+  DAILY: "day(s)",
+  WEEKLY: "week(s)",
+  MONTHLY: "month(s)",
+};
+
 const weekDays = [
   { value: 1, label: "Mon" },
   { value: 2, label: "Tue" },
@@ -126,8 +179,15 @@ export function ShiftDialog({
   departments,
   positions,
   organizationId,
+  currentUserId,
   isAdmin,
   schedulingPreferences,
+  openShiftSettings = defaultOpenShiftSettings,
+  defaultUserId,
+  unavailability = [],
+  validationRules = defaultShiftValidationRules,
+  weekStartsOn = 0,
+  timeFormat = "12h",
 }: ShiftDialogProps) {
   const router = useRouter();
   const supabase = createClient();
@@ -148,18 +208,28 @@ export function ShiftDialog({
 
   const [loading, setLoading] = useState(false);
   const [deleting, setDeleting] = useState(false);
-  const [showPublishDialog, setShowPublishDialog] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
-  const [seriesShiftCount, setSeriesShiftCount] = useState(0);
-  const [deleteSeriesCount, setDeleteSeriesCount] = useState(0);
+  // Whether the "this / following / all shifts" choice is for saving or deleting
+  const [scopeAction, setScopeAction] = useState<"edit" | "delete" | null>(null);
+  const [scope, setScope] = useState<SeriesScope>("this");
 
   // Position assignment dialog state
   const [showAssignPositionDialog, setShowAssignPositionDialog] = useState(false);
   const [pendingPositionId, setPendingPositionId] = useState<string | null>(null);
   const [assigningPosition, setAssigningPosition] = useState(false);
 
+  // Validation results waiting for confirmation
+  const [validation, setValidation] = useState<{
+    result: ShiftValidationResult;
+    shifts: ValidationShift[];
+  } | null>(null);
+
   const isEditing = !!shift;
-  const isPartOfSeries = shift?.repeat_parent_id !== null && shift?.repeat_parent_id !== undefined;
+  const wasOpenAndPublished = !!shift && !shift.user_id && !!shift.is_published;
+
+  // The series the shift belongs to, loaded when the dialog opens
+  const [series, setSeries] = useState<{ count: number; recurrence: ShiftRecurrence | null } | null>(null);
+  const isPartOfSeries = !!series && series.count > 1;
 
   // Form state
   const [formData, setFormData] = useState({
@@ -206,7 +276,12 @@ export function ShiftDialog({
 
   // Handle position selection with assignment check
   const handlePositionChange = (positionId: string) => {
-    if (positionId && formData.userId && !userHasPosition(formData.userId, positionId)) {
+    if (
+      positionId &&
+      formData.userId &&
+      formData.userId !== OPEN_SHIFT_LANE_ID &&
+      !userHasPosition(formData.userId, positionId)
+    ) {
       // User doesn't have this position - show confirmation dialog
       setPendingPositionId(positionId);
       setShowAssignPositionDialog(true);
@@ -261,23 +336,48 @@ export function ShiftDialog({
   };
 
   // Repeat state
-  const [repeatType, setRepeatType] = useState("none");
+  const [repeatFrequency, setRepeatFrequency] = useState<"none" | RecurrenceFrequency>("none");
+  const [repeatInterval, setRepeatInterval] = useState(1);
   const [selectedDays, setSelectedDays] = useState<number[]>([]);
+  const [monthlyMode, setMonthlyMode] = useState<"day" | "weekday" | "last_weekday">("day");
+  const [repeatEnds, setRepeatEnds] = useState<"until" | "count">("until");
   const [repeatEndDate, setRepeatEndDate] = useState("");
+  const [repeatCount, setRepeatCount] = useState(10);
+  // Set once the repeat rule of an existing series is changed in the form
+  const [ruleChanged, setRuleChanged] = useState(false);
+
+  // Fill the repeat fields from a stored rule
+  const applyRule = (rule: RecurrenceRule) => {
+    setRepeatFrequency(rule.freq);
+    setRepeatInterval(rule.interval);
+    setSelectedDays(rule.freq === "WEEKLY" ? (rule.byDay || []).map((d) => d.day) : []);
+    const nth = rule.freq === "MONTHLY" ? rule.byDay?.[0]?.nth : undefined;
+    setMonthlyMode(nth === -1 ? "last_weekday" : nth ? "weekday" : "day");
+    setRepeatEnds(rule.count ? "count" : "until");
+    setRepeatEndDate(rule.until || "");
+    setRepeatCount(rule.count || 10);
+  };
 
   // Initialize form when dialog opens
   useEffect(() => {
     if (open) {
       // Reset repeat state
-      setRepeatType("none");
+      setRepeatFrequency("none");
+      setRepeatInterval(1);
       setSelectedDays([]);
+      setMonthlyMode("day");
+      setRepeatEnds("until");
       setRepeatEndDate("");
+      setRepeatCount(10);
+      setRuleChanged(false);
+      setSeries(null);
+      setScope("this");
 
       if (shift) {
         const startDate = parseISO(shift.start_time);
         const endDate = parseISO(shift.end_time);
         setFormData({
-          userId: shift.user_id,
+          userId: shift.user_id || OPEN_SHIFT_LANE_ID,
           date: format(startDate, "yyyy-MM-dd"),
           startTime: format(startDate, "HH:mm"),
           endTime: format(endDate, "HH:mm"),
@@ -292,14 +392,14 @@ export function ShiftDialog({
         // Apply template values
         const date = selectedDate || new Date();
         setFormData({
-          userId: "",
+          userId: defaultUserId || "",
           date: format(date, "yyyy-MM-dd"),
           startTime: template.start_time,
           endTime: template.end_time,
           breakMinutes: template.break_minutes || 0,
-          locationId: locations[0]?.id || "",
+          locationId: template.location_id || locations[0]?.id || "",
           departmentId: "",
-          positionId: "",
+          positionId: template.position_id || "",
           notes: "",
           isPublished: false,
         });
@@ -310,7 +410,7 @@ export function ShiftDialog({
         const defaultStartTime = "09:00";
         const defaultEndTime = calculateEndTime(defaultStartTime, schedPrefs.defaultShiftDuration);
         setFormData({
-          userId: "",
+          userId: defaultUserId || "",
           date: format(date, "yyyy-MM-dd"),
           startTime: defaultStartTime,
           endTime: defaultEndTime,
@@ -325,143 +425,109 @@ export function ShiftDialog({
         setRepeatEndDate(format(addWeeks(date, 4), "yyyy-MM-dd"));
       }
     }
-  }, [open, shift, selectedDate, template, locations, schedPrefs.defaultShiftDuration, schedPrefs.breakDuration]);
+  }, [open, shift, selectedDate, template, defaultUserId, locations, schedPrefs.defaultShiftDuration, schedPrefs.breakDuration]);
+
+  // Load the series an existing shift belongs to and its repeat rule
+  useEffect(() => {
+    if (!open || !shift) return;
+    const seriesId = getSeriesId(shift);
+
+    const loadSeries = async () => {
+      const [{ count }, { data: first }] = await Promise.all([
+        supabase
+          .from("shifts")
+          .select("*", { count: "exact", head: true })
+          .or(`repeat_parent_id.eq.${seriesId},id.eq.${seriesId}`),
+        supabase.from("shifts").select("repeat_rule").eq("id", seriesId).maybeSingle(),
+      ]);
+
+      const recurrence = resolveShiftRecurrence(first?.repeat_rule);
+      setSeries({ count: count || 0, recurrence });
+      if (recurrence && (count || 0) > 1) {
+        applyRule(toUntilRule(recurrence));
+      }
+    };
+    loadSeries();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, shift]);
 
-  // Auto-select the current day when repeat type changes to non-none
+  // Auto-select the current day when switching to a weekly repeat
   useEffect(() => {
-    if (repeatType !== "none" && formData.date && selectedDays.length === 0) {
+    if (repeatFrequency === "WEEKLY" && formData.date && selectedDays.length === 0) {
       const date = parseISO(formData.date);
       setSelectedDays([date.getDay()]);
     }
-  }, [repeatType, formData.date, selectedDays.length]);
+  }, [repeatFrequency, formData.date, selectedDays.length]);
+
+  // Wrap a repeat field setter so edits to an existing series are noticed
+  const changeRule = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setRuleChanged(true);
+  };
 
   const toggleDay = (day: number) => {
     setSelectedDays((prev) =>
       prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day]
     );
+    setRuleChanged(true);
   };
 
-  const getRepeatWeeks = (type: string): number => {
-    if (type === "this_week") return 0;
-    if (type === "every_week") return 1;
-    const match = type.match(/every_(\d+)_weeks/);
-    return match ? parseInt(match[1]) : 0;
-  };
-
-  const generateRepeatDates = (): Date[] => {
-    if (!formData.date) return [];
-
-    const dates: Date[] = [];
-    const baseDate = startOfDay(parseISO(formData.date));
-
-    if (repeatType === "none") {
-      return [baseDate];
-    }
-
-    // Get the days to repeat on (use baseDate's day if none selected)
-    const daysToRepeat = selectedDays.length > 0 ? selectedDays : [baseDate.getDay()];
-
-    if (repeatType === "this_week") {
-      // Get all selected days in the same week as the base date
-      daysToRepeat.forEach((day) => {
-        const diff = day - baseDate.getDay();
-        const targetDate = addDays(baseDate, diff);
-        // Include if same day or after baseDate (within the same week)
-        if (isSameDay(targetDate, baseDate) || isAfter(targetDate, baseDate)) {
-          dates.push(targetDate);
-        }
-      });
-      // Sort dates chronologically
-      dates.sort((a, b) => a.getTime() - b.getTime());
-      return dates.length > 0 ? dates : [baseDate];
+  // Which occurrence of its weekday the shift date is in its month
+  const baseDate = formData.date ? parseISO(formData.date) : null;
+  const weekdayOfMonth = baseDate ? Math.ceil(baseDate.getDate() / 7) : 1;
+  const isLastWeekdayOfMonth = !!baseDate && addDays(baseDate, 7).getMonth() !== baseDate.getMonth();
+
+  // The repeat rule described by the form
+  const buildRule = (): RecurrenceRule | null => {
+    if (repeatFrequency === "none" || !baseDate) return null;
+
+    const rule: RecurrenceRule = { freq: repeatFrequency, interval: Math.max(1, repeatInterval || 1) };
+    if (repeatFrequency === "WEEKLY") {
+      rule.byDay = (selectedDays.length > 0 ? selectedDays : [baseDate.getDay()]).map((day) => ({ day }));
+    } else if (repeatFrequency === "MONTHLY") {
+      if (monthlyMode === "day") {
+        rule.byMonthDay = [baseDate.getDate()];
+      } else {
+        rule.byDay = [
+          { day: baseDate.getDay(), nth: monthlyMode === "last_weekday" ? -1 : weekdayOfMonth },
+        ];
+      }
     }
 
-    // For "every X weeks" patterns
-    const intervalWeeks = getRepeatWeeks(repeatType);
-    if (!repeatEndDate) return [baseDate];
-
-    const endDate = startOfDay(parseISO(repeatEndDate));
-
-    // Calculate the start of the week containing baseDate (Sunday = 0)
-    const baseDayOfWeek = baseDate.getDay();
-
-    // Generate dates for each week in the interval
-    let weekOffset = 0;
-    const maxIterations = 100; // Safety limit to prevent infinite loops
-    let iterations = 0;
-
-    while (iterations < maxIterations) {
-      const weekStartDate = addWeeks(baseDate, weekOffset);
-
-      // Check if we've passed the end date
-      if (isAfter(weekStartDate, endDate)) break;
-
-      // For each selected day, calculate the date in this week
-      daysToRepeat.forEach((targetDay) => {
-        // Calculate difference from baseDate's day of week
-        const diff = targetDay - baseDayOfWeek;
-        const targetDate = addDays(weekStartDate, diff);
-
-        // Include only if within range [baseDate, endDate]
-        const isInRange =
-          (isSameDay(targetDate, baseDate) || isAfter(targetDate, baseDate)) &&
-          (isSameDay(targetDate, endDate) || isBefore(targetDate, endDate));
-
-        if (isInRange) {
-          // Check for duplicates
-          const isDuplicate = dates.some(d => isSameDay(d, targetDate));
-          if (!isDuplicate) {
-            dates.push(targetDate);
-          }
-        }
-      });
-
-      weekOffset += intervalWeeks;
-      iterations++;
+    if (repeatEnds === "count") {
+      rule.count = Math.min(Math.max(1, repeatCount || 1), MAX_RECURRENCE_OCCURRENCES);
+    } else if (repeatEndDate) {
+      rule.until = repeatEndDate;
+    } else {
+      return null;
     }
-
-    // Sort dates chronologically
-    dates.sort((a, b) => a.getTime() - b.getTime());
-
-    return dates.length > 0 ? dates : [baseDate];
-  };
-
-  // Calculate preview count
-  const previewDates = repeatType !== "none" ? generateRepeatDates() : [];
-
-  // Get the repeat group ID (either the shift's own repeat_parent_id or its own id if it's the parent)
-  const getRepeatGroupId = () => {
-    if (!shift) return null;
-    return shift.repeat_parent_id || shift.id;
+    return rule;
   };
 
-  // Check if publish dialog should be shown
-  const checkShowPublishDialog = async () => {
-    if (!shift) return false;
-
-    // Only show dialog if:
-    // 1. We're editing an existing shift
-    // 2. The shift is part of a series (has repeat_parent_id) OR is a parent (other shifts have this as repeat_parent_id)
-    // 3. Publish is being turned ON (was false, now true)
-    const wasPublished = shift.is_published || false;
-    const willBePublished = formData.isPublished;
-
-    if (!willBePublished || wasPublished) return false;
-
-    const repeatGroupId = getRepeatGroupId();
-    if (!repeatGroupId) return false;
+  const repeatRule = buildRule();
+  // Repeat fields are shown when creating, or when editing a series that has a rule
+  const canEditRule = !isEditing || (isPartOfSeries && !!series?.recurrence);
 
-    // Count unpublished shifts in the same series
-    const { count, error } = await supabase
-      .from("shifts")
-      .select("*", { count: "exact", head: true })
-      .or(`repeat_parent_id.eq.${repeatGroupId},id.eq.${repeatGroupId}`)
-      .eq("is_published", false);
+  // Dates of the shifts to be created
+  const previewDates = repeatRule && formData.date ? expandRecurrence(repeatRule, formData.date) : [];
 
-    if (error || !count || count <= 1) return false;
+  // The shifts this form would write, for validation
+  const buildValidationShifts = (): ValidationShift[] => {
+    const [startHour, startMinute] = formData.startTime.split(":").map(Number);
+    const [endHour, endMinute] = formData.endTime.split(":").map(Number);
+    const dates = (!isEditing && previewDates.length > 0 ? previewDates : [formData.date]).map((date) =>
+      parseISO(date)
+    );
 
-    setSeriesShiftCount(count);
-    return true;
+    return dates.map((date, index) => ({
+      key: shift ? shift.id : `new-${index}`,
+      id: shift?.id,
+      user_id: formData.userId === OPEN_SHIFT_LANE_ID ? null : formData.userId,
+      start_time: setMinutes(setHours(date, startHour), startMinute).toISOString(),
+      end_time: setMinutes(setHours(date, endHour), endMinute).toISOString(),
+      break_minutes: formData.breakMinutes,
+      position_id: formData.positionId || null,
+    }));
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -472,163 +538,190 @@ export function ShiftDialog({
       return;
     }
 
-    // Check if we need to show publish dialog
-    if (isEditing && shift) {
-      const shouldShowDialog = await checkShowPublishDialog();
-      if (shouldShowDialog) {
-        setShowPublishDialog(true);
+    const candidates = buildValidationShifts();
+    setLoading(true);
+    try {
+      const result = await checkShifts(supabase, organizationId, candidates, validationRules, {
+        weekStartsOn,
+      });
+      if (hasValidationIssues(result)) {
+        setValidation({ result, shifts: candidates });
         return;
       }
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to validate shift");
+      return;
+    } finally {
+      setLoading(false);
     }
 
-    await executeSubmit("single");
+    await continueSubmit();
   };
 
-  const executeSubmit = async (publishMode: "single" | "series") => {
+  const continueSubmit = async () => {
+    // Ask which shifts in the series the changes apply to
+    if (isEditing && isPartOfSeries) {
+      setScope(ruleChanged ? "following" : "this");
+      setScopeAction("edit");
+      return;
+    }
+
+    await executeSubmit();
+  };
+
+  // Let employees who can work an open shift know it was posted
+  const notifyOpenShiftPosted = async (shiftId: string, startTime: string) => {
+    if (!openShiftSettings.enabled || !openShiftSettings.notifyEligibleEmployees) return;
+
+    const eligible = getEligibleMembers(
+      { position_id: formData.positionId || null, location_id: formData.locationId || null },
+      teamMembers
+    );
+    await Promise.all(
+      eligible.map((member) =>
+        createOpenShiftNotification(supabase, {
+          userId: member.id,
+          organizationId,
+          type: "open_shift_posted",
+          shiftId,
+          shiftDate: startTime,
+        })
+      )
+    );
+  };
+
+  const executeSubmit = async (seriesScope?: SeriesScope) => {
     setLoading(true);
 
     try {
       const [startHour, startMinute] = formData.startTime.split(":").map(Number);
       const [endHour, endMinute] = formData.endTime.split(":").map(Number);
+      const isOpenShift = formData.userId === OPEN_SHIFT_LANE_ID;
+      const assigneeId = isOpenShift ? null : formData.userId;
+
+      const fields: ShiftSeriesFields = {
+        organization_id: organizationId,
+        user_id: assigneeId,
+        break_minutes: formData.breakMinutes,
+        location_id: formData.locationId || null,
+        department_id: formData.departmentId || null,
+        position_id: formData.positionId || null,
+        notes: formData.notes || null,
+        color: positionColor,
+        is_published: formData.isPublished,
+        status: formData.isPublished ? "published" : "draft",
+        published_at: formData.isPublished ? new Date().toISOString() : null,
+      };
+      const baseDate = parseISO(formData.date);
+      const startDateTime = setMinutes(setHours(baseDate, startHour), startMinute);
+      const endDateTime = setMinutes(setHours(baseDate, endHour), endMinute);
+
+      if (!isEditing && template) {
+        // Keep a version of the affected weeks to roll back to
+        await snapshotSchedule(
+          supabase,
+          organizationId,
+          buildValidationShifts().map((candidate) => ({
+            start_time: candidate.start_time,
+            location_id: fields.location_id ?? null,
+            department_id: fields.department_id ?? null,
+          })),
+          "apply_template",
+          currentUserId,
+          { weekStartsOn }
+        );
+      }
 
-      if (isEditing && shift) {
-        // Update existing shift
-        const baseDate = parseISO(formData.date);
-        const startDateTime = setMinutes(setHours(baseDate, startHour), startMinute);
-        const endDateTime = setMinutes(setHours(baseDate, endHour), endMinute);
+      if (isEditing && shift && seriesScope) {
+        // Update the chosen part of the series
+        const summary = await updateShiftSeries(
+          supabase,
+          shift,
+          { date: formData.date, startTime: formData.startTime, endTime: formData.endTime, fields },
+          seriesScope,
+          ruleChanged ? repeatRule : null,
+          { weekStartsOn }
+        );
+
+        if (isOpenShift && formData.isPublished && !wasOpenAndPublished) {
+          await notifyOpenShiftPosted(shift.id, startDateTime.toISOString());
+        }
 
+        const changed = summary.updated + summary.created;
+        toast.success(
+          changed > 1 ? `${changed} shifts updated successfully` : "Shift updated successfully"
+        );
+        if (summary.deleted > 0) {
+          toast.info(`${summary.deleted} shift${summary.deleted !== 1 ? "s" : ""} no longer in the series removed`);
+        }
+      } else if (isEditing && shift) {
+        // Update existing shift
         const shiftData = {
-          organization_id: organizationId,
-          user_id: formData.userId,
+          ...fields,
           start_time: startDateTime.toISOString(),
           end_time: endDateTime.toISOString(),
-          break_minutes: formData.breakMinutes,
-          location_id: formData.locationId || null,
-          department_id: formData.departmentId || null,
-          position_id: formData.positionId || null,
-          notes: formData.notes || null,
-          color: positionColor,
-          is_published: formData.isPublished,
-          status: formData.isPublished ? "published" : "draft",
-          published_at: formData.isPublished ? new Date().toISOString() : null,
         };
 
-        // Update single shift
-        const { error } = await supabase
+        const { data: updatedShift, error } = await supabase
           .from("shifts")
           .update(shiftData)
-          .eq("id", shift.id);
+          .eq("id", shift.id)
+          .select()
+          .single();
 
         if (error) throw error;
 
-        // If publishing entire series
-        if (publishMode === "series" && formData.isPublished) {
-          const repeatGroupId = getRepeatGroupId();
-          if (repeatGroupId) {
-            const { error: seriesError } = await supabase
-              .from("shifts")
-              .update({
-                is_published: true,
-                status: "published",
-                published_at: new Date().toISOString(),
-              })
-              .or(`repeat_parent_id.eq.${repeatGroupId},id.eq.${repeatGroupId}`)
-              .eq("is_published", false);
-
-            if (seriesError) throw seriesError;
-            toast.success(`${seriesShiftCount} shifts published successfully`);
-          }
-        } else {
-          toast.success("Shift updated successfully");
+        await notifyScheduleChanges(supabase, organizationId, [{ before: shift, after: updatedShift }], {
+          weekStartsOn,
+        });
+
+        if (isOpenShift && formData.isPublished && !wasOpenAndPublished) {
+          await notifyOpenShiftPosted(shift.id, shiftData.start_time);
+        }
+        toast.success("Shift updated successfully");
+      } else if (repeatRule) {
+        // Create new shift(s) from the repeat rule
+        if (previewDates.length === 0) {
+          toast.error("The repeat rule doesn't produce any shifts");
+          return;
+        }
+
+        const { first, count } = await createShiftSeries(
+          supabase,
+          { date: formData.date, startTime: formData.startTime, endTime: formData.endTime, fields },
+          repeatRule,
+          { weekStartsOn }
+        );
+
+        if (isOpenShift && formData.isPublished) {
+          await notifyOpenShiftPosted(first.id, first.start_time);
         }
+
+        toast.success(count > 1 ? `${count} shifts created successfully` : "Shift created successfully");
       } else {
-        // Create new shift(s) with repeat
-        const repeatDates = generateRepeatDates();
-
-        if (repeatDates.length > 1) {
-          // Create first shift to get its ID as repeat_parent_id
-          const firstDate = repeatDates[0];
-          const firstStartDateTime = setMinutes(setHours(firstDate, startHour), startMinute);
-          const firstEndDateTime = setMinutes(setHours(firstDate, endHour), endMinute);
-
-          const firstShiftData = {
-            organization_id: organizationId,
-            user_id: formData.userId,
-            start_time: firstStartDateTime.toISOString(),
-            end_time: firstEndDateTime.toISOString(),
-            break_minutes: formData.breakMinutes,
-            location_id: formData.locationId || null,
-            department_id: formData.departmentId || null,
-            position_id: formData.positionId || null,
-            notes: formData.notes || null,
-            color: positionColor,
-            is_published: formData.isPublished,
-            status: formData.isPublished ? "published" : "draft",
-            published_at: formData.isPublished ? new Date().toISOString() : null,
-            repeat_parent_id: null,
-          };
-
-          const { data: firstShift, error: firstError } = await supabase
-            .from("shifts")
-            .insert(firstShiftData)
-            .select("id")
-            .single();
-
-          if (firstError) throw firstError;
-
-          // Create remaining shifts with repeat_parent_id
-          const remainingShifts = repeatDates.slice(1).map((date) => {
-            const startDateTime = setMinutes(setHours(date, startHour), startMinute);
-            const endDateTime = setMinutes(setHours(date, endHour), endMinute);
-
-            return {
-              organization_id: organizationId,
-              user_id: formData.userId,
-              start_time: startDateTime.toISOString(),
-              end_time: endDateTime.toISOString(),
-              break_minutes: formData.breakMinutes,
-              location_id: formData.locationId || null,
-              department_id: formData.departmentId || null,
-              position_id: formData.positionId || null,
-              notes: formData.notes || null,
-              color: positionColor,
-              is_published: formData.isPublished,
-              status: formData.isPublished ? "published" : "draft",
-              published_at: formData.isPublished ? new Date().toISOString() : null,
-              repeat_parent_id: firstShift.id,
-            };
-          });
-
-          const { error: remainingError } = await supabase.from("shifts").insert(remainingShifts);
-          if (remainingError) throw remainingError;
-
-          toast.success(`${repeatDates.length} shifts created successfully`);
-        } else {
-          // Single shift creation
-          const singleDate = repeatDates[0];
-          const startDateTime = setMinutes(setHours(singleDate, startHour), startMinute);
-          const endDateTime = setMinutes(setHours(singleDate, endHour), endMinute);
-
-          const shiftData = {
-            organization_id: organizationId,
-            user_id: formData.userId,
-            start_time: startDateTime.toISOString(),
-            end_time: endDateTime.toISOString(),
-            break_minutes: formData.breakMinutes,
-            location_id: formData.locationId || null,
-            department_id: formData.departmentId || null,
-            position_id: formData.positionId || null,
-            notes: formData.notes || null,
-            color: positionColor,
-            is_published: formData.isPublished,
-            status: formData.isPublished ? "published" : "draft",
-            published_at: formData.isPublished ? new Date().toISOString() : null,
-          };
-
-          const { error } = await supabase.from("shifts").insert(shiftData);
-          if (error) throw error;
-          toast.success("Shift created successfully");
+        // Single shift creation
+        const shiftData = {
+          ...fields,
+          start_time: startDateTime.toISOString(),
+          end_time: endDateTime.toISOString(),
+        };
+
+        const { data: newShift, error } = await supabase
+          .from("shifts")
+          .insert(shiftData)
+          .select()
+          .single();
+        if (error) throw error;
+
+        await notifyScheduleChanges(supabase, organizationId, [{ before: null, after: newShift }], {
+          weekStartsOn,
+        });
+
+        if (isOpenShift && formData.isPublished) {
+          await notifyOpenShiftPosted(newShift.id, shiftData.start_time);
         }
+        toast.success("Shift created successfully");
       }
 
       onOpenChange(false);
@@ -641,56 +734,43 @@ export function ShiftDialog({
     }
   };
 
-  const handlePublishDialogChoice = (choice: "single" | "series" | "cancel") => {
-    setShowPublishDialog(false);
-    if (choice === "cancel") return;
-    executeSubmit(choice);
-  };
-
   const handleDelete = async () => {
     if (!shift) return;
 
-    // Check if shift is part of a series and count shifts
-    const repeatGroupId = getRepeatGroupId();
-    if (repeatGroupId) {
-      const { count, error } = await supabase
-        .from("shifts")
-        .select("*", { count: "exact", head: true })
-        .or(`repeat_parent_id.eq.${repeatGroupId},id.eq.${repeatGroupId}`);
-
-      if (!error && count && count > 1) {
-        setDeleteSeriesCount(count);
-      } else {
-        setDeleteSeriesCount(0);
-      }
+    if (isPartOfSeries) {
+      setScope("this");
+      setScopeAction("delete");
     } else {
-      setDeleteSeriesCount(0);
+      setShowDeleteDialog(true);
     }
-
-    setShowDeleteDialog(true);
   };
 
-  const executeDelete = async (mode: "single" | "series") => {
+  const executeDelete = async (seriesScope?: SeriesScope) => {
     if (!shift) return;
 
     setDeleting(true);
     setShowDeleteDialog(false);
 
     try {
-      if (mode === "series" && deleteSeriesCount > 1) {
-        const repeatGroupId = getRepeatGroupId();
-        if (repeatGroupId) {
-          const { error } = await supabase
-            .from("shifts")
-            .delete()
-            .or(`repeat_parent_id.eq.${repeatGroupId},id.eq.${repeatGroupId}`);
-
-          if (error) throw error;
-          toast.success(`${deleteSeriesCount} shifts deleted successfully`);
+      if (seriesScope) {
+        const summary = await deleteShiftSeries(supabase, shift, seriesScope, { weekStartsOn });
+        toast.success(
+          summary.deleted !== 1 ? `${summary.deleted} shifts deleted successfully` : "Shift deleted successfully"
+        );
+        if (summary.kept > 0) {
+          toast.info(`${summary.kept} shift${summary.kept !== 1 ? "s" : ""} already started and ${summary.kept !== 1 ? "were" : "was"} kept`);
         }
       } else {
-        const { error } = await supabase.from("shifts").delete().eq("id", shift.id);
+        const { data: deleted, error } = await supabase.from("shifts").delete().eq("id", shift.id).select("id");
         if (error) throw error;
+        // Shifts outside a manager's groups are silently skipped by RLS
+        if (!deleted || deleted.length === 0) {
+          throw new Error("You can only manage employees in your groups");
+        }
+
+        await notifyScheduleChanges(supabase, organizationId, [{ before: shift, after: null }], {
+          weekStartsOn,
+        });
         toast.success("Shift deleted successfully");
       }
 
@@ -704,11 +784,47 @@ export function ShiftDialog({
     }
   };
 
+  const handleScopeConfirm = () => {
+    const action = scopeAction;
+    setScopeAction(null);
+    if (action === "edit") {
+      executeSubmit(scope);
+    } else if (action === "delete") {
+      executeDelete(scope);
+    }
+  };
+
   const getEmployeeName = (member: TeamMember) => {
     if (member.display_name) return member.display_name;
     return `${member.first_name} ${member.last_name}`;
   };
 
+  // Availability of each employee for the date and times in the form
+  const memberAvailability = buildMemberAvailability(teamMembers);
+  const getMemberConflicts = (memberId: string): AvailabilityConflict[] => {
+    if (!formData.date || memberId === OPEN_SHIFT_LANE_ID) return [];
+    const [startHour, startMinute] = formData.startTime.split(":").map(Number);
+    const [endHour, endMinute] = formData.endTime.split(":").map(Number);
+    const date = parseISO(formData.date);
+
+    return getAvailabilityConflicts(
+      {
+        start_time: setMinutes(setHours(date, startHour), startMinute).toISOString(),
+        end_time: setMinutes(setHours(date, endHour), endMinute).toISOString(),
+      },
+      memberAvailability[memberId]?.weekly ?? null,
+      unavailability.filter((entry) => entry.user_id === memberId)
+    );
+  };
+
+  const conflictLabels: Record<AvailabilityConflict["type"], string> = {
+    outside_availability: "Outside availability",
+    unavailable: "Unavailable",
+    pending_unavailable: "Requested unavailable",
+  };
+
+  const selectedMemberConflicts = formData.userId ? getMemberConflicts(formData.userId) : [];
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-2xl">
@@ -754,14 +870,35 @@ export function ShiftDialog({
                 <SelectValue placeholder="Select employee" />
               </SelectTrigger>
               <SelectContent>
-                {teamMembers.map((member) => (
-                  <SelectItem key={member.id} value={member.id}>
-                    {getEmployeeName(member)}
-                  </SelectItem>
-                ))}
+                {openShiftSettings.enabled && (
+                  <SelectItem value={OPEN_SHIFT_LANE_ID}>Open shift (anyone eligible can claim)</SelectItem>
+                )}
+                {teamMembers.map((member) => {
+                  const conflicts = getMemberConflicts(member.id);
+                  return (
+                    <SelectItem key={member.id} value={member.id}>
+                      {getEmployeeName(member)}
+                      {conflicts.length > 0 && (
+                        <span className="ml-2 text-xs text-amber-600">
+                          {conflictLabels[conflicts[0].type]}
+                        </span>
+                      )}
+                    </SelectItem>
+                  );
+                })}
               </SelectContent>
             </Select>
           </div>
+          {selectedMemberConflicts.length > 0 && (
+            <div className="ml-28 space-y-1">
+              {selectedMemberConflicts.map((conflict, index) => (
+                <div key={index} className="flex items-center gap-2 text-xs text-amber-600">
+                  <AlertTriangle className="h-3 w-3 shrink-0" />
+                  {conflict.message}
+                </div>
+              ))}
+            </div>
+          )}
 
           {/* Date */}
           <div className="flex items-center gap-4">
@@ -847,32 +984,67 @@ export function ShiftDialog({
             </div>
           </div>
 
-          {/* Repeat - Only show for new shifts */}
-          {!isEditing && (
+          {/* Repeat - for new shifts and series with a stored rule */}
+          {isEditing && isPartOfSeries && !series?.recurrence && (
+            <div className="flex items-center gap-4">
+              <Label className="w-24 text-right shrink-0">Repeat</Label>
+              <p className="flex-1 text-sm text-muted-foreground">
+                Part of a repeating series of {series?.count} shifts
+              </p>
+            </div>
+          )}
+          {canEditRule && (
             <>
               <div className="flex items-center gap-4">
                 <Label htmlFor="repeat" className="w-24 text-right shrink-0">
                   Repeat
                 </Label>
                 <Select
-                  value={repeatType}
-                  onValueChange={setRepeatType}
+                  value={repeatFrequency}
+                  onValueChange={changeRule((value: string) =>
+                    setRepeatFrequency(value as "none" | RecurrenceFrequency)
+                  )}
                 >
                   <SelectTrigger className="flex-1">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {repeatOptions.map((option) => (
-                      <SelectItem key={option.value} value={option.value}>
-                        {option.label}
-                      </SelectItem>
-                    ))}
+                    {/* An existing series can't be turned back into a single shift */}
+                    {repeatFrequencyOptions
+                      .filter((option) => !isEditing || option.value !== "none")
+                      .map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
                   </SelectContent>
                 </Select>
               </div>
 
-              {/* Day selector for "This week" and "Every X weeks" */}
-              {repeatType !== "none" && (
+              {repeatFrequency !== "none" && (
+                <div className="flex items-center gap-4">
+                  <Label htmlFor="repeatInterval" className="w-24 text-right shrink-0">
+                    Every
+                  </Label>
+                  <div className="flex-1 flex items-center gap-2">
+                    <Input
+                      id="repeatInterval"
+                      type="number"
+                      min={1}
+                      max={52}
+                      value={repeatInterval}
+                      onChange={(e) => changeRule(setRepeatInterval)(parseInt(e.target.value) || 1)}
+                      className="w-20"
+                    />
+                    <span className="text-sm text-muted-foreground">
+                      {repeatIntervalUnits[repeatFrequency]}
+                    </span>
+                  </div>
+                </div>
+              )}
+
+              {/* Day selector for weekly repeats */}
+              {repeatFrequency === "WEEKLY" && (
                 <div className="flex items-center gap-4">
                   <Label className="w-24 text-right shrink-0">Days</Label>
                   <div className="flex-1 grid grid-cols-7 gap-1">
@@ -895,46 +1067,94 @@ export function ShiftDialog({
                 </div>
               )}
 
-              {/* Starts and Ends for "Every X weeks" */}
-              {repeatType !== "none" && repeatType !== "this_week" && (
+              {/* Day of the month or nth weekday for monthly repeats */}
+              {repeatFrequency === "MONTHLY" && baseDate && (
                 <div className="flex items-center gap-4">
-                  <Label className="w-24 text-right shrink-0">Period</Label>
+                  <Label className="w-24 text-right shrink-0">On</Label>
+                  <Select
+                    value={monthlyMode}
+                    onValueChange={changeRule((value: string) =>
+                      setMonthlyMode(value as "day" | "weekday" | "last_weekday")
+                    )}
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="day">Day {baseDate.getDate()}</SelectItem>
+                      {weekdayOfMonth <= 4 && (
+                        <SelectItem value="weekday">
+                          The {["first", "second", "third", "fourth"][weekdayOfMonth - 1]}{" "}
+                          {format(baseDate, "EEEE")}
+                        </SelectItem>
+                      )}
+                      {isLastWeekdayOfMonth && (
+                        <SelectItem value="last_weekday">
+                          The last {format(baseDate, "EEEE")}
+                        </SelectItem>
+                      )}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {/* End date or number of shifts */}
+              {repeatFrequency !== "none" && (
+                <div className="flex items-center gap-4">
+                  <Label className="w-24 text-right shrink-0">Ends</Label>
                   <div className="flex-1 flex items-center gap-2">
-                    <div className="flex items-center gap-1">
-                      <span className="text-sm text-muted-foreground w-12">Starts</span>
-                      <Input
-                        type="date"
-                        value={formData.date}
-                        disabled
-                        className="w-36 bg-muted"
-                      />
-                    </div>
-                    <div className="flex items-center gap-1">
-                      <span className="text-sm text-muted-foreground w-10">Ends</span>
+                    <Select
+                      value={repeatEnds}
+                      onValueChange={changeRule((value: string) => setRepeatEnds(value as "until" | "count"))}
+                    >
+                      <SelectTrigger className="w-28">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="until">On date</SelectItem>
+                        <SelectItem value="count">After</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {repeatEnds === "until" ? (
                       <Input
                         type="date"
                         value={repeatEndDate}
-                        onChange={(e) => setRepeatEndDate(e.target.value)}
+                        onChange={(e) => changeRule(setRepeatEndDate)(e.target.value)}
                         min={formData.date}
-                        className="w-36"
+                        className="w-40"
                       />
-                    </div>
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="number"
+                          min={1}
+                          max={MAX_RECURRENCE_OCCURRENCES}
+                          value={repeatCount}
+                          onChange={(e) => changeRule(setRepeatCount)(parseInt(e.target.value) || 1)}
+                          className="w-20"
+                        />
+                        <span className="text-sm text-muted-foreground">shifts</span>
+                      </div>
+                    )}
                   </div>
                 </div>
               )}
 
               {/* Preview of shifts to be created */}
-              {repeatType !== "none" && previewDates.length > 0 && (
+              {repeatRule && previewDates.length > 0 && (!isEditing || ruleChanged) && (
                 <div className="flex items-start gap-4">
                   <Label className="w-24 text-right shrink-0 pt-2">Preview</Label>
                   <div className="flex-1">
                     <div className="text-sm text-muted-foreground mb-2">
-                      {previewDates.length} shift{previewDates.length !== 1 ? "s" : ""} will be created:
+                      {describeRecurrence(repeatRule)}.{" "}
+                      {isEditing
+                        ? `${previewDates.length} shift${previewDates.length !== 1 ? "s" : ""} from this date:`
+                        : `${previewDates.length} shift${previewDates.length !== 1 ? "s" : ""} will be created:`}
                     </div>
                     <div className="max-h-24 overflow-y-auto bg-muted/50 rounded-md p-2 text-xs space-y-1">
-                      {previewDates.slice(0, 10).map((date, index) => (
-                        <div key={index} className="text-muted-foreground">
-                          {format(date, "EEE, MMM d, yyyy")}
+                      {previewDates.slice(0, 10).map((date) => (
+                        <div key={date} className="text-muted-foreground">
+                          {format(parseISO(date), "EEE, MMM d, yyyy")}
                         </div>
                       ))}
                       {previewDates.length > 10 && (
@@ -1115,27 +1335,65 @@ export function ShiftDialog({
         </form>
       </DialogContent>
 
-      {/* Publish Series Confirmation Dialog */}
-      <AlertDialog open={showPublishDialog} onOpenChange={setShowPublishDialog}>
+      {/* Validation Confirmation Dialog */}
+      <ShiftValidationDialog
+        open={!!validation}
+        onOpenChange={(open) => !open && setValidation(null)}
+        title={isEditing ? "Save shift?" : "Create shift?"}
+        result={validation?.result || null}
+        shifts={validation?.shifts || []}
+        teamMembers={teamMembers}
+        timeFormat={timeFormat}
+        onConfirm={() => {
+          setValidation(null);
+          continueSubmit();
+        }}
+      />
+
+      {/* Series Scope Dialog */}
+      <AlertDialog open={!!scopeAction} onOpenChange={(open) => !open && setScopeAction(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Publish Shifts</AlertDialogTitle>
+            <AlertDialogTitle>
+              {scopeAction === "delete" ? "Delete Repeating Shift" : "Edit Repeating Shift"}
+            </AlertDialogTitle>
             <AlertDialogDescription>
-              This shift is part of a recurring series. Would you like to publish all {seriesShiftCount} unpublished shifts in this series, or just this one?
+              {scopeAction === "delete"
+                ? "This shift is part of a repeating series. Shifts that have already started are kept, and employees are notified about published shifts that are removed."
+                : "This shift is part of a repeating series. Which shifts should the changes apply to?"}
             </AlertDialogDescription>
           </AlertDialogHeader>
-          <AlertDialogFooter className="flex-col sm:flex-row gap-2">
-            <AlertDialogCancel onClick={() => handlePublishDialogChoice("cancel")}>
-              Cancel
-            </AlertDialogCancel>
-            <Button
-              variant="outline"
-              onClick={() => handlePublishDialogChoice("single")}
+          <RadioGroup
+            value={scope}
+            onValueChange={(value) => setScope(value as SeriesScope)}
+            className="space-y-2"
+          >
+            {(Object.keys(seriesScopeLabels) as SeriesScope[]).map((value) => {
+              // A changed repeat rule can't apply to a single shift
+              const disabled = value === "this" && scopeAction === "edit" && ruleChanged;
+              return (
+                <div key={value} className="flex items-center space-x-2">
+                  <RadioGroupItem value={value} id={`scope-${value}`} disabled={disabled} />
+                  <Label
+                    htmlFor={`scope-${value}`}
+                    className={cn("cursor-pointer", disabled && "text-muted-foreground")}
+                  >
+                    {seriesScopeLabels[value]}
+                  </Label>
+                </div>
+              );
+            })}
+          </RadioGroup>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleScopeConfirm}
+              className={cn(
+                scopeAction === "delete" &&
+                  "bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              )}
             >
-              This shift only
-            </Button>
-            <AlertDialogAction onClick={() => handlePublishDialogChoice("series")}>
-              Publish all ({seriesShiftCount})
+              {scopeAction === "delete" ? "Delete" : "Save"}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -1149,48 +1407,22 @@ export function ShiftDialog({
               <Trash2 className="h-7 w-7 text-destructive" />
             </div>
             <AlertDialogTitle className="text-center text-xl">
-              Delete Shift{deleteSeriesCount > 1 ? "s" : ""}
+              Delete Shift
             </AlertDialogTitle>
             <AlertDialogDescription className="text-center">
-              {deleteSeriesCount > 1 ? (
-                <>
-                  This shift is part of a recurring series ({deleteSeriesCount} shifts).
-                  <br />
-                  Would you like to delete all shifts in this series or just this one?
-                </>
-              ) : (
-                "Are you sure you want to delete this shift? This action cannot be undone."
-              )}
+              Are you sure you want to delete this shift? This action cannot be undone.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter className="flex-col-reverse sm:flex-row sm:justify-center gap-2 mt-4">
             <AlertDialogCancel>
               Cancel
             </AlertDialogCancel>
-            {deleteSeriesCount > 1 ? (
-              <>
-                <Button
-                  variant="outline"
-                  onClick={() => executeDelete("single")}
-                  className="border-destructive text-destructive hover:bg-destructive/10"
-                >
-                  This shift only
-                </Button>
-                <AlertDialogAction
-                  onClick={() => executeDelete("series")}
-                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                >
-                  Delete all ({deleteSeriesCount})
-                </AlertDialogAction>
-              </>
-            ) : (
-              <AlertDialogAction
-                onClick={() => executeDelete("single")}
-                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-              >
-                Delete
-              </AlertDialogAction>
-            )}
+            <AlertDialogAction
+              onClick={() => executeDelete()}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
@@ -0,0 +1,113 @@
+"use client";
+
+import { format, parseISO } from "date-fns";
+import type {
+  ShiftValidationIssue,
+  ShiftValidationResult,
+  ValidationShift,
+} from "@/lib/shift-validation";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { AlertTriangle, XCircle } from "lucide-react";
+
+type TeamMember = {
+  id: string;
+  first_name: string;
+  last_name: string;
+  display_name: string | null;
+};
+
+interface ShiftValidationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  result: ShiftValidationResult | null;
+  shifts: ValidationShift[];
+  teamMembers: TeamMember[];
+  timeFormat: "12h" | "24h";
+  onConfirm: () => void;
+}
+
+export function ShiftValidationDialog({
+  open,
+  onOpenChange,
+  title,
+  result,
+  shifts,
+  teamMembers,
+  timeFormat,
+  onConfirm,
+}: ShiftValidationDialogProps) {
+  if (!result) return null;
+
+  const hasErrors = result.errors.length > 0;
+  const issues = [...result.errors, ...result.warnings];
+  const formatTime = (date: Date) => format(date, timeFormat === "24h" ? "HH:mm" : "h:mm a");
+
+  // Group issues under the shift they belong to, keeping the order shifts were given in
+  const shiftKeys = Array.from(new Set(issues.map((issue) => issue.shiftKey)));
+  const getIssues = (shiftKey: string): ShiftValidationIssue[] =>
+    issues.filter((issue) => issue.shiftKey === shiftKey);
+
+  const getShiftLabel = (shiftKey: string) => {
+    const shift = shifts.find((s, index) => (s.key || s.id || `new-${index}`) === shiftKey);
+    if (!shift) return "Shift";
+    const member = teamMembers.find((m) => m.id === shift.user_id);
+    const name = member
+      ? member.display_name || `${member.first_name} ${member.last_name}`
+      : "Open Shift";
+    const start = parseISO(shift.start_time);
+    const end = parseISO(shift.end_time);
+    return `${name} · ${format(start, "EEE, MMM d")} ${formatTime(start)} - ${formatTime(end)}`;
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent className="max-w-lg">
+        <AlertDialogHeader>
+          <AlertDialogTitle>{title}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {hasErrors
+              ? "Fix the errors below before saving."
+              : "Review the warnings below before continuing."}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="max-h-80 overflow-y-auto space-y-3">
+          {shiftKeys.map((shiftKey) => (
+            <div key={shiftKey} className="rounded-md border p-3 space-y-2">
+              <div className="text-sm font-medium">{getShiftLabel(shiftKey)}</div>
+              <ul className="space-y-1">
+                {getIssues(shiftKey).map((issue, index) => (
+                  <li key={index} className="flex items-start gap-2 text-sm">
+                    {issue.severity === "error" ? (
+                      <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-red-600" />
+                    ) : (
+                      <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-amber-600" />
+                    )}
+                    <span>{issue.message}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>{hasErrors ? "Go Back" : "Cancel"}</AlertDialogCancel>
+          {!hasErrors && (
+            <AlertDialogAction onClick={onConfirm}>Continue Anyway</AlertDialogAction>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,380 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { createClient } from "@/lib/supabase/client";
+import type { Database } from "@/types/database.types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+type StaffingRequirement = Database["public"]["Tables"]["staffing_requirements"]["Row"];
+type Location = { id: string; name: string };
+type Position = { id: string; name: string };
+
+interface StaffingRequirementDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  requirement: StaffingRequirement | null;
+  organizationId: string;
+  locations: Location[];
+  positions: Position[];
+  onSaved?: () => void;
+}
+
+export const staffingWeekDays = [
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+  { value: 0, label: "Sun" },
+];
+
+export function StaffingRequirementDialog({
+  open,
+  onOpenChange,
+  requirement,
+  organizationId,
+  locations,
+  positions,
+  onSaved,
+}: StaffingRequirementDialogProps) {
+  const supabase = createClient();
+  const [loading, setLoading] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+
+  const isEditing = !!requirement;
+
+  const [formData, setFormData] = useState({
+    locationId: "",
+    positionId: "",
+    daysOfWeek: [1, 2, 3, 4, 5],
+    startTime: "09:00",
+    endTime: "17:00",
+    breakMinutes: 30,
+    headcount: 1,
+    notes: "",
+  });
+
+  useEffect(() => {
+    if (open) {
+      if (requirement) {
+        setFormData({
+          locationId: requirement.location_id,
+          positionId: requirement.position_id,
+          daysOfWeek: requirement.days_of_week,
+          startTime: requirement.start_time.slice(0, 5),
+          endTime: requirement.end_time.slice(0, 5),
+          breakMinutes: requirement.break_minutes,
+          headcount: requirement.headcount,
+          notes: requirement.notes || "",
+        });
+      } else {
+        setFormData({
+          locationId: locations[0]?.id || "",
+          positionId: "",
+          daysOfWeek: [1, 2, 3, 4, 5],
+          startTime: "09:00",
+          endTime: "17:00",
+          breakMinutes: 30,
+          headcount: 1,
+          notes: "",
+        });
+      }
+    }
+  }, [open, requirement, locations]);
+
+  const toggleDay = (day: number) => {
+    setFormData((prev) => ({
+      ...prev,
+      daysOfWeek: prev.daysOfWeek.includes(day)
+        ? prev.daysOfWeek.filter((d) => d !== day)
+        : [...prev.daysOfWeek, day].sort(),
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.locationId || !formData.positionId) {
+      toast.error("Please select a location and position");
+      return;
+    }
+
+    if (formData.daysOfWeek.length === 0) {
+      toast.error("Please select at least one day");
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const requirementData = {
+        organization_id: organizationId,
+        location_id: formData.locationId,
+        position_id: formData.positionId,
+        days_of_week: formData.daysOfWeek,
+        start_time: formData.startTime,
+        end_time: formData.endTime,
+        break_minutes: formData.breakMinutes,
+        headcount: Math.max(1, formData.headcount),
+        notes: formData.notes.trim() || null,
+        is_active: true,
+      };
+
+      if (isEditing && requirement) {
+        const { error } = await supabase
+          .from("staffing_requirements")
+          .update(requirementData)
+          .eq("id", requirement.id);
+
+        if (error) throw error;
+        toast.success("Requirement updated successfully");
+      } else {
+        const { error } = await supabase.from("staffing_requirements").insert(requirementData);
+
+        if (error) throw error;
+        toast.success("Requirement created successfully");
+      }
+
+      onOpenChange(false);
+      onSaved?.();
+    } catch (error) {
+      console.error(error);
+      toast.error(isEditing ? "Failed to update requirement" : "Failed to create requirement");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!requirement) return;
+
+    if (!confirm("Are you sure you want to delete this requirement?")) return;
+
+    setDeleting(true);
+
+    try {
+      const { error } = await supabase
+        .from("staffing_requirements")
+        .delete()
+        .eq("id", requirement.id);
+
+      if (error) throw error;
+
+      toast.success("Requirement deleted successfully");
+      onOpenChange(false);
+      onSaved?.();
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to delete requirement");
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            {isEditing ? "Edit Requirement" : "Add Staffing Requirement"}
+          </DialogTitle>
+          <DialogDescription>
+            How many people in a position a location needs during a time block.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Location</Label>
+              <Select
+                value={formData.locationId}
+                onValueChange={(value) =>
+                  setFormData((prev) => ({ ...prev, locationId: value }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {location.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Position</Label>
+              <Select
+                value={formData.positionId}
+                onValueChange={(value) =>
+                  setFormData((prev) => ({ ...prev, positionId: value }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select position" />
+                </SelectTrigger>
+                <SelectContent>
+                  {positions.map((position) => (
+                    <SelectItem key={position.id} value={position.id}>
+                      {position.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Days</Label>
+            <div className="grid grid-cols-7 gap-1">
+              {staffingWeekDays.map((day) => (
+                <Button
+                  key={day.value}
+                  type="button"
+                  variant={formData.daysOfWeek.includes(day.value) ? "default" : "outline"}
+                  size="sm"
+                  className={cn(
+                    "h-9 px-0",
+                    formData.daysOfWeek.includes(day.value) && "bg-primary text-primary-foreground"
+                  )}
+                  onClick={() => toggleDay(day.value)}
+                >
+                  {day.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="requirementStart">Start Time</Label>
+              <Input
+                id="requirementStart"
+                type="time"
+                value={formData.startTime}
+                onChange={(e) =>
+                  setFormData((prev) => ({ ...prev, startTime: e.target.value }))
+                }
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="requirementEnd">End Time</Label>
+              <Input
+                id="requirementEnd"
+                type="time"
+                value={formData.endTime}
+                onChange={(e) =>
+                  setFormData((prev) => ({ ...prev, endTime: e.target.value }))
+                }
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="requirementHeadcount">Employees Needed</Label>
+              <Input
+                id="requirementHeadcount"
+                type="number"
+                min="1"
+                value={formData.headcount}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    headcount: parseInt(e.target.value) || 1,
+                  }))
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="requirementBreak">Break (minutes)</Label>
+              <Input
+                id="requirementBreak"
+                type="number"
+                min="0"
+                value={formData.breakMinutes}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    breakMinutes: parseInt(e.target.value) || 0,
+                  }))
+                }
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="requirementNotes">Notes</Label>
+            <Textarea
+              id="requirementNotes"
+              placeholder="Optional notes..."
+              value={formData.notes}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, notes: e.target.value }))
+              }
+              rows={2}
+            />
+          </div>
+
+          <DialogFooter className="gap-2">
+            {isEditing && (
+              <Button
+                type="button"
+                variant="destructive"
+                onClick={handleDelete}
+                disabled={loading || deleting}
+              >
+                {deleting ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Trash2 className="h-4 w-4" />
+                )}
+              </Button>
+            )}
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={loading || deleting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || deleting}>
+              {loading ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : null}
+              {isEditing ? "Update" : "Create"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
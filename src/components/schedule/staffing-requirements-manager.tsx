@@ -0,0 +1,297 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { addDays, format, startOfWeek } from "date-fns";
+import { createClient } from "@/lib/supabase/client";
+import type { Database } from "@/types/database.types";
+import type { AutoScheduleSummary } from "@/lib/auto-scheduler";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { toast } from "sonner";
+import { Users, Plus, Clock, Loader2, Wand2 } from "lucide-react";
+import { StaffingRequirementDialog, staffingWeekDays } from "./staffing-requirement-dialog";
+
+type StaffingRequirement = Database["public"]["Tables"]["staffing_requirements"]["Row"];
+type Location = { id: string; name: string };
+type Position = { id: string; name: string; color: string };
+
+interface StaffingRequirementsManagerProps {
+  organizationId: string;
+  locations: Location[];
+  positions: Position[];
+  currentDate: Date;
+  weekStartsOn: 0 | 1 | 6;
+  openShiftsEnabled: boolean;
+  timeFormat: "12h" | "24h";
+}
+
+export function StaffingRequirementsManager({
+  organizationId,
+  locations,
+  positions,
+  currentDate,
+  weekStartsOn,
+  openShiftsEnabled,
+  timeFormat,
+}: StaffingRequirementsManagerProps) {
+  const router = useRouter();
+  const supabase = createClient();
+  const [requirements, setRequirements] = useState<StaffingRequirement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [sheetOpen, setSheetOpen] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [selectedRequirement, setSelectedRequirement] = useState<StaffingRequirement | null>(null);
+  const [createOpenShifts, setCreateOpenShifts] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [summary, setSummary] = useState<AutoScheduleSummary | null>(null);
+
+  const weekStart = startOfWeek(currentDate, { weekStartsOn });
+  const weekEnd = addDays(weekStart, 6);
+
+  const fetchRequirements = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("staffing_requirements")
+        .select("*")
+        .eq("organization_id", organizationId)
+        .eq("is_active", true)
+        .order("start_time");
+
+      if (error) throw error;
+      setRequirements(data || []);
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to load staffing requirements");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (sheetOpen) {
+      fetchRequirements();
+      setSummary(null);
+    }
+  }, [sheetOpen, organizationId]);
+
+  const handleCreate = () => {
+    setSelectedRequirement(null);
+    setDialogOpen(true);
+  };
+
+  const handleEdit = (requirement: StaffingRequirement) => {
+    setSelectedRequirement(requirement);
+    setDialogOpen(true);
+  };
+
+  const handleAutoSchedule = async () => {
+    setRunning(true);
+    try {
+      const response = await fetch("/api/shifts/auto-schedule", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          period_start: format(weekStart, "yyyy-MM-dd"),
+          period_end: format(weekEnd, "yyyy-MM-dd"),
+          create_open_shifts: openShiftsEnabled && createOpenShifts,
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to build schedule");
+      }
+
+      setSummary(result);
+      toast.success(
+        `Created ${result.assigned} draft shift${result.assigned === 1 ? "" : "s"}`
+      );
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Failed to build schedule");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const formatTime = (time: string) => {
+    const [hours, minutes] = time.split(":").map(Number);
+    const date = new Date(2000, 0, 1, hours, minutes);
+    return format(date, timeFormat === "24h" ? "HH:mm" : "h:mm a");
+  };
+
+  const formatDays = (days: number[]) =>
+    staffingWeekDays
+      .filter((day) => days.includes(day.value))
+      .map((day) => day.label)
+      .join(", ");
+
+  const getLocationName = (id: string) => locations.find((l) => l.id === id)?.name || "Unknown location";
+  const getPosition = (id: string) => positions.find((p) => p.id === id);
+
+  return (
+    <>
+      <Sheet open={sheetOpen} onOpenChange={setSheetOpen}>
+        <SheetTrigger asChild>
+          <Button variant="outline" size="sm">
+            <Users className="h-4 w-4 mr-2" />
+            Staffing
+          </Button>
+        </SheetTrigger>
+        <SheetContent className="w-[400px] sm:w-[540px] overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>Staffing Requirements</SheetTitle>
+            <SheetDescription>
+              Define how many people each location needs, then build a draft schedule
+              that fills them.
+            </SheetDescription>
+          </SheetHeader>
+
+          <div className="mt-6 space-y-4">
+            {/* Auto-schedule */}
+            <Card>
+              <CardContent className="p-4 space-y-3">
+                <div className="space-y-1">
+                  <div className="font-medium">Auto-Schedule</div>
+                  <p className="text-sm text-muted-foreground">
+                    Assign qualified employees to the requirements for{" "}
+                    {format(weekStart, "MMM d")} - {format(weekEnd, "MMM d, yyyy")}. Time off,
+                    availability, scheduling rules and hours balance are respected, and results
+                    are saved as unpublished drafts for review.
+                  </p>
+                </div>
+                {openShiftsEnabled && (
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="autoScheduleOpenShifts" className="text-sm font-normal">
+                      Post unfilled slots as open shifts
+                    </Label>
+                    <Switch
+                      id="autoScheduleOpenShifts"
+                      checked={createOpenShifts}
+                      onCheckedChange={setCreateOpenShifts}
+                    />
+                  </div>
+                )}
+                <Button
+                  className="w-full"
+                  onClick={handleAutoSchedule}
+                  disabled={running || requirements.length === 0}
+                >
+                  {running ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Wand2 className="h-4 w-4 mr-2" />
+                  )}
+                  Build Draft Schedule
+                </Button>
+
+                {summary && (
+                  <div className="text-sm text-muted-foreground space-y-1">
+                    <p>
+                      {summary.assigned} assigned, {summary.covered} already covered,{" "}
+                      {summary.unfilled} unfilled
+                      {summary.openShiftsCreated > 0 &&
+                        ` (${summary.openShiftsCreated} posted as open shifts)`}
+                    </p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Button onClick={handleCreate} className="w-full" variant="outline">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Requirement
+            </Button>
+
+            {loading ? (
+              <div className="space-y-3">
+                {[1, 2].map((i) => (
+                  <Card key={i}>
+                    <CardContent className="p-4">
+                      <div className="animate-pulse space-y-2">
+                        <div className="h-4 bg-muted rounded w-1/3" />
+                        <div className="h-3 bg-muted rounded w-2/3" />
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            ) : requirements.length > 0 ? (
+              <div className="space-y-3">
+                {requirements.map((requirement) => {
+                  const position = getPosition(requirement.position_id);
+                  return (
+                    <Card
+                      key={requirement.id}
+                      className="cursor-pointer hover:bg-accent/50 transition-colors"
+                      onClick={() => handleEdit(requirement)}
+                    >
+                      <CardContent className="p-4 space-y-1">
+                        <div className="flex items-center gap-2">
+                          <div
+                            className="w-3 h-3 rounded-full"
+                            style={{ backgroundColor: position?.color || "blue" }}
+                          />
+                          <span className="font-medium">
+                            {requirement.headcount} × {position?.name || "Unknown position"}
+                          </span>
+                          <Badge variant="secondary" className="text-xs">
+                            {getLocationName(requirement.location_id)}
+                          </Badge>
+                        </div>
+                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                          <Clock className="h-3 w-3" />
+                          {formatTime(requirement.start_time)} - {formatTime(requirement.end_time)}
+                          <span>· {formatDays(requirement.days_of_week)}</span>
+                        </div>
+                        {requirement.notes && (
+                          <div className="text-sm text-muted-foreground truncate max-w-[280px]">
+                            {requirement.notes}
+                          </div>
+                        )}
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            ) : (
+              <Card>
+                <CardContent className="flex flex-col items-center justify-center py-10">
+                  <Users className="h-12 w-12 text-muted-foreground mb-4" />
+                  <p className="text-muted-foreground">No staffing requirements yet</p>
+                  <p className="text-sm text-muted-foreground">
+                    e.g. 2 baristas, 7-11am, Mon-Fri
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </SheetContent>
+      </Sheet>
+
+      <StaffingRequirementDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        requirement={selectedRequirement}
+        organizationId={organizationId}
+        locations={locations}
+        positions={positions}
+        onSaved={fetchRequirements}
+      />
+    </>
+  );
+}
@@ -33,9 +33,14 @@ interface TemplateDialogProps {
   onOpenChange: (open: boolean) => void;
   template: ShiftTemplate | null;
   organizationId: string;
+  locations: { id: string; name: string }[];
+  positions: { id: string; name: string; color: string }[];
   onSaved?: () => void;
 }
 
+// Select value for a template without a location or position
+const NONE = "none";
+
 const colorOptions = [
   { value: "blue", label: "Blue" },
   { value: "green", label: "Green" },
@@ -51,6 +56,8 @@ export function TemplateDialog({
   onOpenChange,
   template,
   organizationId,
+  locations,
+  positions,
   onSaved,
 }: TemplateDialogProps) {
   const router = useRouter();
@@ -66,7 +73,8 @@ export function TemplateDialog({
     startTime: "09:00",
     endTime: "17:00",
     breakMinutes: 60,
-    position: "",
+    positionId: NONE,
+    locationId: NONE,
     color: "blue",
   });
 
@@ -79,7 +87,8 @@ export function TemplateDialog({
           startTime: template.start_time,
           endTime: template.end_time,
           breakMinutes: template.break_minutes || 0,
-          position: template.position || "",
+          positionId: template.position_id || NONE,
+          locationId: template.location_id || NONE,
           color: template.color || "blue",
         });
       } else {
@@ -89,7 +98,8 @@ export function TemplateDialog({
           startTime: "09:00",
           endTime: "17:00",
           breakMinutes: 60,
-          position: "",
+          positionId: NONE,
+          locationId: NONE,
           color: "blue",
         });
       }
@@ -114,7 +124,8 @@ export function TemplateDialog({
         start_time: formData.startTime,
         end_time: formData.endTime,
         break_minutes: formData.breakMinutes,
-        position: formData.position.trim() || null,
+        position_id: formData.positionId === NONE ? null : formData.positionId,
+        location_id: formData.locationId === NONE ? null : formData.locationId,
         color: formData.color,
         is_active: true,
       };
@@ -256,16 +267,49 @@ export function TemplateDialog({
             />
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="position">Position / Role</Label>
-            <Input
-              id="position"
-              placeholder="e.g., Cashier, Server"
-              value={formData.position}
-              onChange={(e) =>
-                setFormData((prev) => ({ ...prev, position: e.target.value }))
-              }
-            />
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="positionId">Position</Label>
+              <Select
+                value={formData.positionId}
+                onValueChange={(value) =>
+                  setFormData((prev) => ({ ...prev, positionId: value }))
+                }
+              >
+                <SelectTrigger id="positionId">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No position</SelectItem>
+                  {positions.map((position) => (
+                    <SelectItem key={position.id} value={position.id}>
+                      {position.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="locationId">Location</Label>
+              <Select
+                value={formData.locationId}
+                onValueChange={(value) =>
+                  setFormData((prev) => ({ ...prev, locationId: value }))
+                }
+              >
+                <SelectTrigger id="locationId">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No location</SelectItem>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {location.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
           <div className="space-y-2">
@@ -27,19 +27,52 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "sonner";
-import { Layers, Plus, Clock, MoreVertical, Edit, Trash2, Copy } from "lucide-react";
+import {
+  Layers,
+  Plus,
+  Clock,
+  MoreVertical,
+  Edit,
+  Trash2,
+  Copy,
+  MapPin,
+  Repeat,
+  CalendarRange,
+} from "lucide-react";
+import { getRotationTemplateIds, parseRotationPattern } from "@/lib/rotations";
 import { TemplateDialog } from "./template-dialog";
+import { RotationDialog } from "./rotation-dialog";
+import { ApplyRotationDialog } from "./apply-rotation-dialog";
 
 type ShiftTemplate = Database["public"]["Tables"]["shift_templates"]["Row"];
+type ShiftRotation = Database["public"]["Tables"]["shift_rotations"]["Row"];
+
+type TeamMember = {
+  id: string;
+  first_name: string;
+  last_name: string;
+  display_name: string | null;
+};
 
 interface TemplatesManagerProps {
   organizationId: string;
+  currentUserId: string;
+  locations: { id: string; name: string }[];
+  positions: { id: string; name: string; color: string }[];
+  teamMembers: TeamMember[];
+  timeFormat: "12h" | "24h";
   onApplyTemplate?: (template: ShiftTemplate) => void;
 }
 
 export function TemplatesManager({
   organizationId,
+  currentUserId,
+  locations,
+  positions,
+  teamMembers,
+  timeFormat,
   onApplyTemplate,
 }: TemplatesManagerProps) {
   const router = useRouter();
@@ -51,19 +84,37 @@ export function TemplatesManager({
   const [selectedTemplate, setSelectedTemplate] = useState<ShiftTemplate | null>(
     null
   );
+  const [rotations, setRotations] = useState<ShiftRotation[]>([]);
+  const [rotationDialogOpen, setRotationDialogOpen] = useState(false);
+  const [selectedRotation, setSelectedRotation] = useState<ShiftRotation | null>(null);
+  const [applyRotation, setApplyRotation] = useState<ShiftRotation | null>(null);
+
+  const positionNames = Object.fromEntries(positions.map((p) => [p.id, p.name]));
+  const locationNames = Object.fromEntries(locations.map((l) => [l.id, l.name]));
+  const templateNames = Object.fromEntries(templates.map((t) => [t.id, t.name]));
 
   const fetchTemplates = async () => {
     setLoading(true);
     try {
-      const { data, error } = await supabase
-        .from("shift_templates")
-        .select("*")
-        .eq("organization_id", organizationId)
-        .eq("is_active", true)
-        .order("name");
+      const [templatesResult, rotationsResult] = await Promise.all([
+        supabase
+          .from("shift_templates")
+          .select("*")
+          .eq("organization_id", organizationId)
+          .eq("is_active", true)
+          .order("name"),
+        supabase
+          .from("shift_rotations")
+          .select("*")
+          .eq("organization_id", organizationId)
+          .eq("is_active", true)
+          .order("name"),
+      ]);
 
-      if (error) throw error;
-      setTemplates(data || []);
+      if (templatesResult.error) throw templatesResult.error;
+      if (rotationsResult.error) throw rotationsResult.error;
+      setTemplates(templatesResult.data || []);
+      setRotations(rotationsResult.data || []);
     } catch (error) {
       console.error(error);
       toast.error("Failed to load templates");
@@ -89,6 +140,14 @@ export function TemplatesManager({
   };
 
   const handleDelete = async (templateId: string) => {
+    const usedBy = rotations.filter((rotation) =>
+      getRotationTemplateIds(parseRotationPattern(rotation.pattern)).includes(templateId)
+    );
+    if (usedBy.length > 0) {
+      toast.error(`This template is used by ${usedBy.map((r) => r.name).join(", ")}`);
+      return;
+    }
+
     if (!confirm("Are you sure you want to delete this template?")) return;
 
     try {
@@ -107,6 +166,43 @@ export function TemplatesManager({
     }
   };
 
+  const handleCreateRotation = () => {
+    setSelectedRotation(null);
+    setRotationDialogOpen(true);
+  };
+
+  const handleEditRotation = (rotation: ShiftRotation) => {
+    setSelectedRotation(rotation);
+    setRotationDialogOpen(true);
+  };
+
+  const handleDeleteRotation = async (rotationId: string) => {
+    if (!confirm("Are you sure you want to delete this rotation? Shifts it created are kept.")) return;
+
+    try {
+      const { error } = await supabase
+        .from("shift_rotations")
+        .delete()
+        .eq("id", rotationId);
+
+      if (error) throw error;
+
+      toast.success("Rotation deleted");
+      fetchTemplates();
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to delete rotation");
+    }
+  };
+
+  // e.g. "4 on / 4 off · Day Shift, Night Shift"
+  const describeRotation = (rotation: ShiftRotation) => {
+    const pattern = parseRotationPattern(rotation.pattern);
+    const working = pattern.filter(Boolean).length;
+    const names = getRotationTemplateIds(pattern).map((id) => templateNames[id] || "Deleted template");
+    return `${pattern.length}-day cycle, ${working} on / ${pattern.length - working} off · ${names.join(", ")}`;
+  };
+
   const handleApply = (template: ShiftTemplate) => {
     onApplyTemplate?.(template);
     setSheetOpen(false);
@@ -145,131 +241,225 @@ export function TemplatesManager({
             <SheetTitle>Shift Templates</SheetTitle>
             <SheetDescription>
               Create and manage reusable shift templates. Click on a template to
-              apply it when creating a new shift.
+              apply it when creating a new shift, or combine templates into a
+              rotation to schedule employees over several weeks.
             </SheetDescription>
           </SheetHeader>
 
-          <div className="mt-6 space-y-4">
-            <Button onClick={handleCreate} className="w-full">
-              <Plus className="h-4 w-4 mr-2" />
-              Create Template
-            </Button>
-
-            {loading ? (
-              <div className="space-y-3">
-                {[1, 2, 3].map((i) => (
-                  <Card key={i}>
-                    <CardContent className="p-4">
-                      <div className="animate-pulse space-y-2">
-                        <div className="h-4 bg-muted rounded w-1/3" />
-                        <div className="h-3 bg-muted rounded w-2/3" />
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))}
-              </div>
-            ) : templates.length > 0 ? (
-              <div className="space-y-3">
-                {templates.map((template) => (
-                  <Card
-                    key={template.id}
-                    className="cursor-pointer hover:bg-accent/50 transition-colors"
-                    onClick={() => onApplyTemplate && handleApply(template)}
-                  >
-                    <CardContent className="p-4">
-                      <div className="flex items-start justify-between">
-                        <div className="space-y-1">
-                          <div className="flex items-center gap-2">
-                            <div
-                              className="w-3 h-3 rounded-full"
-                              style={{
-                                backgroundColor: template.color || "blue",
-                              }}
-                            />
-                            <span className="font-medium">{template.name}</span>
-                          </div>
-                          <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                            <Clock className="h-3 w-3" />
-                            {formatTime(template.start_time)} -{" "}
-                            {formatTime(template.end_time)}
-                            <Badge variant="secondary" className="text-xs">
-                              {calculateDuration(
-                                template.start_time,
-                                template.end_time,
-                                template.break_minutes || 0
-                              )}
-                            </Badge>
-                          </div>
-                          {template.position && (
-                            <div className="text-sm text-muted-foreground">
-                              {template.position}
+          <Tabs defaultValue="templates" className="mt-6">
+            <TabsList className="w-full">
+              <TabsTrigger value="templates" className="flex-1">
+                Templates
+              </TabsTrigger>
+              <TabsTrigger value="rotations" className="flex-1">
+                Rotations
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="templates" className="space-y-4">
+              <Button onClick={handleCreate} className="w-full">
+                <Plus className="h-4 w-4 mr-2" />
+                Create Template
+              </Button>
+
+              {loading ? (
+                <div className="space-y-3">
+                  {[1, 2, 3].map((i) => (
+                    <Card key={i}>
+                      <CardContent className="p-4">
+                        <div className="animate-pulse space-y-2">
+                          <div className="h-4 bg-muted rounded w-1/3" />
+                          <div className="h-3 bg-muted rounded w-2/3" />
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              ) : templates.length > 0 ? (
+                <div className="space-y-3">
+                  {templates.map((template) => (
+                    <Card
+                      key={template.id}
+                      className="cursor-pointer hover:bg-accent/50 transition-colors"
+                      onClick={() => onApplyTemplate && handleApply(template)}
+                    >
+                      <CardContent className="p-4">
+                        <div className="flex items-start justify-between">
+                          <div className="space-y-1">
+                            <div className="flex items-center gap-2">
+                              <div
+                                className="w-3 h-3 rounded-full"
+                                style={{
+                                  backgroundColor: template.color || "blue",
+                                }}
+                              />
+                              <span className="font-medium">{template.name}</span>
                             </div>
-                          )}
-                          {template.description && (
-                            <div className="text-sm text-muted-foreground truncate max-w-[280px]">
-                              {template.description}
+                            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                              <Clock className="h-3 w-3" />
+                              {formatTime(template.start_time)} -{" "}
+                              {formatTime(template.end_time)}
+                              <Badge variant="secondary" className="text-xs">
+                                {calculateDuration(
+                                  template.start_time,
+                                  template.end_time,
+                                  template.break_minutes || 0
+                                )}
+                              </Badge>
                             </div>
-                          )}
-                        </div>
-                        <DropdownMenu>
-                          <DropdownMenuTrigger
-                            asChild
-                            onClick={(e) => e.stopPropagation()}
-                          >
-                            <Button variant="ghost" size="icon" className="h-8 w-8">
-                              <MoreVertical className="h-4 w-4" />
-                            </Button>
-                          </DropdownMenuTrigger>
-                          <DropdownMenuContent align="end">
-                            <DropdownMenuItem
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                handleEdit(template);
-                              }}
+                            {(template.position_id || template.location_id) && (
+                              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                                {template.position_id && (
+                                  <span>{positionNames[template.position_id] || "Unknown position"}</span>
+                                )}
+                                {template.location_id && (
+                                  <span className="flex items-center gap-1">
+                                    <MapPin className="h-3 w-3" />
+                                    {locationNames[template.location_id] || "Unknown location"}
+                                  </span>
+                                )}
+                              </div>
+                            )}
+                            {template.description && (
+                              <div className="text-sm text-muted-foreground truncate max-w-[280px]">
+                                {template.description}
+                              </div>
+                            )}
+                          </div>
+                          <DropdownMenu>
+                            <DropdownMenuTrigger
+                              asChild
+                              onClick={(e) => e.stopPropagation()}
                             >
-                              <Edit className="h-4 w-4 mr-2" />
-                              Edit
-                            </DropdownMenuItem>
-                            {onApplyTemplate && (
+                              <Button variant="ghost" size="icon" className="h-8 w-8">
+                                <MoreVertical className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
                               <DropdownMenuItem
                                 onClick={(e) => {
                                   e.stopPropagation();
-                                  handleApply(template);
+                                  handleEdit(template);
                                 }}
                               >
-                                <Copy className="h-4 w-4 mr-2" />
-                                Apply
+                                <Edit className="h-4 w-4 mr-2" />
+                                Edit
                               </DropdownMenuItem>
+                              {onApplyTemplate && (
+                                <DropdownMenuItem
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    handleApply(template);
+                                  }}
+                                >
+                                  <Copy className="h-4 w-4 mr-2" />
+                                  Apply
+                                </DropdownMenuItem>
+                              )}
+                              <DropdownMenuItem
+                                className="text-destructive"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleDelete(template.id);
+                                }}
+                              >
+                                <Trash2 className="h-4 w-4 mr-2" />
+                                Delete
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              ) : (
+                <Card>
+                  <CardContent className="flex flex-col items-center justify-center py-10">
+                    <Layers className="h-12 w-12 text-muted-foreground mb-4" />
+                    <p className="text-muted-foreground">No templates yet</p>
+                    <p className="text-sm text-muted-foreground">
+                      Create your first shift template
+                    </p>
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+
+            <TabsContent value="rotations" className="space-y-4">
+              <Button
+                onClick={handleCreateRotation}
+                className="w-full"
+                disabled={templates.length === 0}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Create Rotation
+              </Button>
+
+              {rotations.length > 0 ? (
+                <div className="space-y-3">
+                  {rotations.map((rotation) => (
+                    <Card key={rotation.id}>
+                      <CardContent className="p-4">
+                        <div className="flex items-start justify-between">
+                          <div className="space-y-1">
+                            <div className="flex items-center gap-2">
+                              <Repeat className="h-4 w-4 text-muted-foreground" />
+                              <span className="font-medium">{rotation.name}</span>
+                            </div>
+                            <div className="text-sm text-muted-foreground">
+                              {describeRotation(rotation)}
+                            </div>
+                            {rotation.description && (
+                              <div className="text-sm text-muted-foreground truncate max-w-[280px]">
+                                {rotation.description}
+                              </div>
                             )}
-                            <DropdownMenuItem
-                              className="text-destructive"
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                handleDelete(template.id);
-                              }}
-                            >
-                              <Trash2 className="h-4 w-4 mr-2" />
-                              Delete
-                            </DropdownMenuItem>
-                          </DropdownMenuContent>
-                        </DropdownMenu>
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))}
-              </div>
-            ) : (
-              <Card>
-                <CardContent className="flex flex-col items-center justify-center py-10">
-                  <Layers className="h-12 w-12 text-muted-foreground mb-4" />
-                  <p className="text-muted-foreground">No templates yet</p>
-                  <p className="text-sm text-muted-foreground">
-                    Create your first shift template
-                  </p>
-                </CardContent>
-              </Card>
-            )}
-          </div>
+                          </div>
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="icon" className="h-8 w-8">
+                                <MoreVertical className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuItem onClick={() => setApplyRotation(rotation)}>
+                                <CalendarRange className="h-4 w-4 mr-2" />
+                                Apply
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => handleEditRotation(rotation)}>
+                                <Edit className="h-4 w-4 mr-2" />
+                                Edit
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                className="text-destructive"
+                                onClick={() => handleDeleteRotation(rotation.id)}
+                              >
+                                <Trash2 className="h-4 w-4 mr-2" />
+                                Delete
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              ) : (
+                <Card>
+                  <CardContent className="flex flex-col items-center justify-center py-10">
+                    <Repeat className="h-12 w-12 text-muted-foreground mb-4" />
+                    <p className="text-muted-foreground">No rotations yet</p>
+                    <p className="text-sm text-muted-foreground">
+                      {templates.length === 0
+                        ? "Create a shift template first"
+                        : "Repeat templates in a pattern like 4 on / 4 off"}
+                    </p>
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+          </Tabs>
         </SheetContent>
       </Sheet>
 
@@ -278,8 +468,28 @@ export function TemplatesManager({
         onOpenChange={setDialogOpen}
         template={selectedTemplate}
         organizationId={organizationId}
+        locations={locations}
+        positions={positions}
+        onSaved={fetchTemplates}
+      />
+
+      <RotationDialog
+        open={rotationDialogOpen}
+        onOpenChange={setRotationDialogOpen}
+        rotation={selectedRotation}
+        organizationId={organizationId}
+        currentUserId={currentUserId}
+        templates={templates}
         onSaved={fetchTemplates}
       />
+
+      <ApplyRotationDialog
+        open={!!applyRotation}
+        onOpenChange={(open) => !open && setApplyRotation(null)}
+        rotation={applyRotation}
+        teamMembers={teamMembers}
+        timeFormat={timeFormat}
+      />
     </>
   );
 }
@@ -0,0 +1,173 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { createClient } from "@/lib/supabase/client";
+import type { Json } from "@/types/database.types";
+import {
+  MAX_CHAT_ATTACHMENT_MB,
+  chatAttachmentCategories,
+  resolveChatAttachmentSettings,
+  type ChatAttachmentCategory,
+  type ChatAttachmentSettings,
+} from "@/lib/chat-attachments";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { toast } from "sonner";
+import { Loader2, Paperclip } from "lucide-react";
+
+interface ChatAttachmentSettingsComponentProps {
+  organizationId: string;
+  initialSettings: any;
+}
+
+export function ChatAttachmentSettingsComponent({
+  organizationId,
+  initialSettings,
+}: ChatAttachmentSettingsComponentProps) {
+  const router = useRouter();
+  const supabase = createClient();
+  const [saving, setSaving] = useState(false);
+
+  const [settings, setSettings] = useState<ChatAttachmentSettings>(() =>
+    resolveChatAttachmentSettings(initialSettings)
+  );
+
+  const toggleCategory = (category: ChatAttachmentCategory, checked: boolean) => {
+    setSettings((prev) => ({
+      ...prev,
+      allowedCategories: checked
+        ? [...prev.allowedCategories, category]
+        : prev.allowedCategories.filter((c) => c !== category),
+    }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      // Merge with existing settings
+      const updatedSettings = {
+        ...initialSettings,
+        chatAttachments: settings,
+      };
+
+      const { error } = await supabase
+        .from("organizations")
+        .update({
+          settings: updatedSettings as unknown as Json,
+        })
+        .eq("id", organizationId);
+
+      if (error) throw error;
+
+      toast.success("Chat settings saved");
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to save chat settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Paperclip className="h-5 w-5" />
+            Chat Attachments
+          </CardTitle>
+          <CardDescription>
+            Files sent in chat can only be opened by members of the conversation.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label className="text-base">Allow Attachments</Label>
+              <p className="text-sm text-muted-foreground">
+                Let employees send photos and files in chat.
+              </p>
+            </div>
+            <Switch
+              checked={settings.enabled}
+              onCheckedChange={(checked) =>
+                setSettings((prev) => ({ ...prev, enabled: checked }))
+              }
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-0.5">
+              <Label htmlFor="maxFileSizeMb" className="text-base">
+                Maximum File Size
+              </Label>
+              <p className="text-sm text-muted-foreground">
+                Up to {MAX_CHAT_ATTACHMENT_MB} MB per file.
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Input
+                id="maxFileSizeMb"
+                type="number"
+                min={1}
+                max={MAX_CHAT_ATTACHMENT_MB}
+                className="w-20"
+                value={settings.maxFileSizeMb}
+                onChange={(e) =>
+                  setSettings((prev) => ({
+                    ...prev,
+                    maxFileSizeMb: Math.min(
+                      MAX_CHAT_ATTACHMENT_MB,
+                      Math.max(1, parseInt(e.target.value) || 1)
+                    ),
+                  }))
+                }
+                disabled={!settings.enabled}
+              />
+              <span className="text-sm text-muted-foreground">MB</span>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="space-y-0.5">
+              <Label className="text-base">Allowed File Types</Label>
+              <p className="text-sm text-muted-foreground">
+                Choose which kinds of files can be sent.
+              </p>
+            </div>
+            {(Object.keys(chatAttachmentCategories) as ChatAttachmentCategory[]).map((category) => (
+              <div key={category} className="flex items-center justify-between">
+                <Label htmlFor={`category-${category}`}>{chatAttachmentCategories[category].label}</Label>
+                <Switch
+                  id={`category-${category}`}
+                  checked={settings.allowedCategories.includes(category)}
+                  onCheckedChange={(checked) => toggleCategory(category, checked)}
+                  disabled={!settings.enabled}
+                />
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Save Button */}
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saving}>
+          {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Save Chat Settings
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { createClient } from "@/lib/supabase/client";
+import type { Json } from "@/types/database.types";
+import {
+  getNotificationChannels,
+  notificationEvents,
+  resolveNotificationPreferences,
+  type NotificationChannel,
+  type NotificationEventKey,
+  type NotificationPreferences,
+} from "@/lib/notification-preferences";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import { Loader2, BellRing, Moon } from "lucide-react";
+
+const channels: { key: NotificationChannel; label: string }[] = [
+  { key: "in_app", label: "In-app" },
+  { key: "push", label: "Push" },
+  { key: "email", label: "Email" },
+];
+
+interface NotificationPreferencesComponentProps {
+  userId: string;
+  organizationTimezone: string | null;
+  initialSettings: Json | null;
+}
+
+export function NotificationPreferencesComponent({
+  userId,
+  organizationTimezone,
+  initialSettings,
+}: NotificationPreferencesComponentProps) {
+  const router = useRouter();
+  const supabase = createClient();
+  const [saving, setSaving] = useState(false);
+
+  const [preferences, setPreferences] = useState<NotificationPreferences>(() =>
+    resolveNotificationPreferences(initialSettings)
+  );
+
+  const toggleChannel = (
+    eventKey: NotificationEventKey,
+    type: string,
+    channel: NotificationChannel,
+    checked: boolean
+  ) => {
+    setPreferences((prev) => ({
+      ...prev,
+      events: {
+        ...prev.events,
+        [eventKey]: { ...getNotificationChannels(prev, type), [channel]: checked },
+      },
+    }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from("profiles")
+        .update({
+          notification_settings: preferences as unknown as Json,
+        })
+        .eq("id", userId);
+
+      if (error) throw error;
+
+      toast.success("Notification preferences saved");
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to save notification preferences");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BellRing className="h-5 w-5" />
+            My Notifications
+          </CardTitle>
+          <CardDescription>
+            Choose how you hear about each kind of update. Push notifications also need to
+            be enabled on this device.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Notification</TableHead>
+                {channels.map((channel) => (
+                  <TableHead key={channel.key} className="w-20 text-center">
+                    {channel.label}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {notificationEvents.map((event) => {
+                const eventChannels = getNotificationChannels(preferences, event.types[0]);
+                return (
+                  <TableRow key={event.key}>
+                    <TableCell>
+                      <p className="font-medium">{event.label}</p>
+                      <p className="text-sm text-muted-foreground">{event.description}</p>
+                    </TableCell>
+                    {channels.map((channel) => (
+                      <TableCell key={channel.key} className="text-center">
+                        <Checkbox
+                          checked={eventChannels[channel.key]}
+                          onCheckedChange={(checked) =>
+                            toggleChannel(event.key, event.types[0], channel.key, checked === true)
+                          }
+                          aria-label={`${event.label}: ${channel.label}`}
+                        />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Moon className="h-5 w-5" />
+            Quiet Hours and Digest
+          </CardTitle>
+          <CardDescription>
+            Times are in your organization&apos;s time zone ({organizationTimezone || "UTC"}).
+            In-app notifications always arrive right away.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-0.5">
+              <Label className="text-base">Quiet Hours</Label>
+              <p className="text-sm text-muted-foreground">
+                Hold push notifications and emails until quiet hours end.
+              </p>
+            </div>
+            <Switch
+              checked={preferences.quietHours.enabled}
+              onCheckedChange={(checked) =>
+                setPreferences((prev) => ({
+                  ...prev,
+                  quietHours: { ...prev.quietHours, enabled: checked },
+                }))
+              }
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Input
+              type="time"
+              className="w-32"
+              value={preferences.quietHours.start}
+              onChange={(e) =>
+                setPreferences((prev) => ({
+                  ...prev,
+                  quietHours: { ...prev.quietHours, start: e.target.value },
+                }))
+              }
+              disabled={!preferences.quietHours.enabled}
+              aria-label="Quiet hours start"
+            />
+            <span className="text-sm text-muted-foreground">to</span>
+            <Input
+              type="time"
+              className="w-32"
+              value={preferences.quietHours.end}
+              onChange={(e) =>
+                setPreferences((prev) => ({
+                  ...prev,
+                  quietHours: { ...prev.quietHours, end: e.target.value },
+                }))
+              }
+              disabled={!preferences.quietHours.enabled}
+              aria-label="Quiet hours end"
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-0.5">
+              <Label className="text-base">Daily Email Digest</Label>
+              <p className="text-sm text-muted-foreground">
+                Get one email a day summarizing your notifications instead of an email for each.
+              </p>
+            </div>
+            <Switch
+              checked={preferences.digest.enabled}
+              onCheckedChange={(checked) =>
+                setPreferences((prev) => ({
+                  ...prev,
+                  digest: { ...prev.digest, enabled: checked },
+                }))
+              }
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Label htmlFor="digestTime" className="text-sm text-muted-foreground">
+              Send at
+            </Label>
+            <Input
+              id="digestTime"
+              type="time"
+              className="w-32"
+              value={preferences.digest.time}
+              onChange={(e) =>
+                setPreferences((prev) => ({
+                  ...prev,
+                  digest: { ...prev.digest, time: e.target.value },
+                }))
+              }
+              disabled={!preferences.digest.enabled}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Save Button */}
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saving}>
+          {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Save Notification Preferences
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { createClient } from "@/lib/supabase/client";
+import type { Json } from "@/types/database.types";
+import { resolveOpenShiftSettings, type OpenShiftSettings } from "@/lib/open-shifts";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { toast } from "sonner";
+import { Loader2, Hand } from "lucide-react";
+
+interface OpenShiftSettingsComponentProps {
+  organizationId: string;
+  initialSettings: any;
+}
+
+export function OpenShiftSettingsComponent({
+  organizationId,
+  initialSettings,
+}: OpenShiftSettingsComponentProps) {
+  const router = useRouter();
+  const supabase = createClient();
+  const [saving, setSaving] = useState(false);
+
+  const [settings, setSettings] = useState<OpenShiftSettings>(() =>
+    resolveOpenShiftSettings(initialSettings)
+  );
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      // Merge with existing settings
+      const updatedSettings = {
+        ...initialSettings,
+        openShiftSettings: settings,
+      };
+
+      const { error } = await supabase
+        .from("organizations")
+        .update({
+          settings: updatedSettings as unknown as Json,
+        })
+        .eq("id", organizationId);
+
+      if (error) throw error;
+
+      toast.success("Open shift settings saved");
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to save open shift settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Hand className="h-5 w-5" />
+            Open Shift Settings
+          </CardTitle>
+          <CardDescription>
+            Post unassigned shifts that eligible employees can claim. An employee is eligible when
+            they hold the shift&apos;s position and are assigned to its location.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label className="text-base">Enable Open Shifts</Label>
+              <p className="text-sm text-muted-foreground">
+                Allow shifts to be created without an employee and claimed from the schedule.
+              </p>
+            </div>
+            <Switch
+              checked={settings.enabled}
+              onCheckedChange={(checked) =>
+                setSettings((prev) => ({ ...prev, enabled: checked }))
+              }
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label className="text-base">Require Manager Approval</Label>
+              <p className="text-sm text-muted-foreground">
+                When enabled, claims wait for approval from Admin, Owner, or Manager. When disabled, the first eligible employee to claim gets the shift.
+              </p>
+            </div>
+            <Switch
+              checked={settings.requireApproval}
+              onCheckedChange={(checked) =>
+                setSettings((prev) => ({ ...prev, requireApproval: checked }))
+              }
+              disabled={!settings.enabled}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label className="text-base">Notify Eligible Employees</Label>
+              <p className="text-sm text-muted-foreground">
+                Send a notification to eligible employees when an open shift is published.
+              </p>
+            </div>
+            <Switch
+              checked={settings.notifyEligibleEmployees}
+              onCheckedChange={(checked) =>
+                setSettings((prev) => ({ ...prev, notifyEligibleEmployees: checked }))
+              }
+              disabled={!settings.enabled}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Save Button */}
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saving}>
+          {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Save Open Shift Settings
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,314 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { createClient } from "@/lib/supabase/client";
+import type { Json } from "@/types/database.types";
+import {
+  resolveOvertimeRules,
+  type OvertimeRules,
+  type OvertimeTier,
+} from "@/lib/overtime";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2, Timer, Plus, Trash2 } from "lucide-react";
+
+interface OvertimeSettingsComponentProps {
+  organizationId: string;
+  initialSettings: any;
+}
+
+// Tier list editor shared by daily and consecutive-day rules
+function TierEditor({
+  tiers,
+  onChange,
+  disabled,
+}: {
+  tiers: OvertimeTier[];
+  onChange: (tiers: OvertimeTier[]) => void;
+  disabled: boolean;
+}) {
+  const updateTier = (index: number, patch: Partial<OvertimeTier>) => {
+    onChange(tiers.map((tier, i) => (i === index ? { ...tier, ...patch } : tier)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {tiers.map((tier, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground w-12">After</span>
+          <Input
+            type="number"
+            min={0}
+            step={0.5}
+            className="w-24"
+            value={tier.threshold}
+            onChange={(e) => updateTier(index, { threshold: parseFloat(e.target.value) || 0 })}
+            disabled={disabled}
+          />
+          <span className="text-sm text-muted-foreground">hours at</span>
+          <Input
+            type="number"
+            min={1}
+            step={0.25}
+            className="w-24"
+            value={tier.multiplier}
+            onChange={(e) => updateTier(index, { multiplier: parseFloat(e.target.value) || 1 })}
+            disabled={disabled}
+          />
+          <span className="text-sm text-muted-foreground">x</span>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(tiers.filter((_, i) => i !== index))}
+            disabled={disabled || tiers.length <= 1}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => {
+          const last = tiers[tiers.length - 1];
+          onChange([
+            ...tiers,
+            { threshold: (last?.threshold ?? 0) + 4, multiplier: (last?.multiplier ?? 1) + 0.5 },
+          ]);
+        }}
+        disabled={disabled}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Tier
+      </Button>
+    </div>
+  );
+}
+
+export function OvertimeSettingsComponent({
+  organizationId,
+  initialSettings,
+}: OvertimeSettingsComponentProps) {
+  const router = useRouter();
+  const supabase = createClient();
+  const [saving, setSaving] = useState(false);
+
+  const [rules, setRules] = useState<OvertimeRules>(() =>
+    resolveOvertimeRules(initialSettings)
+  );
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      // Merge with existing settings
+      const updatedSettings = {
+        ...initialSettings,
+        overtimeRules: rules,
+      };
+
+      const { error } = await supabase
+        .from("organizations")
+        .update({
+          settings: updatedSettings as unknown as Json,
+        })
+        .eq("id", organizationId);
+
+      if (error) throw error;
+
+      toast.success("Overtime rules saved");
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to save overtime rules");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Timer className="h-5 w-5" />
+            Overtime Rules
+          </CardTitle>
+          <CardDescription>
+            Used for timesheet generation, timesheet exports and the work hours report. New
+            organizations start with weekly overtime after 40 hours; organizations created
+            before these rules existed keep overtime after 8 hours a day.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-2">
+            <div className="space-y-0.5">
+              <Label className="text-base">Workweek Starts On</Label>
+              <p className="text-sm text-muted-foreground">
+                Weekly and consecutive-day overtime are counted per workweek.
+              </p>
+            </div>
+            <Select
+              value={rules.weekStartsOn.toString()}
+              onValueChange={(value) =>
+                setRules((prev) => ({
+                  ...prev,
+                  weekStartsOn: parseInt(value) as OvertimeRules["weekStartsOn"],
+                }))
+              }
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="0">Sunday</SelectItem>
+                <SelectItem value="1">Monday</SelectItem>
+                <SelectItem value="6">Saturday</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label className="text-base">Weekly Overtime</Label>
+                <p className="text-sm text-muted-foreground">
+                  Regular hours beyond the weekly threshold are paid at the overtime rate.
+                </p>
+              </div>
+              <Switch
+                checked={rules.weekly.enabled}
+                onCheckedChange={(checked) =>
+                  setRules((prev) => ({ ...prev, weekly: { ...prev.weekly, enabled: checked } }))
+                }
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground w-12">After</span>
+              <Input
+                type="number"
+                min={0}
+                className="w-24"
+                value={rules.weekly.threshold}
+                onChange={(e) =>
+                  setRules((prev) => ({
+                    ...prev,
+                    weekly: { ...prev.weekly, threshold: parseFloat(e.target.value) || 0 },
+                  }))
+                }
+                disabled={!rules.weekly.enabled}
+              />
+              <span className="text-sm text-muted-foreground">hours at</span>
+              <Input
+                type="number"
+                min={1}
+                step={0.25}
+                className="w-24"
+                value={rules.weekly.multiplier}
+                onChange={(e) =>
+                  setRules((prev) => ({
+                    ...prev,
+                    weekly: { ...prev.weekly, multiplier: parseFloat(e.target.value) || 1 },
+                  }))
+                }
+                disabled={!rules.weekly.enabled}
+              />
+              <span className="text-sm text-muted-foreground">x</span>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label className="text-base">Daily Overtime</Label>
+                <p className="text-sm text-muted-foreground">
+                  Hours beyond each daily threshold are paid at that tier&apos;s rate, e.g. 1.5x after 8 hours and 2x after 12 hours.
+                </p>
+              </div>
+              <Switch
+                checked={rules.daily.enabled}
+                onCheckedChange={(checked) =>
+                  setRules((prev) => ({ ...prev, daily: { ...prev.daily, enabled: checked } }))
+                }
+              />
+            </div>
+            <TierEditor
+              tiers={rules.daily.tiers}
+              onChange={(tiers) => setRules((prev) => ({ ...prev, daily: { ...prev.daily, tiers } }))}
+              disabled={!rules.daily.enabled}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label className="text-base">Consecutive Day Overtime</Label>
+                <p className="text-sm text-muted-foreground">
+                  Applies instead of daily tiers when an employee works this many consecutive days in a workweek.
+                </p>
+              </div>
+              <Switch
+                checked={rules.consecutiveDay.enabled}
+                onCheckedChange={(checked) =>
+                  setRules((prev) => ({
+                    ...prev,
+                    consecutiveDay: { ...prev.consecutiveDay, enabled: checked },
+                  }))
+                }
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">Day</span>
+              <Input
+                type="number"
+                min={2}
+                max={7}
+                className="w-24"
+                value={rules.consecutiveDay.day}
+                onChange={(e) =>
+                  setRules((prev) => ({
+                    ...prev,
+                    consecutiveDay: { ...prev.consecutiveDay, day: parseInt(e.target.value) || 7 },
+                  }))
+                }
+                disabled={!rules.consecutiveDay.enabled}
+              />
+            </div>
+            <TierEditor
+              tiers={rules.consecutiveDay.tiers}
+              onChange={(tiers) =>
+                setRules((prev) => ({ ...prev, consecutiveDay: { ...prev.consecutiveDay, tiers } }))
+              }
+              disabled={!rules.consecutiveDay.enabled}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Save Button */}
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saving}>
+          {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Save Overtime Rules
+        </Button>
+      </div>
+    </div>
+  );
+}
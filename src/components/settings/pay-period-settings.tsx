@@ -0,0 +1,237 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { format, parseISO } from "date-fns";
+import { createClient } from "@/lib/supabase/client";
+import type { Json } from "@/types/database.types";
+import {
+  getPayPeriodForDate,
+  payPeriodFrequencyLabels,
+  resolvePayPeriodSettings,
+  type PayPeriodFrequency,
+  type PayPeriodSettings,
+} from "@/lib/pay-periods";
+import type { TimesheetGenerationSummary } from "@/lib/timesheet-generation";
+import { getDateKeyInTimeZone, resolveTimeZone } from "@/lib/timezone";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { CalendarRange, FileClock, Loader2 } from "lucide-react";
+
+interface PayPeriodSettingsComponentProps {
+  organizationId: string;
+  organizationTimezone: string | null;
+  initialSettings: any;
+}
+
+const statusColors = {
+  created: "bg-green-100 text-green-800",
+  skipped: "bg-gray-100 text-gray-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+export function PayPeriodSettingsComponent({
+  organizationId,
+  organizationTimezone,
+  initialSettings,
+}: PayPeriodSettingsComponentProps) {
+  const router = useRouter();
+  const supabase = createClient();
+  const [saving, setSaving] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  const [summary, setSummary] = useState<TimesheetGenerationSummary | null>(null);
+
+  const [settings, setSettings] = useState<PayPeriodSettings>(() =>
+    resolvePayPeriodSettings(initialSettings)
+  );
+
+  const today = getDateKeyInTimeZone(new Date(), resolveTimeZone(organizationTimezone));
+  const currentPeriod = getPayPeriodForDate(today, settings);
+  const savedPeriod = getPayPeriodForDate(today, resolvePayPeriodSettings(initialSettings));
+  const formatPeriod = (period: { start: string; end: string }) =>
+    `${format(parseISO(period.start), "MMM d, yyyy")} - ${format(parseISO(period.end), "MMM d, yyyy")}`;
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      // Merge with existing settings
+      const updatedSettings = {
+        ...initialSettings,
+        payPeriod: settings,
+      };
+
+      const { error } = await supabase
+        .from("organizations")
+        .update({
+          settings: updatedSettings as unknown as Json,
+        })
+        .eq("id", organizationId);
+
+      if (error) throw error;
+
+      toast.success("Pay period settings saved");
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to save pay period settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      const response = await fetch("/api/timesheets/generate/all", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to generate timesheets");
+      }
+
+      setSummary(result);
+      toast.success(
+        `Created ${result.created} timesheet${result.created === 1 ? "" : "s"}, skipped ${result.skipped}`
+      );
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Failed to generate timesheets");
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarRange className="h-5 w-5" />
+            Pay Periods
+          </CardTitle>
+          <CardDescription>
+            Define how often payroll runs. Timesheets are generated for one pay period at a time.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Frequency</Label>
+              <Select
+                value={settings.frequency}
+                onValueChange={(value) =>
+                  setSettings((prev) => ({ ...prev, frequency: value as PayPeriodFrequency }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(payPeriodFrequencyLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {settings.frequency !== "semi_monthly" && (
+              <div className="space-y-2">
+                <Label htmlFor="payPeriodAnchor">First Day of a Pay Period</Label>
+                <Input
+                  id="payPeriodAnchor"
+                  type="date"
+                  value={settings.anchorDate}
+                  onChange={(e) =>
+                    e.target.value &&
+                    setSettings((prev) => ({ ...prev, anchorDate: e.target.value }))
+                  }
+                />
+              </div>
+            )}
+          </div>
+
+          <p className="text-sm text-muted-foreground bg-muted p-3 rounded-md">
+            Current pay period: {formatPeriod(currentPeriod)}
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Save Button */}
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saving}>
+          {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Save Pay Period Settings
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileClock className="h-5 w-5" />
+            Generate Timesheets
+          </CardTitle>
+          <CardDescription>
+            Create draft timesheets for every active employee for {formatPeriod(savedPeriod)}.
+            Employees who already have a timesheet for this period are skipped.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Button variant="outline" onClick={handleGenerate} disabled={generating}>
+            {generating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Generate for Current Period
+          </Button>
+
+          {summary && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                {summary.created} created, {summary.skipped} skipped, {summary.failed} failed
+              </p>
+              <div className="divide-y rounded-md border">
+                {summary.results.map((result) => (
+                  <div
+                    key={result.user_id}
+                    className="flex items-center justify-between px-3 py-2 text-sm"
+                  >
+                    <span>{result.name}</span>
+                    <div className="flex items-center gap-2">
+                      {result.status === "created" && (
+                        <span className="text-muted-foreground">{result.total_hours}h</span>
+                      )}
+                      {result.status === "failed" && result.reason && (
+                        <span className="text-muted-foreground">{result.reason}</span>
+                      )}
+                      <Badge className={statusColors[result.status]}>{result.status}</Badge>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
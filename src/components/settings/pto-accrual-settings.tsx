@@ -0,0 +1,208 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { createClient } from "@/lib/supabase/client";
+import type { Json } from "@/types/database.types";
+import { payPeriodFrequencyLabels, resolvePayPeriodSettings } from "@/lib/pay-periods";
+import {
+  ptoAccrualFrequencyLabels,
+  resolvePTOAccrualSettings,
+  type PTOAccrualFrequency,
+  type PTOAccrualSettings,
+  type PTOAccrualSummary,
+} from "@/lib/pto-accrual";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2, TrendingUp } from "lucide-react";
+
+interface PTOAccrualSettingsComponentProps {
+  organizationId: string;
+  initialSettings: any;
+}
+
+const statusColors = {
+  updated: "bg-green-100 text-green-800",
+  unchanged: "bg-gray-100 text-gray-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+export function PTOAccrualSettingsComponent({
+  organizationId,
+  initialSettings,
+}: PTOAccrualSettingsComponentProps) {
+  const router = useRouter();
+  const supabase = createClient();
+  const [saving, setSaving] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [summary, setSummary] = useState<PTOAccrualSummary | null>(null);
+
+  const [settings, setSettings] = useState<PTOAccrualSettings>(() =>
+    resolvePTOAccrualSettings(initialSettings)
+  );
+  const payPeriod = resolvePayPeriodSettings(initialSettings);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      // Merge with existing settings
+      const updatedSettings = {
+        ...initialSettings,
+        ptoAccrual: settings,
+      };
+
+      const { error } = await supabase
+        .from("organizations")
+        .update({
+          settings: updatedSettings as unknown as Json,
+        })
+        .eq("id", organizationId);
+
+      if (error) throw error;
+
+      toast.success("Accrual settings saved");
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to save accrual settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRun = async () => {
+    setRunning(true);
+    try {
+      const response = await fetch("/api/pto/accrual/run", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to run accrual");
+      }
+
+      setSummary(result);
+      toast.success(
+        `Updated ${result.updated} balance${result.updated === 1 ? "" : "s"}`
+      );
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Failed to run accrual");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const changed = summary?.results.filter((result) => result.status !== "unchanged") || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingUp className="h-5 w-5" />
+          Accrual &amp; Carryover
+        </CardTitle>
+        <CardDescription>
+          Policies with an accrual rate earn time off at the end of each period, pro-rated from
+          the employee&apos;s hire date. Other policies grant their annual allowance once a year.
+          At year end, unused days carry over up to each policy&apos;s maximum.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-0.5">
+            <Label className="text-base">Accrue</Label>
+            <p className="text-sm text-muted-foreground">
+              {settings.frequency === "pay_period"
+                ? `Follows the pay period (${payPeriodFrequencyLabels[payPeriod.frequency].toLowerCase()}).`
+                : "At the end of each calendar month."}
+            </p>
+          </div>
+          <Select
+            value={settings.frequency}
+            onValueChange={(value) =>
+              setSettings((prev) => ({ ...prev, frequency: value as PTOAccrualFrequency }))
+            }
+          >
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(ptoAccrualFrequencyLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={handleRun} disabled={running}>
+            {running && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Run Accrual Now
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Accrual Settings
+          </Button>
+        </div>
+
+        {summary && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              {summary.updated} updated, {summary.unchanged} unchanged, {summary.failed} failed
+            </p>
+            {changed.length > 0 && (
+              <div className="divide-y rounded-md border">
+                {changed.map((result) => (
+                  <div
+                    key={`${result.user_id}-${result.policy_id}`}
+                    className="flex items-center justify-between px-3 py-2 text-sm"
+                  >
+                    <span>
+                      {result.name}
+                      <span className="text-muted-foreground"> · {result.pto_type}</span>
+                    </span>
+                    <div className="flex items-center gap-2">
+                      {result.status === "updated" && (
+                        <span className="text-muted-foreground">
+                          +{result.accrued_days} accrued
+                          {!!result.carryover_days && `, ${result.carryover_days} carried over`}
+                        </span>
+                      )}
+                      {result.status === "failed" && result.reason && (
+                        <span className="text-muted-foreground">{result.reason}</span>
+                      )}
+                      <Badge className={statusColors[result.status]}>{result.status}</Badge>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,304 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { format, parseISO } from "date-fns";
+import { createClient } from "@/lib/supabase/client";
+import type { Database, Json } from "@/types/database.types";
+import { resolvePTOCalendarSettings, type PTOCalendarSettings } from "@/lib/pto-days";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { CalendarDays, Loader2, Plus, Trash2 } from "lucide-react";
+
+type Holiday = Database["public"]["Tables"]["holidays"]["Row"];
+
+interface PTOCalendarSettingsComponentProps {
+  organizationId: string;
+  initialSettings: any;
+  holidays: Holiday[];
+  locations: { id: string; name: string }[];
+}
+
+const weekDays = [
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+  { value: 0, label: "Sun" },
+];
+
+const ALL_LOCATIONS = "all";
+
+export function PTOCalendarSettingsComponent({
+  organizationId,
+  initialSettings,
+  holidays,
+  locations,
+}: PTOCalendarSettingsComponentProps) {
+  const router = useRouter();
+  const supabase = createClient();
+  const [saving, setSaving] = useState(false);
+  const [adding, setAdding] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const [settings, setSettings] = useState<PTOCalendarSettings>(() =>
+    resolvePTOCalendarSettings(initialSettings)
+  );
+  const [newHoliday, setNewHoliday] = useState({
+    date: "",
+    name: "",
+    locationId: ALL_LOCATIONS,
+  });
+
+  const locationNames = Object.fromEntries(locations.map((l) => [l.id, l.name]));
+
+  const toggleWorkDay = (day: number, checked: boolean) => {
+    setSettings((prev) => ({
+      ...prev,
+      workWeek: checked
+        ? [...prev.workWeek, day].sort((a, b) => a - b)
+        : prev.workWeek.filter((d) => d !== day),
+    }));
+  };
+
+  const handleSave = async () => {
+    if (settings.workWeek.length === 0) {
+      toast.error("Select at least one working day");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      // Merge with existing settings
+      const updatedSettings = {
+        ...initialSettings,
+        ptoCalendar: settings,
+      };
+
+      const { error } = await supabase
+        .from("organizations")
+        .update({
+          settings: updatedSettings as unknown as Json,
+        })
+        .eq("id", organizationId);
+
+      if (error) throw error;
+
+      toast.success("Work week saved");
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to save work week");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddHoliday = async () => {
+    if (!newHoliday.date || !newHoliday.name.trim()) {
+      toast.error("Holiday date and name are required");
+      return;
+    }
+
+    setAdding(true);
+    try {
+      const { error } = await supabase.from("holidays").insert({
+        organization_id: organizationId,
+        date: newHoliday.date,
+        name: newHoliday.name.trim(),
+        location_id: newHoliday.locationId === ALL_LOCATIONS ? null : newHoliday.locationId,
+      });
+
+      if (error) throw error;
+
+      toast.success("Holiday added");
+      setNewHoliday({ date: "", name: "", locationId: newHoliday.locationId });
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to add holiday");
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleDeleteHoliday = async (id: string) => {
+    setDeletingId(id);
+    try {
+      const { error } = await supabase.from("holidays").delete().eq("id", id);
+
+      if (error) throw error;
+
+      toast.success("Holiday removed");
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to remove holiday");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarDays className="h-5 w-5" />
+            Work Week &amp; Holidays
+          </CardTitle>
+          <CardDescription>
+            Time off is deducted only for working days. Days outside the work week and holidays
+            in an employee&apos;s calendar are not counted.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-2">
+            <Label className="text-base">Working Days</Label>
+            <div className="flex flex-wrap gap-4">
+              {weekDays.map((day) => (
+                <label key={day.value} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={settings.workWeek.includes(day.value)}
+                    onCheckedChange={(checked) => toggleWorkDay(day.value, checked === true)}
+                  />
+                  {day.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="hoursPerDay" className="text-base">
+                Hours per Day
+              </Label>
+              <p className="text-sm text-muted-foreground">
+                Used to convert hourly requests into days.
+              </p>
+            </div>
+            <Input
+              id="hoursPerDay"
+              type="number"
+              min={1}
+              max={24}
+              step={0.5}
+              className="w-24"
+              value={settings.hoursPerDay}
+              onChange={(e) =>
+                setSettings((prev) => ({ ...prev, hoursPerDay: Number(e.target.value) }))
+              }
+            />
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Work Week
+            </Button>
+          </div>
+
+          <div className="space-y-3 border-t pt-6">
+            <div className="space-y-0.5">
+              <Label className="text-base">Holiday Calendar</Label>
+              <p className="text-sm text-muted-foreground">
+                Holidays for a location apply to employees whose primary location it is.
+              </p>
+            </div>
+
+            <div className="grid gap-2 sm:grid-cols-[auto_1fr_auto_auto]">
+              <Input
+                type="date"
+                value={newHoliday.date}
+                onChange={(e) => setNewHoliday((prev) => ({ ...prev, date: e.target.value }))}
+              />
+              <Input
+                placeholder="Holiday name"
+                value={newHoliday.name}
+                onChange={(e) => setNewHoliday((prev) => ({ ...prev, name: e.target.value }))}
+              />
+              <Select
+                value={newHoliday.locationId}
+                onValueChange={(value) =>
+                  setNewHoliday((prev) => ({ ...prev, locationId: value }))
+                }
+              >
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_LOCATIONS}>All locations</SelectItem>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {location.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={handleAddHoliday} disabled={adding}>
+                {adding ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Plus className="h-4 w-4" />
+                )}
+              </Button>
+            </div>
+
+            {holidays.length > 0 ? (
+              <div className="divide-y rounded-lg border">
+                {holidays.map((holiday) => (
+                  <div key={holiday.id} className="flex items-center justify-between gap-4 p-3">
+                    <div className="min-w-0">
+                      <div className="font-medium truncate">{holiday.name}</div>
+                      <div className="text-sm text-muted-foreground">
+                        {format(parseISO(holiday.date), "EEE, MMM d, yyyy")} ·{" "}
+                        {holiday.location_id
+                          ? locationNames[holiday.location_id] || "Unknown location"
+                          : "All locations"}
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDeleteHoliday(holiday.id)}
+                      disabled={deletingId === holiday.id}
+                    >
+                      {deletingId === holiday.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Trash2 className="h-4 w-4" />
+                      )}
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                No upcoming holidays
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { createClient } from "@/lib/supabase/client";
+import type { Json } from "@/types/database.types";
+import {
+  resolveShiftValidationRules,
+  type ShiftValidationRules,
+} from "@/lib/shift-validation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { toast } from "sonner";
+import { Loader2, ShieldCheck } from "lucide-react";
+
+interface ShiftRulesSettingsComponentProps {
+  organizationId: string;
+  initialSettings: any;
+}
+
+export function ShiftRulesSettingsComponent({
+  organizationId,
+  initialSettings,
+}: ShiftRulesSettingsComponentProps) {
+  const router = useRouter();
+  const supabase = createClient();
+  const [saving, setSaving] = useState(false);
+
+  const [rules, setRules] = useState<ShiftValidationRules>(() =>
+    resolveShiftValidationRules(initialSettings)
+  );
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      // Merge with existing settings
+      const updatedSettings = {
+        ...initialSettings,
+        shiftValidationRules: rules,
+      };
+
+      const { error } = await supabase
+        .from("organizations")
+        .update({
+          settings: updatedSettings as unknown as Json,
+        })
+        .eq("id", organizationId);
+
+      if (error) throw error;
+
+      toast.success("Scheduling rules saved");
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to save scheduling rules");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const numberField = (
+    id: string,
+    label: string,
+    description: string,
+    key: "minRestHours" | "maxHoursPerWeek" | "minDaysOffPerWeek",
+    max?: number
+  ) => (
+    <div className="flex items-center justify-between gap-4">
+      <div className="space-y-0.5">
+        <Label htmlFor={id} className="text-base">{label}</Label>
+        <p className="text-sm text-muted-foreground">{description}</p>
+      </div>
+      <Input
+        id={id}
+        type="number"
+        min={0}
+        max={max}
+        className="w-24 shrink-0"
+        value={rules[key]}
+        onChange={(e) =>
+          setRules((prev) => ({ ...prev, [key]: Math.max(0, parseFloat(e.target.value) || 0) }))
+        }
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Scheduling Rules
+          </CardTitle>
+          <CardDescription>
+            Shifts are checked against these rules before they are saved, moved, copied, or
+            published. Overlapping shifts and approved time off always block saving; the rules
+            below raise warnings. Set a limit to 0 to turn it off.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {numberField(
+            "minRestHours",
+            "Minimum Rest (hours)",
+            "Time an employee should have off between two shifts.",
+            "minRestHours"
+          )}
+          {numberField(
+            "maxHoursPerWeek",
+            "Maximum Hours per Week",
+            "Scheduled hours per employee per week, excluding breaks.",
+            "maxHoursPerWeek"
+          )}
+          {numberField(
+            "minDaysOffPerWeek",
+            "Minimum Days Off per Week",
+            "Days without a shift each employee should have per week.",
+            "minDaysOffPerWeek",
+            7
+          )}
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label className="text-base">Check Position Qualifications</Label>
+              <p className="text-sm text-muted-foreground">
+                Warn when an employee is scheduled for a position they are not assigned to.
+              </p>
+            </div>
+            <Switch
+              checked={rules.requireQualification}
+              onCheckedChange={(checked) =>
+                setRules((prev) => ({ ...prev, requireQualification: checked }))
+              }
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Save Button */}
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saving}>
+          {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Save Scheduling Rules
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { createClient } from "@/lib/supabase/client";
+import type { Json } from "@/types/database.types";
+import {
+  resolveTimekeepingSettings,
+  type MidnightRule,
+  type TimekeepingSettings,
+} from "@/lib/timezone";
+import { resolveAttendanceSettings, type AttendanceSettings } from "@/lib/attendance";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2, Moon, UserX } from "lucide-react";
+
+interface TimekeepingSettingsComponentProps {
+  organizationId: string;
+  organizationTimezone: string | null;
+  initialSettings: any;
+}
+
+export function TimekeepingSettingsComponent({
+  organizationId,
+  organizationTimezone,
+  initialSettings,
+}: TimekeepingSettingsComponentProps) {
+  const router = useRouter();
+  const supabase = createClient();
+  const [saving, setSaving] = useState(false);
+
+  const [settings, setSettings] = useState<TimekeepingSettings>(() =>
+    resolveTimekeepingSettings(initialSettings)
+  );
+  const [attendance, setAttendance] = useState<AttendanceSettings>(() =>
+    resolveAttendanceSettings(initialSettings)
+  );
+
+  const attendanceFields: { key: keyof AttendanceSettings; label: string; description: string }[] = [
+    {
+      key: "lateGraceMinutes",
+      label: "Late Clock-In Grace",
+      description: "Clock-ins up to this long after the shift starts are on time.",
+    },
+    {
+      key: "earlyClockOutGraceMinutes",
+      label: "Early Clock-Out Grace",
+      description: "Clock-outs up to this long before the shift ends are on time.",
+    },
+    {
+      key: "breakGraceMinutes",
+      label: "Break Grace",
+      description: "Breaks this much shorter than scheduled still count as taken.",
+    },
+    {
+      key: "noShowAfterMinutes",
+      label: "No-Show After",
+      description: "Managers are alerted when nobody has clocked in this long after the shift starts.",
+    },
+    {
+      key: "earlyClockInMinutes",
+      label: "Early Clock-In Window",
+      description: "Clock-ins this long before a shift count toward it instead of being unscheduled.",
+    },
+  ];
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      // Merge with existing settings
+      const updatedSettings = {
+        ...initialSettings,
+        timekeeping: settings,
+        attendance,
+      };
+
+      const { error } = await supabase
+        .from("organizations")
+        .update({
+          settings: updatedSettings as unknown as Json,
+        })
+        .eq("id", organizationId);
+
+      if (error) throw error;
+
+      toast.success("Timekeeping settings saved");
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to save timekeeping settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Moon className="h-5 w-5" />
+            Day Attribution
+          </CardTitle>
+          <CardDescription>
+            Time entries are grouped into days using the location&apos;s time zone, or the
+            organization time zone ({organizationTimezone || "UTC"}) when the location has none.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-2">
+            <div className="space-y-0.5">
+              <Label className="text-base">Shifts Crossing Midnight</Label>
+              <p className="text-sm text-muted-foreground">
+                Choose which day overnight work counts toward for timesheets and overtime.
+              </p>
+            </div>
+            <Select
+              value={settings.midnightRule}
+              onValueChange={(value) =>
+                setSettings((prev) => ({ ...prev, midnightRule: value as MidnightRule }))
+              }
+            >
+              <SelectTrigger className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="start_day">Attribute to the start day</SelectItem>
+                <SelectItem value="split">Split at midnight</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <UserX className="h-5 w-5" />
+            Attendance Exceptions
+          </CardTitle>
+          <CardDescription>
+            Punches are compared with published shifts to flag late clock-ins, early
+            clock-outs, missed breaks, no-shows and unscheduled work.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {attendanceFields.map((field) => (
+            <div key={field.key} className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5">
+                <Label htmlFor={field.key} className="text-base">
+                  {field.label}
+                </Label>
+                <p className="text-sm text-muted-foreground">{field.description}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Input
+                  id={field.key}
+                  type="number"
+                  min={0}
+                  max={240}
+                  className="w-20"
+                  value={attendance[field.key]}
+                  onChange={(e) =>
+                    setAttendance((prev) => ({
+                      ...prev,
+                      [field.key]: Math.max(0, parseInt(e.target.value) || 0),
+                    }))
+                  }
+                />
+                <span className="text-sm text-muted-foreground">min</span>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {/* Save Button */}
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saving}>
+          {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Save Timekeeping Settings
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -38,6 +38,7 @@ import {
   ArrowUpDown,
   ArrowUp,
   ArrowDown,
+  UsersRound,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { TaskDialog } from "./task-dialog";
@@ -66,6 +67,14 @@ type Task = Database["public"]["Tables"]["tasks"]["Row"] & {
     last_name: string;
     display_name: string | null;
   } | null;
+  employee_groups?: { id: string; name: string; color: string | null } | null;
+};
+
+type EmployeeGroup = {
+  id: string;
+  name: string;
+  color: string | null;
+  employee_group_members: { user_id: string }[];
 };
 
 type TeamMember = {
@@ -81,6 +90,7 @@ interface TasksDashboardProps {
   profile: Profile;
   tasks: Task[];
   teamMembers: TeamMember[];
+  groups: EmployeeGroup[];
   isAdmin: boolean;
 }
 
@@ -196,6 +206,7 @@ export function TasksDashboard({
   profile,
   tasks,
   teamMembers,
+  groups,
   isAdmin,
 }: TasksDashboardProps) {
   const router = useRouter();
@@ -235,9 +246,13 @@ export function TasksDashboard({
     });
   };
 
-  // Filter tasks
+  // Filter tasks. Tasks assigned to one of the user's groups are theirs too.
+  const myGroupIds = groups
+    .filter((group) => group.employee_group_members.some((m) => m.user_id === profile.id))
+    .map((group) => group.id);
   const myTasks = tasks.filter((task) =>
-    task.task_assignments.some((a) => a.user_id === profile.id)
+    task.task_assignments.some((a) => a.user_id === profile.id) ||
+    (!!task.group_id && myGroupIds.includes(task.group_id))
   );
   const pendingTasks = tasks.filter((t) => t.status === "pending");
   const inProgressTasks = tasks.filter((t) => t.status === "in_progress");
@@ -407,6 +422,12 @@ export function TasksDashboard({
               )}
             </TableCell>
             <TableCell>
+              {task.employee_groups && (
+                <Badge variant="outline" className="mb-1">
+                  <UsersRound className="h-3 w-3 mr-1" />
+                  {task.employee_groups.name}
+                </Badge>
+              )}
               {task.task_assignments.length > 0 ? (
                 <div className="flex items-center gap-1">
                   <div className="flex -space-x-2">
@@ -430,9 +451,9 @@ export function TasksDashboard({
                     </span>
                   )}
                 </div>
-              ) : (
+              ) : !task.employee_groups ? (
                 <span className="text-muted-foreground">-</span>
-              )}
+              ) : null}
             </TableCell>
             <TableCell>
               <DropdownMenu>
@@ -678,6 +699,7 @@ export function TasksDashboard({
         task={selectedTask}
         profile={profile}
         teamMembers={teamMembers}
+        groups={groups}
         isAdmin={isAdmin}
       />
     </div>
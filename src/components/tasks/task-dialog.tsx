@@ -55,6 +55,12 @@ type Task = Database["public"]["Tables"]["tasks"]["Row"] & {
   } | null;
 };
 
+type EmployeeGroup = {
+  id: string;
+  name: string;
+  employee_group_members: { user_id: string }[];
+};
+
 type TeamMember = {
   id: string;
   first_name: string;
@@ -70,6 +76,7 @@ interface TaskDialogProps {
   task: Task | null;
   profile: Profile;
   teamMembers: TeamMember[];
+  groups: EmployeeGroup[];
   isAdmin: boolean;
 }
 
@@ -93,6 +100,7 @@ export function TaskDialog({
   task,
   profile,
   teamMembers,
+  groups,
   isAdmin,
 }: TaskDialogProps) {
   const router = useRouter();
@@ -105,6 +113,7 @@ export function TaskDialog({
     priority: "medium",
     status: "pending",
     dueDate: "",
+    groupId: "none",
     assignees: [] as string[],
   });
 
@@ -117,6 +126,7 @@ export function TaskDialog({
         priority: task.priority || "medium",
         status: task.status || "pending",
         dueDate: task.due_date ? format(new Date(task.due_date), "yyyy-MM-dd'T'HH:mm") : "",
+        groupId: task.group_id || "none",
         assignees: task.task_assignments.map((a) => a.user_id),
       });
     } else {
@@ -126,6 +136,7 @@ export function TaskDialog({
         priority: "medium",
         status: "pending",
         dueDate: "",
+        groupId: "none",
         assignees: [],
       });
     }
@@ -170,6 +181,7 @@ export function TaskDialog({
             priority: formData.priority,
             status: formData.status,
             due_date: formData.dueDate ? new Date(formData.dueDate).toISOString() : null,
+            group_id: formData.groupId === "none" ? null : formData.groupId,
             completed_at: formData.status === "completed" && task.status !== "completed"
               ? new Date().toISOString()
               : formData.status !== "completed" ? null : task.completed_at,
@@ -231,6 +243,7 @@ export function TaskDialog({
             priority: formData.priority,
             status: formData.status,
             due_date: formData.dueDate ? new Date(formData.dueDate).toISOString() : null,
+            group_id: formData.groupId === "none" ? null : formData.groupId,
             created_by: profile.id,
           })
           .select()
@@ -378,6 +391,34 @@ export function TaskDialog({
             />
           </div>
 
+          {/* Group */}
+          {groups.length > 0 && (
+            <div className="space-y-2">
+              <Label>Assign to group (optional)</Label>
+              <Select
+                value={formData.groupId}
+                onValueChange={(value) =>
+                  setFormData((prev) => ({ ...prev, groupId: value }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="No group" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No group</SelectItem>
+                  {groups.map((group) => (
+                    <SelectItem key={group.id} value={group.id}>
+                      {group.name} ({group.employee_group_members.length})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Everyone in the group sees this task under My Tasks
+              </p>
+            </div>
+          )}
+
           {/* Assignees */}
           <div className="space-y-2">
             <Label>Assign to</Label>
@@ -4,7 +4,7 @@ import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { format, parseISO } from "date-fns";
 import { createClient } from "@/lib/supabase/client";
-import type { Database } from "@/types/database.types";
+import type { Database, Json } from "@/types/database.types";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -62,7 +62,6 @@ import {
   Briefcase,
   MapPin,
   UsersRound,
-  DollarSign,
   Filter,
   X,
   AlertTriangle,
@@ -71,7 +70,10 @@ import { InviteDialog } from "./invite-dialog";
 import { EmployeeDialog } from "./employee-dialog";
 import { PositionDialog } from "@/components/organization/position-dialog";
 import { LocationDialog } from "@/components/organization/location-dialog";
+import { GroupDialog, groupColorOptions, type EmployeeGroup } from "./group-dialog";
+import { LaborCostSettingsPanel } from "./labor-cost-settings";
 import { cn } from "@/lib/utils";
+import { describeOvertimeRules, type OvertimeRules } from "@/lib/overtime";
 
 type Profile = Database["public"]["Tables"]["profiles"]["Row"];
 
@@ -97,6 +99,7 @@ type Department = {
 };
 
 type Position = Database["public"]["Tables"]["positions"]["Row"];
+type EmployeePayRate = Database["public"]["Tables"]["employee_pay_rates"]["Row"];
 type Location = Database["public"]["Tables"]["locations"]["Row"];
 
 interface TeamDashboardProps {
@@ -106,6 +109,10 @@ interface TeamDashboardProps {
   departments: Department[];
   positions: Position[];
   locations: Location[];
+  groups: EmployeeGroup[];
+  payRates: EmployeePayRate[];
+  organizationSettings: Json | null;
+  overtimeRules: OvertimeRules;
   isAdmin: boolean;
 }
 
@@ -129,6 +136,10 @@ export function TeamDashboard({
   departments,
   positions,
   locations,
+  groups,
+  payRates,
+  organizationSettings,
+  overtimeRules,
   isAdmin,
 }: TeamDashboardProps) {
   const router = useRouter();
@@ -140,6 +151,8 @@ export function TeamDashboard({
   const [selectedPosition, setSelectedPosition] = useState<Position | null>(null);
   const [locationDialogOpen, setLocationDialogOpen] = useState(false);
   const [selectedLocation, setSelectedLocation] = useState<Location | null>(null);
+  const [groupDialogOpen, setGroupDialogOpen] = useState(false);
+  const [selectedGroup, setSelectedGroup] = useState<EmployeeGroup | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [processingId, setProcessingId] = useState<string | null>(null);
 
@@ -314,6 +327,26 @@ export function TeamDashboard({
     }
   };
 
+  const handleDeleteGroup = async (groupId: string) => {
+    setProcessingId(groupId);
+    try {
+      const response = await fetch(`/api/groups/${groupId}`, { method: "DELETE" });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to delete group");
+      }
+
+      toast.success("Group deleted");
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to delete group");
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
   const handleDeactivateMember = async () => {
     if (!memberToDeactivate) return;
 
@@ -952,20 +985,136 @@ export function TeamDashboard({
                   Organize team members into groups for scheduling and permissions
                 </p>
               </div>
-              <Button>
+              <Button
+                onClick={() => {
+                  setSelectedGroup(null);
+                  setGroupDialogOpen(true);
+                }}
+              >
                 <Plus className="h-4 w-4 mr-2" />
                 Add Group
               </Button>
             </div>
-            <Card>
-              <CardContent className="flex flex-col items-center justify-center py-10">
-                <UsersRound className="h-12 w-12 text-muted-foreground mb-4" />
-                <p className="text-muted-foreground">No groups configured</p>
-                <Button variant="link">
-                  Add your first group
-                </Button>
-              </CardContent>
-            </Card>
+
+            {groups.length > 0 ? (
+              <div className="grid gap-4 md:grid-cols-2">
+                {groups.map((group) => {
+                  const members = teamMembers.filter((member) =>
+                    group.employee_group_members.some((m) => m.user_id === member.id)
+                  );
+                  const lead = teamMembers.find((member) => member.id === group.lead_id);
+                  const scopedManagers = teamMembers.filter((member) =>
+                    group.manager_group_scopes.some((scope) => scope.manager_id === member.id)
+                  );
+
+                  return (
+                    <Card key={group.id} className="group">
+                      <CardContent className="p-4">
+                        <div className="flex items-start justify-between">
+                          <div className="flex items-start gap-3 min-w-0">
+                            <div
+                              className={cn(
+                                "h-10 w-10 shrink-0 rounded-lg flex items-center justify-center",
+                                groupColorOptions.find((c) => c.value === group.color)?.bgClass ||
+                                  "bg-blue-500"
+                              )}
+                            >
+                              <UsersRound className="h-5 w-5 text-white" />
+                            </div>
+                            <div className="min-w-0">
+                              <h3 className="font-medium">{group.name}</h3>
+                              {group.description && (
+                                <p className="text-sm text-muted-foreground">
+                                  {group.description}
+                                </p>
+                              )}
+                              <div className="flex flex-wrap items-center gap-2 mt-2">
+                                <Badge variant="secondary">
+                                  {members.length} {members.length === 1 ? "member" : "members"}
+                                </Badge>
+                                {lead && (
+                                  <Badge variant="outline">Lead: {getDisplayName(lead)}</Badge>
+                                )}
+                                {scopedManagers.map((manager) => (
+                                  <Badge key={manager.id} variant="outline">
+                                    Managed by {getDisplayName(manager)}
+                                  </Badge>
+                                ))}
+                              </div>
+                              {members.length > 0 && (
+                                <div className="flex -space-x-2 mt-3">
+                                  {members.slice(0, 8).map((member) => (
+                                    <Avatar key={member.id} className="h-7 w-7 border-2 border-background">
+                                      <AvatarImage src={member.avatar_url || undefined} />
+                                      <AvatarFallback className="text-xs">
+                                        {getInitials(member)}
+                                      </AvatarFallback>
+                                    </Avatar>
+                                  ))}
+                                  {members.length > 8 && (
+                                    <div className="h-7 w-7 rounded-full border-2 border-background bg-muted flex items-center justify-center text-xs">
+                                      +{members.length - 8}
+                                    </div>
+                                  )}
+                                </div>
+                              )}
+                            </div>
+                          </div>
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8 opacity-0 group-hover:opacity-100"
+                                disabled={processingId === group.id}
+                              >
+                                {processingId === group.id ? (
+                                  <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                  <MoreHorizontal className="h-4 w-4" />
+                                )}
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuItem
+                                onClick={() => {
+                                  setSelectedGroup(group);
+                                  setGroupDialogOpen(true);
+                                }}
+                              >
+                                Edit
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                className="text-destructive"
+                                onClick={() => handleDeleteGroup(group.id)}
+                              >
+                                Delete
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            ) : (
+              <Card>
+                <CardContent className="flex flex-col items-center justify-center py-10">
+                  <UsersRound className="h-12 w-12 text-muted-foreground mb-4" />
+                  <p className="text-muted-foreground">No groups configured</p>
+                  <Button
+                    variant="link"
+                    onClick={() => {
+                      setSelectedGroup(null);
+                      setGroupDialogOpen(true);
+                    }}
+                  >
+                    Add your first group
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
           </TabsContent>
         )}
 
@@ -980,22 +1129,14 @@ export function TeamDashboard({
                 </p>
               </div>
             </div>
-            <div className="grid gap-4 md:grid-cols-2">
-              <Card>
-                <CardHeader>
-                  <CardTitle className="text-base">Default Hourly Rate</CardTitle>
-                  <CardDescription>
-                    Set the default hourly rate for new employees
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <div className="flex items-center gap-2">
-                    <DollarSign className="h-5 w-5 text-muted-foreground" />
-                    <span className="text-2xl font-bold">0.00</span>
-                    <span className="text-muted-foreground">/ hour</span>
-                  </div>
-                </CardContent>
-              </Card>
+            <LaborCostSettingsPanel
+              organizationId={profile.organization_id}
+              organizationSettings={organizationSettings}
+              positions={positions}
+              teamMembers={teamMembers}
+              payRates={payRates}
+            />
+            <div className="mt-4">
               <Card>
                 <CardHeader>
                   <CardTitle className="text-base">Overtime Rules</CardTitle>
@@ -1003,10 +1144,12 @@ export function TeamDashboard({
                     Configure overtime calculation rules
                   </CardDescription>
                 </CardHeader>
-                <CardContent>
-                  <p className="text-sm text-muted-foreground">
-                    Overtime after 40 hours/week at 1.5x rate
-                  </p>
+                <CardContent className="space-y-1">
+                  {describeOvertimeRules(overtimeRules).map((line) => (
+                    <p key={line} className="text-sm text-muted-foreground">
+                      {line}
+                    </p>
+                  ))}
                 </CardContent>
               </Card>
             </div>
@@ -1050,6 +1193,15 @@ export function TeamDashboard({
         organizationId={profile.organization_id}
       />
 
+      {/* Group Dialog */}
+      <GroupDialog
+        open={groupDialogOpen}
+        onOpenChange={setGroupDialogOpen}
+        group={selectedGroup}
+        teamMembers={teamMembers}
+        canEditScopes={profile.role === "admin" || profile.role === "owner"}
+      />
+
       {/* Deactivation Confirmation Dialog */}
       <AlertDialog open={deactivateDialogOpen} onOpenChange={setDeactivateDialogOpen}>
         <AlertDialogContent>
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
+import { format } from "date-fns";
 import { createClient } from "@/lib/supabase/client";
 import type { Database } from "@/types/database.types";
 import { Button } from "@/components/ui/button";
@@ -196,7 +197,6 @@ export function EmployeeDialog({
         hire_date: formData.hireDate || null,
         allow_time_edit: formData.allowTimeEdit,
         auto_clock_out_enabled: formData.autoClockOutEnabled,
-        hourly_rate: formData.hourlyRate ? parseFloat(formData.hourlyRate) : null,
       };
 
       // Only update role if allowed
@@ -216,6 +216,25 @@ export function EmployeeDialog({
 
       if (error) throw error;
 
+      // A changed rate is added to the employee's pay history from today, so
+      // shifts already worked keep their old rate
+      const hourlyRate = formData.hourlyRate ? parseFloat(formData.hourlyRate) : null;
+      if (hourlyRate !== null && hourlyRate !== employee.hourly_rate) {
+        const response = await fetch("/api/pay-rates", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            user_id: employee.id,
+            hourly_rate: hourlyRate,
+            effective_from: format(new Date(), "yyyy-MM-dd"),
+          }),
+        });
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || "Failed to update hourly rate");
+        }
+      }
+
       // Update user positions
       // First, delete all existing positions for this user
       const { error: deleteError } = await supabase
@@ -759,7 +778,8 @@ export function EmployeeDialog({
                     />
                   </div>
                   <p className="text-sm text-muted-foreground">
-                    Default hourly rate for this employee
+                    Default hourly rate for this employee. Changes apply from today;
+                    use the Labor Cost tab to backdate or schedule a rate.
                   </p>
                 </div>
 
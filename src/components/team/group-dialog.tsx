@@ -0,0 +1,346 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import type { Database } from "@/types/database.types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export type EmployeeGroup = Database["public"]["Tables"]["employee_groups"]["Row"] & {
+  employee_group_members: { user_id: string }[];
+  manager_group_scopes: { manager_id: string }[];
+};
+
+type TeamMember = {
+  id: string;
+  first_name: string;
+  last_name: string;
+  display_name: string | null;
+  avatar_url: string | null;
+  role: string | null;
+  status: string | null;
+};
+
+interface GroupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  group: EmployeeGroup | null;
+  teamMembers: TeamMember[];
+  canEditScopes: boolean;
+}
+
+export const groupColorOptions = [
+  { value: "blue", label: "Blue", bgClass: "bg-blue-500" },
+  { value: "green", label: "Green", bgClass: "bg-green-500" },
+  { value: "yellow", label: "Yellow", bgClass: "bg-yellow-500" },
+  { value: "red", label: "Red", bgClass: "bg-red-500" },
+  { value: "purple", label: "Purple", bgClass: "bg-purple-500" },
+  { value: "pink", label: "Pink", bgClass: "bg-pink-500" },
+  { value: "orange", label: "Orange", bgClass: "bg-orange-500" },
+  { value: "cyan", label: "Cyan", bgClass: "bg-cyan-500" },
+  { value: "indigo", label: "Indigo", bgClass: "bg-indigo-500" },
+  { value: "teal", label: "Teal", bgClass: "bg-teal-500" },
+];
+
+export function GroupDialog({
+  open,
+  onOpenChange,
+  group,
+  teamMembers,
+  canEditScopes,
+}: GroupDialogProps) {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+
+  const [formData, setFormData] = useState({
+    name: "",
+    description: "",
+    color: "blue",
+    leadId: "none",
+    memberIds: [] as string[],
+    managerIds: [] as string[],
+  });
+
+  const activeMembers = teamMembers.filter((member) => member.status !== "inactive");
+  const managers = activeMembers.filter((member) => member.role === "manager");
+
+  useEffect(() => {
+    if (group) {
+      setFormData({
+        name: group.name,
+        description: group.description || "",
+        color: group.color || "blue",
+        leadId: group.lead_id || "none",
+        memberIds: group.employee_group_members.map((member) => member.user_id),
+        managerIds: group.manager_group_scopes.map((scope) => scope.manager_id),
+      });
+    } else {
+      setFormData({
+        name: "",
+        description: "",
+        color: "blue",
+        leadId: "none",
+        memberIds: [],
+        managerIds: [],
+      });
+    }
+  }, [group, open]);
+
+  const getDisplayName = (member: TeamMember) => {
+    if (member.display_name) return member.display_name;
+    return `${member.first_name} ${member.last_name}`;
+  };
+
+  const getInitials = (member: TeamMember) => {
+    return `${member.first_name[0]}${member.last_name[0]}`.toUpperCase();
+  };
+
+  const handleMemberToggle = (memberId: string) => {
+    setFormData((prev) => {
+      const removing = prev.memberIds.includes(memberId);
+      return {
+        ...prev,
+        memberIds: removing
+          ? prev.memberIds.filter((id) => id !== memberId)
+          : [...prev.memberIds, memberId],
+        // The lead has to be a member
+        leadId: removing && prev.leadId === memberId ? "none" : prev.leadId,
+      };
+    });
+  };
+
+  const handleManagerToggle = (managerId: string, checked: boolean) => {
+    setFormData((prev) => ({
+      ...prev,
+      managerIds: checked
+        ? [...prev.managerIds, managerId]
+        : prev.managerIds.filter((id) => id !== managerId),
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast.error("Group name is required");
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const response = await fetch(group ? `/api/groups/${group.id}` : "/api/groups", {
+        method: group ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: formData.name.trim(),
+          description: formData.description.trim() || null,
+          color: formData.color,
+          lead_id: formData.leadId === "none" ? null : formData.leadId,
+          member_ids: formData.memberIds,
+          ...(canEditScopes ? { manager_ids: formData.managerIds } : {}),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save group");
+      }
+
+      toast.success(group ? "Group updated" : "Group created");
+      onOpenChange(false);
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Failed to save group");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{group ? "Edit Group" : "Add Group"}</DialogTitle>
+          <DialogDescription>
+            {group
+              ? "Update the group's details and members."
+              : "Create a group to filter the schedule, assign tasks and scope managers."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="group-name">Group Name</Label>
+            <Input
+              id="group-name"
+              placeholder="e.g., Opening crew, Keyholders"
+              value={formData.name}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, name: e.target.value }))
+              }
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Color</Label>
+            <div className="grid grid-cols-10 gap-2">
+              {groupColorOptions.map((color) => (
+                <button
+                  key={color.value}
+                  type="button"
+                  className={cn(
+                    "h-7 rounded-md border-2 transition-all",
+                    color.bgClass,
+                    formData.color === color.value
+                      ? "border-foreground ring-2 ring-foreground ring-offset-2"
+                      : "border-transparent hover:border-muted-foreground/50"
+                  )}
+                  onClick={() =>
+                    setFormData((prev) => ({ ...prev, color: color.value }))
+                  }
+                  title={color.label}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="group-description">Description (optional)</Label>
+            <Textarea
+              id="group-description"
+              placeholder="What this group is for..."
+              value={formData.description}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, description: e.target.value }))
+              }
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Members ({formData.memberIds.length})</Label>
+            <div className="border rounded-md max-h-48 overflow-y-auto">
+              {activeMembers.map((member) => (
+                <div
+                  key={member.id}
+                  className={cn(
+                    "flex items-center gap-3 p-2 cursor-pointer hover:bg-muted",
+                    formData.memberIds.includes(member.id) && "bg-muted"
+                  )}
+                  onClick={() => handleMemberToggle(member.id)}
+                >
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={member.avatar_url || undefined} />
+                    <AvatarFallback>{getInitials(member)}</AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium truncate">
+                      {getDisplayName(member)}
+                    </div>
+                    <div className="text-xs text-muted-foreground capitalize">
+                      {member.role}
+                    </div>
+                  </div>
+                  {formData.memberIds.includes(member.id) && (
+                    <div className="h-2 w-2 rounded-full bg-primary" />
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Group Lead (optional)</Label>
+            <Select
+              value={formData.leadId}
+              onValueChange={(value) =>
+                setFormData((prev) => ({ ...prev, leadId: value }))
+              }
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="No lead" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No lead</SelectItem>
+                {activeMembers
+                  .filter((member) => formData.memberIds.includes(member.id))
+                  .map((member) => (
+                    <SelectItem key={member.id} value={member.id}>
+                      {getDisplayName(member)}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {canEditScopes && managers.length > 0 && (
+            <div className="space-y-2">
+              <Label>Managers limited to this group</Label>
+              <p className="text-xs text-muted-foreground">
+                These managers can only schedule and approve requests for members of
+                their groups. Managers not limited to any group manage everyone.
+              </p>
+              <div className="space-y-2 rounded-md border p-3">
+                {managers.map((manager) => (
+                  <div key={manager.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`scope-${manager.id}`}
+                      checked={formData.managerIds.includes(manager.id)}
+                      onCheckedChange={(checked) =>
+                        handleManagerToggle(manager.id, checked === true)
+                      }
+                    />
+                    <Label htmlFor={`scope-${manager.id}`} className="font-normal">
+                      {getDisplayName(manager)}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={loading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {group ? "Save Changes" : "Add Group"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,527 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { format, parseISO } from "date-fns";
+import { createClient } from "@/lib/supabase/client";
+import type { Database, Json } from "@/types/database.types";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import { DollarSign, Loader2, Percent, Trash2 } from "lucide-react";
+import {
+  getEffectivePayRate,
+  resolveLaborCostSettings,
+  type LaborCostSettings,
+} from "@/lib/labor-cost";
+
+type Position = Database["public"]["Tables"]["positions"]["Row"];
+type EmployeePayRate = Database["public"]["Tables"]["employee_pay_rates"]["Row"];
+
+type TeamMember = {
+  id: string;
+  first_name: string;
+  last_name: string;
+  display_name: string | null;
+  status: string | null;
+  user_positions?: { position_id: string; wage_rate: number | null }[];
+};
+
+interface LaborCostSettingsPanelProps {
+  organizationId: string;
+  organizationSettings: Json | null;
+  positions: Position[];
+  teamMembers: TeamMember[];
+  payRates: EmployeePayRate[];
+}
+
+const formatRate = (rate: number | null | undefined) =>
+  rate != null ? `$${Number(rate).toFixed(2)}` : "-";
+
+const parseRate = (value: string) => (value.trim() === "" ? null : parseFloat(value));
+
+export function LaborCostSettingsPanel({
+  organizationId,
+  organizationSettings,
+  positions,
+  teamMembers,
+  payRates,
+}: LaborCostSettingsPanelProps) {
+  const router = useRouter();
+  const supabase = createClient();
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  const [settings, setSettings] = useState(() => {
+    const resolved = resolveLaborCostSettings(organizationSettings);
+    return {
+      defaultHourlyRate: resolved.defaultHourlyRate?.toString() ?? "",
+      burdenPercent: resolved.burdenPercent.toString(),
+    };
+  });
+  const [savingSettings, setSavingSettings] = useState(false);
+
+  const [positionRates, setPositionRates] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      positions.map((position) => [position.id, position.default_hourly_rate?.toString() ?? ""])
+    )
+  );
+  const [savingPositionId, setSavingPositionId] = useState<string | null>(null);
+
+  const [historyMember, setHistoryMember] = useState<TeamMember | null>(null);
+  const [newRate, setNewRate] = useState({ hourlyRate: "", effectiveFrom: today, note: "" });
+  const [savingRate, setSavingRate] = useState(false);
+  const [deletingRateId, setDeletingRateId] = useState<string | null>(null);
+
+  const getDisplayName = (member: TeamMember) => {
+    if (member.display_name) return member.display_name;
+    return `${member.first_name} ${member.last_name}`;
+  };
+
+  const ratesFor = (userId: string) =>
+    payRates
+      .filter((rate) => rate.user_id === userId)
+      .sort((a, b) => b.effective_from.localeCompare(a.effective_from));
+
+  const handleSaveSettings = async () => {
+    const defaultHourlyRate = parseRate(settings.defaultHourlyRate);
+    const burdenPercent = parseFloat(settings.burdenPercent || "0");
+
+    if ((defaultHourlyRate !== null && (isNaN(defaultHourlyRate) || defaultHourlyRate < 0)) ||
+        isNaN(burdenPercent) || burdenPercent < 0) {
+      toast.error("Rates and burden must be zero or more");
+      return;
+    }
+
+    setSavingSettings(true);
+    try {
+      const laborCost: LaborCostSettings = { defaultHourlyRate, burdenPercent };
+      // Merge with existing settings
+      const updatedSettings = {
+        ...((organizationSettings as Record<string, Json> | null) || {}),
+        laborCost,
+      };
+
+      const { error } = await supabase
+        .from("organizations")
+        .update({ settings: updatedSettings as unknown as Json })
+        .eq("id", organizationId);
+
+      if (error) throw error;
+
+      toast.success("Labor cost settings saved");
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to save labor cost settings");
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  const handleSavePositionRate = async (positionId: string) => {
+    const rate = parseRate(positionRates[positionId] || "");
+    if (rate !== null && (isNaN(rate) || rate < 0)) {
+      toast.error("Rate must be zero or more");
+      return;
+    }
+
+    setSavingPositionId(positionId);
+    try {
+      const { error } = await supabase
+        .from("positions")
+        .update({ default_hourly_rate: rate })
+        .eq("id", positionId);
+
+      if (error) throw error;
+
+      toast.success("Position rate saved");
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to save position rate");
+    } finally {
+      setSavingPositionId(null);
+    }
+  };
+
+  const handleAddRate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!historyMember) return;
+
+    const hourlyRate = parseFloat(newRate.hourlyRate);
+    if (isNaN(hourlyRate) || hourlyRate < 0) {
+      toast.error("Enter an hourly rate");
+      return;
+    }
+
+    setSavingRate(true);
+    try {
+      const response = await fetch("/api/pay-rates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          user_id: historyMember.id,
+          hourly_rate: hourlyRate,
+          effective_from: newRate.effectiveFrom,
+          note: newRate.note.trim() || null,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save pay rate");
+      }
+
+      toast.success("Pay rate saved");
+      setNewRate({ hourlyRate: "", effectiveFrom: today, note: "" });
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Failed to save pay rate");
+    } finally {
+      setSavingRate(false);
+    }
+  };
+
+  const handleDeleteRate = async (rateId: string) => {
+    setDeletingRateId(rateId);
+    try {
+      const response = await fetch(`/api/pay-rates/${rateId}`, { method: "DELETE" });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to delete pay rate");
+      }
+
+      toast.success("Pay rate removed");
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to delete pay rate");
+    } finally {
+      setDeletingRateId(null);
+    }
+  };
+
+  const activeMembers = teamMembers.filter((member) => member.status !== "inactive");
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Default Hourly Rate</CardTitle>
+            <CardDescription>
+              Used for employees with no rate of their own or for their position
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="relative">
+              <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="Not set"
+                className="pl-9"
+                value={settings.defaultHourlyRate}
+                onChange={(e) =>
+                  setSettings((prev) => ({ ...prev, defaultHourlyRate: e.target.value }))
+                }
+              />
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Labor Burden</CardTitle>
+            <CardDescription>
+              Payroll taxes, benefits and overhead added on top of wages in cost figures
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="relative">
+              <Percent className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                type="number"
+                step="0.1"
+                min="0"
+                placeholder="0"
+                className="pl-9"
+                value={settings.burdenPercent}
+                onChange={(e) =>
+                  setSettings((prev) => ({ ...prev, burdenPercent: e.target.value }))
+                }
+              />
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+      <div className="flex justify-end">
+        <Button onClick={handleSaveSettings} disabled={savingSettings}>
+          {savingSettings && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Save Rates
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Position Rates</CardTitle>
+          <CardDescription>
+            Default rate for each position. An employee&apos;s own wage for a position,
+            set when editing them, takes priority unless they have a pay rate below.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {positions.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Position</TableHead>
+                  <TableHead>Employee Wages</TableHead>
+                  <TableHead className="w-[200px]">Default Rate</TableHead>
+                  <TableHead className="w-[80px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {positions.map((position) => {
+                  const wages = teamMembers.filter((member) =>
+                    member.user_positions?.some(
+                      (up) => up.position_id === position.id && up.wage_rate != null
+                    )
+                  ).length;
+                  return (
+                    <TableRow key={position.id}>
+                      <TableCell className="font-medium">{position.name}</TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {wages > 0 ? `${wages} with own wage` : "-"}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          placeholder="Not set"
+                          className="h-8"
+                          value={positionRates[position.id] ?? ""}
+                          onChange={(e) =>
+                            setPositionRates((prev) => ({ ...prev, [position.id]: e.target.value }))
+                          }
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={
+                            savingPositionId === position.id ||
+                            (positionRates[position.id] ?? "") ===
+                              (position.default_hourly_rate?.toString() ?? "")
+                          }
+                          onClick={() => handleSavePositionRate(position.id)}
+                        >
+                          {savingPositionId === position.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            "Save"
+                          )}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground">No positions configured</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Employee Pay Rates</CardTitle>
+          <CardDescription>
+            Each rate applies from its effective date, so raises don&apos;t change the cost
+            of shifts already worked
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Employee</TableHead>
+                <TableHead>Current Rate</TableHead>
+                <TableHead>Since</TableHead>
+                <TableHead>Upcoming</TableHead>
+                <TableHead className="w-[100px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {activeMembers.map((member) => {
+                const history = ratesFor(member.id);
+                const current = getEffectivePayRate(history, today);
+                const upcoming = history.filter((rate) => rate.effective_from > today).slice(-1)[0];
+                return (
+                  <TableRow key={member.id}>
+                    <TableCell className="font-medium">{getDisplayName(member)}</TableCell>
+                    <TableCell>{formatRate(current?.hourly_rate)}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {current ? format(parseISO(current.effective_from), "MMM d, yyyy") : "-"}
+                    </TableCell>
+                    <TableCell>
+                      {upcoming ? (
+                        <Badge variant="outline">
+                          {formatRate(upcoming.hourly_rate)} from{" "}
+                          {format(parseISO(upcoming.effective_from), "MMM d")}
+                        </Badge>
+                      ) : (
+                        <span className="text-muted-foreground">-</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          setHistoryMember(member);
+                          setNewRate({ hourlyRate: "", effectiveFrom: today, note: "" });
+                        }}
+                      >
+                        History
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!historyMember} onOpenChange={(open) => !open && setHistoryMember(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              Pay Rates{historyMember ? ` - ${getDisplayName(historyMember)}` : ""}
+            </DialogTitle>
+            <DialogDescription>
+              Add a rate from a date, or remove one entered by mistake.
+            </DialogDescription>
+          </DialogHeader>
+
+          {historyMember && (
+            <div className="space-y-4">
+              {ratesFor(historyMember.id).length > 0 ? (
+                <div className="border rounded-md divide-y">
+                  {ratesFor(historyMember.id).map((rate) => (
+                    <div key={rate.id} className="flex items-center justify-between p-2">
+                      <div>
+                        <div className="text-sm font-medium">
+                          {formatRate(rate.hourly_rate)} / hour
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          From {format(parseISO(rate.effective_from), "MMM d, yyyy")}
+                          {rate.note && ` - ${rate.note}`}
+                        </div>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        disabled={deletingRateId === rate.id}
+                        onClick={() => handleDeleteRate(rate.id)}
+                      >
+                        {deletingRateId === rate.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Trash2 className="h-4 w-4" />
+                        )}
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  No pay rates yet. Position and default rates apply.
+                </p>
+              )}
+
+              <form onSubmit={handleAddRate} className="space-y-3">
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="pay-rate">Hourly Rate</Label>
+                    <Input
+                      id="pay-rate"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder="0.00"
+                      value={newRate.hourlyRate}
+                      onChange={(e) =>
+                        setNewRate((prev) => ({ ...prev, hourlyRate: e.target.value }))
+                      }
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="pay-rate-from">Effective From</Label>
+                    <Input
+                      id="pay-rate-from"
+                      type="date"
+                      value={newRate.effectiveFrom}
+                      onChange={(e) =>
+                        setNewRate((prev) => ({ ...prev, effectiveFrom: e.target.value }))
+                      }
+                      required
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="pay-rate-note">Note (optional)</Label>
+                  <Input
+                    id="pay-rate-note"
+                    placeholder="e.g., Annual raise"
+                    value={newRate.note}
+                    onChange={(e) => setNewRate((prev) => ({ ...prev, note: e.target.value }))}
+                  />
+                </div>
+                <div className="flex justify-end">
+                  <Button type="submit" disabled={savingRate}>
+                    {savingRate && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Add Rate
+                  </Button>
+                </div>
+              </form>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
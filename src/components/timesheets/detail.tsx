@@ -494,18 +494,23 @@ export function TimesheetDetail({
 
   const exportToPDF = async () => {
     try {
-      // Open PDF in new window for printing/saving
-      const pdfWindow = window.open(
-        `/api/timesheets/${timesheet.id}/export?format=pdf`,
-        "_blank"
-      );
-      
-      if (!pdfWindow) {
-        toast.error("Please allow popups to export PDF");
-        return;
+      const response = await fetch(`/api/timesheets/${timesheet.id}/export?format=pdf`);
+
+      if (!response.ok) {
+        throw new Error("Export failed");
       }
 
-      toast.success("Opening PDF...");
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `timesheet-${format(parseISO(timesheet.period_start), "yyyy-MM-dd")}-${format(parseISO(timesheet.period_end), "yyyy-MM-dd")}.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      toast.success("Timesheet exported to PDF");
     } catch (error) {
       console.error("Error exporting PDF:", error);
       toast.error("Failed to export PDF. Please try again.");
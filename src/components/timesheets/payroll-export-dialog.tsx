@@ -0,0 +1,209 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { payrollExportProfiles } from "@/lib/payroll-export";
+
+interface PayrollExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  defaultRange: { start: Date; end: Date } | null;
+}
+
+export function PayrollExportDialog({
+  open,
+  onOpenChange,
+  defaultRange,
+}: PayrollExportDialogProps) {
+  const [loading, setLoading] = useState(false);
+  const [formData, setFormData] = useState({
+    profile: payrollExportProfiles[0].id,
+    periodStart: "",
+    periodEnd: "",
+    companyCode: "",
+  });
+
+  // Start from the range currently shown on the page
+  useEffect(() => {
+    if (open && defaultRange) {
+      setFormData((prev) => ({
+        ...prev,
+        periodStart: format(defaultRange.start, "yyyy-MM-dd"),
+        periodEnd: format(defaultRange.end, "yyyy-MM-dd"),
+      }));
+    }
+  }, [open, defaultRange]);
+
+  const selectedProfile = payrollExportProfiles.find((p) => p.id === formData.profile);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.periodStart || !formData.periodEnd) {
+      toast.error("Please select a pay period");
+      return;
+    }
+    if (formData.periodStart > formData.periodEnd) {
+      toast.error("Period end must be on or after period start");
+      return;
+    }
+
+    const params = new URLSearchParams({
+      profile: formData.profile,
+      period_start: formData.periodStart,
+      period_end: formData.periodEnd,
+    });
+    if (formData.companyCode.trim()) {
+      params.set("company_code", formData.companyCode.trim());
+    }
+
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/timesheets/export/payroll?${params.toString()}`);
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        throw new Error(result?.error || "Export failed");
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `payroll_${formData.profile}_${formData.periodStart}_${formData.periodEnd}.${selectedProfile?.fileExtension || "csv"}`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+
+      toast.success("Payroll file exported successfully");
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Export error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to export payroll file");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Payroll Export</DialogTitle>
+          <DialogDescription>
+            Download approved hours for every employee in a pay period
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {/* Provider profile */}
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select
+              value={formData.profile}
+              onValueChange={(value) =>
+                setFormData((prev) => ({ ...prev, profile: value }))
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {payrollExportProfiles.map((profile) => (
+                  <SelectItem key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selectedProfile && (
+              <p className="text-sm text-muted-foreground">{selectedProfile.description}</p>
+            )}
+          </div>
+
+          {/* Pay period */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="payrollPeriodStart">Period Start</Label>
+              <Input
+                id="payrollPeriodStart"
+                type="date"
+                value={formData.periodStart}
+                onChange={(e) =>
+                  setFormData((prev) => ({ ...prev, periodStart: e.target.value }))
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payrollPeriodEnd">Period End</Label>
+              <Input
+                id="payrollPeriodEnd"
+                type="date"
+                value={formData.periodEnd}
+                onChange={(e) =>
+                  setFormData((prev) => ({ ...prev, periodEnd: e.target.value }))
+                }
+              />
+            </div>
+          </div>
+
+          {/* ADP needs the company code on every row */}
+          {formData.profile === "adp" && (
+            <div className="space-y-2">
+              <Label htmlFor="companyCode">Company Code</Label>
+              <Input
+                id="companyCode"
+                value={formData.companyCode}
+                onChange={(e) =>
+                  setFormData((prev) => ({ ...prev, companyCode: e.target.value }))
+                }
+                placeholder="e.g. ABC"
+              />
+            </div>
+          )}
+
+          <p className="text-sm text-muted-foreground bg-muted p-3 rounded-md">
+            Only approved timesheets that fall entirely within the period are included.
+            Employees without an employee code will have a blank ID column.
+          </p>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={loading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Download
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -12,7 +12,7 @@ import {
   endOfYear,
   format,
 } from "date-fns";
-import { Download } from "lucide-react";
+import { Download, FileArchive, FileSpreadsheet, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { createClient } from "@/lib/supabase/client";
@@ -22,6 +22,7 @@ import { PeriodFilter } from "./period-filter";
 import { DateRangePicker } from "./date-range-picker";
 import { TimesheetFilters } from "./timesheet-filters";
 import { EditEntryDialog, type EditEntryData } from "./edit-entry-dialog";
+import { PayrollExportDialog } from "./payroll-export-dialog";
 import { useTimesheetAccess, type TimesheetAccess } from "@/hooks/use-timesheet-access";
 import type { Database } from "@/types/database.types";
 import type {
@@ -107,6 +108,10 @@ export function TimesheetsContainer({
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [selectedEntry, setSelectedEntry] = useState<TimesheetTableRow | null>(null);
 
+  // Bulk PDF export
+  const [exportingPDFs, setExportingPDFs] = useState(false);
+  const [payrollDialogOpen, setPayrollDialogOpen] = useState(false);
+
   /**
    * Fetch timesheet data
    */
@@ -407,6 +412,50 @@ export function TimesheetsContainer({
     }
   };
 
+  /**
+   * Handle bulk PDF export of approved timesheets (ZIP)
+   */
+  const handleExportApprovedPDFs = async () => {
+    if (!dateRange) {
+      toast.error("Please wait for the page to load");
+      return;
+    }
+
+    const startDate = format(dateRange.start, "yyyy-MM-dd");
+    const endDate = format(dateRange.end, "yyyy-MM-dd");
+    const params = new URLSearchParams({
+      period_start: startDate,
+      period_end: endDate,
+    });
+
+    setExportingPDFs(true);
+    try {
+      const response = await fetch(`/api/timesheets/export/pdf?${params.toString()}`);
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        throw new Error(result?.error || "Export failed");
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `timesheets_${startDate}_${endDate}.zip`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+
+      toast.success("Timesheet PDFs exported successfully");
+    } catch (error) {
+      console.error("Export error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to export PDFs");
+    } finally {
+      setExportingPDFs(false);
+    }
+  };
+
   // Page title based on role
   const pageTitle = access.canViewAllTimesheets ? "Timesheets" : "My Timesheets";
 
@@ -417,10 +466,37 @@ export function TimesheetsContainer({
         <CardHeader className="pb-3">
           <div className="flex items-center justify-between">
             <CardTitle className="text-base font-medium">Filters</CardTitle>
-            <Button onClick={handleExportCSV} variant="outline" size="sm">
-              <Download className="h-4 w-4 mr-2" />
-              Export CSV
-            </Button>
+            <div className="flex items-center gap-2">
+              {access.canViewAllTimesheets && (
+                <Button
+                  onClick={() => setPayrollDialogOpen(true)}
+                  variant="outline"
+                  size="sm"
+                >
+                  <FileSpreadsheet className="h-4 w-4 mr-2" />
+                  Payroll Export
+                </Button>
+              )}
+              {access.canViewAllTimesheets && (
+                <Button
+                  onClick={handleExportApprovedPDFs}
+                  variant="outline"
+                  size="sm"
+                  disabled={exportingPDFs}
+                >
+                  {exportingPDFs ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <FileArchive className="h-4 w-4 mr-2" />
+                  )}
+                  Approved PDFs
+                </Button>
+              )}
+              <Button onClick={handleExportCSV} variant="outline" size="sm">
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </Button>
+            </div>
           </div>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -483,6 +559,15 @@ export function TimesheetsContainer({
         access={access}
         onSave={handleSaveEntry}
       />
+
+      {/* Payroll Export Dialog */}
+      {access.canViewAllTimesheets && (
+        <PayrollExportDialog
+          open={payrollDialogOpen}
+          onOpenChange={setPayrollDialogOpen}
+          defaultRange={dateRange}
+        />
+      )}
     </div>
   );
 }
@@ -515,7 +600,7 @@ function processTimeEntries(
   statusFilter: TimesheetStatus | "all",
   shifts: Array<{
     id: string;
-    user_id: string;
+    user_id: string | null;
     start_time: string;
     end_time: string;
     break_minutes: number | null;
@@ -670,6 +755,11 @@ function processTimeEntries(
 
   // Add scheduled shifts that don't have time entries
   for (const shift of shifts) {
+    // Open shifts have nobody to track time against
+    if (!shift.user_id) {
+      continue;
+    }
+
     const shiftDate = shift.start_time.split("T")[0];
     const key = `${shift.user_id}_${shiftDate}`;
 
@@ -0,0 +1,576 @@
+import { createAttendanceNotification } from "@/lib/notifications";
+import { resolveTimeZone } from "@/lib/timezone";
+import type { Database, Json } from "@/types/database.types";
+
+type Shift = Database["public"]["Tables"]["shifts"]["Row"];
+type TimeEntry = Database["public"]["Tables"]["time_entries"]["Row"];
+type AttendanceException = Database["public"]["Tables"]["attendance_exceptions"]["Row"];
+
+export type AttendanceExceptionType =
+  | "late_clock_in"
+  | "early_clock_out"
+  | "missed_break"
+  | "no_show"
+  | "unscheduled_work";
+
+export type AttendanceExceptionStatus = "open" | "resolved" | "excused";
+
+export const attendanceExceptionLabels: Record<AttendanceExceptionType, string> = {
+  late_clock_in: "Late Clock-In",
+  early_clock_out: "Early Clock-Out",
+  missed_break: "Missed Break",
+  no_show: "No-Show",
+  unscheduled_work: "Unscheduled Work",
+};
+
+/**
+ * Grace periods, in minutes, before a difference from the schedule is
+ * flagged
+ */
+export interface AttendanceSettings {
+  // Clocking in up to this long after the shift starts is on time
+  lateGraceMinutes: number;
+  // Clocking out up to this long before the shift ends is on time
+  earlyClockOutGraceMinutes: number;
+  // A break this much shorter than scheduled still counts as taken
+  breakGraceMinutes: number;
+  // A shift with no clock-in this long after it starts is a no-show
+  noShowAfterMinutes: number;
+  // How early a clock-in can be and still count toward the next shift
+  earlyClockInMinutes: number;
+}
+
+export const defaultAttendanceSettings: AttendanceSettings = {
+  lateGraceMinutes: 5,
+  earlyClockOutGraceMinutes: 5,
+  breakGraceMinutes: 5,
+  noShowAfterMinutes: 30,
+  earlyClockInMinutes: 60,
+};
+
+/**
+ * Resolve attendance settings from an organization's settings JSON
+ */
+export function resolveAttendanceSettings(settings: Json | null | undefined): AttendanceSettings {
+  const saved = (settings as any)?.attendance;
+  return { ...defaultAttendanceSettings, ...saved };
+}
+
+export type AttendanceShift = Pick<
+  Shift,
+  "id" | "user_id" | "start_time" | "end_time" | "break_minutes" | "status"
+>;
+
+export type AttendanceEntry = Pick<TimeEntry, "id" | "user_id" | "entry_type" | "timestamp" | "shift_id">;
+
+/**
+ * A clock-in and everything punched until the matching clock-out (or until
+ * now, while still clocked in)
+ */
+export interface AttendanceSession {
+  userId: string;
+  clockIn: AttendanceEntry;
+  clockOut: AttendanceEntry | null;
+  entries: AttendanceEntry[];
+  breakMinutes: number;
+}
+
+export interface AttendanceExceptionDraft {
+  type: AttendanceExceptionType;
+  user_id: string;
+  shift_id: string | null;
+  time_entry_id: string | null;
+  occurred_at: string;
+  minutes: number | null;
+}
+
+const minutesBetween = (start: Date | string, end: Date | string) =>
+  Math.round((new Date(end).getTime() - new Date(start).getTime()) / 60000);
+
+/**
+ * Group punches into work sessions per employee. Breaks still open at
+ * clock-out end with the session.
+ */
+export function buildAttendanceSessions(entries: AttendanceEntry[]): AttendanceSession[] {
+  const sorted = [...entries].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+
+  const sessions: AttendanceSession[] = [];
+  const open = new Map<string, { session: AttendanceSession; breakStart: string | null }>();
+
+  for (const entry of sorted) {
+    const current = open.get(entry.user_id);
+
+    switch (entry.entry_type) {
+      case "clock_in": {
+        const session: AttendanceSession = {
+          userId: entry.user_id,
+          clockIn: entry,
+          clockOut: null,
+          entries: [entry],
+          breakMinutes: 0,
+        };
+        sessions.push(session);
+        open.set(entry.user_id, { session, breakStart: null });
+        break;
+      }
+      case "break_start":
+        if (!current) break;
+        current.session.entries.push(entry);
+        current.breakStart = entry.timestamp;
+        break;
+      case "break_end":
+        if (!current) break;
+        current.session.entries.push(entry);
+        if (current.breakStart) {
+          current.session.breakMinutes += minutesBetween(current.breakStart, entry.timestamp);
+          current.breakStart = null;
+        }
+        break;
+      case "clock_out":
+        if (!current) break;
+        current.session.entries.push(entry);
+        if (current.breakStart) {
+          current.session.breakMinutes += minutesBetween(current.breakStart, entry.timestamp);
+        }
+        current.session.clockOut = entry;
+        open.delete(entry.user_id);
+        break;
+    }
+  }
+
+  return sessions;
+}
+
+const isScheduled = (shift: AttendanceShift) => !!shift.user_id && shift.status !== "cancelled";
+
+/**
+ * The shift a clock-in counts toward: the employee's shift that has not
+ * ended and starts no more than earlyClockInMinutes after the clock-in,
+ * closest to its start time
+ */
+export function findShiftForClockIn<T extends AttendanceShift>(
+  shifts: T[],
+  userId: string,
+  clockIn: Date,
+  settings: AttendanceSettings,
+  exclude: Set<string> = new Set()
+): T | null {
+  let best: T | null = null;
+  let bestDistance = Infinity;
+
+  for (const shift of shifts) {
+    if (shift.user_id !== userId || !isScheduled(shift) || exclude.has(shift.id)) continue;
+
+    const start = new Date(shift.start_time);
+    const end = new Date(shift.end_time);
+    if (clockIn < new Date(start.getTime() - settings.earlyClockInMinutes * 60000)) continue;
+    if (clockIn >= end) continue;
+
+    const distance = Math.abs(clockIn.getTime() - start.getTime());
+    if (distance < bestDistance) {
+      best = shift;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Compare punches with published shifts.
+ *
+ * Work sessions are matched to shifts in clock-in order, each shift to the
+ * first session that can count toward it. Later sessions clocked in during
+ * the same shift continue it. Exceptions are only reported for
+ * shifts starting within `range` and for unmatched sessions clocked in
+ * within it; `links` gives the shift every punch in those sessions belongs
+ * to, or null for unscheduled work.
+ */
+export function detectAttendanceExceptions({
+  shifts,
+  entries,
+  settings,
+  range,
+  now = new Date(),
+}: {
+  shifts: AttendanceShift[];
+  entries: AttendanceEntry[];
+  settings: AttendanceSettings;
+  range: { start: Date; end: Date };
+  now?: Date;
+}): {
+  exceptions: AttendanceExceptionDraft[];
+  links: { entryId: string; shiftId: string | null }[];
+} {
+  const inRange = (value: string) => {
+    const date = new Date(value);
+    return date >= range.start && date <= range.end;
+  };
+
+  const sessions = buildAttendanceSessions(entries);
+  const matched = new Map<string, AttendanceSession>();
+  const exceptions: AttendanceExceptionDraft[] = [];
+  const links: { entryId: string; shiftId: string | null }[] = [];
+
+  for (const session of sessions) {
+    const shift = findShiftForClockIn(
+      shifts,
+      session.userId,
+      new Date(session.clockIn.timestamp),
+      settings,
+      new Set(matched.keys())
+    );
+
+    if (shift) {
+      matched.set(shift.id, session);
+      if (!inRange(shift.start_time)) continue;
+      session.entries.forEach((entry) => links.push({ entryId: entry.id, shiftId: shift.id }));
+      continue;
+    }
+
+    // Clocking back in during a shift already worked (e.g. after clocking out
+    // for lunch) continues it; the time away counts as break
+    const resumed = findShiftForClockIn(
+      shifts.filter((candidate) => matched.has(candidate.id)),
+      session.userId,
+      new Date(session.clockIn.timestamp),
+      settings
+    );
+    const previous = resumed ? matched.get(resumed.id)! : null;
+    if (resumed && previous?.clockOut) {
+      matched.set(resumed.id, {
+        ...previous,
+        clockOut: session.clockOut,
+        entries: [...previous.entries, ...session.entries],
+        breakMinutes:
+          previous.breakMinutes +
+          minutesBetween(previous.clockOut.timestamp, session.clockIn.timestamp) +
+          session.breakMinutes,
+      });
+      if (!inRange(resumed.start_time)) continue;
+      session.entries.forEach((entry) => links.push({ entryId: entry.id, shiftId: resumed.id }));
+      continue;
+    }
+
+    if (!inRange(session.clockIn.timestamp)) continue;
+    session.entries.forEach((entry) => links.push({ entryId: entry.id, shiftId: null }));
+    exceptions.push({
+      type: "unscheduled_work",
+      user_id: session.userId,
+      shift_id: null,
+      time_entry_id: session.clockIn.id,
+      occurred_at: session.clockIn.timestamp,
+      minutes: session.clockOut
+        ? minutesBetween(session.clockIn.timestamp, session.clockOut.timestamp) - session.breakMinutes
+        : null,
+    });
+  }
+
+  for (const shift of shifts) {
+    if (!isScheduled(shift) || !inRange(shift.start_time)) continue;
+
+    const draft = (
+      type: AttendanceExceptionType,
+      minutes: number | null,
+      timeEntryId: string | null
+    ): AttendanceExceptionDraft => ({
+      type,
+      user_id: shift.user_id!,
+      shift_id: shift.id,
+      time_entry_id: timeEntryId,
+      occurred_at: shift.start_time,
+      minutes,
+    });
+
+    const session = matched.get(shift.id);
+    if (!session) {
+      if (minutesBetween(shift.start_time, now) >= settings.noShowAfterMinutes) {
+        exceptions.push(draft("no_show", null, null));
+      }
+      continue;
+    }
+
+    const late = minutesBetween(shift.start_time, session.clockIn.timestamp);
+    if (late > settings.lateGraceMinutes) {
+      exceptions.push(draft("late_clock_in", late, session.clockIn.id));
+    }
+
+    if (!session.clockOut) continue;
+
+    const early = minutesBetween(session.clockOut.timestamp, shift.end_time);
+    if (early > settings.earlyClockOutGraceMinutes) {
+      exceptions.push(draft("early_clock_out", early, session.clockOut.id));
+    }
+
+    const missedBreak = (shift.break_minutes || 0) - session.breakMinutes;
+    if (shift.break_minutes && missedBreak > settings.breakGraceMinutes) {
+      exceptions.push(draft("missed_break", missedBreak, null));
+    }
+  }
+
+  return { exceptions, links };
+}
+
+/**
+ * Identifies an exception across syncs: one of each type per shift, one per
+ * clock-in for unscheduled work
+ */
+export function getAttendanceExceptionKey(
+  exception: Pick<AttendanceException, "type" | "shift_id" | "time_entry_id">
+): string {
+  return exception.type === "unscheduled_work"
+    ? `${exception.type}:${exception.time_entry_id}`
+    : `${exception.type}:${exception.shift_id}`;
+}
+
+/**
+ * Per-employee exception counts, e.g. for reports
+ */
+export function summarizeAttendanceExceptions(
+  exceptions: Pick<AttendanceException, "user_id" | "type" | "status" | "minutes">[]
+): Map<string, { counts: Record<AttendanceExceptionType, number>; lateMinutes: number; open: number }> {
+  const summary = new Map<
+    string,
+    { counts: Record<AttendanceExceptionType, number>; lateMinutes: number; open: number }
+  >();
+
+  for (const exception of exceptions) {
+    if (!summary.has(exception.user_id)) {
+      summary.set(exception.user_id, {
+        counts: {
+          late_clock_in: 0,
+          early_clock_out: 0,
+          missed_break: 0,
+          no_show: 0,
+          unscheduled_work: 0,
+        },
+        lateMinutes: 0,
+        open: 0,
+      });
+    }
+
+    const employee = summary.get(exception.user_id)!;
+    const type = exception.type as AttendanceExceptionType;
+    if (!(type in employee.counts)) continue;
+
+    employee.counts[type] += 1;
+    if (type === "late_clock_in") employee.lateMinutes += exception.minutes || 0;
+    if (exception.status === "open") employee.open += 1;
+  }
+
+  return summary;
+}
+
+export interface AttendanceSyncResult {
+  created: AttendanceException[];
+  updated: number;
+  removed: number;
+  linked: number;
+}
+
+// Longest a shift or work session is expected to run; punches and shifts
+// this far outside the range are loaded so matches at its edges are right
+const MAX_SESSION_HOURS = 24;
+
+/**
+ * Match an organization's punches to its published shifts and bring the
+ * stored exceptions up to date for shifts (and unscheduled clock-ins)
+ * starting between `start` and `end`. New exceptions are inserted, open
+ * ones that no longer apply (e.g. after a punch was corrected) are removed,
+ * and resolved or excused ones are left alone. Punches are linked to their
+ * shift through time_entries.shift_id.
+ *
+ * Needs a client that can write exceptions, i.e. the admin client.
+ */
+export async function syncAttendance(
+  supabase: any,
+  organization: { id: string; settings: Json | null },
+  {
+    start,
+    end,
+    userId,
+    now = new Date(),
+  }: { start: Date; end: Date; userId?: string; now?: Date }
+): Promise<AttendanceSyncResult> {
+  const settings = resolveAttendanceSettings(organization.settings);
+  const margin = MAX_SESSION_HOURS * 60 * 60000;
+  const loadStart = new Date(start.getTime() - margin).toISOString();
+  const loadEnd = new Date(end.getTime() + margin).toISOString();
+
+  let shiftsQuery = supabase
+    .from("shifts")
+    .select("id, user_id, start_time, end_time, break_minutes, status")
+    .eq("organization_id", organization.id)
+    .eq("is_published", true)
+    .not("user_id", "is", null)
+    .gte("start_time", loadStart)
+    .lte("start_time", loadEnd);
+
+  let entriesQuery = supabase
+    .from("time_entries")
+    .select("id, user_id, entry_type, timestamp, shift_id")
+    .eq("organization_id", organization.id)
+    .gte("timestamp", loadStart)
+    .lte("timestamp", loadEnd)
+    .order("timestamp", { ascending: true });
+
+  let existingQuery = supabase
+    .from("attendance_exceptions")
+    .select("*")
+    .eq("organization_id", organization.id)
+    .gte("occurred_at", start.toISOString())
+    .lte("occurred_at", end.toISOString());
+
+  if (userId) {
+    shiftsQuery = shiftsQuery.eq("user_id", userId);
+    entriesQuery = entriesQuery.eq("user_id", userId);
+    existingQuery = existingQuery.eq("user_id", userId);
+  }
+
+  const [shiftsResult, entriesResult, existingResult] = await Promise.all([
+    shiftsQuery,
+    entriesQuery,
+    existingQuery,
+  ]);
+
+  const fetchError = shiftsResult.error || entriesResult.error || existingResult.error;
+  if (fetchError) {
+    throw new Error(`Failed to load attendance: ${fetchError.message}`);
+  }
+
+  const entries: AttendanceEntry[] = entriesResult.data || [];
+  const { exceptions, links } = detectAttendanceExceptions({
+    shifts: shiftsResult.data || [],
+    entries,
+    settings,
+    range: { start, end },
+    now,
+  });
+
+  // Link punches to their shifts
+  const currentShift = new Map(entries.map((entry) => [entry.id, entry.shift_id]));
+  const relink = new Map<string | null, string[]>();
+  for (const link of links) {
+    if (currentShift.get(link.entryId) === link.shiftId) continue;
+    relink.set(link.shiftId, [...(relink.get(link.shiftId) || []), link.entryId]);
+  }
+  for (const [shiftId, entryIds] of relink) {
+    const { error } = await supabase
+      .from("time_entries")
+      .update({ shift_id: shiftId })
+      .in("id", entryIds);
+    if (error) {
+      throw new Error(`Failed to link time entries: ${error.message}`);
+    }
+  }
+
+  const existing = new Map<string, AttendanceException>(
+    (existingResult.data || []).map((row: AttendanceException) => [
+      getAttendanceExceptionKey(row),
+      row,
+    ])
+  );
+
+  const toInsert: AttendanceExceptionDraft[] = [];
+  let updated = 0;
+  for (const exception of exceptions) {
+    const key = getAttendanceExceptionKey(exception);
+    const row = existing.get(key);
+    existing.delete(key);
+
+    if (!row) {
+      toInsert.push(exception);
+      continue;
+    }
+    if (row.status !== "open") continue;
+    if (row.minutes === exception.minutes && row.time_entry_id === exception.time_entry_id) continue;
+
+    const { error } = await supabase
+      .from("attendance_exceptions")
+      .update({ minutes: exception.minutes, time_entry_id: exception.time_entry_id })
+      .eq("id", row.id);
+    if (error) {
+      throw new Error(`Failed to update attendance exception: ${error.message}`);
+    }
+    updated++;
+  }
+
+  // Whatever is left was not detected this time
+  const staleIds = Array.from(existing.values())
+    .filter((row) => row.status === "open")
+    .map((row) => row.id);
+  if (staleIds.length > 0) {
+    const { error } = await supabase.from("attendance_exceptions").delete().in("id", staleIds);
+    if (error) {
+      throw new Error(`Failed to remove attendance exceptions: ${error.message}`);
+    }
+  }
+
+  let created: AttendanceException[] = [];
+  if (toInsert.length > 0) {
+    const { data, error } = await supabase
+      .from("attendance_exceptions")
+      .insert(toInsert.map((exception) => ({ ...exception, organization_id: organization.id })))
+      .select();
+    if (error) {
+      throw new Error(`Failed to create attendance exceptions: ${error.message}`);
+    }
+    created = data || [];
+  }
+
+  return {
+    created,
+    updated,
+    removed: staleIds.length,
+    linked: Array.from(relink.values()).reduce((sum, ids) => sum + ids.length, 0),
+  };
+}
+
+/**
+ * Alert the organization's managers to new no-shows
+ */
+export async function notifyNoShows(
+  supabase: any,
+  organization: { id: string; timezone: string | null },
+  exceptions: AttendanceException[]
+): Promise<void> {
+  const noShows = exceptions.filter((exception) => exception.type === "no_show");
+  if (noShows.length === 0) return;
+
+  const [managersResult, employeesResult] = await Promise.all([
+    supabase
+      .from("profiles")
+      .select("id")
+      .eq("organization_id", organization.id)
+      .eq("status", "active")
+      .in("role", ["admin", "owner", "manager"]),
+    supabase
+      .from("profiles")
+      .select("id, first_name, last_name, display_name")
+      .in("id", Array.from(new Set(noShows.map((exception) => exception.user_id)))),
+  ]);
+
+  const names = new Map<string, string>(
+    (employeesResult.data || []).map(
+      (employee: { id: string; first_name: string; last_name: string; display_name: string | null }) => [
+        employee.id,
+        employee.display_name || `${employee.first_name} ${employee.last_name}`,
+      ]
+    )
+  );
+
+  for (const exception of noShows) {
+    for (const manager of managersResult.data || []) {
+      await createAttendanceNotification(supabase, {
+        userId: manager.id,
+        organizationId: organization.id,
+        exceptionId: exception.id,
+        employeeName: names.get(exception.user_id) || "An employee",
+        shiftStart: exception.occurred_at,
+        timeZone: resolveTimeZone(organization.timezone),
+      });
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import type { Database, Json } from "@/types/database.types";
+
+type AuditLogInsert = Database["public"]["Tables"]["audit_logs"]["Insert"];
+
+/**
+ * Record an action in the organization's audit log, with the caller's IP
+ * address and user agent when a request is given. Row changes are already
+ * logged by the audit triggers; entries written here say who did what and
+ * through which route, e.g. a bulk publish.
+ */
+export async function recordAuditLog(
+  supabase: any,
+  entry: {
+    organizationId: string;
+    userId: string;
+    action: string;
+    entityType: string;
+    entityId?: string | null;
+    oldValues?: Json | null;
+    newValues?: Json | null;
+    metadata?: Record<string, Json | undefined>;
+  },
+  request?: Request
+): Promise<void> {
+  const log: Omit<AuditLogInsert, "id"> = {
+    organization_id: entry.organizationId,
+    user_id: entry.userId,
+    action: entry.action,
+    entity_type: entry.entityType,
+    entity_id: entry.entityId ?? null,
+    old_values: entry.oldValues ?? null,
+    new_values: entry.newValues ?? null,
+    metadata: (entry.metadata ?? null) as Json,
+    ip_address: request?.headers.get("x-forwarded-for")?.split(",")[0].trim() || null,
+    user_agent: request?.headers.get("user-agent") || null,
+    created_at: new Date().toISOString(),
+  };
+
+  try {
+    const { error } = await supabase.from("audit_logs").insert(log);
+    if (error) {
+      console.error("Error recording audit log:", error);
+      // Don't throw - the change itself has already been made
+    }
+  } catch (error) {
+    console.error("Error recording audit log:", error);
+  }
+}
@@ -0,0 +1,402 @@
+import { addDays, format, parseISO, subDays } from "date-fns";
+import { buildMemberAvailability, type UnavailabilityEntry } from "@/lib/availability";
+import { isEligibleForOpenShift, type OpenShiftEligibilityMember } from "@/lib/open-shifts";
+import {
+  hasValidationIssues,
+  resolveScheduleWeekStart,
+  resolveShiftValidationRules,
+  validateShifts,
+  type ShiftValidationOptions,
+  type ShiftValidationRules,
+  type ValidationPTORequest,
+  type ValidationShift,
+} from "@/lib/shift-validation";
+import {
+  dateTimeInTimeZone,
+  nextDateKey,
+  resolveTimeZone,
+  startOfDayInTimeZone,
+} from "@/lib/timezone";
+import type { Database, Json } from "@/types/database.types";
+
+type Organization = Database["public"]["Tables"]["organizations"]["Row"];
+
+export type StaffingRequirement = Database["public"]["Tables"]["staffing_requirements"]["Row"];
+
+/**
+ * One seat to fill: a single employee for one requirement on one day
+ */
+export interface StaffingSlot {
+  key: string;
+  requirementId: string;
+  date: string; // yyyy-MM-dd
+  location_id: string;
+  position_id: string;
+  start_time: string;
+  end_time: string;
+  break_minutes: number;
+}
+
+export interface AutoScheduleEmployee extends OpenShiftEligibilityMember {
+  first_name: string;
+  last_name: string;
+  weekly_availability?: Json | null;
+  preferred_max_hours_per_week?: number | null;
+}
+
+export interface AutoScheduleInput {
+  slots: StaffingSlot[];
+  employees: AutoScheduleEmployee[];
+  existingShifts: (ValidationShift & { location_id?: string | null })[];
+  ptoRequests: ValidationPTORequest[];
+  unavailability?: UnavailabilityEntry[];
+  // Hours already scheduled inside this window count toward fairness
+  period: { from: string; to: string };
+  rules: ShiftValidationRules;
+  options?: ShiftValidationOptions;
+}
+
+export interface AutoScheduleAssignment {
+  slot: StaffingSlot;
+  userId: string;
+}
+
+export interface AutoScheduleResult {
+  assignments: AutoScheduleAssignment[];
+  unfilled: StaffingSlot[];
+  covered: StaffingSlot[];
+}
+
+export interface AutoScheduleSummary {
+  period: { start: string; end: string };
+  requested: number;
+  covered: number;
+  assigned: number;
+  unfilled: number;
+  openShiftsCreated: number;
+  assignments: {
+    user_id: string;
+    name: string;
+    date: string;
+    start_time: string;
+    end_time: string;
+    location_id: string;
+    position_id: string;
+  }[];
+}
+
+const toHours = (shift: { start_time: string; end_time: string; break_minutes?: number | null }) =>
+  Math.max(
+    0,
+    (parseISO(shift.end_time).getTime() - parseISO(shift.start_time).getTime()) / 60000 -
+      (shift.break_minutes || 0)
+  ) / 60;
+
+/**
+ * Expand requirements into individual slots for each date in the period.
+ * Blocks that end at or before they start run past midnight.
+ */
+export function buildStaffingSlots(
+  requirements: StaffingRequirement[],
+  dateKeys: string[],
+  getTimeZone: (locationId: string) => string
+): StaffingSlot[] {
+  const slots: StaffingSlot[] = [];
+
+  for (const date of dateKeys) {
+    const dayOfWeek = parseISO(date).getDay();
+
+    for (const requirement of requirements) {
+      if (requirement.is_active === false) continue;
+      if (!requirement.days_of_week.includes(dayOfWeek)) continue;
+
+      const timeZone = getTimeZone(requirement.location_id);
+      const startTime = requirement.start_time.slice(0, 5);
+      const endTime = requirement.end_time.slice(0, 5);
+      const endDate = endTime <= startTime ? nextDateKey(date) : date;
+      const start = dateTimeInTimeZone(date, startTime, timeZone).toISOString();
+      const end = dateTimeInTimeZone(endDate, endTime, timeZone).toISOString();
+
+      for (let seat = 0; seat < requirement.headcount; seat++) {
+        slots.push({
+          key: `${requirement.id}:${date}:${seat}`,
+          requirementId: requirement.id,
+          date,
+          location_id: requirement.location_id,
+          position_id: requirement.position_id,
+          start_time: start,
+          end_time: end,
+          break_minutes: requirement.break_minutes,
+        });
+      }
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Propose who should work each slot. Slots already covered by a shift for the
+ * same location and position are skipped. The remaining slots are filled
+ * greedily, hardest first (fewest qualified employees), giving each one to
+ * the qualified employee with the fewest hours so far who passes every
+ * scheduling rule, availability and preferred hours without warnings.
+ */
+export function proposeSchedule(input: AutoScheduleInput): AutoScheduleResult {
+  const { slots, employees, rules, options } = input;
+  const availability = buildMemberAvailability(employees);
+
+  // Existing shifts (assigned or open) that already staff a slot
+  const usedForCoverage = new Set<number>();
+  const covered: StaffingSlot[] = [];
+  const open: StaffingSlot[] = [];
+  for (const slot of slots) {
+    const index = input.existingShifts.findIndex(
+      (shift, i) =>
+        !usedForCoverage.has(i) &&
+        shift.location_id === slot.location_id &&
+        shift.position_id === slot.position_id &&
+        parseISO(shift.start_time) <= parseISO(slot.start_time) &&
+        parseISO(shift.end_time) >= parseISO(slot.end_time)
+    );
+    if (index === -1) {
+      open.push(slot);
+    } else {
+      usedForCoverage.add(index);
+      covered.push(slot);
+    }
+  }
+
+  const eligibleBySlot = new Map(
+    open.map((slot) => [slot.key, employees.filter((employee) => isEligibleForOpenShift(slot, employee))])
+  );
+  const ordered = [...open].sort(
+    (a, b) =>
+      eligibleBySlot.get(a.key)!.length - eligibleBySlot.get(b.key)!.length ||
+      a.start_time.localeCompare(b.start_time) ||
+      a.key.localeCompare(b.key)
+  );
+
+  // Running schedule and hours per employee
+  const periodFrom = parseISO(input.period.from);
+  const periodTo = parseISO(input.period.to);
+  const scheduleByUser = new Map<string, ValidationShift[]>();
+  const hoursByUser = new Map<string, number>();
+  for (const shift of input.existingShifts) {
+    if (!shift.user_id) continue;
+    scheduleByUser.set(shift.user_id, [...(scheduleByUser.get(shift.user_id) || []), shift]);
+    const start = parseISO(shift.start_time);
+    if (start >= periodFrom && start <= periodTo) {
+      hoursByUser.set(shift.user_id, (hoursByUser.get(shift.user_id) || 0) + toHours(shift));
+    }
+  }
+
+  const canWork = (employee: AutoScheduleEmployee, slot: StaffingSlot) => {
+    const result = validateShifts(
+      [{ ...slot, user_id: employee.id }],
+      {
+        existingShifts: scheduleByUser.get(employee.id) || [],
+        ptoRequests: input.ptoRequests.filter((pto) => pto.user_id === employee.id),
+        userPositions: {
+          [employee.id]: (employee.user_positions || []).map((up) => up.position_id),
+        },
+        availability: { [employee.id]: availability[employee.id] },
+        unavailability: (input.unavailability || []).filter(
+          (entry) => entry.user_id === employee.id
+        ),
+      },
+      rules,
+      options
+    );
+    return !hasValidationIssues(result);
+  };
+
+  const assignments: AutoScheduleAssignment[] = [];
+  const unfilled: StaffingSlot[] = [];
+
+  for (const slot of ordered) {
+    const candidates = eligibleBySlot
+      .get(slot.key)!
+      .filter((employee) => canWork(employee, slot))
+      .sort(
+        (a, b) =>
+          (hoursByUser.get(a.id) || 0) - (hoursByUser.get(b.id) || 0) ||
+          `${a.last_name} ${a.first_name}`.localeCompare(`${b.last_name} ${b.first_name}`) ||
+          a.id.localeCompare(b.id)
+      );
+
+    const chosen = candidates[0];
+    if (!chosen) {
+      unfilled.push(slot);
+      continue;
+    }
+
+    assignments.push({ slot, userId: chosen.id });
+    scheduleByUser.set(chosen.id, [
+      ...(scheduleByUser.get(chosen.id) || []),
+      { ...slot, user_id: chosen.id },
+    ]);
+    hoursByUser.set(chosen.id, (hoursByUser.get(chosen.id) || 0) + toHours(slot));
+  }
+
+  return {
+    assignments: assignments.sort((a, b) => a.slot.start_time.localeCompare(b.slot.start_time)),
+    unfilled: unfilled.sort((a, b) => a.start_time.localeCompare(b.start_time)),
+    covered,
+  };
+}
+
+/**
+ * Build draft shifts for a period from the organization's staffing
+ * requirements. Slots nobody can take are optionally posted as open shifts.
+ */
+export async function generateAutoSchedule(
+  supabase: any,
+  organization: Pick<Organization, "id" | "settings" | "timezone">,
+  period: { start: string; end: string },
+  options: { createOpenShifts: boolean; createdBy: string }
+): Promise<AutoScheduleSummary> {
+  const organizationTimeZone = resolveTimeZone(organization.timezone);
+  const from = startOfDayInTimeZone(period.start, organizationTimeZone);
+  const to = startOfDayInTimeZone(nextDateKey(period.end), organizationTimeZone);
+
+  // Padded so rest periods and weekly limits see neighbouring shifts
+  const fetchFrom = subDays(from, 7);
+  const fetchTo = addDays(to, 7);
+
+  const [
+    requirementsResult,
+    locationsResult,
+    positionsResult,
+    employeesResult,
+    shiftsResult,
+    ptoResult,
+    unavailabilityResult,
+  ] = await Promise.all([
+    supabase
+      .from("staffing_requirements")
+      .select("*")
+      .eq("organization_id", organization.id)
+      .eq("is_active", true),
+    supabase.from("locations").select("id, timezone").eq("organization_id", organization.id),
+    supabase.from("positions").select("id, color").eq("organization_id", organization.id),
+    supabase
+      .from("profiles")
+      .select(`
+        id, first_name, last_name, weekly_availability, preferred_max_hours_per_week,
+        user_positions (position_id),
+        user_locations (location_id)
+      `)
+      .eq("organization_id", organization.id)
+      .eq("status", "active"),
+    supabase
+      .from("shifts")
+      .select("id, user_id, start_time, end_time, break_minutes, position_id, location_id")
+      .eq("organization_id", organization.id)
+      .gte("end_time", fetchFrom.toISOString())
+      .lte("start_time", fetchTo.toISOString()),
+    supabase
+      .from("pto_requests")
+      .select("user_id, start_date, end_date, status, pto_type")
+      .eq("organization_id", organization.id)
+      .in("status", ["approved", "pending"])
+      .gte("end_date", format(fetchFrom, "yyyy-MM-dd"))
+      .lte("start_date", format(fetchTo, "yyyy-MM-dd")),
+    supabase
+      .from("employee_unavailability")
+      .select("user_id, start_date, end_date, start_time, end_time, status, reason")
+      .eq("organization_id", organization.id)
+      .in("status", ["approved", "pending"])
+      .gte("end_date", format(fetchFrom, "yyyy-MM-dd"))
+      .lte("start_date", format(fetchTo, "yyyy-MM-dd")),
+  ]);
+
+  const error =
+    requirementsResult.error ||
+    locationsResult.error ||
+    positionsResult.error ||
+    employeesResult.error ||
+    shiftsResult.error ||
+    ptoResult.error ||
+    unavailabilityResult.error;
+  if (error) {
+    throw new Error(`Failed to load scheduling data: ${error.message}`);
+  }
+
+  const locationZones = new Map<string, string | null>(
+    (locationsResult.data || []).map((l: { id: string; timezone: string | null }) => [l.id, l.timezone])
+  );
+  const positionColors = new Map<string, string>(
+    (positionsResult.data || []).map((p: { id: string; color: string }) => [p.id, p.color])
+  );
+
+  const dateKeys: string[] = [];
+  for (let date = period.start; date <= period.end; date = nextDateKey(date)) {
+    dateKeys.push(date);
+  }
+
+  const slots = buildStaffingSlots(requirementsResult.data || [], dateKeys, (locationId) =>
+    resolveTimeZone(locationZones.get(locationId), organization.timezone)
+  );
+
+  const employees: AutoScheduleEmployee[] = employeesResult.data || [];
+  const result = proposeSchedule({
+    slots,
+    employees,
+    existingShifts: shiftsResult.data || [],
+    ptoRequests: ptoResult.data || [],
+    unavailability: unavailabilityResult.data || [],
+    period: { from: from.toISOString(), to: to.toISOString() },
+    rules: resolveShiftValidationRules(organization.settings),
+    options: {
+      weekStartsOn: resolveScheduleWeekStart(organization.settings),
+      timeZone: organizationTimeZone,
+    },
+  });
+
+  const toShift = (slot: StaffingSlot, userId: string | null) => ({
+    organization_id: organization.id,
+    user_id: userId,
+    location_id: slot.location_id,
+    position_id: slot.position_id,
+    start_time: slot.start_time,
+    end_time: slot.end_time,
+    break_minutes: slot.break_minutes,
+    color: positionColors.get(slot.position_id) || "blue",
+    is_published: false,
+    status: "draft",
+    created_by: options.createdBy,
+  });
+
+  const newShifts = [
+    ...result.assignments.map((assignment) => toShift(assignment.slot, assignment.userId)),
+    ...(options.createOpenShifts ? result.unfilled.map((slot) => toShift(slot, null)) : []),
+  ];
+
+  if (newShifts.length > 0) {
+    const { error: insertError } = await supabase.from("shifts").insert(newShifts);
+    if (insertError) {
+      throw new Error(`Failed to create shifts: ${insertError.message}`);
+    }
+  }
+
+  const names = new Map(employees.map((e) => [e.id, `${e.first_name} ${e.last_name}`.trim()]));
+
+  return {
+    period,
+    requested: slots.length,
+    covered: result.covered.length,
+    assigned: result.assignments.length,
+    unfilled: result.unfilled.length,
+    openShiftsCreated: options.createOpenShifts ? result.unfilled.length : 0,
+    assignments: result.assignments.map(({ slot, userId }) => ({
+      user_id: userId,
+      name: names.get(userId) || "Unknown",
+      date: slot.date,
+      start_time: slot.start_time,
+      end_time: slot.end_time,
+      location_id: slot.location_id,
+      position_id: slot.position_id,
+    })),
+  };
+}
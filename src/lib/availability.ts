@@ -0,0 +1,246 @@
+import { format, parseISO } from "date-fns";
+import type { Json } from "@/types/database.types";
+import {
+  dateTimeInTimeZone,
+  formatInTimeZone,
+  getDateKeyInTimeZone,
+  nextDateKey,
+} from "@/lib/timezone";
+
+/**
+ * A daily window (HH:mm, end may be "24:00") an employee can work,
+ * stored in `profiles.weekly_availability`
+ */
+export type AvailabilityWindow = {
+  day_of_week: number; // 0 = Sunday
+  start_time: string;
+  end_time: string;
+};
+
+export interface UnavailabilityEntry {
+  user_id: string;
+  start_date: string;
+  end_date: string;
+  // Both null for whole days
+  start_time: string | null;
+  end_time: string | null;
+  status: string;
+  reason?: string | null;
+}
+
+export interface MemberAvailability {
+  weekly: AvailabilityWindow[] | null;
+  preferredMaxHours: number | null;
+}
+
+export type AvailabilityConflictType =
+  | "outside_availability"
+  | "unavailable"
+  | "pending_unavailable";
+
+export interface AvailabilityConflict {
+  type: AvailabilityConflictType;
+  message: string;
+}
+
+export const availabilityDayLabels = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+
+/**
+ * Read weekly availability from JSON. Returns null when the employee has
+ * no restrictions; days without a window are unavailable.
+ */
+export function parseWeeklyAvailability(value: Json | null | undefined): AvailabilityWindow[] | null {
+  if (!Array.isArray(value)) return null;
+
+  return value
+    .map((item: any) => ({
+      day_of_week: Number(item?.day_of_week),
+      start_time: String(item?.start_time || "").slice(0, 5),
+      end_time: String(item?.end_time || "").slice(0, 5),
+    }))
+    .filter(
+      (window) =>
+        Number.isInteger(window.day_of_week) &&
+        window.day_of_week >= 0 &&
+        window.day_of_week <= 6 &&
+        TIME_PATTERN.test(window.start_time) &&
+        TIME_PATTERN.test(window.end_time) &&
+        window.end_time > window.start_time
+    )
+    .sort((a, b) => a.day_of_week - b.day_of_week || a.start_time.localeCompare(b.start_time));
+}
+
+/**
+ * Availability keyed by user id from profile rows
+ */
+export function buildMemberAvailability(
+  profiles: {
+    id: string;
+    weekly_availability?: Json | null;
+    preferred_max_hours_per_week?: number | null;
+  }[]
+): Record<string, MemberAvailability> {
+  const availability: Record<string, MemberAvailability> = {};
+  for (const profile of profiles) {
+    availability[profile.id] = {
+      weekly: parseWeeklyAvailability(profile.weekly_availability),
+      preferredMaxHours:
+        profile.preferred_max_hours_per_week != null
+          ? Number(profile.preferred_max_hours_per_week)
+          : null,
+    };
+  }
+  return availability;
+}
+
+const toDateKey = (date: Date, timeZone?: string | null) =>
+  timeZone ? getDateKeyInTimeZone(date, timeZone) : format(date, "yyyy-MM-dd");
+
+const toTimeKey = (date: Date, timeZone?: string | null) =>
+  timeZone
+    ? formatInTimeZone(date, timeZone, { hour: "2-digit", minute: "2-digit", hourCycle: "h23" })
+    : format(date, "HH:mm");
+
+const toInstant = (dateKey: string, time: string, timeZone?: string | null) =>
+  timeZone ? dateTimeInTimeZone(dateKey, time, timeZone) : parseISO(`${dateKey}T${time}`);
+
+const formatWindowTime = (time: string) => {
+  if (time === "24:00") return "midnight";
+  const [hours, minutes] = time.split(":").map(Number);
+  return format(new Date(2000, 0, 1, hours, minutes), "h:mm a");
+};
+
+export function formatAvailabilityWindow(window: { start_time: string; end_time: string }) {
+  return `${formatWindowTime(window.start_time)} - ${formatWindowTime(window.end_time)}`;
+}
+
+/**
+ * Instants an unavailability entry covers, one interval per day for
+ * partial-day entries
+ */
+export function getUnavailabilityIntervals(
+  entry: UnavailabilityEntry,
+  timeZone?: string | null
+): { start: Date; end: Date }[] {
+  if (!entry.start_time || !entry.end_time) {
+    return [
+      {
+        start: toInstant(entry.start_date, "00:00", timeZone),
+        end: toInstant(nextDateKey(entry.end_date), "00:00", timeZone),
+      },
+    ];
+  }
+
+  const intervals: { start: Date; end: Date }[] = [];
+  for (let date = entry.start_date; date <= entry.end_date; date = nextDateKey(date)) {
+    intervals.push({
+      start: toInstant(date, entry.start_time.slice(0, 5), timeZone),
+      end: toInstant(date, entry.end_time.slice(0, 5), timeZone),
+    });
+  }
+  return intervals;
+}
+
+/**
+ * Check a shift against an employee's weekly availability and one-off
+ * unavailability. Only the part of an overnight shift before midnight is
+ * compared with the weekly windows.
+ */
+export function getAvailabilityConflicts(
+  shift: { start_time: string; end_time: string },
+  weekly: AvailabilityWindow[] | null,
+  unavailability: UnavailabilityEntry[],
+  options: { timeZone?: string | null } = {}
+): AvailabilityConflict[] {
+  const conflicts: AvailabilityConflict[] = [];
+  const start = parseISO(shift.start_time);
+  const end = parseISO(shift.end_time);
+  if (end <= start) return conflicts;
+
+  if (weekly) {
+    const dateKey = toDateKey(start, options.timeZone);
+    const dayOfWeek = parseISO(dateKey).getDay();
+    const startTime = toTimeKey(start, options.timeZone);
+    const endTime =
+      toDateKey(end, options.timeZone) === dateKey ? toTimeKey(end, options.timeZone) : "24:00";
+    const windows = weekly.filter((window) => window.day_of_week === dayOfWeek);
+    const fits = windows.some(
+      (window) => window.start_time <= startTime && window.end_time >= endTime
+    );
+
+    if (!fits) {
+      conflicts.push({
+        type: "outside_availability",
+        message:
+          windows.length === 0
+            ? `Not available on ${availabilityDayLabels[dayOfWeek]}s`
+            : `Outside availability (${availabilityDayLabels[dayOfWeek]} ${windows
+                .map(formatAvailabilityWindow)
+                .join(", ")})`,
+      });
+    }
+  }
+
+  for (const entry of unavailability) {
+    if (entry.status !== "approved" && entry.status !== "pending") continue;
+    const overlaps = getUnavailabilityIntervals(entry, options.timeZone).some(
+      (interval) => interval.start < end && interval.end > start
+    );
+    if (!overlaps) continue;
+
+    const reason = entry.reason ? `: ${entry.reason}` : "";
+    conflicts.push(
+      entry.status === "approved"
+        ? { type: "unavailable", message: `Marked unavailable${reason}` }
+        : { type: "pending_unavailable", message: `Requested to be unavailable${reason}` }
+    );
+  }
+
+  return conflicts;
+}
+
+/**
+ * Summarize an employee's availability on one date for the schedule grid.
+ * One-off entries take precedence over the weekly pattern; returns null
+ * when there's nothing to show.
+ */
+export function describeDayAvailability(
+  dateKey: string,
+  weekly: AvailabilityWindow[] | null,
+  unavailability: UnavailabilityEntry[]
+): { label: string; unavailable: boolean; pending: boolean } | null {
+  const entry = unavailability.find(
+    (e) =>
+      (e.status === "approved" || e.status === "pending") &&
+      e.start_date <= dateKey &&
+      e.end_date >= dateKey
+  );
+
+  if (entry) {
+    const allDay = !entry.start_time || !entry.end_time;
+    return {
+      label: allDay
+        ? "Unavailable"
+        : `Unavailable ${formatAvailabilityWindow({
+            start_time: entry.start_time!.slice(0, 5),
+            end_time: entry.end_time!.slice(0, 5),
+          })}`,
+      unavailable: allDay,
+      pending: entry.status === "pending",
+    };
+  }
+
+  if (!weekly) return null;
+
+  const windows = weekly.filter((window) => window.day_of_week === parseISO(dateKey).getDay());
+  if (windows.length === 0) {
+    return { label: "Unavailable", unavailable: true, pending: false };
+  }
+  return {
+    label: `Available ${windows.map(formatAvailabilityWindow).join(", ")}`,
+    unavailable: false,
+    pending: false,
+  };
+}
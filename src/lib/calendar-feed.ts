@@ -0,0 +1,300 @@
+import { addDays, format, parseISO, subDays } from "date-fns";
+import { ptoTypeLabels, type PTOType } from "@/types/pto-table";
+import type { Database } from "@/types/database.types";
+
+type Shift = Database["public"]["Tables"]["shifts"]["Row"];
+type PTORequest = Database["public"]["Tables"]["pto_requests"]["Row"];
+
+// How far back and ahead a feed reaches
+const FEED_DAYS_BEFORE = 30;
+const FEED_DAYS_AFTER = 180;
+
+// Calendar clients match events by UID, so these never change for a shift
+// or request; edits and cancellations update the same event
+const UID_DOMAIN = "shift-management";
+
+export interface CalendarEvent {
+  uid: string;
+  // Timed events use instants, all-day events use yyyy-MM-dd (end exclusive)
+  start: { dateTime: string } | { date: string };
+  end: { dateTime: string } | { date: string };
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  status: "CONFIRMED" | "CANCELLED";
+  lastModified?: string | null;
+}
+
+export type FeedShift = Pick<
+  Shift,
+  "id" | "user_id" | "start_time" | "end_time" | "break_minutes" | "notes" | "status" | "updated_at" | "created_at"
+> & {
+  locations: { name: string; address: string | null } | null;
+  positions: { name: string } | null;
+};
+
+export type FeedPTORequest = Pick<
+  PTORequest,
+  | "id"
+  | "user_id"
+  | "pto_type"
+  | "start_date"
+  | "end_date"
+  | "duration_type"
+  | "half_day_period"
+  | "reason"
+  | "status"
+  | "updated_at"
+  | "created_at"
+>;
+
+/**
+ * A new secret for a feed URL (256 bits, hex)
+ */
+export function generateFeedToken(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * The dates a feed covers, relative to now
+ */
+export function getFeedWindow(now: Date = new Date()): { start: Date; end: Date } {
+  return { start: subDays(now, FEED_DAYS_BEFORE), end: addDays(now, FEED_DAYS_AFTER) };
+}
+
+/**
+ * Escape a TEXT value (RFC 5545 3.3.11)
+ */
+export function escapeICalText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// UTF-8 length of a single character
+const octetLength = (char: string) => {
+  const codePoint = char.codePointAt(0) ?? 0;
+  return codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+};
+
+/**
+ * Fold a content line at 75 octets, continuing with a leading space
+ * (RFC 5545 3.1). Multi-byte characters are never split.
+ */
+export function foldICalLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = octetLength(char);
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+/**
+ * Format an instant as a UTC DATE-TIME, e.g. 20240304T090000Z
+ */
+export function formatICalDateTime(value: string | Date): string {
+  const date = typeof value === "string" ? parseISO(value) : value;
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+const formatEventTime = (name: "DTSTART" | "DTEND", value: CalendarEvent["start"]) =>
+  "date" in value
+    ? `${name};VALUE=DATE:${value.date.replace(/-/g, "")}`
+    : `${name}:${formatICalDateTime(value.dateTime)}`;
+
+/**
+ * Render a calendar as an iCalendar (.ics) document
+ */
+export function buildCalendar({
+  name,
+  events,
+  now = new Date(),
+}: {
+  name: string;
+  events: CalendarEvent[];
+  now?: Date;
+}): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Shift Management//Schedule Feed//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeICalText(name)}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+  ];
+
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatICalDateTime(now)}`,
+      formatEventTime("DTSTART", event.start),
+      formatEventTime("DTEND", event.end),
+      `SUMMARY:${escapeICalText(event.summary)}`
+    );
+    if (event.location) lines.push(`LOCATION:${escapeICalText(event.location)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeICalText(event.description)}`);
+    if (event.lastModified) lines.push(`LAST-MODIFIED:${formatICalDateTime(event.lastModified)}`);
+    lines.push(`STATUS:${event.status}`, "TRANSP:OPAQUE", "END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldICalLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * A published shift as a calendar event. Team feeds pass the employee's
+ * name so it appears in the title.
+ */
+export function shiftToEvent(shift: FeedShift, employeeName?: string | null): CalendarEvent {
+  const title = shift.positions?.name ? `${shift.positions.name} shift` : "Shift";
+  const location = shift.locations
+    ? [shift.locations.name, shift.locations.address].filter(Boolean).join(", ")
+    : null;
+  const description = [
+    shift.break_minutes ? `Break: ${shift.break_minutes} min` : null,
+    shift.notes,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  return {
+    uid: `shift-${shift.id}@${UID_DOMAIN}`,
+    start: { dateTime: shift.start_time },
+    end: { dateTime: shift.end_time },
+    summary:
+      employeeName === undefined
+        ? title
+        : `${shift.user_id ? employeeName || "Unknown" : "Open shift"}: ${title}`,
+    description: description || null,
+    location,
+    status: shift.status === "cancelled" ? "CANCELLED" : "CONFIRMED",
+    lastModified: shift.updated_at || shift.created_at,
+  };
+}
+
+/**
+ * Time off as an all-day event. The reason is only included in the
+ * employee's own feed.
+ */
+export function ptoToEvent(request: FeedPTORequest, employeeName?: string | null): CalendarEvent {
+  const label = ptoTypeLabels[request.pto_type as PTOType] || "Time Off";
+  const halfDay =
+    request.duration_type === "half_day"
+      ? ` (${request.half_day_period === "pm" ? "afternoon" : "morning"})`
+      : "";
+
+  return {
+    uid: `pto-${request.id}@${UID_DOMAIN}`,
+    start: { date: request.start_date },
+    end: { date: format(addDays(parseISO(request.end_date), 1), "yyyy-MM-dd") },
+    summary:
+      employeeName === undefined
+        ? `${label}${halfDay}`
+        : `${employeeName || "Unknown"}: ${label}${halfDay}`,
+    description: employeeName === undefined ? request.reason : null,
+    status: request.status === "cancelled" ? "CANCELLED" : "CONFIRMED",
+    lastModified: request.updated_at || request.created_at,
+  };
+}
+
+/**
+ * The events in a user's feed: their published shifts and approved time
+ * off, plus the rest of the organization's when includeTeam is set.
+ * Cancelled shifts and time off that was approved then cancelled stay in
+ * the feed as cancelled events so subscribed calendars drop them.
+ */
+export async function getCalendarFeedEvents(
+  supabase: any,
+  {
+    organizationId,
+    userId,
+    includeTeam,
+    now = new Date(),
+  }: { organizationId: string; userId: string; includeTeam: boolean; now?: Date }
+): Promise<CalendarEvent[]> {
+  const window = getFeedWindow(now);
+
+  let shiftsQuery = supabase
+    .from("shifts")
+    .select(`
+      id, user_id, start_time, end_time, break_minutes, notes, status, updated_at, created_at,
+      locations (name, address),
+      positions (name)
+    `)
+    .eq("organization_id", organizationId)
+    .eq("is_published", true)
+    .gte("start_time", window.start.toISOString())
+    .lte("start_time", window.end.toISOString())
+    .order("start_time", { ascending: true });
+
+  let ptoQuery = supabase
+    .from("pto_requests")
+    .select(
+      "id, user_id, pto_type, start_date, end_date, duration_type, half_day_period, reason, status, updated_at, created_at"
+    )
+    .eq("organization_id", organizationId)
+    // Reviewed cancellations were approved before being withdrawn
+    .or("status.eq.approved,and(status.eq.cancelled,reviewed_at.not.is.null)")
+    .gte("end_date", format(window.start, "yyyy-MM-dd"))
+    .lte("start_date", format(window.end, "yyyy-MM-dd"))
+    .order("start_date", { ascending: true });
+
+  if (!includeTeam) {
+    shiftsQuery = shiftsQuery.eq("user_id", userId);
+    ptoQuery = ptoQuery.eq("user_id", userId);
+  }
+
+  const [shiftsResult, ptoResult, membersResult] = await Promise.all([
+    shiftsQuery,
+    ptoQuery,
+    includeTeam
+      ? supabase
+          .from("profiles")
+          .select("id, first_name, last_name, display_name")
+          .eq("organization_id", organizationId)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  const error = shiftsResult.error || ptoResult.error || membersResult.error;
+  if (error) {
+    throw new Error(`Failed to fetch calendar feed events: ${error.message}`);
+  }
+
+  const names = new Map<string, string>(
+    (membersResult.data || []).map(
+      (member: { id: string; first_name: string; last_name: string; display_name: string | null }) => [
+        member.id,
+        member.display_name || `${member.first_name} ${member.last_name}`,
+      ]
+    )
+  );
+  // Only other people's events are labelled with a name
+  const nameFor = (ownerId: string | null) =>
+    ownerId === userId ? undefined : ownerId ? names.get(ownerId) || null : null;
+
+  return [
+    ...(shiftsResult.data || []).map((shift: FeedShift) => shiftToEvent(shift, nameFor(shift.user_id))),
+    ...(ptoResult.data || []).map((request: FeedPTORequest) => ptoToEvent(request, nameFor(request.user_id))),
+  ];
+}
@@ -0,0 +1,135 @@
+export const CHAT_ATTACHMENTS_BUCKET = "chat-attachments";
+
+// Largest file the bucket accepts; organizations can only lower this
+export const MAX_CHAT_ATTACHMENT_MB = 25;
+
+// Thumbnails are generated in the browser and kept small
+export const CHAT_THUMBNAIL_SIZE = 320;
+export const MAX_CHAT_THUMBNAIL_BYTES = 512 * 1024;
+
+export type ChatAttachmentCategory = "image" | "document" | "video" | "audio";
+
+export const chatAttachmentCategories: Record<ChatAttachmentCategory, { label: string; mimeTypes: string[] }> = {
+  image: {
+    label: "Images",
+    mimeTypes: ["image/jpeg", "image/png", "image/gif", "image/webp"],
+  },
+  document: {
+    label: "Documents",
+    mimeTypes: [
+      "application/pdf",
+      "text/plain",
+      "text/csv",
+      "application/msword",
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      "application/vnd.ms-excel",
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    ],
+  },
+  video: {
+    label: "Videos",
+    mimeTypes: ["video/mp4", "video/quicktime", "video/webm"],
+  },
+  audio: {
+    label: "Audio",
+    mimeTypes: ["audio/mpeg", "audio/mp4", "audio/wav", "audio/webm"],
+  },
+};
+
+/**
+ * Organization-wide attachment limits, stored under settings.chatAttachments
+ */
+export interface ChatAttachmentSettings {
+  enabled: boolean;
+  maxFileSizeMb: number;
+  allowedCategories: ChatAttachmentCategory[];
+}
+
+export const defaultChatAttachmentSettings: ChatAttachmentSettings = {
+  enabled: true,
+  maxFileSizeMb: 10,
+  allowedCategories: ["image", "document"],
+};
+
+export function resolveChatAttachmentSettings(settings: unknown): ChatAttachmentSettings {
+  const saved = (settings as { chatAttachments?: Partial<ChatAttachmentSettings> } | null)?.chatAttachments;
+  const resolved = { ...defaultChatAttachmentSettings, ...saved };
+  return {
+    ...resolved,
+    maxFileSizeMb: Math.min(Math.max(resolved.maxFileSizeMb, 1), MAX_CHAT_ATTACHMENT_MB),
+    allowedCategories: resolved.allowedCategories.filter((category) => category in chatAttachmentCategories),
+  };
+}
+
+export function getChatAttachmentCategory(mimeType: string): ChatAttachmentCategory | null {
+  const entry = Object.entries(chatAttachmentCategories).find(([, category]) =>
+    category.mimeTypes.includes(mimeType)
+  );
+  return entry ? (entry[0] as ChatAttachmentCategory) : null;
+}
+
+export function isImageAttachment(mimeType: string) {
+  return getChatAttachmentCategory(mimeType) === "image";
+}
+
+/**
+ * Check a file against the organization's limits. Returns an error message,
+ * or null when the file may be sent.
+ */
+export function validateChatAttachment(
+  file: { name: string; size: number; type: string },
+  settings: ChatAttachmentSettings
+): string | null {
+  if (!settings.enabled) {
+    return "Attachments are turned off for your organization";
+  }
+
+  const category = getChatAttachmentCategory(file.type);
+  if (!category || !settings.allowedCategories.includes(category)) {
+    const allowed = settings.allowedCategories.map((allowedCategory) => chatAttachmentCategories[allowedCategory].label);
+    return allowed.length > 0
+      ? `This file type is not allowed. You can send: ${allowed.join(", ")}`
+      : "No file types are allowed";
+  }
+
+  if (file.size <= 0) {
+    return "The file is empty";
+  }
+  if (file.size > settings.maxFileSizeMb * 1024 * 1024) {
+    return `Files can be at most ${settings.maxFileSizeMb} MB`;
+  }
+
+  return null;
+}
+
+/**
+ * Storage path for an upload. The room id comes first so storage policies
+ * can limit access to the room's participants.
+ */
+export function buildChatAttachmentPath(roomId: string, uploadId: string, fileName: string) {
+  const safeName =
+    fileName
+      .normalize("NFKD")
+      .replace(/[^\w.\-]+/g, "_")
+      .replace(/_+/g, "_")
+      .replace(/^[_.]+/, "")
+      .slice(-100) || "file";
+  return `${roomId}/${uploadId}/${safeName}`;
+}
+
+/**
+ * Scale width x height down to fit within maxSize, keeping the aspect ratio
+ */
+export function getThumbnailDimensions(width: number, height: number, maxSize: number = CHAT_THUMBNAIL_SIZE) {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,496 @@
+import { addDays } from "date-fns";
+import type { Database, Json } from "@/types/database.types";
+import { getDateKeyInTimeZone, resolveTimeZone } from "@/lib/timezone";
+
+export type Checklist = Database["public"]["Tables"]["checklists"]["Row"];
+export type ChecklistAssignment = Database["public"]["Tables"]["checklist_assignments"]["Row"];
+
+export interface ChecklistItem {
+  id: string;
+  label: string;
+}
+
+/**
+ * Who ticked off each item and when, keyed by item id. Stored in
+ * checklist_assignments.progress.
+ */
+export type ChecklistProgress = Record<string, { completed_by: string; completed_at: string }>;
+
+// Longest checklist name accepted by the checklists API
+export const MAX_CHECKLIST_NAME_LENGTH = 80;
+export const MAX_CHECKLIST_ITEMS = 100;
+
+// How far ahead position checklists are assigned to published shifts
+export const CHECKLIST_SYNC_DAYS = 14;
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Checklist fields accepted by the checklists API. position_ids are the
+ * positions whose shifts get the checklist automatically.
+ */
+export interface ChecklistWriteInput {
+  name: string;
+  description: string | null;
+  items: ChecklistItem[];
+  position_ids: string[];
+}
+
+/**
+ * Who to assign a checklist to. Shifts bring their own employee, day and
+ * location; people and groups need due_date.
+ */
+export interface ChecklistAssignInput {
+  shift_ids: string[];
+  user_ids: string[];
+  group_ids: string[];
+  due_date: string | null;
+  location_id: string | null;
+}
+
+type ParseResult<T> = { data: T; error?: undefined } | { data?: undefined; error: string };
+
+const parseIdList = (value: unknown, field: string): ParseResult<string[]> => {
+  if (value === undefined) return { data: [] };
+  if (!Array.isArray(value) || value.some((id) => typeof id !== "string" || !id)) {
+    return { error: `${field} must be an array of ids` };
+  }
+  return { data: Array.from(new Set(value as string[])) };
+};
+
+/**
+ * Read checklist fields from a request body
+ */
+export function parseChecklistInput(body: unknown): ParseResult<ChecklistWriteInput> {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { error: "Checklist must be an object" };
+  }
+  const value = body as Record<string, unknown>;
+
+  const name = typeof value.name === "string" ? value.name.trim() : "";
+  if (!name) {
+    return { error: "name is required" };
+  }
+  if (name.length > MAX_CHECKLIST_NAME_LENGTH) {
+    return { error: `name must be at most ${MAX_CHECKLIST_NAME_LENGTH} characters` };
+  }
+
+  if (value.description !== undefined && value.description !== null && typeof value.description !== "string") {
+    return { error: "description must be a string or null" };
+  }
+  const description = typeof value.description === "string" ? value.description.trim() || null : null;
+
+  if (!Array.isArray(value.items) || value.items.length === 0) {
+    return { error: "items must be a non-empty array" };
+  }
+  if (value.items.length > MAX_CHECKLIST_ITEMS) {
+    return { error: `A checklist can have at most ${MAX_CHECKLIST_ITEMS} items` };
+  }
+
+  const items: ChecklistItem[] = [];
+  for (const item of value.items) {
+    const id = item && typeof item.id === "string" ? item.id : "";
+    const label = item && typeof item.label === "string" ? item.label.trim() : "";
+    if (!id || !label) {
+      return { error: "Every item needs an id and a label" };
+    }
+    if (items.some((existing) => existing.id === id)) {
+      return { error: `Duplicate item id: ${id}` };
+    }
+    items.push({ id, label });
+  }
+
+  const positions = parseIdList(value.position_ids, "position_ids");
+  if (positions.error !== undefined) return { error: positions.error };
+
+  return { data: { name, description, items, position_ids: positions.data } };
+}
+
+/**
+ * Read who to assign a checklist to from a request body
+ */
+export function parseChecklistAssignInput(body: unknown): ParseResult<ChecklistAssignInput> {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { error: "Assignment must be an object" };
+  }
+  const value = body as Record<string, unknown>;
+
+  const shifts = parseIdList(value.shift_ids, "shift_ids");
+  if (shifts.error !== undefined) return { error: shifts.error };
+  const users = parseIdList(value.user_ids, "user_ids");
+  if (users.error !== undefined) return { error: users.error };
+  const groups = parseIdList(value.group_ids, "group_ids");
+  if (groups.error !== undefined) return { error: groups.error };
+
+  if (shifts.data.length + users.data.length + groups.data.length === 0) {
+    return { error: "Choose at least one shift, employee or group" };
+  }
+
+  if (value.due_date !== undefined && value.due_date !== null) {
+    if (typeof value.due_date !== "string" || !DATE_KEY.test(value.due_date)) {
+      return { error: "due_date must be a date (yyyy-MM-dd)" };
+    }
+  }
+  const dueDate = typeof value.due_date === "string" ? value.due_date : null;
+  if (!dueDate && users.data.length + groups.data.length > 0) {
+    return { error: "due_date is required when assigning to employees or groups" };
+  }
+
+  if (value.location_id !== undefined && value.location_id !== null && typeof value.location_id !== "string") {
+    return { error: "location_id must be a string or null" };
+  }
+  const locationId = typeof value.location_id === "string" ? value.location_id || null : null;
+
+  return {
+    data: {
+      shift_ids: shifts.data,
+      user_ids: users.data,
+      group_ids: groups.data,
+      due_date: dueDate,
+      location_id: locationId,
+    },
+  };
+}
+
+/**
+ * A checklist's items, skipping malformed entries
+ */
+export function getChecklistItems(items: Json | null | undefined): ChecklistItem[] {
+  if (!Array.isArray(items)) return [];
+  return items
+    .filter(
+      (item): item is { id: string; label: string } =>
+        !!item &&
+        typeof item === "object" &&
+        !Array.isArray(item) &&
+        typeof item.id === "string" &&
+        typeof item.label === "string"
+    )
+    .map((item) => ({ id: item.id, label: item.label }));
+}
+
+/**
+ * An assignment's progress, skipping malformed entries
+ */
+export function getChecklistProgress(progress: Json | null | undefined): ChecklistProgress {
+  if (!progress || typeof progress !== "object" || Array.isArray(progress)) return {};
+
+  const result: ChecklistProgress = {};
+  for (const [itemId, entry] of Object.entries(progress)) {
+    if (
+      entry &&
+      typeof entry === "object" &&
+      !Array.isArray(entry) &&
+      typeof entry.completed_by === "string" &&
+      typeof entry.completed_at === "string"
+    ) {
+      result[itemId] = { completed_by: entry.completed_by, completed_at: entry.completed_at };
+    }
+  }
+  return result;
+}
+
+/**
+ * Tick an item off, or clear it. Ticking an item that is already done keeps
+ * the original completer and time.
+ */
+export function setChecklistItemDone(
+  progress: ChecklistProgress,
+  itemId: string,
+  done: boolean,
+  userId: string,
+  now: Date = new Date()
+): ChecklistProgress {
+  const next = { ...progress };
+  if (done) {
+    next[itemId] ||= { completed_by: userId, completed_at: now.toISOString() };
+  } else {
+    delete next[itemId];
+  }
+  return next;
+}
+
+/**
+ * How many of the checklist's current items are done. Progress for items
+ * since removed from the checklist is ignored.
+ */
+export function getChecklistCompletion(items: ChecklistItem[], progress: ChecklistProgress) {
+  const done = items.filter((item) => progress[item.id]).length;
+  return { done, total: items.length, complete: items.length > 0 && done === items.length };
+}
+
+export interface ChecklistCompletionRow {
+  date: string;
+  locationId: string | null;
+  assigned: number;
+  completed: number;
+  itemsDone: number;
+  itemsTotal: number;
+}
+
+/**
+ * Completion per location and day, newest day first
+ */
+export function summarizeChecklistCompletion(
+  assignments: Pick<ChecklistAssignment, "checklist_id" | "due_date" | "location_id" | "progress">[],
+  itemsByChecklist: Map<string, ChecklistItem[]>
+): ChecklistCompletionRow[] {
+  const rows = new Map<string, ChecklistCompletionRow>();
+
+  for (const assignment of assignments) {
+    const key = `${assignment.due_date}|${assignment.location_id || ""}`;
+    if (!rows.has(key)) {
+      rows.set(key, {
+        date: assignment.due_date,
+        locationId: assignment.location_id,
+        assigned: 0,
+        completed: 0,
+        itemsDone: 0,
+        itemsTotal: 0,
+      });
+    }
+
+    const row = rows.get(key)!;
+    const completion = getChecklistCompletion(
+      itemsByChecklist.get(assignment.checklist_id) || [],
+      getChecklistProgress(assignment.progress)
+    );
+    row.assigned += 1;
+    if (completion.complete) row.completed += 1;
+    row.itemsDone += completion.done;
+    row.itemsTotal += completion.total;
+  }
+
+  return Array.from(rows.values()).sort(
+    (a, b) => b.date.localeCompare(a.date) || (a.locationId || "").localeCompare(b.locationId || "")
+  );
+}
+
+export interface ChecklistShift {
+  id: string;
+  user_id: string | null;
+  position_id: string | null;
+  location_id: string | null;
+  start_time: string;
+}
+
+/**
+ * The assignment of a checklist to a shift's employee, for the shift's day
+ * and location
+ */
+export function buildShiftChecklistAssignment(checklistId: string, shift: ChecklistShift, timeZone: string) {
+  return {
+    checklist_id: checklistId,
+    shift_id: shift.id,
+    user_id: shift.user_id as string,
+    due_date: getDateKeyInTimeZone(new Date(shift.start_time), timeZone),
+    location_id: shift.location_id,
+  };
+}
+
+/**
+ * Work out which position checklists each shift is missing, and which
+ * untouched assignments now belong to someone else because the shift was
+ * given to another employee
+ */
+export function planPositionChecklistAssignments({
+  rules,
+  shifts,
+  existing,
+  timeZone,
+}: {
+  rules: { checklist_id: string; position_id: string }[];
+  shifts: ChecklistShift[];
+  existing: Pick<ChecklistAssignment, "id" | "checklist_id" | "shift_id" | "user_id" | "progress">[];
+  timeZone: string;
+}) {
+  const existingByKey = new Map(
+    existing.map((assignment) => [`${assignment.checklist_id}:${assignment.shift_id}`, assignment])
+  );
+  const toCreate: ReturnType<typeof buildShiftChecklistAssignment>[] = [];
+  const toReassign: { id: string; user_id: string }[] = [];
+
+  for (const shift of shifts) {
+    if (!shift.user_id || !shift.position_id) continue;
+
+    for (const rule of rules) {
+      if (rule.position_id !== shift.position_id) continue;
+
+      const current = existingByKey.get(`${rule.checklist_id}:${shift.id}`);
+      if (!current) {
+        toCreate.push(buildShiftChecklistAssignment(rule.checklist_id, shift, timeZone));
+      } else if (
+        current.user_id !== shift.user_id &&
+        Object.keys(getChecklistProgress(current.progress)).length === 0
+      ) {
+        toReassign.push({ id: current.id, user_id: shift.user_id });
+      }
+    }
+  }
+
+  return { toCreate, toReassign };
+}
+
+/**
+ * Check every position belongs to the organization. Returns an error
+ * message for a 400 response, or null when they do.
+ */
+export async function checkChecklistPositions(
+  supabase: any,
+  organizationId: string,
+  positionIds: string[]
+): Promise<string | null> {
+  if (positionIds.length === 0) return null;
+
+  const { data, error } = await supabase
+    .from("positions")
+    .select("id")
+    .eq("organization_id", organizationId)
+    .in("id", positionIds);
+
+  if (error) {
+    throw new Error(`Failed to check positions: ${error.message}`);
+  }
+
+  const found = new Set((data || []).map((row: { id: string }) => row.id));
+  const missing = positionIds.filter((id) => !found.has(id));
+  return missing.length > 0 ? `Unknown position: ${missing.join(", ")}` : null;
+}
+
+/**
+ * Make the positions the checklist is assigned to exactly positionIds
+ */
+export async function replaceChecklistPositions(
+  supabase: any,
+  checklist: Pick<Checklist, "id" | "organization_id">,
+  positionIds: string[]
+) {
+  const { data: existing, error } = await supabase
+    .from("checklist_positions")
+    .select("position_id")
+    .eq("checklist_id", checklist.id);
+
+  if (error) {
+    throw new Error(`Failed to fetch checklist positions: ${error.message}`);
+  }
+
+  const current = new Set<string>((existing || []).map((row: { position_id: string }) => row.position_id));
+  const removed = Array.from(current).filter((id) => !positionIds.includes(id));
+  const added = positionIds.filter((id) => !current.has(id));
+
+  if (removed.length > 0) {
+    const { error: deleteError } = await supabase
+      .from("checklist_positions")
+      .delete()
+      .eq("checklist_id", checklist.id)
+      .in("position_id", removed);
+
+    if (deleteError) {
+      throw new Error(`Failed to update checklist positions: ${deleteError.message}`);
+    }
+  }
+
+  if (added.length > 0) {
+    const { error: insertError } = await supabase.from("checklist_positions").insert(
+      added.map((positionId) => ({
+        organization_id: checklist.organization_id,
+        checklist_id: checklist.id,
+        position_id: positionId,
+      }))
+    );
+
+    if (insertError) {
+      throw new Error(`Failed to update checklist positions: ${insertError.message}`);
+    }
+  }
+
+  return { added, removed };
+}
+
+/**
+ * Give every published shift starting between `start` and `end` the
+ * checklists assigned to its position, and move untouched assignments to
+ * the shift's current employee. Returns how many assignments were created
+ * and reassigned.
+ */
+export async function syncPositionChecklistAssignments(
+  supabase: any,
+  organization: { id: string; timezone: string | null },
+  {
+    start = new Date(),
+    end = addDays(start, CHECKLIST_SYNC_DAYS),
+  }: { start?: Date; end?: Date } = {}
+): Promise<{ created: number; reassigned: number }> {
+  const { data: rules, error: rulesError } = await supabase
+    .from("checklist_positions")
+    .select("checklist_id, position_id, checklists!inner (is_active)")
+    .eq("organization_id", organization.id)
+    .eq("checklists.is_active", true);
+
+  if (rulesError) {
+    throw new Error(`Failed to fetch checklist positions: ${rulesError.message}`);
+  }
+  if (!rules || rules.length === 0) {
+    return { created: 0, reassigned: 0 };
+  }
+
+  const positionIds = Array.from(new Set(rules.map((rule: { position_id: string }) => rule.position_id)));
+  const { data: shifts, error: shiftsError } = await supabase
+    .from("shifts")
+    .select("id, user_id, position_id, location_id, start_time")
+    .eq("organization_id", organization.id)
+    .eq("is_published", true)
+    .not("user_id", "is", null)
+    .in("position_id", positionIds)
+    .gte("start_time", start.toISOString())
+    .lte("start_time", end.toISOString());
+
+  if (shiftsError) {
+    throw new Error(`Failed to fetch shifts: ${shiftsError.message}`);
+  }
+  if (!shifts || shifts.length === 0) {
+    return { created: 0, reassigned: 0 };
+  }
+
+  const { data: existing, error: existingError } = await supabase
+    .from("checklist_assignments")
+    .select("id, checklist_id, shift_id, user_id, progress")
+    .in("shift_id", shifts.map((shift: ChecklistShift) => shift.id));
+
+  if (existingError) {
+    throw new Error(`Failed to fetch checklist assignments: ${existingError.message}`);
+  }
+
+  const { toCreate, toReassign } = planPositionChecklistAssignments({
+    rules,
+    shifts,
+    existing: existing || [],
+    timeZone: resolveTimeZone(organization.timezone),
+  });
+
+  if (toCreate.length > 0) {
+    const { error } = await supabase
+      .from("checklist_assignments")
+      .upsert(
+        toCreate.map((assignment) => ({ ...assignment, organization_id: organization.id })),
+        { onConflict: "checklist_id,shift_id", ignoreDuplicates: true }
+      );
+
+    if (error) {
+      throw new Error(`Failed to create checklist assignments: ${error.message}`);
+    }
+  }
+
+  for (const assignment of toReassign) {
+    const { error } = await supabase
+      .from("checklist_assignments")
+      .update({ user_id: assignment.user_id })
+      .eq("id", assignment.id);
+
+    if (error) {
+      throw new Error(`Failed to reassign checklist: ${error.message}`);
+    }
+  }
+
+  return { created: toCreate.length, reassigned: toReassign.length };
+}
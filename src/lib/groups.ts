@@ -0,0 +1,272 @@
+import type { Database } from "@/types/database.types";
+
+type Profile = Database["public"]["Tables"]["profiles"]["Row"];
+
+export type EmployeeGroup = Database["public"]["Tables"]["employee_groups"]["Row"];
+
+export interface GroupMembership {
+  group_id: string;
+  user_id: string;
+}
+
+export const GROUP_SELECT = `
+  *,
+  lead:profiles!employee_groups_lead_id_fkey (id, first_name, last_name, display_name, avatar_url),
+  employee_group_members (user_id),
+  manager_group_scopes (manager_id)
+`;
+
+// Longest group name accepted by the groups API
+export const MAX_GROUP_NAME_LENGTH = 80;
+
+/**
+ * Group fields accepted by the groups API. The lead is always a member;
+ * manager_ids are the managers whose permissions are limited to this group.
+ */
+export interface GroupWriteInput {
+  name: string;
+  description: string | null;
+  color: string | null;
+  lead_id: string | null;
+  member_ids: string[];
+  manager_ids: string[];
+}
+
+type ParseResult<T> = { data: T; error?: undefined } | { data?: undefined; error: string };
+
+const parseIdList = (value: unknown, field: string): ParseResult<string[]> => {
+  if (value === undefined) return { data: [] };
+  if (!Array.isArray(value) || value.some((id) => typeof id !== "string" || !id)) {
+    return { error: `${field} must be an array of ids` };
+  }
+  return { data: Array.from(new Set(value as string[])) };
+};
+
+/**
+ * Read group fields from a request body
+ */
+export function parseGroupInput(body: unknown): ParseResult<GroupWriteInput> {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { error: "Group must be an object" };
+  }
+  const value = body as Record<string, unknown>;
+
+  const name = typeof value.name === "string" ? value.name.trim() : "";
+  if (!name) {
+    return { error: "name is required" };
+  }
+  if (name.length > MAX_GROUP_NAME_LENGTH) {
+    return { error: `name must be at most ${MAX_GROUP_NAME_LENGTH} characters` };
+  }
+
+  for (const field of ["description", "color", "lead_id"] as const) {
+    if (value[field] !== undefined && value[field] !== null && typeof value[field] !== "string") {
+      return { error: `${field} must be a string or null` };
+    }
+  }
+  const description = typeof value.description === "string" ? value.description.trim() || null : null;
+  const color = typeof value.color === "string" ? value.color || null : null;
+  const leadId = typeof value.lead_id === "string" ? value.lead_id || null : null;
+
+  const members = parseIdList(value.member_ids, "member_ids");
+  if (members.error !== undefined) return { error: members.error };
+  const managers = parseIdList(value.manager_ids, "manager_ids");
+  if (managers.error !== undefined) return { error: managers.error };
+
+  return {
+    data: {
+      name,
+      description,
+      color,
+      lead_id: leadId,
+      member_ids: leadId && !members.data.includes(leadId) ? [...members.data, leadId] : members.data,
+      manager_ids: managers.data,
+    },
+  };
+}
+
+/**
+ * Ids of the groups a user belongs to
+ */
+export function getUserGroupIds(memberships: GroupMembership[], userId: string): string[] {
+  return memberships.filter((membership) => membership.user_id === userId).map((membership) => membership.group_id);
+}
+
+/**
+ * Ids of everyone in any of the given groups
+ */
+export function getGroupMemberIds(memberships: GroupMembership[], groupIds: string[]): Set<string> {
+  const groups = new Set(groupIds);
+  return new Set(
+    memberships.filter((membership) => groups.has(membership.group_id)).map((membership) => membership.user_id)
+  );
+}
+
+/**
+ * Whether a manager limited to managedUserIds may act on userId. null means
+ * unrestricted; open shifts (no user) are always allowed.
+ */
+export function isUserInScope(managedUserIds: Set<string> | null, userId: string | null | undefined): boolean {
+  if (!managedUserIds || !userId) return true;
+  return managedUserIds.has(userId);
+}
+
+/**
+ * The people a manager may schedule and approve for, or null when they are
+ * not restricted. Admins and owners always manage the whole organization, as
+ * does a manager with no group scopes.
+ */
+export async function getManagedUserIds(
+  supabase: any,
+  profile: Pick<Profile, "id" | "role" | "organization_id">
+): Promise<Set<string> | null> {
+  if (profile.role !== "manager") return null;
+
+  const { data: scopes, error } = await supabase
+    .from("manager_group_scopes")
+    .select("group_id")
+    .eq("organization_id", profile.organization_id)
+    .eq("manager_id", profile.id);
+
+  if (error) {
+    throw new Error(`Failed to fetch manager scopes: ${error.message}`);
+  }
+
+  const groupIds = (scopes || []).map((scope: { group_id: string }) => scope.group_id);
+  if (groupIds.length === 0) return null;
+
+  const { data: members, error: membersError } = await supabase
+    .from("employee_group_members")
+    .select("group_id, user_id")
+    .in("group_id", groupIds);
+
+  if (membersError) {
+    throw new Error(`Failed to fetch group members: ${membersError.message}`);
+  }
+
+  return getGroupMemberIds(members || [], groupIds);
+}
+
+/**
+ * Check a manager may act on every given employee. Returns an error message
+ * for a 403 response, or null when they may.
+ */
+export async function checkManagerScope(
+  supabase: any,
+  profile: Pick<Profile, "id" | "role" | "organization_id">,
+  userIds: (string | null | undefined)[]
+): Promise<string | null> {
+  const managedUserIds = await getManagedUserIds(supabase, profile);
+  if (!managedUserIds) return null;
+
+  const outside = Array.from(new Set(userIds.filter((userId) => !isUserInScope(managedUserIds, userId))));
+  if (outside.length > 0) {
+    return "You can only manage employees in your groups";
+  }
+
+  return null;
+}
+
+/**
+ * Check every member, the lead and the scoped managers belong to the
+ * organization, and that scoped managers have the manager role. Returns an
+ * error message for a 400 response, or null when they do.
+ */
+export async function checkGroupReferences(
+  supabase: any,
+  organizationId: string,
+  input: GroupWriteInput
+): Promise<string | null> {
+  const ids = Array.from(new Set([...input.member_ids, ...input.manager_ids]));
+  if (ids.length === 0) return null;
+
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("id, role")
+    .eq("organization_id", organizationId)
+    .in("id", ids);
+
+  if (error) {
+    throw new Error(`Failed to check profiles: ${error.message}`);
+  }
+
+  const roles = new Map<string, string | null>(
+    (data || []).map((row: { id: string; role: string | null }) => [row.id, row.role])
+  );
+  const missing = ids.filter((id) => !roles.has(id));
+  if (missing.length > 0) {
+    return `Unknown user: ${missing.join(", ")}`;
+  }
+
+  const notManagers = input.manager_ids.filter((id) => roles.get(id) !== "manager");
+  if (notManagers.length > 0) {
+    return `Only managers can be limited to a group: ${notManagers.join(", ")}`;
+  }
+
+  return null;
+}
+
+const replaceGroupRows = async (
+  supabase: any,
+  table: "employee_group_members" | "manager_group_scopes",
+  column: "user_id" | "manager_id",
+  group: Pick<EmployeeGroup, "id" | "organization_id">,
+  ids: string[]
+) => {
+  const { data: existing, error } = await supabase.from(table).select(column).eq("group_id", group.id);
+
+  if (error) {
+    throw new Error(`Failed to fetch ${table}: ${error.message}`);
+  }
+
+  const current = new Set<string>((existing || []).map((row: Record<string, string>) => row[column]));
+  const removed = Array.from(current).filter((id) => !ids.includes(id));
+  const added = ids.filter((id) => !current.has(id));
+
+  if (removed.length > 0) {
+    const { error: deleteError } = await supabase
+      .from(table)
+      .delete()
+      .eq("group_id", group.id)
+      .in(column, removed);
+
+    if (deleteError) {
+      throw new Error(`Failed to update ${table}: ${deleteError.message}`);
+    }
+  }
+
+  if (added.length > 0) {
+    const { error: insertError } = await supabase.from(table).insert(
+      added.map((id) => ({ organization_id: group.organization_id, group_id: group.id, [column]: id }))
+    );
+
+    if (insertError) {
+      throw new Error(`Failed to update ${table}: ${insertError.message}`);
+    }
+  }
+
+  return { added, removed };
+};
+
+/**
+ * Make the group's members exactly memberIds
+ */
+export async function replaceGroupMembers(
+  supabase: any,
+  group: Pick<EmployeeGroup, "id" | "organization_id">,
+  memberIds: string[]
+) {
+  return replaceGroupRows(supabase, "employee_group_members", "user_id", group, memberIds);
+}
+
+/**
+ * Make the managers limited to this group exactly managerIds. Scopes have no
+ * write policy, so this needs the service role.
+ */
+export async function replaceManagerScopes(
+  supabase: any,
+  group: Pick<EmployeeGroup, "id" | "organization_id">,
+  managerIds: string[]
+) {
+  return replaceGroupRows(supabase, "manager_group_scopes", "manager_id", group, managerIds);
+}
@@ -0,0 +1,494 @@
+import { format, parseISO, startOfWeek } from "date-fns";
+import { getDateKeyInTimeZone, resolveTimeZone } from "@/lib/timezone";
+import { buildWorkDays, type WorkDayEntry, type WorkDayOptions } from "@/lib/work-days";
+import { calculateOvertime, defaultOvertimeRules, type OvertimeRules } from "@/lib/overtime";
+
+/**
+ * Minimal shift shape needed to project labor cost
+ */
+export interface LaborCostShift {
+  id: string;
+  user_id: string | null;
+  start_time: string;
+  end_time: string;
+  break_minutes?: number | null;
+  location_id?: string | null;
+  department_id?: string | null;
+  position_id?: string | null;
+  status?: string | null;
+}
+
+export interface LaborCostTotals {
+  hours: number;
+  overtimeHours: number;
+  cost: number;
+}
+
+export interface LaborCostProjection {
+  total: LaborCostTotals;
+  // Keyed by yyyy-MM-dd of the shift start
+  byDay: Record<string, LaborCostTotals>;
+  // Keyed by location/department id; shifts without one use UNASSIGNED_KEY
+  byLocation: Record<string, LaborCostTotals>;
+  byDepartment: Record<string, LaborCostTotals>;
+  // Location costs split by workweek start (yyyy-MM-dd), for budget checks
+  byLocationWeek: Record<string, Record<string, LaborCostTotals>>;
+  byShift: Record<string, LaborCostTotals>;
+  // Hours on open shifts, which have no rate yet
+  openShiftHours: number;
+  // Employees with scheduled hours but no hourly rate
+  missingRates: string[];
+}
+
+export interface LaborCostOptions {
+  rules?: OvertimeRules;
+  // Calendar days are taken in this zone, otherwise the local zone
+  timeZone?: string | null;
+  // Payroll taxes, benefits and other overhead, as a percentage of wages
+  burdenPercent?: number;
+}
+
+/**
+ * Organization-wide labor cost settings, stored under settings.laborCost
+ */
+export interface LaborCostSettings {
+  // Rate for employees with no rate of their own or for their position
+  defaultHourlyRate: number | null;
+  burdenPercent: number;
+}
+
+export const defaultLaborCostSettings: LaborCostSettings = {
+  defaultHourlyRate: null,
+  burdenPercent: 0,
+};
+
+/**
+ * An employee's hourly rate from effective_from (yyyy-MM-dd) until the next
+ * rate starts
+ */
+export interface PayRate {
+  user_id: string;
+  hourly_rate: number;
+  effective_from: string;
+}
+
+/**
+ * Everything needed to find the rate for a shift. Plain data, so it can be
+ * loaded on the server and passed to client components.
+ */
+export interface LaborRates {
+  defaultHourlyRate: number | null;
+  // Keyed by position id
+  positionRates: Record<string, number | null>;
+  // Keyed by user id, then position id (user_positions.wage_rate)
+  positionWages: Record<string, Record<string, number | null>>;
+  // Keyed by user id, oldest first
+  payRates: Record<string, PayRate[]>;
+}
+
+/**
+ * Hourly rate for an employee on a date (yyyy-MM-dd), or null when none
+ * applies
+ */
+export type LaborRateLookup = (userId: string, dateKey: string, positionId?: string | null) => number | null;
+
+type RateSource = Record<string, number | null | undefined> | LaborRateLookup;
+
+export interface LaborBudgetOverage {
+  locationId: string;
+  weekStart: string;
+  budget: number;
+  cost: number;
+}
+
+export const UNASSIGNED_KEY = "unassigned";
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const emptyTotals = (): LaborCostTotals => ({ hours: 0, overtimeHours: 0, cost: 0 });
+
+const accumulate = (totals: LaborCostTotals, hours: number, overtimeHours: number, cost: number) => {
+  totals.hours += hours;
+  totals.overtimeHours += overtimeHours;
+  totals.cost += cost;
+};
+
+const addTotals = (
+  record: Record<string, LaborCostTotals>,
+  key: string,
+  hours: number,
+  overtimeHours: number,
+  cost: number
+) => accumulate((record[key] ||= emptyTotals()), hours, overtimeHours, cost);
+
+const roundTotals = (totals: LaborCostTotals) => {
+  totals.hours = round(totals.hours);
+  totals.overtimeHours = round(totals.overtimeHours);
+  totals.cost = round(totals.cost);
+};
+
+const toDateKey = (date: Date, timeZone?: string | null) =>
+  timeZone ? getDateKeyInTimeZone(date, timeZone) : format(date, "yyyy-MM-dd");
+
+const weekKey = (dateKey: string, rules: OvertimeRules) =>
+  format(startOfWeek(parseISO(dateKey), { weekStartsOn: rules.weekStartsOn }), "yyyy-MM-dd");
+
+const toRateLookup = (rates: RateSource): LaborRateLookup =>
+  typeof rates === "function"
+    ? rates
+    : (userId) => (rates[userId] != null ? Number(rates[userId]) : null);
+
+const burdenMultiplier = (options: LaborCostOptions) => 1 + Math.max(0, options.burdenPercent || 0) / 100;
+
+export function resolveLaborCostSettings(settings: unknown): LaborCostSettings {
+  const saved = (settings as { laborCost?: Partial<LaborCostSettings> } | null)?.laborCost;
+  return { ...defaultLaborCostSettings, ...saved };
+}
+
+/**
+ * The pay rate in effect on a date: the latest one starting on or before it
+ */
+export function getEffectivePayRate<T extends Pick<PayRate, "effective_from">>(
+  history: T[],
+  dateKey: string
+): T | null {
+  let effective: T | null = null;
+  for (const rate of history) {
+    if (rate.effective_from <= dateKey && (!effective || rate.effective_from >= effective.effective_from)) {
+      effective = rate;
+    }
+  }
+  return effective;
+}
+
+/**
+ * Group rate rows into LaborRates
+ */
+export function buildLaborRates({
+  settings,
+  positions = [],
+  userPositions = [],
+  payRates = [],
+}: {
+  settings: LaborCostSettings;
+  positions?: { id: string; default_hourly_rate: number | null }[];
+  userPositions?: { user_id: string; position_id: string; wage_rate: number | null }[];
+  payRates?: PayRate[];
+}): LaborRates {
+  const rates: LaborRates = {
+    defaultHourlyRate: settings.defaultHourlyRate,
+    positionRates: {},
+    positionWages: {},
+    payRates: {},
+  };
+
+  for (const position of positions) {
+    rates.positionRates[position.id] = position.default_hourly_rate;
+  }
+  for (const userPosition of userPositions) {
+    (rates.positionWages[userPosition.user_id] ||= {})[userPosition.position_id] = userPosition.wage_rate;
+  }
+  for (const payRate of payRates) {
+    (rates.payRates[payRate.user_id] ||= []).push(payRate);
+  }
+  Object.values(rates.payRates).forEach((history) =>
+    history.sort((a, b) => a.effective_from.localeCompare(b.effective_from))
+  );
+
+  return rates;
+}
+
+/**
+ * Look up rates in order: the employee's pay rate in effect on the date, their
+ * wage for the shift's position, the position's default rate, then the
+ * organization default. Position wages have no effective date, so a dated
+ * pay rate wins and raises apply from the day they take effect.
+ */
+export function createLaborRateLookup(rates: LaborRates): LaborRateLookup {
+  return (userId, dateKey, positionId) => {
+    const payRate = getEffectivePayRate(rates.payRates[userId] || [], dateKey);
+    if (payRate) return Number(payRate.hourly_rate);
+
+    const positionWage = positionId ? rates.positionWages[userId]?.[positionId] : null;
+    if (positionWage != null) return Number(positionWage);
+
+    const positionRate = positionId ? rates.positionRates[positionId] : null;
+    if (positionRate != null) return Number(positionRate);
+
+    return rates.defaultHourlyRate != null ? Number(rates.defaultHourlyRate) : null;
+  };
+}
+
+/**
+ * Load the organization's rates for createLaborRateLookup
+ */
+export async function loadLaborRates(
+  supabase: any,
+  organizationId: string,
+  settings: unknown
+): Promise<LaborRates> {
+  const [positionsResult, userPositionsResult, payRatesResult] = await Promise.all([
+    supabase.from("positions").select("id, default_hourly_rate").eq("organization_id", organizationId),
+    supabase
+      .from("user_positions")
+      .select("user_id, position_id, wage_rate, profiles!inner (organization_id)")
+      .eq("profiles.organization_id", organizationId)
+      .not("wage_rate", "is", null),
+    supabase
+      .from("employee_pay_rates")
+      .select("user_id, hourly_rate, effective_from")
+      .eq("organization_id", organizationId),
+  ]);
+
+  const error = positionsResult.error || userPositionsResult.error || payRatesResult.error;
+  if (error) {
+    throw new Error(`Failed to fetch labor rates: ${error.message}`);
+  }
+
+  return buildLaborRates({
+    settings: resolveLaborCostSettings(settings),
+    positions: positionsResult.data || [],
+    userPositions: userPositionsResult.data || [],
+    payRates: payRatesResult.data || [],
+  });
+}
+
+/**
+ * Set profiles.hourly_rate to the employee's pay rate in effect today, so
+ * payroll exports and other places showing a single rate stay current
+ */
+export async function syncCurrentHourlyRate(
+  supabase: any,
+  organization: { id: string; timezone?: string | null },
+  userId: string,
+  now: Date = new Date()
+): Promise<number | null> {
+  const { data, error } = await supabase
+    .from("employee_pay_rates")
+    .select("user_id, hourly_rate, effective_from")
+    .eq("organization_id", organization.id)
+    .eq("user_id", userId);
+
+  if (error) {
+    throw new Error(`Failed to fetch pay rates: ${error.message}`);
+  }
+
+  const today = getDateKeyInTimeZone(now, resolveTimeZone(organization.timezone));
+  const current = getEffectivePayRate<PayRate>(data || [], today);
+  const hourlyRate = current ? Number(current.hourly_rate) : null;
+
+  const { error: updateError } = await supabase
+    .from("profiles")
+    .update({ hourly_rate: hourlyRate })
+    .eq("id", userId);
+
+  if (updateError) {
+    throw new Error(`Failed to update hourly rate: ${updateError.message}`);
+  }
+
+  return hourlyRate;
+}
+
+export function formatLaborCost(value: number) {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 0 });
+}
+
+/**
+ * Paid hours of a shift: its duration less the unpaid break
+ */
+export function getShiftPaidHours(shift: Pick<LaborCostShift, "start_time" | "end_time" | "break_minutes">) {
+  const minutes =
+    (parseISO(shift.end_time).getTime() - parseISO(shift.start_time).getTime()) / 60000 -
+    (shift.break_minutes || 0);
+  return Math.max(0, minutes) / 60;
+}
+
+/**
+ * Project the labor cost of scheduled shifts.
+ *
+ * Each employee's shifts are run through the overtime rules, then every
+ * day's weighted cost is shared across that day's shifts by hours so it can
+ * be totalled per day, location and department. Overtime is only projected
+ * from the shifts passed in, so pass whole workweeks for accurate figures.
+ */
+export function projectLaborCost(
+  shifts: LaborCostShift[],
+  rates: RateSource,
+  options: LaborCostOptions = {}
+): LaborCostProjection {
+  const rules = options.rules || defaultOvertimeRules;
+  const getRate = toRateLookup(rates);
+  const burden = burdenMultiplier(options);
+  const projection: LaborCostProjection = {
+    total: emptyTotals(),
+    byDay: {},
+    byLocation: {},
+    byDepartment: {},
+    byLocationWeek: {},
+    byShift: {},
+    openShiftHours: 0,
+    missingRates: [],
+  };
+
+  const shiftsByUser = new Map<string, { shift: LaborCostShift; date: string; hours: number }[]>();
+
+  for (const shift of shifts) {
+    if (shift.status === "cancelled") continue;
+    const hours = getShiftPaidHours(shift);
+    if (hours <= 0) continue;
+
+    if (!shift.user_id) {
+      projection.openShiftHours += hours;
+      continue;
+    }
+
+    const date = toDateKey(parseISO(shift.start_time), options.timeZone);
+    const userShifts = shiftsByUser.get(shift.user_id) || [];
+    userShifts.push({ shift, date, hours });
+    shiftsByUser.set(shift.user_id, userShifts);
+  }
+
+  shiftsByUser.forEach((userShifts, userId) => {
+    let missingRate = false;
+
+    const overtime = calculateOvertime(
+      userShifts.map(({ date, hours }) => ({ date, hours })),
+      rules
+    );
+    const days = new Map(overtime.days.map((day) => [day.date, day]));
+
+    for (const { shift, date, hours } of userShifts) {
+      const day = days.get(date);
+      if (!day || day.hours <= 0) continue;
+
+      const share = hours / day.hours;
+      const weightedHours = Object.entries(day.buckets).reduce(
+        (sum, [multiplier, bucketHours]) => sum + Number(multiplier) * bucketHours,
+        0
+      );
+      const overtimeHours = day.overtimeHours * share;
+      const rate = getRate(userId, date, shift.position_id);
+      if (rate == null) missingRate = true;
+      const cost = rate != null ? rate * weightedHours * share * burden : 0;
+      const locationKey = shift.location_id || UNASSIGNED_KEY;
+
+      accumulate(projection.total, hours, overtimeHours, cost);
+      addTotals(projection.byDay, date, hours, overtimeHours, cost);
+      addTotals(projection.byLocation, locationKey, hours, overtimeHours, cost);
+      addTotals(projection.byDepartment, shift.department_id || UNASSIGNED_KEY, hours, overtimeHours, cost);
+      addTotals(
+        (projection.byLocationWeek[locationKey] ||= {}),
+        weekKey(date, rules),
+        hours,
+        overtimeHours,
+        cost
+      );
+      addTotals(projection.byShift, shift.id, hours, overtimeHours, cost);
+    }
+
+    if (missingRate) projection.missingRates.push(userId);
+  });
+
+  roundTotals(projection.total);
+  [projection.byDay, projection.byLocation, projection.byDepartment, projection.byShift]
+    .concat(Object.values(projection.byLocationWeek))
+    .forEach((record) => Object.values(record).forEach(roundTotals));
+  projection.openShiftHours = round(projection.openShiftHours);
+
+  return projection;
+}
+
+/**
+ * Locations whose projected cost exceeds their weekly labor budget
+ */
+export function findBudgetOverages(
+  projection: LaborCostProjection,
+  budgets: Record<string, number | null | undefined>
+): LaborBudgetOverage[] {
+  const overages: LaborBudgetOverage[] = [];
+
+  Object.entries(projection.byLocationWeek).forEach(([locationId, weeks]) => {
+    const budget = budgets[locationId];
+    if (budget == null) return;
+
+    Object.entries(weeks).forEach(([weekStart, totals]) => {
+      if (totals.cost > Number(budget)) {
+        overages.push({ locationId, weekStart, budget: Number(budget), cost: totals.cost });
+      }
+    });
+  });
+
+  return overages.sort(
+    (a, b) => a.weekStart.localeCompare(b.weekStart) || b.cost - b.budget - (a.cost - a.budget)
+  );
+}
+
+export interface ActualLaborCost {
+  total: LaborCostTotals;
+  byDay: Record<string, LaborCostTotals>;
+  // Keyed by location name, as recorded on the clock-in
+  byLocation: Record<string, LaborCostTotals>;
+  missingRates: string[];
+}
+
+/**
+ * Labor cost of clocked time. Entries are grouped per employee and paired
+ * into work days (breaks excluded) before overtime rules are applied.
+ */
+export function calculateActualLaborCost(
+  entries: (WorkDayEntry & { user_id: string })[],
+  rates: RateSource,
+  options: WorkDayOptions & Pick<LaborCostOptions, "rules" | "burdenPercent"> = {}
+): ActualLaborCost {
+  const rules = options.rules || defaultOvertimeRules;
+  const getRate = toRateLookup(rates);
+  const burden = burdenMultiplier(options);
+  const actual: ActualLaborCost = {
+    total: emptyTotals(),
+    byDay: {},
+    byLocation: {},
+    missingRates: [],
+  };
+
+  const entriesByUser = new Map<string, WorkDayEntry[]>();
+  for (const entry of entries) {
+    const userEntries = entriesByUser.get(entry.user_id) || [];
+    userEntries.push(entry);
+    entriesByUser.set(entry.user_id, userEntries);
+  }
+
+  entriesByUser.forEach((userEntries, userId) => {
+    const workDays = buildWorkDays(userEntries, options).filter((day) => day.workMinutes > 0);
+    if (workDays.length === 0) return;
+
+    let missingRate = false;
+
+    const overtime = calculateOvertime(
+      workDays.map((day) => ({ date: day.date, hours: day.workMinutes / 60 })),
+      rules
+    );
+
+    for (const day of overtime.days) {
+      const weightedHours = Object.entries(day.buckets).reduce(
+        (sum, [multiplier, hours]) => sum + Number(multiplier) * hours,
+        0
+      );
+      // Clocked time isn't tied to a position, so position rates don't apply
+      const rate = getRate(userId, day.date);
+      if (rate == null) missingRate = true;
+      const cost = rate != null ? rate * weightedHours * burden : 0;
+      const location = workDays.find((workDay) => workDay.date === day.date)?.location || UNASSIGNED_KEY;
+
+      accumulate(actual.total, day.hours, day.overtimeHours, cost);
+      addTotals(actual.byDay, day.date, day.hours, day.overtimeHours, cost);
+      addTotals(actual.byLocation, location, day.hours, day.overtimeHours, cost);
+    }
+
+    if (missingRate) actual.missingRates.push(userId);
+  });
+
+  roundTotals(actual.total);
+  [actual.byDay, actual.byLocation].forEach((record) => Object.values(record).forEach(roundTotals));
+
+  return actual;
+}
@@ -0,0 +1,303 @@
+import webpush from "web-push";
+import type { Database } from "@/types/database.types";
+
+export type NotificationDelivery = Database["public"]["Tables"]["notification_deliveries"]["Row"];
+
+type PushSubscriptionRow = Database["public"]["Tables"]["push_subscriptions"]["Row"];
+
+// Rows handled per dispatcher run; the rest wait for the next run
+export const NOTIFICATION_DISPATCH_BATCH = 500;
+
+export interface NotificationDispatchPlan {
+  push: NotificationDelivery[];
+  email: NotificationDelivery[];
+  // Digest emails, one per user
+  digests: { userId: string; deliveries: NotificationDelivery[] }[];
+}
+
+/**
+ * Sort unsent deliveries that are due into what to send now. Deliveries held
+ * back by quiet hours or waiting for the daily digest are not due yet.
+ */
+export function planNotificationDispatch(deliveries: NotificationDelivery[], now: Date): NotificationDispatchPlan {
+  const due = deliveries
+    .filter(
+      (delivery) =>
+        (delivery.status === "pending" || delivery.status === "sending") && new Date(delivery.send_after) <= now
+    )
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  const digests = new Map<string, NotificationDelivery[]>();
+  const plan: NotificationDispatchPlan = { push: [], email: [], digests: [] };
+
+  due.forEach((delivery) => {
+    if (delivery.channel === "push") {
+      plan.push.push(delivery);
+    } else if (delivery.is_digest) {
+      digests.set(delivery.user_id, [...(digests.get(delivery.user_id) || []), delivery]);
+    } else {
+      plan.email.push(delivery);
+    }
+  });
+
+  plan.digests = Array.from(digests, ([userId, userDeliveries]) => ({ userId, deliveries: userDeliveries }));
+  return plan;
+}
+
+/**
+ * Page a notification opens, matching the notifications dropdown
+ */
+export function getNotificationPath(type: string, data: unknown): string {
+  const values = (data && typeof data === "object" ? data : {}) as Record<string, unknown>;
+
+  if (type === "schedule_published" || type === "schedule_changed") {
+    return typeof values.week_start === "string" ? `/schedule?date=${values.week_start}` : "/schedule";
+  }
+  if (type.startsWith("timesheet_")) {
+    return typeof values.timesheet_id === "string" ? `/timesheets/${values.timesheet_id}` : "/timesheets";
+  }
+  if (type.startsWith("shift_swap_")) return "/shift-swaps";
+  if (type.startsWith("open_shift_")) return "/schedule";
+  if (type === "availability_submitted" || type === "unavailability_submitted") return "/schedule";
+  if (type.startsWith("availability_") || type.startsWith("unavailability_")) return "/profile";
+  if (type === "attendance_no_show") return "/attendance";
+  return "/dashboard";
+}
+
+export interface NotificationEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+export function buildNotificationEmail(delivery: NotificationDelivery, appUrl: string): NotificationEmail {
+  const url = `${appUrl}${getNotificationPath(delivery.type, delivery.data)}`;
+  return {
+    subject: delivery.title,
+    text: `${delivery.body ?? ""}\n\n${url}`.trim(),
+    html: `<p>${escapeHtml(delivery.body ?? "")}</p><p><a href="${escapeHtml(url)}">Open</a></p>`,
+  };
+}
+
+/**
+ * One email summarizing a user's digest deliveries, oldest first
+ */
+export function buildDigestEmail(deliveries: NotificationDelivery[], appUrl: string): NotificationEmail {
+  const count = deliveries.length;
+  const items = deliveries.map((delivery) => ({
+    title: delivery.title,
+    body: delivery.body ?? "",
+    url: `${appUrl}${getNotificationPath(delivery.type, delivery.data)}`,
+  }));
+
+  return {
+    subject: `Your daily summary: ${count} notification${count !== 1 ? "s" : ""}`,
+    text: items.map((item) => `${item.title}\n${item.body}\n${item.url}`.trim()).join("\n\n"),
+    html: `<ul>${items
+      .map(
+        (item) =>
+          `<li><p><a href="${escapeHtml(item.url)}"><strong>${escapeHtml(item.title)}</strong></a></p><p>${escapeHtml(item.body)}</p></li>`
+      )
+      .join("")}</ul>`,
+  };
+}
+
+/**
+ * Send an email through Resend. Requires RESEND_API_KEY and
+ * NOTIFICATION_EMAIL_FROM.
+ */
+async function sendEmail(to: string, email: NotificationEmail) {
+  const apiKey = process.env.RESEND_API_KEY;
+  const from = process.env.NOTIFICATION_EMAIL_FROM;
+  if (!apiKey || !from) {
+    throw new Error("Email is not configured");
+  }
+
+  const response = await fetch("https://api.resend.com/emails", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ from, to, subject: email.subject, text: email.text, html: email.html }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Email provider returned ${response.status}`);
+  }
+}
+
+/**
+ * Configure web push from NEXT_PUBLIC_VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and
+ * VAPID_SUBJECT. Returns false when push is not configured.
+ */
+function configureWebPush() {
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  const subject = process.env.VAPID_SUBJECT;
+  if (!publicKey || !privateKey || !subject) return false;
+
+  webpush.setVapidDetails(subject, publicKey, privateKey);
+  return true;
+}
+
+/**
+ * Send a push notification to every subscription a user has. Subscriptions
+ * the push service reports as gone are removed.
+ */
+async function sendPush(supabase: any, delivery: NotificationDelivery, subscriptions: PushSubscriptionRow[]) {
+  if (subscriptions.length === 0) {
+    throw new Error("No push subscriptions");
+  }
+
+  // The service worker routes clicks by data.type, falling back to data.url
+  const payload = JSON.stringify({
+    title: delivery.title,
+    body: delivery.body ?? "",
+    tag: delivery.type,
+    data: { type: delivery.type, url: getNotificationPath(delivery.type, delivery.data) },
+  });
+
+  let delivered = 0;
+  const gone: string[] = [];
+  for (const subscription of subscriptions) {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        payload
+      );
+      delivered++;
+    } catch (error) {
+      const statusCode = (error as { statusCode?: number }).statusCode;
+      if (statusCode === 404 || statusCode === 410) {
+        gone.push(subscription.id);
+      } else {
+        console.error("Error sending push notification:", error);
+      }
+    }
+  }
+
+  if (gone.length > 0) {
+    await supabase.from("push_subscriptions").delete().in("id", gone);
+  }
+
+  if (delivered === 0) {
+    throw new Error("No push subscription accepted the notification");
+  }
+}
+
+async function markDeliveries(supabase: any, ids: string[], error: string | null) {
+  const { error: updateError } = await supabase
+    .from("notification_deliveries")
+    .update(
+      error
+        ? { status: "failed", error }
+        : { status: "sent", sent_at: new Date().toISOString(), error: null }
+    )
+    .in("id", ids);
+
+  if (updateError) {
+    throw new Error(`Failed to update notification deliveries: ${updateError.message}`);
+  }
+}
+
+/**
+ * Send push and email deliveries that are due, batching digest emails into
+ * one message per user, and mark each delivery sent or failed. The batch is
+ * claimed first so overlapping runs don't send it twice.
+ */
+export async function dispatchNotificationDeliveries(
+  supabase: any,
+  { now = new Date(), appUrl }: { now?: Date; appUrl: string }
+) {
+  const { data: deliveries, error } = await supabase.rpc("claim_notification_deliveries", {
+    p_now: now.toISOString(),
+    p_limit: NOTIFICATION_DISPATCH_BATCH,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim notification deliveries: ${error.message}`);
+  }
+
+  const plan = planNotificationDispatch(deliveries || [], now);
+  const pushUserIds = Array.from(new Set(plan.push.map((delivery) => delivery.user_id)));
+  const emailUserIds = Array.from(
+    new Set([...plan.email.map((delivery) => delivery.user_id), ...plan.digests.map((digest) => digest.userId)])
+  );
+
+  const [subscriptionsResult, profilesResult] = await Promise.all([
+    pushUserIds.length > 0
+      ? supabase.from("push_subscriptions").select("*").in("user_id", pushUserIds)
+      : Promise.resolve({ data: [], error: null }),
+    emailUserIds.length > 0
+      ? supabase.from("profiles").select("id, email").in("id", emailUserIds)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  if (subscriptionsResult.error) {
+    throw new Error(`Failed to fetch push subscriptions: ${subscriptionsResult.error.message}`);
+  }
+  if (profilesResult.error) {
+    throw new Error(`Failed to fetch profiles: ${profilesResult.error.message}`);
+  }
+
+  const subscriptionsByUser = new Map<string, PushSubscriptionRow[]>();
+  (subscriptionsResult.data || []).forEach((subscription: PushSubscriptionRow) => {
+    subscriptionsByUser.set(subscription.user_id, [
+      ...(subscriptionsByUser.get(subscription.user_id) || []),
+      subscription,
+    ]);
+  });
+  const emails = new Map<string, string>(
+    (profilesResult.data || []).map((profile: { id: string; email: string }) => [profile.id, profile.email])
+  );
+
+  let sent = 0;
+  let failed = 0;
+
+  // Send, then record the outcome for the deliveries the message covers
+  const attempt = async (ids: string[], send: () => Promise<void>) => {
+    let failure: string | null = null;
+    try {
+      await send();
+    } catch (sendError) {
+      failure = sendError instanceof Error ? sendError.message : "Unknown error";
+    }
+    await markDeliveries(supabase, ids, failure);
+    if (failure) {
+      failed += ids.length;
+    } else {
+      sent += ids.length;
+    }
+  };
+
+  const pushConfigured = plan.push.length > 0 && configureWebPush();
+  for (const delivery of plan.push) {
+    await attempt([delivery.id], async () => {
+      if (!pushConfigured) throw new Error("Push is not configured");
+      await sendPush(supabase, delivery, subscriptionsByUser.get(delivery.user_id) || []);
+    });
+  }
+
+  const sendTo = async (userId: string, email: NotificationEmail) => {
+    const address = emails.get(userId);
+    if (!address) throw new Error("No email address");
+    await sendEmail(address, email);
+  };
+
+  for (const delivery of plan.email) {
+    await attempt([delivery.id], () => sendTo(delivery.user_id, buildNotificationEmail(delivery, appUrl)));
+  }
+
+  for (const digest of plan.digests) {
+    await attempt(
+      digest.deliveries.map((delivery) => delivery.id),
+      () => sendTo(digest.userId, buildDigestEmail(digest.deliveries, appUrl))
+    );
+  }
+
+  return { sent, failed };
+}
@@ -0,0 +1,224 @@
+import { dateTimeInTimeZone, getDateKeyInTimeZone, nextDateKey } from "@/lib/timezone";
+
+export type NotificationChannel = "in_app" | "push" | "email";
+
+export type NotificationChannels = Record<NotificationChannel, boolean>;
+
+/**
+ * Events employees can set preferences for. Each covers one or more
+ * notification types written by lib/notifications.
+ */
+export const notificationEvents = [
+  {
+    key: "schedule_published",
+    label: "Schedule published",
+    description: "Your schedule for a week is published or republished.",
+    types: ["schedule_published"],
+    defaults: { in_app: true, push: true, email: true },
+  },
+  {
+    key: "schedule_changed",
+    label: "Schedule changed",
+    description: "Shifts in a published week are added, changed or removed.",
+    types: ["schedule_changed"],
+    defaults: { in_app: true, push: true, email: false },
+  },
+  {
+    key: "swap_requested",
+    label: "Swap requested",
+    description: "A coworker asks to swap shifts with you.",
+    types: ["shift_swap_requested"],
+    defaults: { in_app: true, push: true, email: false },
+  },
+  {
+    key: "swap_updates",
+    label: "Swap updates",
+    description: "Your swap request is accepted, approved or declined.",
+    types: ["shift_swap_accepted", "shift_swap_approved", "shift_swap_rejected"],
+    defaults: { in_app: true, push: true, email: false },
+  },
+  {
+    key: "open_shifts",
+    label: "Open shifts",
+    description: "An open shift is posted, or your claim is approved or declined.",
+    types: ["open_shift_posted", "open_shift_claim_approved", "open_shift_claim_rejected"],
+    defaults: { in_app: true, push: true, email: false },
+  },
+  {
+    key: "timesheet_approved",
+    label: "Timesheet submitted or approved",
+    description: "Your timesheet is submitted or approved.",
+    types: ["timesheet_submitted", "timesheet_approved"],
+    defaults: { in_app: true, push: false, email: false },
+  },
+  {
+    key: "timesheet_rejected",
+    label: "Timesheet rejected",
+    description: "Your timesheet is sent back for changes.",
+    types: ["timesheet_rejected"],
+    defaults: { in_app: true, push: true, email: true },
+  },
+  {
+    key: "availability",
+    label: "Availability reviewed",
+    description: "Your availability or unavailability is approved or declined.",
+    types: [
+      "availability_approved",
+      "availability_rejected",
+      "unavailability_approved",
+      "unavailability_rejected",
+    ],
+    defaults: { in_app: true, push: true, email: false },
+  },
+  {
+    key: "approvals",
+    label: "Waiting for your approval",
+    description: "Timesheets, swaps, claims and availability your team submits for review.",
+    types: [
+      "timesheet_pending_approval",
+      "shift_swap_pending_approval",
+      "open_shift_claim_pending",
+      "availability_submitted",
+      "unavailability_submitted",
+    ],
+    defaults: { in_app: true, push: true, email: false },
+  },
+  {
+    key: "attendance",
+    label: "No-shows",
+    description: "An employee has not clocked in for their shift.",
+    types: ["attendance_no_show"],
+    defaults: { in_app: true, push: true, email: false },
+  },
+] as const satisfies readonly {
+  key: string;
+  label: string;
+  description: string;
+  types: readonly string[];
+  defaults: NotificationChannels;
+}[];
+
+export type NotificationEventKey = (typeof notificationEvents)[number]["key"];
+
+// Types without an event of their own
+const otherEventDefaults: NotificationChannels = { in_app: true, push: false, email: false };
+
+/**
+ * Per-user notification preferences, stored in profiles.notification_settings.
+ * Quiet hours hold push and email until they end; the daily digest sends one
+ * email a day instead of an email per notification.
+ */
+export interface NotificationPreferences {
+  events: Partial<Record<NotificationEventKey, NotificationChannels>>;
+  quietHours: {
+    enabled: boolean;
+    // HH:mm, in the organization's time zone
+    start: string;
+    end: string;
+  };
+  digest: {
+    enabled: boolean;
+    // HH:mm, in the organization's time zone
+    time: string;
+  };
+}
+
+export const defaultNotificationPreferences: NotificationPreferences = {
+  events: {},
+  quietHours: { enabled: false, start: "22:00", end: "07:00" },
+  digest: { enabled: false, time: "08:00" },
+};
+
+const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export function resolveNotificationPreferences(settings: unknown): NotificationPreferences {
+  const saved = (settings ?? {}) as Partial<NotificationPreferences>;
+  const quietHours = { ...defaultNotificationPreferences.quietHours, ...saved.quietHours };
+  const digest = { ...defaultNotificationPreferences.digest, ...saved.digest };
+
+  return {
+    events: { ...saved.events },
+    quietHours: {
+      ...quietHours,
+      start: timePattern.test(quietHours.start) ? quietHours.start : defaultNotificationPreferences.quietHours.start,
+      end: timePattern.test(quietHours.end) ? quietHours.end : defaultNotificationPreferences.quietHours.end,
+    },
+    digest: {
+      ...digest,
+      time: timePattern.test(digest.time) ? digest.time : defaultNotificationPreferences.digest.time,
+    },
+  };
+}
+
+/**
+ * The channels a notification type goes out on, after the user's preferences
+ */
+export function getNotificationChannels(preferences: NotificationPreferences, type: string): NotificationChannels {
+  const event = notificationEvents.find((e) => (e.types as readonly string[]).includes(type));
+  if (!event) return otherEventDefaults;
+  return { ...event.defaults, ...preferences.events[event.key] };
+}
+
+/**
+ * The next instant a wall-clock time (HH:mm) occurs after now in the given time zone
+ */
+export function getNextLocalTime(now: Date, time: string, timeZone: string): Date {
+  const today = getDateKeyInTimeZone(now, timeZone);
+  const todayAt = dateTimeInTimeZone(today, time, timeZone);
+  return todayAt > now ? todayAt : dateTimeInTimeZone(nextDateKey(today), time, timeZone);
+}
+
+/**
+ * When quiet hours are in effect, the instant they end; otherwise null
+ */
+export function getQuietHoursEnd(
+  quietHours: NotificationPreferences["quietHours"],
+  now: Date,
+  timeZone: string
+): Date | null {
+  if (!quietHours.enabled || quietHours.start === quietHours.end) return null;
+
+  // Inside the window exactly when it ends before it next starts
+  const end = getNextLocalTime(now, quietHours.end, timeZone);
+  const start = getNextLocalTime(now, quietHours.start, timeZone);
+  return end < start ? end : null;
+}
+
+export interface PlannedDelivery {
+  channel: Exclude<NotificationChannel, "in_app">;
+  sendAfter: Date;
+  isDigest: boolean;
+}
+
+/**
+ * Decide how a notification reaches the user: whether an in-app row is
+ * written, and when push and email go out. In-app notifications are silent,
+ * so quiet hours only hold back push and email.
+ */
+export function planNotificationDelivery(
+  preferences: NotificationPreferences,
+  type: string,
+  now: Date,
+  timeZone: string
+): { inApp: boolean; deliveries: PlannedDelivery[] } {
+  const channels = getNotificationChannels(preferences, type);
+  const quietHoursEnd = getQuietHoursEnd(preferences.quietHours, now, timeZone);
+  const deliveries: PlannedDelivery[] = [];
+
+  if (channels.push) {
+    deliveries.push({ channel: "push", sendAfter: quietHoursEnd ?? now, isDigest: false });
+  }
+
+  if (channels.email) {
+    if (preferences.digest.enabled) {
+      const digestAt = getNextLocalTime(now, preferences.digest.time, timeZone);
+      // A digest time inside quiet hours waits for them to end
+      const sendAfter = getQuietHoursEnd(preferences.quietHours, digestAt, timeZone) ?? digestAt;
+      deliveries.push({ channel: "email", sendAfter, isDigest: true });
+    } else {
+      deliveries.push({ channel: "email", sendAfter: quietHoursEnd ?? now, isDigest: false });
+    }
+  }
+
+  return { inApp: channels.in_app, deliveries };
+}
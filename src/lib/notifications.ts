@@ -1,23 +1,70 @@
+import { formatInTimeZone, resolveTimeZone } from "@/lib/timezone";
+import { planNotificationDelivery, resolveNotificationPreferences } from "@/lib/notification-preferences";
 import type { Database } from "@/types/database.types";
 
 type NotificationInsert = Database["public"]["Tables"]["notifications"]["Insert"];
 
 /**
- * Create a notification for a user
+ * Create a notification for a user. The recipient's notification preferences
+ * decide whether it appears in the app and whether push and email deliveries
+ * are queued, held back until quiet hours end or saved for the daily digest.
  */
 export async function createNotification(
   supabase: any,
   notification: Omit<NotificationInsert, "id" | "created_at">
 ): Promise<void> {
   try {
+    const { data: recipient, error: recipientError } = await supabase
+      .from("profiles")
+      .select("notification_settings, organizations!profiles_organization_id_fkey (timezone)")
+      .eq("id", notification.user_id)
+      .maybeSingle();
+
+    if (recipientError) {
+      // Fall back to the default preferences
+      console.error("Error loading notification preferences:", recipientError);
+    }
+
+    const now = new Date();
+    const { inApp, deliveries } = planNotificationDelivery(
+      resolveNotificationPreferences(recipient?.notification_settings),
+      notification.type,
+      now,
+      resolveTimeZone(recipient?.organizations?.timezone)
+    );
+
+    if (!inApp && deliveries.length === 0) return;
+
+    // Push and email deliveries are copied from the stored notification by
+    // queue_notification_deliveries, which also removes it again when the
+    // recipient has in-app notifications turned off
+    const notificationId = crypto.randomUUID();
     const { error } = await supabase.from("notifications").insert({
       ...notification,
-      created_at: new Date().toISOString(),
+      id: notificationId,
+      created_at: now.toISOString(),
     });
 
     if (error) {
       console.error("Error creating notification:", error);
       // Don't throw - notifications are non-critical
+      return;
+    }
+
+    if (deliveries.length > 0) {
+      const { error: queueError } = await supabase.rpc("queue_notification_deliveries", {
+        p_notification_id: notificationId,
+        p_deliveries: deliveries.map((delivery) => ({
+          channel: delivery.channel,
+          send_after: delivery.sendAfter.toISOString(),
+          is_digest: delivery.isDigest,
+        })),
+        p_keep_notification: inApp,
+      });
+
+      if (queueError) {
+        console.error("Error queueing notification deliveries:", queueError);
+      }
     }
   } catch (error) {
     console.error("Error creating notification:", error);
@@ -190,6 +237,83 @@ export async function createShiftSwapNotification(
   });
 }
 
+/**
+ * Create a notification for the open shift marketplace
+ */
+export async function createOpenShiftNotification(
+  supabase: any,
+  {
+    userId,
+    organizationId,
+    type,
+    shiftId,
+    shiftDate,
+    claimId,
+    claimantName,
+  }: {
+    userId: string;
+    organizationId: string;
+    type: "open_shift_posted" | "claim_pending" | "claim_approved" | "claim_rejected";
+    shiftId: string;
+    shiftDate: string;
+    claimId?: string;
+    claimantName?: string;
+  }
+): Promise<void> {
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString("en-US", {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+    });
+  };
+
+  const dateStr = formatDate(shiftDate);
+
+  let title: string;
+  let body: string;
+  let notificationType: string;
+
+  switch (type) {
+    case "open_shift_posted":
+      title = "Open Shift Available";
+      body = `An open shift on ${dateStr} is available to claim.`;
+      notificationType = "open_shift_posted";
+      break;
+    case "claim_pending":
+      title = "Open Shift Claim Pending";
+      body = `${claimantName || "An employee"} has claimed the open shift on ${dateStr} and is waiting for approval.`;
+      notificationType = "open_shift_claim_pending";
+      break;
+    case "claim_approved":
+      title = "Open Shift Claim Approved";
+      body = `Your claim for the open shift on ${dateStr} has been approved. The shift is now on your schedule.`;
+      notificationType = "open_shift_claim_approved";
+      break;
+    case "claim_rejected":
+      title = "Open Shift Claim Declined";
+      body = `Your claim for the open shift on ${dateStr} has been declined.`;
+      notificationType = "open_shift_claim_rejected";
+      break;
+    default:
+      return;
+  }
+
+  await createNotification(supabase, {
+    user_id: userId,
+    organization_id: organizationId,
+    type: notificationType,
+    title,
+    body,
+    data: {
+      shift_id: shiftId,
+      claim_id: claimId,
+      claimant_name: claimantName,
+      shift_date: shiftDate,
+    },
+  });
+}
+
 /**
  * Create a notification for admins when a timesheet is submitted
  */
@@ -235,3 +359,228 @@ export async function createTimesheetSubmittedAdminNotification(
     },
   });
 }
+
+/**
+ * Create a notification for availability changes and one-off unavailability
+ */
+export async function createAvailabilityNotification(
+  supabase: any,
+  {
+    userId,
+    organizationId,
+    type,
+    requestId,
+    employeeName,
+    startDate,
+    endDate,
+    reviewComment,
+  }: {
+    userId: string;
+    organizationId: string;
+    type:
+      | "availability_submitted"
+      | "availability_approved"
+      | "availability_rejected"
+      | "unavailability_submitted"
+      | "unavailability_approved"
+      | "unavailability_rejected";
+    requestId: string;
+    employeeName?: string;
+    startDate?: string;
+    endDate?: string;
+    reviewComment?: string | null;
+  }
+): Promise<void> {
+  const formatDate = (date: string) => {
+    return new Date(`${date}T00:00:00`).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+    });
+  };
+
+  const dates =
+    startDate && endDate && startDate !== endDate
+      ? `${formatDate(startDate)} - ${formatDate(endDate)}`
+      : startDate
+        ? formatDate(startDate)
+        : "";
+  const comment = reviewComment ? ` Comment: ${reviewComment}` : "";
+
+  let title: string;
+  let body: string;
+
+  switch (type) {
+    case "availability_submitted":
+      title = "Availability Change Pending";
+      body = `${employeeName || "An employee"} has requested a change to their availability.`;
+      break;
+    case "availability_approved":
+      title = "Availability Approved";
+      body = `Your availability change has been approved.${comment}`;
+      break;
+    case "availability_rejected":
+      title = "Availability Declined";
+      body = `Your availability change has been declined.${comment}`;
+      break;
+    case "unavailability_submitted":
+      title = "Unavailability Pending";
+      body = `${employeeName || "An employee"} is unavailable on ${dates} and is waiting for approval.`;
+      break;
+    case "unavailability_approved":
+      title = "Unavailability Approved";
+      body = `Your unavailability on ${dates} has been approved.${comment}`;
+      break;
+    case "unavailability_rejected":
+      title = "Unavailability Declined";
+      body = `Your unavailability on ${dates} has been declined.${comment}`;
+      break;
+    default:
+      return;
+  }
+
+  await createNotification(supabase, {
+    user_id: userId,
+    organization_id: organizationId,
+    type,
+    title,
+    body,
+    data: {
+      request_id: requestId,
+      employee_name: employeeName,
+      start_date: startDate,
+      end_date: endDate,
+    },
+  });
+}
+
+/**
+ * Tell an employee what changed in their schedule for a week: shifts added,
+ * changed and removed. A publish after the week's first one summarizes the
+ * changes since the previous publish.
+ */
+export async function createScheduleNotification(
+  supabase: any,
+  {
+    userId,
+    organizationId,
+    weekStart,
+    added,
+    changed,
+    removed,
+    published = false,
+    republished = false,
+    timeZone,
+  }: {
+    userId: string;
+    organizationId: string;
+    // yyyy-MM-dd
+    weekStart: string;
+    added: { id: string; start_time: string }[];
+    changed: { id: string; start_time: string }[];
+    removed: { id: string; start_time: string }[];
+    published?: boolean;
+    republished?: boolean;
+    timeZone?: string | null;
+  }
+): Promise<void> {
+  if (added.length + changed.length + removed.length === 0) return;
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString("en-US", {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      ...(timeZone ? { timeZone } : {}),
+    });
+  };
+
+  const describe = (shifts: { start_time: string }[], verb: string) => {
+    const dates = shifts.map((shift) => shift.start_time).sort().map(formatDate);
+    const listed =
+      dates.length > 3 ? `${dates.slice(0, 3).join("; ")} and ${dates.length - 3} more` : dates.join("; ");
+    return `${dates.length} shift${dates.length !== 1 ? "s" : ""} ${verb} (${listed})`;
+  };
+
+  const parts = [
+    added.length > 0 ? describe(added, "added") : null,
+    changed.length > 0 ? describe(changed, "changed") : null,
+    removed.length > 0 ? describe(removed, "removed") : null,
+  ].filter(Boolean);
+
+  const week = new Date(`${weekStart}T12:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+
+  let title: string;
+  let body: string;
+
+  if (published && !republished) {
+    title = "Schedule Published";
+    body = `Your schedule for the week of ${week} has been published: ${parts.join(", ")}.`;
+  } else if (published) {
+    title = "Schedule Updated";
+    body = `Your schedule for the week of ${week} has been republished. Since the last publish: ${parts.join(", ")}.`;
+  } else {
+    title = "Schedule Changed";
+    body = `Your schedule for the week of ${week} has changed: ${parts.join(", ")}.`;
+  }
+
+  await createNotification(supabase, {
+    user_id: userId,
+    organization_id: organizationId,
+    type: published ? "schedule_published" : "schedule_changed",
+    title,
+    body,
+    data: {
+      week_start: weekStart,
+      added_shift_ids: added.map((shift) => shift.id),
+      changed_shift_ids: changed.map((shift) => shift.id),
+      removed_shift_ids: removed.map((shift) => shift.id),
+    },
+  });
+}
+
+/**
+ * Alert a manager that an employee did not show up for their shift
+ */
+export async function createAttendanceNotification(
+  supabase: any,
+  {
+    userId,
+    organizationId,
+    exceptionId,
+    employeeName,
+    shiftStart,
+    timeZone,
+  }: {
+    userId: string;
+    organizationId: string;
+    exceptionId: string;
+    employeeName: string;
+    shiftStart: string;
+    timeZone: string;
+  }
+): Promise<void> {
+  const shiftTime = formatInTimeZone(new Date(shiftStart), timeZone, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+  await createNotification(supabase, {
+    user_id: userId,
+    organization_id: organizationId,
+    type: "attendance_no_show",
+    title: "No-Show",
+    body: `${employeeName} has not clocked in for their shift starting ${shiftTime}.`,
+    data: {
+      exception_id: exceptionId,
+      employee_name: employeeName,
+      shift_start: shiftStart,
+    },
+  });
+}
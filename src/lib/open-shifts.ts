@@ -0,0 +1,148 @@
+import type { Json } from "@/types/database.types";
+
+/**
+ * Pseudo member id used for the open shift lane in the schedule calendar
+ */
+export const OPEN_SHIFT_LANE_ID = "open";
+
+export interface OpenShiftSettings {
+  enabled: boolean;
+  /** When false, the first eligible claim is assigned immediately */
+  requireApproval: boolean;
+  notifyEligibleEmployees: boolean;
+}
+
+export const defaultOpenShiftSettings: OpenShiftSettings = {
+  enabled: true,
+  requireApproval: true,
+  notifyEligibleEmployees: true,
+};
+
+export type OpenShiftClaimStatus = "pending" | "approved" | "rejected" | "cancelled";
+
+export interface OpenShiftEligibilityShift {
+  position_id: string | null;
+  location_id: string | null;
+}
+
+export interface OpenShiftEligibilityMember {
+  id: string;
+  user_positions?: { position_id: string }[] | null;
+  user_locations?: { location_id: string }[] | null;
+}
+
+/**
+ * Resolve open shift settings from an organization's settings JSON
+ */
+export function resolveOpenShiftSettings(settings: Json | null | undefined): OpenShiftSettings {
+  const saved = (settings as any)?.openShiftSettings;
+  return { ...defaultOpenShiftSettings, ...saved };
+}
+
+/**
+ * An employee may claim an open shift when they hold its position and are
+ * assigned to its location. Shifts without a position or location do not
+ * restrict on that dimension.
+ */
+export function isEligibleForOpenShift(
+  shift: OpenShiftEligibilityShift,
+  member: OpenShiftEligibilityMember
+): boolean {
+  if (shift.position_id) {
+    const hasPosition = (member.user_positions || []).some(
+      (up) => up.position_id === shift.position_id
+    );
+    if (!hasPosition) return false;
+  }
+
+  if (shift.location_id) {
+    const hasLocation = (member.user_locations || []).some(
+      (ul) => ul.location_id === shift.location_id
+    );
+    if (!hasLocation) return false;
+  }
+
+  return true;
+}
+
+export function getEligibleMembers<T extends OpenShiftEligibilityMember>(
+  shift: OpenShiftEligibilityShift,
+  members: T[]
+): T[] {
+  return members.filter((member) => isEligibleForOpenShift(shift, member));
+}
+
+/**
+ * Fetch an employee's positions and locations for eligibility checks
+ */
+export async function fetchEligibilityMember(
+  supabase: any,
+  userId: string
+): Promise<OpenShiftEligibilityMember | null> {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select(`
+      id,
+      user_positions (position_id),
+      user_locations (location_id)
+    `)
+    .eq("id", userId)
+    .single();
+
+  if (error) {
+    console.error("Error fetching employee eligibility:", error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Fetch active employees in an organization who can claim an open shift
+ */
+export async function fetchEligibleEmployees(
+  supabase: any,
+  organizationId: string,
+  shift: OpenShiftEligibilityShift
+): Promise<{ id: string; first_name: string; last_name: string }[]> {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select(`
+      id, first_name, last_name,
+      user_positions (position_id),
+      user_locations (location_id)
+    `)
+    .eq("organization_id", organizationId)
+    .eq("status", "active");
+
+  if (error) {
+    console.error("Error fetching eligible employees:", error);
+    return [];
+  }
+
+  return getEligibleMembers(shift, data || []);
+}
+
+/**
+ * Assign an open shift to a claimant. The update only applies while the
+ * shift is still open, so two approvals cannot both win.
+ * Returns false when someone else already took the shift.
+ */
+export async function assignOpenShift(
+  supabase: any,
+  shiftId: string,
+  userId: string
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("shifts")
+    .update({ user_id: userId })
+    .eq("id", shiftId)
+    .is("user_id", null)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to assign shift: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
@@ -0,0 +1,252 @@
+import { format, parseISO, startOfWeek, differenceInCalendarDays } from "date-fns";
+import type { Json } from "@/types/database.types";
+
+/**
+ * A multiplier that applies to hours worked beyond `threshold` hours
+ */
+export interface OvertimeTier {
+  threshold: number;
+  multiplier: number;
+}
+
+/**
+ * Organization-level overtime rule set, stored in
+ * `organizations.settings.overtimeRules`
+ */
+export interface OvertimeRules {
+  daily: {
+    enabled: boolean;
+    tiers: OvertimeTier[];
+  };
+  weekly: {
+    enabled: boolean;
+    threshold: number;
+    multiplier: number;
+  };
+  consecutiveDay: {
+    enabled: boolean;
+    // The Nth consecutive day worked within a workweek that triggers the rule
+    day: number;
+    tiers: OvertimeTier[];
+  };
+  weekStartsOn: 0 | 1 | 2 | 3 | 4 | 5 | 6;
+}
+
+// Rules for organizations that haven't saved their own. Organizations that
+// predate configurable rules had their old daily 8 hour rule saved instead.
+export const defaultOvertimeRules: OvertimeRules = {
+  daily: {
+    enabled: false,
+    tiers: [
+      { threshold: 8, multiplier: 1.5 },
+      { threshold: 12, multiplier: 2 },
+    ],
+  },
+  weekly: {
+    enabled: true,
+    threshold: 40,
+    multiplier: 1.5,
+  },
+  consecutiveDay: {
+    enabled: false,
+    day: 7,
+    tiers: [
+      { threshold: 0, multiplier: 1.5 },
+      { threshold: 8, multiplier: 2 },
+    ],
+  },
+  weekStartsOn: 0,
+};
+
+export interface DailyHours {
+  date: string; // yyyy-MM-dd
+  hours: number;
+}
+
+export interface OvertimeDayResult {
+  date: string;
+  hours: number;
+  regularHours: number;
+  overtimeHours: number;
+  buckets: Record<string, number>;
+}
+
+export interface OvertimeResult {
+  totalHours: number;
+  regularHours: number;
+  overtimeHours: number;
+  // Hours keyed by multiplier ("1" is regular time)
+  buckets: Record<string, number>;
+  // Hours weighted by their multiplier, useful for pay calculations
+  weightedHours: number;
+  days: OvertimeDayResult[];
+}
+
+/**
+ * Resolve the overtime rules from an organization's settings JSON,
+ * falling back to defaults for anything not configured
+ */
+export function resolveOvertimeRules(settings: Json | null | undefined): OvertimeRules {
+  const saved = (settings as any)?.overtimeRules;
+  if (!saved) return defaultOvertimeRules;
+
+  return {
+    daily: { ...defaultOvertimeRules.daily, ...saved.daily },
+    weekly: { ...defaultOvertimeRules.weekly, ...saved.weekly },
+    consecutiveDay: { ...defaultOvertimeRules.consecutiveDay, ...saved.consecutiveDay },
+    weekStartsOn: saved.weekStartsOn ?? defaultOvertimeRules.weekStartsOn,
+  };
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const addToBucket = (buckets: Record<string, number>, multiplier: number, hours: number) => {
+  if (hours <= 0) return;
+  const key = String(multiplier);
+  buckets[key] = (buckets[key] || 0) + hours;
+};
+
+/**
+ * Split a day's hours across tiers. Hours below the lowest threshold are
+ * regular time; each tier applies until the next tier's threshold.
+ */
+function splitByTiers(hours: number, tiers: OvertimeTier[]): Record<string, number> {
+  const buckets: Record<string, number> = {};
+  const sorted = [...tiers].sort((a, b) => a.threshold - b.threshold);
+
+  addToBucket(buckets, 1, Math.min(hours, sorted[0]?.threshold ?? hours));
+
+  sorted.forEach((tier, index) => {
+    const upper = sorted[index + 1]?.threshold ?? Infinity;
+    addToBucket(buckets, tier.multiplier, Math.min(hours, upper) - tier.threshold);
+  });
+
+  return buckets;
+}
+
+/**
+ * Apply overtime rules to a list of daily worked hours.
+ *
+ * Daily and consecutive-day tiers are applied first. Weekly overtime then
+ * applies only to the remaining regular hours, so the same hour is never
+ * counted twice.
+ */
+export function calculateOvertime(
+  dailyHours: DailyHours[],
+  rules: OvertimeRules = defaultOvertimeRules
+): OvertimeResult {
+  // Merge duplicate dates and sort chronologically
+  const merged = new Map<string, number>();
+  dailyHours.forEach(({ date, hours }) => {
+    if (hours <= 0) return;
+    merged.set(date, (merged.get(date) || 0) + hours);
+  });
+  const sortedDays = Array.from(merged.entries()).sort(([a], [b]) => a.localeCompare(b));
+
+  const days: OvertimeDayResult[] = [];
+  let currentWeek: string | null = null;
+  let weeklyRegularHours = 0;
+  let consecutiveDays = 0;
+  let previousDate: Date | null = null;
+
+  sortedDays.forEach(([date, hours]) => {
+    const day = parseISO(date);
+    const weekKey = format(startOfWeek(day, { weekStartsOn: rules.weekStartsOn }), "yyyy-MM-dd");
+
+    if (weekKey !== currentWeek) {
+      currentWeek = weekKey;
+      weeklyRegularHours = 0;
+      consecutiveDays = 0;
+      previousDate = null;
+    }
+
+    consecutiveDays =
+      previousDate && differenceInCalendarDays(day, previousDate) === 1 ? consecutiveDays + 1 : 1;
+    previousDate = day;
+
+    let buckets: Record<string, number>;
+    if (rules.consecutiveDay.enabled && consecutiveDays >= rules.consecutiveDay.day) {
+      buckets = splitByTiers(hours, rules.consecutiveDay.tiers);
+    } else if (rules.daily.enabled) {
+      buckets = splitByTiers(hours, rules.daily.tiers);
+    } else {
+      buckets = { "1": hours };
+    }
+
+    if (rules.weekly.enabled && buckets["1"]) {
+      const available = Math.max(0, rules.weekly.threshold - weeklyRegularHours);
+      const regular = Math.min(buckets["1"], available);
+      const excess = buckets["1"] - regular;
+      weeklyRegularHours += regular;
+
+      if (regular > 0) {
+        buckets["1"] = regular;
+      } else {
+        delete buckets["1"];
+      }
+      addToBucket(buckets, rules.weekly.multiplier, excess);
+    }
+
+    const regularHours = buckets["1"] || 0;
+    days.push({
+      date,
+      hours: round(hours),
+      regularHours: round(regularHours),
+      overtimeHours: round(hours - regularHours),
+      buckets,
+    });
+  });
+
+  const buckets: Record<string, number> = {};
+  days.forEach((day) => {
+    Object.entries(day.buckets).forEach(([multiplier, hours]) => {
+      addToBucket(buckets, Number(multiplier), hours);
+    });
+  });
+
+  const totalHours = days.reduce((sum, day) => sum + day.hours, 0);
+  const regularHours = buckets["1"] || 0;
+  const weightedHours = Object.entries(buckets).reduce(
+    (sum, [multiplier, hours]) => sum + Number(multiplier) * hours,
+    0
+  );
+
+  Object.keys(buckets).forEach((key) => {
+    buckets[key] = round(buckets[key]);
+  });
+
+  return {
+    totalHours: round(totalHours),
+    regularHours: round(regularHours),
+    overtimeHours: round(totalHours - regularHours),
+    buckets,
+    weightedHours: round(weightedHours),
+    days,
+  };
+}
+
+/**
+ * Human-readable summary of an overtime rule set
+ */
+export function describeOvertimeRules(rules: OvertimeRules): string[] {
+  const lines: string[] = [];
+
+  if (rules.daily.enabled) {
+    rules.daily.tiers.forEach((tier) => {
+      lines.push(`Over ${tier.threshold} hours/day at ${tier.multiplier}x rate`);
+    });
+  }
+  if (rules.weekly.enabled) {
+    lines.push(`Over ${rules.weekly.threshold} hours/week at ${rules.weekly.multiplier}x rate`);
+  }
+  if (rules.consecutiveDay.enabled) {
+    const tiers = rules.consecutiveDay.tiers
+      .map((tier) =>
+        tier.threshold > 0 ? `${tier.multiplier}x after ${tier.threshold} hours` : `${tier.multiplier}x`
+      )
+      .join(", ");
+    lines.push(`Consecutive day ${rules.consecutiveDay.day} of the workweek: ${tiers}`);
+  }
+
+  return lines.length > 0 ? lines : ["No overtime rules configured"];
+}
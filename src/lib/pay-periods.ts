@@ -0,0 +1,94 @@
+import {
+  addDays,
+  addMonths,
+  differenceInCalendarDays,
+  endOfMonth,
+  format,
+  getDaysInMonth,
+  parseISO,
+  setDate,
+} from "date-fns";
+import type { Json } from "@/types/database.types";
+
+/**
+ * How often an organization runs payroll
+ * - weekly / biweekly: periods of 7 or 14 days counted from the anchor date
+ * - semi_monthly: the 1st-15th and the 16th-end of each month
+ * - monthly: one month starting on the anchor's day of month
+ */
+export type PayPeriodFrequency = "weekly" | "biweekly" | "semi_monthly" | "monthly";
+
+export interface PayPeriodSettings {
+  frequency: PayPeriodFrequency;
+  /** First day of any pay period, as yyyy-MM-dd */
+  anchorDate: string;
+}
+
+export interface PayPeriod {
+  start: string;
+  end: string;
+}
+
+export const defaultPayPeriodSettings: PayPeriodSettings = {
+  frequency: "weekly",
+  anchorDate: "2024-01-07", // a Sunday
+};
+
+export const payPeriodFrequencyLabels: Record<PayPeriodFrequency, string> = {
+  weekly: "Weekly",
+  biweekly: "Every two weeks",
+  semi_monthly: "Twice a month",
+  monthly: "Monthly",
+};
+
+/**
+ * Resolve pay period settings from an organization's settings JSON
+ */
+export function resolvePayPeriodSettings(settings: Json | null | undefined): PayPeriodSettings {
+  const saved = (settings as any)?.payPeriod;
+  const resolved = { ...defaultPayPeriodSettings, ...saved };
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(resolved.anchorDate)) {
+    resolved.anchorDate = defaultPayPeriodSettings.anchorDate;
+  }
+  return resolved;
+}
+
+const toKey = (date: Date) => format(date, "yyyy-MM-dd");
+
+/**
+ * Find the pay period containing a local calendar date (yyyy-MM-dd)
+ */
+export function getPayPeriodForDate(dateKey: string, settings: PayPeriodSettings): PayPeriod {
+  const date = parseISO(dateKey);
+  const anchor = parseISO(settings.anchorDate);
+
+  switch (settings.frequency) {
+    case "weekly":
+    case "biweekly": {
+      const length = settings.frequency === "weekly" ? 7 : 14;
+      const offset = differenceInCalendarDays(date, anchor);
+      const index = Math.floor(offset / length);
+      const start = addDays(anchor, index * length);
+      return { start: toKey(start), end: toKey(addDays(start, length - 1)) };
+    }
+    case "semi_monthly": {
+      if (date.getDate() <= 15) {
+        return { start: toKey(setDate(date, 1)), end: toKey(setDate(date, 15)) };
+      }
+      return { start: toKey(setDate(date, 16)), end: toKey(endOfMonth(date)) };
+    }
+    case "monthly": {
+      // Anchor days past the end of a short month fall on its last day
+      const startInMonth = (month: Date) =>
+        setDate(month, Math.min(anchor.getDate(), getDaysInMonth(month)));
+
+      let start = startInMonth(date);
+      if (start > date) {
+        start = startInMonth(addMonths(date, -1));
+      }
+      const nextStart = startInMonth(addMonths(setDate(start, 1), 1));
+      return { start: toKey(start), end: toKey(addDays(nextStart, -1)) };
+    }
+  }
+}
+
@@ -0,0 +1,307 @@
+import { format, parseISO } from "date-fns";
+import {
+  calculatePTODeduction,
+  defaultPTOCalendarSettings,
+  getApplicableHolidays,
+  type Holiday,
+  type PTOCalendarSettings,
+  type PTODurationType,
+} from "@/lib/pto-days";
+
+export interface PayrollPeriod {
+  start: string;
+  end: string;
+}
+
+/**
+ * One employee's payable hours for a pay period
+ */
+export interface PayrollRow {
+  userId: string;
+  employeeCode: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  regularHours: number;
+  overtimeHours: number;
+  ptoHours: number;
+  hourlyRate: number | null;
+}
+
+export interface PayrollExportOptions {
+  companyCode?: string;
+}
+
+export interface PayrollExportProfile {
+  id: string;
+  name: string;
+  description: string;
+  fileExtension: "csv" | "txt";
+  contentType: string;
+  render: (rows: PayrollRow[], period: PayrollPeriod, options: PayrollExportOptions) => string;
+}
+
+interface PayrollEmployee {
+  first_name: string;
+  last_name: string;
+  email: string;
+  employee_code: string | null;
+  hourly_rate: number | null;
+}
+
+interface PayrollTimesheet {
+  user_id: string;
+  total_hours: number | null;
+  overtime_hours: number | null;
+  profiles: PayrollEmployee | null;
+}
+
+interface PayrollPTORequest {
+  user_id: string;
+  start_date: string;
+  end_date: string;
+  total_days: number;
+  duration_type?: PTODurationType | string | null;
+  hours?: number | null;
+  profiles?: PayrollEmployee | null;
+}
+
+/**
+ * Work week, day length and holidays used to turn PTO into hours, the same
+ * calendar PTO balances are deducted with
+ */
+export interface PayrollPTOCalendar {
+  settings: PTOCalendarSettings;
+  holidays: Holiday[];
+  // Location whose holidays apply to each employee
+  locationIds?: Map<string, string | null>;
+}
+
+const defaultPayrollPTOCalendar: PayrollPTOCalendar = {
+  settings: defaultPTOCalendarSettings,
+  holidays: [],
+};
+
+/**
+ * Combine approved timesheets and PTO into one row per employee.
+ * Employees with several timesheets in the pay period are summed, and
+ * employees on leave for the whole period still get a PTO-only row.
+ */
+export function buildPayrollRows(
+  timesheets: PayrollTimesheet[],
+  ptoRequests: PayrollPTORequest[],
+  period: PayrollPeriod,
+  calendar: PayrollPTOCalendar = defaultPayrollPTOCalendar
+): PayrollRow[] {
+  const rows = new Map<string, PayrollRow>();
+
+  const getRow = (userId: string, person: PayrollEmployee | null | undefined): PayrollRow => {
+    let row = rows.get(userId);
+    if (!row) {
+      row = {
+        userId,
+        employeeCode: person?.employee_code || "",
+        firstName: person?.first_name || "",
+        lastName: person?.last_name || "",
+        email: person?.email || "",
+        regularHours: 0,
+        overtimeHours: 0,
+        ptoHours: 0,
+        hourlyRate: person?.hourly_rate ?? null,
+      };
+      rows.set(userId, row);
+    }
+    return row;
+  };
+
+  for (const timesheet of timesheets) {
+    const row = getRow(timesheet.user_id, timesheet.profiles);
+    const total = timesheet.total_hours || 0;
+    const overtime = Math.min(timesheet.overtime_hours || 0, total);
+    row.regularHours += total - overtime;
+    row.overtimeHours += overtime;
+  }
+
+  for (const request of ptoRequests) {
+    const hours = getPTOHoursInPeriod(request, period, calendar);
+    if (hours <= 0) continue;
+    getRow(request.user_id, request.profiles).ptoHours += hours;
+  }
+
+  return Array.from(rows.values()).sort(
+    (a, b) => a.lastName.localeCompare(b.lastName) || a.firstName.localeCompare(b.firstName)
+  );
+}
+
+/**
+ * Hours of a PTO request that fall inside the period. The days deducted when
+ * the request was approved (or its hours, for hourly requests) are spread over
+ * its working days; the calendar only decides which of those days fall in
+ * the period, so later holiday or work week changes don't alter what's paid.
+ */
+export function getPTOHoursInPeriod(
+  request: PayrollPTORequest,
+  period: PayrollPeriod,
+  calendar: PayrollPTOCalendar = defaultPayrollPTOCalendar
+): number {
+  const { workDays, excluded } = calculatePTODeduction(
+    { start_date: request.start_date, end_date: request.end_date },
+    getApplicableHolidays(calendar.holidays, calendar.locationIds?.get(request.user_id)),
+    calendar.settings
+  );
+  // No working days left under today's calendar: spread over every day
+  const days = workDays.length > 0 ? workDays : excluded.map((day) => day.date);
+  if (days.length === 0) return 0;
+
+  const daysInPeriod = days.filter((date) => date >= period.start && date <= period.end).length;
+  if (daysInPeriod === 0) return 0;
+
+  const hours =
+    request.duration_type === "hours" && request.hours != null
+      ? Number(request.hours)
+      : Number(request.total_days) * calendar.settings.hoursPerDay;
+  return (hours * daysInPeriod) / days.length;
+}
+
+function escapeCSV(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  const str = String(value);
+  if (str.includes(",") || str.includes('"') || str.includes("\n")) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+}
+
+function toCSV(headers: string[], rows: (string | number | null)[][]): string {
+  return [headers, ...rows].map((row) => row.map(escapeCSV).join(",")).join("\n") + "\n";
+}
+
+function formatAmount(value: number): string {
+  return (Math.round(value * 100) / 100).toFixed(2);
+}
+
+function formatRate(rate: number | null): string {
+  return rate === null ? "" : formatAmount(rate);
+}
+
+/**
+ * Pad or truncate a value to a fixed column width
+ */
+function fixed(value: string, width: number, align: "left" | "right" = "left"): string {
+  const text = value.slice(0, width);
+  return align === "left" ? text.padEnd(width) : text.padStart(width);
+}
+
+const gustoProfile: PayrollExportProfile = {
+  id: "gusto",
+  name: "Gusto",
+  description: "Hours import CSV with one row per employee",
+  fileExtension: "csv",
+  contentType: "text/csv",
+  render: (rows) =>
+    toCSV(
+      ["last_name", "first_name", "employee_id", "regular_hours", "overtime_hours", "pto_hours", "hourly_rate"],
+      rows.map((row) => [
+        row.lastName,
+        row.firstName,
+        row.employeeCode,
+        formatAmount(row.regularHours),
+        formatAmount(row.overtimeHours),
+        formatAmount(row.ptoHours),
+        formatRate(row.hourlyRate),
+      ])
+    ),
+};
+
+const adpProfile: PayrollExportProfile = {
+  id: "adp",
+  name: "ADP",
+  description: "Paydata batch CSV keyed by company code and file number",
+  fileExtension: "csv",
+  contentType: "text/csv",
+  render: (rows, period, options) =>
+    toCSV(
+      ["Co Code", "Batch ID", "File #", "Rate 1", "Reg Hours", "O/T Hours", "Hours 3 Code", "Hours 3 Amount"],
+      rows.map((row) => [
+        options.companyCode || "",
+        format(parseISO(period.end), "MMddyy"),
+        row.employeeCode,
+        formatRate(row.hourlyRate),
+        formatAmount(row.regularHours),
+        formatAmount(row.overtimeHours),
+        row.ptoHours > 0 ? "V" : "",
+        row.ptoHours > 0 ? formatAmount(row.ptoHours) : "",
+      ])
+    ),
+};
+
+const quickBooksProfile: PayrollExportProfile = {
+  id: "quickbooks",
+  name: "QuickBooks",
+  description: "Time import CSV with one row per employee and payroll item",
+  fileExtension: "csv",
+  contentType: "text/csv",
+  render: (rows, period) => {
+    const items: (string | number | null)[][] = [];
+    for (const row of rows) {
+      const name = `${row.firstName} ${row.lastName}`.trim();
+      const lines: [string, number][] = [
+        ["Hourly Regular", row.regularHours],
+        ["Hourly Overtime", row.overtimeHours],
+        ["Paid Time Off", row.ptoHours],
+      ];
+      for (const [item, hours] of lines) {
+        if (hours <= 0) continue;
+        items.push([name, row.employeeCode, period.start, period.end, item, formatAmount(hours), formatRate(row.hourlyRate)]);
+      }
+    }
+    return toCSV(
+      ["Employee", "Employee ID", "Period Start", "Period End", "Payroll Item", "Hours", "Rate"],
+      items
+    );
+  },
+};
+
+/**
+ * Generic fixed-width layout for providers without a dedicated profile.
+ * Columns: code(10) last name(20) first name(15) period start(8) period end(8)
+ * regular(8) overtime(8) pto(8) rate(9), hours and rate right-aligned.
+ */
+const fixedWidthProfile: PayrollExportProfile = {
+  id: "fixed_width",
+  name: "Fixed width",
+  description: "Generic fixed-width text file for other payroll systems",
+  fileExtension: "txt",
+  contentType: "text/plain",
+  render: (rows, period) => {
+    const periodStart = period.start.replace(/-/g, "");
+    const periodEnd = period.end.replace(/-/g, "");
+    return rows
+      .map((row) =>
+        [
+          fixed(row.employeeCode, 10),
+          fixed(row.lastName, 20),
+          fixed(row.firstName, 15),
+          periodStart,
+          periodEnd,
+          fixed(formatAmount(row.regularHours), 8, "right"),
+          fixed(formatAmount(row.overtimeHours), 8, "right"),
+          fixed(formatAmount(row.ptoHours), 8, "right"),
+          fixed(formatRate(row.hourlyRate), 9, "right"),
+        ].join("")
+      )
+      .map((line) => `${line}\r\n`)
+      .join("");
+  },
+};
+
+export const payrollExportProfiles: PayrollExportProfile[] = [
+  gustoProfile,
+  adpProfile,
+  quickBooksProfile,
+  fixedWidthProfile,
+];
+
+export function getPayrollExportProfile(id: string | null | undefined): PayrollExportProfile | null {
+  return payrollExportProfiles.find((profile) => profile.id === id) || null;
+}
@@ -0,0 +1,441 @@
+import { differenceInCalendarDays, endOfMonth, format, parseISO } from "date-fns";
+import {
+  getPayPeriodForDate,
+  resolvePayPeriodSettings,
+  type PayPeriod,
+  type PayPeriodFrequency,
+  type PayPeriodSettings,
+} from "@/lib/pay-periods";
+import { recordPTOTransactions, type PTOTransactionInput } from "@/lib/pto-ledger";
+import { nextDateKey } from "@/lib/timezone";
+import type { Database, Json } from "@/types/database.types";
+
+type Organization = Database["public"]["Tables"]["organizations"]["Row"];
+type PTOBalance = Database["public"]["Tables"]["pto_balances"]["Row"];
+type PTOPolicy = Database["public"]["Tables"]["pto_policies"]["Row"];
+
+/**
+ * When accruing policies credit time off
+ * - monthly: at the end of each calendar month
+ * - pay_period: at the end of each pay period (see `payPeriod` settings)
+ */
+export type PTOAccrualFrequency = "monthly" | "pay_period";
+
+/**
+ * Stored in `organizations.settings.ptoAccrual`
+ */
+export interface PTOAccrualSettings {
+  frequency: PTOAccrualFrequency;
+}
+
+export const defaultPTOAccrualSettings: PTOAccrualSettings = {
+  frequency: "monthly",
+};
+
+export const ptoAccrualFrequencyLabels: Record<PTOAccrualFrequency, string> = {
+  monthly: "Monthly",
+  pay_period: "Every pay period",
+};
+
+const payPeriodsPerYear: Record<PayPeriodFrequency, number> = {
+  weekly: 52,
+  biweekly: 26,
+  semi_monthly: 24,
+  monthly: 12,
+};
+
+export interface AccrualPeriod extends PayPeriod {
+  // Ledger period_key, e.g. "2024-03" or "2024-03-03/2024-03-16"
+  key: string;
+}
+
+export interface AccrualCredit extends AccrualPeriod {
+  days: number;
+  // Share of the period the employee was employed for
+  fraction: number;
+}
+
+export interface CarryoverCalculation {
+  days: number;
+  // Unused balance at year end, before the cap
+  remaining: number;
+  forfeited: number;
+}
+
+export type PTOAccrualStatus = "updated" | "unchanged" | "failed";
+
+export interface PTOAccrualResult {
+  user_id: string;
+  name: string;
+  policy_id: string;
+  pto_type: string;
+  status: PTOAccrualStatus;
+  balance_id?: string;
+  accrued_days?: number;
+  carryover_days?: number;
+  reason?: string;
+}
+
+export interface PTOAccrualSummary {
+  asOf: string;
+  updated: number;
+  unchanged: number;
+  failed: number;
+  results: PTOAccrualResult[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Resolve accrual settings from an organization's settings JSON
+ */
+export function resolvePTOAccrualSettings(settings: Json | null | undefined): PTOAccrualSettings {
+  const saved = (settings as any)?.ptoAccrual;
+  return {
+    frequency: saved?.frequency === "pay_period" ? "pay_period" : defaultPTOAccrualSettings.frequency,
+  };
+}
+
+/**
+ * Accrual periods that end in a year and have ended by `asOf`. A pay period
+ * that straddles New Year belongs to the year it ends in.
+ */
+export function getAccrualPeriods(
+  year: number,
+  asOf: string,
+  settings: PTOAccrualSettings,
+  payPeriod: PayPeriodSettings
+): AccrualPeriod[] {
+  const periods: AccrualPeriod[] = [];
+  const yearEnd = `${year}-12-31`;
+
+  if (settings.frequency === "monthly") {
+    for (let month = 1; month <= 12; month++) {
+      const key = `${year}-${String(month).padStart(2, "0")}`;
+      const end = format(endOfMonth(parseISO(`${key}-01`)), "yyyy-MM-dd");
+      if (end > asOf) break;
+      periods.push({ key, start: `${key}-01`, end });
+    }
+    return periods;
+  }
+
+  let period = getPayPeriodForDate(`${year}-01-01`, payPeriod);
+  while (period.end <= yearEnd && period.end <= asOf) {
+    periods.push({ key: `${period.start}/${period.end}`, ...period });
+    period = getPayPeriodForDate(nextDateKey(period.end), payPeriod);
+  }
+  return periods;
+}
+
+/**
+ * Number of accrual periods in a year, used to spread the monthly accrual
+ * rate evenly over pay periods
+ */
+export function getAccrualPeriodsPerYear(settings: PTOAccrualSettings, payPeriod: PayPeriodSettings) {
+  return settings.frequency === "monthly" ? 12 : payPeriodsPerYear[payPeriod.frequency];
+}
+
+/**
+ * Share of a date range (inclusive) that falls on or after the hire date
+ */
+export function getEmployedFraction(range: PayPeriod, hireDate: string | null | undefined) {
+  if (!hireDate || hireDate <= range.start) return 1;
+  if (hireDate > range.end) return 0;
+
+  const length = differenceInCalendarDays(parseISO(range.end), parseISO(range.start)) + 1;
+  const employed = differenceInCalendarDays(parseISO(range.end), parseISO(hireDate)) + 1;
+  return employed / length;
+}
+
+/**
+ * Credits for the periods an accruing policy has not credited yet. The
+ * policy's accrual rate is in days per month; each credit is pro-rated for
+ * employees hired during the period, and the year's total stops at the
+ * annual allowance when one is set.
+ */
+export function calculateAccrualCredits(
+  policy: Pick<PTOPolicy, "accrual_rate" | "annual_allowance">,
+  periods: AccrualPeriod[],
+  options: { hireDate?: string | null; periodsPerYear: number; accruedDays?: number }
+): AccrualCredit[] {
+  const perPeriod = (Number(policy.accrual_rate || 0) * 12) / options.periodsPerYear;
+  const cap = Number(policy.annual_allowance || 0) > 0 ? Number(policy.annual_allowance) : Infinity;
+  let accrued = options.accruedDays || 0;
+  const credits: AccrualCredit[] = [];
+
+  for (const period of periods) {
+    const fraction = getEmployedFraction(period, options.hireDate);
+    const days = round(Math.min(perPeriod * fraction, cap - accrued));
+    if (days <= 0) continue;
+
+    credits.push({ ...period, days, fraction: round(fraction) });
+    accrued = round(accrued + days);
+  }
+
+  return credits;
+}
+
+/**
+ * Lump-sum entitlement for a policy without an accrual rate, pro-rated by
+ * the part of the year the employee is employed
+ */
+export function calculateAnnualGrant(
+  policy: Pick<PTOPolicy, "annual_allowance">,
+  year: number,
+  hireDate?: string | null
+) {
+  const fraction = getEmployedFraction({ start: `${year}-01-01`, end: `${year}-12-31` }, hireDate);
+  return round(Number(policy.annual_allowance || 0) * fraction);
+}
+
+/**
+ * Unused days that move into the next year, up to the policy's cap. Pending
+ * requests are treated as used so they cannot be spent twice.
+ */
+export function calculateCarryover(
+  balance: Pick<
+    PTOBalance,
+    "entitled_days" | "carryover_days" | "adjustment_days" | "used_days" | "pending_days"
+  >,
+  maxCarryover: number | null | undefined
+): CarryoverCalculation {
+  const remaining = round(
+    Math.max(
+      0,
+      Number(balance.entitled_days || 0) +
+        Number(balance.carryover_days || 0) +
+        Number(balance.adjustment_days || 0) -
+        Number(balance.used_days || 0) -
+        Number(balance.pending_days || 0)
+    )
+  );
+  const days = round(Math.min(remaining, Math.max(0, Number(maxCarryover || 0))));
+
+  return { days, remaining, forfeited: round(remaining - days) };
+}
+
+const formatPeriod = (period: AccrualPeriod) =>
+  period.key.length === 7
+    ? format(parseISO(period.start), "MMMM yyyy")
+    : `${format(parseISO(period.start), "MMM d")} - ${format(parseISO(period.end), "MMM d, yyyy")}`;
+
+/**
+ * Credit accruals and roll balances into the year of `asOf` for every active
+ * employee and active policy. Each credit is written to
+ * `pto_balance_transactions` under a unique period key before the balance is
+ * updated, so running the job again for the same date changes nothing.
+ *
+ * For each employee and policy:
+ * 1. Last year's balance gets any accruals still owed for its final periods
+ * 2. This year's balance is created if missing
+ * 3. Last year's unused days carry over, capped at the policy's max_carryover
+ * 4. This year's completed periods are credited (or, for policies without an
+ *    accrual rate, the pro-rated annual allowance once)
+ */
+export async function runPTOAccrual(
+  supabase: any,
+  organization: Pick<Organization, "id" | "settings">,
+  asOf: string
+): Promise<PTOAccrualSummary> {
+  const year = Number(asOf.slice(0, 4));
+  const accrualSettings = resolvePTOAccrualSettings(organization.settings);
+  const payPeriod = resolvePayPeriodSettings(organization.settings);
+  const periodsPerYear = getAccrualPeriodsPerYear(accrualSettings, payPeriod);
+
+  const [policiesResult, employeesResult, balancesResult, transactionsResult] = await Promise.all([
+    supabase
+      .from("pto_policies")
+      .select("*")
+      .eq("organization_id", organization.id)
+      .eq("is_active", true),
+    supabase
+      .from("profiles")
+      .select("id, first_name, last_name, hire_date")
+      .eq("organization_id", organization.id)
+      .eq("status", "active")
+      .order("last_name", { ascending: true }),
+    supabase
+      .from("pto_balances")
+      .select("*")
+      .eq("organization_id", organization.id)
+      .in("year", [year - 1, year]),
+    supabase
+      .from("pto_balance_transactions")
+      .select("balance_id, transaction_type, period_key, days")
+      .eq("organization_id", organization.id)
+      .in("transaction_type", ["accrual", "carryover"])
+      .in("year", [year - 1, year]),
+  ]);
+
+  if (policiesResult.error) {
+    throw new Error(`Failed to fetch PTO policies: ${policiesResult.error.message}`);
+  }
+  if (employeesResult.error) {
+    throw new Error(`Failed to fetch employees: ${employeesResult.error.message}`);
+  }
+  if (balancesResult.error) {
+    throw new Error(`Failed to fetch PTO balances: ${balancesResult.error.message}`);
+  }
+  if (transactionsResult.error) {
+    throw new Error(`Failed to fetch PTO balance transactions: ${transactionsResult.error.message}`);
+  }
+
+  const policies: PTOPolicy[] = policiesResult.data || [];
+
+  const balances = new Map<string, PTOBalance>();
+  for (const balance of (balancesResult.data || []) as PTOBalance[]) {
+    if (balance.policy_id) {
+      balances.set(`${balance.user_id}:${balance.policy_id}:${balance.year}`, balance);
+    }
+  }
+
+  const ledger = new Map<string, { transaction_type: string; period_key: string | null; days: number }[]>();
+  for (const entry of transactionsResult.data || []) {
+    ledger.set(entry.balance_id, [...(ledger.get(entry.balance_id) || []), entry]);
+  }
+
+  const accrue = async (balance: PTOBalance, policy: PTOPolicy, hireDate: string | null) => {
+    const entries = ledger.get(balance.id) || [];
+    const accruals = entries.filter((e) => e.transaction_type === "accrual");
+    const base = { transaction_type: "accrual" as const, actor_id: null };
+
+    let transactions: PTOTransactionInput[] = [];
+
+    if (Number(policy.accrual_rate || 0) > 0) {
+      const credited = new Set(accruals.map((e) => e.period_key));
+      const periods = getAccrualPeriods(balance.year, asOf, accrualSettings, payPeriod).filter(
+        (period) => !credited.has(period.key)
+      );
+      const accruedDays = accruals.reduce((sum, e) => sum + Number(e.days), 0);
+
+      transactions = calculateAccrualCredits(policy, periods, { hireDate, periodsPerYear, accruedDays }).map(
+        (credit) => ({
+          ...base,
+          days: credit.days,
+          period_key: credit.key,
+          reason: `Accrual for ${formatPeriod(credit)}`,
+          metadata: {
+            period_start: credit.start,
+            period_end: credit.end,
+            accrual_rate: Number(policy.accrual_rate),
+            employed_fraction: credit.fraction,
+          },
+        })
+      );
+    } else if (accruals.length === 0 && Number(balance.entitled_days || 0) === 0) {
+      // Balances already given an entitlement (e.g. by Initialize Balances) are left alone
+      const days = calculateAnnualGrant(policy, balance.year, hireDate);
+      if (days > 0) {
+        transactions = [
+          {
+            ...base,
+            days,
+            period_key: String(balance.year),
+            reason: `Annual allowance for ${balance.year}`,
+            metadata: { annual_allowance: Number(policy.annual_allowance), hire_date: hireDate },
+          },
+        ];
+      }
+    }
+
+    const updated = await recordPTOTransactions(supabase, balance, transactions);
+    return { balance: updated, days: round(transactions.reduce((sum, t) => sum + Number(t.days), 0)) };
+  };
+
+  const results: PTOAccrualResult[] = [];
+
+  for (const employee of employeesResult.data || []) {
+    const name = `${employee.first_name} ${employee.last_name}`.trim();
+
+    for (const policy of policies) {
+      const result: PTOAccrualResult = {
+        user_id: employee.id,
+        name,
+        policy_id: policy.id,
+        pto_type: policy.pto_type,
+        status: "unchanged",
+        accrued_days: 0,
+        carryover_days: 0,
+      };
+
+      try {
+        let previous = balances.get(`${employee.id}:${policy.id}:${year - 1}`);
+        if (previous) {
+          const accrual = await accrue(previous, policy, employee.hire_date);
+          previous = accrual.balance;
+          result.accrued_days = accrual.days;
+        }
+
+        let current = balances.get(`${employee.id}:${policy.id}:${year}`);
+        if (!current) {
+          const { data: created, error: createError } = await supabase
+            .from("pto_balances")
+            .insert({
+              organization_id: organization.id,
+              user_id: employee.id,
+              policy_id: policy.id,
+              pto_type: policy.pto_type,
+              year,
+              entitled_days: 0,
+              used_days: 0,
+              pending_days: 0,
+              carryover_days: 0,
+              adjustment_days: 0,
+            })
+            .select()
+            .single();
+
+          if (createError) {
+            throw new Error(`Failed to create balance: ${createError.message}`);
+          }
+          current = created as PTOBalance;
+          result.status = "updated";
+        }
+
+        const carriedOver = (ledger.get(current.id) || []).some(
+          (e) => e.transaction_type === "carryover" && e.period_key === String(year - 1)
+        );
+        if (previous && !carriedOver) {
+          const carryover = calculateCarryover(previous, policy.max_carryover);
+          current = await recordPTOTransactions(supabase, current, [
+            {
+              transaction_type: "carryover",
+              actor_id: null,
+              days: carryover.days,
+              period_key: String(year - 1),
+              reason: `Carryover from ${year - 1}`,
+              metadata: {
+                from_balance_id: previous.id,
+                remaining: carryover.remaining,
+                max_carryover: Number(policy.max_carryover || 0),
+                forfeited: carryover.forfeited,
+              },
+            },
+          ]);
+          result.carryover_days = carryover.days;
+          result.status = "updated";
+        }
+
+        const accrual = await accrue(current, policy, employee.hire_date);
+        result.balance_id = accrual.balance.id;
+        result.accrued_days = round((result.accrued_days || 0) + accrual.days);
+        if (result.accrued_days > 0) {
+          result.status = "updated";
+        }
+      } catch (error) {
+        result.status = "failed";
+        result.reason = error instanceof Error ? error.message : "Unknown error";
+      }
+
+      results.push(result);
+    }
+  }
+
+  return {
+    asOf,
+    updated: results.filter((r) => r.status === "updated").length,
+    unchanged: results.filter((r) => r.status === "unchanged").length,
+    failed: results.filter((r) => r.status === "failed").length,
+    results,
+  };
+}
@@ -0,0 +1,200 @@
+import { parseISO } from "date-fns";
+import type { Json } from "@/types/database.types";
+import { nextDateKey } from "@/lib/timezone";
+
+/**
+ * Organization work week and day length used to turn a PTO request into a
+ * balance deduction, stored in `organizations.settings.ptoCalendar`
+ */
+export interface PTOCalendarSettings {
+  // Days of the week that count against PTO balances (0 = Sunday)
+  workWeek: number[];
+  hoursPerDay: number;
+}
+
+export const defaultPTOCalendarSettings: PTOCalendarSettings = {
+  workWeek: [1, 2, 3, 4, 5],
+  hoursPerDay: 8,
+};
+
+/**
+ * - full_day: every working day in the range
+ * - half_day: half of a single working day, morning or afternoon
+ * - hours: a number of hours on a single working day
+ */
+export type PTODurationType = "full_day" | "half_day" | "hours";
+
+export const ptoDurationLabels: Record<PTODurationType, string> = {
+  full_day: "Full days",
+  half_day: "Half day",
+  hours: "Hours",
+};
+
+export interface Holiday {
+  date: string; // yyyy-MM-dd
+  name: string;
+  // Null for organization-wide holidays
+  location_id: string | null;
+}
+
+export interface PTODeductionInput {
+  start_date: string;
+  end_date: string;
+  duration_type?: PTODurationType | null;
+  hours?: number | null;
+}
+
+export interface PTODeduction {
+  days: number;
+  hours: number;
+  // Working days the request covers
+  workDays: string[];
+  // Days in the range that are not deducted
+  excluded: { date: string; reason: "weekend" | "holiday"; name?: string }[];
+  error: string | null;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Resolve the PTO calendar from an organization's settings JSON
+ */
+export function resolvePTOCalendarSettings(settings: Json | null | undefined): PTOCalendarSettings {
+  const saved = (settings as any)?.ptoCalendar;
+  const workWeek = Array.isArray(saved?.workWeek)
+    ? Array.from(
+        new Set<number>(
+          saved.workWeek.filter((day: any) => Number.isInteger(day) && day >= 0 && day <= 6)
+        )
+      ).sort((a, b) => a - b)
+    : defaultPTOCalendarSettings.workWeek;
+  const hoursPerDay = Number(saved?.hoursPerDay);
+
+  return {
+    workWeek,
+    hoursPerDay: hoursPerDay > 0 && hoursPerDay <= 24 ? hoursPerDay : defaultPTOCalendarSettings.hoursPerDay,
+  };
+}
+
+/**
+ * Holidays that apply to an employee: organization-wide ones plus those for
+ * their location
+ */
+export function getApplicableHolidays<T extends Holiday>(holidays: T[], locationId: string | null | undefined): T[] {
+  return holidays.filter((holiday) => !holiday.location_id || holiday.location_id === locationId);
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Work out how much PTO balance a request uses. Weekends (days outside the
+ * work week) and holidays are skipped; half-day and hourly requests must
+ * fall on a single working day.
+ */
+export function calculatePTODeduction(
+  input: PTODeductionInput,
+  holidays: Holiday[],
+  settings: PTOCalendarSettings = defaultPTOCalendarSettings
+): PTODeduction {
+  const durationType = input.duration_type || "full_day";
+  const deduction: PTODeduction = { days: 0, hours: 0, workDays: [], excluded: [], error: null };
+
+  if (!DATE_PATTERN.test(input.start_date) || !DATE_PATTERN.test(input.end_date)) {
+    return { ...deduction, error: "Invalid date" };
+  }
+  if (input.end_date < input.start_date) {
+    return { ...deduction, error: "End date must be on or after start date" };
+  }
+  if (durationType !== "full_day" && input.start_date !== input.end_date) {
+    return { ...deduction, error: `${ptoDurationLabels[durationType]} requests must be for a single day` };
+  }
+
+  const holidayNames = new Map(holidays.map((holiday) => [holiday.date, holiday.name]));
+
+  for (let date = input.start_date; date <= input.end_date; date = nextDateKey(date)) {
+    if (!settings.workWeek.includes(parseISO(date).getDay())) {
+      deduction.excluded.push({ date, reason: "weekend" });
+    } else if (holidayNames.has(date)) {
+      deduction.excluded.push({ date, reason: "holiday", name: holidayNames.get(date) });
+    } else {
+      deduction.workDays.push(date);
+    }
+  }
+
+  if (deduction.workDays.length === 0) {
+    return { ...deduction, error: "The selected dates contain no working days" };
+  }
+
+  if (durationType === "half_day") {
+    deduction.days = 0.5;
+  } else if (durationType === "hours") {
+    const hours = Number(input.hours);
+    if (!(hours > 0) || hours > settings.hoursPerDay) {
+      return { ...deduction, error: `Hours must be between 0 and ${settings.hoursPerDay}` };
+    }
+    deduction.days = round(hours / settings.hoursPerDay);
+  } else {
+    deduction.days = deduction.workDays.length;
+  }
+  deduction.hours = round(deduction.days * settings.hoursPerDay);
+
+  return deduction;
+}
+
+/**
+ * Short description of a request's duration, e.g. "3 days" or "4h"
+ */
+export function formatPTODuration(request: {
+  total_days: number;
+  duration_type?: string | null;
+  hours?: number | null;
+  half_day_period?: string | null;
+}) {
+  if (request.duration_type === "hours" && request.hours != null) {
+    return `${Number(request.hours)}h`;
+  }
+  if (request.duration_type === "half_day") {
+    return request.half_day_period === "pm" ? "Half day (PM)" : "Half day (AM)";
+  }
+  const days = Number(request.total_days);
+  return `${days} day${days !== 1 ? "s" : ""}`;
+}
+
+/**
+ * Load the work week and the holidays that apply to an employee between two
+ * dates. The employee's primary location (or their only location) decides
+ * which location holidays count.
+ */
+export async function fetchPTOCalendar(
+  supabase: any,
+  organizationId: string,
+  userId: string,
+  range: { start: string; end: string }
+): Promise<{ settings: PTOCalendarSettings; holidays: Holiday[] }> {
+  const [organizationResult, locationsResult, holidaysResult] = await Promise.all([
+    supabase.from("organizations").select("settings").eq("id", organizationId).single(),
+    supabase.from("user_locations").select("location_id, is_primary").eq("user_id", userId),
+    supabase
+      .from("holidays")
+      .select("date, name, location_id")
+      .eq("organization_id", organizationId)
+      .gte("date", range.start)
+      .lte("date", range.end),
+  ]);
+
+  return {
+    settings: resolvePTOCalendarSettings(organizationResult.data?.settings),
+    holidays: getApplicableHolidays(holidaysResult.data || [], getHolidayLocationId(locationsResult.data || [])),
+  };
+}
+
+/**
+ * The location whose holidays apply to an employee: their primary location,
+ * or their only location
+ */
+export function getHolidayLocationId(locations: { location_id: string; is_primary: boolean | null }[]) {
+  return (
+    locations.find((location) => location.is_primary)?.location_id ??
+    (locations.length === 1 ? locations[0].location_id : null)
+  );
+}
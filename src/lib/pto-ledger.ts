@@ -0,0 +1,323 @@
+import { format, parseISO } from "date-fns";
+import type { Database, Json } from "@/types/database.types";
+
+type PTOBalance = Database["public"]["Tables"]["pto_balances"]["Row"];
+type PTOBalanceTransaction = Database["public"]["Tables"]["pto_balance_transactions"]["Row"];
+
+/**
+ * Kinds of change to a PTO balance and the counter(s) each one moves
+ * - accrual: entitled_days
+ * - carryover: carryover_days
+ * - adjustment: adjustment_days (manual, either sign)
+ * - request_pending: pending_days (a new request, or the change when one is edited)
+ * - approval: pending_days into used_days
+ * - rejection / cancellation: releases pending_days
+ */
+export type PTOTransactionType =
+  | "accrual"
+  | "request_pending"
+  | "approval"
+  | "rejection"
+  | "cancellation"
+  | "adjustment"
+  | "carryover";
+
+export const ptoTransactionLabels: Record<PTOTransactionType, string> = {
+  accrual: "Accrual",
+  request_pending: "Request pending",
+  approval: "Approved",
+  rejection: "Rejected",
+  cancellation: "Cancelled",
+  adjustment: "Adjustment",
+  carryover: "Carryover",
+};
+
+export type PTOBalanceCounters = Pick<
+  PTOBalance,
+  "entitled_days" | "used_days" | "pending_days" | "carryover_days" | "adjustment_days"
+>;
+
+export type PTOBalanceField = keyof PTOBalanceCounters;
+
+export interface PTOTransactionInput {
+  transaction_type: PTOTransactionType;
+  days: number;
+  reason: string;
+  // Null for changes made by a scheduled job
+  actor_id?: string | null;
+  request_id?: string | null;
+  period_key?: string | null;
+  metadata?: Json | null;
+}
+
+export interface PTOBalanceDrift {
+  field: PTOBalanceField;
+  recorded: number;
+  derived: number;
+}
+
+const balanceFields: PTOBalanceField[] = [
+  "entitled_days",
+  "used_days",
+  "pending_days",
+  "carryover_days",
+  "adjustment_days",
+];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * How a transaction moves each balance counter
+ */
+export function getTransactionEffect(
+  transaction: Pick<PTOBalanceTransaction, "transaction_type" | "days">
+): Partial<Record<PTOBalanceField, number>> {
+  const days = Number(transaction.days);
+
+  switch (transaction.transaction_type as PTOTransactionType) {
+    case "accrual":
+      return { entitled_days: days };
+    case "carryover":
+      return { carryover_days: days };
+    case "adjustment":
+      return { adjustment_days: days };
+    case "request_pending":
+      return { pending_days: days };
+    case "approval":
+      return { pending_days: -days, used_days: days };
+    case "rejection":
+    case "cancellation":
+      return { pending_days: -days };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Balance counters implied by a set of ledger rows
+ */
+export function derivePTOBalance(
+  transactions: Pick<PTOBalanceTransaction, "transaction_type" | "days">[]
+): Record<PTOBalanceField, number> {
+  const counters = Object.fromEntries(balanceFields.map((field) => [field, 0])) as Record<
+    PTOBalanceField,
+    number
+  >;
+
+  for (const transaction of transactions) {
+    for (const [field, days] of Object.entries(getTransactionEffect(transaction))) {
+      counters[field as PTOBalanceField] += days;
+    }
+  }
+
+  for (const field of balanceFields) {
+    counters[field] = round(counters[field]);
+  }
+  return counters;
+}
+
+/**
+ * Days left to request: entitlement, carryover and adjustments less what is
+ * used or pending
+ */
+export function getAvailablePTODays(balance: PTOBalanceCounters) {
+  return round(
+    Number(balance.entitled_days || 0) +
+      Number(balance.carryover_days || 0) +
+      Number(balance.adjustment_days || 0) -
+      Number(balance.used_days || 0) -
+      Number(balance.pending_days || 0)
+  );
+}
+
+/**
+ * How a transaction changes the days left to request. Approvals move days
+ * from pending to used and leave it unchanged.
+ */
+export function getAvailableDaysChange(
+  transaction: Pick<PTOBalanceTransaction, "transaction_type" | "days">
+) {
+  return getAvailablePTODays({
+    entitled_days: 0,
+    used_days: 0,
+    pending_days: 0,
+    carryover_days: 0,
+    adjustment_days: 0,
+    ...getTransactionEffect(transaction),
+  });
+}
+
+/**
+ * "Mar 3, 2024" or "Mar 3 - Mar 5, 2024", for ledger reasons
+ */
+export function formatPTORequestDates(request: { start_date: string; end_date: string }) {
+  const end = format(parseISO(request.end_date), "MMM d, yyyy");
+  return request.start_date === request.end_date
+    ? end
+    : `${format(parseISO(request.start_date), "MMM d")} - ${end}`;
+}
+
+/**
+ * Counters on a balance row that disagree with its ledger
+ */
+export function findPTOBalanceDrift(
+  balance: PTOBalanceCounters,
+  derived: Record<PTOBalanceField, number>
+): PTOBalanceDrift[] {
+  return balanceFields
+    .map((field) => ({ field, recorded: round(Number(balance[field] || 0)), derived: derived[field] }))
+    .filter((drift) => drift.recorded !== drift.derived);
+}
+
+/**
+ * Days a request still holds as pending: what was recorded as pending for it
+ * less what has been approved, rejected or cancelled
+ */
+export function getOutstandingPendingDays(
+  transactions: Pick<PTOBalanceTransaction, "transaction_type" | "days">[]
+) {
+  return round(
+    transactions.reduce((sum, transaction) => sum + (getTransactionEffect(transaction).pending_days || 0), 0)
+  );
+}
+
+/**
+ * Rebuild a balance's counters from its ledger. Returns the updated balance
+ * and the counters that had drifted from the ledger.
+ */
+export async function recalculatePTOBalance(
+  supabase: any,
+  balance: PTOBalance
+): Promise<{ balance: PTOBalance; drift: PTOBalanceDrift[] }> {
+  const { data: transactions, error } = await supabase
+    .from("pto_balance_transactions")
+    .select("transaction_type, days")
+    .eq("balance_id", balance.id);
+
+  if (error) {
+    throw new Error(`Failed to fetch balance transactions: ${error.message}`);
+  }
+
+  const derived = derivePTOBalance(transactions || []);
+  const drift = findPTOBalanceDrift(balance, derived);
+
+  const { data: updated, error: updateError } = await supabase
+    .from("pto_balances")
+    .update(derived)
+    .eq("id", balance.id)
+    .select()
+    .single();
+
+  if (updateError) {
+    throw new Error(`Failed to update balance: ${updateError.message}`);
+  }
+  return { balance: updated as PTOBalance, drift };
+}
+
+/**
+ * Append transactions to a balance's ledger and bring its counters in line
+ */
+export async function recordPTOTransactions(
+  supabase: any,
+  balance: PTOBalance,
+  transactions: PTOTransactionInput[]
+): Promise<PTOBalance> {
+  if (transactions.length === 0) return balance;
+
+  const { error } = await supabase.from("pto_balance_transactions").insert(
+    transactions.map((transaction) => ({
+      organization_id: balance.organization_id,
+      balance_id: balance.id,
+      user_id: balance.user_id,
+      pto_type: balance.pto_type,
+      year: balance.year,
+      ...transaction,
+      days: round(transaction.days),
+    }))
+  );
+
+  if (error) {
+    throw new Error(`Failed to record balance transactions: ${error.message}`);
+  }
+
+  return (await recalculatePTOBalance(supabase, balance)).balance;
+}
+
+/**
+ * The balance a request's days are booked against: the one its pending days
+ * were recorded on, otherwise the employee's balance for the current year
+ */
+export async function findPTORequestBalance(
+  supabase: any,
+  request: { id: string; organization_id: string; user_id: string; pto_type: string }
+): Promise<PTOBalance | null> {
+  const { data: booked } = await supabase
+    .from("pto_balance_transactions")
+    .select("balance_id")
+    .eq("request_id", request.id)
+    .limit(1)
+    .maybeSingle();
+
+  let query = supabase.from("pto_balances").select("*");
+  if (booked) {
+    query = query.eq("id", booked.balance_id);
+  } else {
+    query = query
+      .eq("organization_id", request.organization_id)
+      .eq("user_id", request.user_id)
+      .eq("pto_type", request.pto_type)
+      .eq("year", new Date().getFullYear());
+  }
+
+  const { data: balance } = await query.limit(1).maybeSingle();
+  return balance || null;
+}
+
+/**
+ * Close out the pending days a request holds on a balance. Approval moves
+ * the request's full length into used days, recording any pending days that
+ * were never booked first (e.g. the balance was created after the request).
+ */
+export async function settlePTORequest(
+  supabase: any,
+  balance: PTOBalance,
+  request: { id: string; total_days: number },
+  outcome: "approval" | "rejection" | "cancellation",
+  options: { actorId: string | null; reason: string }
+): Promise<PTOBalance> {
+  const { data: history, error } = await supabase
+    .from("pto_balance_transactions")
+    .select("transaction_type, days")
+    .eq("balance_id", balance.id)
+    .eq("request_id", request.id);
+
+  if (error) {
+    throw new Error(`Failed to fetch request transactions: ${error.message}`);
+  }
+
+  const outstanding = getOutstandingPendingDays(history || []);
+  const base = { actor_id: options.actorId, request_id: request.id };
+  const transactions: PTOTransactionInput[] = [];
+
+  if (outcome === "approval") {
+    const missing = round(Number(request.total_days) - outstanding);
+    if (missing !== 0) {
+      transactions.push({
+        ...base,
+        transaction_type: "request_pending",
+        days: missing,
+        reason: "Pending days not previously recorded",
+      });
+    }
+    transactions.push({
+      ...base,
+      transaction_type: "approval",
+      days: Number(request.total_days),
+      reason: options.reason,
+    });
+  } else if (outstanding !== 0) {
+    transactions.push({ ...base, transaction_type: outcome, days: outstanding, reason: options.reason });
+  }
+
+  return recordPTOTransactions(supabase, balance, transactions);
+}
@@ -0,0 +1,267 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  format,
+  getDaysInMonth,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+
+/**
+ * Recurrence rules in RFC 5545 RRULE form, e.g.
+ * "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20240331"
+ *
+ * Supported parts: FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY (with an
+ * ordinal for monthly rules, e.g. 2TU or -1FR), BYMONTHDAY, UNTIL and COUNT.
+ * Weeks start on Monday (WKST=MO). Dates are calendar dates (yyyy-MM-dd) in
+ * the organization's local time.
+ */
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY";
+
+export interface RecurrenceWeekday {
+  // 0 = Sunday ... 6 = Saturday, as Date.getDay()
+  day: number;
+  // Monthly only: 1 = first, 2 = second, -1 = last
+  nth?: number;
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: RecurrenceWeekday[];
+  byMonthDay?: number[];
+  // Last possible occurrence (inclusive), yyyy-MM-dd
+  until?: string;
+  count?: number;
+}
+
+// Upper bound on occurrences for a single series
+export const MAX_RECURRENCE_OCCURRENCES = 366;
+
+const frequencies: RecurrenceFrequency[] = ["DAILY", "WEEKLY", "MONTHLY"];
+const weekdayCodes = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const weekdayNames = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const longWeekdayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const parsePositiveInteger = (value: string, part: string) => {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new Error(`Invalid recurrence rule: ${part} must be a positive integer`);
+  }
+  return number;
+};
+
+/**
+ * Parse an RRULE string. Throws on parts this app does not support.
+ */
+export function parseRRule(value: string): RecurrenceRule {
+  const parts = value.trim().replace(/^RRULE:/i, "").split(";").filter(Boolean);
+  const rule: Partial<RecurrenceRule> = { interval: 1 };
+
+  for (const part of parts) {
+    const [key, raw = ""] = part.split("=");
+
+    switch (key.toUpperCase()) {
+      case "FREQ":
+        if (!frequencies.includes(raw.toUpperCase() as RecurrenceFrequency)) {
+          throw new Error(`Invalid recurrence rule: unsupported frequency ${raw}`);
+        }
+        rule.freq = raw.toUpperCase() as RecurrenceFrequency;
+        break;
+      case "INTERVAL":
+        rule.interval = parsePositiveInteger(raw, "INTERVAL");
+        break;
+      case "COUNT":
+        rule.count = parsePositiveInteger(raw, "COUNT");
+        break;
+      case "UNTIL": {
+        const match = raw.match(/^(\d{4})(\d{2})(\d{2})/);
+        if (!match) {
+          throw new Error(`Invalid recurrence rule: UNTIL ${raw}`);
+        }
+        rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+        break;
+      }
+      case "BYDAY":
+        rule.byDay = raw.split(",").map((entry) => {
+          const match = entry.toUpperCase().match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+          if (!match || match[1] === "0") {
+            throw new Error(`Invalid recurrence rule: BYDAY ${entry}`);
+          }
+          const weekday: RecurrenceWeekday = { day: weekdayCodes.indexOf(match[2]) };
+          if (match[1]) weekday.nth = Number(match[1]);
+          return weekday;
+        });
+        break;
+      case "BYMONTHDAY":
+        rule.byMonthDay = raw.split(",").map((entry) => {
+          const day = Number(entry);
+          if (!Number.isInteger(day) || day === 0 || day < -31 || day > 31) {
+            throw new Error(`Invalid recurrence rule: BYMONTHDAY ${entry}`);
+          }
+          return day;
+        });
+        break;
+      case "WKST":
+        // Weeks always start on Monday
+        break;
+      default:
+        throw new Error(`Invalid recurrence rule: unsupported part ${key}`);
+    }
+  }
+
+  if (!rule.freq) {
+    throw new Error("Invalid recurrence rule: FREQ is required");
+  }
+  if (rule.until && rule.count) {
+    throw new Error("Invalid recurrence rule: UNTIL and COUNT cannot both be set");
+  }
+  return rule as RecurrenceRule;
+}
+
+/**
+ * Serialize a rule back to its RRULE string (without the "RRULE:" prefix)
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map((d) => `${d.nth ?? ""}${weekdayCodes[d.day]}`).join(",")}`);
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, "")}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(";");
+}
+
+// Candidate dates in the nth period (day, week or month) of a rule, in order
+function getPeriodDates(rule: RecurrenceRule, start: Date, period: number): { periodStart: Date; dates: Date[] } {
+  const step = period * rule.interval;
+
+  if (rule.freq === "DAILY") {
+    const date = addDays(start, step);
+    return { periodStart: date, dates: [date] };
+  }
+
+  if (rule.freq === "WEEKLY") {
+    const weekStart = addWeeks(startOfWeek(start, { weekStartsOn: 1 }), step);
+    const days = rule.byDay?.length ? rule.byDay.map((d) => d.day) : [start.getDay()];
+    const dates = Array.from(new Set(days))
+      .map((day) => addDays(weekStart, (day + 6) % 7))
+      .sort((a, b) => a.getTime() - b.getTime());
+    return { periodStart: weekStart, dates };
+  }
+
+  const monthStart = addMonths(startOfMonth(start), step);
+  const daysInMonth = getDaysInMonth(monthStart);
+  const monthDates = Array.from({ length: daysInMonth }, (_, i) => addDays(monthStart, i));
+
+  let byWeekday: Set<number> | null = null;
+  if (rule.byDay?.length) {
+    byWeekday = new Set();
+    for (const weekday of rule.byDay) {
+      const matches = monthDates.filter((date) => date.getDay() === weekday.day);
+      const picked = weekday.nth
+        ? [matches[weekday.nth > 0 ? weekday.nth - 1 : matches.length + weekday.nth]]
+        : matches;
+      picked.filter(Boolean).forEach((date) => byWeekday!.add(date.getDate()));
+    }
+  }
+
+  let byMonthDay: Set<number> | null = null;
+  if (rule.byMonthDay?.length || !byWeekday) {
+    byMonthDay = new Set(
+      (rule.byMonthDay?.length ? rule.byMonthDay : [start.getDate()])
+        .map((day) => (day > 0 ? day : daysInMonth + day + 1))
+        // Months without the day (e.g. the 31st) are skipped
+        .filter((day) => day >= 1 && day <= daysInMonth)
+    );
+  }
+
+  // Both parts given: a day must match each of them
+  const dates = monthDates.filter(
+    (date) =>
+      (!byWeekday || byWeekday.has(date.getDate())) && (!byMonthDay || byMonthDay.has(date.getDate()))
+  );
+  return { periodStart: monthStart, dates };
+}
+
+/**
+ * Dates a rule produces from dtstart (yyyy-MM-dd), in order. As in RFC 5545
+ * dtstart is always the first occurrence and counts towards COUNT, and
+ * exception dates are removed after counting.
+ */
+export function expandRecurrence(
+  rule: RecurrenceRule,
+  dtstart: string,
+  options: { exdates?: string[] } = {}
+): string[] {
+  const start = parseISO(dtstart);
+  const exdates = new Set(options.exdates || []);
+  const limit = Math.min(rule.count ?? MAX_RECURRENCE_OCCURRENCES, MAX_RECURRENCE_OCCURRENCES);
+  const dates: string[] = [];
+  let emitted = 0;
+
+  const emit = (date: string) => {
+    emitted++;
+    if (!exdates.has(date)) dates.push(date);
+  };
+
+  if (!rule.until || dtstart <= rule.until) emit(dtstart);
+
+  for (let period = 0; emitted < limit && period < MAX_RECURRENCE_OCCURRENCES * 4; period++) {
+    const { periodStart, dates: candidates } = getPeriodDates(rule, start, period);
+    if (rule.until && format(periodStart, "yyyy-MM-dd") > rule.until) break;
+
+    for (const candidate of candidates) {
+      const date = format(candidate, "yyyy-MM-dd");
+      if (date <= dtstart) continue;
+      if ((rule.until && date > rule.until) || emitted >= limit) return dates;
+      emit(date);
+    }
+  }
+
+  return dates;
+}
+
+const ordinal = (n: number) => {
+  const suffix = n % 10 === 1 && n !== 11 ? "st" : n % 10 === 2 && n !== 12 ? "nd" : n % 10 === 3 && n !== 13 ? "rd" : "th";
+  return `${n}${suffix}`;
+};
+
+const describeNth = (nth: number) => (nth === -1 ? "last" : nth < 0 ? `${ordinal(-nth)} to last` : ordinal(nth));
+
+/**
+ * Human readable summary, e.g. "Every 2 weeks on Mon, Wed until Mar 31, 2024"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const units: Record<RecurrenceFrequency, [string, string]> = {
+    DAILY: ["Daily", "days"],
+    WEEKLY: ["Weekly", "weeks"],
+    MONTHLY: ["Monthly", "months"],
+  };
+  const [single, plural] = units[rule.freq];
+  let description = rule.interval > 1 ? `Every ${rule.interval} ${plural}` : single;
+
+  if (rule.freq === "WEEKLY" && rule.byDay?.length) {
+    const days = [...rule.byDay].sort((a, b) => ((a.day + 6) % 7) - ((b.day + 6) % 7));
+    description += ` on ${days.map((d) => weekdayNames[d.day]).join(", ")}`;
+  } else if (rule.freq === "MONTHLY" && rule.byDay?.length) {
+    description += ` on the ${rule.byDay
+      .map((d) => (d.nth ? `${describeNth(d.nth)} ${longWeekdayNames[d.day]}` : `every ${longWeekdayNames[d.day]}`))
+      .join(", ")}`;
+  } else if (rule.freq === "MONTHLY" && rule.byMonthDay?.length) {
+    description += ` on the ${rule.byMonthDay
+      .map((day) => (day > 0 ? ordinal(day) : `${describeNth(day)} day`))
+      .join(", ")}`;
+  }
+
+  if (rule.until) {
+    description += ` until ${format(parseISO(rule.until), "MMM d, yyyy")}`;
+  } else if (rule.count) {
+    description += `, ${rule.count} time${rule.count !== 1 ? "s" : ""}`;
+  }
+  return description;
+}
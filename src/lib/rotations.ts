@@ -0,0 +1,136 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+import type { ShiftWriteInput } from "@/lib/shift-api";
+import { dateTimeInTimeZone, nextDateKey } from "@/lib/timezone";
+import type { Database, Json } from "@/types/database.types";
+
+type ShiftTemplate = Database["public"]["Tables"]["shift_templates"]["Row"];
+
+/**
+ * One entry per day of the cycle: the template worked that day, or null for
+ * a day off
+ */
+export type RotationPattern = (string | null)[];
+
+// Longest cycle a rotation can have (8 weeks)
+export const MAX_ROTATION_DAYS = 56;
+
+// Longest date range a rotation can be applied to at once
+export const MAX_ROTATION_APPLY_DAYS = 92;
+
+/**
+ * Common rotations as on/off days, filled with one template when chosen
+ */
+export const rotationPresets = [
+  { id: "5-on-2-off", label: "5 on / 2 off", days: [1, 1, 1, 1, 1, 0, 0] },
+  { id: "4-on-4-off", label: "4 on / 4 off", days: [1, 1, 1, 1, 0, 0, 0, 0] },
+  { id: "panama", label: "Panama 2-2-3", days: [1, 1, 0, 0, 1, 1, 1, 0, 0, 1, 1, 0, 0, 0] },
+  { id: "4-on-3-off", label: "4 on / 3 off", days: [1, 1, 1, 1, 0, 0, 0] },
+] as const;
+
+export type RotationTemplate = Pick<
+  ShiftTemplate,
+  "id" | "start_time" | "end_time" | "break_minutes" | "location_id" | "position_id" | "color"
+>;
+
+/**
+ * An employee following the rotation. offset is the day of the cycle they
+ * are on at the start of the range, so crews can work the same pattern
+ * staggered (e.g. 0 and 7 for the two halves of a Panama schedule).
+ */
+export interface RotationAssignment {
+  userId: string;
+  offset: number;
+}
+
+/**
+ * Read a rotation's pattern from its JSON column
+ */
+export function parseRotationPattern(value: Json | null | undefined): RotationPattern {
+  if (!Array.isArray(value)) return [];
+  return value.map((day) => (typeof day === "string" && day ? day : null));
+}
+
+/**
+ * The templates a pattern uses
+ */
+export function getRotationTemplateIds(pattern: RotationPattern): string[] {
+  return Array.from(new Set(pattern.filter((day): day is string => !!day)));
+}
+
+/**
+ * A preset's working days filled with one template
+ */
+export function fillRotationPreset(days: readonly number[], templateId: string): RotationPattern {
+  return days.map((day) => (day ? templateId : null));
+}
+
+/**
+ * The cycle day an employee is on for a date
+ */
+export function getRotationDay(
+  pattern: RotationPattern,
+  startDate: string,
+  date: string,
+  offset: number
+): number {
+  const length = pattern.length;
+  const day = differenceInCalendarDays(parseISO(date), parseISO(startDate)) + offset;
+  return ((day % length) + length) % length;
+}
+
+/**
+ * The draft shifts a rotation produces for each employee between two dates
+ * (inclusive), at the templates' wall-clock times in the given time zone.
+ * A template that ends at or before its start time ends the next day.
+ */
+export function buildRotationShifts({
+  pattern,
+  templates,
+  assignments,
+  startDate,
+  endDate,
+  timeZone,
+}: {
+  pattern: RotationPattern;
+  templates: Record<string, RotationTemplate>;
+  assignments: RotationAssignment[];
+  startDate: string;
+  endDate: string;
+  timeZone: string;
+}): ShiftWriteInput[] {
+  if (pattern.length === 0) return [];
+
+  const shifts: ShiftWriteInput[] = [];
+  const days = differenceInCalendarDays(parseISO(endDate), parseISO(startDate));
+
+  for (let index = 0; index <= days; index++) {
+    const date = format(addDays(parseISO(startDate), index), "yyyy-MM-dd");
+
+    for (const assignment of assignments) {
+      const templateId = pattern[getRotationDay(pattern, startDate, date, assignment.offset)];
+      const template = templateId ? templates[templateId] : null;
+      if (!template) continue;
+
+      const start = dateTimeInTimeZone(date, template.start_time, timeZone);
+      let end = dateTimeInTimeZone(date, template.end_time, timeZone);
+      if (end <= start) {
+        end = dateTimeInTimeZone(nextDateKey(date), template.end_time, timeZone);
+      }
+
+      shifts.push({
+        user_id: assignment.userId,
+        start_time: start.toISOString(),
+        end_time: end.toISOString(),
+        break_minutes: template.break_minutes ?? 0,
+        location_id: template.location_id,
+        department_id: null,
+        position_id: template.position_id,
+        notes: null,
+        color: template.color,
+        is_published: false,
+      });
+    }
+  }
+
+  return shifts;
+}
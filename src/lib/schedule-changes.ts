@@ -0,0 +1,230 @@
+import { addDays, format, parseISO, startOfWeek } from "date-fns";
+import { createScheduleNotification } from "@/lib/notifications";
+import { resolveScheduleWeekStart } from "@/lib/shift-validation";
+import { getDateKeyInTimeZone, resolveTimeZone, startOfDayInTimeZone } from "@/lib/timezone";
+import type { Database, Json } from "@/types/database.types";
+
+type Shift = Database["public"]["Tables"]["shifts"]["Row"];
+type Organization = Database["public"]["Tables"]["organizations"]["Row"];
+
+/**
+ * The parts of a shift an employee is told about. Publication records store
+ * these for every published, assigned shift in the week.
+ */
+export type ScheduledShift = Pick<
+  Shift,
+  "id" | "user_id" | "start_time" | "end_time" | "break_minutes" | "location_id" | "position_id" | "is_published"
+>;
+
+export interface ShiftChange<T extends ScheduledShift = ScheduledShift> {
+  before: T | null;
+  after: T | null;
+}
+
+export interface ScheduleWeekOptions {
+  weekStartsOn?: 0 | 1 | 2 | 3 | 4 | 5 | 6;
+  // Weeks are evaluated in this zone; local time when omitted
+  timeZone?: string | null;
+}
+
+export interface EmployeeScheduleChanges<T extends ScheduledShift = ScheduledShift> {
+  userId: string;
+  // yyyy-MM-dd
+  weekStart: string;
+  added: T[];
+  changed: T[];
+  removed: T[];
+}
+
+const scheduleFields = ["start_time", "end_time", "break_minutes", "location_id", "position_id"] as const;
+
+const SCHEDULED_SHIFT_SELECT = "id, user_id, start_time, end_time, break_minutes, location_id, position_id, is_published";
+
+const isOnSchedule = <T extends ScheduledShift>(shift: T | null): shift is T & { user_id: string } =>
+  !!shift && !!shift.is_published && !!shift.user_id;
+
+const toScheduledShift = (shift: ScheduledShift): ScheduledShift => ({
+  id: shift.id,
+  user_id: shift.user_id,
+  start_time: shift.start_time,
+  end_time: shift.end_time,
+  break_minutes: shift.break_minutes,
+  location_id: shift.location_id,
+  position_id: shift.position_id,
+  is_published: shift.is_published,
+});
+
+/**
+ * The first day (yyyy-MM-dd) of the schedule week a shift starts in
+ */
+export function getScheduleWeekStart(startTime: string, options: ScheduleWeekOptions = {}): string {
+  const start = parseISO(startTime);
+  const dateKey = options.timeZone ? getDateKeyInTimeZone(start, options.timeZone) : format(start, "yyyy-MM-dd");
+  return format(startOfWeek(parseISO(dateKey), { weekStartsOn: options.weekStartsOn ?? 0 }), "yyyy-MM-dd");
+}
+
+/**
+ * What a set of shift changes means for each employee's week. Employees only
+ * see shifts published to them, so drafts and open shifts don't count; a
+ * shift reassigned or moved to another week is removed from one schedule and
+ * added to the other. Edits that don't touch the times, break, location or
+ * position aren't reported.
+ */
+export function diffEmployeeSchedules<T extends ScheduledShift>(
+  changes: ShiftChange<T>[],
+  options: ScheduleWeekOptions = {}
+): EmployeeScheduleChanges<T>[] {
+  const byWeek = new Map<string, EmployeeScheduleChanges<T>>();
+  const entry = (shift: T & { user_id: string }) => {
+    const weekStart = getScheduleWeekStart(shift.start_time, options);
+    const key = `${shift.user_id}|${weekStart}`;
+    if (!byWeek.has(key)) {
+      byWeek.set(key, { userId: shift.user_id, weekStart, added: [], changed: [], removed: [] });
+    }
+    return byWeek.get(key)!;
+  };
+
+  for (const { before, after } of changes) {
+    const was = isOnSchedule(before) ? entry(before) : null;
+    const is = isOnSchedule(after) ? entry(after) : null;
+
+    if (was && was === is) {
+      if (scheduleFields.some((field) => before![field] !== after![field])) {
+        is.changed.push(after!);
+      }
+      continue;
+    }
+    was?.removed.push(before!);
+    is?.added.push(after!);
+  }
+
+  return Array.from(byWeek.values())
+    .filter((week) => week.added.length + week.changed.length + week.removed.length > 0)
+    .sort((a, b) => a.weekStart.localeCompare(b.weekStart) || a.userId.localeCompare(b.userId));
+}
+
+/**
+ * Pair up two versions of a schedule by shift id
+ */
+export function getScheduleChanges<T extends ScheduledShift>(previous: T[], current: T[]): ShiftChange<T>[] {
+  const before = new Map(previous.map((shift) => [shift.id, shift]));
+  const after = new Map(current.map((shift) => [shift.id, shift]));
+
+  return Array.from(new Set([...before.keys(), ...after.keys()])).map((id) => ({
+    before: before.get(id) ?? null,
+    after: after.get(id) ?? null,
+  }));
+}
+
+/**
+ * Send each affected employee one notification per week summarizing a set
+ * of changes to shifts published to them
+ */
+export async function notifyScheduleChanges(
+  supabase: any,
+  organizationId: string,
+  changes: ShiftChange[],
+  options: ScheduleWeekOptions = {}
+): Promise<void> {
+  await Promise.all(
+    diffEmployeeSchedules(changes, options).map((week) =>
+      createScheduleNotification(supabase, {
+        userId: week.userId,
+        organizationId,
+        weekStart: week.weekStart,
+        added: week.added,
+        changed: week.changed,
+        removed: week.removed,
+        timeZone: options.timeZone,
+      })
+    )
+  );
+}
+
+/**
+ * After shifts are published, tell employees what their schedule for each
+ * affected week now looks like and record the publication. The first publish
+ * of a week reports the shifts it published; later ones report everything
+ * that changed since the previous publish.
+ */
+export async function recordSchedulePublication(
+  supabase: any,
+  organization: Pick<Organization, "id" | "settings" | "timezone">,
+  published: ScheduledShift[],
+  actorId: string
+): Promise<void> {
+  const options: ScheduleWeekOptions = {
+    weekStartsOn: resolveScheduleWeekStart(organization.settings),
+    timeZone: resolveTimeZone(organization.timezone),
+  };
+  const timeZone = options.timeZone!;
+  const publishedIds = new Set(published.map((shift) => shift.id));
+  const weeks = Array.from(new Set(published.map((shift) => getScheduleWeekStart(shift.start_time, options))));
+
+  for (const weekStart of weeks.sort()) {
+    const { data: current, error } = await supabase
+      .from("shifts")
+      .select(SCHEDULED_SHIFT_SELECT)
+      .eq("organization_id", organization.id)
+      .eq("is_published", true)
+      .not("user_id", "is", null)
+      .gte("start_time", startOfDayInTimeZone(weekStart, timeZone).toISOString())
+      .lt(
+        "start_time",
+        startOfDayInTimeZone(format(addDays(parseISO(weekStart), 7), "yyyy-MM-dd"), timeZone).toISOString()
+      );
+
+    if (error) {
+      throw new Error(`Failed to fetch published shifts: ${error.message}`);
+    }
+
+    const { data: previous, error: previousError } = await supabase
+      .from("schedule_publications")
+      .select("shifts")
+      .eq("organization_id", organization.id)
+      .eq("week_start", weekStart)
+      .order("published_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (previousError) {
+      throw new Error(`Failed to fetch previous publication: ${previousError.message}`);
+    }
+
+    const snapshot: ScheduledShift[] = (current || []).map(toScheduledShift);
+    const baseline: ScheduledShift[] = previous
+      ? ((previous.shifts as unknown as ScheduledShift[]) || [])
+      : snapshot.filter((shift) => !publishedIds.has(shift.id));
+
+    const employees = diffEmployeeSchedules(getScheduleChanges(baseline, snapshot), options).filter(
+      (week) => week.weekStart === weekStart
+    );
+
+    await Promise.all(
+      employees.map((week) =>
+        createScheduleNotification(supabase, {
+          userId: week.userId,
+          organizationId: organization.id,
+          weekStart,
+          added: week.added,
+          changed: week.changed,
+          removed: week.removed,
+          published: true,
+          republished: !!previous,
+          timeZone,
+        })
+      )
+    );
+
+    const { error: insertError } = await supabase.from("schedule_publications").insert({
+      organization_id: organization.id,
+      week_start: weekStart,
+      shifts: snapshot as unknown as Json,
+      published_by: actorId,
+    });
+
+    if (insertError) {
+      throw new Error(`Failed to record publication: ${insertError.message}`);
+    }
+  }
+}
@@ -0,0 +1,367 @@
+import { addDays, format, parseISO } from "date-fns";
+import { getScheduleWeekStart, notifyScheduleChanges, type ScheduleWeekOptions } from "@/lib/schedule-changes";
+import { detachShiftFromSeries } from "@/lib/shift-series";
+import { startOfDayInTimeZone } from "@/lib/timezone";
+import type { Database, Json } from "@/types/database.types";
+
+type Shift = Database["public"]["Tables"]["shifts"]["Row"];
+type ShiftInsert = Database["public"]["Tables"]["shifts"]["Insert"];
+type ScheduleVersion = Database["public"]["Tables"]["schedule_versions"]["Row"];
+
+export type ScheduleVersionReason =
+  | "publish"
+  | "copy_shifts"
+  | "copy_week"
+  | "apply_template"
+  | "bulk_create"
+  | "bulk_delete"
+  | "restore";
+
+export const scheduleVersionReasonLabels: Record<ScheduleVersionReason, string> = {
+  publish: "Published",
+  copy_shifts: "Before copying shifts",
+  copy_week: "Before copying a week",
+  apply_template: "Before applying a template",
+  bulk_create: "Before adding shifts",
+  bulk_delete: "Before deleting shifts",
+  restore: "Before restoring a version",
+};
+
+/**
+ * The shift fields a version keeps
+ */
+export type VersionShift = Pick<
+  Shift,
+  | "id"
+  | "user_id"
+  | "start_time"
+  | "end_time"
+  | "break_minutes"
+  | "location_id"
+  | "department_id"
+  | "position_id"
+  | "notes"
+  | "color"
+  | "is_published"
+>;
+
+/**
+ * A week of the schedule, optionally narrowed to one location and/or
+ * department (null means all of them)
+ */
+export interface ScheduleVersionScope {
+  // yyyy-MM-dd
+  weekStart: string;
+  locationId: string | null;
+  departmentId: string | null;
+}
+
+export interface ScheduleVersionDiff {
+  added: VersionShift[];
+  removed: VersionShift[];
+  changed: { before: VersionShift; after: VersionShift; fields: VersionField[] }[];
+}
+
+export interface ScheduleRestoreSummary {
+  added: number;
+  removed: number;
+  kept: number;
+}
+
+const versionFields = [
+  "user_id",
+  "start_time",
+  "end_time",
+  "break_minutes",
+  "location_id",
+  "department_id",
+  "position_id",
+  "notes",
+  "is_published",
+] as const;
+
+export type VersionField = (typeof versionFields)[number];
+
+export const versionFieldLabels: Record<VersionField, string> = {
+  user_id: "Employee",
+  start_time: "Start",
+  end_time: "End",
+  break_minutes: "Break",
+  location_id: "Location",
+  department_id: "Department",
+  position_id: "Position",
+  notes: "Notes",
+  is_published: "Published",
+};
+
+const toVersionShift = (shift: VersionShift): VersionShift => ({
+  id: shift.id,
+  user_id: shift.user_id,
+  start_time: shift.start_time,
+  end_time: shift.end_time,
+  break_minutes: shift.break_minutes,
+  location_id: shift.location_id,
+  department_id: shift.department_id,
+  position_id: shift.position_id,
+  notes: shift.notes,
+  color: shift.color,
+  is_published: shift.is_published,
+});
+
+// Times are compared as instants so "+00:00" and "Z" forms match
+const sameValue = (field: VersionField, a: VersionShift, b: VersionShift) =>
+  field === "start_time" || field === "end_time"
+    ? parseISO(a[field]).getTime() === parseISO(b[field]).getTime()
+    : (a[field] ?? null) === (b[field] ?? null);
+
+/**
+ * The shifts stored in a version
+ */
+export function getVersionShifts(version: Pick<ScheduleVersion, "shifts">): VersionShift[] {
+  return Array.isArray(version.shifts) ? (version.shifts as unknown as VersionShift[]) : [];
+}
+
+/**
+ * The instants a schedule week starts and ends, in the given time zone or
+ * local time
+ */
+export function getWeekRange(weekStart: string, timeZone?: string | null): { start: string; end: string } {
+  const nextWeek = format(addDays(parseISO(weekStart), 7), "yyyy-MM-dd");
+  const startOf = (dateKey: string) =>
+    timeZone ? startOfDayInTimeZone(dateKey, timeZone) : parseISO(dateKey);
+  return { start: startOf(weekStart).toISOString(), end: startOf(nextWeek).toISOString() };
+}
+
+/**
+ * The scopes to snapshot before changing a set of shifts: one per week, with
+ * the location or department when every shift in that week shares it
+ */
+export function getVersionScopes(
+  shifts: Pick<Shift, "start_time" | "location_id" | "department_id">[],
+  options: ScheduleWeekOptions = {}
+): ScheduleVersionScope[] {
+  const byWeek = new Map<string, typeof shifts>();
+  for (const shift of shifts) {
+    const weekStart = getScheduleWeekStart(shift.start_time, options);
+    byWeek.set(weekStart, [...(byWeek.get(weekStart) || []), shift]);
+  }
+
+  const shared = (values: (string | null)[]) => (values.every((value) => value === values[0]) ? values[0] : null);
+
+  return Array.from(byWeek.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([weekStart, weekShifts]) => ({
+      weekStart,
+      locationId: shared(weekShifts.map((shift) => shift.location_id)),
+      departmentId: shared(weekShifts.map((shift) => shift.department_id)),
+    }));
+}
+
+/**
+ * Compare two versions of a schedule by shift id
+ */
+export function diffScheduleVersions(from: VersionShift[], to: VersionShift[]): ScheduleVersionDiff {
+  const before = new Map(from.map((shift) => [shift.id, shift]));
+  const after = new Map(to.map((shift) => [shift.id, shift]));
+  const byStart = (a: VersionShift, b: VersionShift) => a.start_time.localeCompare(b.start_time);
+
+  const changed: ScheduleVersionDiff["changed"] = [];
+  for (const [id, shift] of after) {
+    const previous = before.get(id);
+    if (!previous) continue;
+    const fields = versionFields.filter((field) => !sameValue(field, previous, shift));
+    if (fields.length > 0) {
+      changed.push({ before: previous, after: shift, fields });
+    }
+  }
+
+  return {
+    added: to.filter((shift) => !before.has(shift.id)).sort(byStart),
+    removed: from.filter((shift) => !after.has(shift.id)).sort(byStart),
+    changed: changed.sort((a, b) => byStart(a.after, b.after)),
+  };
+}
+
+/**
+ * Every shift in a scope, drafts included
+ */
+export async function fetchScopeShifts(
+  supabase: any,
+  organizationId: string,
+  scope: ScheduleVersionScope,
+  options: ScheduleWeekOptions = {}
+): Promise<Shift[]> {
+  const range = getWeekRange(scope.weekStart, options.timeZone);
+  let query = supabase
+    .from("shifts")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .gte("start_time", range.start)
+    .lt("start_time", range.end)
+    .order("start_time", { ascending: true });
+
+  if (scope.locationId) {
+    query = query.eq("location_id", scope.locationId);
+  }
+  if (scope.departmentId) {
+    query = query.eq("department_id", scope.departmentId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to fetch shifts: ${error.message}`);
+  }
+  return data || [];
+}
+
+/**
+ * Save the current state of a scope as a new version
+ */
+export async function saveScheduleVersion(
+  supabase: any,
+  {
+    organizationId,
+    scope,
+    reason,
+    createdBy,
+  }: {
+    organizationId: string;
+    scope: ScheduleVersionScope;
+    reason: ScheduleVersionReason;
+    createdBy: string;
+  },
+  options: ScheduleWeekOptions = {}
+): Promise<ScheduleVersion> {
+  const shifts = (await fetchScopeShifts(supabase, organizationId, scope, options)).map(toVersionShift);
+
+  const { data, error } = await supabase
+    .from("schedule_versions")
+    .insert({
+      organization_id: organizationId,
+      week_start: scope.weekStart,
+      location_id: scope.locationId,
+      department_id: scope.departmentId,
+      reason,
+      shifts: shifts as unknown as Json,
+      shift_count: shifts.length,
+      created_by: createdBy,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save schedule version: ${error.message}`);
+  }
+  return data;
+}
+
+/**
+ * Snapshot the weeks a bulk change is about to touch (or, after a publish,
+ * has touched)
+ */
+export async function snapshotSchedule(
+  supabase: any,
+  organizationId: string,
+  shifts: Pick<Shift, "start_time" | "location_id" | "department_id">[],
+  reason: ScheduleVersionReason,
+  createdBy: string,
+  options: ScheduleWeekOptions = {}
+): Promise<void> {
+  for (const scope of getVersionScopes(shifts, options)) {
+    await saveScheduleVersion(supabase, { organizationId, scope, reason, createdBy }, options);
+  }
+}
+
+/**
+ * Put a scope back the way a version had it. The current state is saved
+ * first so the restore can itself be undone. Shifts that match the version
+ * are left alone; the rest are removed and the version's missing shifts are
+ * added back as drafts to review and publish. Shifts that have already
+ * started are never touched or re-added.
+ */
+export async function restoreScheduleVersion(
+  supabase: any,
+  version: ScheduleVersion,
+  {
+    createdBy,
+    now = new Date(),
+    weekStartsOn,
+    timeZone,
+  }: { createdBy: string; now?: Date } & ScheduleWeekOptions
+): Promise<ScheduleRestoreSummary> {
+  const options = { weekStartsOn, timeZone };
+  const scope: ScheduleVersionScope = {
+    weekStart: version.week_start,
+    locationId: version.location_id,
+    departmentId: version.department_id,
+  };
+
+  await saveScheduleVersion(
+    supabase,
+    { organizationId: version.organization_id, scope, reason: "restore", createdBy },
+    options
+  );
+
+  const target = new Map(getVersionShifts(version).map((shift) => [shift.id, shift]));
+  const current = await fetchScopeShifts(supabase, version.organization_id, scope, options);
+  const hasStarted = (shift: Pick<Shift, "start_time">) => parseISO(shift.start_time) <= now;
+  const matches = (shift: Shift) => {
+    const saved = target.get(shift.id);
+    return !!saved && versionFields.every((field) => field === "is_published" || sameValue(field, saved, shift));
+  };
+
+  const kept = current.filter((shift) => hasStarted(shift) || matches(shift));
+  const removed = current.filter((shift) => !kept.includes(shift));
+  const keptIds = new Set(kept.map((shift) => shift.id));
+  const added = Array.from(target.values()).filter((shift) => !hasStarted(shift) && !keptIds.has(shift.id));
+
+  for (const shift of removed) {
+    if (shift.repeat_parent_id || shift.repeat_rule) {
+      await detachShiftFromSeries(supabase, shift, timeZone ?? undefined);
+    }
+  }
+
+  if (removed.length > 0) {
+    const { error } = await supabase
+      .from("shifts")
+      .delete()
+      .in(
+        "id",
+        removed.map((shift) => shift.id)
+      );
+    if (error) {
+      throw new Error(`Failed to remove shifts: ${error.message}`);
+    }
+  }
+
+  if (added.length > 0) {
+    const rows: ShiftInsert[] = added.map((shift) => ({
+      organization_id: version.organization_id,
+      user_id: shift.user_id,
+      start_time: shift.start_time,
+      end_time: shift.end_time,
+      break_minutes: shift.break_minutes,
+      location_id: shift.location_id,
+      department_id: shift.department_id,
+      position_id: shift.position_id,
+      notes: shift.notes,
+      color: shift.color,
+      is_published: false,
+      status: "draft",
+      created_by: createdBy,
+    }));
+    const { error } = await supabase.from("shifts").insert(rows);
+    if (error) {
+      throw new Error(`Failed to restore shifts: ${error.message}`);
+    }
+  }
+
+  await notifyScheduleChanges(
+    supabase,
+    version.organization_id,
+    removed.map((shift) => ({ before: shift, after: null })),
+    options
+  );
+
+  return { added: added.length, removed: removed.length, kept: kept.length };
+}
@@ -0,0 +1,323 @@
+import { addDays, format, parseISO } from "date-fns";
+import { createOpenShiftNotification } from "@/lib/notifications";
+import { fetchEligibleEmployees, resolveOpenShiftSettings } from "@/lib/open-shifts";
+import { notifyScheduleChanges, type ShiftChange } from "@/lib/schedule-changes";
+import {
+  checkShifts,
+  resolveScheduleWeekStart,
+  resolveShiftValidationRules,
+  type ShiftValidationResult,
+  type ValidationShift,
+} from "@/lib/shift-validation";
+import {
+  dateTimeInTimeZone,
+  formatInTimeZone,
+  getDateKeyInTimeZone,
+  resolveTimeZone,
+} from "@/lib/timezone";
+import type { Database } from "@/types/database.types";
+
+type Shift = Database["public"]["Tables"]["shifts"]["Row"];
+type ShiftInsert = Database["public"]["Tables"]["shifts"]["Insert"];
+type Organization = Database["public"]["Tables"]["organizations"]["Row"];
+
+export const SHIFT_SELECT = `
+  *,
+  profiles!shifts_user_id_fkey (id, first_name, last_name, display_name, avatar_url),
+  locations (id, name),
+  departments (id, name),
+  positions (id, name, color)
+`;
+
+// Largest number of shifts a single bulk request may write
+export const MAX_SHIFTS_PER_REQUEST = 200;
+
+/**
+ * Shift fields accepted by the shifts API. user_id null is an open shift.
+ */
+export interface ShiftWriteInput {
+  user_id: string | null;
+  start_time: string;
+  end_time: string;
+  break_minutes: number;
+  location_id: string | null;
+  department_id: string | null;
+  position_id: string | null;
+  notes: string | null;
+  color: string | null;
+  is_published: boolean;
+}
+
+type ParseResult<T> = { data: T; error?: undefined } | { data?: undefined; error: string };
+
+const optionalString = (value: unknown, field: string, fallback: string | null): ParseResult<string | null> => {
+  if (value === undefined) return { data: fallback };
+  if (value === null || value === "") return { data: null };
+  if (typeof value !== "string") return { error: `${field} must be a string or null` };
+  return { data: value };
+};
+
+/**
+ * Read shift fields from a request body. When updating an existing shift only
+ * the fields present in the body change; when creating, start_time and
+ * end_time are required.
+ */
+export function parseShiftInput(body: unknown, existing?: Shift | null): ParseResult<ShiftWriteInput> {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { error: "Shift must be an object" };
+  }
+  const value = body as Record<string, unknown>;
+
+  const times: Record<"start_time" | "end_time", string> = { start_time: "", end_time: "" };
+  for (const field of ["start_time", "end_time"] as const) {
+    const raw = value[field] ?? existing?.[field];
+    if (typeof raw !== "string" || Number.isNaN(Date.parse(raw))) {
+      return { error: `${field} is required (ISO 8601 date-time)` };
+    }
+    times[field] = new Date(raw).toISOString();
+  }
+  if (times.end_time <= times.start_time) {
+    return { error: "end_time must be after start_time" };
+  }
+
+  const breakMinutes = value.break_minutes ?? existing?.break_minutes ?? 0;
+  if (typeof breakMinutes !== "number" || !Number.isInteger(breakMinutes) || breakMinutes < 0) {
+    return { error: "break_minutes must be a non-negative integer" };
+  }
+
+  const isPublished = value.is_published ?? existing?.is_published ?? false;
+  if (typeof isPublished !== "boolean") {
+    return { error: "is_published must be a boolean" };
+  }
+
+  const strings: Record<string, string | null> = {};
+  for (const field of ["user_id", "location_id", "department_id", "position_id", "notes", "color"] as const) {
+    const result = optionalString(value[field], field, existing?.[field] ?? null);
+    if (result.error !== undefined) return { error: result.error };
+    strings[field] = result.data;
+  }
+
+  return {
+    data: {
+      user_id: strings.user_id,
+      ...times,
+      break_minutes: breakMinutes,
+      location_id: strings.location_id,
+      department_id: strings.department_id,
+      position_id: strings.position_id,
+      notes: strings.notes,
+      color: strings.color,
+      is_published: isPublished,
+    },
+  };
+}
+
+/**
+ * The row to write for a shift, with publish state and who made the change
+ */
+export function toShiftRow(
+  input: ShiftWriteInput,
+  { organizationId, actorId, existing }: { organizationId: string; actorId: string; existing?: Shift | null }
+): ShiftInsert {
+  const stillPublished = input.is_published && !!existing?.is_published;
+  return {
+    ...input,
+    organization_id: organizationId,
+    status: input.is_published ? "published" : "draft",
+    published_at: input.is_published
+      ? (stillPublished && existing?.published_at) || new Date().toISOString()
+      : null,
+    updated_by: actorId,
+    ...(existing ? {} : { created_by: actorId }),
+  };
+}
+
+/**
+ * Fields an update changes. Times are compared as instants, since stored
+ * timestamps come back in "+00:00" form.
+ */
+export function getChangedShiftFields(input: ShiftWriteInput, existing: Shift): (keyof ShiftWriteInput)[] {
+  return (Object.keys(input) as (keyof ShiftWriteInput)[]).filter((field) =>
+    field === "start_time" || field === "end_time"
+      ? parseISO(input[field]).getTime() !== parseISO(existing[field]).getTime()
+      : (input[field] ?? null) !== (existing[field] ?? null)
+  );
+}
+
+/**
+ * Check that the employees, locations, departments and positions a set of
+ * shifts refer to belong to the organization. Returns an error message, and
+ * fills in each shift's color from its position when none was given.
+ */
+export async function checkShiftReferences(
+  supabase: any,
+  organizationId: string,
+  inputs: ShiftWriteInput[]
+): Promise<string | null> {
+  const collect = (field: "user_id" | "location_id" | "department_id" | "position_id") =>
+    Array.from(new Set(inputs.map((input) => input[field]).filter((id): id is string => !!id)));
+
+  const references = [
+    { table: "profiles", field: "user_id", ids: collect("user_id") },
+    { table: "locations", field: "location_id", ids: collect("location_id") },
+    { table: "departments", field: "department_id", ids: collect("department_id") },
+    { table: "positions", field: "position_id", ids: collect("position_id") },
+  ] as const;
+
+  for (const { table, field, ids } of references) {
+    if (ids.length === 0) continue;
+
+    const { data, error } = await supabase
+      .from(table)
+      .select(table === "positions" ? "id, color" : "id")
+      .eq("organization_id", organizationId)
+      .in("id", ids);
+
+    if (error) {
+      throw new Error(`Failed to check ${table}: ${error.message}`);
+    }
+
+    const found = new Map<string, { id: string; color?: string | null }>(
+      (data || []).map((row: { id: string; color?: string | null }) => [row.id, row])
+    );
+    const missing = ids.filter((id) => !found.has(id));
+    if (missing.length > 0) {
+      return `Unknown ${field}: ${missing.join(", ")}`;
+    }
+
+    if (table === "positions") {
+      for (const input of inputs) {
+        if (!input.color && input.position_id) {
+          input.color = found.get(input.position_id)?.color || null;
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate shifts against the organization's scheduling rules, in its time zone
+ */
+export async function validateShiftWrites(
+  supabase: any,
+  organization: Pick<Organization, "id" | "settings" | "timezone">,
+  candidates: ValidationShift[]
+): Promise<ShiftValidationResult> {
+  return checkShifts(
+    supabase,
+    organization.id,
+    candidates,
+    resolveShiftValidationRules(organization.settings),
+    {
+      weekStartsOn: resolveScheduleWeekStart(organization.settings),
+      timeZone: resolveTimeZone(organization.timezone),
+    }
+  );
+}
+
+/**
+ * Errors always block a write; warnings block it unless the caller has
+ * acknowledged them
+ */
+export function isBlockedByValidation(result: ShiftValidationResult, acknowledgeWarnings: boolean) {
+  return result.errors.length > 0 || (!acknowledgeWarnings && result.warnings.length > 0);
+}
+
+/**
+ * A shift moved to another calendar date, keeping its wall-clock start time
+ * in the organization's time zone and its length
+ */
+export function getShiftTimesOnDate(
+  shift: Pick<Shift, "start_time" | "end_time">,
+  dateKey: string,
+  timeZone: string
+): { start_time: string; end_time: string } {
+  const start = parseISO(shift.start_time);
+  const duration = parseISO(shift.end_time).getTime() - start.getTime();
+  const time = formatInTimeZone(start, timeZone, { hour: "2-digit", minute: "2-digit", hourCycle: "h23" });
+  const newStart = dateTimeInTimeZone(dateKey, time, timeZone);
+
+  return {
+    start_time: newStart.toISOString(),
+    end_time: new Date(newStart.getTime() + duration).toISOString(),
+  };
+}
+
+/**
+ * The calendar date a number of days after a shift's date
+ */
+export function getShiftDateOffset(shift: Pick<Shift, "start_time">, days: number, timeZone: string) {
+  const dateKey = getDateKeyInTimeZone(parseISO(shift.start_time), timeZone);
+  return format(addDays(parseISO(dateKey), days), "yyyy-MM-dd");
+}
+
+/**
+ * Open shifts that became visible to employees with a set of changes
+ */
+export function getPostedOpenShifts(changes: ShiftChange<Shift>[]): Shift[] {
+  return changes
+    .filter(({ before, after }) => {
+      const wasOpen = !!before?.is_published && !before.user_id;
+      return !!after?.is_published && !after.user_id && !wasOpen;
+    })
+    .map(({ after }) => after!);
+}
+
+/**
+ * Let eligible employees know about newly posted open shifts, when the
+ * organization has that turned on
+ */
+export async function notifyOpenShiftsPosted(
+  supabase: any,
+  organization: Pick<Organization, "id" | "settings">,
+  shifts: Shift[]
+): Promise<void> {
+  const openShiftSettings = resolveOpenShiftSettings(organization.settings);
+  if (!openShiftSettings.enabled || !openShiftSettings.notifyEligibleEmployees) return;
+
+  for (const shift of shifts) {
+    const eligible = await fetchEligibleEmployees(supabase, organization.id, shift);
+    await Promise.all(
+      eligible.map((member) =>
+        createOpenShiftNotification(supabase, {
+          userId: member.id,
+          organizationId: organization.id,
+          type: "open_shift_posted",
+          shiftId: shift.id,
+          shiftDate: shift.start_time,
+        })
+      )
+    );
+  }
+}
+
+/**
+ * Send the notifications for a set of shift changes: one schedule summary
+ * per affected employee and week, and open shift alerts
+ */
+export async function notifyShiftChanges(
+  supabase: any,
+  organization: Pick<Organization, "id" | "settings" | "timezone">,
+  changes: ShiftChange<Shift>[]
+): Promise<void> {
+  await notifyScheduleChanges(supabase, organization.id, changes, {
+    weekStartsOn: resolveScheduleWeekStart(organization.settings),
+    timeZone: resolveTimeZone(organization.timezone),
+  });
+  await notifyOpenShiftsPosted(supabase, organization, getPostedOpenShifts(changes));
+}
+
+export const toValidationShift = (
+  shift: Pick<Shift, "user_id" | "start_time" | "end_time" | "break_minutes" | "position_id"> & { id?: string },
+  key?: string
+): ValidationShift => ({
+  key: key ?? shift.id,
+  id: shift.id,
+  user_id: shift.user_id,
+  start_time: shift.start_time,
+  end_time: shift.end_time,
+  break_minutes: shift.break_minutes,
+  position_id: shift.position_id,
+});
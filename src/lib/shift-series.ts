@@ -0,0 +1,611 @@
+import { addDays, differenceInCalendarDays, format, parseISO, setHours, setMinutes } from "date-fns";
+import { expandRecurrence, formatRRule, parseRRule, type RecurrenceRule } from "@/lib/recurrence";
+import { notifyScheduleChanges, type ScheduleWeekOptions, type ShiftChange } from "@/lib/schedule-changes";
+import { getDateKeyInTimeZone } from "@/lib/timezone";
+import type { Database, Json } from "@/types/database.types";
+
+type Shift = Database["public"]["Tables"]["shifts"]["Row"];
+type ShiftInsert = Database["public"]["Tables"]["shifts"]["Insert"];
+
+/**
+ * Recurring shifts are stored as one row per occurrence. The first row of a
+ * series holds the rule in repeat_rule and the other rows point at it through
+ * repeat_parent_id. Occurrences edited on their own date stay in the series;
+ * ones moved to another date are detached and their original date is added
+ * to the rule's exception dates.
+ */
+export type SeriesScope = "this" | "following" | "all";
+
+export const seriesScopeLabels: Record<SeriesScope, string> = {
+  this: "This shift",
+  following: "This and following shifts",
+  all: "All shifts in the series",
+};
+
+// Stored in repeat_rule on the first shift of a series
+export interface ShiftRecurrence {
+  rrule: string;
+  // First occurrence, yyyy-MM-dd
+  dtstart: string;
+  exdates: string[];
+}
+
+export type ShiftSeriesFields = Pick<
+  ShiftInsert,
+  | "organization_id"
+  | "user_id"
+  | "break_minutes"
+  | "location_id"
+  | "department_id"
+  | "position_id"
+  | "notes"
+  | "color"
+  | "is_published"
+  | "status"
+  | "published_at"
+>;
+
+export interface ShiftOccurrenceInput {
+  date: string;
+  startTime: string;
+  endTime: string;
+  fields: ShiftSeriesFields;
+}
+
+export interface ShiftSeriesSummary {
+  updated: number;
+  created: number;
+  deleted: number;
+  // Occurrences that had already started and were left in place
+  kept: number;
+}
+
+// When "now" is for deciding which shifts have started; the week and time
+// zone are used for the schedule summaries sent to employees
+export interface ShiftSeriesOptions {
+  now?: Date;
+  weekStartsOn?: ScheduleWeekOptions["weekStartsOn"];
+  timeZone?: string;
+}
+
+const emptySummary = (): ShiftSeriesSummary => ({ updated: 0, created: 0, deleted: 0, kept: 0 });
+
+/**
+ * Read a repeat_rule value, ignoring anything that isn't a valid rule
+ */
+export function resolveShiftRecurrence(value: Json | null | undefined): ShiftRecurrence | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const { rrule, dtstart, exdates } = value as Record<string, Json>;
+  if (typeof rrule !== "string" || typeof dtstart !== "string") return null;
+
+  try {
+    parseRRule(rrule);
+  } catch {
+    return null;
+  }
+  return {
+    rrule,
+    dtstart,
+    exdates: Array.isArray(exdates) ? exdates.filter((d): d is string => typeof d === "string") : [],
+  };
+}
+
+export function getRecurrenceDates(recurrence: ShiftRecurrence): string[] {
+  return expandRecurrence(parseRRule(recurrence.rrule), recurrence.dtstart, {
+    exdates: recurrence.exdates,
+  });
+}
+
+/**
+ * Replace a rule's end (UNTIL or COUNT) with a last date, dropping exception
+ * dates after it
+ */
+export function endRecurrence(recurrence: ShiftRecurrence, lastDate: string): ShiftRecurrence {
+  const rule: RecurrenceRule = { ...parseRRule(recurrence.rrule), until: lastDate, count: undefined };
+  return {
+    ...recurrence,
+    rrule: formatRRule(rule),
+    exdates: recurrence.exdates.filter((date) => date <= lastDate),
+  };
+}
+
+// A rule with an end date instead of a count, so it can be split
+export function toUntilRule(recurrence: ShiftRecurrence): RecurrenceRule {
+  const rule = parseRRule(recurrence.rrule);
+  if (!rule.count) return rule;
+  const dates = expandRecurrence(rule, recurrence.dtstart);
+  return { ...rule, count: undefined, until: dates[dates.length - 1] };
+}
+
+export const getSeriesId = (shift: Pick<Shift, "id" | "repeat_parent_id">) => shift.repeat_parent_id || shift.id;
+
+// Calendar date of a shift, in the given time zone or local time
+export const getShiftDate = (shift: Pick<Shift, "start_time">, timeZone?: string) =>
+  timeZone
+    ? getDateKeyInTimeZone(parseISO(shift.start_time), timeZone)
+    : format(parseISO(shift.start_time), "yyyy-MM-dd");
+
+const shiftDate = (date: string, days: number) => format(addDays(parseISO(date), days), "yyyy-MM-dd");
+
+const getOccurrenceTimes = (date: string, startTime: string, endTime: string) => {
+  const [startHour, startMinute] = startTime.split(":").map(Number);
+  const [endHour, endMinute] = endTime.split(":").map(Number);
+  const day = parseISO(date);
+  return {
+    start_time: setMinutes(setHours(day, startHour), startMinute).toISOString(),
+    end_time: setMinutes(setHours(day, endHour), endMinute).toISOString(),
+  };
+};
+
+const byStartTime = (a: Shift, b: Shift) => a.start_time.localeCompare(b.start_time);
+
+/**
+ * Every shift in a series, first occurrence first
+ */
+export async function fetchShiftSeries(supabase: any, seriesId: string): Promise<Shift[]> {
+  const { data, error } = await supabase
+    .from("shifts")
+    .select("*")
+    .or(`repeat_parent_id.eq.${seriesId},id.eq.${seriesId}`)
+    .order("start_time");
+
+  if (error) {
+    throw new Error(`Failed to fetch shift series: ${error.message}`);
+  }
+  return data || [];
+}
+
+/**
+ * Create the shifts for a new series. Returns the first shift.
+ */
+export async function createShiftSeries(
+  supabase: any,
+  input: ShiftOccurrenceInput,
+  rule: RecurrenceRule,
+  options: ShiftSeriesOptions = {}
+): Promise<{ first: Shift; count: number }> {
+  const dates = expandRecurrence(rule, input.date);
+  if (dates.length === 0) {
+    throw new Error("The repeat rule doesn't produce any shifts");
+  }
+
+  const recurrence: ShiftRecurrence = { rrule: formatRRule(rule), dtstart: input.date, exdates: [] };
+  const { data: first, error } = await supabase
+    .from("shifts")
+    .insert({
+      ...input.fields,
+      ...getOccurrenceTimes(dates[0], input.startTime, input.endTime),
+      repeat_parent_id: null,
+      repeat_rule: recurrence as unknown as Json,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create shift: ${error.message}`);
+  }
+
+  let rest: Shift[] = [];
+  if (dates.length > 1) {
+    const { data, error: restError } = await supabase
+      .from("shifts")
+      .insert(
+        dates.slice(1).map((date) => ({
+          ...input.fields,
+          ...getOccurrenceTimes(date, input.startTime, input.endTime),
+          repeat_parent_id: first.id,
+        }))
+      )
+      .select();
+    if (restError) {
+      throw new Error(`Failed to create shifts: ${restError.message}`);
+    }
+    rest = data || [];
+  }
+
+  await notifySeriesChanges(
+    supabase,
+    first.organization_id,
+    [first, ...rest].map((shift) => ({ before: null, after: shift })),
+    options
+  );
+  return { first, count: dates.length };
+}
+
+/**
+ * Hand a series over to its earliest remaining shift, e.g. when the first
+ * shift is deleted or moved out of the series
+ */
+async function rehomeSeries(supabase: any, remaining: Shift[], recurrence: ShiftRecurrence | null) {
+  const [next, ...rest] = [...remaining].sort(byStartTime);
+  if (!next) return null;
+
+  const { error } = await supabase
+    .from("shifts")
+    .update({ repeat_parent_id: null, repeat_rule: recurrence as unknown as Json })
+    .eq("id", next.id);
+  if (error) {
+    throw new Error(`Failed to update shift series: ${error.message}`);
+  }
+
+  if (rest.length > 0) {
+    const { error: restError } = await supabase
+      .from("shifts")
+      .update({ repeat_parent_id: next.id })
+      .in(
+        "id",
+        rest.map((shift) => shift.id)
+      );
+    if (restError) {
+      throw new Error(`Failed to update shift series: ${restError.message}`);
+    }
+  }
+  return next.id;
+}
+
+async function saveRecurrence(supabase: any, seriesId: string, recurrence: ShiftRecurrence) {
+  const { error } = await supabase
+    .from("shifts")
+    .update({ repeat_rule: recurrence as unknown as Json })
+    .eq("id", seriesId);
+  if (error) {
+    throw new Error(`Failed to update repeat rule: ${error.message}`);
+  }
+}
+
+// Tell each employee how their schedule changed, one summary per week
+async function notifySeriesChanges(
+  supabase: any,
+  organizationId: string,
+  changes: ShiftChange[],
+  { weekStartsOn, timeZone }: ShiftSeriesOptions
+) {
+  await notifyScheduleChanges(supabase, organizationId, changes, { weekStartsOn, timeZone });
+}
+
+async function deleteShifts(supabase: any, shifts: Shift[]) {
+  if (shifts.length === 0) return;
+  const { data: deleted, error } = await supabase
+    .from("shifts")
+    .delete()
+    .in(
+      "id",
+      shifts.map((shift) => shift.id)
+    )
+    .select("id");
+  if (error) {
+    throw new Error(`Failed to delete shifts: ${error.message}`);
+  }
+  // Shifts outside a manager's groups are silently skipped by RLS
+  if ((deleted || []).length < shifts.length) {
+    throw new Error("Failed to delete shifts: you can only manage employees in your groups");
+  }
+}
+
+/**
+ * Bring a run of occurrences in line with a rule's dates. Rows already on a
+ * date are updated, spare rows are moved onto dates without one and any still
+ * left over are deleted, or detached if they have already started. Dates in
+ * the past without a row are not filled in.
+ */
+async function syncOccurrences(
+  supabase: any,
+  {
+    holderId,
+    recurrence,
+    rows,
+    dates,
+    input,
+    now,
+    changes,
+  }: {
+    holderId: string;
+    recurrence: ShiftRecurrence;
+    rows: Shift[];
+    dates: string[];
+    input: ShiftOccurrenceInput;
+    now: Date;
+    // Collects each row's before and after state
+    changes: ShiftChange[];
+  }
+): Promise<ShiftSeriesSummary> {
+  const summary = emptySummary();
+  const assigned = new Map<string, Shift>();
+  const spare: Shift[] = [];
+
+  for (const row of rows) {
+    const date = getShiftDate(row);
+    if (dates.includes(date) && !assigned.has(date)) {
+      assigned.set(date, row);
+    } else {
+      spare.push(row);
+    }
+  }
+  // The shift holding the rule is reused first so it is never left over
+  spare.sort((a, b) => (a.id === holderId ? -1 : b.id === holderId ? 1 : byStartTime(a, b)));
+
+  const today = format(now, "yyyy-MM-dd");
+  const missing = dates.filter((date) => !assigned.has(date));
+  const toInsert: string[] = [];
+  for (const date of missing) {
+    const row = spare.shift();
+    if (row) {
+      assigned.set(date, row);
+    } else if (date >= today) {
+      toInsert.push(date);
+    }
+  }
+
+  const holderLeftOver = spare.findIndex((row) => row.id === holderId);
+  if (holderLeftOver >= 0 && assigned.size > 0) {
+    const [date, row] = Array.from(assigned.entries()).sort(([a], [b]) => a.localeCompare(b))[0];
+    assigned.set(date, spare[holderLeftOver]);
+    spare[holderLeftOver] = row;
+  }
+
+  const updates = Array.from(assigned.entries()).map(([date, row]) => ({
+    ...row,
+    ...input.fields,
+    ...getOccurrenceTimes(date, input.startTime, input.endTime),
+    repeat_parent_id: row.id === holderId ? null : holderId,
+    repeat_rule: row.id === holderId ? (recurrence as unknown as Json) : null,
+  }));
+  if (updates.length > 0) {
+    const { error } = await supabase.from("shifts").upsert(updates);
+    if (error) {
+      throw new Error(`Failed to update shifts: ${error.message}`);
+    }
+    summary.updated = updates.length;
+    for (const update of updates) {
+      changes.push({ before: rows.find((row) => row.id === update.id) ?? null, after: update });
+    }
+  }
+
+  if (toInsert.length > 0) {
+    const { data: created, error } = await supabase
+      .from("shifts")
+      .insert(
+        toInsert.map((date) => ({
+          ...input.fields,
+          ...getOccurrenceTimes(date, input.startTime, input.endTime),
+          repeat_parent_id: holderId,
+        }))
+      )
+      .select();
+    if (error) {
+      throw new Error(`Failed to create shifts: ${error.message}`);
+    }
+    summary.created = toInsert.length;
+    for (const shift of (created || []) as Shift[]) {
+      changes.push({ before: null, after: shift });
+    }
+  }
+
+  const started = spare.filter((row) => parseISO(row.start_time) <= now);
+  const removable = spare.filter((row) => parseISO(row.start_time) > now);
+  if (started.length > 0) {
+    const { error } = await supabase
+      .from("shifts")
+      .update({ repeat_parent_id: null, repeat_rule: null })
+      .in(
+        "id",
+        started.map((row) => row.id)
+      );
+    if (error) {
+      throw new Error(`Failed to update shifts: ${error.message}`);
+    }
+    summary.kept = started.length;
+  }
+  await deleteShifts(supabase, removable);
+  summary.deleted = removable.length;
+  for (const row of removable) {
+    changes.push({ before: row, after: null });
+  }
+
+  return summary;
+}
+
+/**
+ * Take one shift out of its series, recording its date as an exception
+ */
+async function detachOccurrence(supabase: any, shift: Shift, series: Shift[], timeZone?: string) {
+  const seriesId = getSeriesId(shift);
+  const holder = series.find((row) => row.id === seriesId);
+  const recurrence = resolveShiftRecurrence(holder?.repeat_rule);
+  const excluded = recurrence
+    ? {
+        ...recurrence,
+        exdates: Array.from(new Set([...recurrence.exdates, getShiftDate(shift, timeZone)])).sort(),
+      }
+    : null;
+
+  if (shift.id === seriesId) {
+    await rehomeSeries(
+      supabase,
+      series.filter((row) => row.id !== shift.id),
+      excluded
+    );
+  } else if (excluded) {
+    await saveRecurrence(supabase, seriesId, excluded);
+  }
+}
+
+/**
+ * Take a shift out of its series before it is moved to another date, so
+ * editing the series later doesn't move it back
+ */
+export async function detachShiftFromSeries(supabase: any, shift: Shift, timeZone?: string) {
+  const series = await fetchShiftSeries(supabase, getSeriesId(shift));
+  if (series.length <= 1 && !shift.repeat_rule) return;
+
+  await detachOccurrence(supabase, shift, series, timeZone);
+  const { error } = await supabase
+    .from("shifts")
+    .update({ repeat_parent_id: null, repeat_rule: null })
+    .eq("id", shift.id);
+  if (error) {
+    throw new Error(`Failed to update shift: ${error.message}`);
+  }
+}
+
+/**
+ * Save changes to a shift in a series. "this" changes the one shift (moving
+ * it to another date takes it out of the series), "following" splits the
+ * series at this shift with the rest following the new rule, and "all"
+ * rewrites every shift from the rule. Series created before rules were
+ * stored only have their existing shifts updated. Employees get one summary
+ * per week of the changes to shifts published to them.
+ */
+export async function updateShiftSeries(
+  supabase: any,
+  shift: Shift,
+  input: ShiftOccurrenceInput,
+  scope: SeriesScope,
+  rule?: RecurrenceRule | null,
+  options: ShiftSeriesOptions = {}
+): Promise<ShiftSeriesSummary> {
+  const now = options.now ?? new Date();
+  const series = await fetchShiftSeries(supabase, getSeriesId(shift));
+  const occurrenceDate = getShiftDate(shift);
+
+  if (scope === "this") {
+    if (input.date !== occurrenceDate) {
+      await detachOccurrence(supabase, shift, series);
+    }
+    const { data: updated, error } = await supabase
+      .from("shifts")
+      .update({
+        ...input.fields,
+        ...getOccurrenceTimes(input.date, input.startTime, input.endTime),
+        ...(input.date !== occurrenceDate ? { repeat_parent_id: null, repeat_rule: null } : {}),
+      })
+      .eq("id", shift.id)
+      .select()
+      .single();
+    if (error) {
+      throw new Error(`Failed to update shift: ${error.message}`);
+    }
+    await notifySeriesChanges(supabase, shift.organization_id, [{ before: shift, after: updated }], options);
+    return { ...emptySummary(), updated: 1 };
+  }
+
+  const seriesId = getSeriesId(shift);
+  const holder = series.find((row) => row.id === seriesId);
+  const recurrence = resolveShiftRecurrence(holder?.repeat_rule);
+  const firstDate = recurrence?.dtstart ?? (series[0] ? getShiftDate(series[0]) : occurrenceDate);
+  const splitting = scope === "following" && occurrenceDate > firstDate;
+  const rows = splitting ? series.filter((row) => getShiftDate(row) >= occurrenceDate) : series;
+  const delta = differenceInCalendarDays(parseISO(input.date), parseISO(occurrenceDate));
+
+  if (!recurrence) {
+    const updates = rows.map((row) => ({
+      ...row,
+      ...input.fields,
+      ...getOccurrenceTimes(
+        row.id === shift.id ? input.date : getShiftDate(row),
+        input.startTime,
+        input.endTime
+      ),
+      ...(splitting ? { repeat_parent_id: row.id === shift.id ? null : shift.id } : {}),
+    }));
+    const { error } = await supabase.from("shifts").upsert(updates);
+    if (error) {
+      throw new Error(`Failed to update shifts: ${error.message}`);
+    }
+    await notifySeriesChanges(
+      supabase,
+      shift.organization_id,
+      updates.map((update) => ({ before: rows.find((row) => row.id === update.id) ?? null, after: update })),
+      options
+    );
+    return { ...emptySummary(), updated: updates.length };
+  }
+
+  let holderId = seriesId;
+  let next: ShiftRecurrence;
+
+  if (splitting) {
+    await saveRecurrence(supabase, seriesId, endRecurrence(recurrence, shiftDate(occurrenceDate, -1)));
+    holderId = shift.id;
+    next = {
+      rrule: formatRRule(rule ?? toUntilRule(recurrence)),
+      dtstart: input.date,
+      exdates: recurrence.exdates.filter((date) => date > occurrenceDate).map((date) => shiftDate(date, delta)),
+    };
+  } else {
+    next = {
+      rrule: rule ? formatRRule(rule) : recurrence.rrule,
+      dtstart: shiftDate(recurrence.dtstart, delta),
+      exdates: recurrence.exdates.map((date) => shiftDate(date, delta)),
+    };
+  }
+
+  const changes: ShiftChange[] = [];
+  const summary = await syncOccurrences(supabase, {
+    holderId,
+    recurrence: next,
+    rows,
+    dates: getRecurrenceDates(next),
+    input,
+    now,
+    changes,
+  });
+  await notifySeriesChanges(supabase, shift.organization_id, changes, options);
+  return summary;
+}
+
+/**
+ * Delete a shift in a series. "following" and "all" only remove shifts that
+ * haven't started yet and end the rule after the last one kept. Employees get
+ * one summary per week of removed shifts that were published to them.
+ */
+export async function deleteShiftSeries(
+  supabase: any,
+  shift: Shift,
+  scope: SeriesScope,
+  options: ShiftSeriesOptions = {}
+): Promise<ShiftSeriesSummary> {
+  const { now = new Date(), timeZone } = options;
+  const series = await fetchShiftSeries(supabase, getSeriesId(shift));
+
+  if (scope === "this") {
+    await detachOccurrence(supabase, shift, series, timeZone);
+    await deleteShifts(supabase, [shift]);
+    await notifySeriesChanges(supabase, shift.organization_id, [{ before: shift, after: null }], options);
+    return { ...emptySummary(), deleted: 1 };
+  }
+
+  const seriesId = getSeriesId(shift);
+  const holder = series.find((row) => row.id === seriesId);
+  const recurrence = resolveShiftRecurrence(holder?.repeat_rule);
+  const occurrenceDate = getShiftDate(shift, timeZone);
+  const firstDate = series[0] ? getShiftDate(series[0], timeZone) : occurrenceDate;
+  const cutoff = scope === "following" && occurrenceDate > firstDate ? occurrenceDate : firstDate;
+
+  const targets = series.filter((row) => getShiftDate(row, timeZone) >= cutoff);
+  const removable = targets.filter((row) => parseISO(row.start_time) > now);
+  const kept = targets.filter((row) => parseISO(row.start_time) <= now);
+  const remaining = series.filter((row) => !removable.includes(row));
+
+  if (recurrence && remaining.length > 0) {
+    const lastKept = kept.length > 0 ? getShiftDate(kept.sort(byStartTime)[kept.length - 1], timeZone) : null;
+    const ended = endRecurrence(recurrence, lastKept ?? shiftDate(cutoff, -1));
+
+    if (holder && removable.includes(holder)) {
+      await rehomeSeries(supabase, remaining, ended);
+    } else {
+      await saveRecurrence(supabase, seriesId, ended);
+    }
+  } else if (holder && removable.includes(holder) && remaining.length > 0) {
+    await rehomeSeries(supabase, remaining, null);
+  }
+
+  await deleteShifts(supabase, removable);
+  await notifySeriesChanges(
+    supabase,
+    shift.organization_id,
+    removable.map((row) => ({ before: row, after: null })),
+    options
+  );
+  return { ...emptySummary(), deleted: removable.length, kept: kept.length };
+}
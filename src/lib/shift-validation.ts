@@ -0,0 +1,454 @@
+import { addDays, format, parseISO, startOfWeek, subDays } from "date-fns";
+import type { Json } from "@/types/database.types";
+import { formatInTimeZone, getDateKeyInTimeZone } from "@/lib/timezone";
+import {
+  buildMemberAvailability,
+  getAvailabilityConflicts,
+  type MemberAvailability,
+  type UnavailabilityEntry,
+} from "@/lib/availability";
+
+/**
+ * Organization-level scheduling rules, stored in
+ * `organizations.settings.shiftValidationRules`. A limit of 0 disables the check.
+ */
+export interface ShiftValidationRules {
+  minRestHours: number;
+  maxHoursPerWeek: number;
+  minDaysOffPerWeek: number;
+  requireQualification: boolean;
+}
+
+export const defaultShiftValidationRules: ShiftValidationRules = {
+  minRestHours: 10,
+  maxHoursPerWeek: 40,
+  minDaysOffPerWeek: 1,
+  requireQualification: true,
+};
+
+export type ShiftValidationSeverity = "error" | "warning";
+
+export type ShiftValidationCode =
+  | "invalid_time"
+  | "overlap"
+  | "pto_conflict"
+  | "min_rest"
+  | "max_weekly_hours"
+  | "days_off"
+  | "qualification"
+  | "availability"
+  | "preferred_hours";
+
+export interface ShiftValidationIssue {
+  shiftKey: string;
+  userId: string | null;
+  severity: ShiftValidationSeverity;
+  code: ShiftValidationCode;
+  message: string;
+}
+
+export interface ShiftValidationResult {
+  errors: ShiftValidationIssue[];
+  warnings: ShiftValidationIssue[];
+}
+
+/**
+ * A shift as far as validation is concerned. Candidates without an id are new;
+ * candidates with an id replace the stored version of that shift.
+ */
+export interface ValidationShift {
+  key?: string;
+  id?: string | null;
+  user_id: string | null;
+  start_time: string;
+  end_time: string;
+  break_minutes?: number | null;
+  position_id?: string | null;
+}
+
+export interface ValidationPTORequest {
+  user_id: string;
+  start_date: string;
+  end_date: string;
+  status: string | null;
+  pto_type?: string | null;
+}
+
+export interface ShiftValidationContext {
+  existingShifts: ValidationShift[];
+  ptoRequests: ValidationPTORequest[];
+  // Position ids held by each user
+  userPositions: Record<string, string[]>;
+  // Users without an entry have no availability restrictions
+  availability?: Record<string, MemberAvailability>;
+  unavailability?: UnavailabilityEntry[];
+}
+
+export interface ShiftValidationOptions {
+  weekStartsOn?: 0 | 1 | 2 | 3 | 4 | 5 | 6;
+  // Dates and weeks are evaluated in this zone; local time when omitted
+  timeZone?: string | null;
+}
+
+/**
+ * Resolve validation rules from an organization's settings JSON
+ */
+export function resolveShiftValidationRules(
+  settings: Json | null | undefined
+): ShiftValidationRules {
+  const saved = (settings as any)?.shiftValidationRules;
+  return { ...defaultShiftValidationRules, ...saved };
+}
+
+const weekStartDayMap: Record<string, 0 | 1 | 6> = { sunday: 0, monday: 1, saturday: 6 };
+
+/**
+ * The schedule's configured first day of the week
+ */
+export function resolveScheduleWeekStart(settings: Json | null | undefined): 0 | 1 | 6 {
+  const weekStartDay = (settings as any)?.displayPreferences?.weekStartDay;
+  return weekStartDayMap[weekStartDay] ?? 0;
+}
+
+export function hasValidationIssues(result: ShiftValidationResult): boolean {
+  return result.errors.length > 0 || result.warnings.length > 0;
+}
+
+const getShiftKey = (shift: ValidationShift, index: number) =>
+  shift.key || shift.id || `new-${index}`;
+
+const getWorkedHours = (shift: ValidationShift) => {
+  const minutes =
+    (parseISO(shift.end_time).getTime() - parseISO(shift.start_time).getTime()) / 60000;
+  return Math.max(0, minutes - (shift.break_minutes || 0)) / 60;
+};
+
+const roundHours = (hours: number) => Math.round(hours * 100) / 100;
+
+/**
+ * Check candidate shifts against each other and the rest of the schedule.
+ * Errors (overlaps, approved time off, invalid times) should block saving;
+ * warnings need the scheduler to confirm.
+ */
+export function validateShifts(
+  candidates: ValidationShift[],
+  context: ShiftValidationContext,
+  rules: ShiftValidationRules = defaultShiftValidationRules,
+  options: ShiftValidationOptions = {}
+): ShiftValidationResult {
+  const errors: ShiftValidationIssue[] = [];
+  const warnings: ShiftValidationIssue[] = [];
+  const weekStartsOn = options.weekStartsOn ?? 0;
+
+  const toDateKey = (date: Date) =>
+    options.timeZone ? getDateKeyInTimeZone(date, options.timeZone) : format(date, "yyyy-MM-dd");
+  const toWeekKey = (date: Date) =>
+    format(startOfWeek(parseISO(toDateKey(date)), { weekStartsOn }), "yyyy-MM-dd");
+  const formatTime = (date: Date) =>
+    options.timeZone
+      ? formatInTimeZone(date, options.timeZone, {
+          weekday: "short",
+          month: "short",
+          day: "numeric",
+          hour: "numeric",
+          minute: "2-digit",
+        })
+      : format(date, "EEE, MMM d h:mm a");
+  const formatDate = (dateKey: string) => format(parseISO(dateKey), "EEE, MMM d");
+
+  const add = (
+    severity: ShiftValidationSeverity,
+    shiftKey: string,
+    userId: string | null,
+    code: ShiftValidationCode,
+    message: string
+  ) => {
+    (severity === "error" ? errors : warnings).push({ shiftKey, userId, severity, code, message });
+  };
+
+  const keyed = candidates.map((shift, index) => ({ ...shift, key: getShiftKey(shift, index) }));
+  const replacedIds = new Set(keyed.map((shift) => shift.id).filter(Boolean));
+
+  // Each user's schedule with candidates replacing their stored versions
+  const scheduleByUser = new Map<string, (ValidationShift & { key: string; isCandidate: boolean })[]>();
+  const addToSchedule = (shift: ValidationShift & { key: string }, isCandidate: boolean) => {
+    if (!shift.user_id) return;
+    const list = scheduleByUser.get(shift.user_id) || [];
+    list.push({ ...shift, isCandidate });
+    scheduleByUser.set(shift.user_id, list);
+  };
+  context.existingShifts.forEach((shift, index) => {
+    if (shift.id && replacedIds.has(shift.id)) return;
+    addToSchedule({ ...shift, key: shift.id || `existing-${index}` }, false);
+  });
+  keyed.forEach((shift) => addToSchedule(shift, true));
+
+  keyed.forEach((shift, index) => {
+    const start = parseISO(shift.start_time);
+    const end = parseISO(shift.end_time);
+
+    if (end <= start) {
+      add("error", shift.key, shift.user_id, "invalid_time", "End time must be after start time");
+      return;
+    }
+
+    // Open shifts have nobody to check against
+    if (!shift.user_id) return;
+    const userId = shift.user_id;
+    const schedule = (scheduleByUser.get(userId) || []).filter((other) => other.key !== shift.key);
+
+    // Overlapping shifts (candidate pairs are reported on the later one)
+    schedule.forEach((other) => {
+      const otherStart = parseISO(other.start_time);
+      const otherEnd = parseISO(other.end_time);
+      if (otherStart >= end || otherEnd <= start) return;
+      if (other.isCandidate && keyed.findIndex((c) => c.key === other.key) > index) return;
+      add(
+        "error",
+        shift.key,
+        userId,
+        "overlap",
+        `Overlaps another shift (${formatTime(otherStart)} - ${formatTime(otherEnd)})`
+      );
+    });
+
+    // Time off covering the shift's days
+    const startKey = toDateKey(start);
+    const endKey = toDateKey(new Date(end.getTime() - 1));
+    context.ptoRequests
+      .filter(
+        (pto) =>
+          pto.user_id === userId &&
+          (pto.status === "approved" || pto.status === "pending") &&
+          pto.start_date <= endKey &&
+          pto.end_date >= startKey
+      )
+      .forEach((pto) => {
+        const range =
+          pto.start_date === pto.end_date
+            ? formatDate(pto.start_date)
+            : `${formatDate(pto.start_date)} - ${formatDate(pto.end_date)}`;
+        if (pto.status === "approved") {
+          add("error", shift.key, userId, "pto_conflict", `Has approved time off (${range})`);
+        } else {
+          add("warning", shift.key, userId, "pto_conflict", `Has pending time off (${range})`);
+        }
+      });
+
+    // Minimum rest between consecutive shifts
+    if (rules.minRestHours > 0) {
+      const previous = schedule
+        .filter((other) => parseISO(other.end_time) <= start)
+        .sort((a, b) => parseISO(b.end_time).getTime() - parseISO(a.end_time).getTime())[0];
+      const next = schedule
+        .filter((other) => parseISO(other.start_time) >= end)
+        .sort((a, b) => parseISO(a.start_time).getTime() - parseISO(b.start_time).getTime())[0];
+
+      const restBefore = previous
+        ? (start.getTime() - parseISO(previous.end_time).getTime()) / 3600000
+        : Infinity;
+      const restAfter = next
+        ? (parseISO(next.start_time).getTime() - end.getTime()) / 3600000
+        : Infinity;
+
+      if (restBefore < rules.minRestHours) {
+        add(
+          "warning",
+          shift.key,
+          userId,
+          "min_rest",
+          `Only ${roundHours(restBefore)}h rest after the previous shift (minimum ${rules.minRestHours}h)`
+        );
+      }
+      // A following candidate reports its own rest before, so only check stored shifts here
+      if (restAfter < rules.minRestHours && next && !next.isCandidate) {
+        add(
+          "warning",
+          shift.key,
+          userId,
+          "min_rest",
+          `Only ${roundHours(restAfter)}h rest before the next shift (minimum ${rules.minRestHours}h)`
+        );
+      }
+    }
+
+    // Position qualification
+    if (
+      rules.requireQualification &&
+      shift.position_id &&
+      !(context.userPositions[userId] || []).includes(shift.position_id)
+    ) {
+      add(
+        "warning",
+        shift.key,
+        userId,
+        "qualification",
+        "Employee is not assigned to this shift's position"
+      );
+    }
+
+    // Weekly availability and one-off unavailability
+    getAvailabilityConflicts(
+      shift,
+      context.availability?.[userId]?.weekly ?? null,
+      (context.unavailability || []).filter((entry) => entry.user_id === userId),
+      { timeZone: options.timeZone }
+    ).forEach((conflict) => {
+      add("warning", shift.key, userId, "availability", conflict.message);
+    });
+  });
+
+  // Weekly limits, reported once per user and week that a candidate falls in
+  const checkedWeeks = new Set<string>();
+  keyed.forEach((shift) => {
+    if (!shift.user_id) return;
+    const userId = shift.user_id;
+    const start = parseISO(shift.start_time);
+    if (parseISO(shift.end_time) <= start) return;
+
+    const weekKey = toWeekKey(start);
+    if (checkedWeeks.has(`${userId}:${weekKey}`)) return;
+    checkedWeeks.add(`${userId}:${weekKey}`);
+
+    const weekShifts = (scheduleByUser.get(userId) || []).filter(
+      (other) => toWeekKey(parseISO(other.start_time)) === weekKey
+    );
+
+    if (rules.maxHoursPerWeek > 0) {
+      const weekHours = weekShifts.reduce((sum, other) => sum + getWorkedHours(other), 0);
+      if (weekHours > rules.maxHoursPerWeek) {
+        add(
+          "warning",
+          shift.key,
+          userId,
+          "max_weekly_hours",
+          `Scheduled for ${roundHours(weekHours)}h in the week of ${formatDate(weekKey)} (maximum ${rules.maxHoursPerWeek}h)`
+        );
+      }
+    }
+
+    const preferredMaxHours = context.availability?.[userId]?.preferredMaxHours;
+    if (preferredMaxHours) {
+      const weekHours = weekShifts.reduce((sum, other) => sum + getWorkedHours(other), 0);
+      if (weekHours > preferredMaxHours) {
+        add(
+          "warning",
+          shift.key,
+          userId,
+          "preferred_hours",
+          `Scheduled for ${roundHours(weekHours)}h in the week of ${formatDate(weekKey)} (prefers at most ${preferredMaxHours}h)`
+        );
+      }
+    }
+
+    if (rules.minDaysOffPerWeek > 0) {
+      const workedDays = new Set(weekShifts.map((other) => toDateKey(parseISO(other.start_time))));
+      const daysOff = 7 - workedDays.size;
+      if (daysOff < rules.minDaysOffPerWeek) {
+        add(
+          "warning",
+          shift.key,
+          userId,
+          "days_off",
+          `Only ${daysOff} day${daysOff === 1 ? "" : "s"} off in the week of ${formatDate(weekKey)} (minimum ${rules.minDaysOffPerWeek})`
+        );
+      }
+    }
+  });
+
+  return { errors, warnings };
+}
+
+/**
+ * Load the shifts, time off, positions and availability needed to validate candidates.
+ * The range is padded by a week on each side so weekly limits and rest
+ * periods see neighbouring shifts.
+ */
+export async function fetchShiftValidationContext(
+  supabase: any,
+  organizationId: string,
+  candidates: ValidationShift[]
+): Promise<ShiftValidationContext> {
+  const userIds = Array.from(
+    new Set(candidates.map((shift) => shift.user_id).filter((id): id is string => !!id))
+  );
+  if (userIds.length === 0) {
+    return { existingShifts: [], ptoRequests: [], userPositions: {} };
+  }
+
+  const times = candidates.flatMap((shift) => [
+    parseISO(shift.start_time).getTime(),
+    parseISO(shift.end_time).getTime(),
+  ]);
+  const from = subDays(new Date(Math.min(...times)), 7);
+  const to = addDays(new Date(Math.max(...times)), 7);
+
+  const [shiftsResult, ptoResult, positionsResult, profilesResult, unavailabilityResult] =
+    await Promise.all([
+      supabase
+        .from("shifts")
+        .select("id, user_id, start_time, end_time, break_minutes, position_id")
+        .eq("organization_id", organizationId)
+        .in("user_id", userIds)
+        .gte("end_time", from.toISOString())
+        .lte("start_time", to.toISOString()),
+      supabase
+        .from("pto_requests")
+        .select("user_id, start_date, end_date, status, pto_type")
+        .eq("organization_id", organizationId)
+        .in("user_id", userIds)
+        .in("status", ["approved", "pending"])
+        .gte("end_date", format(from, "yyyy-MM-dd"))
+        .lte("start_date", format(to, "yyyy-MM-dd")),
+      supabase.from("user_positions").select("user_id, position_id").in("user_id", userIds),
+      supabase
+        .from("profiles")
+        .select("id, weekly_availability, preferred_max_hours_per_week")
+        .in("id", userIds),
+      supabase
+        .from("employee_unavailability")
+        .select("user_id, start_date, end_date, start_time, end_time, status, reason")
+        .eq("organization_id", organizationId)
+        .in("user_id", userIds)
+        .in("status", ["approved", "pending"])
+        .gte("end_date", format(from, "yyyy-MM-dd"))
+        .lte("start_date", format(to, "yyyy-MM-dd")),
+    ]);
+
+  const error =
+    shiftsResult.error ||
+    ptoResult.error ||
+    positionsResult.error ||
+    profilesResult.error ||
+    unavailabilityResult.error;
+  if (error) {
+    throw new Error(`Failed to load schedule for validation: ${error.message}`);
+  }
+
+  const userPositions: Record<string, string[]> = {};
+  for (const row of positionsResult.data || []) {
+    (userPositions[row.user_id] ||= []).push(row.position_id);
+  }
+
+  return {
+    existingShifts: shiftsResult.data || [],
+    ptoRequests: ptoResult.data || [],
+    userPositions,
+    availability: buildMemberAvailability(profilesResult.data || []),
+    unavailability: unavailabilityResult.data || [],
+  };
+}
+
+/**
+ * Fetch context and validate candidates in one step
+ */
+export async function checkShifts(
+  supabase: any,
+  organizationId: string,
+  candidates: ValidationShift[],
+  rules: ShiftValidationRules,
+  options: ShiftValidationOptions = {}
+): Promise<ShiftValidationResult> {
+  const context = await fetchShiftValidationContext(supabase, organizationId, candidates);
+  return validateShifts(candidates, context, rules, options);
+}
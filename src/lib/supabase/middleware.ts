@@ -38,7 +38,9 @@ export async function updateSession(request: NextRequest) {
   } = await supabase.auth.getUser();
 
   // Define public routes that don't require authentication
-  const publicRoutes = ["/login", "/signup", "/auth/callback", "/invite"];
+  // (scheduled jobs under /api/cron and calendar feeds under /api/ical
+  // check their own secret)
+  const publicRoutes = ["/login", "/signup", "/auth/callback", "/invite", "/api/cron", "/api/ical"];
   const isPublicRoute = publicRoutes.some((route) =>
     request.nextUrl.pathname.startsWith(route)
   );
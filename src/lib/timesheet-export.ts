@@ -0,0 +1,106 @@
+import { calculateOvertime, resolveOvertimeRules } from "@/lib/overtime";
+import { resolveTimekeepingSettings } from "@/lib/timezone";
+import {
+  buildWorkDays,
+  filterWorkDaysToPeriod,
+  getEntryFetchRange,
+  type WorkDay,
+} from "@/lib/work-days";
+import type { Database } from "@/types/database.types";
+
+type Organization = Database["public"]["Tables"]["organizations"]["Row"];
+
+export interface TimesheetTotals {
+  totalHours: number;
+  breakHours: number;
+  overtimeHours: number;
+}
+
+/**
+ * Fetch a timesheet's time entries and group them into local work days
+ */
+export async function fetchTimesheetWorkDays(
+  supabase: any,
+  timesheet: { user_id: string; organization_id: string; period_start: string; period_end: string },
+  organization: Pick<Organization, "settings" | "timezone"> | null
+): Promise<WorkDay[]> {
+  const fetchRange = getEntryFetchRange(timesheet.period_start, timesheet.period_end);
+
+  const { data: timeEntries, error } = await supabase
+    .from("time_entries")
+    .select(`
+      *,
+      locations (id, name, timezone)
+    `)
+    .eq("user_id", timesheet.user_id)
+    .eq("organization_id", timesheet.organization_id)
+    .gte("timestamp", fetchRange.from)
+    .lte("timestamp", fetchRange.to)
+    .order("timestamp", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching time entries:", error);
+  }
+
+  return filterWorkDaysToPeriod(
+    buildWorkDays(timeEntries || [], {
+      defaultTimeZone: organization?.timezone,
+      midnightRule: resolveTimekeepingSettings(organization?.settings).midnightRule,
+    }),
+    timesheet.period_start,
+    timesheet.period_end
+  );
+}
+
+/**
+ * Calculate totals from work days using the organization's overtime rules
+ */
+export function calculateTimesheetTotals(
+  workDays: WorkDay[],
+  organization: Pick<Organization, "settings"> | null
+): TimesheetTotals {
+  const totalWorkMinutes = workDays.reduce((sum, day) => sum + day.workMinutes, 0);
+  const totalBreakMinutes = workDays.reduce((sum, day) => sum + day.breakMinutes, 0);
+  const { overtimeHours } = calculateOvertime(
+    workDays.map((day) => ({ date: day.date, hours: day.workMinutes / 60 })),
+    resolveOvertimeRules(organization?.settings)
+  );
+
+  return {
+    totalHours: totalWorkMinutes / 60,
+    breakHours: totalBreakMinutes / 60,
+    overtimeHours,
+  };
+}
+
+/**
+ * Download the organization logo for embedding in exports.
+ * Returns null when there is no logo or it cannot be fetched.
+ */
+export async function fetchOrganizationLogo(
+  logoUrl: string | null | undefined
+): Promise<{ bytes: Uint8Array; contentType: string } | null> {
+  if (!logoUrl) return null;
+
+  try {
+    const response = await fetch(logoUrl);
+    if (!response.ok) return null;
+
+    return {
+      bytes: new Uint8Array(await response.arrayBuffer()),
+      contentType: response.headers.get("content-type") || "",
+    };
+  } catch (error) {
+    console.error("Error fetching organization logo:", error);
+    return null;
+  }
+}
+
+/**
+ * Format hours as "8h 30m"
+ */
+export function formatHours(hours: number): string {
+  const h = Math.floor(hours);
+  const m = Math.round((hours - h) * 60);
+  return m > 0 ? `${h}h ${m}m` : `${h}h`;
+}
@@ -0,0 +1,231 @@
+import { calculateOvertime, resolveOvertimeRules, type OvertimeRules } from "@/lib/overtime";
+import type { PayPeriod } from "@/lib/pay-periods";
+import { resolveTimekeepingSettings, type MidnightRule } from "@/lib/timezone";
+import {
+  buildWorkDays,
+  filterWorkDaysToPeriod,
+  getEntryFetchRange,
+  type WorkDayEntry,
+} from "@/lib/work-days";
+import type { Database } from "@/types/database.types";
+
+type Organization = Database["public"]["Tables"]["organizations"]["Row"];
+
+export interface TimesheetCalculations {
+  totalHours: number;
+  breakHours: number;
+  overtimeHours: number;
+  entriesProcessed: number;
+}
+
+export type TimesheetGenerationStatus = "created" | "skipped" | "failed";
+
+export interface TimesheetGenerationResult {
+  user_id: string;
+  name: string;
+  status: TimesheetGenerationStatus;
+  timesheet_id?: string;
+  total_hours?: number;
+  overtime_hours?: number;
+  reason?: string;
+}
+
+export interface TimesheetGenerationSummary {
+  period: PayPeriod;
+  created: number;
+  skipped: number;
+  failed: number;
+  results: TimesheetGenerationResult[];
+}
+
+/**
+ * Calculate timesheet totals from time entries
+ */
+export function calculateTimesheetFromEntries(
+  entries: WorkDayEntry[],
+  options: {
+    periodStart: string;
+    periodEnd: string;
+    overtimeRules: OvertimeRules;
+    midnightRule: MidnightRule;
+    defaultTimeZone?: string | null;
+  }
+): TimesheetCalculations {
+  if (!entries || entries.length === 0) {
+    return { totalHours: 0, breakHours: 0, overtimeHours: 0, entriesProcessed: 0 };
+  }
+
+  // Group sessions into local days, then drop days outside the period
+  const workDays = filterWorkDaysToPeriod(
+    buildWorkDays(entries, {
+      defaultTimeZone: options.defaultTimeZone,
+      midnightRule: options.midnightRule,
+    }),
+    options.periodStart,
+    options.periodEnd
+  );
+
+  const totalHours = workDays.reduce((sum, day) => sum + day.workMinutes / 60, 0);
+  const breakHours = workDays.reduce((sum, day) => sum + day.breakMinutes / 60, 0);
+
+  // Calculate overtime using the organization's rules
+  const { overtimeHours } = calculateOvertime(
+    workDays.map((day) => ({ date: day.date, hours: day.workMinutes / 60 })),
+    options.overtimeRules
+  );
+
+  // Only count entries that belong to a day inside the period
+  const entriesProcessed = entries.filter((entry) => {
+    const time = new Date(entry.timestamp);
+    return workDays.some(
+      (day) => day.clockIn && day.clockOut && time >= day.clockIn && time <= day.clockOut
+    );
+  }).length;
+
+  return {
+    totalHours: Math.round(totalHours * 100) / 100, // Round to 2 decimal places
+    breakHours: Math.round(breakHours * 100) / 100,
+    overtimeHours: Math.round(overtimeHours * 100) / 100,
+    entriesProcessed,
+  };
+}
+
+/**
+ * Fetch a user's time entries for a period and calculate timesheet totals
+ */
+export async function calculateTimesheetForUser(
+  supabase: any,
+  organization: Pick<Organization, "id" | "settings" | "timezone">,
+  userId: string,
+  period: PayPeriod
+): Promise<TimesheetCalculations> {
+  // Padded so every local day is covered
+  const fetchRange = getEntryFetchRange(period.start, period.end);
+
+  const { data: timeEntries, error } = await supabase
+    .from("time_entries")
+    .select(`
+      *,
+      locations (id, name, timezone)
+    `)
+    .eq("user_id", userId)
+    .eq("organization_id", organization.id)
+    .gte("timestamp", fetchRange.from)
+    .lte("timestamp", fetchRange.to)
+    .order("timestamp", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch time entries: ${error.message}`);
+  }
+
+  return calculateTimesheetFromEntries(timeEntries || [], {
+    periodStart: period.start,
+    periodEnd: period.end,
+    overtimeRules: resolveOvertimeRules(organization.settings),
+    midnightRule: resolveTimekeepingSettings(organization.settings).midnightRule,
+    defaultTimeZone: organization.timezone,
+  });
+}
+
+/**
+ * Create draft timesheets for every active employee in a pay period.
+ * Employees who already have a timesheet overlapping the period are skipped,
+ * and a failure for one employee does not stop the others.
+ */
+export async function generateTimesheetsForPeriod(
+  supabase: any,
+  organization: Pick<Organization, "id" | "settings" | "timezone">,
+  period: PayPeriod
+): Promise<TimesheetGenerationSummary> {
+  const { data: employees, error: employeesError } = await supabase
+    .from("profiles")
+    .select("id, first_name, last_name")
+    .eq("organization_id", organization.id)
+    .eq("status", "active")
+    .order("last_name", { ascending: true });
+
+  if (employeesError) {
+    throw new Error(`Failed to fetch employees: ${employeesError.message}`);
+  }
+
+  const { data: existing, error: existingError } = await supabase
+    .from("timesheets")
+    .select("id, user_id")
+    .eq("organization_id", organization.id)
+    .lte("period_start", period.end)
+    .gte("period_end", period.start);
+
+  if (existingError) {
+    throw new Error(`Failed to fetch existing timesheets: ${existingError.message}`);
+  }
+
+  const existingByUser = new Map<string, string>(
+    (existing || []).map((t: { id: string; user_id: string }) => [t.user_id, t.id])
+  );
+
+  const results: TimesheetGenerationResult[] = [];
+
+  for (const employee of employees || []) {
+    const name = `${employee.first_name} ${employee.last_name}`.trim();
+
+    const existingId = existingByUser.get(employee.id);
+    if (existingId) {
+      results.push({
+        user_id: employee.id,
+        name,
+        status: "skipped",
+        timesheet_id: existingId,
+        reason: "Timesheet already exists for this period",
+      });
+      continue;
+    }
+
+    try {
+      const calculations = await calculateTimesheetForUser(supabase, organization, employee.id, period);
+
+      const { data: created, error: createError } = await supabase
+        .from("timesheets")
+        .insert({
+          organization_id: organization.id,
+          user_id: employee.id,
+          period_start: period.start,
+          period_end: period.end,
+          total_hours: calculations.totalHours,
+          break_hours: calculations.breakHours,
+          overtime_hours: calculations.overtimeHours,
+          status: "draft",
+        })
+        .select("id")
+        .single();
+
+      if (createError) {
+        throw new Error(createError.message);
+      }
+
+      results.push({
+        user_id: employee.id,
+        name,
+        status: "created",
+        timesheet_id: created.id,
+        total_hours: calculations.totalHours,
+        overtime_hours: calculations.overtimeHours,
+      });
+    } catch (error) {
+      console.error(`Error generating timesheet for ${employee.id}:`, error);
+      results.push({
+        user_id: employee.id,
+        name,
+        status: "failed",
+        reason: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  return {
+    period,
+    created: results.filter((r) => r.status === "created").length,
+    skipped: results.filter((r) => r.status === "skipped").length,
+    failed: results.filter((r) => r.status === "failed").length,
+    results,
+  };
+}
@@ -0,0 +1,367 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFImage, type PDFPage } from "pdf-lib";
+import { format, parseISO } from "date-fns";
+import { formatInTimeZone } from "@/lib/timezone";
+import {
+  calculateTimesheetTotals,
+  fetchTimesheetWorkDays,
+  formatHours,
+  type TimesheetTotals,
+} from "@/lib/timesheet-export";
+import type { WorkDay } from "@/lib/work-days";
+import type { Database } from "@/types/database.types";
+
+type Organization = Database["public"]["Tables"]["organizations"]["Row"];
+
+export interface TimesheetPDFData {
+  organization: {
+    name: string;
+    logo?: { bytes: Uint8Array; contentType: string } | null;
+  };
+  employeeName: string;
+  employeeCode?: string | null;
+  periodStart: string;
+  periodEnd: string;
+  status: string | null;
+  approverName?: string | null;
+  reviewedAt?: string | null;
+  reviewComment?: string | null;
+  workDays: WorkDay[];
+  totals: TimesheetTotals;
+}
+
+// US Letter, in points
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 48;
+const ROW_HEIGHT = 20;
+
+const TEXT_COLOR = rgb(0.1, 0.1, 0.1);
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4);
+const BORDER_COLOR = rgb(0.8, 0.8, 0.8);
+const HEADER_FILL = rgb(0.95, 0.95, 0.95);
+
+const COLUMNS = [
+  { label: "Date", width: 70 },
+  { label: "Day", width: 70 },
+  { label: "Location", width: 126 },
+  { label: "Clock In", width: 62 },
+  { label: "Clock Out", width: 62 },
+  { label: "Work", width: 63 },
+  { label: "Break", width: 63 },
+];
+
+/**
+ * Embed a PNG or JPEG logo, detected by its magic bytes.
+ * Other formats (e.g. SVG) are skipped.
+ */
+async function embedLogo(pdf: PDFDocument, logo: TimesheetPDFData["organization"]["logo"]) {
+  if (!logo) return null;
+  const { bytes } = logo;
+
+  try {
+    if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+      return await pdf.embedPng(bytes);
+    }
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      return await pdf.embedJpg(bytes);
+    }
+  } catch (error) {
+    console.error("Error embedding organization logo:", error);
+  }
+  return null;
+}
+
+/**
+ * Replace characters the standard PDF fonts cannot encode
+ */
+function sanitize(text: string, font: PDFFont): string {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(text)
+    .map((char) => (supported.has(char.codePointAt(0)!) ? char : "?"))
+    .join("");
+}
+
+/**
+ * Truncate text with an ellipsis so it fits in the given width
+ */
+function fit(text: string, font: PDFFont, size: number, maxWidth: number): string {
+  let result = sanitize(text, font);
+  if (font.widthOfTextAtSize(result, size) <= maxWidth) return result;
+  while (result.length > 0 && font.widthOfTextAtSize(`${result}...`, size) > maxWidth) {
+    result = result.slice(0, -1);
+  }
+  return `${result}...`;
+}
+
+/**
+ * Word-wrap text into lines that fit the given width
+ */
+function wrap(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let current = "";
+
+  sanitize(text, font)
+    .split(/\s+/)
+    .forEach((word) => {
+      const candidate = current ? `${current} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) > maxWidth && current) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = candidate;
+      }
+    });
+  if (current) lines.push(current);
+
+  return lines;
+}
+
+/**
+ * Render a timesheet as a PDF with a per-day table, totals and a
+ * signature block for the employee and the approver
+ */
+export async function renderTimesheetPDF(data: TimesheetPDFData): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const logo: PDFImage | null = await embedLogo(pdf, data.organization.logo);
+
+  const period = `${format(parseISO(data.periodStart), "MMM d")} - ${format(parseISO(data.periodEnd), "MMM d, yyyy")}`;
+  pdf.setTitle(`Timesheet - ${data.employeeName} - ${period}`);
+  pdf.setAuthor(data.organization.name);
+  pdf.setCreationDate(new Date());
+
+  let page: PDFPage = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const text = (
+    value: string,
+    x: number,
+    options: { size?: number; font?: PDFFont; color?: ReturnType<typeof rgb>; maxWidth?: number } = {}
+  ) => {
+    const size = options.size ?? 10;
+    const textFont = options.font ?? font;
+    const content = options.maxWidth
+      ? fit(value, textFont, size, options.maxWidth)
+      : sanitize(value, textFont);
+    page.drawText(content, { x, y, size, font: textFont, color: options.color ?? TEXT_COLOR });
+  };
+
+  const line = (x1: number, x2: number, lineY: number, thickness = 0.5) => {
+    page.drawLine({
+      start: { x: x1, y: lineY },
+      end: { x: x2, y: lineY },
+      thickness,
+      color: BORDER_COLOR,
+    });
+  };
+
+  // Header with logo and organization name
+  if (logo) {
+    const scaled = logo.scaleToFit(120, 48);
+    page.drawImage(logo, {
+      x: PAGE_WIDTH - MARGIN - scaled.width,
+      y: y - scaled.height + 12,
+      width: scaled.width,
+      height: scaled.height,
+    });
+  }
+  text(data.organization.name, MARGIN, { size: 12, color: MUTED_COLOR, maxWidth: 300 });
+  y -= 26;
+  text("Timesheet", MARGIN, { size: 22, font: bold });
+  y -= 28;
+
+  const details: [string, string][] = [
+    ["Employee", data.employeeName],
+    ...(data.employeeCode ? [["Employee Code", data.employeeCode] as [string, string]] : []),
+    ["Period", period],
+    ["Status", data.status ? data.status.charAt(0).toUpperCase() + data.status.slice(1) : "N/A"],
+  ];
+  details.forEach(([label, value]) => {
+    text(`${label}:`, MARGIN, { font: bold });
+    text(value, MARGIN + 90, { maxWidth: PAGE_WIDTH - MARGIN * 2 - 90 });
+    y -= 15;
+  });
+  y -= 4;
+  line(MARGIN, PAGE_WIDTH - MARGIN, y, 1.5);
+  y -= 24;
+
+  // Per-day table
+  const tableWidth = COLUMNS.reduce((sum, col) => sum + col.width, 0);
+
+  const drawTableHeader = () => {
+    page.drawRectangle({
+      x: MARGIN,
+      y: y - 6,
+      width: tableWidth,
+      height: ROW_HEIGHT,
+      color: HEADER_FILL,
+    });
+    let x = MARGIN + 4;
+    COLUMNS.forEach((col) => {
+      text(col.label, x, { size: 9, font: bold });
+      x += col.width;
+    });
+    y -= ROW_HEIGHT;
+  };
+
+  const ensureSpace = (height: number, repeatTableHeader = false) => {
+    if (y - height >= MARGIN + 24) return;
+    page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN;
+    if (repeatTableHeader) drawTableHeader();
+  };
+
+  drawTableHeader();
+
+  if (data.workDays.length === 0) {
+    text("No time entries", MARGIN + 4, { size: 9, color: MUTED_COLOR });
+    y -= ROW_HEIGHT;
+  }
+
+  data.workDays.forEach((day) => {
+    ensureSpace(ROW_HEIGHT, true);
+    const cells = [
+      day.date,
+      format(parseISO(day.date), "EEEE"),
+      day.location || "N/A",
+      day.clockIn ? formatInTimeZone(day.clockIn, day.timeZone) : "N/A",
+      day.clockOut ? formatInTimeZone(day.clockOut, day.timeZone) : "N/A",
+      formatHours(day.workMinutes / 60),
+      formatHours(day.breakMinutes / 60),
+    ];
+    let x = MARGIN + 4;
+    cells.forEach((cell, index) => {
+      text(cell, x, { size: 9, maxWidth: COLUMNS[index].width - 8 });
+      x += COLUMNS[index].width;
+    });
+    line(MARGIN, MARGIN + tableWidth, y - 6);
+    y -= ROW_HEIGHT;
+  });
+
+  // Summary
+  y -= 12;
+  ensureSpace(90);
+  text("Summary", MARGIN, { size: 13, font: bold });
+  y -= 20;
+  const summary: [string, string][] = [
+    ["Total Hours", formatHours(data.totals.totalHours)],
+    ["Break Hours", formatHours(data.totals.breakHours)],
+    ["Overtime Hours", formatHours(data.totals.overtimeHours)],
+  ];
+  summary.forEach(([label, value]) => {
+    text(label, MARGIN);
+    text(value, MARGIN + 140, { font: bold });
+    y -= 15;
+  });
+
+  if (data.reviewComment) {
+    y -= 6;
+    const commentLines = wrap(data.reviewComment, font, 10, PAGE_WIDTH - MARGIN * 2);
+    ensureSpace(20 + commentLines.length * 13);
+    text("Review Comment", MARGIN, { font: bold });
+    y -= 14;
+    commentLines.forEach((commentLine) => {
+      text(commentLine, MARGIN, { color: MUTED_COLOR });
+      y -= 13;
+    });
+  }
+
+  // Signature block
+  y -= 30;
+  ensureSpace(90);
+  const blockWidth = (PAGE_WIDTH - MARGIN * 2 - 40) / 2;
+  const signatures: { title: string; name: string | null | undefined; date: string | null }[] = [
+    { title: "Employee Signature", name: data.employeeName, date: null },
+    {
+      title: "Approver Signature",
+      name: data.approverName,
+      date: data.reviewedAt ? format(parseISO(data.reviewedAt), "MMM d, yyyy") : null,
+    },
+  ];
+  const signatureLineY = y - 30;
+  signatures.forEach((signature, index) => {
+    const x = MARGIN + index * (blockWidth + 40);
+    page.drawLine({
+      start: { x, y: signatureLineY },
+      end: { x: x + blockWidth, y: signatureLineY },
+      thickness: 0.75,
+      color: TEXT_COLOR,
+    });
+    y = signatureLineY - 14;
+    text(signature.title, x, { size: 9, font: bold });
+    y -= 13;
+    text(`Name: ${signature.name || ""}`, x, { size: 9, maxWidth: blockWidth });
+    y -= 13;
+    text(`Date: ${signature.date || ""}`, x, { size: 9 });
+  });
+
+  // Footer with page numbers
+  const pages = pdf.getPages();
+  const generatedAt = format(new Date(), "MMM d, yyyy h:mm a");
+  pages.forEach((p, index) => {
+    p.drawText(sanitize(`Generated ${generatedAt}`, font), {
+      x: MARGIN,
+      y: MARGIN / 2,
+      size: 8,
+      font,
+      color: MUTED_COLOR,
+    });
+    const pageLabel = `Page ${index + 1} of ${pages.length}`;
+    p.drawText(pageLabel, {
+      x: PAGE_WIDTH - MARGIN - font.widthOfTextAtSize(pageLabel, 8),
+      y: MARGIN / 2,
+      size: 8,
+      font,
+      color: MUTED_COLOR,
+    });
+  });
+
+  return pdf.save();
+}
+
+type PersonName = {
+  first_name: string;
+  last_name: string;
+  display_name: string | null;
+} | null;
+
+/**
+ * Load a timesheet's work days and render it as a PDF.
+ * The timesheet must include the employee (`profiles`) and `reviewer` joins.
+ */
+export async function createTimesheetPDF(
+  supabase: any,
+  timesheet: {
+    user_id: string;
+    organization_id: string;
+    period_start: string;
+    period_end: string;
+    status: string | null;
+    reviewed_at: string | null;
+    review_comment: string | null;
+    profiles: (PersonName & { employee_code?: string | null }) | null;
+    reviewer?: PersonName;
+  },
+  organization: Pick<Organization, "name" | "settings" | "timezone">,
+  logo: TimesheetPDFData["organization"]["logo"]
+): Promise<Uint8Array> {
+  const getName = (person: PersonName) =>
+    person ? person.display_name || `${person.first_name} ${person.last_name}` : null;
+
+  const workDays = await fetchTimesheetWorkDays(supabase, timesheet, organization);
+
+  return renderTimesheetPDF({
+    organization: { name: organization.name, logo },
+    employeeName: getName(timesheet.profiles) || "Unknown",
+    employeeCode: timesheet.profiles?.employee_code,
+    periodStart: timesheet.period_start,
+    periodEnd: timesheet.period_end,
+    status: timesheet.status,
+    approverName: timesheet.status === "approved" ? getName(timesheet.reviewer ?? null) : null,
+    reviewedAt: timesheet.status === "approved" ? timesheet.reviewed_at : null,
+    reviewComment: timesheet.review_comment,
+    workDays,
+    totals: calculateTimesheetTotals(workDays, organization),
+  });
+}
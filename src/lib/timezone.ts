@@ -0,0 +1,138 @@
+import { addDays, format, parseISO } from "date-fns";
+import type { Json } from "@/types/database.types";
+
+/**
+ * How a work session that crosses local midnight is attributed to days
+ * - start_day: the whole session counts toward the day it started
+ * - split: the session is split at midnight between both days
+ */
+export type MidnightRule = "start_day" | "split";
+
+export interface TimekeepingSettings {
+  midnightRule: MidnightRule;
+}
+
+export const defaultTimekeepingSettings: TimekeepingSettings = {
+  midnightRule: "start_day",
+};
+
+/**
+ * Resolve timekeeping settings from an organization's settings JSON
+ */
+export function resolveTimekeepingSettings(
+  settings: Json | null | undefined
+): TimekeepingSettings {
+  const saved = (settings as any)?.timekeeping;
+  return { ...defaultTimekeepingSettings, ...saved };
+}
+
+/**
+ * Check whether a string is an IANA time zone supported by the runtime
+ */
+export function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Return the first valid time zone, e.g. location then organization,
+ * falling back to UTC
+ */
+export function resolveTimeZone(...candidates: (string | null | undefined)[]): string {
+  return candidates.find(isValidTimeZone) || "UTC";
+}
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getParts(date: Date, timeZone: string) {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  formatter.formatToParts(date).forEach(({ type, value }) => {
+    parts[type] = value;
+  });
+  return parts;
+}
+
+/**
+ * Calendar date (yyyy-MM-dd) of an instant in the given time zone
+ */
+export function getDateKeyInTimeZone(date: Date, timeZone: string): string {
+  const parts = getParts(date, timeZone);
+  return `${parts.year}-${parts.month}-${parts.day}`;
+}
+
+/**
+ * Offset of the time zone from UTC at the given instant, in minutes
+ */
+export function getTimeZoneOffsetMinutes(date: Date, timeZone: string): number {
+  const parts = getParts(date, timeZone);
+  const asUTC = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second)
+  );
+  return Math.round((asUTC - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * The instant local midnight starts for a calendar date in the given time zone
+ */
+export function startOfDayInTimeZone(dateKey: string, timeZone: string): Date {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  const utcMidnight = Date.UTC(year, month - 1, day);
+  // Apply the offset twice so DST transitions on the day itself resolve correctly
+  const firstGuess = utcMidnight - getTimeZoneOffsetMinutes(new Date(utcMidnight), timeZone) * 60000;
+  return new Date(utcMidnight - getTimeZoneOffsetMinutes(new Date(firstGuess), timeZone) * 60000);
+}
+
+/**
+ * The calendar date following the given one
+ */
+export function nextDateKey(dateKey: string): string {
+  return format(addDays(parseISO(dateKey), 1), "yyyy-MM-dd");
+}
+
+/**
+ * Format an instant for display in the given time zone
+ */
+export function formatInTimeZone(
+  date: Date,
+  timeZone: string,
+  options: Intl.DateTimeFormatOptions = { hour: "numeric", minute: "2-digit" }
+): string {
+  return new Intl.DateTimeFormat("en-US", { ...options, timeZone }).format(date);
+}
+
+/**
+ * The instant a wall-clock time (HH:mm) occurs on a calendar date in the given time zone
+ */
+export function dateTimeInTimeZone(dateKey: string, time: string, timeZone: string): Date {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  const [hours, minutes] = time.split(":").map(Number);
+  const asUTC = Date.UTC(year, month - 1, day, hours, minutes);
+  // Apply the offset twice so times near a DST transition resolve correctly
+  const firstGuess = asUTC - getTimeZoneOffsetMinutes(new Date(asUTC), timeZone) * 60000;
+  return new Date(asUTC - getTimeZoneOffsetMinutes(new Date(firstGuess), timeZone) * 60000);
+}
@@ -0,0 +1,182 @@
+import {
+  getDateKeyInTimeZone,
+  nextDateKey,
+  resolveTimeZone,
+  startOfDayInTimeZone,
+  type MidnightRule,
+} from "@/lib/timezone";
+
+/**
+ * Minimal time entry shape needed for day bucketing
+ */
+export interface WorkDayEntry {
+  timestamp: string;
+  entry_type: string;
+  locations?: { name?: string | null; timezone?: string | null } | null;
+}
+
+export interface WorkDay {
+  date: string; // yyyy-MM-dd in the session's time zone
+  timeZone: string;
+  clockIn: Date | null;
+  clockOut: Date | null;
+  workMinutes: number;
+  breakMinutes: number;
+  breaks: number;
+  location: string | null;
+}
+
+export interface WorkDayOptions {
+  // Used when a clock-in has no location time zone, usually organizations.timezone
+  defaultTimeZone?: string | null;
+  midnightRule?: MidnightRule;
+}
+
+type Interval = { start: Date; end: Date };
+
+/**
+ * Split an interval at local midnights, keyed by calendar date
+ */
+function splitAtMidnight(interval: Interval, timeZone: string): Map<string, Interval> {
+  const segments = new Map<string, Interval>();
+  let cursor = interval.start;
+
+  while (cursor < interval.end) {
+    const dateKey = getDateKeyInTimeZone(cursor, timeZone);
+    const nextMidnight = startOfDayInTimeZone(nextDateKey(dateKey), timeZone);
+    const end = nextMidnight < interval.end ? nextMidnight : interval.end;
+    segments.set(dateKey, { start: cursor, end });
+    cursor = end;
+  }
+
+  return segments;
+}
+
+const minutesBetween = (start: Date, end: Date) => (end.getTime() - start.getTime()) / 60000;
+
+/**
+ * Pair clock and break entries into sessions and bucket them into days.
+ *
+ * Days are calendar days in the clock-in location's time zone, falling back
+ * to the organization time zone. Sessions that cross midnight go to the start
+ * day or are split at midnight depending on `midnightRule`.
+ */
+export function buildWorkDays(entries: WorkDayEntry[], options: WorkDayOptions = {}): WorkDay[] {
+  const midnightRule = options.midnightRule || "start_day";
+  const sorted = [...entries].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+
+  const days = new Map<string, WorkDay>();
+  let clockIn: { time: Date; entry: WorkDayEntry } | null = null;
+  let breakStart: Date | null = null;
+  let breaks: Interval[] = [];
+
+  const getDay = (dateKey: string, timeZone: string, location: string | null) => {
+    if (!days.has(dateKey)) {
+      days.set(dateKey, {
+        date: dateKey,
+        timeZone,
+        clockIn: null,
+        clockOut: null,
+        workMinutes: 0,
+        breakMinutes: 0,
+        breaks: 0,
+        location,
+      });
+    }
+    return days.get(dateKey)!;
+  };
+
+  const addSegment = (
+    day: WorkDay,
+    segment: Interval,
+    sessionBreaks: Interval[],
+    location: string | null
+  ) => {
+    const breakMinutes = sessionBreaks.reduce((sum, b) => {
+      const start = b.start > segment.start ? b.start : segment.start;
+      const end = b.end < segment.end ? b.end : segment.end;
+      return sum + Math.max(0, minutesBetween(start, end));
+    }, 0);
+    const breakCount = sessionBreaks.filter(
+      (b) => b.start >= segment.start && b.start < segment.end
+    ).length;
+
+    if (!day.clockIn || segment.start < day.clockIn) day.clockIn = segment.start;
+    if (!day.clockOut || segment.end > day.clockOut) day.clockOut = segment.end;
+    day.workMinutes += Math.max(0, minutesBetween(segment.start, segment.end) - breakMinutes);
+    day.breakMinutes += breakMinutes;
+    day.breaks += breakCount;
+    day.location = location || day.location;
+  };
+
+  sorted.forEach((entry) => {
+    const time = new Date(entry.timestamp);
+
+    switch (entry.entry_type) {
+      case "clock_in":
+        clockIn = { time, entry };
+        breakStart = null;
+        breaks = [];
+        break;
+      case "break_start":
+        if (clockIn) breakStart = time;
+        break;
+      case "break_end":
+        if (clockIn && breakStart) {
+          breaks.push({ start: breakStart, end: time });
+          breakStart = null;
+        }
+        break;
+      case "clock_out": {
+        if (!clockIn) break;
+        // A break still open at clock-out ends with the session
+        if (breakStart) breaks.push({ start: breakStart, end: time });
+
+        const session = { start: clockIn.time, end: time };
+        const timeZone = resolveTimeZone(
+          clockIn.entry.locations?.timezone,
+          options.defaultTimeZone
+        );
+        const location = clockIn.entry.locations?.name || null;
+
+        if (midnightRule === "split") {
+          splitAtMidnight(session, timeZone).forEach((segment, dateKey) => {
+            addSegment(getDay(dateKey, timeZone, location), segment, breaks, location);
+          });
+        } else {
+          const dateKey = getDateKeyInTimeZone(session.start, timeZone);
+          addSegment(getDay(dateKey, timeZone, location), session, breaks, location);
+        }
+
+        clockIn = null;
+        breakStart = null;
+        breaks = [];
+        break;
+      }
+    }
+  });
+
+  return Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * UTC timestamp range to fetch entries for a pay period. Padded by a day on
+ * each side so local days in any time zone, and sessions crossing the period
+ * boundary, are fully covered; filter the result with `filterWorkDaysToPeriod`.
+ */
+export function getEntryFetchRange(periodStart: string, periodEnd: string) {
+  const from = new Date(`${periodStart}T00:00:00.000Z`);
+  from.setUTCDate(from.getUTCDate() - 1);
+  const to = new Date(`${periodEnd}T23:59:59.999Z`);
+  to.setUTCDate(to.getUTCDate() + 1);
+  return { from: from.toISOString(), to: to.toISOString() };
+}
+
+/**
+ * Keep only the work days that fall inside the period (inclusive)
+ */
+export function filterWorkDaysToPeriod(days: WorkDay[], periodStart: string, periodEnd: string) {
+  return days.filter((day) => day.date >= periodStart && day.date <= periodEnd);
+}
@@ -14,6 +14,93 @@ export type Database = {
   }
   public: {
     Tables: {
+      attendance_exceptions: {
+        Row: {
+          created_at: string
+          id: string
+          minutes: number | null
+          note: string | null
+          occurred_at: string
+          organization_id: string
+          resolved_at: string | null
+          resolved_by: string | null
+          shift_id: string | null
+          status: string
+          time_entry_id: string | null
+          type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          minutes?: number | null
+          note?: string | null
+          occurred_at: string
+          organization_id: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          shift_id?: string | null
+          status?: string
+          time_entry_id?: string | null
+          type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          minutes?: number | null
+          note?: string | null
+          occurred_at?: string
+          organization_id?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          shift_id?: string | null
+          status?: string
+          time_entry_id?: string | null
+          type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_exceptions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_exceptions_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_exceptions_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "shifts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_exceptions_time_entry_id_fkey"
+            columns: ["time_entry_id"]
+            isOneToOne: false
+            referencedRelation: "time_entries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_exceptions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       audit_logs: {
         Row: {
           action: string
@@ -74,6 +161,121 @@ export type Database = {
           },
         ]
       }
+      availability_change_requests: {
+        Row: {
+          created_at: string | null
+          id: string
+          note: string | null
+          organization_id: string
+          preferred_max_hours_per_week: number | null
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string | null
+          user_id: string
+          weekly_availability: Json | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          note?: string | null
+          organization_id: string
+          preferred_max_hours_per_week?: number | null
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string | null
+          user_id: string
+          weekly_availability?: Json | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          note?: string | null
+          organization_id?: string
+          preferred_max_hours_per_week?: number | null
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string | null
+          user_id?: string
+          weekly_availability?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "availability_change_requests_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "availability_change_requests_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "availability_change_requests_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      calendar_feeds: {
+        Row: {
+          created_at: string
+          id: string
+          include_team: boolean
+          last_accessed_at: string | null
+          organization_id: string
+          token: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          include_team?: boolean
+          last_accessed_at?: string | null
+          organization_id: string
+          token: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          include_team?: boolean
+          last_accessed_at?: string | null
+          organization_id?: string
+          token?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feeds_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "calendar_feeds_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       chat_attachments: {
         Row: {
           created_at: string | null
@@ -283,36 +485,55 @@ export type Database = {
       }
       checklist_assignments: {
         Row: {
+          assigned_by: string | null
           checklist_id: string
           completed_at: string | null
           created_at: string | null
+          due_date: string
           id: string
+          location_id: string | null
+          organization_id: string
           progress: Json
           shift_id: string | null
           updated_at: string | null
           user_id: string
         }
         Insert: {
+          assigned_by?: string | null
           checklist_id: string
           completed_at?: string | null
           created_at?: string | null
+          due_date: string
           id?: string
+          location_id?: string | null
+          organization_id: string
           progress?: Json
           shift_id?: string | null
           updated_at?: string | null
           user_id: string
         }
         Update: {
+          assigned_by?: string | null
           checklist_id?: string
           completed_at?: string | null
           created_at?: string | null
+          due_date?: string
           id?: string
+          location_id?: string | null
+          organization_id?: string
           progress?: Json
           shift_id?: string | null
           updated_at?: string | null
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "checklist_assignments_assigned_by_fkey"
+            columns: ["assigned_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "checklist_assignments_checklist_id_fkey"
             columns: ["checklist_id"]
@@ -320,6 +541,20 @@ export type Database = {
             referencedRelation: "checklists"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "checklist_assignments_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "checklist_assignments_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "checklist_assignments_shift_id_fkey"
             columns: ["shift_id"]
@@ -336,6 +571,52 @@ export type Database = {
           },
         ]
       }
+      checklist_positions: {
+        Row: {
+          checklist_id: string
+          created_at: string
+          id: string
+          organization_id: string
+          position_id: string
+        }
+        Insert: {
+          checklist_id: string
+          created_at?: string
+          id?: string
+          organization_id: string
+          position_id: string
+        }
+        Update: {
+          checklist_id?: string
+          created_at?: string
+          id?: string
+          organization_id?: string
+          position_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "checklist_positions_checklist_id_fkey"
+            columns: ["checklist_id"]
+            isOneToOne: false
+            referencedRelation: "checklists"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "checklist_positions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "checklist_positions_position_id_fkey"
+            columns: ["position_id"]
+            isOneToOne: false
+            referencedRelation: "positions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       checklists: {
         Row: {
           created_at: string | null
@@ -454,85 +735,317 @@ export type Database = {
           },
         ]
       }
-      employee_invitations: {
+      employee_group_members: {
         Row: {
-          accepted_at: string | null
-          created_at: string | null
-          department_id: string | null
-          email: string
-          employee_code: string | null
-          expires_at: string
-          first_name: string | null
+          created_at: string
+          group_id: string
           id: string
-          invited_by: string | null
-          last_name: string | null
           organization_id: string
-          phone: string | null
-          role: string | null
-          status: string | null
-          token: string
-          updated_at: string | null
+          user_id: string
         }
         Insert: {
-          accepted_at?: string | null
-          created_at?: string | null
-          department_id?: string | null
-          email: string
-          employee_code?: string | null
-          expires_at: string
-          first_name?: string | null
+          created_at?: string
+          group_id: string
           id?: string
-          invited_by?: string | null
-          last_name?: string | null
           organization_id: string
-          phone?: string | null
-          role?: string | null
-          status?: string | null
-          token: string
-          updated_at?: string | null
+          user_id: string
         }
         Update: {
-          accepted_at?: string | null
-          created_at?: string | null
-          department_id?: string | null
-          email?: string
-          employee_code?: string | null
-          expires_at?: string
-          first_name?: string | null
+          created_at?: string
+          group_id?: string
           id?: string
-          invited_by?: string | null
-          last_name?: string | null
           organization_id?: string
-          phone?: string | null
-          role?: string | null
-          status?: string | null
-          token?: string
-          updated_at?: string | null
+          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "employee_invitations_department_id_fkey"
-            columns: ["department_id"]
+            foreignKeyName: "employee_group_members_group_id_fkey"
+            columns: ["group_id"]
             isOneToOne: false
-            referencedRelation: "departments"
+            referencedRelation: "employee_groups"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "employee_invitations_invited_by_fkey"
-            columns: ["invited_by"]
+            foreignKeyName: "employee_group_members_organization_id_fkey"
+            columns: ["organization_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "employee_invitations_organization_id_fkey"
-            columns: ["organization_id"]
+            foreignKeyName: "employee_group_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      employee_groups: {
+        Row: {
+          color: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          lead_id: string | null
+          name: string
+          organization_id: string
+          updated_at: string
+        }
+        Insert: {
+          color?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          lead_id?: string | null
+          name: string
+          organization_id: string
+          updated_at?: string
+        }
+        Update: {
+          color?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          lead_id?: string | null
+          name?: string
+          organization_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "employee_groups_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "employee_groups_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "employee_groups_organization_id_fkey"
+            columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
         ]
       }
+      employee_invitations: {
+        Row: {
+          accepted_at: string | null
+          created_at: string | null
+          department_id: string | null
+          email: string
+          employee_code: string | null
+          expires_at: string
+          first_name: string | null
+          id: string
+          invited_by: string | null
+          last_name: string | null
+          organization_id: string
+          phone: string | null
+          role: string | null
+          status: string | null
+          token: string
+          updated_at: string | null
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string | null
+          department_id?: string | null
+          email: string
+          employee_code?: string | null
+          expires_at: string
+          first_name?: string | null
+          id?: string
+          invited_by?: string | null
+          last_name?: string | null
+          organization_id: string
+          phone?: string | null
+          role?: string | null
+          status?: string | null
+          token: string
+          updated_at?: string | null
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string | null
+          department_id?: string | null
+          email?: string
+          employee_code?: string | null
+          expires_at?: string
+          first_name?: string | null
+          id?: string
+          invited_by?: string | null
+          last_name?: string | null
+          organization_id?: string
+          phone?: string | null
+          role?: string | null
+          status?: string | null
+          token?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "employee_invitations_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "employee_invitations_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "employee_invitations_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      employee_pay_rates: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          effective_from: string
+          hourly_rate: number
+          id: string
+          note: string | null
+          organization_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          effective_from: string
+          hourly_rate: number
+          id?: string
+          note?: string | null
+          organization_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          effective_from?: string
+          hourly_rate?: number
+          id?: string
+          note?: string | null
+          organization_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "employee_pay_rates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "employee_pay_rates_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "employee_pay_rates_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      employee_unavailability: {
+        Row: {
+          created_at: string | null
+          end_date: string
+          end_time: string | null
+          id: string
+          organization_id: string
+          reason: string | null
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          start_date: string
+          start_time: string | null
+          status: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          end_date: string
+          end_time?: string | null
+          id?: string
+          organization_id: string
+          reason?: string | null
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          start_date: string
+          start_time?: string | null
+          status?: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          end_date?: string
+          end_time?: string | null
+          id?: string
+          organization_id?: string
+          reason?: string | null
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          start_date?: string
+          start_time?: string | null
+          status?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "employee_unavailability_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "employee_unavailability_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "employee_unavailability_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       form_submissions: {
         Row: {
           created_at: string | null
@@ -649,6 +1162,61 @@ export type Database = {
           },
         ]
       }
+      holidays: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          date: string
+          id: string
+          location_id: string | null
+          name: string
+          organization_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          date: string
+          id?: string
+          location_id?: string | null
+          name: string
+          organization_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          date?: string
+          id?: string
+          location_id?: string | null
+          name?: string
+          organization_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "holidays_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "holidays_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "holidays_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       locations: {
         Row: {
           address: string | null
@@ -664,6 +1232,7 @@ export type Database = {
           radius_meters: number | null
           timezone: string | null
           updated_at: string | null
+          weekly_labor_budget: number | null
         }
         Insert: {
           address?: string | null
@@ -679,6 +1248,7 @@ export type Database = {
           radius_meters?: number | null
           timezone?: string | null
           updated_at?: string | null
+          weekly_labor_budget?: number | null
         }
         Update: {
           address?: string | null
@@ -694,6 +1264,7 @@ export type Database = {
           radius_meters?: number | null
           timezone?: string | null
           updated_at?: string | null
+          weekly_labor_budget?: number | null
         }
         Relationships: [
           {
@@ -705,6 +1276,131 @@ export type Database = {
           },
         ]
       }
+      manager_group_scopes: {
+        Row: {
+          created_at: string
+          group_id: string
+          id: string
+          manager_id: string
+          organization_id: string
+        }
+        Insert: {
+          created_at?: string
+          group_id: string
+          id?: string
+          manager_id: string
+          organization_id: string
+        }
+        Update: {
+          created_at?: string
+          group_id?: string
+          id?: string
+          manager_id?: string
+          organization_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "manager_group_scopes_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "employee_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "manager_group_scopes_manager_id_fkey"
+            columns: ["manager_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "manager_group_scopes_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_deliveries: {
+        Row: {
+          body: string | null
+          channel: string
+          claimed_at: string | null
+          created_at: string
+          data: Json | null
+          error: string | null
+          id: string
+          is_digest: boolean
+          notification_id: string | null
+          organization_id: string
+          send_after: string
+          sent_at: string | null
+          status: string
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          channel: string
+          claimed_at?: string | null
+          created_at?: string
+          data?: Json | null
+          error?: string | null
+          id?: string
+          is_digest?: boolean
+          notification_id?: string | null
+          organization_id: string
+          send_after?: string
+          sent_at?: string | null
+          status?: string
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          channel?: string
+          claimed_at?: string | null
+          created_at?: string
+          data?: Json | null
+          error?: string | null
+          id?: string
+          is_digest?: boolean
+          notification_id?: string | null
+          organization_id?: string
+          send_after?: string
+          sent_at?: string | null
+          status?: string
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_deliveries_notification_id_fkey"
+            columns: ["notification_id"]
+            isOneToOne: false
+            referencedRelation: "notifications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_deliveries_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_deliveries_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notifications: {
         Row: {
           body: string | null
@@ -759,6 +1455,74 @@ export type Database = {
           },
         ]
       }
+      open_shift_claims: {
+        Row: {
+          created_at: string | null
+          id: string
+          note: string | null
+          organization_id: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          shift_id: string
+          status: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          note?: string | null
+          organization_id: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          shift_id: string
+          status?: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          note?: string | null
+          organization_id?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          shift_id?: string
+          status?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "open_shift_claims_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "open_shift_claims_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "open_shift_claims_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "shifts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "open_shift_claims_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       organizations: {
         Row: {
           created_at: string | null
@@ -799,6 +1563,7 @@ export type Database = {
         Row: {
           color: string
           created_at: string | null
+          default_hourly_rate: number | null
           description: string | null
           id: string
           is_active: boolean | null
@@ -810,6 +1575,7 @@ export type Database = {
         Insert: {
           color?: string
           created_at?: string | null
+          default_hourly_rate?: number | null
           description?: string | null
           id?: string
           is_active?: boolean | null
@@ -821,6 +1587,7 @@ export type Database = {
         Update: {
           color?: string
           created_at?: string | null
+          default_hourly_rate?: number | null
           description?: string | null
           id?: string
           is_active?: boolean | null
@@ -859,9 +1626,11 @@ export type Database = {
           notification_settings: Json | null
           organization_id: string
           phone: string | null
+          preferred_max_hours_per_week: number | null
           role: string | null
           status: string | null
           updated_at: string | null
+          weekly_availability: Json | null
         }
         Insert: {
           allow_time_edit?: boolean | null
@@ -882,9 +1651,11 @@ export type Database = {
           notification_settings?: Json | null
           organization_id: string
           phone?: string | null
+          preferred_max_hours_per_week?: number | null
           role?: string | null
           status?: string | null
           updated_at?: string | null
+          weekly_availability?: Json | null
         }
         Update: {
           allow_time_edit?: boolean | null
@@ -905,25 +1676,114 @@ export type Database = {
           notification_settings?: Json | null
           organization_id?: string
           phone?: string | null
+          preferred_max_hours_per_week?: number | null
           role?: string | null
           status?: string | null
           updated_at?: string | null
+          weekly_availability?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profiles_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pto_balance_transactions: {
+        Row: {
+          actor_id: string | null
+          balance_id: string
+          created_at: string | null
+          days: number
+          id: string
+          metadata: Json | null
+          organization_id: string
+          period_key: string | null
+          pto_type: string
+          reason: string | null
+          request_id: string | null
+          transaction_type: string
+          user_id: string
+          year: number
+        }
+        Insert: {
+          actor_id?: string | null
+          balance_id: string
+          created_at?: string | null
+          days: number
+          id?: string
+          metadata?: Json | null
+          organization_id: string
+          period_key?: string | null
+          pto_type: string
+          reason?: string | null
+          request_id?: string | null
+          transaction_type: string
+          user_id: string
+          year: number
+        }
+        Update: {
+          actor_id?: string | null
+          balance_id?: string
+          created_at?: string | null
+          days?: number
+          id?: string
+          metadata?: Json | null
+          organization_id?: string
+          period_key?: string | null
+          pto_type?: string
+          reason?: string | null
+          request_id?: string | null
+          transaction_type?: string
+          user_id?: string
+          year?: number
         }
         Relationships: [
           {
-            foreignKeyName: "profiles_department_id_fkey"
-            columns: ["department_id"]
+            foreignKeyName: "pto_balance_transactions_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pto_balance_transactions_balance_id_fkey"
+            columns: ["balance_id"]
             isOneToOne: false
-            referencedRelation: "departments"
+            referencedRelation: "pto_balances"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "profiles_organization_id_fkey"
+            foreignKeyName: "pto_balance_transactions_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "pto_balance_transactions_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "pto_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pto_balance_transactions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
       pto_balances: {
@@ -1053,7 +1913,10 @@ export type Database = {
         Row: {
           attachment_urls: Json | null
           created_at: string | null
+          duration_type: string
           end_date: string
+          half_day_period: string | null
+          hours: number | null
           id: string
           organization_id: string
           pto_type: string
@@ -1070,7 +1933,10 @@ export type Database = {
         Insert: {
           attachment_urls?: Json | null
           created_at?: string | null
+          duration_type?: string
           end_date: string
+          half_day_period?: string | null
+          hours?: number | null
           id?: string
           organization_id: string
           pto_type: string
@@ -1087,7 +1953,10 @@ export type Database = {
         Update: {
           attachment_urls?: Json | null
           created_at?: string | null
+          duration_type?: string
           end_date?: string
+          half_day_period?: string | null
+          hours?: number | null
           id?: string
           organization_id?: string
           pto_type?: string
@@ -1125,6 +1994,202 @@ export type Database = {
           },
         ]
       }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: string
+          p256dh: string
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: string
+          p256dh: string
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: string
+          p256dh?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "push_subscriptions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      schedule_publications: {
+        Row: {
+          id: string
+          organization_id: string
+          published_at: string
+          published_by: string | null
+          shifts: Json
+          week_start: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          published_at?: string
+          published_by?: string | null
+          shifts?: Json
+          week_start: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          published_at?: string
+          published_by?: string | null
+          shifts?: Json
+          week_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "schedule_publications_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "schedule_publications_published_by_fkey"
+            columns: ["published_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      schedule_versions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          department_id: string | null
+          id: string
+          location_id: string | null
+          organization_id: string
+          reason: string
+          shift_count: number
+          shifts: Json
+          week_start: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          department_id?: string | null
+          id?: string
+          location_id?: string | null
+          organization_id: string
+          reason: string
+          shift_count?: number
+          shifts?: Json
+          week_start: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          department_id?: string | null
+          id?: string
+          location_id?: string | null
+          organization_id?: string
+          reason?: string
+          shift_count?: number
+          shifts?: Json
+          week_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "schedule_versions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "schedule_versions_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "schedule_versions_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "schedule_versions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shift_rotations: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          name: string
+          organization_id: string
+          pattern: Json
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          organization_id: string
+          pattern?: Json
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          organization_id?: string
+          pattern?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shift_rotations_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shift_rotations_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       shift_swaps: {
         Row: {
           applied_at: string | null
@@ -1229,9 +2294,10 @@ export type Database = {
           end_time: string
           id: string
           is_active: boolean | null
+          location_id: string | null
           name: string
           organization_id: string
-          position: string | null
+          position_id: string | null
           start_time: string
           updated_at: string | null
         }
@@ -1244,9 +2310,10 @@ export type Database = {
           end_time: string
           id?: string
           is_active?: boolean | null
+          location_id?: string | null
           name: string
           organization_id: string
-          position?: string | null
+          position_id?: string | null
           start_time: string
           updated_at?: string | null
         }
@@ -1259,9 +2326,10 @@ export type Database = {
           end_time?: string
           id?: string
           is_active?: boolean | null
+          location_id?: string | null
           name?: string
           organization_id?: string
-          position?: string | null
+          position_id?: string | null
           start_time?: string
           updated_at?: string | null
         }
@@ -1273,6 +2341,13 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "shift_templates_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "shift_templates_organization_id_fkey"
             columns: ["organization_id"]
@@ -1280,6 +2355,13 @@ export type Database = {
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "shift_templates_position_id_fkey"
+            columns: ["position_id"]
+            isOneToOne: false
+            referencedRelation: "positions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       shifts: {
@@ -1302,7 +2384,8 @@ export type Database = {
           start_time: string
           status: string | null
           updated_at: string | null
-          user_id: string
+          updated_by: string | null
+          user_id: string | null
         }
         Insert: {
           break_minutes?: number | null
@@ -1323,7 +2406,8 @@ export type Database = {
           start_time: string
           status?: string | null
           updated_at?: string | null
-          user_id: string
+          updated_by?: string | null
+          user_id?: string | null
         }
         Update: {
           break_minutes?: number | null
@@ -1344,7 +2428,8 @@ export type Database = {
           start_time?: string
           status?: string | null
           updated_at?: string | null
-          user_id?: string
+          updated_by?: string | null
+          user_id?: string | null
         }
         Relationships: [
           {
@@ -1389,6 +2474,13 @@ export type Database = {
             referencedRelation: "shifts"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "shifts_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "shifts_user_id_fkey"
             columns: ["user_id"]
@@ -1398,6 +2490,86 @@ export type Database = {
           },
         ]
       }
+      staffing_requirements: {
+        Row: {
+          break_minutes: number
+          created_at: string | null
+          created_by: string | null
+          days_of_week: number[]
+          end_time: string
+          headcount: number
+          id: string
+          is_active: boolean | null
+          location_id: string
+          notes: string | null
+          organization_id: string
+          position_id: string
+          start_time: string
+          updated_at: string | null
+        }
+        Insert: {
+          break_minutes?: number
+          created_at?: string | null
+          created_by?: string | null
+          days_of_week?: number[]
+          end_time: string
+          headcount?: number
+          id?: string
+          is_active?: boolean | null
+          location_id: string
+          notes?: string | null
+          organization_id: string
+          position_id: string
+          start_time: string
+          updated_at?: string | null
+        }
+        Update: {
+          break_minutes?: number
+          created_at?: string | null
+          created_by?: string | null
+          days_of_week?: number[]
+          end_time?: string
+          headcount?: number
+          id?: string
+          is_active?: boolean | null
+          location_id?: string
+          notes?: string | null
+          organization_id?: string
+          position_id?: string
+          start_time?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "staffing_requirements_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "staffing_requirements_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "staffing_requirements_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "staffing_requirements_position_id_fkey"
+            columns: ["position_id"]
+            isOneToOne: false
+            referencedRelation: "positions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       task_assignments: {
         Row: {
           assigned_by: string | null
@@ -1452,6 +2624,7 @@ export type Database = {
           created_by: string | null
           description: string | null
           due_date: string | null
+          group_id: string | null
           id: string
           organization_id: string
           priority: string | null
@@ -1467,6 +2640,7 @@ export type Database = {
           created_by?: string | null
           description?: string | null
           due_date?: string | null
+          group_id?: string | null
           id?: string
           organization_id: string
           priority?: string | null
@@ -1482,6 +2656,7 @@ export type Database = {
           created_by?: string | null
           description?: string | null
           due_date?: string | null
+          group_id?: string | null
           id?: string
           organization_id?: string
           priority?: string | null
@@ -1491,6 +2666,13 @@ export type Database = {
           updated_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "tasks_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "employee_groups"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "tasks_completed_by_fkey"
             columns: ["completed_by"]
@@ -1792,6 +2974,11 @@ export type Database = {
         Args: { lat1: number; lat2: number; lon1: number; lon2: number }
         Returns: number
       }
+      can_manage_user: { Args: { target_user: string }; Returns: boolean }
+      claim_notification_deliveries: {
+        Args: { p_limit: number; p_now: string }
+        Returns: Database["public"]["Tables"]["notification_deliveries"]["Row"][]
+      }
       count_clocked_in_employees: { Args: { org_id: string }; Returns: number }
       count_unread_messages: { Args: { user_id: string }; Returns: number }
       create_organization_with_owner: {
@@ -1833,6 +3020,24 @@ export type Database = {
         }
         Returns: string
       }
+      queue_notification_deliveries: {
+        Args: {
+          p_deliveries: Json
+          p_keep_notification?: boolean
+          p_notification_id: string
+        }
+        Returns: undefined
+      }
+      send_chat_attachment_message: {
+        Args: {
+          p_attachments: Json
+          p_content: string
+          p_room_id: string
+          p_sender_id: string
+          p_type: string
+        }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
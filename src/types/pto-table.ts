@@ -43,6 +43,8 @@ export interface PTOTableRow {
   endDate: string;
   /** Total days requested */
   totalDays: number;
+  /** Half-day or hourly duration, e.g. "Half day (AM)" or "4h" */
+  durationLabel: string | null;
   /** Reason for request */
   reason: string | null;
   /** Request status */
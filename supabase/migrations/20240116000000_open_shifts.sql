@@ -0,0 +1,94 @@
+-- Allow shifts without an assignee ("open shifts") that employees can claim
+ALTER TABLE shifts ALTER COLUMN user_id DROP NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_shifts_open
+  ON shifts(organization_id, start_time)
+  WHERE user_id IS NULL;
+
+-- Create open_shift_claims table
+CREATE TABLE IF NOT EXISTS open_shift_claims (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  shift_id UUID NOT NULL REFERENCES shifts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  note TEXT,
+  reviewed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT open_shift_claims_shift_user_unique UNIQUE (shift_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_open_shift_claims_organization_id ON open_shift_claims(organization_id);
+CREATE INDEX IF NOT EXISTS idx_open_shift_claims_shift_id ON open_shift_claims(shift_id);
+CREATE INDEX IF NOT EXISTS idx_open_shift_claims_status ON open_shift_claims(status);
+
+-- Enable RLS
+ALTER TABLE open_shift_claims ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can view their own claims
+CREATE POLICY "Users can view their own open shift claims"
+  ON open_shift_claims FOR SELECT
+  USING (
+    organization_id = get_user_organization_id()
+    AND user_id = auth.uid()
+  );
+
+-- Policy: Admins and managers can view claims in their organization
+CREATE POLICY "Admins and managers can view open shift claims"
+  ON open_shift_claims FOR SELECT
+  USING (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  );
+
+-- Policy: Users can create their own claims
+CREATE POLICY "Users can create their own open shift claims"
+  ON open_shift_claims FOR INSERT
+  WITH CHECK (
+    organization_id = get_user_organization_id()
+    AND user_id = auth.uid()
+    AND status = 'pending'
+  );
+
+-- Policy: Users can cancel their own pending claims
+CREATE POLICY "Users can cancel their own pending open shift claims"
+  ON open_shift_claims FOR UPDATE
+  USING (
+    organization_id = get_user_organization_id()
+    AND user_id = auth.uid()
+    AND status = 'pending'
+  )
+  WITH CHECK (
+    organization_id = get_user_organization_id()
+    AND user_id = auth.uid()
+    AND status IN ('pending', 'cancelled')
+  );
+
+-- Policy: Admins and managers can review claims
+CREATE POLICY "Admins and managers can review open shift claims"
+  ON open_shift_claims FOR UPDATE
+  USING (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  )
+  WITH CHECK (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  );
+
+-- Create trigger to update updated_at
+CREATE OR REPLACE FUNCTION update_open_shift_claims_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER open_shift_claims_updated_at
+  BEFORE UPDATE ON open_shift_claims
+  FOR EACH ROW
+  EXECUTE FUNCTION update_open_shift_claims_updated_at();
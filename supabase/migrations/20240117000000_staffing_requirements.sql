@@ -0,0 +1,77 @@
+-- Create staffing_requirements table
+-- Each row asks for `headcount` employees in a position at a location
+-- during a daily time block on the given days of the week (0 = Sunday)
+CREATE TABLE IF NOT EXISTS staffing_requirements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES locations(id) ON DELETE CASCADE,
+  position_id UUID NOT NULL REFERENCES positions(id) ON DELETE CASCADE,
+  days_of_week INTEGER[] NOT NULL DEFAULT '{1,2,3,4,5}',
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  break_minutes INTEGER NOT NULL DEFAULT 0 CHECK (break_minutes >= 0),
+  headcount INTEGER NOT NULL DEFAULT 1 CHECK (headcount > 0),
+  notes TEXT,
+  is_active BOOLEAN DEFAULT true,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT staffing_requirements_days_check
+    CHECK (days_of_week <@ ARRAY[0,1,2,3,4,5,6])
+);
+
+CREATE INDEX IF NOT EXISTS idx_staffing_requirements_organization_id ON staffing_requirements(organization_id);
+CREATE INDEX IF NOT EXISTS idx_staffing_requirements_location_id ON staffing_requirements(location_id);
+
+-- Enable RLS
+ALTER TABLE staffing_requirements ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Admins and managers can view staffing requirements
+CREATE POLICY "Admins and managers can view staffing requirements"
+  ON staffing_requirements FOR SELECT
+  USING (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  );
+
+-- Policy: Admins and managers can create staffing requirements
+CREATE POLICY "Admins and managers can create staffing requirements"
+  ON staffing_requirements FOR INSERT
+  WITH CHECK (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  );
+
+-- Policy: Admins and managers can update staffing requirements
+CREATE POLICY "Admins and managers can update staffing requirements"
+  ON staffing_requirements FOR UPDATE
+  USING (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  )
+  WITH CHECK (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  );
+
+-- Policy: Admins and managers can delete staffing requirements
+CREATE POLICY "Admins and managers can delete staffing requirements"
+  ON staffing_requirements FOR DELETE
+  USING (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  );
+
+-- Create trigger to update updated_at
+CREATE OR REPLACE FUNCTION update_staffing_requirements_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER staffing_requirements_updated_at
+  BEFORE UPDATE ON staffing_requirements
+  FOR EACH ROW
+  EXECUTE FUNCTION update_staffing_requirements_updated_at();
@@ -0,0 +1,190 @@
+-- Approved availability lives on the profile:
+--   weekly_availability: JSON array of {day_of_week, start_time, end_time} windows
+--   the employee can work (NULL means no restrictions)
+--   preferred_max_hours_per_week: hours the employee would like to stay under
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS weekly_availability JSONB,
+  ADD COLUMN IF NOT EXISTS preferred_max_hours_per_week NUMERIC(5,2)
+    CHECK (preferred_max_hours_per_week IS NULL OR preferred_max_hours_per_week >= 0);
+
+-- Only managers and admins may change approved availability directly;
+-- employees go through availability_change_requests
+CREATE OR REPLACE FUNCTION protect_profile_availability()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (NEW.weekly_availability IS DISTINCT FROM OLD.weekly_availability
+      OR NEW.preferred_max_hours_per_week IS DISTINCT FROM OLD.preferred_max_hours_per_week)
+    AND auth.uid() IS NOT NULL
+    AND NOT is_user_manager_or_admin() THEN
+    RAISE EXCEPTION 'Availability changes require manager approval';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER profiles_protect_availability
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_profile_availability();
+
+-- Create availability_change_requests table
+CREATE TABLE IF NOT EXISTS availability_change_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  weekly_availability JSONB,
+  preferred_max_hours_per_week NUMERIC(5,2)
+    CHECK (preferred_max_hours_per_week IS NULL OR preferred_max_hours_per_week >= 0),
+  note TEXT,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  reviewed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  review_comment TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_availability_change_requests_organization_id ON availability_change_requests(organization_id);
+CREATE INDEX IF NOT EXISTS idx_availability_change_requests_user_id ON availability_change_requests(user_id);
+CREATE INDEX IF NOT EXISTS idx_availability_change_requests_status ON availability_change_requests(status);
+
+-- Create employee_unavailability table for one-off dates the employee cannot work
+-- (start_time/end_time NULL means the whole day)
+CREATE TABLE IF NOT EXISTS employee_unavailability (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  start_time TIME,
+  end_time TIME,
+  reason TEXT,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  reviewed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  review_comment TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT employee_unavailability_dates_check CHECK (end_date >= start_date),
+  CONSTRAINT employee_unavailability_times_check
+    CHECK ((start_time IS NULL) = (end_time IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_employee_unavailability_organization_id ON employee_unavailability(organization_id);
+CREATE INDEX IF NOT EXISTS idx_employee_unavailability_user_dates ON employee_unavailability(user_id, start_date, end_date);
+
+-- Enable RLS
+ALTER TABLE availability_change_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE employee_unavailability ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can view their own availability requests
+CREATE POLICY "Users can view their own availability requests"
+  ON availability_change_requests FOR SELECT
+  USING (
+    organization_id = get_user_organization_id()
+    AND user_id = auth.uid()
+  );
+
+-- Policy: Admins and managers can view availability requests in their organization
+CREATE POLICY "Admins and managers can view availability requests"
+  ON availability_change_requests FOR SELECT
+  USING (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  );
+
+-- Policy: Users can submit their own availability requests
+CREATE POLICY "Users can create their own availability requests"
+  ON availability_change_requests FOR INSERT
+  WITH CHECK (
+    organization_id = get_user_organization_id()
+    AND user_id = auth.uid()
+    AND status = 'pending'
+  );
+
+-- Policy: Users can cancel their own pending availability requests
+CREATE POLICY "Users can cancel their own pending availability requests"
+  ON availability_change_requests FOR UPDATE
+  USING (
+    organization_id = get_user_organization_id()
+    AND user_id = auth.uid()
+    AND status = 'pending'
+  )
+  WITH CHECK (
+    organization_id = get_user_organization_id()
+    AND user_id = auth.uid()
+    AND status IN ('pending', 'cancelled')
+  );
+
+-- Policy: Admins and managers can review availability requests
+CREATE POLICY "Admins and managers can review availability requests"
+  ON availability_change_requests FOR UPDATE
+  USING (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  )
+  WITH CHECK (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  );
+
+-- Policy: Everyone in the organization can view unavailability (shown on the schedule)
+CREATE POLICY "Users can view unavailability in their organization"
+  ON employee_unavailability FOR SELECT
+  USING (organization_id = get_user_organization_id());
+
+-- Policy: Users can submit their own unavailability
+CREATE POLICY "Users can create their own unavailability"
+  ON employee_unavailability FOR INSERT
+  WITH CHECK (
+    organization_id = get_user_organization_id()
+    AND user_id = auth.uid()
+    AND status = 'pending'
+  );
+
+-- Policy: Users can cancel their own pending or approved unavailability
+CREATE POLICY "Users can cancel their own unavailability"
+  ON employee_unavailability FOR UPDATE
+  USING (
+    organization_id = get_user_organization_id()
+    AND user_id = auth.uid()
+    AND status IN ('pending', 'approved')
+  )
+  WITH CHECK (
+    organization_id = get_user_organization_id()
+    AND user_id = auth.uid()
+    AND status = 'cancelled'
+  );
+
+-- Policy: Admins and managers can review unavailability
+CREATE POLICY "Admins and managers can review unavailability"
+  ON employee_unavailability FOR UPDATE
+  USING (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  )
+  WITH CHECK (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  );
+
+-- Create triggers to update updated_at
+CREATE OR REPLACE FUNCTION update_availability_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER availability_change_requests_updated_at
+  BEFORE UPDATE ON availability_change_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION update_availability_updated_at();
+
+CREATE TRIGGER employee_unavailability_updated_at
+  BEFORE UPDATE ON employee_unavailability
+  FOR EACH ROW
+  EXECUTE FUNCTION update_availability_updated_at();
@@ -0,0 +1,5 @@
+-- Weekly labor budget per location, compared with the projected cost of
+-- scheduled shifts (NULL means no budget)
+ALTER TABLE locations
+  ADD COLUMN IF NOT EXISTS weekly_labor_budget NUMERIC(12,2)
+    CHECK (weekly_labor_budget IS NULL OR weekly_labor_budget >= 0);
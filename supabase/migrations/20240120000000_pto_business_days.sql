@@ -0,0 +1,58 @@
+-- Create holidays table. Holidays with no location apply to the whole
+-- organization; the rest only to employees whose primary location matches.
+CREATE TABLE IF NOT EXISTS holidays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  name TEXT NOT NULL,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_holidays_organization_date ON holidays(organization_id, date);
+CREATE INDEX IF NOT EXISTS idx_holidays_location_id ON holidays(location_id);
+
+-- Enable RLS
+ALTER TABLE holidays ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Everyone in the organization can view holidays
+CREATE POLICY "Users can view holidays in their organization"
+  ON holidays FOR SELECT
+  USING (organization_id = get_user_organization_id());
+
+-- Policy: Admins and managers can manage holidays
+CREATE POLICY "Admins and managers can manage holidays"
+  ON holidays FOR ALL
+  USING (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  )
+  WITH CHECK (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  );
+
+-- Create trigger to update updated_at
+CREATE OR REPLACE FUNCTION update_holidays_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER holidays_updated_at
+  BEFORE UPDATE ON holidays
+  FOR EACH ROW
+  EXECUTE FUNCTION update_holidays_updated_at();
+
+-- Half-day and hourly PTO. total_days remains the balance deduction in days.
+ALTER TABLE pto_requests
+  ADD COLUMN IF NOT EXISTS duration_type TEXT NOT NULL DEFAULT 'full_day'
+    CHECK (duration_type IN ('full_day', 'half_day', 'hours')),
+  ADD COLUMN IF NOT EXISTS half_day_period TEXT
+    CHECK (half_day_period IS NULL OR half_day_period IN ('am', 'pm')),
+  ADD COLUMN IF NOT EXISTS hours NUMERIC(5,2)
+    CHECK (hours IS NULL OR hours > 0);
@@ -0,0 +1,56 @@
+-- Ledger of changes to PTO balances. Each row explains a credit or debit to
+-- one balance; accrual and carryover rows are written by the accrual job.
+CREATE TABLE IF NOT EXISTS pto_balance_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  balance_id UUID NOT NULL REFERENCES pto_balances(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  pto_type TEXT NOT NULL,
+  year INTEGER NOT NULL,
+  transaction_type TEXT NOT NULL
+    CHECK (transaction_type IN ('accrual', 'carryover')),
+  days NUMERIC(6,2) NOT NULL,
+  -- The accrual period ("2024-03", "2024-03-01/2024-03-14") or year this
+  -- row covers. Unique per balance so re-running the job is a no-op.
+  period_key TEXT,
+  reason TEXT,
+  -- Null when written by the scheduled job
+  actor_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  metadata JSONB,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pto_balance_transactions_period
+  ON pto_balance_transactions(balance_id, transaction_type, period_key);
+CREATE INDEX IF NOT EXISTS idx_pto_balance_transactions_user_year
+  ON pto_balance_transactions(user_id, year);
+CREATE INDEX IF NOT EXISTS idx_pto_balance_transactions_organization
+  ON pto_balance_transactions(organization_id);
+
+-- Enable RLS
+ALTER TABLE pto_balance_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can view their own balance history
+CREATE POLICY "Users can view their own PTO balance transactions"
+  ON pto_balance_transactions FOR SELECT
+  USING (
+    organization_id = get_user_organization_id()
+    AND user_id = auth.uid()
+  );
+
+-- Policy: Admins and managers can view balance history in their organization
+CREATE POLICY "Admins and managers can view PTO balance transactions in their organization"
+  ON pto_balance_transactions FOR SELECT
+  USING (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  );
+
+-- Policy: Admins and owners can record balance transactions. There are no
+-- update or delete policies; corrections are new rows.
+CREATE POLICY "Admins can insert PTO balance transactions"
+  ON pto_balance_transactions FOR INSERT
+  WITH CHECK (
+    organization_id = get_user_organization_id()
+    AND is_user_admin()
+  );
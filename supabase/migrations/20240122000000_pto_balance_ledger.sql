@@ -0,0 +1,81 @@
+-- Every change to a PTO balance is now a ledger row; the counters on
+-- pto_balances are recalculated from the ledger after each write.
+ALTER TABLE pto_balance_transactions
+  DROP CONSTRAINT IF EXISTS pto_balance_transactions_transaction_type_check;
+
+ALTER TABLE pto_balance_transactions
+  ADD CONSTRAINT pto_balance_transactions_transaction_type_check
+    CHECK (transaction_type IN (
+      'accrual',
+      'request_pending',
+      'approval',
+      'rejection',
+      'cancellation',
+      'adjustment',
+      'carryover'
+    ));
+
+-- The request a pending/approval/rejection/cancellation row belongs to.
+-- Cancelled requests are deleted, so the link is cleared rather than lost.
+ALTER TABLE pto_balance_transactions
+  ADD COLUMN IF NOT EXISTS request_id UUID REFERENCES pto_requests(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_pto_balance_transactions_request_id
+  ON pto_balance_transactions(request_id);
+
+-- Opening entries so existing balances keep their current figures.
+-- Requests still pending get their own row so approving or rejecting them
+-- later settles the right amount.
+INSERT INTO pto_balance_transactions (
+  organization_id, balance_id, user_id, pto_type, year,
+  transaction_type, days, request_id, reason, metadata
+)
+SELECT
+  b.organization_id, b.id, b.user_id, b.pto_type, b.year,
+  'request_pending', r.total_days, r.id, 'Opening balance: pending request', '{"opening": true}'::jsonb
+FROM pto_requests r
+JOIN pto_balances b
+  ON b.organization_id = r.organization_id
+  AND b.user_id = r.user_id
+  AND b.pto_type = r.pto_type
+  AND b.year = EXTRACT(YEAR FROM r.created_at)::INTEGER
+WHERE r.status = 'pending';
+
+WITH recorded AS (
+  SELECT
+    balance_id,
+    COALESCE(SUM(days) FILTER (WHERE transaction_type = 'accrual'), 0) AS accrued,
+    COALESCE(SUM(days) FILTER (WHERE transaction_type = 'carryover'), 0) AS carried_over,
+    COALESCE(SUM(days) FILTER (WHERE transaction_type = 'request_pending'), 0) AS pending
+  FROM pto_balance_transactions
+  GROUP BY balance_id
+),
+opening AS (
+  SELECT
+    b.id, b.organization_id, b.user_id, b.pto_type, b.year,
+    COALESCE(b.entitled_days, 0) - COALESCE(r.accrued, 0) AS entitled,
+    COALESCE(b.carryover_days, 0) - COALESCE(r.carried_over, 0) AS carryover,
+    COALESCE(b.adjustment_days, 0) AS adjustment,
+    COALESCE(b.used_days, 0) AS used,
+    COALESCE(b.pending_days, 0) - COALESCE(r.pending, 0) AS pending
+  FROM pto_balances b
+  LEFT JOIN recorded r ON r.balance_id = b.id
+)
+INSERT INTO pto_balance_transactions (
+  organization_id, balance_id, user_id, pto_type, year,
+  transaction_type, days, period_key, reason, metadata
+)
+SELECT
+  o.organization_id, o.id, o.user_id, o.pto_type, o.year,
+  v.transaction_type, v.days, v.period_key, 'Opening balance', '{"opening": true}'::jsonb
+FROM opening o
+CROSS JOIN LATERAL (
+  VALUES
+    ('accrual', o.entitled, 'opening'),
+    ('carryover', o.carryover, 'opening'),
+    ('adjustment', o.adjustment, NULL),
+    -- Used days are recorded as pending then approved
+    ('request_pending', o.pending + o.used, NULL),
+    ('approval', o.used, NULL)
+) AS v(transaction_type, days, period_key)
+WHERE v.days <> 0;
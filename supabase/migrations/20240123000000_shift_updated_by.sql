@@ -0,0 +1,6 @@
+-- Record who last changed a shift. The audit trigger attributes updates to
+-- updated_by when it is set, so changes made through the shifts API (or by a
+-- manager on someone else's shift) are logged against the person who made them.
+
+ALTER TABLE shifts
+  ADD COLUMN IF NOT EXISTS updated_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
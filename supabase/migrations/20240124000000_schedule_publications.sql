@@ -0,0 +1,36 @@
+-- A record of each time a week's schedule was published, with the published
+-- shifts as they stood afterwards. The next publish of the same week is
+-- compared with the latest record so employees hear what changed since then.
+CREATE TABLE IF NOT EXISTS schedule_publications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  -- First day of the week, in the organization's time zone
+  week_start DATE NOT NULL,
+  -- Published, assigned shifts in the week: id, user_id, times, break,
+  -- location and position
+  shifts JSONB NOT NULL DEFAULT '[]'::jsonb,
+  published_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  published_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedule_publications_week
+  ON schedule_publications(organization_id, week_start, published_at DESC);
+
+-- Enable RLS
+ALTER TABLE schedule_publications ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Admins and managers can view publications in their organization
+CREATE POLICY "Admins and managers can view schedule publications in their organization"
+  ON schedule_publications FOR SELECT
+  USING (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  );
+
+-- Policy: Admins and managers can record publications
+CREATE POLICY "Admins and managers can insert schedule publications"
+  ON schedule_publications FOR INSERT
+  WITH CHECK (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  );
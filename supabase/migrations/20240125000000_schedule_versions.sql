@@ -0,0 +1,41 @@
+-- Snapshots of a week's schedule, taken on every publish and before bulk
+-- changes (copying shifts, applying templates, restoring a version), so a
+-- mistake can be rolled back. A snapshot covers one week, optionally
+-- narrowed to a location and/or department (NULL means all of them).
+CREATE TABLE IF NOT EXISTS schedule_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  -- First day of the week
+  week_start DATE NOT NULL,
+  location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+  department_id UUID REFERENCES departments(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL
+    CHECK (reason IN ('publish', 'copy_shifts', 'copy_week', 'apply_template', 'bulk_create', 'bulk_delete', 'restore')),
+  -- Every shift in scope when the snapshot was taken, drafts included
+  shifts JSONB NOT NULL DEFAULT '[]'::jsonb,
+  shift_count INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedule_versions_week
+  ON schedule_versions(organization_id, week_start, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE schedule_versions ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Admins and managers can view schedule versions in their organization
+CREATE POLICY "Admins and managers can view schedule versions in their organization"
+  ON schedule_versions FOR SELECT
+  USING (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  );
+
+-- Policy: Admins and managers can take snapshots. Versions are never edited.
+CREATE POLICY "Admins and managers can insert schedule versions"
+  ON schedule_versions FOR INSERT
+  WITH CHECK (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  );
@@ -0,0 +1,53 @@
+-- Secret-token calendar subscriptions. Each user has at most one feed URL;
+-- regenerating the token replaces the row's token, so old URLs stop working.
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL UNIQUE REFERENCES profiles(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  -- Managers can add everyone's published shifts and approved time off
+  include_team BOOLEAN NOT NULL DEFAULT false,
+  last_accessed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Create trigger to update updated_at
+CREATE OR REPLACE FUNCTION update_calendar_feeds_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER calendar_feeds_updated_at
+  BEFORE UPDATE ON calendar_feeds
+  FOR EACH ROW
+  EXECUTE FUNCTION update_calendar_feeds_updated_at();
+
+-- Enable RLS
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can view their own feed
+CREATE POLICY "Users can view their own calendar feed"
+  ON calendar_feeds FOR SELECT
+  USING (user_id = auth.uid());
+
+-- Policy: Users can create their own feed
+CREATE POLICY "Users can create their own calendar feed"
+  ON calendar_feeds FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid()
+    AND organization_id = get_user_organization_id()
+  );
+
+-- Policy: Users can update their own feed
+CREATE POLICY "Users can update their own calendar feed"
+  ON calendar_feeds FOR UPDATE
+  USING (user_id = auth.uid());
+
+-- Policy: Users can delete their own feed
+CREATE POLICY "Users can delete their own calendar feed"
+  ON calendar_feeds FOR DELETE
+  USING (user_id = auth.uid());
@@ -0,0 +1,99 @@
+-- Shift templates refer to a real position and location instead of a
+-- free-text position name
+ALTER TABLE shift_templates ADD COLUMN IF NOT EXISTS location_id UUID REFERENCES locations(id) ON DELETE SET NULL;
+
+-- Create positions for free-text names the organization doesn't have yet,
+-- so no template loses its position when the column is dropped
+INSERT INTO positions (organization_id, name)
+SELECT DISTINCT ON (st.organization_id, lower(trim(st.position)))
+  st.organization_id,
+  trim(st.position)
+FROM shift_templates st
+WHERE st.position_id IS NULL
+  AND trim(COALESCE(st.position, '')) <> ''
+  AND NOT EXISTS (
+    SELECT 1 FROM positions p
+    WHERE p.organization_id = st.organization_id
+      AND lower(trim(p.name)) = lower(trim(st.position))
+  )
+ORDER BY st.organization_id, lower(trim(st.position)), st.created_at
+ON CONFLICT (organization_id, name) DO NOTHING;
+
+-- Match existing free-text positions to the organization's positions by name
+UPDATE shift_templates st
+SET position_id = p.id
+FROM positions p
+WHERE st.position_id IS NULL
+  AND st.position IS NOT NULL
+  AND p.organization_id = st.organization_id
+  AND lower(trim(p.name)) = lower(trim(st.position));
+
+ALTER TABLE shift_templates DROP COLUMN IF EXISTS position;
+
+-- Multi-week rotation patterns built from shift templates, e.g. 4 on / 4 off
+-- or a Panama 2-2-3. Applying a rotation to employees over a date range
+-- creates draft shifts; the rotation itself is only the pattern.
+CREATE TABLE IF NOT EXISTS shift_rotations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  -- One entry per day of the cycle: a shift template id, or null for a day off
+  pattern JSONB NOT NULL DEFAULT '[]'::jsonb,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT shift_rotations_pattern_length CHECK (
+    jsonb_typeof(pattern) = 'array'
+    AND jsonb_array_length(pattern) BETWEEN 1 AND 56
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_shift_rotations_organization ON shift_rotations(organization_id);
+
+-- Create trigger to update updated_at
+CREATE OR REPLACE FUNCTION update_shift_rotations_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER shift_rotations_updated_at
+  BEFORE UPDATE ON shift_rotations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_shift_rotations_updated_at();
+
+-- Enable RLS
+ALTER TABLE shift_rotations ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can view rotations in their organization
+CREATE POLICY "Users can view shift rotations in their organization"
+  ON shift_rotations FOR SELECT
+  USING (organization_id = get_user_organization_id());
+
+-- Policy: Admins and managers can create rotations
+CREATE POLICY "Admins and managers can insert shift rotations"
+  ON shift_rotations FOR INSERT
+  WITH CHECK (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  );
+
+-- Policy: Admins and managers can update rotations
+CREATE POLICY "Admins and managers can update shift rotations"
+  ON shift_rotations FOR UPDATE
+  USING (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  );
+
+-- Policy: Admins and managers can delete rotations
+CREATE POLICY "Admins and managers can delete shift rotations"
+  ON shift_rotations FOR DELETE
+  USING (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  );
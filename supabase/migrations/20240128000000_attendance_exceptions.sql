@@ -0,0 +1,82 @@
+-- Attendance exceptions found by comparing time clock punches with
+-- published shifts: late clock-ins, early clock-outs, missed breaks,
+-- no-shows and work outside any scheduled shift. Rows are written by the
+-- attendance sync; managers resolve or excuse them from the queue.
+CREATE TABLE IF NOT EXISTS attendance_exceptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  shift_id UUID REFERENCES shifts(id) ON DELETE CASCADE,
+  -- The punch the exception is about (clock-in, clock-out), if any
+  time_entry_id UUID REFERENCES time_entries(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (
+    type IN ('late_clock_in', 'early_clock_out', 'missed_break', 'no_show', 'unscheduled_work')
+  ),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'excused')),
+  -- Shift start, or the clock-in for unscheduled work
+  occurred_at TIMESTAMPTZ NOT NULL,
+  -- Minutes late / early / of break missed / worked unscheduled
+  minutes INTEGER,
+  note TEXT,
+  resolved_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT attendance_exceptions_subject CHECK (shift_id IS NOT NULL OR time_entry_id IS NOT NULL)
+);
+
+-- One exception of each type per shift, and per punch for unscheduled work
+CREATE UNIQUE INDEX IF NOT EXISTS idx_attendance_exceptions_shift_type
+  ON attendance_exceptions(shift_id, type) WHERE shift_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_attendance_exceptions_unscheduled
+  ON attendance_exceptions(time_entry_id) WHERE type = 'unscheduled_work';
+
+CREATE INDEX IF NOT EXISTS idx_attendance_exceptions_org_occurred
+  ON attendance_exceptions(organization_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_attendance_exceptions_open
+  ON attendance_exceptions(organization_id, status) WHERE status = 'open';
+
+CREATE INDEX IF NOT EXISTS idx_time_entries_shift ON time_entries(shift_id);
+
+-- Create trigger to update updated_at
+CREATE OR REPLACE FUNCTION update_attendance_exceptions_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER attendance_exceptions_updated_at
+  BEFORE UPDATE ON attendance_exceptions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_attendance_exceptions_updated_at();
+
+-- Enable RLS
+ALTER TABLE attendance_exceptions ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can view their own exceptions
+CREATE POLICY "Users can view their own attendance exceptions"
+  ON attendance_exceptions FOR SELECT
+  USING (user_id = auth.uid());
+
+-- Policy: Admins and managers can view exceptions in their organization
+CREATE POLICY "Admins and managers can view attendance exceptions in their organization"
+  ON attendance_exceptions FOR SELECT
+  USING (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  );
+
+-- Policy: Admins and managers can resolve exceptions
+CREATE POLICY "Admins and managers can update attendance exceptions"
+  ON attendance_exceptions FOR UPDATE
+  USING (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  );
+
+-- Inserts and deletes are made by the attendance sync with the service role
+
+-- Live updates for the exceptions queue
+ALTER PUBLICATION supabase_realtime ADD TABLE attendance_exceptions;
@@ -0,0 +1,118 @@
+-- Named groups of employees, e.g. "Opening crew" or "Keyholders", used to
+-- filter the schedule, assign tasks and limit what a manager can manage
+CREATE TABLE IF NOT EXISTS employee_groups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  color TEXT,
+  lead_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS employee_group_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  group_id UUID NOT NULL REFERENCES employee_groups(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (group_id, user_id)
+);
+
+-- Groups a manager is limited to. A manager with no rows here manages the
+-- whole organization; admins and owners are never limited.
+CREATE TABLE IF NOT EXISTS manager_group_scopes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  manager_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  group_id UUID NOT NULL REFERENCES employee_groups(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (manager_id, group_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_employee_groups_organization ON employee_groups(organization_id);
+CREATE INDEX IF NOT EXISTS idx_employee_group_members_user ON employee_group_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_manager_group_scopes_group ON manager_group_scopes(group_id);
+
+-- Tasks can be assigned to a whole group as well as to individual employees
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS group_id UUID REFERENCES employee_groups(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_tasks_group ON tasks(group_id) WHERE group_id IS NOT NULL;
+
+-- Create trigger to update updated_at
+CREATE OR REPLACE FUNCTION update_employee_groups_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER employee_groups_updated_at
+  BEFORE UPDATE ON employee_groups
+  FOR EACH ROW
+  EXECUTE FUNCTION update_employee_groups_updated_at();
+
+-- Enable RLS
+ALTER TABLE employee_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE employee_group_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE manager_group_scopes ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can view groups in their organization
+CREATE POLICY "Users can view employee groups in their organization"
+  ON employee_groups FOR SELECT
+  USING (organization_id = get_user_organization_id());
+
+-- Policy: Admins and managers can manage groups
+CREATE POLICY "Admins and managers can insert employee groups"
+  ON employee_groups FOR INSERT
+  WITH CHECK (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  );
+
+CREATE POLICY "Admins and managers can update employee groups"
+  ON employee_groups FOR UPDATE
+  USING (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  );
+
+CREATE POLICY "Admins and managers can delete employee groups"
+  ON employee_groups FOR DELETE
+  USING (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  );
+
+-- Policy: Users can view group memberships in their organization
+CREATE POLICY "Users can view employee group members in their organization"
+  ON employee_group_members FOR SELECT
+  USING (organization_id = get_user_organization_id());
+
+-- Policy: Admins and managers can manage memberships
+CREATE POLICY "Admins and managers can insert employee group members"
+  ON employee_group_members FOR INSERT
+  WITH CHECK (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  );
+
+CREATE POLICY "Admins and managers can delete employee group members"
+  ON employee_group_members FOR DELETE
+  USING (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  );
+
+-- Policy: Managers can see their own scopes; admins see all
+CREATE POLICY "Users can view manager group scopes in their organization"
+  ON manager_group_scopes FOR SELECT
+  USING (
+    organization_id = get_user_organization_id()
+    AND (manager_id = auth.uid() OR is_user_manager_or_admin())
+  );
+
+-- Scopes are changed through the team API by admins and owners only
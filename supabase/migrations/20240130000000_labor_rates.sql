@@ -0,0 +1,46 @@
+-- Effective-dated hourly rates per employee. Each rate applies from
+-- effective_from until the employee's next rate starts, so a raise doesn't
+-- change the cost of shifts worked before it.
+CREATE TABLE IF NOT EXISTS employee_pay_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  hourly_rate NUMERIC(10, 2) NOT NULL CHECK (hourly_rate >= 0),
+  effective_from DATE NOT NULL,
+  note TEXT,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, effective_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_employee_pay_rates_organization ON employee_pay_rates(organization_id);
+
+-- Default rate for anyone working a position without a wage of their own
+ALTER TABLE positions ADD COLUMN IF NOT EXISTS default_hourly_rate NUMERIC(10, 2)
+  CHECK (default_hourly_rate IS NULL OR default_hourly_rate >= 0);
+
+-- Carry existing rates over as each employee's first rate
+INSERT INTO employee_pay_rates (organization_id, user_id, hourly_rate, effective_from, note)
+SELECT organization_id, id, hourly_rate, COALESCE(created_at::date, CURRENT_DATE), 'Initial rate'
+FROM profiles
+WHERE hourly_rate IS NOT NULL AND organization_id IS NOT NULL
+ON CONFLICT (user_id, effective_from) DO NOTHING;
+
+-- Enable RLS
+ALTER TABLE employee_pay_rates ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can view their own rates
+CREATE POLICY "Users can view own pay rates"
+  ON employee_pay_rates FOR SELECT
+  USING (user_id = auth.uid());
+
+-- Policy: Admins and managers can view all rates in their organization
+CREATE POLICY "Admins and managers can view pay rates"
+  ON employee_pay_rates FOR SELECT
+  USING (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  );
+
+-- Rates are added and removed through the pay rates API, which keeps
+-- profiles.hourly_rate in step with the rate in effect today
@@ -0,0 +1,114 @@
+-- Checklist assignments record the day (and location) they are for, so
+-- completion can be reported per location and day. Assignments linked to a
+-- shift take both from the shift.
+ALTER TABLE checklist_assignments
+  ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS due_date DATE,
+  ADD COLUMN IF NOT EXISTS location_id UUID REFERENCES locations(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS assigned_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+UPDATE checklist_assignments ca
+SET organization_id = c.organization_id
+FROM checklists c
+WHERE c.id = ca.checklist_id AND ca.organization_id IS NULL;
+
+UPDATE checklist_assignments ca
+SET due_date = s.start_time::date, location_id = s.location_id
+FROM shifts s
+WHERE s.id = ca.shift_id AND ca.due_date IS NULL;
+
+UPDATE checklist_assignments
+SET due_date = COALESCE(created_at::date, CURRENT_DATE)
+WHERE due_date IS NULL;
+
+ALTER TABLE checklist_assignments
+  ALTER COLUMN organization_id SET NOT NULL,
+  ALTER COLUMN due_date SET NOT NULL;
+
+-- A checklist is assigned to a shift at most once. Assignments without a
+-- shift have a NULL shift_id and are not affected.
+ALTER TABLE checklist_assignments
+  ADD CONSTRAINT checklist_assignments_checklist_shift_key UNIQUE (checklist_id, shift_id);
+
+CREATE INDEX IF NOT EXISTS idx_checklist_assignments_org_due
+  ON checklist_assignments(organization_id, due_date);
+CREATE INDEX IF NOT EXISTS idx_checklist_assignments_user_due
+  ON checklist_assignments(user_id, due_date);
+
+-- Positions a checklist is assigned to. Every published shift for the
+-- position gets the checklist, e.g. the closing checklist for each closer.
+CREATE TABLE IF NOT EXISTS checklist_positions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  checklist_id UUID NOT NULL REFERENCES checklists(id) ON DELETE CASCADE,
+  position_id UUID NOT NULL REFERENCES positions(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (checklist_id, position_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_checklist_positions_position ON checklist_positions(position_id);
+
+-- Enable RLS
+ALTER TABLE checklist_positions ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can view checklist positions in their organization
+CREATE POLICY "Users can view checklist positions in their organization"
+  ON checklist_positions FOR SELECT
+  USING (organization_id = get_user_organization_id());
+
+-- Policy: Admins and managers can manage checklist positions
+CREATE POLICY "Admins and managers can insert checklist positions"
+  ON checklist_positions FOR INSERT
+  WITH CHECK (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  );
+
+CREATE POLICY "Admins and managers can delete checklist positions"
+  ON checklist_positions FOR DELETE
+  USING (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  );
+
+-- Now that assignments carry their organization, limit manager access to it
+DROP POLICY IF EXISTS "Users can view own checklist assignments" ON checklist_assignments;
+DROP POLICY IF EXISTS "Admins and managers can create checklist assignments" ON checklist_assignments;
+DROP POLICY IF EXISTS "Users can update own checklist assignments" ON checklist_assignments;
+DROP POLICY IF EXISTS "Admins and managers can delete checklist assignments" ON checklist_assignments;
+
+-- Policy: Users can view their own assignments; managers see their organization's
+CREATE POLICY "Users can view own checklist assignments"
+  ON checklist_assignments FOR SELECT
+  USING (
+    user_id = auth.uid()
+    OR (organization_id = get_user_organization_id() AND is_user_manager_or_admin())
+  );
+
+-- Policy: Admins and managers can create assignments
+CREATE POLICY "Admins and managers can create checklist assignments"
+  ON checklist_assignments FOR INSERT
+  WITH CHECK (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  );
+
+-- Policy: Users can tick off their own assignments; managers can update any
+CREATE POLICY "Users can update own checklist assignments"
+  ON checklist_assignments FOR UPDATE
+  USING (
+    user_id = auth.uid()
+    OR (organization_id = get_user_organization_id() AND is_user_manager_or_admin())
+  )
+  WITH CHECK (
+    user_id = auth.uid()
+    OR (organization_id = get_user_organization_id() AND is_user_manager_or_admin())
+  );
+
+-- Policy: Admins and managers can delete assignments
+CREATE POLICY "Admins and managers can delete checklist assignments"
+  ON checklist_assignments FOR DELETE
+  USING (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+  );
@@ -0,0 +1,112 @@
+-- Create a private storage bucket for files sent in chat. Objects are stored
+-- under <room_id>/<upload_id>/<file name>; per-organization size and type
+-- limits are checked by the attachments API, the bucket only enforces the
+-- overall ceiling.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'chat-attachments',
+  'chat-attachments',
+  false,
+  26214400, -- 25MB
+  ARRAY[
+    'image/jpeg', 'image/png', 'image/gif', 'image/webp',
+    'application/pdf', 'text/plain', 'text/csv',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'video/mp4', 'video/quicktime', 'video/webm',
+    'audio/mpeg', 'audio/mp4', 'audio/wav', 'audio/webm'
+  ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Allow room participants to upload files to their rooms
+CREATE POLICY "Participants can upload chat attachments"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'chat-attachments' AND
+  (storage.foldername(name))[1] IN (
+    SELECT room_id::text FROM chat_participants WHERE user_id = auth.uid()
+  )
+);
+
+-- Allow only room participants to read files sent in their rooms
+CREATE POLICY "Participants can view chat attachments"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'chat-attachments' AND
+  (storage.foldername(name))[1] IN (
+    SELECT room_id::text FROM chat_participants WHERE user_id = auth.uid()
+  )
+);
+
+-- Allow uploaders to delete their own files
+CREATE POLICY "Users can delete own chat attachments"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'chat-attachments' AND
+  owner = auth.uid()
+);
+
+-- file_url and thumbnail_url hold storage paths in the chat-attachments
+-- bucket; clients create signed URLs to show and download them
+ALTER TABLE chat_attachments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view attachments in their chat rooms" ON chat_attachments;
+DROP POLICY IF EXISTS "Users can add attachments to their messages" ON chat_attachments;
+
+CREATE POLICY "Users can view attachments in their chat rooms"
+ON chat_attachments FOR SELECT
+USING (
+  message_id IN (
+    SELECT id FROM chat_messages
+    WHERE room_id IN (
+      SELECT room_id FROM chat_participants WHERE user_id = auth.uid()
+    )
+  )
+);
+
+CREATE POLICY "Users can add attachments to their messages"
+ON chat_attachments FOR INSERT
+WITH CHECK (
+  message_id IN (
+    SELECT id FROM chat_messages WHERE sender_id = auth.uid()
+  )
+);
+
+-- Send a message together with its attachments. Both are written in one
+-- transaction, so realtime subscribers never see the message without them.
+CREATE OR REPLACE FUNCTION send_chat_attachment_message(
+  p_room_id UUID,
+  p_content TEXT,
+  p_type TEXT,
+  p_attachments JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_message_id UUID;
+BEGIN
+  INSERT INTO chat_messages (room_id, sender_id, content, type)
+  VALUES (p_room_id, auth.uid(), p_content, p_type)
+  RETURNING id INTO v_message_id;
+
+  INSERT INTO chat_attachments (message_id, file_name, file_type, file_size, file_url, thumbnail_url)
+  SELECT
+    v_message_id,
+    attachment->>'file_name',
+    attachment->>'file_type',
+    (attachment->>'file_size')::INTEGER,
+    attachment->>'file_url',
+    attachment->>'thumbnail_url'
+  FROM jsonb_array_elements(p_attachments) AS attachment;
+
+  RETURN v_message_id;
+END;
+$$;
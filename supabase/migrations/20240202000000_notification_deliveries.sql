@@ -0,0 +1,45 @@
+-- Push and email notifications waiting to be sent. createNotification queues
+-- a row per channel the recipient has turned on (profiles.notification_settings);
+-- a row is due once send_after has passed, which holds it back during the
+-- recipient's quiet hours. Digest rows for a user are sent together as one
+-- daily email.
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  -- The matching in-app notification, if the recipient gets one
+  notification_id UUID REFERENCES notifications(id) ON DELETE SET NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('push', 'email')),
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  data JSONB,
+  send_after TIMESTAMPTZ NOT NULL DEFAULT now(),
+  is_digest BOOLEAN NOT NULL DEFAULT false,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_pending
+  ON notification_deliveries(send_after)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_user
+  ON notification_deliveries(user_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can view their own deliveries
+CREATE POLICY "Users can view their own notification deliveries"
+  ON notification_deliveries FOR SELECT
+  USING (user_id = auth.uid());
+
+-- Policy: Notifications are sent to coworkers, so any member of the
+-- organization can queue a delivery for another member
+CREATE POLICY "Users can queue notification deliveries in their organization"
+  ON notification_deliveries FOR INSERT
+  WITH CHECK (
+    organization_id = get_user_organization_id() AND
+    user_id IN (SELECT id FROM profiles WHERE organization_id = get_user_organization_id())
+  );
@@ -0,0 +1,11 @@
+-- Feed rows are read with the service role by the public iCal route, so a
+-- user must not be able to move their feed to another organization
+DROP POLICY IF EXISTS "Users can update their own calendar feed" ON calendar_feeds;
+
+CREATE POLICY "Users can update their own calendar feed"
+  ON calendar_feeds FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid()
+    AND organization_id = get_user_organization_id()
+  );
@@ -0,0 +1,39 @@
+-- Enforce manager group scopes on shifts in the database, so the schedule
+-- (which writes shifts with the browser client) cannot reach employees
+-- outside a manager's groups. Matches getManagedUserIds in lib/groups:
+-- only managers with at least one scope are limited, and open shifts (no
+-- user) are always allowed.
+CREATE OR REPLACE FUNCTION can_manage_user(target_user UUID)
+RETURNS BOOLEAN AS $$
+  SELECT
+    target_user IS NULL
+    OR COALESCE((SELECT role FROM profiles WHERE id = auth.uid()), '') <> 'manager'
+    OR NOT EXISTS (
+      SELECT 1 FROM manager_group_scopes WHERE manager_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM manager_group_scopes s
+      JOIN employee_group_members m ON m.group_id = s.group_id
+      WHERE s.manager_id = auth.uid() AND m.user_id = target_user
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Restrictive policies are combined with the existing shift policies using
+-- AND, so they only narrow what those already allow
+DROP POLICY IF EXISTS "Scoped managers can only insert shifts in their groups" ON shifts;
+DROP POLICY IF EXISTS "Scoped managers can only update shifts in their groups" ON shifts;
+DROP POLICY IF EXISTS "Scoped managers can only delete shifts in their groups" ON shifts;
+
+CREATE POLICY "Scoped managers can only insert shifts in their groups"
+  ON shifts AS RESTRICTIVE FOR INSERT
+  WITH CHECK (can_manage_user(user_id));
+
+CREATE POLICY "Scoped managers can only update shifts in their groups"
+  ON shifts AS RESTRICTIVE FOR UPDATE
+  USING (can_manage_user(user_id))
+  WITH CHECK (can_manage_user(user_id));
+
+CREATE POLICY "Scoped managers can only delete shifts in their groups"
+  ON shifts AS RESTRICTIVE FOR DELETE
+  USING (can_manage_user(user_id));
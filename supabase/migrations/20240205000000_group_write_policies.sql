@@ -0,0 +1,36 @@
+-- Group memberships decide what a scoped manager can manage, so they are
+-- only changed through the groups API (service role), the same way
+-- manager_group_scopes is. Without this a scoped manager could add anyone
+-- to their own group and widen their scope.
+DROP POLICY IF EXISTS "Admins and managers can insert employee group members" ON employee_group_members;
+DROP POLICY IF EXISTS "Admins and managers can delete employee group members" ON employee_group_members;
+
+-- Scoped managers cannot change groups either: deleting their group would
+-- remove their scope and leave them managing the whole organization
+DROP POLICY IF EXISTS "Admins and managers can insert employee groups" ON employee_groups;
+DROP POLICY IF EXISTS "Admins and managers can update employee groups" ON employee_groups;
+DROP POLICY IF EXISTS "Admins and managers can delete employee groups" ON employee_groups;
+
+CREATE POLICY "Admins and managers can insert employee groups"
+  ON employee_groups FOR INSERT
+  WITH CHECK (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+    AND NOT EXISTS (SELECT 1 FROM manager_group_scopes WHERE manager_id = auth.uid())
+  );
+
+CREATE POLICY "Admins and managers can update employee groups"
+  ON employee_groups FOR UPDATE
+  USING (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+    AND NOT EXISTS (SELECT 1 FROM manager_group_scopes WHERE manager_id = auth.uid())
+  );
+
+CREATE POLICY "Admins and managers can delete employee groups"
+  ON employee_groups FOR DELETE
+  USING (
+    organization_id = get_user_organization_id()
+    AND is_user_manager_or_admin()
+    AND NOT EXISTS (SELECT 1 FROM manager_group_scopes WHERE manager_id = auth.uid())
+  );
@@ -0,0 +1,40 @@
+-- Browser push subscriptions saved by the push notification settings. The
+-- notification dispatcher sends to every subscription a user has and removes
+-- ones the push service reports as gone.
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, endpoint)
+);
+
+-- Enable RLS
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own push subscriptions" ON push_subscriptions;
+DROP POLICY IF EXISTS "Users can add their own push subscriptions" ON push_subscriptions;
+DROP POLICY IF EXISTS "Users can update their own push subscriptions" ON push_subscriptions;
+DROP POLICY IF EXISTS "Users can delete their own push subscriptions" ON push_subscriptions;
+
+CREATE POLICY "Users can view their own push subscriptions"
+  ON push_subscriptions FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can add their own push subscriptions"
+  ON push_subscriptions FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own push subscriptions"
+  ON push_subscriptions FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own push subscriptions"
+  ON push_subscriptions FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Why a delivery failed, e.g. no push subscriptions or email not configured
+ALTER TABLE notification_deliveries ADD COLUMN IF NOT EXISTS error TEXT;
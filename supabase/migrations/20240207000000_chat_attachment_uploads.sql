@@ -0,0 +1,44 @@
+-- The organization's attachment limits (enabled flag, size, file types) are
+-- checked by the attachments API, so files are only stored and attached
+-- through it (service role). Without this a participant could upload to the
+-- bucket directly and attach any file the bucket accepts.
+DROP POLICY IF EXISTS "Participants can upload chat attachments" ON storage.objects;
+DROP POLICY IF EXISTS "Users can add attachments to their messages" ON chat_attachments;
+
+-- The API sends as the authenticated user, so the sender is passed in
+DROP FUNCTION IF EXISTS send_chat_attachment_message(UUID, TEXT, TEXT, JSONB);
+
+CREATE OR REPLACE FUNCTION send_chat_attachment_message(
+  p_room_id UUID,
+  p_sender_id UUID,
+  p_content TEXT,
+  p_type TEXT,
+  p_attachments JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_message_id UUID;
+BEGIN
+  INSERT INTO chat_messages (room_id, sender_id, content, type)
+  VALUES (p_room_id, p_sender_id, p_content, p_type)
+  RETURNING id INTO v_message_id;
+
+  INSERT INTO chat_attachments (message_id, file_name, file_type, file_size, file_url, thumbnail_url)
+  SELECT
+    v_message_id,
+    attachment->>'file_name',
+    attachment->>'file_type',
+    (attachment->>'file_size')::INTEGER,
+    attachment->>'file_url',
+    attachment->>'thumbnail_url'
+  FROM jsonb_array_elements(p_attachments) AS attachment;
+
+  RETURN v_message_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION send_chat_attachment_message(UUID, UUID, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION send_chat_attachment_message(UUID, UUID, TEXT, TEXT, JSONB) TO service_role;
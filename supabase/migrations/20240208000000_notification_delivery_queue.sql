@@ -0,0 +1,85 @@
+-- Deliveries are emailed and pushed from the company's sender, so users can
+-- no longer write them directly: they are queued by queue_notification_deliveries,
+-- which copies the title and body from a notification the caller was allowed
+-- to create
+DROP POLICY IF EXISTS "Users can queue notification deliveries in their organization" ON notification_deliveries;
+
+-- Queue push and email deliveries for a stored notification. p_deliveries
+-- holds { channel, send_after, is_digest } per delivery, as planned from the
+-- recipient's preferences. When the recipient has in-app notifications
+-- turned off the notification only carries the message, so it is removed
+-- once the deliveries are queued.
+CREATE OR REPLACE FUNCTION queue_notification_deliveries(
+  p_notification_id UUID,
+  p_deliveries JSONB,
+  p_keep_notification BOOLEAN DEFAULT true
+)
+RETURNS VOID AS $$
+DECLARE
+  v_notification notifications%ROWTYPE;
+BEGIN
+  SELECT * INTO v_notification FROM notifications WHERE id = p_notification_id;
+
+  IF NOT FOUND OR (
+    auth.role() IS DISTINCT FROM 'service_role' AND
+    v_notification.organization_id IS DISTINCT FROM get_user_organization_id()
+  ) THEN
+    RAISE EXCEPTION 'Notification not found';
+  END IF;
+
+  -- A notification is only delivered once
+  IF EXISTS (SELECT 1 FROM notification_deliveries WHERE notification_id = p_notification_id) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO notification_deliveries (
+    organization_id, user_id, notification_id, channel, type, title, body, data, send_after, is_digest
+  )
+  SELECT
+    v_notification.organization_id,
+    v_notification.user_id,
+    CASE WHEN p_keep_notification THEN v_notification.id END,
+    delivery->>'channel',
+    v_notification.type,
+    v_notification.title,
+    v_notification.body,
+    v_notification.data,
+    COALESCE((delivery->>'send_after')::TIMESTAMPTZ, now()),
+    COALESCE((delivery->>'is_digest')::BOOLEAN, false)
+  FROM jsonb_array_elements(p_deliveries) AS delivery;
+
+  IF NOT p_keep_notification THEN
+    DELETE FROM notifications WHERE id = p_notification_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Deliveries claimed by a dispatcher run. Claimed rows are 'sending', so
+-- overlapping runs never send the same delivery twice; a run that dies
+-- leaves them behind, and they are claimed again after 15 minutes.
+ALTER TABLE notification_deliveries ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMPTZ;
+
+ALTER TABLE notification_deliveries DROP CONSTRAINT IF EXISTS notification_deliveries_status_check;
+ALTER TABLE notification_deliveries ADD CONSTRAINT notification_deliveries_status_check
+  CHECK (status IN ('pending', 'sending', 'sent', 'failed'));
+
+CREATE OR REPLACE FUNCTION claim_notification_deliveries(p_now TIMESTAMPTZ, p_limit INTEGER)
+RETURNS SETOF notification_deliveries AS $$
+  UPDATE notification_deliveries
+  SET status = 'sending', claimed_at = p_now
+  WHERE id IN (
+    SELECT id FROM notification_deliveries
+    WHERE send_after <= p_now
+      AND (
+        status = 'pending' OR
+        (status = 'sending' AND claimed_at < p_now - INTERVAL '15 minutes')
+      )
+    ORDER BY send_after
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION claim_notification_deliveries(TIMESTAMPTZ, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_notification_deliveries(TIMESTAMPTZ, INTEGER) TO service_role;
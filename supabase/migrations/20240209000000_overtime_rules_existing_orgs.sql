@@ -0,0 +1,20 @@
+-- Before overtime rules were configurable, every hour past 8 in a day was
+-- overtime. New organizations default to weekly overtime after 40 hours;
+-- save the old rule for existing organizations so their timesheets and
+-- reports don't change until they edit their rules.
+UPDATE organizations
+SET settings = jsonb_set(
+  COALESCE(settings, '{}'::jsonb),
+  '{overtimeRules}',
+  '{
+    "daily": { "enabled": true, "tiers": [{ "threshold": 8, "multiplier": 1.5 }] },
+    "weekly": { "enabled": false, "threshold": 40, "multiplier": 1.5 },
+    "consecutiveDay": {
+      "enabled": false,
+      "day": 7,
+      "tiers": [{ "threshold": 0, "multiplier": 1.5 }, { "threshold": 8, "multiplier": 2 }]
+    },
+    "weekStartsOn": 0
+  }'::jsonb
+)
+WHERE COALESCE(settings, '{}'::jsonb)->'overtimeRules' IS NULL;